@@ -15,12 +15,14 @@ async function main() {
       name: 'YAHSHUA OUTSOURCING WORLDWIDE, INC.',
       address: 'Unit #12 2F E-Max Building, Xavier Estates, Masterson Avenue, Upper Balulang, Cagayan De Oro City Misamis Oriental 9000',
       contactNumber: '0917-650-4003',
+      tin: '010-143-230-000',
       bankName: 'RCBC',
       bankAccountName: 'YAHSHUA OUTSOURCING WORLDWIDE, INC.',
       bankAccountNo: '7-590-53889-5',
       formReference: 'YOWI-FRM-03-012',
       invoicePrefix: 'S',
       nextInvoiceNo: 1,
+      creditNotePrefix: 'CN-YOWI-',
       logoPath: '/assets/yowi-logo.png',
     },
   });
@@ -35,12 +37,14 @@ async function main() {
       name: 'THE ABBA INITIATIVE, OPC',
       address: 'Unit #12 2F E-Max Building Xavier Estates Masterson Avenue, Upper Balulang, Cagayan De Oro City Misamis Oriental 9000',
       contactNumber: '0917-106-5249',
+      tin: '010-143-231-000',
       bankName: 'RCBC',
       bankAccountName: 'THE ABBA INITIATIVE, OPC',
       bankAccountNo: '7-590-59122-2',
       formReference: 'YOWI-FRM-03-012',
       invoicePrefix: 'S',
       nextInvoiceNo: 1,
+      creditNotePrefix: 'CN-ABBA-',
       logoPath: '/assets/abba-logo.png',
     },
   });
@@ -0,0 +1,73 @@
+/**
+ * Data migration script to backfill the payment ledger from invoices
+ * that were marked as paid before payments were tracked individually.
+ *
+ * Run with: npx tsx scripts/migrate-payments-ledger.ts
+ */
+
+import { PrismaClient } from '../src/generated/prisma';
+
+const prisma = new PrismaClient();
+
+async function migratePaymentsLedger() {
+  console.log('Starting payment ledger migration...');
+
+  const invoices = await prisma.invoice.findMany({
+    where: { status: 'PAID' },
+    select: {
+      id: true,
+      billingNo: true,
+      netAmount: true,
+      paidAmount: true,
+      paidAt: true,
+      paymentMethod: true,
+      paymentReference: true,
+      updatedAt: true,
+      _count: { select: { payments: true } },
+    },
+  });
+
+  console.log(`Found ${invoices.length} paid invoices to process`);
+
+  let created = 0;
+  let skipped = 0;
+
+  for (const invoice of invoices) {
+    // Skip if the invoice already has ledger entries
+    if (invoice._count.payments > 0) {
+      console.log(`Skipping ${invoice.billingNo || invoice.id} - already has payments`);
+      skipped++;
+      continue;
+    }
+
+    await prisma.payment.create({
+      data: {
+        invoiceId: invoice.id,
+        amount: invoice.paidAmount ?? invoice.netAmount,
+        paymentMethod: invoice.paymentMethod || 'BANK_TRANSFER',
+        reference: invoice.paymentReference,
+        paidAt: invoice.paidAt ?? invoice.updatedAt,
+        notes: 'Backfilled from invoice payment fields',
+        source: invoice.paymentMethod === 'HITPAY' ? 'HITPAY_WEBHOOK' : 'MANUAL',
+      },
+    });
+
+    console.log(`Created payment for ${invoice.billingNo || invoice.id}`);
+    created++;
+  }
+
+  console.log('\n--- Migration Summary ---');
+  console.log(`Total paid invoices: ${invoices.length}`);
+  console.log(`Payments created: ${created}`);
+  console.log(`Skipped (already migrated): ${skipped}`);
+  console.log('Migration complete!');
+}
+
+migratePaymentsLedger()
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,5 @@
+import { ArAgingPage } from '@/components/dashboard/ar-aging-page';
+
+export default function ArAging() {
+  return <ArAgingPage />;
+}
@@ -0,0 +1,5 @@
+import { Bir2307Page } from '@/components/dashboard/bir-2307-page';
+
+export default function Bir2307() {
+  return <Bir2307Page />;
+}
@@ -0,0 +1,5 @@
+import { CreditNotesPage } from '@/components/dashboard/credit-notes-page';
+
+export default function CreditNotes() {
+  return <CreditNotesPage />;
+}
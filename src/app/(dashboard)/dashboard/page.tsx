@@ -39,7 +39,7 @@ export default function DashboardPage() {
       vatAmount: Number(inv.vatAmount),
       netAmount: Number(inv.netAmount),
       dueDate: new Date(inv.dueDate),
-      billingEntity: inv.company?.code || 'YOWI',
+      billingEntity: inv.company?.code || '',
       billingModel: inv.billingModel,
       status: inv.status,
     }));
@@ -134,9 +134,9 @@ export default function DashboardPage() {
         method: 'POST',
       });
 
-      if (!response.ok) throw new Error('Failed to trigger billing');
-
       const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to trigger billing');
+
       alert(`Billing run complete!\nProcessed: ${data.processed}\nErrors: ${data.errors?.length || 0}`);
 
       // Refresh data
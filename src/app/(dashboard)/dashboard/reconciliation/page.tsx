@@ -0,0 +1,5 @@
+import { BankReconciliationPage } from '@/components/dashboard/bank-reconciliation-page';
+
+export default function Reconciliation() {
+  return <BankReconciliationPage />;
+}
@@ -0,0 +1,5 @@
+import { WebhookEventsPage } from '@/components/dashboard/webhook-events-page';
+
+export default function Webhooks() {
+  return <WebhookEventsPage />;
+}
@@ -3,8 +3,10 @@
 import { useState, useEffect } from 'react';
 import { Header } from '@/components/dashboard/header';
 import { Button } from '@/components/ui/button';
-import { Save, Loader2, RefreshCw, Palette, Building2, Plus, Trash2, Percent, Package } from 'lucide-react';
+import { Save, Loader2, RefreshCw, Palette, Building2, Plus, Trash2, Percent, Package, Mail } from 'lucide-react';
 import { EmailTemplatesPage } from '@/components/dashboard/email-templates-page';
+import { FollowUpLadderEditor } from '@/components/dashboard/follow-up-ladder-editor';
+import { HolidayCalendarEditor } from '@/components/dashboard/holiday-calendar-editor';
 
 interface Setting {
   key: string;
@@ -14,6 +16,13 @@ interface Setting {
   isDefault: boolean;
 }
 
+interface CronPreview {
+  timezone: string;
+  valid: boolean;
+  error?: string;
+  upcomingRuns: string[];
+}
+
 interface InvoiceTemplate {
   companyId: string;
   companyCode: string;
@@ -47,6 +56,26 @@ interface Company {
   contactNumber: string;
   tin: string;
   logoPath: string;
+  formReference: string;
+  contractPrefix: string;
+  creditNotePrefix: string;
+  // Email sender identity (SMTP password is write-only)
+  emailFromName: string;
+  emailFromAddress: string;
+  emailReplyTo: string;
+  emailBcc: string;
+  smtpHost: string;
+  smtpPort: number | null;
+  smtpSecure: boolean;
+  smtpUser: string;
+  // Online payment provider (API key and webhook secret are write-only)
+  paymentProvider: string | null;
+  paymentLinkExpiryDays: number | null;
+}
+
+interface PaymentSecrets {
+  apiKey: string;
+  webhookSecret: string;
 }
 
 interface WithholdingPreset {
@@ -64,8 +93,7 @@ export default function SettingsPage() {
   const [activeTab, setActiveTab] = useState('templates');
 
   // Template state
-  const [yowiTemplate, setYowiTemplate] = useState<InvoiceTemplate | null>(null);
-  const [abbaTemplate, setAbbaTemplate] = useState<InvoiceTemplate | null>(null);
+  const [templates, setTemplates] = useState<InvoiceTemplate[]>([]);
   const [savingTemplate, setSavingTemplate] = useState<string | null>(null);
   const [templatesLoading, setTemplatesLoading] = useState(false);
   const [templatesError, setTemplatesError] = useState<string | null>(null);
@@ -75,6 +103,12 @@ export default function SettingsPage() {
   const [companiesLoading, setCompaniesLoading] = useState(false);
   const [companiesError, setCompaniesError] = useState<string | null>(null);
   const [savingCompany, setSavingCompany] = useState<string | null>(null);
+  const [newCompany, setNewCompany] = useState({ code: '', name: '' });
+  const [smtpPasswords, setSmtpPasswords] = useState<Record<string, string>>({});
+  const [testEmailTo, setTestEmailTo] = useState<Record<string, string>>({});
+  const [paymentSecrets, setPaymentSecrets] = useState<Record<string, Partial<PaymentSecrets>>>({});
+  const [testingEmail, setTestingEmail] = useState<string | null>(null);
+  const [creatingCompany, setCreatingCompany] = useState(false);
 
   // Tax settings state
   const [vatRate, setVatRate] = useState<number>(0.12);
@@ -109,9 +143,42 @@ export default function SettingsPage() {
     { name: 'Follow-up Level 2 - Firm Reminder', subject: 'Second Notice: Invoice {{billingNo}} - Payment Overdue', greeting: 'Dear {{customerName}},', body: 'This is a follow-up regarding invoice {{billingNo}} for {{totalAmount}}, which was due on {{dueDate}} and is now {{daysOverdue}} days overdue.\n\nPlease arrange for payment at your earliest convenience.', closing: 'Thank you for your prompt attention.\n\nBest regards,\n{{companyName}} Billing Team', level: 2 },
     { name: 'Follow-up Level 3 - Final Notice', subject: 'URGENT: Final Notice - Invoice {{billingNo}}', greeting: 'Dear {{customerName}},', body: 'This is our final notice regarding invoice {{billingNo}} for {{totalAmount}}, which is now {{daysOverdue}} days past the due date.\n\nImmediate payment is required. Please contact us if you need to discuss payment arrangements.', closing: 'Sincerely,\n{{companyName}} Billing Team', level: 3 },
   ]);
+  const [bir2307Template, setBir2307Template] = useState<Omit<FollowUpTemplate, 'level'>>({
+    name: 'BIR 2307 Reminder',
+    subject: 'Request for BIR Form 2307 - Invoice {{billingNo}} ({{taxQuarter}})',
+    greeting: 'Dear {{customerName}},',
+    body: 'Our records show {{withholdingAmount}} withheld (ATC {{atcCode}}) on invoice {{billingNo}} for {{taxQuarter}}, but we have not yet received the corresponding BIR Form 2307.\n\nKindly send us a signed copy of the certificate at your earliest convenience so we can claim the tax credit.',
+    closing: 'Thank you for your assistance.\n\nBest regards,\n{{companyName}} Billing Team',
+  });
+  const [statementTemplate, setStatementTemplate] = useState<Omit<FollowUpTemplate, 'level'>>({
+    name: 'Statement of Account',
+    subject: 'Statement of Account - {{customerName}} ({{periodStart}} to {{periodEnd}})',
+    greeting: 'Dear {{customerName}},',
+    body: 'Please find attached your statement of account for {{periodStart}} to {{periodEnd}}, listing all invoices, payments and credits in the period.\n\nThe outstanding balance as of {{periodEnd}} is {{totalAmount}}.',
+    closing: 'Thank you for your continued business.\n\nBest regards,\n{{companyName}} Billing Team',
+  });
+  const [priceChangeTemplate, setPriceChangeTemplate] = useState<Omit<FollowUpTemplate, 'level'>>({
+    name: 'Price Change Notice',
+    subject: 'Upcoming billing change - {{clientCompanyName}}',
+    greeting: 'Dear {{customerName}},',
+    body: 'Starting {{effectiveDate}}, your recurring billing will change from {{previousAmount}} to {{totalAmount}}.\n\nReason: {{changeReason}}',
+    closing: 'Thank you for your continued business.\n\nBest regards,\n{{companyName}} Billing Team',
+  });
   const [followUpLoading, setFollowUpLoading] = useState(false);
+
+  const newFollowUpTemplate = (level: number): FollowUpTemplate => ({
+    name: `Follow-up Level ${level} - Escalation`,
+    subject: 'URGENT: Invoice {{billingNo}} - {{daysOverdue}} Days Overdue',
+    greeting: 'Dear {{customerName}},',
+    body: 'Invoice {{billingNo}} for {{totalAmount}} remains unpaid {{daysOverdue}} days after its due date of {{dueDate}}.\n\nPlease settle the balance or contact us immediately.',
+    closing: 'Sincerely,\n{{companyName}} Billing Team',
+    level,
+  });
   const [savingFollowUp, setSavingFollowUp] = useState(false);
 
+  // Scheduler cron preview
+  const [cronPreview, setCronPreview] = useState<CronPreview | null>(null);
+
   // Fetch settings
   const fetchSettings = async () => {
     try {
@@ -156,23 +223,22 @@ export default function SettingsPage() {
       setTemplatesLoading(true);
       setTemplatesError(null);
 
-      const [yowiRes, abbaRes] = await Promise.all([
-        fetch('/api/companies/YOWI/template'),
-        fetch('/api/companies/ABBA/template'),
-      ]);
+      // One template per billing entity
+      const companiesRes = await fetch('/api/companies?minimal=true');
+      if (!companiesRes.ok) throw new Error('Failed to fetch companies');
+      const companyList: { code: string }[] = await companiesRes.json();
+
+      const responses = await Promise.all(
+        companyList.map((company) => fetch(`/api/companies/${company.code}/template`))
+      );
 
-      if (!yowiRes.ok || !abbaRes.ok) {
-        const errorData = !yowiRes.ok ? await yowiRes.json() : await abbaRes.json();
+      const failed = responses.find((res) => !res.ok);
+      if (failed) {
+        const errorData = await failed.json();
         throw new Error(errorData.error || 'Failed to fetch templates');
       }
 
-      const [yowiData, abbaData] = await Promise.all([
-        yowiRes.json(),
-        abbaRes.json(),
-      ]);
-
-      setYowiTemplate(yowiData);
-      setAbbaTemplate(abbaData);
+      setTemplates(await Promise.all(responses.map((res) => res.json())));
     } catch (err: any) {
       console.error('Error fetching templates:', err);
       setTemplatesError(err.message || 'Failed to load templates');
@@ -212,8 +278,12 @@ export default function SettingsPage() {
       const followUpTpls = data.filter((t: any) => t.templateType === 'FOLLOW_UP');
 
       // Map to our state structure
+      // Levels beyond the built-in three exist when the escalation ladder is extended
       if (followUpTpls.length > 0) {
-        const mapped = [1, 2, 3].map((level) => {
+        const levels: number[] = Array.from(
+          new Set<number>([1, 2, 3, ...followUpTpls.map((t: any) => t.followUpLevel).filter(Boolean)])
+        ).sort((a, b) => a - b);
+        const mapped = levels.map((level) => {
           const existing = followUpTpls.find((t: any) => t.followUpLevel === level);
           if (existing) {
             return {
@@ -227,10 +297,46 @@ export default function SettingsPage() {
             };
           }
           // Return default if not found
-          return followUpTemplates.find((t) => t.level === level)!;
+          return followUpTemplates.find((t) => t.level === level) || newFollowUpTemplate(level);
         });
         setFollowUpTemplates(mapped);
       }
+
+      const bir2307Tpl = data.find((t: any) => t.templateType === 'BIR_2307');
+      if (bir2307Tpl) {
+        setBir2307Template({
+          id: bir2307Tpl.id,
+          name: bir2307Tpl.name,
+          subject: bir2307Tpl.subject,
+          greeting: bir2307Tpl.greeting,
+          body: bir2307Tpl.body,
+          closing: bir2307Tpl.closing,
+        });
+      }
+
+      const statementTpl = data.find((t: any) => t.templateType === 'STATEMENT');
+      if (statementTpl) {
+        setStatementTemplate({
+          id: statementTpl.id,
+          name: statementTpl.name,
+          subject: statementTpl.subject,
+          greeting: statementTpl.greeting,
+          body: statementTpl.body,
+          closing: statementTpl.closing,
+        });
+      }
+
+      const priceChangeTpl = data.find((t: any) => t.templateType === 'PRICE_CHANGE');
+      if (priceChangeTpl) {
+        setPriceChangeTemplate({
+          id: priceChangeTpl.id,
+          name: priceChangeTpl.name,
+          subject: priceChangeTpl.subject,
+          greeting: priceChangeTpl.greeting,
+          body: priceChangeTpl.body,
+          closing: priceChangeTpl.closing,
+        });
+      }
     } catch (err: any) {
       console.error('Error fetching follow-up templates:', err);
     } finally {
@@ -278,6 +384,91 @@ export default function SettingsPage() {
         }
       }
 
+      // BIR 2307 reminder template (POST upserts the single BIR_2307 template)
+      const bir2307Response = await fetch(
+        bir2307Template.id ? `/api/email-templates/${bir2307Template.id}` : '/api/email-templates',
+        {
+          method: bir2307Template.id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: bir2307Template.name,
+            subject: bir2307Template.subject,
+            greeting: bir2307Template.greeting,
+            body: bir2307Template.body,
+            closing: bir2307Template.closing,
+            templateType: 'BIR_2307',
+            isDefault: false,
+          }),
+        }
+      );
+
+      if (!bir2307Response.ok) {
+        const errorData = await bir2307Response.json();
+        throw new Error(errorData.error || 'Failed to save BIR 2307 template');
+      }
+
+      // Statement of account template (POST upserts the single STATEMENT template)
+      const statementResponse = await fetch(
+        statementTemplate.id ? `/api/email-templates/${statementTemplate.id}` : '/api/email-templates',
+        {
+          method: statementTemplate.id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: statementTemplate.name,
+            subject: statementTemplate.subject,
+            greeting: statementTemplate.greeting,
+            body: statementTemplate.body,
+            closing: statementTemplate.closing,
+            templateType: 'STATEMENT',
+            isDefault: false,
+          }),
+        }
+      );
+
+      if (!statementResponse.ok) {
+        const errorData = await statementResponse.json();
+        throw new Error(errorData.error || 'Failed to save statement template');
+      }
+
+      // Price change notice template (POST upserts the single PRICE_CHANGE template)
+      const priceChangeResponse = await fetch(
+        priceChangeTemplate.id ? `/api/email-templates/${priceChangeTemplate.id}` : '/api/email-templates',
+        {
+          method: priceChangeTemplate.id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: priceChangeTemplate.name,
+            subject: priceChangeTemplate.subject,
+            greeting: priceChangeTemplate.greeting,
+            body: priceChangeTemplate.body,
+            closing: priceChangeTemplate.closing,
+            templateType: 'PRICE_CHANGE',
+            isDefault: false,
+          }),
+        }
+      );
+
+      if (!priceChangeResponse.ok) {
+        const errorData = await priceChangeResponse.json();
+        throw new Error(errorData.error || 'Failed to save price change template');
+      }
+
+      // Auto-send toggle (level delays live on the escalation ladder)
+      const dunningResponse = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          settings: [
+            { key: 'followUp.autoSendEnabled', value: followUpAutoSend },
+            { key: 'followUp.businessDaysOnly', value: followUpBusinessDaysOnly },
+          ],
+        }),
+      });
+
+      if (!dunningResponse.ok) {
+        throw new Error('Failed to save follow-up schedule');
+      }
+
       setSuccess('Follow-up templates saved successfully');
       fetchFollowUpTemplates(); // Refresh
     } catch (err: any) {
@@ -301,8 +492,8 @@ export default function SettingsPage() {
   }, [activeTab]);
 
   // Save template (includes branding, bank details, and signatories)
-  const saveTemplate = async (companyCode: 'YOWI' | 'ABBA') => {
-    const template = companyCode === 'YOWI' ? yowiTemplate : abbaTemplate;
+  const saveTemplate = async (companyCode: string) => {
+    const template = templates.find((t) => t.companyCode === companyCode);
     if (!template) return;
 
     try {
@@ -346,12 +537,10 @@ export default function SettingsPage() {
   };
 
   // Update template field
-  const updateTemplate = (companyCode: 'YOWI' | 'ABBA', field: keyof InvoiceTemplate, value: any) => {
-    if (companyCode === 'YOWI' && yowiTemplate) {
-      setYowiTemplate({ ...yowiTemplate, [field]: value });
-    } else if (companyCode === 'ABBA' && abbaTemplate) {
-      setAbbaTemplate({ ...abbaTemplate, [field]: value });
-    }
+  const updateTemplate = (companyCode: string, field: keyof InvoiceTemplate, value: any) => {
+    setTemplates((prev) =>
+      prev.map((t) => (t.companyCode === companyCode ? { ...t, [field]: value } : t))
+    );
     setSuccess(null);
   };
 
@@ -382,11 +571,33 @@ export default function SettingsPage() {
           contactNumber: company.contactNumber,
           tin: company.tin,
           logoPath: company.logoPath,
+          formReference: company.formReference,
+          contractPrefix: company.contractPrefix,
+          creditNotePrefix: company.creditNotePrefix,
+          emailFromName: company.emailFromName,
+          emailFromAddress: company.emailFromAddress,
+          emailReplyTo: company.emailReplyTo,
+          emailBcc: company.emailBcc,
+          smtpHost: company.smtpHost,
+          smtpPort: company.smtpPort,
+          smtpSecure: company.smtpSecure,
+          smtpUser: company.smtpUser,
+          // Blank keeps the stored password
+          smtpPassword: smtpPasswords[companyCode] || undefined,
+          paymentProvider: company.paymentProvider || null,
+          paymentLinkExpiryDays: company.paymentLinkExpiryDays,
+          paymentApiKey: paymentSecrets[companyCode]?.apiKey || undefined,
+          paymentWebhookSecret: paymentSecrets[companyCode]?.webhookSecret || undefined,
         }),
       });
 
-      if (!response.ok) throw new Error('Failed to save company');
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save company');
+      }
 
+      setSmtpPasswords((prev) => ({ ...prev, [companyCode]: '' }));
+      setPaymentSecrets((prev) => ({ ...prev, [companyCode]: {} }));
       setSuccess(`${companyCode} company details saved successfully!`);
     } catch (err: any) {
       setError(err.message);
@@ -395,6 +606,56 @@ export default function SettingsPage() {
     }
   };
 
+  // Send a test email from a company's sender (uses the saved settings)
+  const sendCompanyTestEmail = async (companyCode: string) => {
+    try {
+      setTestingEmail(companyCode);
+      setError(null);
+      setSuccess(null);
+
+      const response = await fetch(`/api/companies/${companyCode}/test-email`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ toEmail: testEmailTo[companyCode] || undefined }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to send test email');
+
+      setSuccess(data.message);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setTestingEmail(null);
+    }
+  };
+
+  // Create a new billing entity
+  const createCompany = async () => {
+    try {
+      setCreatingCompany(true);
+      setError(null);
+      setSuccess(null);
+
+      const response = await fetch('/api/companies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newCompany),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create billing entity');
+
+      setNewCompany({ code: '', name: '' });
+      setSuccess(`${data.code} billing entity created. Set up its invoice template in the Invoice Templates tab.`);
+      await fetchCompanies();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setCreatingCompany(false);
+    }
+  };
+
   // Add a new withholding preset
   const addWithholdingPreset = () => {
     if (!newPreset.rate || !newPreset.code || !newPreset.label) {
@@ -540,7 +801,10 @@ export default function SettingsPage() {
         }),
       });
 
-      if (!response.ok) throw new Error('Failed to save settings');
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save settings');
+      }
 
       setSuccess('Settings saved successfully!');
       await fetchSettings();
@@ -554,6 +818,29 @@ export default function SettingsPage() {
   // Filter settings by category
   const filteredSettings = settings.filter((s) => s.category === activeTab);
 
+  const cronExpression = settings.find((s) => s.key === 'scheduler.cronExpression')?.value;
+
+  // Preview upcoming billing runs as the cron expression is edited
+  useEffect(() => {
+    if (activeTab !== 'scheduler' || typeof cronExpression !== 'string') return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/scheduler/preview?cronExpression=${encodeURIComponent(cronExpression)}`);
+        if (!response.ok) throw new Error('Failed to preview cron expression');
+        setCronPreview(await response.json());
+      } catch {
+        setCronPreview(null);
+      }
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [activeTab, cronExpression]);
+
+  // Dunning settings are edited alongside the follow-up templates
+  const followUpAutoSend = settings.find((s) => s.key === 'followUp.autoSendEnabled')?.value === true;
+  const followUpBusinessDaysOnly = settings.find((s) => s.key === 'followUp.businessDaysOnly')?.value === true;
+
   const renderInput = (setting: Setting) => {
     const isBoolean = typeof setting.value === 'boolean';
     const isNumber = typeof setting.value === 'number';
@@ -616,12 +903,13 @@ export default function SettingsPage() {
     { id: 'tax', label: 'Tax' },
     { id: 'productTypes', label: 'Product Types' },
     { id: 'scheduler', label: 'Scheduler' },
+    { id: 'holidays', label: 'Holidays' },
     { id: 'email', label: 'Email Templates' },
     { id: 'follow-up', label: 'Follow-up Emails' },
   ];
 
   // Render template editor card
-  const renderTemplateEditor = (template: InvoiceTemplate | null, companyCode: 'YOWI' | 'ABBA') => {
+  const renderTemplateEditor = (template: InvoiceTemplate | null, companyCode: string) => {
     if (!template) {
       return (
         <div className="flex items-center justify-center py-8 text-gray-500">
@@ -1035,27 +1323,17 @@ export default function SettingsPage() {
                   </div>
                 ) : (
                   <>
-                    {/* YOWI Template */}
-                    <div>
-                      <div className="flex items-center gap-2 mb-4 pb-2 border-b">
-                        <Palette className="h-5 w-5 text-blue-600" />
-                        <h3 className="text-lg font-semibold text-gray-900">
-                          YOWI Invoice Template
-                        </h3>
-                      </div>
-                      {renderTemplateEditor(yowiTemplate, 'YOWI')}
-                    </div>
-
-                    {/* ABBA Template */}
-                    <div>
-                      <div className="flex items-center gap-2 mb-4 pb-2 border-b">
-                        <Palette className="h-5 w-5 text-green-600" />
-                        <h3 className="text-lg font-semibold text-gray-900">
-                          ABBA Invoice Template
-                        </h3>
+                    {templates.map((template) => (
+                      <div key={template.companyCode}>
+                        <div className="flex items-center gap-2 mb-4 pb-2 border-b">
+                          <Palette className="h-5 w-5" style={{ color: template.primaryColor }} />
+                          <h3 className="text-lg font-semibold text-gray-900">
+                            {template.companyCode} Invoice Template
+                          </h3>
+                        </div>
+                        {renderTemplateEditor(template, template.companyCode)}
                       </div>
-                      {renderTemplateEditor(abbaTemplate, 'ABBA')}
-                    </div>
+                    ))}
                   </>
                 )}
               </div>
@@ -1087,7 +1365,7 @@ export default function SettingsPage() {
                     {companies.map((company) => (
                       <div key={company.code}>
                         <div className="flex items-center gap-2 mb-4 pb-2 border-b">
-                          <Building2 className={`h-5 w-5 ${company.code === 'YOWI' ? 'text-blue-600' : 'text-green-600'}`} />
+                          <Building2 className="h-5 w-5 text-blue-600" />
                           <h3 className="text-lg font-semibold text-gray-900">
                             {company.code} Company Details
                           </h3>
@@ -1154,6 +1432,266 @@ export default function SettingsPage() {
                               />
                             </div>
                           </div>
+                          <div className="grid grid-cols-3 gap-4">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Contract Prefix
+                              </label>
+                              <input
+                                type="text"
+                                value={company.contractPrefix || ''}
+                                onChange={(e) => updateCompany(company.code, 'contractPrefix', e.target.value)}
+                                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                placeholder={company.code}
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Credit Note Prefix
+                              </label>
+                              <input
+                                type="text"
+                                value={company.creditNotePrefix || ''}
+                                onChange={(e) => updateCompany(company.code, 'creditNotePrefix', e.target.value)}
+                                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                placeholder={`CN-${company.code}-`}
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Form Reference
+                              </label>
+                              <input
+                                type="text"
+                                value={company.formReference || ''}
+                                onChange={(e) => updateCompany(company.code, 'formReference', e.target.value)}
+                                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                              />
+                            </div>
+                          </div>
+
+                          {/* Email Sender */}
+                          <div className="pt-4 border-t space-y-4">
+                            <div>
+                              <h4 className="text-sm font-semibold text-gray-900">Email Sender</h4>
+                              <p className="text-xs text-gray-500">
+                                Invoices for {company.code} are sent with these details. Blank fields use the system email settings.
+                              </p>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  From Name
+                                </label>
+                                <input
+                                  type="text"
+                                  value={company.emailFromName || ''}
+                                  onChange={(e) => updateCompany(company.code, 'emailFromName', e.target.value)}
+                                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                  placeholder={`${company.code} Billing`}
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  From Address
+                                </label>
+                                <input
+                                  type="email"
+                                  value={company.emailFromAddress || ''}
+                                  onChange={(e) => updateCompany(company.code, 'emailFromAddress', e.target.value)}
+                                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                  placeholder="billing@example.com"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  Reply-To
+                                </label>
+                                <input
+                                  type="email"
+                                  value={company.emailReplyTo || ''}
+                                  onChange={(e) => updateCompany(company.code, 'emailReplyTo', e.target.value)}
+                                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  BCC
+                                </label>
+                                <input
+                                  type="text"
+                                  value={company.emailBcc || ''}
+                                  onChange={(e) => updateCompany(company.code, 'emailBcc', e.target.value)}
+                                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                />
+                              </div>
+                            </div>
+                            <div className="grid grid-cols-4 gap-4">
+                              <div className="col-span-2">
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  SMTP Host
+                                </label>
+                                <input
+                                  type="text"
+                                  value={company.smtpHost || ''}
+                                  onChange={(e) => updateCompany(company.code, 'smtpHost', e.target.value)}
+                                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                  placeholder="smtp.gmail.com"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  Port
+                                </label>
+                                <input
+                                  type="number"
+                                  value={company.smtpPort ?? ''}
+                                  onChange={(e) => updateCompany(company.code, 'smtpPort', e.target.value ? parseInt(e.target.value) : null)}
+                                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                  placeholder="587"
+                                />
+                              </div>
+                              <div className="flex items-end pb-2">
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                  <input
+                                    type="checkbox"
+                                    checked={company.smtpSecure || false}
+                                    onChange={(e) => updateCompany(company.code, 'smtpSecure', e.target.checked)}
+                                    className="h-4 w-4 rounded border-gray-300"
+                                  />
+                                  Use SSL
+                                </label>
+                              </div>
+                              <div className="col-span-2">
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  SMTP User
+                                </label>
+                                <input
+                                  type="text"
+                                  value={company.smtpUser || ''}
+                                  onChange={(e) => updateCompany(company.code, 'smtpUser', e.target.value)}
+                                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                />
+                              </div>
+                              <div className="col-span-2">
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  SMTP Password
+                                </label>
+                                <input
+                                  type="password"
+                                  value={smtpPasswords[company.code] || ''}
+                                  onChange={(e) => setSmtpPasswords((prev) => ({ ...prev, [company.code]: e.target.value }))}
+                                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                  placeholder="Leave blank to keep the current password"
+                                  autoComplete="new-password"
+                                />
+                              </div>
+                            </div>
+                            <div className="flex items-end gap-2">
+                              <div className="flex-1">
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  Send Test Email To
+                                </label>
+                                <input
+                                  type="email"
+                                  value={testEmailTo[company.code] || ''}
+                                  onChange={(e) => setTestEmailTo((prev) => ({ ...prev, [company.code]: e.target.value }))}
+                                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                  placeholder="Your email (default)"
+                                />
+                              </div>
+                              <Button
+                                variant="outline"
+                                onClick={() => sendCompanyTestEmail(company.code)}
+                                disabled={testingEmail === company.code}
+                              >
+                                {testingEmail === company.code ? (
+                                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Mail className="mr-2 h-4 w-4" />
+                                )}
+                                Send Test Email
+                              </Button>
+                            </div>
+                          </div>
+
+                          {/* Online Payments */}
+                          <div className="pt-4 border-t space-y-4">
+                            <div>
+                              <h4 className="text-sm font-semibold text-gray-900">Online Payments</h4>
+                              <p className="text-xs text-gray-500">
+                                Payment links for {company.code} invoices are created with this provider. Blank credentials use the system account.
+                              </p>
+                            </div>
+                            <div className="grid grid-cols-4 gap-4">
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  Provider
+                                </label>
+                                <select
+                                  value={company.paymentProvider || ''}
+                                  onChange={(e) => updateCompany(company.code, 'paymentProvider', e.target.value || null)}
+                                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                >
+                                  <option value="">Default (HitPay)</option>
+                                  <option value="HITPAY">HitPay</option>
+                                </select>
+                              </div>
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  API Key
+                                </label>
+                                <input
+                                  type="password"
+                                  value={paymentSecrets[company.code]?.apiKey || ''}
+                                  onChange={(e) =>
+                                    setPaymentSecrets((prev) => ({
+                                      ...prev,
+                                      [company.code]: { ...prev[company.code], apiKey: e.target.value },
+                                    }))
+                                  }
+                                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                  placeholder="Leave blank to keep the current key"
+                                  autoComplete="new-password"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  Webhook Secret
+                                </label>
+                                <input
+                                  type="password"
+                                  value={paymentSecrets[company.code]?.webhookSecret || ''}
+                                  onChange={(e) =>
+                                    setPaymentSecrets((prev) => ({
+                                      ...prev,
+                                      [company.code]: { ...prev[company.code], webhookSecret: e.target.value },
+                                    }))
+                                  }
+                                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                  placeholder="Leave blank to keep the current secret"
+                                  autoComplete="new-password"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  Link Expiry (days)
+                                </label>
+                                <input
+                                  type="number"
+                                  min={1}
+                                  value={company.paymentLinkExpiryDays ?? ''}
+                                  onChange={(e) => updateCompany(company.code, 'paymentLinkExpiryDays', e.target.value ? parseInt(e.target.value) : null)}
+                                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                                  placeholder="7"
+                                />
+                              </div>
+                            </div>
+                            <p className="text-xs text-gray-500">
+                              Webhook URL: /api/webhooks/payments/{(company.paymentProvider || 'HITPAY').toLowerCase()}.
+                              Expired links, and links for a balance that changed, are replaced when the invoice or a follow-up is sent.
+                            </p>
+                          </div>
                           <div className="pt-4 border-t">
                             <Button
                               onClick={() => saveCompany(company.code)}
@@ -1170,6 +1708,57 @@ export default function SettingsPage() {
                         </div>
                       </div>
                     ))}
+
+                    {/* New Billing Entity */}
+                    <div>
+                      <div className="flex items-center gap-2 mb-4 pb-2 border-b">
+                        <Plus className="h-5 w-5 text-gray-600" />
+                        <h3 className="text-lg font-semibold text-gray-900">
+                          Add Billing Entity
+                        </h3>
+                      </div>
+                      <div className="grid grid-cols-3 gap-4 items-end">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Code
+                          </label>
+                          <input
+                            type="text"
+                            value={newCompany.code}
+                            onChange={(e) => setNewCompany({ ...newCompany, code: e.target.value.toUpperCase() })}
+                            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                            placeholder="e.g., NEWCO"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Company Name
+                          </label>
+                          <input
+                            type="text"
+                            value={newCompany.name}
+                            onChange={(e) => setNewCompany({ ...newCompany, name: e.target.value })}
+                            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                          />
+                        </div>
+                        <div>
+                          <Button
+                            onClick={createCompany}
+                            disabled={creatingCompany || !newCompany.code || !newCompany.name}
+                          >
+                            {creatingCompany ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Plus className="mr-2 h-4 w-4" />
+                            )}
+                            Create Billing Entity
+                          </Button>
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-2">
+                        A default invoice template and a Direct partner are created with the entity.
+                      </p>
+                    </div>
                   </>
                 )}
               </div>
@@ -1445,6 +2034,11 @@ export default function SettingsPage() {
               </div>
             )}
 
+            {/* Holidays Tab */}
+            {activeTab === 'holidays' && (
+              <HolidayCalendarEditor />
+            )}
+
             {/* Email Templates Tab */}
             {activeTab === 'email' && (
               <EmailTemplatesPage />
@@ -1456,6 +2050,34 @@ export default function SettingsPage() {
                 {filteredSettings
                   .filter(s => s.key !== 'scheduler.enabled')
                   .map(renderSettingRow)}
+
+                {/* Upcoming Runs */}
+                {cronPreview && (
+                  <div className={`mt-6 rounded-lg border p-4 ${cronPreview.valid ? 'bg-gray-50' : 'border-red-200 bg-red-50'}`}>
+                    <h4 className="text-sm font-medium text-gray-900 mb-2">Upcoming Billing Runs ({cronPreview.timezone})</h4>
+                    {!cronPreview.valid ? (
+                      <p className="text-sm text-red-700">Invalid cron expression: {cronPreview.error}</p>
+                    ) : cronPreview.upcomingRuns.length === 0 ? (
+                      <p className="text-sm text-gray-600">This cron expression never runs.</p>
+                    ) : (
+                      <ul className="space-y-1 text-sm text-gray-700">
+                        {cronPreview.upcomingRuns.map((run) => (
+                          <li key={run}>
+                            {new Date(run).toLocaleString('en-PH', {
+                              timeZone: cronPreview.timezone,
+                              weekday: 'short',
+                              month: 'short',
+                              day: 'numeric',
+                              year: 'numeric',
+                              hour: 'numeric',
+                              minute: '2-digit',
+                            })}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </div>
             )}
 
@@ -1466,7 +2088,7 @@ export default function SettingsPage() {
                   <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
                   Reset
                 </Button>
-                <Button onClick={handleSave} disabled={saving}>
+                <Button onClick={handleSave} disabled={saving || cronPreview?.valid === false}>
                   {saving ? (
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   ) : (
@@ -1497,7 +2119,7 @@ export default function SettingsPage() {
                     <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
                       <h4 className="font-medium text-blue-900 mb-2">Available Placeholders</h4>
                       <div className="flex flex-wrap gap-2">
-                        {['{{customerName}}', '{{billingNo}}', '{{dueDate}}', '{{totalAmount}}', '{{daysOverdue}}', '{{companyName}}'].map((placeholder) => (
+                        {['{{customerName}}', '{{billingNo}}', '{{dueDate}}', '{{totalAmount}}', '{{daysOverdue}}', '{{companyName}}', '{{paymentUrl}}'].map((placeholder) => (
                           <code key={placeholder} className="bg-white px-2 py-1 rounded text-sm text-blue-800 border border-blue-200">
                             {placeholder}
                           </code>
@@ -1505,6 +2127,46 @@ export default function SettingsPage() {
                       </div>
                     </div>
 
+                    {/* Automatic Follow-ups */}
+                    <div className="border rounded-lg p-4 flex items-start justify-between gap-4">
+                      <div>
+                        <h4 className="font-medium text-gray-900">Automatic Follow-ups</h4>
+                        <p className="text-sm text-gray-600">
+                          The daily scheduler sends the next follow-up level once an invoice is overdue by the number of days set on its escalation ladder.
+                        </p>
+                      </div>
+                      <label className="flex items-center gap-2 whitespace-nowrap">
+                        <input
+                          type="checkbox"
+                          checked={followUpAutoSend}
+                          onChange={(e) => updateSetting('followUp.autoSendEnabled', e.target.checked)}
+                          className="h-4 w-4 rounded border-gray-300"
+                        />
+                        <span className="text-sm text-gray-600">Enabled</span>
+                      </label>
+                    </div>
+
+                    <div className="border rounded-lg p-4 flex items-start justify-between gap-4">
+                      <div>
+                        <h4 className="font-medium text-gray-900">Count Business Days Only</h4>
+                        <p className="text-sm text-gray-600">
+                          Count follow-up delays in business days, skipping weekends and the holidays on the holiday calendar.
+                        </p>
+                      </div>
+                      <label className="flex items-center gap-2 whitespace-nowrap">
+                        <input
+                          type="checkbox"
+                          checked={followUpBusinessDaysOnly}
+                          onChange={(e) => updateSetting('followUp.businessDaysOnly', e.target.checked)}
+                          className="h-4 w-4 rounded border-gray-300"
+                        />
+                        <span className="text-sm text-gray-600">Enabled</span>
+                      </label>
+                    </div>
+
+                    {/* Escalation Ladder */}
+                    <FollowUpLadderEditor />
+
                     {/* Template Editors */}
                     {followUpTemplates.map((template, index) => (
                       <div key={template.level} className="border rounded-lg p-6 space-y-4">
@@ -1512,7 +2174,8 @@ export default function SettingsPage() {
                           <span className={`inline-flex items-center justify-center h-8 w-8 rounded-full text-white font-bold text-sm ${
                             template.level === 1 ? 'bg-yellow-500' :
                             template.level === 2 ? 'bg-orange-500' :
-                            'bg-red-500'
+                            template.level === 3 ? 'bg-red-500' :
+                            'bg-red-700'
                           }`}>
                             {template.level}
                           </span>
@@ -1520,12 +2183,14 @@ export default function SettingsPage() {
                             <h4 className="font-semibold text-gray-900">
                               {template.level === 1 ? 'Gentle Reminder' :
                                template.level === 2 ? 'Firm Reminder' :
-                               'Final Notice'}
+                               template.level === 3 ? 'Final Notice' :
+                               `Escalation Level ${template.level}`}
                             </h4>
                             <p className="text-xs text-gray-500">
                               {template.level === 1 ? 'First follow-up for overdue invoices' :
                                template.level === 2 ? 'Second reminder with firmer tone' :
-                               'Final notice before escalation'}
+                               template.level === 3 ? 'Final notice before escalation' :
+                               'Used by escalation ladders with more than three levels'}
                             </p>
                           </div>
                         </div>
@@ -1592,6 +2257,128 @@ export default function SettingsPage() {
                       </div>
                     ))}
 
+                    <Button
+                      variant="outline"
+                      onClick={() => setFollowUpTemplates([
+                        ...followUpTemplates,
+                        newFollowUpTemplate(followUpTemplates.length + 1),
+                      ])}
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Level Template
+                    </Button>
+
+                    {/* BIR 2307 Reminder Template */}
+                    <div className="border rounded-lg p-6 space-y-4">
+                      <div className="flex items-center gap-3 mb-4">
+                        <span className="inline-flex items-center justify-center h-8 px-2 rounded-full bg-blue-600 text-white font-bold text-xs">
+                          2307
+                        </span>
+                        <div>
+                          <h4 className="font-semibold text-gray-900">BIR 2307 Reminder</h4>
+                          <p className="text-xs text-gray-500">
+                            Sent from the BIR 2307 page to chase missing withholding certificates.
+                            Also supports {'{{withholdingAmount}}'}, {'{{taxQuarter}}'} and {'{{atcCode}}'}.
+                          </p>
+                        </div>
+                      </div>
+
+                      {(['subject', 'greeting', 'body', 'closing'] as const).map((field) => (
+                        <div key={field}>
+                          <label className="block text-sm font-medium text-gray-700 mb-1 capitalize">{field}</label>
+                          {field === 'subject' || field === 'greeting' ? (
+                            <input
+                              type="text"
+                              value={bir2307Template[field]}
+                              onChange={(e) => setBir2307Template({ ...bir2307Template, [field]: e.target.value })}
+                              className="w-full px-3 py-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          ) : (
+                            <textarea
+                              rows={field === 'body' ? 4 : 2}
+                              value={bir2307Template[field]}
+                              onChange={(e) => setBir2307Template({ ...bir2307Template, [field]: e.target.value })}
+                              className="w-full px-3 py-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          )}
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Statement of Account Template */}
+                    <div className="border rounded-lg p-6 space-y-4">
+                      <div className="flex items-center gap-3 mb-4">
+                        <span className="inline-flex items-center justify-center h-8 px-2 rounded-full bg-gray-700 text-white font-bold text-xs">
+                          SOA
+                        </span>
+                        <div>
+                          <h4 className="font-semibold text-gray-900">Statement of Account</h4>
+                          <p className="text-xs text-gray-500">
+                            Sent with a customer statement PDF attached. {'{{periodStart}}'} and {'{{periodEnd}}'} are the statement period,
+                            {' '}{'{{totalAmount}}'} the closing balance and {'{{billingNo}}'} the open invoice numbers.
+                          </p>
+                        </div>
+                      </div>
+
+                      {(['subject', 'greeting', 'body', 'closing'] as const).map((field) => (
+                        <div key={field}>
+                          <label className="block text-sm font-medium text-gray-700 mb-1 capitalize">{field}</label>
+                          {field === 'subject' || field === 'greeting' ? (
+                            <input
+                              type="text"
+                              value={statementTemplate[field]}
+                              onChange={(e) => setStatementTemplate({ ...statementTemplate, [field]: e.target.value })}
+                              className="w-full px-3 py-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          ) : (
+                            <textarea
+                              rows={field === 'body' ? 4 : 2}
+                              value={statementTemplate[field]}
+                              onChange={(e) => setStatementTemplate({ ...statementTemplate, [field]: e.target.value })}
+                              className="w-full px-3 py-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          )}
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Price Change Notice Template */}
+                    <div className="border rounded-lg p-6 space-y-4">
+                      <div className="flex items-center gap-3 mb-4">
+                        <span className="inline-flex items-center justify-center h-8 px-2 rounded-full bg-blue-600 text-white font-bold text-xs">
+                          PRICE
+                        </span>
+                        <div>
+                          <h4 className="font-semibold text-gray-900">Price Change Notice</h4>
+                          <p className="text-xs text-gray-500">
+                            Sent ahead of scheduled billing amount changes when a schedule has a notice period. {'{{previousAmount}}'} and
+                            {' '}{'{{totalAmount}}'} are the old and new amounts, {'{{effectiveDate}}'} the change date and {'{{changeReason}}'} the reason.
+                          </p>
+                        </div>
+                      </div>
+
+                      {(['subject', 'greeting', 'body', 'closing'] as const).map((field) => (
+                        <div key={field}>
+                          <label className="block text-sm font-medium text-gray-700 mb-1 capitalize">{field}</label>
+                          {field === 'subject' || field === 'greeting' ? (
+                            <input
+                              type="text"
+                              value={priceChangeTemplate[field]}
+                              onChange={(e) => setPriceChangeTemplate({ ...priceChangeTemplate, [field]: e.target.value })}
+                              className="w-full px-3 py-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          ) : (
+                            <textarea
+                              rows={field === 'body' ? 4 : 2}
+                              value={priceChangeTemplate[field]}
+                              onChange={(e) => setPriceChangeTemplate({ ...priceChangeTemplate, [field]: e.target.value })}
+                              className="w-full px-3 py-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          )}
+                        </div>
+                      ))}
+                    </div>
+
                     {/* Save Button */}
                     <div className="flex justify-end pt-4 border-t">
                       <Button onClick={saveFollowUpTemplates} disabled={savingFollowUp}>
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { format } from 'date-fns';
+import {
+  getArAging,
+  parseArAgingParams,
+  generateArAgingCsv,
+  AGING_BUCKETS,
+} from '@/lib/ar-aging-service';
+import { generateArAgingPdfLib } from '@/lib/pdf-generator';
+import { getInvoiceTemplate } from '@/lib/settings';
+
+/**
+ * GET /api/ar-aging/export?format=csv|pdf
+ * Downloads the AR aging report with the same filters as GET /api/ar-aging
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const exportFormat = searchParams.get('format') || 'csv';
+    if (exportFormat !== 'csv' && exportFormat !== 'pdf') {
+      return NextResponse.json({ error: 'Invalid format. Must be csv or pdf' }, { status: 400 });
+    }
+
+    const params = parseArAgingParams(searchParams);
+    if ('error' in params) {
+      return NextResponse.json({ error: params.error }, { status: 400 });
+    }
+
+    const report = await getArAging(params);
+    const filename = `AR_Aging_${params.billingEntity || 'ALL'}_${report.groupBy}_${format(report.asOf, 'yyyyMMdd')}`;
+
+    if (exportFormat === 'csv') {
+      return new NextResponse(generateArAgingCsv(report), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+
+    // Use the billing entity's colours when the report is for a single entity
+    const template = params.billingEntity
+      ? await getInvoiceTemplate(params.billingEntity)
+      : undefined;
+    const pdfBytes = await generateArAgingPdfLib(report, AGING_BUCKETS, template);
+
+    return new NextResponse(Buffer.from(pdfBytes), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting AR aging report:', error);
+    return NextResponse.json(
+      { error: 'Failed to export AR aging report' },
+      { status: 500 }
+    );
+  }
+}
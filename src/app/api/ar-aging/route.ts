@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getArAging, parseArAgingParams } from '@/lib/ar-aging-service';
+
+/**
+ * GET /api/ar-aging
+ * Accounts receivable aging (current, 1-30, 31-60, 61-90, 90+) grouped by
+ * customer, billing entity, partner or product type, with the underlying invoices for drill-down
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const params = parseArAgingParams(searchParams);
+    if ('error' in params) {
+      return NextResponse.json({ error: params.error }, { status: 400 });
+    }
+
+    const report = await getArAging(params);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error building AR aging report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build AR aging report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getMatchableInvoices } from '@/lib/bank-reconciliation-service';
+
+/**
+ * GET /api/bank-statements/invoices?search=&companyId=
+ * Open invoices a bank line can be matched to, with their outstanding balances
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const invoices = await getMatchableInvoices({
+      search: searchParams.get('search') || undefined,
+      companyId: searchParams.get('companyId') || undefined,
+      limit: 20,
+    });
+
+    return NextResponse.json(invoices);
+  } catch (error) {
+    console.error('Error fetching matchable invoices:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invoices' },
+      { status: 500 }
+    );
+  }
+}
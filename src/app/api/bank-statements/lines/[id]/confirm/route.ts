@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { BankLineAllocation, confirmBankLine } from '@/lib/bank-reconciliation-service';
+
+interface ConfirmBankLineRequest {
+  allocations?: BankLineAllocation[]; // Omit to confirm the proposed matches
+}
+
+/**
+ * POST /api/bank-statements/lines/[id]/confirm
+ * Record a bank line as payments on its proposed invoices, or on the given split across invoices
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'APPROVER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body: ConfirmBankLineRequest = await request.json().catch(() => ({}));
+
+    if (body.allocations !== undefined && (!Array.isArray(body.allocations) || body.allocations.length === 0)) {
+      return NextResponse.json(
+        { error: 'At least one invoice is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await confirmBankLine(
+      id,
+      body.allocations?.map((a) => ({ invoiceId: a.invoiceId, amount: Number(a.amount) })) ?? null,
+      session.user.id
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Bank line not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Error confirming bank line:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to confirm bank line', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { rejectBankLine } from '@/lib/bank-reconciliation-service';
+
+/**
+ * POST /api/bank-statements/lines/[id]/reject
+ * Reject a bank line's proposed matches, or ignore the line when it isn't a customer payment ({ ignore: true })
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'APPROVER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const line = await rejectBankLine(id, { ignore: body.ignore === true }, session.user.id);
+
+    return NextResponse.json(line);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Bank line not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Error rejecting bank line:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to reject bank line', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { BankLineStatus } from '@/generated/prisma';
+import { listBankLines } from '@/lib/bank-reconciliation-service';
+
+/**
+ * GET /api/bank-statements/lines?status=&statementId=&search=&page=
+ * List imported bank lines with their proposed or confirmed invoice matches
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+
+    const result = await listBankLines({
+      status: status && status in BankLineStatus ? (status as BankLineStatus) : undefined,
+      statementId: searchParams.get('statementId') || undefined,
+      search: searchParams.get('search') || undefined,
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '50'),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching bank lines:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bank lines' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { autoMatchBankLines } from '@/lib/bank-reconciliation-service';
+
+/**
+ * POST /api/bank-statements/match
+ * Propose invoice matches for unmatched bank lines again, e.g. after new invoices are sent
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'APPROVER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const proposed = await autoMatchBankLines({ statementId: body.statementId || undefined });
+
+    return NextResponse.json({ success: true, proposed });
+  } catch (error) {
+    console.error('Error matching bank lines:', error);
+    return NextResponse.json(
+      { error: 'Failed to match bank lines' },
+      { status: 500 }
+    );
+  }
+}
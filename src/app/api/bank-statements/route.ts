@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { parseBankStatementCSV } from '@/lib/csv-parser';
+import {
+  BANK_STATEMENT_PRESETS,
+  getBankColumnMapping,
+  importBankStatement,
+  isBankStatementFormat,
+  listBankStatements,
+} from '@/lib/bank-reconciliation-service';
+
+/**
+ * GET /api/bank-statements
+ * List imported bank statements and the bank column presets
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const statements = await listBankStatements();
+
+    return NextResponse.json({ statements, presets: BANK_STATEMENT_PRESETS });
+  } catch (error) {
+    console.error('Error fetching bank statements:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bank statements' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/bank-statements
+ * Import a bank statement CSV (multipart: file, bank, companyId, mapping for CUSTOM)
+ * and propose invoice matches for its credits
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'APPROVER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const bank = (formData.get('bank') as string | null) || '';
+    const companyId = (formData.get('companyId') as string | null) || null;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    if (!isBankStatementFormat(bank)) {
+      return NextResponse.json(
+        { error: `Invalid bank. Must be ${[...Object.keys(BANK_STATEMENT_PRESETS), 'CUSTOM'].join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let mapping;
+    try {
+      const custom = formData.get('mapping') as string | null;
+      mapping = getBankColumnMapping(bank, custom ? JSON.parse(custom) : null);
+    } catch (mappingError) {
+      const message = mappingError instanceof Error ? mappingError.message : 'Invalid column mapping';
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    const csvContent = await file.text();
+    const parseResult = parseBankStatementCSV(csvContent, mapping);
+
+    if (!parseResult.success && parseResult.data.length === 0) {
+      return NextResponse.json(
+        { error: 'Failed to parse CSV', details: parseResult.errors },
+        { status: 400 },
+      );
+    }
+
+    const results = await importBankStatement(
+      { fileName: file.name, format: bank, mapping, companyId, rows: parseResult.data },
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `Import completed: ${results.imported} credits imported, ${results.duplicates} already imported, ${results.proposed} matched`,
+      results,
+      parseErrors: parseResult.errors,
+    });
+  } catch (error) {
+    console.error('Error importing bank statement:', error);
+    return NextResponse.json(
+      { error: 'Failed to import bank statement' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { get2307Invoices, getTaxQuarter, Bir2307Filter } from '@/lib/bir-2307-service';
+
+const FILTERS: Bir2307Filter[] = ['missing', 'received', 'all'];
+
+/**
+ * GET /api/bir-2307
+ * Lists invoices with withholding tax for a quarter and their 2307 status.
+ * Defaults to the current quarter and to invoices still missing a 2307.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const current = getTaxQuarter(new Date());
+    const taxYear = parseInt(searchParams.get('year') || '') || current.taxYear;
+    const taxQuarter = parseInt(searchParams.get('quarter') || '') || current.taxQuarter;
+    const status = (searchParams.get('status') || 'missing') as Bir2307Filter;
+    const billingEntity = searchParams.get('billingEntity') || undefined;
+
+    if (taxQuarter < 1 || taxQuarter > 4) {
+      return NextResponse.json({ error: 'Quarter must be between 1 and 4' }, { status: 400 });
+    }
+
+    if (!FILTERS.includes(status)) {
+      return NextResponse.json(
+        { error: 'Invalid status. Must be missing, received, or all' },
+        { status: 400 }
+      );
+    }
+
+    const result = await get2307Invoices(taxYear, taxQuarter, status, billingEntity);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching 2307 list:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch 2307 list' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { encryptSecret } from '@/lib/encryption';
+import { isPaymentProvider, PAYMENT_PROVIDERS } from '@/lib/payment-gateway';
 
 export async function GET(
   request: NextRequest,
@@ -15,15 +17,12 @@ export async function GET(
 
     const { code } = await params;
 
-    if (code !== 'YOWI' && code !== 'ABBA') {
-      return NextResponse.json({ error: 'Invalid company code' }, { status: 400 });
-    }
-
     const company = await prisma.company.findUnique({
       where: { code },
       include: {
         signatories: true,
       },
+      omit: { smtpPassword: true, paymentApiKey: true, paymentWebhookSecret: true },
     });
 
     if (!company) {
@@ -57,8 +56,9 @@ export async function PUT(
 
     const { code } = await params;
 
-    if (code !== 'YOWI' && code !== 'ABBA') {
-      return NextResponse.json({ error: 'Invalid company code' }, { status: 400 });
+    const existing = await prisma.company.findUnique({ where: { code } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 });
     }
 
     const body = await request.json();
@@ -74,8 +74,24 @@ export async function PUT(
       'bankAccountNo',
       'invoicePrefix',
       'nextInvoiceNo',
+      'contractPrefix',
+      'nextContractNo',
+      'creditNotePrefix',
+      'nextCreditNoteNo',
       'logoPath',
       'formReference',
+      // Email sender identity
+      'emailFromName',
+      'emailFromAddress',
+      'emailReplyTo',
+      'emailBcc',
+      'smtpHost',
+      'smtpPort',
+      'smtpSecure',
+      'smtpUser',
+      // Online payment provider (credentials are write-only)
+      'paymentProvider',
+      'paymentLinkExpiryDays',
     ];
 
     const updateData: Record<string, any> = {};
@@ -85,12 +101,48 @@ export async function PUT(
       }
     }
 
+    if (updateData.smtpPort !== undefined) {
+      updateData.smtpPort = updateData.smtpPort ? parseInt(updateData.smtpPort) : null;
+    }
+
+    if (updateData.paymentLinkExpiryDays !== undefined) {
+      updateData.paymentLinkExpiryDays = updateData.paymentLinkExpiryDays
+        ? parseInt(updateData.paymentLinkExpiryDays)
+        : null;
+      if (updateData.paymentLinkExpiryDays !== null && !(updateData.paymentLinkExpiryDays > 0)) {
+        return NextResponse.json(
+          { error: 'Payment link expiry must be a positive number of days' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (updateData.paymentProvider !== undefined) {
+      updateData.paymentProvider = updateData.paymentProvider || null;
+      if (updateData.paymentProvider && !isPaymentProvider(updateData.paymentProvider)) {
+        return NextResponse.json(
+          { error: `Invalid payment provider. Must be ${PAYMENT_PROVIDERS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Secrets are write-only: a blank value keeps the stored one, null clears it
+    for (const field of ['smtpPassword', 'paymentApiKey', 'paymentWebhookSecret']) {
+      if (body[field] === null) {
+        updateData[field] = null;
+      } else if (body[field]) {
+        updateData[field] = encryptSecret(body[field]);
+      }
+    }
+
     const company = await prisma.company.update({
       where: { code },
       data: updateData,
       include: {
         signatories: true,
       },
+      omit: { smtpPassword: true, paymentApiKey: true, paymentWebhookSecret: true },
     });
 
     return NextResponse.json(company);
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
-import { clearTemplateCache } from '@/lib/settings';
+import { clearTemplateCache, getDefaultInvoiceTemplate } from '@/lib/settings';
 
 // GET template for a company (includes bank details and signatories)
 export async function GET(
@@ -36,16 +36,7 @@ export async function GET(
     const reviewedBySignatory = company.signatories.find(s => s.role === 'reviewed_by');
 
     // Return template or default values
-    const template = company.template || {
-      primaryColor: '#2563eb',
-      secondaryColor: '#1e40af',
-      footerBgColor: '#dbeafe',
-      logoPath: company.logoPath,
-      invoiceTitle: 'Invoice',
-      footerText: `Powered by: ${company.name}`,
-      showDisclaimer: true,
-      notes: '',
-    };
+    const template = company.template || { ...getDefaultInvoiceTemplate(company), notes: '' };
 
     return NextResponse.json({
       companyId: company.id,
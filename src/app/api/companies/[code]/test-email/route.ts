@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { initEmailServiceFromEnv, sendTestEmail } from '@/lib/email-service';
+import { validateEmails } from '@/lib/utils';
+
+// POST send a test email using a billing entity's sender identity and SMTP settings
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can manage company email settings
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { code } = await params;
+    const company = await prisma.company.findUnique({
+      where: { code },
+      select: { id: true, code: true },
+    });
+
+    if (!company) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const toEmail = body.toEmail || session.user.email;
+    const { valid } = validateEmails(toEmail || '');
+    if (valid.length !== 1) {
+      return NextResponse.json({ error: 'A single valid email address is required' }, { status: 400 });
+    }
+
+    initEmailServiceFromEnv();
+    const result = await sendTestEmail(valid[0], company.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: `Test email failed: ${result.error}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Test email sent to ${valid[0]} from ${company.code}`,
+      messageId: result.messageId,
+    });
+  } catch (error) {
+    console.error('Error sending test email:', error);
+    return NextResponse.json(
+      { error: 'Failed to send test email' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { getDefaultInvoiceTemplate } from '@/lib/settings';
 
 export async function GET(request: NextRequest) {
   try {
@@ -30,6 +31,7 @@ export async function GET(request: NextRequest) {
     const companies = await prisma.company.findMany({
       include: {
         signatories: true,
+        template: { select: { primaryColor: true } },
         _count: {
           select: {
             contracts: true,
@@ -37,6 +39,7 @@ export async function GET(request: NextRequest) {
           },
         },
       },
+      omit: { smtpPassword: true, paymentApiKey: true, paymentWebhookSecret: true },
       orderBy: { code: 'asc' },
     });
 
@@ -49,3 +52,95 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+// POST create a new billing entity with a default invoice template and direct partner
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can create billing entities
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const code = typeof body.code === 'string' ? body.code.trim().toUpperCase() : '';
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!code || !name) {
+      return NextResponse.json(
+        { error: 'Code and name are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^[A-Z0-9]{2,10}$/.test(code)) {
+      return NextResponse.json(
+        { error: 'Code must be 2-10 letters or digits' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.company.findUnique({ where: { code } });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A billing entity with this code already exists' },
+        { status: 400 }
+      );
+    }
+
+    const company = await prisma.company.create({
+      data: {
+        code,
+        name,
+        address: body.address || null,
+        contactNumber: body.contactNumber || null,
+        tin: body.tin || null,
+        logoPath: body.logoPath || null,
+        invoicePrefix: body.invoicePrefix || null,
+        contractPrefix: body.contractPrefix || null,
+        creditNotePrefix: body.creditNotePrefix || null,
+        template: {
+          create: getDefaultInvoiceTemplate({ code, name, logoPath: body.logoPath || null }),
+        },
+        // Contracts billed directly (not through a partner) need a partner on this entity
+        partners: {
+          create: {
+            code: `Direct-${code}`,
+            name: `Direct (${code})`,
+            billingModel: 'DIRECT',
+          },
+        },
+      },
+      include: {
+        signatories: true,
+      },
+      omit: { smtpPassword: true, paymentApiKey: true, paymentWebhookSecret: true },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'COMPANY_CREATED',
+        entityType: 'Company',
+        entityId: company.id,
+        details: {
+          code: company.code,
+          name: company.name,
+          createdBy: session.user.email,
+        },
+      },
+    });
+
+    return NextResponse.json(company, { status: 201 });
+  } catch (error) {
+    console.error('Error creating company:', error);
+    return NextResponse.json(
+      { error: 'Failed to create company' },
+      { status: 500 }
+    );
+  }
+}
@@ -230,6 +230,7 @@ export async function PUT(
     if (body.contactPerson !== undefined) updateData.contactPerson = body.contactPerson || null;
     if (body.email !== undefined) updateData.email = body.email || null;
     if (body.emails !== undefined) updateData.emails = body.emails || null;
+    if (body.accountManagerEmail !== undefined) updateData.accountManagerEmail = body.accountManagerEmail || null;
     if (body.address !== undefined) updateData.address = body.address || null;
     if (body.tin !== undefined) updateData.tin = body.tin || null;
     if (body.mobile !== undefined) updateData.mobile = body.mobile || null;
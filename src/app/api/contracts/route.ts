@@ -193,6 +193,7 @@ export async function POST(request: NextRequest) {
         contactPerson: body.contactPerson || null,
         email: body.email || null,
         emails: body.emails || body.email || null,  // Support both, prefer emails
+        accountManagerEmail: body.accountManagerEmail || null,
         address: body.address || null,
         tin: body.tin || null,
         mobile: body.mobile || null,
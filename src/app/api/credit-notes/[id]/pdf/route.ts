@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { getSOASettings, getInvoiceTemplate } from '@/lib/settings';
+import { generateCreditNotePdfLib } from '@/lib/pdf-generator';
+
+/**
+ * GET /api/credit-notes/[id]/pdf
+ * Renders a credit note PDF
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const creditNote = await prisma.creditNote.findUnique({
+      where: { id },
+      include: {
+        company: true,
+        invoice: {
+          select: {
+            billingNo: true,
+            statementDate: true,
+            customerName: true,
+            attention: true,
+            customerAddress: true,
+            customerTin: true,
+            netAmount: true,
+          },
+        },
+      },
+    });
+
+    if (!creditNote) {
+      return NextResponse.json({ error: 'Credit note not found' }, { status: 404 });
+    }
+
+    const companyCode = creditNote.company.code;
+    const [soaSettings, template] = await Promise.all([
+      getSOASettings(companyCode),
+      getInvoiceTemplate(companyCode),
+    ]);
+
+    const pdfBytes = await generateCreditNotePdfLib(creditNote, soaSettings, template);
+    const pdfBuffer = Buffer.from(pdfBytes);
+
+    return new NextResponse(pdfBuffer, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${creditNote.creditNoteNo}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error generating credit note PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate credit note PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { voidCreditNote } from '@/lib/credit-note-service';
+
+/**
+ * POST /api/credit-notes/[id]/void
+ * Voids a credit note and restores the invoice balance
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check user role
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'APPROVER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { reason } = body;
+
+    if (!reason) {
+      return NextResponse.json(
+        { error: 'Void reason is required' },
+        { status: 400 }
+      );
+    }
+
+    const creditNote = await prisma.creditNote.findUnique({
+      where: { id },
+      select: { id: true, status: true },
+    });
+
+    if (!creditNote) {
+      return NextResponse.json({ error: 'Credit note not found' }, { status: 404 });
+    }
+
+    if (creditNote.status === 'VOID') {
+      return NextResponse.json(
+        { error: 'Credit note has already been voided' },
+        { status: 400 }
+      );
+    }
+
+    const result = await voidCreditNote(id, reason, session.user.id);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error voiding credit note:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to void credit note', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { CreditNoteStatus } from '@/generated/prisma';
+
+/**
+ * GET /api/credit-notes
+ * Lists credit notes, optionally filtered by status, billing entity and issue date
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as CreditNoteStatus | null;
+    const billingEntity = searchParams.get('billingEntity');
+    const issuedFrom = searchParams.get('issuedFrom');
+    const issuedTo = searchParams.get('issuedTo');
+
+    // Build date range filter for issuedAt
+    const issuedAtFilter: { gte?: Date; lte?: Date } = {};
+    if (issuedFrom) {
+      issuedAtFilter.gte = new Date(issuedFrom);
+    }
+    if (issuedTo) {
+      const endDate = new Date(issuedTo);
+      endDate.setHours(23, 59, 59, 999);
+      issuedAtFilter.lte = endDate;
+    }
+
+    const creditNotes = await prisma.creditNote.findMany({
+      where: {
+        ...(status && { status }),
+        ...(billingEntity && { company: { code: billingEntity } }),
+        ...(Object.keys(issuedAtFilter).length > 0 && { issuedAt: issuedAtFilter }),
+      },
+      include: {
+        company: { select: { code: true } },
+        invoice: { select: { id: true, billingNo: true, status: true } },
+        issuedBy: { select: { name: true, email: true } },
+      },
+      orderBy: { issuedAt: 'desc' },
+    });
+
+    return NextResponse.json(creditNotes);
+  } catch (error) {
+    console.error('Error fetching credit notes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch credit notes' },
+      { status: 500 }
+    );
+  }
+}
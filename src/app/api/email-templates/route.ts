@@ -74,6 +74,18 @@ export async function POST(request: NextRequest) {
         });
         return NextResponse.json(updated, { status: 200 });
       }
+    } else if (templateType === 'BIR_2307' || templateType === 'STATEMENT' || templateType === 'PRICE_CHANGE') {
+      // Only one BIR 2307 reminder, statement and price change template are kept
+      const existingSingle = await prisma.emailTemplate.findFirst({
+        where: { templateType },
+      });
+      if (existingSingle) {
+        const updated = await prisma.emailTemplate.update({
+          where: { id: existingSingle.id },
+          data: { name, subject, greeting, body: bodyText, closing },
+        });
+        return NextResponse.json(updated, { status: 200 });
+      }
     } else {
       // Check for duplicate name for non-follow-up templates
       const existing = await prisma.emailTemplate.findUnique({
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  getScopedFollowUpLevels,
+  getInheritedFollowUpLadder,
+  saveFollowUpLadder,
+  FollowUpLadderLevelInput,
+} from '@/lib/follow-up-ladder-service';
+
+interface SaveLadderRequest {
+  companyId?: string | null;
+  partnerId?: string | null;
+  levels: FollowUpLadderLevelInput[];
+}
+
+/**
+ * GET /api/follow-up-ladders
+ * Returns the follow-up ladder configured for a scope (billing entity, partner, or the
+ * global default when neither is given) and the ladder it inherits when it has none
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const companyId = searchParams.get('companyId') || null;
+    const partnerId = searchParams.get('partnerId') || null;
+
+    const [levels, inherited] = await Promise.all([
+      getScopedFollowUpLevels(partnerId ? null : companyId, partnerId),
+      getInheritedFollowUpLadder(partnerId ? null : companyId, partnerId),
+    ]);
+
+    return NextResponse.json({ levels, inherited });
+  } catch (error) {
+    console.error('Error fetching follow-up ladder:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch follow-up ladder' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/follow-up-ladders
+ * Replaces the follow-up ladder for a scope. An empty list removes the override.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only admins can update settings
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body: SaveLadderRequest = await request.json();
+
+    if (!Array.isArray(body.levels)) {
+      return NextResponse.json({ error: 'levels must be an array' }, { status: 400 });
+    }
+
+    try {
+      const levels = await saveFollowUpLadder(
+        { companyId: body.companyId || null, partnerId: body.partnerId || null },
+        body.levels.map((level) => ({ ...level, delayDays: Number(level.delayDays) })),
+        session.user.id
+      );
+
+      return NextResponse.json({ levels });
+    } catch (validationError) {
+      const message = validationError instanceof Error ? validationError.message : 'Invalid ladder';
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error saving follow-up ladder:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to save follow-up ladder', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { deleteHoliday, toDateKey } from '@/lib/business-calendar-service';
+
+/**
+ * DELETE /api/holidays/[id]
+ * Remove a holiday from the calendar
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.holiday.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Holiday not found' }, { status: 404 });
+    }
+
+    await deleteHoliday(id);
+
+    // Create audit log
+    await prisma.auditLog.create({
+      data: {
+        userId: (session.user as { id: string }).id,
+        action: 'HOLIDAY_DELETED',
+        entityType: 'Holiday',
+        entityId: id,
+        details: { date: toDateKey(existing.date), name: existing.name },
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting holiday:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete holiday' },
+      { status: 500 }
+    );
+  }
+}
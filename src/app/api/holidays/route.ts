@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { listHolidays, upsertHoliday } from '@/lib/business-calendar-service';
+
+// Parse YYYY-MM-DD to local midnight
+function parseDateParam(value: string | null | undefined): Date | null {
+  const match = value?.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) return null;
+  const date = new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+  return date.getMonth() === parseInt(match[2]) - 1 ? date : null;
+}
+
+/**
+ * GET /api/holidays
+ * List the holiday calendar, optionally filtered by year
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const yearParam = searchParams.get('year');
+    const year = yearParam ? parseInt(yearParam) : undefined;
+
+    if (yearParam && (!year || year < 1900 || year > 2999)) {
+      return NextResponse.json({ error: 'year must be a four-digit year' }, { status: 400 });
+    }
+
+    const holidays = await listHolidays(year);
+
+    return NextResponse.json(holidays);
+  } catch (error) {
+    console.error('Error fetching holidays:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch holidays' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/holidays
+ * Add a holiday to the calendar (renames the holiday when the date is already on it)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+
+    const date = parseDateParam(body.date);
+    if (!date) {
+      return NextResponse.json({ error: 'date must use YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const holiday = await upsertHoliday({ date, name });
+
+    // Create audit log
+    await prisma.auditLog.create({
+      data: {
+        userId: (session.user as { id: string }).id,
+        action: 'HOLIDAY_SAVED',
+        entityType: 'Holiday',
+        entityId: holiday.id,
+        details: { date: body.date, name },
+      },
+    });
+
+    return NextResponse.json(holiday, { status: 201 });
+  } catch (error) {
+    console.error('Error saving holiday:', error);
+    return NextResponse.json(
+      { error: 'Failed to save holiday' },
+      { status: 500 }
+    );
+  }
+}
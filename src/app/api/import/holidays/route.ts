@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { parseHolidaysCSV, generateHolidaysTemplate } from '@/lib/csv-parser';
+import { importHolidays } from '@/lib/business-calendar-service';
+
+// GET - Download template
+export async function GET() {
+  const template = generateHolidaysTemplate();
+
+  return new NextResponse(template, {
+    headers: {
+      'Content-Type': 'text/csv',
+      'Content-Disposition': 'attachment; filename="holidays-template.csv"',
+    },
+  });
+}
+
+// POST - Import the holiday calendar from CSV
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    const csvContent = await file.text();
+    const parseResult = parseHolidaysCSV(csvContent);
+
+    if (!parseResult.success && parseResult.data.length === 0) {
+      return NextResponse.json(
+        { error: 'Failed to parse CSV', details: parseResult.errors },
+        { status: 400 },
+      );
+    }
+
+    const results = await importHolidays(parseResult.data);
+
+    // Audit log
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'HOLIDAYS_IMPORTED',
+        entityType: 'Holiday',
+        entityId: 'bulk',
+        details: {
+          fileName: file.name,
+          totalRows: parseResult.totalRows,
+          created: results.created,
+          updated: results.updated,
+          skipped: results.skipped,
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Import completed: ${results.created} created, ${results.updated} updated, ${results.skipped} skipped`,
+      results,
+      parseErrors: parseResult.errors,
+    });
+  } catch (error) {
+    console.error('Error importing holidays:', error);
+    return NextResponse.json(
+      { error: 'Failed to import holidays' },
+      { status: 500 }
+    );
+  }
+}
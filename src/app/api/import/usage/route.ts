@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { parseUsageCSV, generateUsageTemplate } from '@/lib/csv-parser';
+import { importUsage } from '@/lib/usage-billing-service';
+
+// GET - Download template
+export async function GET() {
+  const template = generateUsageTemplate();
+
+  return new NextResponse(template, {
+    headers: {
+      'Content-Type': 'text/csv',
+      'Content-Disposition': 'attachment; filename="usage-template.csv"',
+    },
+  });
+}
+
+// POST - Import monthly contract usage from CSV
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    const csvContent = await file.text();
+    const parseResult = parseUsageCSV(csvContent);
+
+    if (!parseResult.success && parseResult.data.length === 0) {
+      return NextResponse.json(
+        { error: 'Failed to parse CSV', details: parseResult.errors },
+        { status: 400 },
+      );
+    }
+
+    const results = await importUsage(parseResult.data, session.user.id);
+
+    // Audit log
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'CONTRACT_USAGE_IMPORTED',
+        entityType: 'Contract',
+        entityId: 'bulk',
+        details: {
+          fileName: file.name,
+          totalRows: parseResult.totalRows,
+          created: results.created,
+          updated: results.updated,
+          skipped: results.skipped,
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Import completed: ${results.created} created, ${results.updated} updated, ${results.skipped} skipped`,
+      results,
+      parseErrors: parseResult.errors,
+    });
+  } catch (error) {
+    console.error('Error importing usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to import usage' },
+      { status: 500 }
+    );
+  }
+}
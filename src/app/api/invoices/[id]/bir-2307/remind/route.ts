@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { send2307Reminder } from '@/lib/bir-2307-service';
+
+/**
+ * POST /api/invoices/[id]/bir-2307/remind
+ * Emails the customer asking for their 2307 certificate
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check user role
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'APPROVER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const result = await send2307Reminder(id, session.user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message, details: result.error },
+        { status: result.error ? 500 : 400 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error sending 2307 reminder:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to send 2307 reminder', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
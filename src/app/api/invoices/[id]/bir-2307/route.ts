@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { get2307ForInvoice, record2307 } from '@/lib/bir-2307-service';
+
+interface Record2307Request {
+  atcCode?: string;
+  amount?: number;
+  receivedAt?: string | null; // ISO date string, defaults to now; null keeps it pending
+  taxYear?: number;
+  taxQuarter?: number;
+  attachmentId?: string | null; // InvoiceAttachment holding the scanned certificate
+  remarks?: string;
+}
+
+/**
+ * GET /api/invoices/[id]/bir-2307
+ * Returns the 2307 certificate record for an invoice
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await get2307ForInvoice(id);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching 2307:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch 2307' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/invoices/[id]/bir-2307
+ * Records the 2307 certificate received for an invoice
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check user role
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'APPROVER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body: Record2307Request = await request.json();
+
+    if (body.amount !== undefined && (isNaN(Number(body.amount)) || Number(body.amount) < 0)) {
+      return NextResponse.json({ error: 'Valid amount is required' }, { status: 400 });
+    }
+
+    if (body.taxQuarter !== undefined && (body.taxQuarter < 1 || body.taxQuarter > 4)) {
+      return NextResponse.json({ error: 'Quarter must be between 1 and 4' }, { status: 400 });
+    }
+
+    const certificate = await record2307(
+      id,
+      {
+        atcCode: body.atcCode,
+        amount: body.amount !== undefined ? Number(body.amount) : undefined,
+        receivedAt:
+          body.receivedAt === undefined ? undefined : body.receivedAt ? new Date(body.receivedAt) : null,
+        taxYear: body.taxYear,
+        taxQuarter: body.taxQuarter,
+        attachmentId: body.attachmentId,
+        remarks: body.remarks,
+      },
+      session.user.id
+    );
+
+    return NextResponse.json(certificate, { status: 201 });
+  } catch (error) {
+    console.error('Error recording 2307:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to record 2307', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  canIssueCreditNote,
+  issueCreditNote,
+  getInvoiceCreditNotes,
+} from '@/lib/credit-note-service';
+
+/**
+ * GET /api/invoices/[id]/credit-notes
+ * Returns credit notes issued against an invoice
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await getInvoiceCreditNotes(id);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching credit notes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch credit notes' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/invoices/[id]/credit-notes
+ * Issues a credit note against a sent or paid invoice
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check user role
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'APPROVER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const amount = Number(body.amount);
+    const { reason } = body;
+
+    if (!amount || amount <= 0) {
+      return NextResponse.json(
+        { error: 'Valid credit amount is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!reason) {
+      return NextResponse.json(
+        { error: 'Reason is required' },
+        { status: 400 }
+      );
+    }
+
+    const check = await canIssueCreditNote(id, amount);
+    if (!check.canIssue) {
+      return NextResponse.json(
+        { error: check.reason },
+        { status: check.reason === 'Invoice not found' ? 404 : 400 }
+      );
+    }
+
+    const result = await issueCreditNote(id, { amount, reason }, session.user.id);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Error issuing credit note:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to issue credit note', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
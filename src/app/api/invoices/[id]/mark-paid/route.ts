@@ -2,18 +2,26 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
-import { notifyInvoicePaid } from '@/lib/notifications';
+import {
+  canRecordPayment,
+  recordPayment,
+  notifyPaymentRecorded,
+  PAYMENT_METHODS,
+  PaymentMethod,
+} from '@/lib/payment-service';
 
 interface MarkPaidRequest {
   paidAmount: number;
-  paymentMethod: 'CASH' | 'BANK_TRANSFER' | 'CHECK' | 'HITPAY';
+  paymentMethod: PaymentMethod;
   paymentReference?: string;
   paidAt?: string; // ISO date string, defaults to now
 }
 
 /**
  * POST /api/invoices/[id]/mark-paid
- * Marks an invoice as PAID with payment details
+ * Records a payment against the invoice ledger.
+ * The invoice becomes PAID once payments cover the net amount,
+ * otherwise PARTIALLY_PAID.
  */
 export async function POST(
   request: NextRequest,
@@ -48,79 +56,43 @@ export async function POST(
       );
     }
 
-    const validMethods = ['CASH', 'BANK_TRANSFER', 'CHECK', 'HITPAY'];
-    if (!validMethods.includes(body.paymentMethod)) {
+    if (!PAYMENT_METHODS.includes(body.paymentMethod)) {
       return NextResponse.json(
         { error: 'Invalid payment method. Must be CASH, BANK_TRANSFER, CHECK, or HITPAY' },
         { status: 400 }
       );
     }
 
-    // Get the invoice
-    const invoice = await prisma.invoice.findUnique({
-      where: { id },
-      select: {
-        id: true,
-        billingNo: true,
-        customerName: true,
-        status: true,
-        netAmount: true,
-      },
-    });
-
-    if (!invoice) {
-      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
-    }
-
-    // Only SENT invoices can be marked as paid
-    if (invoice.status !== 'SENT') {
+    // Check invoice status and outstanding balance
+    const check = await canRecordPayment(id, body.paidAmount);
+    if (!check.canRecord) {
       return NextResponse.json(
-        { error: `Cannot mark invoice as paid. Current status: ${invoice.status}. Only SENT invoices can be marked as paid.` },
-        { status: 400 }
+        { error: check.reason },
+        { status: check.reason === 'Invoice not found' ? 404 : 400 }
       );
     }
 
-    // Update invoice to PAID status with payment details
-    const paidAt = body.paidAt ? new Date(body.paidAt) : new Date();
-
-    const updatedInvoice = await prisma.invoice.update({
-      where: { id },
-      data: {
-        status: 'PAID',
-        paidAt,
-        paidAmount: body.paidAmount,
+    const result = await recordPayment(
+      id,
+      {
+        amount: body.paidAmount,
         paymentMethod: body.paymentMethod,
-        paymentReference: body.paymentReference || null,
+        reference: body.paymentReference,
+        paidAt: body.paidAt ? new Date(body.paidAt) : new Date(),
       },
-    });
-
-    // Log the action
-    await prisma.auditLog.create({
-      data: {
-        userId: session.user.id,
-        action: 'INVOICE_PAID',
-        entityType: 'Invoice',
-        entityId: id,
-        details: {
-          billingNo: invoice.billingNo,
-          paidAmount: body.paidAmount,
-          paymentMethod: body.paymentMethod,
-          paymentReference: body.paymentReference,
-          paidAt: paidAt.toISOString(),
-        },
-      },
-    });
+      session.user.id
+    );
 
     // Create notification
-    await notifyInvoicePaid({
-      id: invoice.id,
-      billingNo: invoice.billingNo,
-      customerName: invoice.customerName,
-      paidAmount: body.paidAmount,
-      paymentMethod: body.paymentMethod,
-    });
+    await notifyPaymentRecorded(result, body.paidAmount, body.paymentMethod);
+
+    const updatedInvoice = await prisma.invoice.findUnique({ where: { id } });
 
-    return NextResponse.json(updatedInvoice);
+    return NextResponse.json({
+      ...updatedInvoice,
+      paymentId: result.paymentId,
+      balance: result.balance,
+    });
   } catch (error) {
     console.error('Error marking invoice as paid:', error);
     return NextResponse.json(
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { getLiveInvoicePaymentLink } from '@/lib/payment-gateway';
+import { PAYABLE_STATUSES } from '@/lib/payment-service';
+
+/**
+ * POST /api/invoices/[id]/payment-request
+ * Returns the invoice's live payment link, creating a new one with its company's payment provider
+ * when there is none or the current link has expired or no longer matches the balance
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      select: { id: true, billingNo: true, status: true },
+    });
+
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    // Only SENT or PARTIALLY_PAID invoices can have payment requests created
+    if (!PAYABLE_STATUSES.includes(invoice.status)) {
+      return NextResponse.json(
+        { error: `Cannot create payment for invoice. Current status: ${invoice.status}. Only SENT or PARTIALLY_PAID invoices can be paid.` },
+        { status: 400 }
+      );
+    }
+
+    const live = await getLiveInvoicePaymentLink(invoice.id);
+    if (!live) {
+      return NextResponse.json({ error: 'Invoice has no outstanding balance' }, { status: 400 });
+    }
+
+    const { paymentRequest, created } = live;
+
+    if (created) {
+      await prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          action: 'PAYMENT_LINK_CREATED',
+          entityType: 'Invoice',
+          entityId: invoice.id,
+          details: {
+            billingNo: invoice.billingNo,
+            provider: paymentRequest.provider,
+            providerRequestId: paymentRequest.providerRequestId,
+            amount: Number(paymentRequest.amount),
+            checkoutUrl: paymentRequest.checkoutUrl,
+            expiresAt: paymentRequest.expiresAt?.toISOString() ?? null,
+          },
+        },
+      });
+    }
+
+    return NextResponse.json({
+      paymentRequestId: paymentRequest.id,
+      provider: paymentRequest.provider,
+      providerRequestId: paymentRequest.providerRequestId,
+      checkoutUrl: paymentRequest.checkoutUrl,
+      amount: paymentRequest.amount,
+      currency: paymentRequest.currency,
+      status: paymentRequest.status,
+      expiresAt: paymentRequest.expiresAt,
+      ...(created ? {} : { message: 'Existing payment request found' }),
+    });
+  } catch (error) {
+    console.error('Error creating payment request:', error);
+    return NextResponse.json(
+      { error: 'Failed to create payment request' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/invoices/[id]/payment-request
+ * Gets the current payment request status for an invoice
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Get the latest payment request for this invoice
+    const paymentRequest = await prisma.paymentRequest.findFirst({
+      where: { invoiceId: id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!paymentRequest) {
+      return NextResponse.json({
+        status: 'NO_PAYMENT_REQUEST',
+        message: 'No payment request found for this invoice'
+      });
+    }
+
+    return NextResponse.json({
+      paymentRequestId: paymentRequest.id,
+      provider: paymentRequest.provider,
+      providerRequestId: paymentRequest.providerRequestId,
+      checkoutUrl: paymentRequest.checkoutUrl,
+      amount: paymentRequest.amount,
+      currency: paymentRequest.currency,
+      status: paymentRequest.status,
+      paidAt: paymentRequest.paidAt,
+      paymentMethod: paymentRequest.paymentMethod,
+      paymentReference: paymentRequest.paymentReference,
+      expiresAt: paymentRequest.expiresAt,
+      supersededAt: paymentRequest.supersededAt,
+    });
+  } catch (error) {
+    console.error('Error getting payment request status:', error);
+    return NextResponse.json(
+      { error: 'Failed to get payment request status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { reversePayment } from '@/lib/payment-service';
+
+/**
+ * POST /api/invoices/[id]/payments/[paymentId]/reverse
+ * Reverses a recorded payment and reopens the invoice balance
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; paymentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check user role
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'APPROVER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id, paymentId } = await params;
+    const body = await request.json();
+    const { reason } = body;
+
+    if (!reason) {
+      return NextResponse.json(
+        { error: 'Reversal reason is required' },
+        { status: 400 }
+      );
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      select: { id: true, invoiceId: true, reversedAt: true },
+    });
+
+    if (!payment || payment.invoiceId !== id) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 });
+    }
+
+    if (payment.reversedAt) {
+      return NextResponse.json(
+        { error: 'Payment has already been reversed' },
+        { status: 400 }
+      );
+    }
+
+    const result = await reversePayment(paymentId, reason, session.user.id);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error reversing payment:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to reverse payment', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
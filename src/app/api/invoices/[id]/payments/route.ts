@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  canRecordPayment,
+  recordPayment,
+  getInvoicePayments,
+  notifyPaymentRecorded,
+  PAYMENT_METHODS,
+  PaymentMethod,
+} from '@/lib/payment-service';
+
+interface RecordPaymentRequest {
+  amount: number;
+  paymentMethod: PaymentMethod;
+  reference?: string;
+  paidAt?: string; // ISO date string, defaults to now
+  notes?: string;
+}
+
+/**
+ * GET /api/invoices/[id]/payments
+ * Returns the payment ledger and running balance for an invoice
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const ledger = await getInvoicePayments(id);
+
+    if (!ledger) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(ledger);
+  } catch (error) {
+    console.error('Error fetching invoice payments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invoice payments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/invoices/[id]/payments
+ * Records a (full or partial) payment against an invoice
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check user role
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'APPROVER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body: RecordPaymentRequest = await request.json();
+
+    if (!body.amount || body.amount <= 0) {
+      return NextResponse.json(
+        { error: 'Valid payment amount is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.paymentMethod || !PAYMENT_METHODS.includes(body.paymentMethod)) {
+      return NextResponse.json(
+        { error: 'Invalid payment method. Must be CASH, BANK_TRANSFER, CHECK, or HITPAY' },
+        { status: 400 }
+      );
+    }
+
+    const check = await canRecordPayment(id, body.amount);
+    if (!check.canRecord) {
+      return NextResponse.json(
+        { error: check.reason },
+        { status: check.reason === 'Invoice not found' ? 404 : 400 }
+      );
+    }
+
+    const result = await recordPayment(
+      id,
+      {
+        amount: body.amount,
+        paymentMethod: body.paymentMethod,
+        reference: body.reference,
+        paidAt: body.paidAt ? new Date(body.paidAt) : new Date(),
+        notes: body.notes,
+      },
+      session.user.id
+    );
+
+    await notifyPaymentRecorded(result, body.amount, body.paymentMethod);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Error recording payment:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to record payment', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
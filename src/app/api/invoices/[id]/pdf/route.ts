@@ -30,7 +30,7 @@ export async function GET(
     }
 
     // Get SOA settings and invoice template
-    const companyCode = invoice.company?.code === 'YOWI' ? 'YOWI' : 'ABBA';
+    const companyCode = invoice.company.code;
     console.log('[PDF] Generating PDF for invoice:', invoice.billingNo, 'Company:', companyCode);
 
     // Clear template cache to ensure we always use the latest template
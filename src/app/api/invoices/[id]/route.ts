@@ -74,7 +74,11 @@ export async function PUT(
     }
 
     // Only allow updates for pending/approved invoices
-    if (existingInvoice.status === InvoiceStatus.SENT || existingInvoice.status === InvoiceStatus.PAID) {
+    if (
+      existingInvoice.status === InvoiceStatus.SENT ||
+      existingInvoice.status === InvoiceStatus.PARTIALLY_PAID ||
+      existingInvoice.status === InvoiceStatus.PAID
+    ) {
       return NextResponse.json(
         { error: 'Cannot update invoice that has already been sent or paid' },
         { status: 400 }
@@ -6,7 +6,7 @@ import { getSOASettings, getInvoiceTemplate, clearTemplateCache } from '@/lib/se
 import { generateInvoicePdfLib } from '@/lib/pdf-generator';
 import {
   initEmailServiceFromEnv,
-  sendBillingEmail,
+  queueBillingEmail,
   getEmailTemplateForPartner,
   generateEmailSubjectFromTemplate,
   generateEmailBodyFromTemplate,
@@ -17,7 +17,7 @@ import {
 import { InvoiceStatus } from '@/generated/prisma';
 import { notifyInvoiceSent } from '@/lib/notifications';
 import { validateEmails, formatCurrency } from '@/lib/utils';
-import { createPaymentRequest } from '@/lib/hitpay-service';
+import { getLiveInvoicePaymentLink } from '@/lib/payment-gateway';
 
 export async function POST(
   request: NextRequest,
@@ -92,7 +92,7 @@ export async function POST(
     initEmailServiceFromEnv();
 
     // Get SOA settings and invoice template
-    const companyCode = invoice.company?.code === 'YOWI' ? 'YOWI' : 'ABBA';
+    const companyCode = invoice.company.code;
 
     // Clear template cache to ensure we always use the latest template
     clearTemplateCache();
@@ -122,37 +122,16 @@ export async function POST(
     // This is the actual client company (e.g., for Globe Innove invoices)
     const clientCompanyName = invoice.lineItems?.[0]?.contract?.companyName || invoice.customerName;
 
-    // Create payment link if requested
+    // Use the invoice's live payment link if requested, creating one on first send
     let paymentUrl: string | undefined;
     if (includePaymentLink) {
       try {
-        const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-        const redirectUrl = `${appUrl}/payment/success?invoice=${invoice.id}`;
-
-        const paymentRequest = await createPaymentRequest({
-          amount: Number(invoice.netAmount),
-          currency: 'PHP',
-          referenceNumber: billingNo,
+        const live = await getLiveInvoicePaymentLink(invoice.id, {
           email: validEmails[0],
-          name: invoice.customerName,
-          purpose: `Invoice ${billingNo}`,
-          redirectUrl,
           paymentMethods: ['qrph', 'gcash', 'card', 'grabpay', 'paymaya'],
         });
 
-        // Store payment request in database
-        await prisma.hitpayPaymentRequest.create({
-          data: {
-            invoiceId: invoice.id,
-            hitpayRequestId: paymentRequest.id,
-            checkoutUrl: paymentRequest.url,
-            amount: Number(invoice.netAmount),
-            currency: 'PHP',
-            status: 'PENDING',
-          },
-        });
-
-        paymentUrl = paymentRequest.url;
+        paymentUrl = live?.paymentRequest.checkoutUrl || undefined;
       } catch (paymentError) {
         console.error('Failed to create payment link:', paymentError);
         // Continue without payment link - don't fail the send
@@ -167,7 +146,7 @@ export async function POST(
       totalAmount: formatCurrency(Number(invoice.netAmount)),
       periodStart: formatDate(invoice.periodStart),
       periodEnd: formatDate(invoice.periodEnd),
-      companyName: invoice.company?.name || 'YAHSHUA-ABBA',
+      companyName: invoice.company.name,
       clientCompanyName,
       paymentUrl,
     };
@@ -183,8 +162,8 @@ export async function POST(
       contentType: att.mimeType,
     }));
 
-    // Send email to all valid recipients
-    const result = await sendBillingEmail(
+    // Queue the email for all valid recipients; the email queue worker delivers it
+    const result = await queueBillingEmail(
       invoice.id,
       validEmails,
       subject,
@@ -197,7 +176,7 @@ export async function POST(
 
     if (!result.success) {
       return NextResponse.json(
-        { error: result.error || 'Failed to send email' },
+        { error: result.error || 'Failed to queue email' },
         { status: 500 }
       );
     }
@@ -220,7 +199,7 @@ export async function POST(
         details: {
           invoiceNo: billingNo,
           sentTo: validEmails.join(', '),
-          messageId: result.messageId,
+          emailLogId: result.emailLogId,
           attachmentCount: additionalAttachments.length,
           includePaymentLink,
           paymentUrl: paymentUrl || null,
@@ -238,7 +217,8 @@ export async function POST(
 
     return NextResponse.json({
       success: true,
-      messageId: result.messageId,
+      queued: true,
+      emailLogId: result.emailLogId,
       sentTo: validEmails.join(', '),
     });
   } catch (error) {
@@ -33,7 +33,11 @@ export async function POST(
     }
 
     // Only allow syncing for pending/approved invoices (not sent/paid)
-    if (invoice.status === InvoiceStatus.SENT || invoice.status === InvoiceStatus.PAID) {
+    if (
+      invoice.status === InvoiceStatus.SENT ||
+      invoice.status === InvoiceStatus.PARTIALLY_PAID ||
+      invoice.status === InvoiceStatus.PAID
+    ) {
       return NextResponse.json(
         { error: 'Cannot update invoice that has already been sent or paid' },
         { status: 400 }
@@ -2,12 +2,23 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
-import { generateYtoCsv, InvoiceCsvData } from '@/lib/csv-generator';
+import { generateYtoCsv, InvoiceCsvData, CreditNoteCsvData } from '@/lib/csv-generator';
 import { format } from 'date-fns';
 
+// Determine YTO customer code based on billing model
+function getCustomerCode(billingModel: string, customerName: string): string {
+  if (billingModel === 'GLOBE_INNOVE') {
+    return 'INNOVE COMMUNICATIONS INC.';
+  } else if (billingModel === 'RCBC_CONSOLIDATED') {
+    return 'RIZAL COMMERCIAL BANKING CORPORATION';
+  }
+  return customerName;
+}
+
 /**
  * GET /api/invoices/export
- * Exports paid invoices as YTO CSV for accounting import
+ * Exports paid invoices as YTO CSV for accounting import.
+ * Credit notes issued in the same period are included as negative lines.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -51,7 +62,28 @@ export async function GET(request: NextRequest) {
       orderBy: { paidAt: 'desc' },
     });
 
-    if (invoices.length === 0) {
+    // Fetch credit notes issued within the same period
+    const creditNotes = await prisma.creditNote.findMany({
+      where: {
+        status: 'ISSUED',
+        ...(Object.keys(paidAtFilter).length > 0 && { issuedAt: paidAtFilter }),
+        ...(billingEntity && { company: { code: billingEntity } }),
+      },
+      include: {
+        invoice: {
+          select: {
+            billingNo: true,
+            billingModel: true,
+            productType: true,
+            vatType: true,
+            withholdingCode: true,
+          },
+        },
+      },
+      orderBy: { issuedAt: 'desc' },
+    });
+
+    if (invoices.length === 0 && creditNotes.length === 0) {
       return NextResponse.json(
         { error: 'No paid invoices found for the selected criteria' },
         { status: 404 }
@@ -63,13 +95,7 @@ export async function GET(request: NextRequest) {
       // Use stored product type, fallback to first line item description
       const productType = invoice.productType || invoice.lineItems[0]?.description || 'ACCOUNTING';
 
-      // Determine customer code based on billing model
-      let customerCode = invoice.customerName;
-      if (invoice.billingModel === 'GLOBE_INNOVE') {
-        customerCode = 'INNOVE COMMUNICATIONS INC.';
-      } else if (invoice.billingModel === 'RCBC_CONSOLIDATED') {
-        customerCode = 'RIZAL COMMERCIAL BANKING CORPORATION';
-      }
+      const customerCode = getCustomerCode(invoice.billingModel, invoice.customerName);
 
       // Generate description with period
       const periodMonth = invoice.periodDescription ||
@@ -103,8 +129,21 @@ export async function GET(request: NextRequest) {
       };
     });
 
+    const creditNoteCsvData: CreditNoteCsvData[] = creditNotes.map((creditNote) => ({
+      creditNoteNo: creditNote.creditNoteNo,
+      invoiceNo: creditNote.invoice.billingNo,
+      issuedAt: creditNote.issuedAt,
+      customerCode: getCustomerCode(creditNote.invoice.billingModel, creditNote.customerName),
+      productType: creditNote.invoice.productType || 'ACCOUNTING',
+      reason: creditNote.reason,
+      serviceFee: Number(creditNote.serviceFee),
+      grossAmount: Number(creditNote.grossAmount),
+      vatType: creditNote.invoice.vatType as 'VAT' | 'NON_VAT',
+      withholdingCode: creditNote.invoice.withholdingCode || undefined,
+    }));
+
     // Generate CSV
-    const csvContent = await generateYtoCsv(csvData);
+    const csvContent = await generateYtoCsv(csvData, creditNoteCsvData);
 
     // Generate filename
     const entity = billingEntity || 'ALL';
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
 import { getPendingInvoices, getInvoiceStats } from '@/lib/billing-service';
+import { InvoiceStatus } from '@/generated/prisma';
 
 export async function GET(request: NextRequest) {
   try {
@@ -35,9 +36,13 @@ export async function GET(request: NextRequest) {
       paidAtFilter.lte = endDate;
     }
 
+    // Status accepts a comma-separated list (e.g. PAID,PARTIALLY_PAID)
+    const statuses = status ? (status.split(',').map((s) => s.trim()) as InvoiceStatus[]) : [];
+
     // Build where clause
     const where = {
-      ...(status && { status: status as any }),
+      ...(statuses.length === 1 && { status: statuses[0] }),
+      ...(statuses.length > 1 && { status: { in: statuses } }),
       ...(billingEntity && { company: { code: billingEntity } }),
       ...(partner && { billingModel: partner as any }),
       ...(Object.keys(paidAtFilter).length > 0 && { paidAt: paidAtFilter }),
@@ -64,6 +69,8 @@ export async function GET(request: NextRequest) {
           status: true,
           paidAt: true,
           paidAmount: true,
+          emailStatus: true,
+          emailError: true,
           // Follow-up tracking fields
           followUpEnabled: true,
           followUpCount: true,
@@ -12,7 +12,7 @@ export async function GET(request: NextRequest) {
 
     const partners = await prisma.partner.findMany({
       include: {
-        company: true,
+        company: { omit: { smtpPassword: true, paymentApiKey: true, paymentWebhookSecret: true } },
         emailTemplate: {
           select: {
             id: true,
@@ -38,7 +38,7 @@ export async function POST(
       return NextResponse.json({ error: 'Cannot pause an ended schedule' }, { status: 400 });
     }
 
-    const scheduledBilling = await pauseSchedule(id);
+    const scheduledBilling = await pauseSchedule(id, { changedById: (session.user as { id: string }).id });
 
     // Create audit log
     await prisma.auditLog.create({
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { deletePriceChange } from '@/lib/price-change-service';
+import { businessNow } from '@/lib/business-time';
+
+/**
+ * DELETE /api/scheduled-billings/[id]/price-changes/[changeId]
+ * Remove a price change that has not taken effect yet
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; changeId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, changeId } = await params;
+
+    const existing = await prisma.scheduledBillingPriceChange.findFirst({
+      where: { id: changeId, scheduledBillingId: id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Price change not found' }, { status: 404 });
+    }
+
+    // Amounts already billed must stay reproducible
+    if (existing.effectiveDate <= businessNow()) {
+      return NextResponse.json(
+        { error: 'Cannot delete a price change that has already taken effect' },
+        { status: 400 }
+      );
+    }
+
+    await deletePriceChange(changeId);
+
+    // Create audit log
+    await prisma.auditLog.create({
+      data: {
+        userId: (session.user as { id: string }).id,
+        action: 'SCHEDULED_BILLING_PRICE_CHANGE_DELETED',
+        entityType: 'ScheduledBilling',
+        entityId: id,
+        details: {
+          effectiveDate: existing.effectiveDate.toISOString(),
+          amount: Number(existing.amount),
+          noticeSent: !!existing.noticeSentAt,
+        },
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting price change:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete price change' },
+      { status: 500 }
+    );
+  }
+}
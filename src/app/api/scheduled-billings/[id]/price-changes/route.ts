@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { listPriceChanges, createPriceChange } from '@/lib/price-change-service';
+import { businessToday } from '@/lib/business-time';
+
+/**
+ * GET /api/scheduled-billings/[id]/price-changes
+ * List a schedule's price changes, its current amount and the next projected escalations
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await listPriceChanges(id);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Scheduled billing not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...result,
+      priceChanges: result.priceChanges.map((change) => ({
+        ...change,
+        amount: Number(change.amount),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching price changes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch price changes' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/scheduled-billings/[id]/price-changes
+ * Add a future-dated billing amount
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.scheduledBilling.findUnique({
+      where: { id },
+      select: { id: true, contract: { select: { companyName: true } } },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Scheduled billing not found' }, { status: 404 });
+    }
+
+    const effectiveDate = body.effectiveDate ? new Date(body.effectiveDate) : null;
+    if (!effectiveDate || isNaN(effectiveDate.getTime())) {
+      return NextResponse.json({ error: 'effectiveDate is required' }, { status: 400 });
+    }
+
+    if (effectiveDate < businessToday()) {
+      return NextResponse.json({ error: 'effectiveDate cannot be in the past' }, { status: 400 });
+    }
+
+    if (!body.amount || body.amount <= 0) {
+      return NextResponse.json({ error: 'amount must be greater than 0' }, { status: 400 });
+    }
+
+    const priceChange = await createPriceChange({
+      scheduledBillingId: id,
+      effectiveDate,
+      amount: body.amount,
+      reason: body.reason,
+      createdById: (session.user as { id: string }).id,
+    });
+
+    // Create audit log
+    await prisma.auditLog.create({
+      data: {
+        userId: (session.user as { id: string }).id,
+        action: 'SCHEDULED_BILLING_PRICE_CHANGE_ADDED',
+        entityType: 'ScheduledBilling',
+        entityId: id,
+        details: {
+          companyName: existing.contract.companyName,
+          effectiveDate: priceChange.effectiveDate.toISOString(),
+          amount: body.amount,
+          reason: body.reason || null,
+        },
+      },
+    });
+
+    return NextResponse.json({ ...priceChange, amount: Number(priceChange.amount) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating price change:', error);
+    return NextResponse.json(
+      { error: 'Failed to create price change' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,8 @@ import {
   updateScheduledBilling,
   deleteScheduledBilling,
   UpdateScheduledBillingInput,
+  validatePriceSettings,
+  validateUsageSettings,
 } from '@/lib/scheduled-billing-service';
 
 /**
@@ -84,6 +86,32 @@ export async function PATCH(
       );
     }
 
+    // Validate prorationMethod if provided
+    if (body.prorationMethod !== undefined && !['NONE', 'DAILY', 'THIRTY_360'].includes(body.prorationMethod)) {
+      return NextResponse.json(
+        { error: 'prorationMethod must be NONE, DAILY or THIRTY_360' },
+        { status: 400 }
+      );
+    }
+
+    // Validate businessDayRule if provided
+    if (body.businessDayRule !== undefined && !['NONE', 'NEXT_BUSINESS_DAY', 'PREVIOUS_BUSINESS_DAY'].includes(body.businessDayRule)) {
+      return NextResponse.json(
+        { error: 'businessDayRule must be NONE, NEXT_BUSINESS_DAY or PREVIOUS_BUSINESS_DAY' },
+        { status: 400 }
+      );
+    }
+
+    const priceSettingsError = validatePriceSettings(body);
+    if (priceSettingsError) {
+      return NextResponse.json({ error: priceSettingsError }, { status: 400 });
+    }
+
+    const usageSettingsError = validateUsageSettings(body);
+    if (usageSettingsError) {
+      return NextResponse.json({ error: usageSettingsError }, { status: 400 });
+    }
+
     const input: UpdateScheduledBillingInput = {
       ...(body.billingAmount !== undefined && { billingAmount: body.billingAmount }),
       ...(body.vatType !== undefined && { vatType: body.vatType }),
@@ -93,13 +121,27 @@ export async function PATCH(
       ...(body.billingDayOfMonth !== undefined && { billingDayOfMonth: body.billingDayOfMonth }),
       ...(body.startDate !== undefined && { startDate: new Date(body.startDate) }),
       ...(body.endDate !== undefined && { endDate: body.endDate ? new Date(body.endDate) : null }),
+      ...(body.prorationMethod !== undefined && { prorationMethod: body.prorationMethod }),
+      ...(body.businessDayRule !== undefined && { businessDayRule: body.businessDayRule }),
+      ...(body.escalationRate !== undefined && { escalationRate: body.escalationRate }),
+      ...(body.escalationMonths !== undefined && { escalationMonths: body.escalationMonths }),
+      ...(body.priceNoticeDays !== undefined && { priceNoticeDays: body.priceNoticeDays }),
+      ...(body.billingMode !== undefined && { billingMode: body.billingMode }),
+      ...(body.usageMetric !== undefined && { usageMetric: body.usageMetric }),
+      ...(body.usageRate !== undefined && { usageRate: body.usageRate }),
+      ...(body.usageTiers !== undefined && { usageTiers: body.usageTiers }),
+      ...(body.usageMinimumFee !== undefined && { usageMinimumFee: body.usageMinimumFee }),
       ...(body.autoApprove !== undefined && { autoApprove: body.autoApprove }),
       ...(body.autoSendEnabled !== undefined && { autoSendEnabled: body.autoSendEnabled }),
       ...(body.status !== undefined && { status: body.status }),
       ...(body.remarks !== undefined && { remarks: body.remarks }),
     };
 
-    const scheduledBilling = await updateScheduledBilling(id, input);
+    // Each edit is recorded as a new schedule version
+    const scheduledBilling = await updateScheduledBilling(id, input, {
+      changedById: (session.user as { id: string }).id,
+      changeReason: typeof body.changeReason === 'string' && body.changeReason.trim() ? body.changeReason.trim() : undefined,
+    });
 
     // Create audit log
     await prisma.auditLog.create({
@@ -42,6 +42,12 @@ export async function POST(
 
     // Generate invoice
     const result = await generateFromScheduledBilling(id);
+    if (!result) {
+      return NextResponse.json(
+        { error: 'No days of service fall within this billing period; the schedule was skipped or ended' },
+        { status: 400 }
+      );
+    }
 
     // If auto-approved and auto-send enabled, send the invoice
     let emailSent = false;
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getCurrentScheduleVersion, listScheduleVersions } from '@/lib/schedule-version-service';
+
+/**
+ * GET /api/scheduled-billings/[id]/versions
+ * List a schedule's versions with who changed what, when it took effect and the invoices billed on it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Schedules created before versioning get their current terms recorded as version 1
+    await getCurrentScheduleVersion(id);
+    const versions = await listScheduleVersions(id);
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json({ error: 'Scheduled billing not found' }, { status: 404 });
+    }
+    console.error('Error fetching schedule versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch schedule versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { format } from 'date-fns';
+import {
+  getBillingForecast,
+  parseForecastParams,
+  generateForecastCsv,
+} from '@/lib/billing-forecast-service';
+
+/**
+ * GET /api/scheduled-billings/forecast/export
+ * Downloads the billing forecast as CSV with the same filters as GET /api/scheduled-billings/forecast
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const params = parseForecastParams(searchParams);
+    if ('error' in params) {
+      return NextResponse.json({ error: params.error }, { status: 400 });
+    }
+
+    const forecast = await getBillingForecast(params);
+    const filename = `Billing_Forecast_${params.billingEntity || 'ALL'}_${forecast.days}d_${format(forecast.from, 'yyyyMMdd')}`;
+
+    return new NextResponse(generateForecastCsv(forecast), {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${filename}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting billing forecast:', error);
+    return NextResponse.json(
+      { error: 'Failed to export billing forecast' },
+      { status: 500 }
+    );
+  }
+}
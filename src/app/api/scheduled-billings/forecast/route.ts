@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getBillingForecast, parseForecastParams } from '@/lib/billing-forecast-service';
+
+/**
+ * GET /api/scheduled-billings/forecast
+ * Invoices the scheduler will create over the next N days (simulated, nothing is written),
+ * with per-entity and per-product totals
+ *
+ * Query params:
+ * - days: Forecast window in days (default 30)
+ * - billingEntity: Filter by billing entity code
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const params = parseForecastParams(searchParams);
+    if ('error' in params) {
+      return NextResponse.json({ error: params.error }, { status: 400 });
+    }
+
+    const forecast = await getBillingForecast(params);
+
+    return NextResponse.json(forecast);
+  } catch (error) {
+    console.error('Error building billing forecast:', error);
+    return NextResponse.json(
+      { error: 'Failed to build billing forecast' },
+      { status: 500 }
+    );
+  }
+}
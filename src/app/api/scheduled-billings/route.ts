@@ -8,7 +8,11 @@ import {
   listScheduledBillings,
   getScheduledBillingStats,
   CreateScheduledBillingInput,
+  validatePriceSettings,
+  validateUsageSettings,
 } from '@/lib/scheduled-billing-service';
+import { getNextCronRuns } from '@/lib/cron-expression';
+import { getBusinessTimezone } from '@/lib/business-time';
 
 /**
  * GET /api/scheduled-billings
@@ -34,7 +38,7 @@ export async function GET(request: NextRequest) {
       nextRun: string | null;
     } = {
       running: false,
-      config: { cronExpression: '0 8 * * *', enabled: true, daysBeforeDue: 15, timezone: 'Asia/Manila' },
+      config: { cronExpression: '0 8 * * *', enabled: true, daysBeforeDue: 15, timezone: getBusinessTimezone() },
       lastRun: null,
       nextRun: null,
     };
@@ -74,8 +78,8 @@ export async function GET(request: NextRequest) {
     // Get last successful run
     const lastSuccessfulRun = jobRuns.find((run) => run.status === 'COMPLETED');
 
-    // Calculate next run time (approximate based on cron)
-    const nextRunTime = calculateNextRun(schedulerStatus.config.cronExpression);
+    // Upcoming runs of the billing cron
+    const upcomingRuns = calculateUpcomingRuns(schedulerStatus.config.cronExpression, schedulerStatus.config.timezone);
 
     // Transform scheduled billings for response
     const formattedBillings = scheduledBillings.map((sb) => ({
@@ -92,6 +96,16 @@ export async function GET(request: NextRequest) {
       nextBillingDate: sb.nextBillingDate,
       startDate: sb.startDate,
       endDate: sb.endDate,
+      prorationMethod: sb.prorationMethod,
+      businessDayRule: sb.businessDayRule,
+      escalationRate: sb.escalationRate ? Number(sb.escalationRate) : null,
+      escalationMonths: sb.escalationMonths,
+      priceNoticeDays: sb.priceNoticeDays,
+      billingMode: sb.billingMode,
+      usageMetric: sb.usageMetric,
+      usageRate: sb.usageRate != null ? Number(sb.usageRate) : null,
+      usageTiers: sb.usageTiers,
+      usageMinimumFee: sb.usageMinimumFee != null ? Number(sb.usageMinimumFee) : null,
       autoApprove: sb.autoApprove,
       autoSendEnabled: sb.autoSendEnabled,
       status: sb.status,
@@ -115,7 +129,8 @@ export async function GET(request: NextRequest) {
       scheduler: {
         ...schedulerStatus,
         lastRun: lastSuccessfulRun?.startedAt || null,
-        nextRun: nextRunTime,
+        nextRun: upcomingRuns[0] || null,
+        upcomingRuns,
       },
       stats: {
         ...stats,
@@ -168,12 +183,28 @@ export async function POST(request: NextRequest) {
     if (!body.billingEntityId) {
       return NextResponse.json({ error: 'billingEntityId is required' }, { status: 400 });
     }
-    if (!body.billingAmount || body.billingAmount <= 0) {
+    // Usage schedules compute the amount from recorded usage, so billingAmount is optional
+    const isUsage = body.billingMode === 'USAGE';
+    if (isUsage ? body.billingAmount != null && body.billingAmount < 0 : !body.billingAmount || body.billingAmount <= 0) {
       return NextResponse.json({ error: 'billingAmount must be greater than 0' }, { status: 400 });
     }
     if (!body.billingDayOfMonth || body.billingDayOfMonth < 1 || body.billingDayOfMonth > 31) {
       return NextResponse.json({ error: 'billingDayOfMonth must be between 1 and 31' }, { status: 400 });
     }
+    if (body.prorationMethod !== undefined && !['NONE', 'DAILY', 'THIRTY_360'].includes(body.prorationMethod)) {
+      return NextResponse.json({ error: 'prorationMethod must be NONE, DAILY or THIRTY_360' }, { status: 400 });
+    }
+    if (body.businessDayRule !== undefined && !['NONE', 'NEXT_BUSINESS_DAY', 'PREVIOUS_BUSINESS_DAY'].includes(body.businessDayRule)) {
+      return NextResponse.json({ error: 'businessDayRule must be NONE, NEXT_BUSINESS_DAY or PREVIOUS_BUSINESS_DAY' }, { status: 400 });
+    }
+    const priceSettingsError = validatePriceSettings(body);
+    if (priceSettingsError) {
+      return NextResponse.json({ error: priceSettingsError }, { status: 400 });
+    }
+    const usageSettingsError = validateUsageSettings(body);
+    if (usageSettingsError) {
+      return NextResponse.json({ error: usageSettingsError }, { status: 400 });
+    }
 
     // Check if contract exists
     const contract = await prisma.contract.findUnique({
@@ -184,6 +215,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
     }
 
+    if (isUsage && body.usageRate == null && !body.usageTiers && !contract.ratePerEmployee) {
+      return NextResponse.json(
+        { error: 'Usage billing needs a usageRate, usageTiers or a contract rate per employee' },
+        { status: 400 }
+      );
+    }
+
     // Check if billing entity exists
     const billingEntity = await prisma.company.findUnique({
       where: { id: body.billingEntityId },
@@ -206,7 +244,7 @@ export async function POST(request: NextRequest) {
     const input: CreateScheduledBillingInput = {
       contractId: body.contractId,
       billingEntityId: body.billingEntityId,
-      billingAmount: body.billingAmount,
+      billingAmount: body.billingAmount || 0,
       vatType: body.vatType,
       hasWithholding: body.hasWithholding,
       withholdingRate: body.withholdingRate,
@@ -216,6 +254,16 @@ export async function POST(request: NextRequest) {
       dueDayOfMonth: body.dueDayOfMonth,
       startDate: body.startDate ? new Date(body.startDate) : undefined,
       endDate: body.endDate ? new Date(body.endDate) : undefined,
+      prorationMethod: body.prorationMethod,
+      businessDayRule: body.businessDayRule,
+      escalationRate: body.escalationRate ?? undefined,
+      escalationMonths: body.escalationMonths ?? undefined,
+      priceNoticeDays: body.priceNoticeDays ?? undefined,
+      billingMode: body.billingMode,
+      usageMetric: body.usageMetric ?? undefined,
+      usageRate: body.usageRate ?? undefined,
+      usageTiers: body.usageTiers ?? undefined,
+      usageMinimumFee: body.usageMinimumFee ?? undefined,
       autoApprove: body.autoApprove,
       autoSendEnabled: body.autoSendEnabled,
       remarks: body.remarks,
@@ -255,27 +303,12 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Calculate approximate next run time based on cron expression
+ * Calculate the upcoming run times of the cron expression in the scheduler timezone
  */
-function calculateNextRun(cronExpression: string): Date | null {
+function calculateUpcomingRuns(cronExpression: string, timeZone: string): Date[] {
   try {
-    // Simple parsing for common patterns like "0 8 * * *" (daily at 8 AM)
-    const parts = cronExpression.split(' ');
-    if (parts.length !== 5) return null;
-
-    const [minute, hour] = parts;
-    const now = new Date();
-    const nextRun = new Date();
-
-    nextRun.setHours(parseInt(hour), parseInt(minute), 0, 0);
-
-    // If the time has passed today, set for tomorrow
-    if (nextRun <= now) {
-      nextRun.setDate(nextRun.getDate() + 1);
-    }
-
-    return nextRun;
+    return getNextCronRuns(cronExpression, 5, { timeZone });
   } catch {
-    return null;
+    return [];
   }
 }
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getNextCronRuns, validateCronExpression } from '@/lib/cron-expression';
+import { getBusinessTimezone } from '@/lib/business-time';
+
+/**
+ * GET /api/scheduler/preview?cronExpression=0 8 * * *
+ * Validate a billing cron expression and list its upcoming runs in the business timezone
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const cronExpression = searchParams.get('cronExpression') || '';
+    const count = Math.min(Math.max(parseInt(searchParams.get('count') || '5') || 5, 1), 20);
+    const timezone = getBusinessTimezone();
+
+    const error = validateCronExpression(cronExpression);
+    if (error) {
+      return NextResponse.json({ cronExpression, timezone, valid: false, error, upcomingRuns: [] });
+    }
+
+    return NextResponse.json({
+      cronExpression,
+      timezone,
+      valid: true,
+      upcomingRuns: getNextCronRuns(cronExpression, count, { timeZone: timezone }),
+    });
+  } catch (error) {
+    console.error('Error previewing cron expression:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview cron expression' },
+      { status: 500 }
+    );
+  }
+}
@@ -33,16 +33,68 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    // Dynamic import to avoid node-cron issues in serverless
+    const { triggerBillingJob, triggerDunningJob, triggerPriceNoticeJob, triggerEmailQueueJob } = await import('@/lib/scheduler');
+
+    // The email outbox has its own, more frequent cron
+    if (new URL(request.url).searchParams.get('job') === 'email') {
+      const emailQueue = await triggerEmailQueueJob();
+
+      return NextResponse.json({
+        message: 'Email queue processed successfully',
+        source,
+        emailQueue,
+      });
+    }
+
     console.log(`[Cron Trigger] Running billing job (source: ${source})`);
 
-    // Dynamic import to avoid node-cron issues in serverless
-    const { triggerBillingJob } = await import('@/lib/scheduler');
-    const result = await triggerBillingJob();
+    // A failed or already running billing job must not block the follow-up jobs
+    let result = null;
+    let billingError: string | null = null;
+    let alreadyRunning = false;
+    try {
+      result = await triggerBillingJob();
+    } catch (error) {
+      // Another instance or trigger holds the billing job lock
+      if (error instanceof Error && error.message.includes('already running')) {
+        console.log('[Cron Trigger] Billing job already running, skipped');
+        alreadyRunning = true;
+      } else {
+        console.error('[Cron Trigger] Billing job failed:', error);
+        billingError = error instanceof Error ? error.message : 'Billing job failed';
+      }
+    }
+
+    // Dunning runs on the same daily cron, after billing
+    let dunning = null;
+    try {
+      dunning = await triggerDunningJob();
+    } catch (dunningError) {
+      console.error('[Cron Trigger] Dunning job failed:', dunningError);
+    }
+
+    let priceNotices = null;
+    try {
+      priceNotices = await triggerPriceNoticeJob();
+    } catch (priceNoticeError) {
+      console.error('[Cron Trigger] Price notice job failed:', priceNoticeError);
+    }
+
+    if (billingError) {
+      return NextResponse.json(
+        { error: 'Billing job failed', details: billingError, source, dunning, priceNotices },
+        { status: 500 }
+      );
+    }
 
     return NextResponse.json({
-      message: 'Billing job triggered successfully',
+      message: alreadyRunning ? 'Billing job is already running, skipped' : 'Billing job triggered successfully',
       source,
+      alreadyRunning,
       ...result,
+      dunning,
+      priceNotices,
     });
   } catch (error) {
     console.error('[Cron Trigger] Error:', error);
@@ -66,6 +118,47 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
+    const job = new URL(request.url).searchParams.get('job');
+
+    if (job === 'dunning') {
+      console.log('[Cron Trigger] Manual dunning trigger by admin');
+
+      const { triggerDunningJob } = await import('@/lib/scheduler');
+      const result = await triggerDunningJob();
+
+      return NextResponse.json({
+        message: 'Dunning job triggered successfully',
+        source: 'manual',
+        ...result,
+      });
+    }
+
+    if (job === 'price-notices') {
+      console.log('[Cron Trigger] Manual price notice trigger by admin');
+
+      const { triggerPriceNoticeJob } = await import('@/lib/scheduler');
+      const result = await triggerPriceNoticeJob();
+
+      return NextResponse.json({
+        message: 'Price notice job triggered successfully',
+        source: 'manual',
+        ...result,
+      });
+    }
+
+    if (job === 'email') {
+      console.log('[Cron Trigger] Manual email queue trigger by admin');
+
+      const { triggerEmailQueueJob } = await import('@/lib/scheduler');
+      const emailQueue = await triggerEmailQueueJob();
+
+      return NextResponse.json({
+        message: 'Email queue processed successfully',
+        source: 'manual',
+        emailQueue,
+      });
+    }
+
     console.log('[Cron Trigger] Manual trigger by admin');
 
     // Dynamic import to avoid node-cron issues in serverless
@@ -78,6 +171,15 @@ export async function POST(request: NextRequest) {
       ...result,
     });
   } catch (error) {
+    // Another instance or trigger holds the job's lock
+    if (error instanceof Error && error.message.includes('already running')) {
+      console.log(`[Cron Trigger] ${error.message}, skipped`);
+      return NextResponse.json(
+        { error: error.message, alreadyRunning: true },
+        { status: 409 }
+      );
+    }
+
     console.error('[Cron Trigger] Error:', error);
     return NextResponse.json(
       { error: 'Failed to trigger billing job' },
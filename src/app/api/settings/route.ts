@@ -3,16 +3,11 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
 import { clearSettingsCache } from '@/lib/settings';
+import { validateCronExpression } from '@/lib/cron-expression';
 
 // Default settings
 const DEFAULT_SETTINGS = {
   // SOA Template Settings
-  'soa.yowi.bankName': { value: 'BDO', category: 'soa', description: 'YOWI Bank Name' },
-  'soa.yowi.bankAccountName': { value: 'YAHSHUA OUTSOURCING WORLDWIDE INC.', category: 'soa', description: 'YOWI Bank Account Name' },
-  'soa.yowi.bankAccountNo': { value: '', category: 'soa', description: 'YOWI Bank Account Number' },
-  'soa.abba.bankName': { value: 'BDO', category: 'soa', description: 'ABBA Bank Name' },
-  'soa.abba.bankAccountName': { value: 'THE ABBA INITIATIVE OPC', category: 'soa', description: 'ABBA Bank Account Name' },
-  'soa.abba.bankAccountNo': { value: '', category: 'soa', description: 'ABBA Bank Account Number' },
   'soa.footer': { value: 'Thank you for your business. Please include the invoice number in your payment reference.', category: 'soa', description: 'SOA Footer Text' },
   'soa.preparedBy': { value: 'VANESSA L. DONOSO', category: 'soa', description: 'Prepared By (default)' },
   'soa.reviewedBy': { value: 'RUTH MICHELLE C. BAYRON', category: 'soa', description: 'Reviewed By (default)' },
@@ -21,6 +16,11 @@ const DEFAULT_SETTINGS = {
   'scheduler.cronExpression': { value: '0 8 * * *', category: 'scheduler', description: 'Cron expression for billing runs (default: 8 AM daily)' },
   'scheduler.daysBeforeDue': { value: 15, category: 'scheduler', description: 'Generate invoices X days before due date' },
 
+  // Follow-up (dunning) Settings
+  'followUp.autoSendEnabled': { value: false, category: 'followUp', description: 'Automatically send follow-up emails for overdue invoices' },
+  'followUp.dayOffsets': { value: [3, 10, 20], category: 'followUp', description: 'Days past due before each follow-up level is sent when no escalation ladder is configured' },
+  'followUp.businessDaysOnly': { value: false, category: 'followUp', description: 'Count follow-up delays in business days, skipping weekends and holidays' },
+
   // Email Settings
   'email.enabled': { value: true, category: 'email', description: 'Enable email sending' },
   'email.bccAddress': { value: '', category: 'email', description: 'BCC email address for all sent invoices' },
@@ -118,6 +118,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Reject cron expressions the scheduler cannot run
+    const cronSetting = settings.find((s: any) => s.key === 'scheduler.cronExpression');
+    if (cronSetting) {
+      const cronError = validateCronExpression(String(cronSetting.value ?? ''));
+      if (cronError) {
+        return NextResponse.json(
+          { error: `Invalid cron expression: ${cronError}` },
+          { status: 400 }
+        );
+      }
+    }
+
     // Upsert each setting
     const results = [];
     for (const setting of settings) {
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  getCustomerStatement,
+  generateCustomerStatementPdf,
+  getStatementFilename,
+  parseStatementParams,
+} from '@/lib/statement-service';
+
+/**
+ * GET /api/statements?customerName=&billingEntity=&from=&to=&format=pdf|json
+ * Customer statement of account across all invoices in the period.
+ * Returns the PDF by default; format=json returns the statement data for preview.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const params = parseStatementParams({
+      customerName: searchParams.get('customerName'),
+      billingEntity: searchParams.get('billingEntity'),
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+    });
+    if ('error' in params) {
+      return NextResponse.json({ error: params.error }, { status: 400 });
+    }
+
+    const statement = await getCustomerStatement(params);
+
+    if (searchParams.get('format') === 'json') {
+      return NextResponse.json(statement);
+    }
+
+    const pdfBytes = await generateCustomerStatementPdf(statement);
+    const pdfBuffer = Buffer.from(pdfBytes);
+
+    return new NextResponse(pdfBuffer, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getStatementFilename(statement)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error generating statement:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to generate statement', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { sendCustomerStatement, parseStatementParams } from '@/lib/statement-service';
+
+/**
+ * POST /api/statements/send
+ * Emails a customer statement of account as a PDF attachment.
+ * Body: { customerName, billingEntity, from?, to?, toEmails? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check user role
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'APPROVER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const params = parseStatementParams(body);
+    if ('error' in params) {
+      return NextResponse.json({ error: params.error }, { status: 400 });
+    }
+
+    const result = await sendCustomerStatement(params, {
+      toEmails: body.toEmails || null,
+      userId: session.user.id,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message, details: result.error },
+        { status: result.error ? 500 : 400 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error sending statement:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to send statement', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { deleteUsage } from '@/lib/usage-billing-service';
+
+/**
+ * DELETE /api/usage/[id]
+ * Remove a recorded usage entry
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.contractUsage.findUnique({
+      where: { id },
+      include: { contract: { select: { companyName: true } } },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Usage entry not found' }, { status: 404 });
+    }
+
+    await deleteUsage(id);
+
+    // Create audit log
+    await prisma.auditLog.create({
+      data: {
+        userId: (session.user as { id: string }).id,
+        action: 'CONTRACT_USAGE_DELETED',
+        entityType: 'Contract',
+        entityId: existing.contractId,
+        details: {
+          companyName: existing.contract.companyName,
+          month: existing.month.toISOString(),
+          metric: existing.metric,
+          quantity: existing.quantity,
+        },
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { listUsage, upsertUsage } from '@/lib/usage-billing-service';
+
+// Parse YYYY-MM to the first day of the month in local time
+function parseMonthParam(value: string | null | undefined): Date | null {
+  const match = value?.match(/^(\d{4})-(\d{1,2})$/);
+  if (!match) return null;
+  const month = parseInt(match[2]);
+  return month >= 1 && month <= 12 ? new Date(parseInt(match[1]), month - 1, 1) : null;
+}
+
+/**
+ * GET /api/usage
+ * List recorded contract usage, optionally filtered by month (YYYY-MM) and contract
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const monthParam = searchParams.get('month');
+    const month = parseMonthParam(monthParam);
+
+    if (monthParam && !month) {
+      return NextResponse.json({ error: 'month must use YYYY-MM format' }, { status: 400 });
+    }
+
+    const usage = await listUsage({
+      month: month || undefined,
+      contractId: searchParams.get('contractId') || undefined,
+    });
+
+    return NextResponse.json(
+      usage.map((entry) => ({
+        ...entry,
+        contract: {
+          ...entry.contract,
+          ratePerEmployee: entry.contract.ratePerEmployee != null ? Number(entry.contract.ratePerEmployee) : null,
+        },
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch usage' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/usage
+ * Record a contract's usage for a month, replacing any existing entry for the same metric
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+
+    if (!body.contractId) {
+      return NextResponse.json({ error: 'contractId is required' }, { status: 400 });
+    }
+
+    const month = parseMonthParam(body.month);
+    if (!month) {
+      return NextResponse.json({ error: 'month must use YYYY-MM format' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(body.quantity) || body.quantity < 0) {
+      return NextResponse.json({ error: 'quantity must be a whole number of 0 or more' }, { status: 400 });
+    }
+
+    const contract = await prisma.contract.findUnique({
+      where: { id: body.contractId },
+      select: { id: true, companyName: true },
+    });
+
+    if (!contract) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    }
+
+    const usage = await upsertUsage({
+      contractId: contract.id,
+      month,
+      metric: body.metric ? String(body.metric).toUpperCase() : undefined,
+      unit: body.unit,
+      quantity: body.quantity,
+      notes: body.notes,
+      createdById: (session.user as { id: string }).id,
+    });
+
+    // Create audit log
+    await prisma.auditLog.create({
+      data: {
+        userId: (session.user as { id: string }).id,
+        action: 'CONTRACT_USAGE_RECORDED',
+        entityType: 'Contract',
+        entityId: contract.id,
+        details: {
+          companyName: contract.companyName,
+          month: body.month,
+          metric: usage.metric,
+          quantity: usage.quantity,
+        },
+      },
+    });
+
+    return NextResponse.json(usage, { status: 201 });
+  } catch (error) {
+    console.error('Error recording usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to record usage' },
+      { status: 500 }
+    );
+  }
+}
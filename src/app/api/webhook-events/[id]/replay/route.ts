@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { replayWebhookEvent } from '@/lib/webhook-event-service';
+
+/**
+ * POST /api/webhook-events/[id]/replay
+ * Process a stored webhook again with its original body and headers (admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const event = await replayWebhookEvent(id, session.user.id);
+
+    return NextResponse.json(event);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json({ error: 'Webhook event not found' }, { status: 404 });
+    }
+    console.error('Error replaying webhook event:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay webhook event' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { WebhookEventStatus } from '@/generated/prisma';
+import { listWebhookEvents } from '@/lib/webhook-event-service';
+
+/**
+ * GET /api/webhook-events?status=&provider=&search=&page=
+ * List stored payment webhooks with their verification and processing outcome (admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+
+    const result = await listWebhookEvents({
+      status: status && status in WebhookEventStatus ? (status as WebhookEventStatus) : undefined,
+      provider: searchParams.get('provider') || undefined,
+      search: searchParams.get('search') || undefined,
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '20'),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching webhook events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook events' },
+      { status: 500 }
+    );
+  }
+}
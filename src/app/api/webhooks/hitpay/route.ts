@@ -1,173 +1,23 @@
-import { NextRequest, NextResponse } from 'next/server';
-import prisma from '@/lib/prisma';
+import { NextRequest } from 'next/server';
 import {
-  verifyWebhookSignature,
-  getPaymentDetailsFromWebhook,
-  HitpayWebhookPayload,
-} from '@/lib/hitpay-service';
-import { notifyInvoicePaid } from '@/lib/notifications';
+  POST as handlePaymentWebhook,
+  GET as paymentWebhookHealthCheck,
+} from '../payments/[provider]/route';
+
+const HITPAY = { params: Promise.resolve({ provider: 'hitpay' }) };
 
 /**
  * POST /api/webhooks/hitpay
- * Handles payment confirmation webhooks from HitPay
- *
- * No authentication required - uses HMAC signature verification
+ * HitPay webhooks at their original URL - handled as /api/webhooks/payments/hitpay
  */
 export async function POST(request: NextRequest) {
-  try {
-    // Get raw body for signature verification
-    const rawBody = await request.text();
-
-    // Get signature from header
-    const signature = request.headers.get('Hitpay-Signature');
-    const eventType = request.headers.get('Hitpay-Event-Type');
-    const eventObject = request.headers.get('Hitpay-Event-Object');
-
-    console.log('HitPay webhook received:', {
-      eventType,
-      eventObject,
-      hasSignature: !!signature,
-      signature: signature?.substring(0, 20) + '...',
-      bodyLength: rawBody.length,
-    });
-
-    // Verify signature
-    // TODO: Re-enable signature verification after confirming correct salt
-    const signatureValid = signature && verifyWebhookSignature(rawBody, signature);
-    if (!signatureValid) {
-      console.warn('HitPay webhook signature mismatch - proceeding anyway for testing', {
-        receivedSignature: signature,
-        bodyPreview: rawBody.substring(0, 100),
-      });
-      // For now, continue processing to test the flow
-      // In production, uncomment the return statement below:
-      // return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
-    }
-
-    // Parse payload
-    const payload: HitpayWebhookPayload = JSON.parse(rawBody);
-    const paymentDetails = getPaymentDetailsFromWebhook(payload);
-
-    console.log('Payment details from webhook:', paymentDetails);
-
-    // Only process completed payments
-    if (payload.status !== 'completed') {
-      console.log(`Ignoring webhook with status: ${payload.status}`);
-      return NextResponse.json({ received: true, status: payload.status });
-    }
-
-    // Find the payment request by HitPay request ID
-    const paymentRequest = await prisma.hitpayPaymentRequest.findUnique({
-      where: { hitpayRequestId: paymentDetails.paymentRequestId },
-      include: {
-        invoice: {
-          select: {
-            id: true,
-            billingNo: true,
-            customerName: true,
-            status: true,
-            netAmount: true,
-          },
-        },
-      },
-    });
-
-    if (!paymentRequest) {
-      console.error('Payment request not found:', paymentDetails.paymentRequestId);
-      return NextResponse.json(
-        { error: 'Payment request not found' },
-        { status: 404 }
-      );
-    }
-
-    // Check if already processed (idempotency)
-    if (paymentRequest.status === 'COMPLETED') {
-      console.log('Payment already processed:', paymentRequest.id);
-      return NextResponse.json({ received: true, alreadyProcessed: true });
-    }
-
-    // Check if invoice is already paid
-    if (paymentRequest.invoice.status === 'PAID') {
-      console.log('Invoice already paid:', paymentRequest.invoice.id);
-      return NextResponse.json({ received: true, alreadyPaid: true });
-    }
-
-    // Update payment request and invoice in a transaction
-    await prisma.$transaction(async (tx) => {
-      // Update payment request
-      await tx.hitpayPaymentRequest.update({
-        where: { id: paymentRequest.id },
-        data: {
-          status: 'COMPLETED',
-          paidAt: new Date(),
-          paymentMethod: paymentDetails.paymentMethod,
-          paymentReference: paymentDetails.paymentReference,
-        },
-      });
-
-      // Update invoice to PAID
-      await tx.invoice.update({
-        where: { id: paymentRequest.invoice.id },
-        data: {
-          status: 'PAID',
-          paidAt: new Date(),
-          paidAmount: Number(paymentDetails.amount),
-          paymentMethod: 'HITPAY',
-          paymentReference: paymentDetails.paymentReference,
-        },
-      });
-
-      // Create audit log
-      await tx.auditLog.create({
-        data: {
-          userId: null, // System action
-          action: 'INVOICE_PAID',
-          entityType: 'Invoice',
-          entityId: paymentRequest.invoice.id,
-          details: {
-            billingNo: paymentRequest.invoice.billingNo,
-            paidAmount: paymentDetails.amount,
-            paymentMethod: 'HITPAY',
-            hitpayPaymentType: paymentDetails.paymentMethod,
-            paymentReference: paymentDetails.paymentReference,
-            source: 'hitpay_webhook',
-          },
-        },
-      });
-    });
-
-    // Send notification (outside transaction)
-    await notifyInvoicePaid({
-      id: paymentRequest.invoice.id,
-      billingNo: paymentRequest.invoice.billingNo,
-      customerName: paymentRequest.invoice.customerName,
-      paidAmount: Number(paymentDetails.amount),
-      paymentMethod: `HitPay (${paymentDetails.paymentMethod || 'Online'})`,
-    });
-
-    console.log('Payment processed successfully:', {
-      invoiceId: paymentRequest.invoice.id,
-      billingNo: paymentRequest.invoice.billingNo,
-      amount: paymentDetails.amount,
-    });
-
-    return NextResponse.json({ received: true, processed: true });
-  } catch (error) {
-    console.error('Error processing HitPay webhook:', error);
-    return NextResponse.json(
-      { error: 'Webhook processing failed' },
-      { status: 500 }
-    );
-  }
+  return handlePaymentWebhook(request, HITPAY);
 }
 
 /**
  * GET /api/webhooks/hitpay
  * Health check endpoint
  */
-export async function GET() {
-  return NextResponse.json({
-    status: 'ok',
-    message: 'HitPay webhook endpoint is active',
-  });
+export async function GET(request: NextRequest) {
+  return paymentWebhookHealthCheck(request, HITPAY);
 }
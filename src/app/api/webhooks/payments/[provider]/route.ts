@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentGateway } from '@/lib/payment-gateway';
+import { receivePaymentWebhook } from '@/lib/webhook-event-service';
+
+/**
+ * POST /api/webhooks/payments/[provider]
+ * Handles payment webhooks from a payment provider (e.g. /api/webhooks/payments/hitpay)
+ *
+ * No authentication required - the provider's adapter verifies the webhook signature.
+ * Every webhook is stored as received (see /dashboard/webhooks).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+
+  let gateway;
+  try {
+    gateway = getPaymentGateway(provider);
+  } catch {
+    return NextResponse.json({ error: `Unsupported payment provider: ${provider}` }, { status: 404 });
+  }
+
+  try {
+    // Get raw body for signature verification
+    const rawBody = await request.text();
+    const result = await receivePaymentWebhook(gateway, rawBody, request.headers);
+
+    switch (result.outcome) {
+      case 'REJECTED':
+        return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+      case 'NOT_FOUND':
+        return NextResponse.json({ error: 'Payment request not found' }, { status: 404 });
+      case 'IGNORED':
+      case 'FAILED':
+        return NextResponse.json({ received: true, status: result.providerStatus });
+      case 'ALREADY_PROCESSED':
+        return NextResponse.json({ received: true, alreadyProcessed: true });
+      case 'ALREADY_PAID':
+        return NextResponse.json({ received: true, alreadyPaid: true });
+      default:
+        return NextResponse.json({ received: true, processed: true });
+    }
+  } catch (error) {
+    console.error(`Error processing ${gateway.label} webhook:`, error);
+    return NextResponse.json(
+      { error: 'Webhook processing failed' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/webhooks/payments/[provider]
+ * Health check endpoint
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+
+  try {
+    const gateway = getPaymentGateway(provider);
+    return NextResponse.json({
+      status: 'ok',
+      message: `${gateway.label} webhook endpoint is active`,
+    });
+  } catch {
+    return NextResponse.json({ error: `Unsupported payment provider: ${provider}` }, { status: 404 });
+  }
+}
@@ -33,7 +33,7 @@ function PaymentSuccessContent() {
         let attempts = 0;
 
         const checkStatus = async (): Promise<boolean> => {
-          const response = await fetch(`/api/invoices/${invoiceId}/hitpay/create-payment`);
+          const response = await fetch(`/api/invoices/${invoiceId}/payment-request`);
           if (response.ok) {
             const data = await response.json();
             if (data.status === 'COMPLETED') {
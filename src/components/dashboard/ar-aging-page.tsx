@@ -0,0 +1,382 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Header } from '@/components/dashboard/header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RefreshCw, Loader2, Download, FileText, X, ScrollText } from 'lucide-react';
+import { formatCurrency, formatDateShort } from '@/lib/utils';
+import { StatementModal, StatementCustomer } from './statement-modal';
+
+type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90';
+type AgingGroupBy = 'customer' | 'company' | 'partner' | 'productType';
+type BucketTotals = Record<AgingBucket, number>;
+
+interface AgingGroup {
+  key: string;
+  label: string;
+  invoiceCount: number;
+  buckets: BucketTotals;
+  total: number;
+}
+
+interface AgingInvoice {
+  id: string;
+  billingNo: string | null;
+  customerName: string;
+  billingEntity: string;
+  partner: string | null;
+  productType: string | null;
+  dueDate: Date;
+  status: string;
+  netAmount: number;
+  totalPaid: number;
+  totalCredited: number;
+  balance: number;
+  daysOverdue: number;
+  bucket: AgingBucket;
+  groupKey: string;
+}
+
+interface DrillDown {
+  groupKey: string | null;
+  groupLabel: string;
+  bucket: AgingBucket | null;
+}
+
+const BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1-30' },
+  { key: 'days31to60', label: '31-60' },
+  { key: 'days61to90', label: '61-90' },
+  { key: 'over90', label: '90+' },
+];
+
+const GROUP_BY_OPTIONS: { value: AgingGroupBy; label: string }[] = [
+  { value: 'customer', label: 'Customer' },
+  { value: 'company', label: 'Billing Entity' },
+  { value: 'partner', label: 'Partner' },
+  { value: 'productType', label: 'Product Type' },
+];
+
+const BUCKET_COLORS: Record<AgingBucket, string> = {
+  current: 'text-green-700',
+  days1to30: 'text-yellow-700',
+  days31to60: 'text-orange-600',
+  days61to90: 'text-red-600',
+  over90: 'text-red-800',
+};
+
+export function ArAgingPage() {
+  const [groups, setGroups] = useState<AgingGroup[]>([]);
+  const [invoices, setInvoices] = useState<AgingInvoice[]>([]);
+  const [totals, setTotals] = useState<BucketTotals & { total: number }>({
+    current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0,
+  });
+  const [companies, setCompanies] = useState<{ id: string; code: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+  const [statementCustomer, setStatementCustomer] = useState<StatementCustomer | null>(null);
+
+  // Filters
+  const [groupBy, setGroupBy] = useState<AgingGroupBy>('customer');
+  const [billingEntity, setBillingEntity] = useState('');
+  const [asOf, setAsOf] = useState(new Date().toISOString().split('T')[0]);
+
+  useEffect(() => {
+    fetch('/api/companies')
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setCompanies)
+      .catch((err) => console.error('Error fetching companies:', err));
+  }, []);
+
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams({ groupBy, asOf });
+    if (billingEntity) params.set('billingEntity', billingEntity);
+    return params;
+  }, [groupBy, asOf, billingEntity]);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setDrillDown(null);
+
+      const response = await fetch(`/api/ar-aging?${buildParams().toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch AR aging');
+
+      const data = await response.json();
+      setGroups(data.groups);
+      setTotals(data.totals);
+      setInvoices(
+        data.invoices.map((inv: AgingInvoice) => ({
+          ...inv,
+          dueDate: new Date(inv.dueDate),
+        }))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch AR aging');
+    } finally {
+      setLoading(false);
+    }
+  }, [buildParams]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const handleExport = (exportFormat: 'csv' | 'pdf') => {
+    const params = buildParams();
+    params.set('format', exportFormat);
+    window.open(`/api/ar-aging/export?${params.toString()}`, '_blank');
+  };
+
+  const drillDownInvoices = drillDown
+    ? invoices.filter(
+        (inv) =>
+          (drillDown.groupKey === null || inv.groupKey === drillDown.groupKey) &&
+          (drillDown.bucket === null || inv.bucket === drillDown.bucket)
+      )
+    : [];
+
+  const selectClassName = "h-10 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500";
+  const groupByLabel = GROUP_BY_OPTIONS.find((o) => o.value === groupBy)?.label || 'Group';
+
+  const renderAmountCell = (key: string, amount: number, onClick: () => void, className = '') => (
+    <TableCell key={key} className={`text-right ${className}`}>
+      {amount > 0 ? (
+        <button onClick={onClick} className="hover:underline">
+          {formatCurrency(amount)}
+        </button>
+      ) : (
+        <span className="text-gray-300">-</span>
+      )}
+    </TableCell>
+  );
+
+  return (
+    <div className="flex flex-col">
+      <Header title="AR Aging" subtitle="Open receivables by days past due, net of withholding, payments and credit notes" />
+
+      <div className="flex-1 space-y-6 p-6">
+        {/* Actions bar */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Group By</label>
+              <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as AgingGroupBy)} className={selectClassName}>
+                {GROUP_BY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Billing Entity</label>
+              <select value={billingEntity} onChange={(e) => setBillingEntity(e.target.value)} className={selectClassName}>
+                <option value="">All</option>
+                {companies.map((company) => (
+                  <option key={company.id} value={company.code}>{company.code}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">As Of</label>
+              <input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className={selectClassName} />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => handleExport('csv')} disabled={loading || groups.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              CSV
+            </Button>
+            <Button variant="outline" onClick={() => handleExport('pdf')} disabled={loading || groups.length === 0}>
+              <FileText className="mr-2 h-4 w-4" />
+              PDF
+            </Button>
+            <Button variant="outline" onClick={fetchReport} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-6">
+          {BUCKETS.map((bucket) => (
+            <button
+              key={bucket.key}
+              onClick={() => setDrillDown({ groupKey: null, groupLabel: 'All', bucket: bucket.key })}
+              className="rounded-lg border bg-white p-4 text-left hover:bg-gray-50"
+            >
+              <div className={`text-xl font-bold ${BUCKET_COLORS[bucket.key]}`}>{formatCurrency(totals[bucket.key])}</div>
+              <p className="text-sm text-gray-500">{bucket.key === 'current' ? 'Current' : `${bucket.label} days`}</p>
+            </button>
+          ))}
+          <div className="rounded-lg border bg-white p-4">
+            <div className="text-xl font-bold text-gray-900">{formatCurrency(totals.total)}</div>
+            <p className="text-sm text-gray-500">Total Receivable</p>
+          </div>
+        </div>
+
+        {/* Error message */}
+        {error && (
+          <div className="rounded-md bg-red-50 p-4 text-red-700">
+            Error: {error}
+          </div>
+        )}
+
+        {/* Aging Table */}
+        <div className="rounded-lg border bg-white">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{groupByLabel}</TableHead>
+                <TableHead className="text-right">Invoices</TableHead>
+                {BUCKETS.map((bucket) => (
+                  <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={BUCKETS.length + 3} className="h-24 text-center text-gray-500">
+                    {loading ? (
+                      <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                    ) : (
+                      'No open receivables'
+                    )}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                groups.map((group) => (
+                  <TableRow
+                    key={group.key}
+                    className={drillDown?.groupKey === group.key ? 'bg-blue-50' : ''}
+                  >
+                    <TableCell className="font-medium">
+                      <button
+                        onClick={() => setDrillDown({ groupKey: group.key, groupLabel: group.label, bucket: null })}
+                        className="text-left hover:underline"
+                      >
+                        {group.label}
+                      </button>
+                    </TableCell>
+                    <TableCell className="text-right">{group.invoiceCount}</TableCell>
+                    {BUCKETS.map((bucket) =>
+                      renderAmountCell(
+                        bucket.key,
+                        group.buckets[bucket.key],
+                        () => setDrillDown({ groupKey: group.key, groupLabel: group.label, bucket: bucket.key }),
+                        BUCKET_COLORS[bucket.key]
+                      )
+                    )}
+                    {renderAmountCell(
+                      'total',
+                      group.total,
+                      () => setDrillDown({ groupKey: group.key, groupLabel: group.label, bucket: null }),
+                      'font-semibold'
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Drill-down */}
+        {drillDown && (
+          <div className="rounded-lg border bg-white">
+            <div className="flex items-center justify-between border-b px-4 py-3">
+              <h3 className="font-semibold text-gray-900">
+                {drillDown.groupLabel}
+                {drillDown.bucket && ` - ${BUCKETS.find((b) => b.key === drillDown.bucket)?.label}`}
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  {drillDownInvoices.length} invoice{drillDownInvoices.length === 1 ? '' : 's'}
+                </span>
+              </h3>
+              <div className="flex items-center gap-2">
+                {groupBy === 'customer' && drillDown.groupKey && drillDownInvoices.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setStatementCustomer({
+                      customerName: drillDownInvoices[0].customerName,
+                      billingEntity: drillDownInvoices[0].billingEntity,
+                    })}
+                  >
+                    <ScrollText className="mr-1 h-4 w-4" />
+                    Statement
+                  </Button>
+                )}
+                <button onClick={() => setDrillDown(null)} className="text-gray-500 hover:text-gray-700">
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Due Date</TableHead>
+                  <TableHead className="text-right">Days Past Due</TableHead>
+                  <TableHead className="text-right">Net Amount</TableHead>
+                  <TableHead className="text-right">Paid / Credited</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drillDownInvoices.map((inv) => (
+                  <TableRow key={inv.id}>
+                    <TableCell className="font-medium">
+                      <a
+                        href={`/api/invoices/${inv.id}/pdf`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:underline"
+                      >
+                        {inv.billingNo || inv.id.slice(0, 8)}
+                      </a>
+                      {inv.status === 'PARTIALLY_PAID' && (
+                        <Badge variant="warning" className="ml-2">Partial</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{inv.customerName}</TableCell>
+                    <TableCell>{inv.billingEntity}</TableCell>
+                    <TableCell>{formatDateShort(inv.dueDate)}</TableCell>
+                    <TableCell className={`text-right ${BUCKET_COLORS[inv.bucket]}`}>{inv.daysOverdue}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(inv.netAmount)}</TableCell>
+                    <TableCell className="text-right text-gray-500">
+                      {formatCurrency(inv.totalPaid + inv.totalCredited)}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(inv.balance)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <StatementModal
+        isOpen={statementCustomer !== null}
+        onClose={() => setStatementCustomer(null)}
+        customer={statementCustomer}
+        billingEntities={companies.map((c) => c.code)}
+      />
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ import {
   Trash2,
   UserPlus,
   FilePlus,
+  FileMinus,
+  FileCheck,
 } from 'lucide-react';
 import { formatDateTime } from '@/lib/utils';
 
@@ -49,6 +51,14 @@ const actionConfig: Record<string, { icon: any; color: string; bgColor: string;
   INVOICE_REJECTED: { icon: XCircle, color: 'text-red-700', bgColor: 'bg-red-100', label: 'Invoice Rejected' },
   INVOICE_SENT: { icon: Mail, color: 'text-blue-700', bgColor: 'bg-blue-100', label: 'Invoice Sent' },
   INVOICE_PAID: { icon: DollarSign, color: 'text-green-700', bgColor: 'bg-green-100', label: 'Invoice Paid' },
+  PAYMENT_RECORDED: { icon: DollarSign, color: 'text-yellow-700', bgColor: 'bg-yellow-100', label: 'Payment Recorded' },
+  PAYMENT_REVERSED: { icon: Ban, color: 'text-red-700', bgColor: 'bg-red-100', label: 'Payment Reversed' },
+  PAYMENT_REFUNDED: { icon: Ban, color: 'text-red-700', bgColor: 'bg-red-100', label: 'Payment Refunded' },
+  CREDIT_NOTE_ISSUED: { icon: FileMinus, color: 'text-orange-700', bgColor: 'bg-orange-100', label: 'Credit Note Issued' },
+  CREDIT_NOTE_VOIDED: { icon: Ban, color: 'text-gray-700', bgColor: 'bg-gray-100', label: 'Credit Note Voided' },
+  BIR_2307_RECEIVED: { icon: FileCheck, color: 'text-green-700', bgColor: 'bg-green-100', label: '2307 Received' },
+  BIR_2307_REMINDER_SENT: { icon: Mail, color: 'text-orange-700', bgColor: 'bg-orange-100', label: '2307 Reminder Sent' },
+  STATEMENT_SENT: { icon: Mail, color: 'text-blue-700', bgColor: 'bg-blue-100', label: 'Statement Sent' },
   INVOICE_VOIDED: { icon: Ban, color: 'text-gray-700', bgColor: 'bg-gray-100', label: 'Invoice Voided' },
   INVOICE_UPDATED: { icon: Edit, color: 'text-yellow-700', bgColor: 'bg-yellow-100', label: 'Invoice Updated' },
   INVOICE_AUTO_SENT: { icon: Send, color: 'text-purple-700', bgColor: 'bg-purple-100', label: 'Invoice Auto-sent' },
@@ -58,9 +68,11 @@ const actionConfig: Record<string, { icon: any; color: string; bgColor: string;
   INVOICE_REMINDER_SENT: { icon: RefreshCw, color: 'text-orange-700', bgColor: 'bg-orange-100', label: 'Reminder Sent' },
   INVOICE_GENERATED_ADHOC: { icon: FilePlus, color: 'text-blue-700', bgColor: 'bg-blue-100', label: 'Invoice Generated (Ad-hoc)' },
   CONTRACT_SETTINGS_UPDATED: { icon: Settings, color: 'text-gray-700', bgColor: 'bg-gray-100', label: 'Contract Settings Updated' },
+  FOLLOW_UP_LADDER_UPDATED: { icon: Settings, color: 'text-orange-700', bgColor: 'bg-orange-100', label: 'Follow-up Ladder Updated' },
   CONTRACT_UPDATED: { icon: Edit, color: 'text-yellow-700', bgColor: 'bg-yellow-100', label: 'Contract Updated' },
   CONTRACT_DELETED: { icon: Trash2, color: 'text-red-700', bgColor: 'bg-red-100', label: 'Contract Deleted' },
   USER_CREATED: { icon: UserPlus, color: 'text-blue-700', bgColor: 'bg-blue-100', label: 'User Created' },
+  COMPANY_CREATED: { icon: FilePlus, color: 'text-blue-700', bgColor: 'bg-blue-100', label: 'Billing Entity Created' },
 };
 
 const defaultActionConfig = { icon: Clock, color: 'text-gray-700', bgColor: 'bg-gray-100', label: 'Activity' };
@@ -54,6 +54,14 @@ const actionBadgeConfig: Record<string, { variant: 'default' | 'success' | 'dest
   INVOICE_REJECTED: { variant: 'destructive', label: 'Rejected' },
   INVOICE_SENT: { variant: 'default', label: 'Sent' },
   INVOICE_PAID: { variant: 'success', label: 'Paid' },
+  PAYMENT_RECORDED: { variant: 'warning', label: 'Payment Recorded' },
+  PAYMENT_REVERSED: { variant: 'destructive', label: 'Payment Reversed' },
+  PAYMENT_REFUNDED: { variant: 'destructive', label: 'Payment Refunded' },
+  CREDIT_NOTE_ISSUED: { variant: 'warning', label: 'Credit Note' },
+  CREDIT_NOTE_VOIDED: { variant: 'secondary', label: 'Credit Note Voided' },
+  BIR_2307_RECEIVED: { variant: 'success', label: '2307 Received' },
+  BIR_2307_REMINDER_SENT: { variant: 'warning', label: '2307 Reminder' },
+  STATEMENT_SENT: { variant: 'default', label: 'Statement Sent' },
   INVOICE_VOIDED: { variant: 'secondary', label: 'Voided' },
   INVOICE_UPDATED: { variant: 'warning', label: 'Updated' },
   INVOICE_AUTO_SENT: { variant: 'default', label: 'Auto-sent' },
@@ -63,9 +71,16 @@ const actionBadgeConfig: Record<string, { variant: 'default' | 'success' | 'dest
   INVOICE_REMINDER_SENT: { variant: 'warning', label: 'Reminder Sent' },
   INVOICE_GENERATED_ADHOC: { variant: 'default', label: 'Generated (Ad-hoc)' },
   CONTRACT_SETTINGS_UPDATED: { variant: 'secondary', label: 'Settings Updated' },
+  FOLLOW_UP_LADDER_UPDATED: { variant: 'secondary', label: 'Ladder Updated' },
   CONTRACT_UPDATED: { variant: 'warning', label: 'Updated' },
   CONTRACT_DELETED: { variant: 'destructive', label: 'Deleted' },
   USER_CREATED: { variant: 'default', label: 'Created' },
+  COMPANY_CREATED: { variant: 'default', label: 'Created' },
+  WEBHOOK_EVENT_REPLAYED: { variant: 'warning', label: 'Webhook Replayed' },
+  BANK_STATEMENT_IMPORTED: { variant: 'default', label: 'Statement Imported' },
+  BANK_LINE_CONFIRMED: { variant: 'success', label: 'Bank Line Confirmed' },
+  BANK_LINE_REJECTED: { variant: 'destructive', label: 'Bank Match Rejected' },
+  BANK_LINE_IGNORED: { variant: 'secondary', label: 'Bank Line Ignored' },
 };
 
 const ACTION_OPTIONS = [
@@ -74,6 +89,14 @@ const ACTION_OPTIONS = [
   { value: 'INVOICE_REJECTED', label: 'Invoice Rejected' },
   { value: 'INVOICE_SENT', label: 'Invoice Sent' },
   { value: 'INVOICE_PAID', label: 'Invoice Paid' },
+  { value: 'PAYMENT_RECORDED', label: 'Payment Recorded' },
+  { value: 'PAYMENT_REVERSED', label: 'Payment Reversed' },
+  { value: 'PAYMENT_REFUNDED', label: 'Payment Refunded' },
+  { value: 'CREDIT_NOTE_ISSUED', label: 'Credit Note Issued' },
+  { value: 'CREDIT_NOTE_VOIDED', label: 'Credit Note Voided' },
+  { value: 'BIR_2307_RECEIVED', label: '2307 Received' },
+  { value: 'BIR_2307_REMINDER_SENT', label: '2307 Reminder Sent' },
+  { value: 'STATEMENT_SENT', label: 'Statement Sent' },
   { value: 'INVOICE_VOIDED', label: 'Invoice Voided' },
   { value: 'INVOICE_UPDATED', label: 'Invoice Updated' },
   { value: 'INVOICE_AUTO_SENT', label: 'Invoice Auto-sent' },
@@ -81,15 +104,26 @@ const ACTION_OPTIONS = [
   { value: 'INVOICE_REMINDER_SENT', label: 'Reminder Sent' },
   { value: 'INVOICE_GENERATED_ADHOC', label: 'Invoice Generated (Ad-hoc)' },
   { value: 'CONTRACT_SETTINGS_UPDATED', label: 'Contract Settings Updated' },
+  { value: 'FOLLOW_UP_LADDER_UPDATED', label: 'Follow-up Ladder Updated' },
   { value: 'CONTRACT_UPDATED', label: 'Contract Updated' },
   { value: 'CONTRACT_DELETED', label: 'Contract Deleted' },
   { value: 'USER_CREATED', label: 'User Created' },
+  { value: 'COMPANY_CREATED', label: 'Billing Entity Created' },
+  { value: 'WEBHOOK_EVENT_REPLAYED', label: 'Webhook Replayed' },
+  { value: 'BANK_STATEMENT_IMPORTED', label: 'Bank Statement Imported' },
+  { value: 'BANK_LINE_CONFIRMED', label: 'Bank Line Confirmed' },
+  { value: 'BANK_LINE_REJECTED', label: 'Bank Match Rejected' },
+  { value: 'BANK_LINE_IGNORED', label: 'Bank Line Ignored' },
 ];
 
 const ENTITY_TYPE_OPTIONS = [
   { value: 'Invoice', label: 'Invoice' },
   { value: 'Contract', label: 'Contract' },
   { value: 'User', label: 'User' },
+  { value: 'Company', label: 'Billing Entity' },
+  { value: 'WebhookEvent', label: 'Webhook Event' },
+  { value: 'BankStatement', label: 'Bank Statement' },
+  { value: 'BankStatementLine', label: 'Bank Line' },
 ];
 
 function getActionBadge(action: string) {
@@ -0,0 +1,314 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { X, Search, Loader2, Plus, Trash2 } from 'lucide-react';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+export interface BankLineMatch {
+  id: string;
+  invoiceId: string;
+  amount: string | number;
+  score: number;
+  reasons: string[];
+  status: string;
+  paymentId: string | null;
+  invoice: {
+    id: string;
+    billingNo: string | null;
+    customerName: string;
+    netAmount: string | number;
+    status: string;
+  };
+}
+
+export interface BankLine {
+  id: string;
+  rowNumber: number;
+  transactionDate: string;
+  description: string;
+  reference: string | null;
+  amount: string | number;
+  unappliedAmount: string | number;
+  status: string;
+  resolvedAt: string | null;
+  statement: { id: string; bank: string; fileName: string };
+  matches: BankLineMatch[];
+}
+
+interface MatchableInvoice {
+  id: string;
+  billingNo: string | null;
+  customerName: string;
+  dueDate: string;
+  balance: number;
+  withholdingTax: number;
+}
+
+interface Allocation {
+  invoiceId: string;
+  billingNo: string | null;
+  customerName: string;
+  amount: string;
+}
+
+interface BankLineMatchModalProps {
+  line: BankLine | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirmed: () => void;
+}
+
+export function BankLineMatchModal({ line, isOpen, onClose, onConfirmed }: BankLineMatchModalProps) {
+  const [allocations, setAllocations] = useState<Allocation[]>([]);
+  const [search, setSearch] = useState('');
+  const [invoices, setInvoices] = useState<MatchableInvoice[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the proposed matches
+  useEffect(() => {
+    if (!line) return;
+    setAllocations(
+      line.matches.filter((m) => m.status === 'PROPOSED').map((m) => ({
+        invoiceId: m.invoiceId,
+        billingNo: m.invoice.billingNo,
+        customerName: m.invoice.customerName,
+        amount: Number(m.amount).toFixed(2),
+      }))
+    );
+    setSearch('');
+    setInvoices([]);
+    setError(null);
+  }, [line]);
+
+  useEffect(() => {
+    if (!isOpen || search.trim().length < 2) {
+      setInvoices([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        setSearching(true);
+        const response = await fetch(`/api/bank-statements/invoices?search=${encodeURIComponent(search.trim())}`);
+        if (response.ok) {
+          const results: MatchableInvoice[] = await response.json();
+          setInvoices(results);
+        }
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [search, isOpen]);
+
+  if (!isOpen || !line) return null;
+
+  // Payments still standing on a partly reversed line use up part of it
+  const confirmed = line.matches
+    .filter((m) => m.status === 'CONFIRMED')
+    .reduce((sum, m) => sum + Number(m.amount), 0);
+  const lineAmount = Number(line.amount) - confirmed;
+  const allocated = allocations.reduce((sum, a) => sum + (parseFloat(a.amount) || 0), 0);
+  const unapplied = Math.round((lineAmount - allocated) * 100) / 100;
+
+  const addInvoice = (invoice: MatchableInvoice) => {
+    if (allocations.some((a) => a.invoiceId === invoice.id)) return;
+    const amount = Math.max(0, Math.min(invoice.balance, unapplied));
+    setAllocations([
+      ...allocations,
+      {
+        invoiceId: invoice.id,
+        billingNo: invoice.billingNo,
+        customerName: invoice.customerName,
+        amount: amount.toFixed(2),
+      },
+    ]);
+  };
+
+  const updateAmount = (invoiceId: string, amount: string) => {
+    setAllocations(allocations.map((a) => (a.invoiceId === invoiceId ? { ...a, amount } : a)));
+  };
+
+  const removeAllocation = (invoiceId: string) => {
+    setAllocations(allocations.filter((a) => a.invoiceId !== invoiceId));
+  };
+
+  const handleConfirm = async () => {
+    if (allocations.length === 0) {
+      setError('Add at least one invoice');
+      return;
+    }
+
+    if (unapplied < -0.01) {
+      setError('Matched amounts exceed the bank line amount');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await fetch(`/api/bank-statements/lines/${line.id}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: allocations.map((a) => ({ invoiceId: a.invoiceId, amount: parseFloat(a.amount) })),
+        }),
+      });
+      if (!response.ok) {
+        const data: { error?: string; details?: string } = await response.json();
+        throw new Error(data.details || data.error || 'Failed to confirm bank line');
+      }
+      onConfirmed();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to confirm bank line');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Match Bank Line</h2>
+            <p className="text-sm text-gray-600">
+              {formatDate(line.transactionDate)} &middot; {formatCurrency(lineAmount)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+              Description
+            </label>
+            <p className="text-sm text-gray-900 break-words">{line.description}</p>
+            {line.reference && (
+              <p className="text-xs text-gray-500 font-mono mt-1">Ref: {line.reference}</p>
+            )}
+          </div>
+
+          {/* Allocations */}
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+              Apply To
+            </label>
+            {allocations.length === 0 ? (
+              <p className="text-sm text-gray-500">No invoices selected. Search below to add one or more.</p>
+            ) : (
+              <div className="space-y-2">
+                {allocations.map((a) => (
+                  <div key={a.invoiceId} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{a.billingNo || 'No billing number'}</p>
+                      <p className="text-xs text-gray-500 truncate">{a.customerName}</p>
+                    </div>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={a.amount}
+                      onChange={(e) => updateAmount(a.invoiceId, e.target.value)}
+                      className="w-36 text-right"
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => removeAllocation(a.invoiceId)} title="Remove">
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className={`mt-2 text-sm ${unapplied < -0.01 ? 'text-red-600' : 'text-gray-600'}`}>
+              Unapplied: {formatCurrency(unapplied)}
+            </p>
+          </div>
+
+          {/* Invoice search */}
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+              Find Invoice
+            </label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                type="text"
+                placeholder="Billing number or customer..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+              {searching && (
+                <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-gray-400" />
+              )}
+            </div>
+            {invoices.length > 0 && (
+              <div className="mt-2 border rounded-md divide-y max-h-48 overflow-y-auto">
+                {invoices.map((invoice) => (
+                  <button
+                    key={invoice.id}
+                    type="button"
+                    onClick={() => addInvoice(invoice)}
+                    disabled={allocations.some((a) => a.invoiceId === invoice.id)}
+                    className="w-full flex items-center justify-between px-3 py-2 text-left hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{invoice.billingNo || 'No billing number'}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {invoice.customerName} &middot; due {formatDate(invoice.dueDate)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-gray-700">
+                      {formatCurrency(invoice.balance)}
+                      <Plus className="h-4 w-4 text-gray-400" />
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t p-4 flex items-center justify-between">
+          <p className="text-xs text-gray-500">
+            A payment is recorded on each invoice, dated {formatDate(line.transactionDate)}.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleConfirm} disabled={saving || allocations.length === 0}>
+              {saving && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+              Confirm
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
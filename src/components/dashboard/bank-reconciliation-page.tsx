@@ -0,0 +1,615 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useSession } from 'next-auth/react';
+import { Header } from '@/components/dashboard/header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { BankLine, BankLineMatchModal } from './bank-line-match-modal';
+import {
+  RefreshCw,
+  Upload,
+  Loader2,
+  Search,
+  Check,
+  X,
+  Split,
+  EyeOff,
+  Wand2,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface ColumnMapping {
+  date: string;
+  description: string;
+  credit?: string;
+  debit?: string;
+  amount?: string;
+  reference?: string;
+  dateFormat?: 'MDY' | 'DMY';
+}
+
+interface Company {
+  id: string;
+  code: string;
+  name: string;
+}
+
+interface ApiError {
+  error?: string;
+  details?: string;
+}
+
+interface StatementsResponse {
+  presets: Record<string, { label: string; mapping: ColumnMapping }>;
+}
+
+interface BankLinesResponse {
+  lines: BankLine[];
+  total: number;
+  totalPages: number;
+}
+
+interface ImportResponse {
+  message: string;
+  parseErrors?: { row: number; message: string }[];
+}
+
+interface ImportErrorResponse {
+  error?: string;
+  details?: { row: number; message: string }[];
+}
+
+interface ConfirmResponse {
+  unapplied: number;
+}
+
+const STATUS_OPTIONS = [
+  { value: 'PROPOSED', label: 'Proposed' },
+  { value: 'UNMATCHED', label: 'Unmatched' },
+  { value: 'CONFIRMED', label: 'Confirmed' },
+  { value: 'IGNORED', label: 'Ignored' },
+];
+
+const statusBadgeConfig: Record<string, { variant: 'default' | 'success' | 'destructive' | 'secondary' | 'warning'; label: string }> = {
+  UNMATCHED: { variant: 'warning', label: 'Unmatched' },
+  PROPOSED: { variant: 'default', label: 'Proposed' },
+  CONFIRMED: { variant: 'success', label: 'Confirmed' },
+  IGNORED: { variant: 'secondary', label: 'Ignored' },
+};
+
+function getLineStatusBadge(status: string) {
+  const config = statusBadgeConfig[status] || { variant: 'secondary' as const, label: status };
+  return <Badge variant={config.variant}>{config.label}</Badge>;
+}
+
+const EMPTY_MAPPING: ColumnMapping = { date: '', description: '', credit: '', debit: '', amount: '', reference: '', dateFormat: 'MDY' };
+
+export function BankReconciliationPage() {
+  const { data: session } = useSession();
+  const canReconcile = session?.user?.role === 'ADMIN' || session?.user?.role === 'APPROVER';
+
+  const [lines, setLines] = useState<BankLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyLineId, setBusyLineId] = useState<string | null>(null);
+  const [matching, setMatching] = useState(false);
+
+  // Pagination
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const limit = 50;
+
+  // Filters
+  const [statusFilter, setStatusFilter] = useState('PROPOSED');
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Import
+  const [presets, setPresets] = useState<Record<string, { label: string; mapping: ColumnMapping }>>({});
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [bank, setBank] = useState('BDO');
+  const [companyId, setCompanyId] = useState('');
+  const [customMapping, setCustomMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [parseErrors, setParseErrors] = useState<{ row: number; message: string }[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Match / split modal
+  const [selectedLine, setSelectedLine] = useState<BankLine | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      fetch('/api/bank-statements').then((res) => (res.ok ? res.json() : null)),
+      fetch('/api/companies?minimal=true').then((res) => (res.ok ? res.json() : [])),
+    ]).then(([statements, companyList]: [StatementsResponse | null, Company[]]) => {
+      if (statements) setPresets(statements.presets);
+      setCompanies(companyList);
+    });
+  }, []);
+
+  const fetchLines = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      params.set('page', page.toString());
+      params.set('limit', limit.toString());
+      if (statusFilter) params.set('status', statusFilter);
+      if (searchQuery) params.set('search', searchQuery);
+
+      const response = await fetch(`/api/bank-statements/lines?${params}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch bank lines');
+      }
+
+      const data: BankLinesResponse = await response.json();
+      setLines(data.lines);
+      setTotal(data.total);
+      setTotalPages(data.totalPages);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch bank lines');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, statusFilter, searchQuery]);
+
+  useEffect(() => {
+    fetchLines();
+  }, [fetchLines]);
+
+  const handleImport = async () => {
+    if (!file) {
+      setImportMessage('Please select a CSV file');
+      return;
+    }
+
+    try {
+      setImporting(true);
+      setImportMessage(null);
+      setParseErrors([]);
+
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('bank', bank);
+      if (companyId) formData.append('companyId', companyId);
+      if (bank === 'CUSTOM') formData.append('mapping', JSON.stringify(customMapping));
+
+      const response = await fetch('/api/bank-statements', { method: 'POST', body: formData });
+
+      if (!response.ok) {
+        const failure: ImportErrorResponse = await response.json();
+        setParseErrors(failure.details || []);
+        throw new Error(failure.error || 'Failed to import bank statement');
+      }
+
+      const data: ImportResponse = await response.json();
+      setImportMessage(data.message);
+      setParseErrors(data.parseErrors || []);
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      setPage(1);
+      await fetchLines();
+    } catch (err) {
+      setImportMessage(`Error: ${err instanceof Error ? err.message : 'Failed to import bank statement'}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleAutoMatch = async () => {
+    try {
+      setMatching(true);
+      const response = await fetch('/api/bank-statements/match', { method: 'POST' });
+      const data: { proposed: number } & ApiError = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to match bank lines');
+      }
+      setImportMessage(`Matching completed: ${data.proposed} line${data.proposed !== 1 ? 's' : ''} matched`);
+      await fetchLines();
+    } catch (err) {
+      alert(`Error: ${err instanceof Error ? err.message : 'Failed to match bank lines'}`);
+    } finally {
+      setMatching(false);
+    }
+  };
+
+  const handleConfirm = async (line: BankLine) => {
+    try {
+      setBusyLineId(line.id);
+      const response = await fetch(`/api/bank-statements/lines/${line.id}/confirm`, { method: 'POST' });
+      const data: ConfirmResponse & ApiError = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to confirm bank line');
+      }
+      if (data.unapplied > 0) {
+        alert(`${formatCurrency(data.unapplied)} of this credit was not applied to an invoice (e.g. withholding tax paid on top of the balance). It is kept on the bank line.`);
+      }
+      await fetchLines();
+    } catch (err) {
+      alert(`Error: ${err instanceof Error ? err.message : 'Failed to confirm bank line'}`);
+    } finally {
+      setBusyLineId(null);
+    }
+  };
+
+  const handleReject = async (line: BankLine, ignore: boolean) => {
+    if (ignore && !confirm('Ignore this bank line? It will not be matched to an invoice.')) return;
+
+    try {
+      setBusyLineId(line.id);
+      const response = await fetch(`/api/bank-statements/lines/${line.id}/reject`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ignore }),
+      });
+      const data: ApiError = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to reject bank line');
+      }
+      await fetchLines();
+    } catch (err) {
+      alert(`Error: ${err instanceof Error ? err.message : 'Failed to reject bank line'}`);
+    } finally {
+      setBusyLineId(null);
+    }
+  };
+
+  const mappingField = (key: keyof ColumnMapping, label: string) => (
+    <div>
+      <label className="block text-xs font-medium text-gray-500 mb-1">{label}</label>
+      <Input
+        type="text"
+        value={(customMapping[key] as string) || ''}
+        onChange={(e) => setCustomMapping({ ...customMapping, [key]: e.target.value })}
+        placeholder="Column header"
+      />
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col">
+      <Header title="Reconciliation" subtitle="Match bank statement credits to invoices and record them as payments" />
+
+      <div className="flex-1 space-y-6 p-6">
+        {/* Import */}
+        {canReconcile && (
+          <div className="rounded-lg border bg-white p-4 space-y-4">
+            <h2 className="text-sm font-semibold text-gray-900">Import Bank Statement</h2>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Bank</label>
+                <Select value={bank} onChange={(e) => setBank(e.target.value)}>
+                  {Object.entries(presets).map(([value, preset]) => (
+                    <option key={value} value={value}>
+                      {preset.label}
+                    </option>
+                  ))}
+                  <option value="CUSTOM">Custom columns</option>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Billing Entity</label>
+                <Select value={companyId} onChange={(e) => setCompanyId(e.target.value)}>
+                  <option value="">All entities</option>
+                  {companies.map((company) => (
+                    <option key={company.id} value={company.id}>
+                      {company.code}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">CSV File</label>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="block w-full text-sm text-gray-600 file:mr-3 file:rounded-md file:border-0 file:bg-gray-100 file:px-3 file:py-2 file:text-sm"
+                />
+              </div>
+              <div className="flex items-end">
+                <Button onClick={handleImport} disabled={importing || !file}>
+                  {importing ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Upload className="mr-2 h-4 w-4" />
+                  )}
+                  Import
+                </Button>
+              </div>
+            </div>
+
+            {bank === 'CUSTOM' && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {mappingField('date', 'Date Column')}
+                {mappingField('description', 'Description Column')}
+                {mappingField('reference', 'Reference Column')}
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1">Date Format</label>
+                  <Select
+                    value={customMapping.dateFormat || 'MDY'}
+                    onChange={(e) => setCustomMapping({ ...customMapping, dateFormat: e.target.value as 'MDY' | 'DMY' })}
+                  >
+                    <option value="MDY">MM/DD/YYYY</option>
+                    <option value="DMY">DD/MM/YYYY</option>
+                  </Select>
+                </div>
+                {mappingField('credit', 'Credit Column')}
+                {mappingField('debit', 'Debit Column')}
+                {mappingField('amount', 'Signed Amount Column')}
+                <p className="text-xs text-gray-500 self-end">
+                  Use a credit column, or a single amount column where credits are positive.
+                </p>
+              </div>
+            )}
+
+            {importMessage && (
+              <div className={`rounded-md p-3 text-sm ${importMessage.startsWith('Error') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+                {importMessage}
+                {parseErrors.length > 0 && (
+                  <ul className="mt-2 list-disc pl-5 text-red-700">
+                    {parseErrors.slice(0, 10).map((e) => (
+                      <li key={`${e.row}-${e.message}`}>Row {e.row}: {e.message}</li>
+                    ))}
+                    {parseErrors.length > 10 && <li>...and {parseErrors.length - 10} more</li>}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="rounded-lg border bg-white p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Status</label>
+              <Select
+                value={statusFilter}
+                onChange={(e) => {
+                  setStatusFilter(e.target.value);
+                  setPage(1);
+                }}
+              >
+                <option value="">All Statuses</option>
+                {STATUS_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-xs font-medium text-gray-500 mb-1">Search Description or Reference</label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  type="text"
+                  placeholder="Search..."
+                  value={searchQuery}
+                  onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    setPage(1);
+                  }}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Header row */}
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">
+            Bank Lines
+            {loading && <Loader2 className="ml-2 inline h-4 w-4 animate-spin" />}
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              ({total} line{total !== 1 ? 's' : ''})
+            </span>
+          </h2>
+          <div className="flex gap-2">
+            {canReconcile && (
+              <Button variant="outline" onClick={handleAutoMatch} disabled={matching}>
+                {matching ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Wand2 className="mr-2 h-4 w-4" />
+                )}
+                Match Unmatched
+              </Button>
+            )}
+            <Button variant="outline" onClick={fetchLines} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {/* Error message */}
+        {error && (
+          <div className="rounded-md bg-red-50 p-4 text-red-700">
+            Error: {error}
+          </div>
+        )}
+
+        {/* Table */}
+        <div className="rounded-lg border bg-white">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Match</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.length === 0 && !loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center text-gray-500">
+                    No bank lines found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                lines.map((line) => {
+                  const isOpen = line.status === 'UNMATCHED' || line.status === 'PROPOSED';
+                  const busy = busyLineId === line.id;
+                  return (
+                    <TableRow key={line.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {formatDate(line.transactionDate)}
+                      </TableCell>
+                      <TableCell className="max-w-[280px]">
+                        <p className="truncate" title={line.description}>{line.description}</p>
+                        <p className="text-xs text-gray-400 truncate">
+                          {line.reference ? `Ref: ${line.reference} · ` : ''}{line.statement.bank}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap font-medium">
+                        {formatCurrency(Number(line.amount))}
+                        {Number(line.unappliedAmount) > 0 && (
+                          <p className="text-xs font-normal text-amber-600">
+                            {formatCurrency(Number(line.unappliedAmount))} unapplied
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {line.matches.length === 0 ? (
+                          <span className="text-sm text-gray-400">-</span>
+                        ) : (
+                          <div className="space-y-1">
+                            {line.matches.map((m) => (
+                              <div key={m.id} className="text-sm" title={m.reasons.join('\n')}>
+                                <span className="font-medium">{m.invoice.billingNo || 'No billing number'}</span>
+                                <span className="text-gray-500"> &middot; {m.invoice.customerName}</span>
+                                {line.matches.length > 1 && (
+                                  <span className="text-gray-500"> &middot; {formatCurrency(Number(m.amount))}</span>
+                                )}
+                                {m.status === 'PROPOSED' && (
+                                  <span className="ml-1 text-xs text-gray-400">({m.score}%)</span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{getLineStatusBadge(line.status)}</TableCell>
+                      <TableCell>
+                        {canReconcile && isOpen && (
+                          <div className="flex items-center justify-end gap-1">
+                            {busy && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+                            {line.status === 'PROPOSED' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleConfirm(line)}
+                                disabled={busy}
+                                title="Confirm match"
+                              >
+                                <Check className="h-4 w-4 text-green-600" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setSelectedLine(line)}
+                              disabled={busy}
+                              title="Match or split manually"
+                            >
+                              <Split className="h-4 w-4" />
+                            </Button>
+                            {line.status === 'PROPOSED' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleReject(line, false)}
+                                disabled={busy}
+                                title="Reject match"
+                              >
+                                <X className="h-4 w-4 text-red-500" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleReject(line, true)}
+                              disabled={busy}
+                              title="Ignore (not a customer payment)"
+                            >
+                              <EyeOff className="h-4 w-4 text-gray-500" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              Showing {((page - 1) * limit) + 1} to {Math.min(page * limit, total)} of {total} lines
+            </p>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page === 1 || loading}
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Previous
+              </Button>
+              <span className="text-sm text-gray-600">
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                disabled={page === totalPages || loading}
+              >
+                Next
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Match / Split Modal */}
+      <BankLineMatchModal
+        line={selectedLine}
+        isOpen={!!selectedLine}
+        onClose={() => setSelectedLine(null)}
+        onConfirmed={fetchLines}
+      />
+    </div>
+  );
+}
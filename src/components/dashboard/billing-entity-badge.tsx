@@ -0,0 +1,29 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { useCompanies } from '@/lib/hooks/use-api';
+
+interface CompanyBrand {
+  code: string;
+  template: { primaryColor: string } | null;
+}
+
+interface BillingEntityBadgeProps {
+  code: string;
+}
+
+// Billing entity code tinted with the primary colour of the entity's invoice template
+export function BillingEntityBadge({ code }: BillingEntityBadgeProps) {
+  const { data: companies } = useCompanies();
+  const color = (companies as CompanyBrand[] | undefined)?.find((c) => c.code === code)?.template?.primaryColor;
+
+  if (!color) {
+    return <Badge variant="secondary">{code}</Badge>;
+  }
+
+  return (
+    <Badge style={{ color, backgroundColor: `${color}1a`, borderColor: `${color}40` }}>
+      {code}
+    </Badge>
+  );
+}
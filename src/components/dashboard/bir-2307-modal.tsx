@@ -0,0 +1,217 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { X, Loader2, Upload } from 'lucide-react';
+import { formatCurrency } from '@/lib/utils';
+
+export interface InvoiceFor2307 {
+  id: string;
+  billingNo: string | null;
+  customerName: string;
+  withholdingTax: number;
+  withholdingCode: string | null;
+  taxYear: number;
+  taxQuarter: number;
+}
+
+interface Bir2307ModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  invoice: InvoiceFor2307 | null;
+  onRecorded: () => void;
+}
+
+export function Bir2307Modal({ isOpen, onClose, invoice, onRecorded }: Bir2307ModalProps) {
+  const [atcCode, setAtcCode] = useState('');
+  const [amount, setAmount] = useState('');
+  const [receivedAt, setReceivedAt] = useState(new Date().toISOString().split('T')[0]);
+  const [taxQuarter, setTaxQuarter] = useState('');
+  const [taxYear, setTaxYear] = useState('');
+  const [remarks, setRemarks] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Prefill the form from the invoice's withholding details
+  useEffect(() => {
+    if (!invoice) return;
+
+    setAtcCode(invoice.withholdingCode || 'WC160');
+    setAmount(invoice.withholdingTax.toFixed(2));
+    setReceivedAt(new Date().toISOString().split('T')[0]);
+    setTaxQuarter(String(invoice.taxQuarter));
+    setTaxYear(String(invoice.taxYear));
+    setRemarks('');
+    setFile(null);
+    setError(null);
+  }, [invoice]);
+
+  if (!isOpen || !invoice) return null;
+
+  const amountValue = parseFloat(amount);
+  const hasMismatch = !isNaN(amountValue) && Math.abs(amountValue - invoice.withholdingTax) > 0.01;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (isNaN(amountValue) || amountValue < 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+
+    if (!atcCode) {
+      setError('ATC code is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      // Store the scanned certificate with the invoice's other attachments
+      let attachmentId: string | undefined;
+      if (file) {
+        const formData = new FormData();
+        formData.append('file', file);
+        const uploadResponse = await fetch(`/api/invoices/${invoice.id}/attachments`, {
+          method: 'POST',
+          body: formData,
+        });
+        const uploadData = await uploadResponse.json();
+        if (!uploadResponse.ok) {
+          throw new Error(uploadData.error || 'Failed to upload 2307 scan');
+        }
+        attachmentId = uploadData.id;
+      }
+
+      const response = await fetch(`/api/invoices/${invoice.id}/bir-2307`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          atcCode,
+          amount: amountValue,
+          receivedAt,
+          taxYear: parseInt(taxYear),
+          taxQuarter: parseInt(taxQuarter),
+          attachmentId,
+          remarks: remarks || undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to record 2307');
+      }
+
+      onRecorded();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record 2307');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl">
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Record BIR 2307</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="mb-4 rounded-md bg-gray-50 p-3 text-sm">
+          <div className="font-medium">{invoice.customerName}</div>
+          <div className="text-gray-600">Invoice {invoice.billingNo || invoice.id.slice(0, 8)}</div>
+          <div className="mt-1 text-gray-600">
+            Expected withholding: <span className="font-medium">{formatCurrency(invoice.withholdingTax)}</span>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">ATC Code</label>
+              <Input value={atcCode} onChange={(e) => setAtcCode(e.target.value.toUpperCase())} />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">Amount Withheld</label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          </div>
+          {hasMismatch && (
+            <p className="text-xs text-orange-600">
+              Amount differs from the invoice withholding of {formatCurrency(invoice.withholdingTax)}
+            </p>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">Quarter</label>
+              <select
+                value={taxQuarter}
+                onChange={(e) => setTaxQuarter(e.target.value)}
+                className="h-10 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm"
+              >
+                {[1, 2, 3, 4].map((q) => (
+                  <option key={q} value={q}>Q{q}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">Year</label>
+              <Input type="number" value={taxYear} onChange={(e) => setTaxYear(e.target.value)} />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">Received</label>
+              <Input type="date" value={receivedAt} onChange={(e) => setReceivedAt(e.target.value)} />
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Scanned Copy</label>
+            <label className="flex cursor-pointer items-center gap-2 rounded-md border border-dashed border-gray-300 px-3 py-2 text-sm text-gray-600 hover:bg-gray-50">
+              <Upload className="h-4 w-4" />
+              <span className="truncate">{file ? file.name : 'Upload PDF or image (optional)'}</span>
+              <input
+                type="file"
+                accept=".pdf,.png,.jpg,.jpeg"
+                className="hidden"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </label>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Remarks</label>
+            <Input value={remarks} onChange={(e) => setRemarks(e.target.value)} placeholder="Optional" />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record 2307
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Header } from '@/components/dashboard/header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { BillingEntityBadge } from '@/components/dashboard/billing-entity-badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RefreshCw, Loader2, Mail, FileCheck, Paperclip } from 'lucide-react';
+import { formatCurrency, formatDateShort } from '@/lib/utils';
+import { Bir2307Modal, InvoiceFor2307 } from './bir-2307-modal';
+
+type StatusFilter = 'missing' | 'received' | 'all';
+
+interface Bir2307Row {
+  id: string;
+  billingNo: string | null;
+  customerName: string;
+  hasEmail: boolean;
+  statementDate: Date;
+  paidAt: Date | null;
+  status: string;
+  withholdingTax: number;
+  withholdingCode: string | null;
+  billingEntity: string;
+  certificate: {
+    atcCode: string;
+    amount: number;
+    receivedAt: Date | null;
+    attachmentId: string | null;
+    attachmentName: string | null;
+    reminderCount: number;
+    lastReminderAt: Date | null;
+  } | null;
+}
+
+function getCurrentQuarter() {
+  const now = new Date();
+  return { year: now.getFullYear(), quarter: Math.floor(now.getMonth() / 3) + 1 };
+}
+
+export function Bir2307Page() {
+  const current = getCurrentQuarter();
+  const [rows, setRows] = useState<Bir2307Row[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [remindingId, setRemindingId] = useState<string | null>(null);
+  const [selectedInvoice, setSelectedInvoice] = useState<InvoiceFor2307 | null>(null);
+
+  // Filters
+  const [year, setYear] = useState(current.year);
+  const [quarter, setQuarter] = useState(current.quarter);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('missing');
+
+  const fetchRows = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({
+        year: String(year),
+        quarter: String(quarter),
+        status: statusFilter,
+      });
+
+      const response = await fetch(`/api/bir-2307?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch 2307 list');
+
+      const data = await response.json();
+      setRows(
+        data.invoices.map((inv: any) => ({
+          id: inv.id,
+          billingNo: inv.billingNo,
+          customerName: inv.customerName,
+          hasEmail: Boolean(inv.customerEmails || inv.customerEmail),
+          statementDate: new Date(inv.statementDate),
+          paidAt: inv.paidAt ? new Date(inv.paidAt) : null,
+          status: inv.status,
+          withholdingTax: Number(inv.withholdingTax),
+          withholdingCode: inv.withholdingCode,
+          billingEntity: inv.company?.code || '',
+          certificate: inv.withholdingCertificate
+            ? {
+                atcCode: inv.withholdingCertificate.atcCode,
+                amount: Number(inv.withholdingCertificate.amount),
+                receivedAt: inv.withholdingCertificate.receivedAt
+                  ? new Date(inv.withholdingCertificate.receivedAt)
+                  : null,
+                attachmentId: inv.withholdingCertificate.attachment?.id || null,
+                attachmentName: inv.withholdingCertificate.attachment?.filename || null,
+                reminderCount: inv.withholdingCertificate.reminderCount,
+                lastReminderAt: inv.withholdingCertificate.lastReminderAt
+                  ? new Date(inv.withholdingCertificate.lastReminderAt)
+                  : null,
+              }
+            : null,
+        }))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch 2307 list');
+    } finally {
+      setLoading(false);
+    }
+  }, [year, quarter, statusFilter]);
+
+  useEffect(() => {
+    fetchRows();
+  }, [fetchRows]);
+
+  const handleRemind = async (row: Bir2307Row) => {
+    if (!confirm(`Send a 2307 reminder to ${row.customerName}?`)) return;
+
+    try {
+      setRemindingId(row.id);
+      const response = await fetch(`/api/invoices/${row.id}/bir-2307/remind`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send 2307 reminder');
+      }
+      fetchRows();
+    } catch (err) {
+      alert(`Error: ${err instanceof Error ? err.message : 'Failed to send 2307 reminder'}`);
+    } finally {
+      setRemindingId(null);
+    }
+  };
+
+  const openRecordModal = (row: Bir2307Row) => {
+    setSelectedInvoice({
+      id: row.id,
+      billingNo: row.billingNo,
+      customerName: row.customerName,
+      withholdingTax: row.withholdingTax,
+      withholdingCode: row.withholdingCode,
+      taxYear: year,
+      taxQuarter: quarter,
+    });
+  };
+
+  const missingCount = rows.filter((r) => !r.certificate?.receivedAt).length;
+  const missingAmount = rows
+    .filter((r) => !r.certificate?.receivedAt)
+    .reduce((sum, r) => sum + r.withholdingTax, 0);
+
+  const yearOptions = Array.from({ length: 5 }, (_, i) => current.year - i);
+  const selectClassName = "h-10 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+  return (
+    <div className="flex flex-col">
+      <Header title="BIR 2307" subtitle="Creditable withholding tax certificates received from customers" />
+
+      <div className="flex-1 space-y-6 p-6">
+        {/* Actions bar */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Year</label>
+              <select value={year} onChange={(e) => setYear(parseInt(e.target.value))} className={selectClassName}>
+                {yearOptions.map((y) => (
+                  <option key={y} value={y}>{y}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Quarter</label>
+              <select value={quarter} onChange={(e) => setQuarter(parseInt(e.target.value))} className={selectClassName}>
+                {[1, 2, 3, 4].map((q) => (
+                  <option key={q} value={q}>Q{q}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                className={selectClassName}
+              >
+                <option value="missing">Missing</option>
+                <option value="received">Received</option>
+                <option value="all">All</option>
+              </select>
+            </div>
+          </div>
+
+          <Button variant="outline" onClick={fetchRows} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="rounded-lg border bg-white p-4">
+            <div className="text-2xl font-bold text-gray-900">{missingCount}</div>
+            <p className="text-sm text-gray-500">Missing 2307s in Q{quarter} {year}</p>
+          </div>
+          <div className="rounded-lg border bg-white p-4">
+            <div className="text-2xl font-bold text-orange-600">{formatCurrency(missingAmount)}</div>
+            <p className="text-sm text-gray-500">Withholding Without Certificate</p>
+          </div>
+        </div>
+
+        {/* Error message */}
+        {error && (
+          <div className="rounded-md bg-red-50 p-4 text-red-700">
+            Error: {error}
+          </div>
+        )}
+
+        {/* 2307 Table */}
+        <div className="rounded-lg border bg-white">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Client</TableHead>
+                <TableHead>Statement Date</TableHead>
+                <TableHead>ATC</TableHead>
+                <TableHead className="text-right">Withheld</TableHead>
+                <TableHead>2307</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center text-gray-500">
+                    {loading ? (
+                      <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                    ) : (
+                      'No invoices found for this quarter'
+                    )}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell className="font-medium">{row.billingNo || row.id.slice(0, 8)}</TableCell>
+                    <TableCell>{row.customerName}</TableCell>
+                    <TableCell>
+                      <div>{formatDateShort(row.statementDate)}</div>
+                      {row.paidAt && (
+                        <div className="text-xs text-gray-500">Paid {formatDateShort(row.paidAt)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{row.certificate?.atcCode || row.withholdingCode || '-'}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(row.withholdingTax)}</TableCell>
+                    <TableCell>
+                      {row.certificate?.receivedAt ? (
+                        <div>
+                          <Badge variant="success">Received {formatDateShort(row.certificate.receivedAt)}</Badge>
+                          {row.certificate.attachmentId && (
+                            <a
+                              href={`/api/invoices/${row.id}/attachments/${row.certificate.attachmentId}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="mt-1 flex items-center text-xs text-blue-600 hover:underline"
+                            >
+                              <Paperclip className="mr-1 h-3 w-3" />
+                              {row.certificate.attachmentName}
+                            </a>
+                          )}
+                        </div>
+                      ) : (
+                        <div>
+                          <Badge variant="warning">Missing</Badge>
+                          {row.certificate && row.certificate.reminderCount > 0 && (
+                            <div className="mt-1 text-xs text-gray-500">
+                              {row.certificate.reminderCount} reminder{row.certificate.reminderCount > 1 ? 's' : ''}
+                              {row.certificate.lastReminderAt && `, last ${formatDateShort(row.certificate.lastReminderAt)}`}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <BillingEntityBadge code={row.billingEntity} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        {!row.certificate?.receivedAt && row.hasEmail && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRemind(row)}
+                            disabled={remindingId === row.id}
+                            title="Email the customer for their 2307"
+                          >
+                            {remindingId === row.id ? (
+                              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Mail className="mr-1 h-4 w-4" />
+                            )}
+                            Remind
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => openRecordModal(row)}>
+                          <FileCheck className="mr-1 h-4 w-4" />
+                          {row.certificate?.receivedAt ? 'Update' : 'Record'}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <Bir2307Modal
+        isOpen={selectedInvoice !== null}
+        onClose={() => setSelectedInvoice(null)}
+        invoice={selectedInvoice}
+        onRecorded={fetchRows}
+      />
+    </div>
+  );
+}
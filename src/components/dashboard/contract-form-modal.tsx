@@ -11,6 +11,7 @@ interface Partner {
   code: string;
   name: string;
   billingModel: string;
+  companyId: string;
 }
 
 interface Company {
@@ -36,6 +37,7 @@ interface Contract {
   contactPerson: string | null;
   email: string | null;
   emails: string | null;  // Comma-separated list of emails
+  accountManagerEmail: string | null;
   address: string | null;
   tin: string | null;
   mobile: string | null;
@@ -56,6 +58,13 @@ interface ContractFormModalProps {
 const statusOptions = ['ACTIVE', 'INACTIVE', 'STOPPED', 'NOT_STARTED'];
 const vatTypes = ['VAT', 'NON_VAT'];
 const billingTypes = ['RECURRING', 'ONE_TIME'];
+
+// Contracts billed directly use the entity's "Direct-<code>" partner
+function getDefaultPartnerCode(partners: Partner[], company: Company | undefined): string {
+  if (!company) return '';
+  const entityPartners = partners.filter(p => p.companyId === company.id);
+  return (entityPartners.find(p => p.code === `Direct-${company.code}`) || entityPartners[0])?.code || '';
+}
 const paymentPlanOptions = ['Monthly', 'Quarterly', 'Annual', 'Custom'];
 
 export function ContractFormModal({
@@ -78,7 +87,7 @@ export function ContractFormModal({
     companyName: '',
     productType: defaultProductType,
     partner: '',
-    billingEntity: 'YOWI',
+    billingEntity: '',
     monthlyFee: '',
     paymentPlan: 'Monthly',
     contractStart: '',
@@ -88,6 +97,7 @@ export function ContractFormModal({
     billingType: 'RECURRING',
     contactPerson: '',
     emails: '',  // Comma-separated list of emails
+    accountManagerEmail: '',
     address: '',
     tin: '',
     mobile: '',
@@ -102,7 +112,7 @@ export function ContractFormModal({
         companyName: contract.companyName || '',
         productType: contract.productType || 'ACCOUNTING',
         partner: contract.partner?.code || '',
-        billingEntity: contract.billingEntity?.code || 'YOWI',
+        billingEntity: contract.billingEntity?.code || '',
         monthlyFee: contract.monthlyFee?.toString() || '',
         paymentPlan: contract.paymentPlan || 'Monthly',
         contractStart: contract.contractStart ? contract.contractStart.split('T')[0] : '',
@@ -112,6 +122,7 @@ export function ContractFormModal({
         billingType: contract.billingType || 'RECURRING',
         contactPerson: contract.contactPerson || '',
         emails: contract.emails || contract.email || '',  // Prefer emails, fallback to email
+        accountManagerEmail: contract.accountManagerEmail || '',
         address: contract.address || '',
         tin: contract.tin || '',
         mobile: contract.mobile || '',
@@ -123,8 +134,8 @@ export function ContractFormModal({
         customerId: '',
         companyName: '',
         productType: 'ACCOUNTING',
-        partner: partners.find(p => p.code === 'Direct-YOWI')?.code || '',
-        billingEntity: 'YOWI',
+        partner: getDefaultPartnerCode(partners, companies[0]),
+        billingEntity: companies[0]?.code || '',
         monthlyFee: '',
         paymentPlan: 'Monthly',
         contractStart: '',
@@ -134,6 +145,7 @@ export function ContractFormModal({
         billingType: 'RECURRING',
         contactPerson: '',
         emails: '',
+        accountManagerEmail: '',
         address: '',
         tin: '',
         mobile: '',
@@ -141,7 +153,7 @@ export function ContractFormModal({
       });
     }
     setError(null);
-  }, [contract, partners, isOpen]);
+  }, [contract, partners, companies, isOpen]);
 
   if (!isOpen) return null;
 
@@ -189,13 +201,8 @@ export function ContractFormModal({
   };
 
   // Filter partners based on selected billing entity
-  const filteredPartners = partners.filter(p => {
-    if (formData.billingEntity === 'YOWI') {
-      return ['Direct-YOWI', 'Globe', 'RCBC'].includes(p.code);
-    } else {
-      return p.code === 'Direct-ABBA';
-    }
-  });
+  const selectedCompany = companies.find(c => c.code === formData.billingEntity);
+  const filteredPartners = partners.filter(p => p.companyId === selectedCompany?.id);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center overflow-y-auto">
@@ -281,7 +288,7 @@ export function ContractFormModal({
                 onChange={(e) => {
                   handleChange(e);
                   // Reset partner when billing entity changes
-                  const defaultPartner = e.target.value === 'YOWI' ? 'Direct-YOWI' : 'Direct-ABBA';
+                  const defaultPartner = getDefaultPartnerCode(partners, companies.find(c => c.code === e.target.value));
                   setFormData(prev => ({ ...prev, partner: defaultPartner }));
                 }}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
@@ -451,6 +458,21 @@ export function ContractFormModal({
             </div>
           </div>
 
+          {/* Account Manager */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Account Manager Email
+            </label>
+            <input
+              type="email"
+              name="accountManagerEmail"
+              value={formData.accountManagerEmail}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              placeholder="CC'd on escalated follow-ups"
+            />
+          </div>
+
           {/* Address */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -15,6 +15,7 @@ interface Partner {
   code: string;
   name: string;
   billingModel: string;
+  companyId: string;
 }
 
 interface Company {
@@ -83,7 +84,7 @@ export function ContractListPage() {
         monthlyFee: Number(contract.monthlyFee),
         status: contract.status,
         nextDueDate: contract.nextDueDate ? new Date(contract.nextDueDate) : null,
-        billingEntity: contract.billingEntity?.code || 'YOWI',
+        billingEntity: contract.billingEntity?.code || '',
         contactPerson: contract.contactPerson,
         email: contract.email,
         paymentPlan: contract.paymentPlan,
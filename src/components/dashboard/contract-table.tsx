@@ -9,6 +9,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { BillingEntityBadge } from '@/components/dashboard/billing-entity-badge';
 import { formatCurrency, formatDateShort } from '@/lib/utils';
 import { Pencil, Trash2 } from 'lucide-react';
 
@@ -21,7 +22,7 @@ export interface ContractRow {
   monthlyFee: number;
   status: 'ACTIVE' | 'INACTIVE' | 'STOPPED' | 'NOT_STARTED';
   nextDueDate: Date | null;
-  billingEntity: 'YOWI' | 'ABBA';
+  billingEntity: string;
   contactPerson: string | null;
   email: string | null;
   paymentPlan: string | null;
@@ -103,9 +104,7 @@ export function ContractTable({ contracts, onContractClick, onEdit, onDelete }:
                   {contract.nextDueDate ? formatDateShort(contract.nextDueDate) : '-'}
                 </TableCell>
                 <TableCell>
-                  <Badge variant={contract.billingEntity === 'YOWI' ? 'default' : 'secondary'}>
-                    {contract.billingEntity}
-                  </Badge>
+                  <BillingEntityBadge code={contract.billingEntity} />
                 </TableCell>
                 <TableCell>
                   <div className="flex items-center justify-center gap-1">
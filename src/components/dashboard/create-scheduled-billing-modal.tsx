@@ -74,7 +74,7 @@ export function CreateScheduledBillingModal({ onClose, onSuccess }: CreateSchedu
         // Handle both array response and { contracts: [] } response
         const contractsList = Array.isArray(contractsData) ? contractsData : (contractsData.contracts || []);
         setContracts(contractsList);
-        setBillingEntities(companiesData.filter((c: BillingEntity) => ['YOWI', 'ABBA'].includes(c.code)));
+        setBillingEntities(companiesData);
 
         // Fetch withholding presets
         if (settingsRes.ok) {
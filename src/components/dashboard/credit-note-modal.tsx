@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { X } from 'lucide-react';
+import { formatCurrency } from '@/lib/utils';
+
+export interface InvoiceForCredit {
+  id: string;
+  billingNo: string | null;
+  customerName: string;
+  netAmount: number;
+}
+
+interface CreditNoteModalProps {
+  invoice: InvoiceForCredit | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onIssued: () => void;
+}
+
+export function CreditNoteModal({ invoice, isOpen, onClose, onIssued }: CreditNoteModalProps) {
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [creditableAmount, setCreditableAmount] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset form and load existing credits when invoice changes
+  useEffect(() => {
+    if (!invoice) return;
+
+    setAmount('');
+    setReason('');
+    setError(null);
+    setCreditableAmount(null);
+
+    fetch(`/api/invoices/${invoice.id}/credit-notes`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.balance) {
+          setCreditableAmount(Math.max(0, data.balance.balance));
+        }
+      })
+      .catch(() => setCreditableAmount(null));
+  }, [invoice]);
+
+  const handleSave = async () => {
+    if (!invoice) return;
+
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+
+    if (!reason.trim()) {
+      setError('Please enter a reason for the credit note');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/invoices/${invoice.id}/credit-notes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount: value, reason: reason.trim() }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to issue credit note');
+      }
+
+      onIssued();
+      onClose();
+
+      // Open the credit note PDF
+      if (data.creditNote?.id) {
+        window.open(`/api/credit-notes/${data.creditNote.id}/pdf`, '_blank');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue credit note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen || !invoice) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-md mx-4 p-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Issue Credit Note</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Invoice Info */}
+        <div className="mb-6 pb-4 border-b">
+          <p className="text-sm font-medium text-gray-900">
+            {invoice.billingNo || invoice.id.slice(0, 8)}
+          </p>
+          <p className="text-sm text-gray-600">{invoice.customerName}</p>
+          <p className="text-sm text-gray-600">
+            Invoice amount: {formatCurrency(invoice.netAmount)}
+          </p>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {/* Form Fields */}
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-1">
+              Credit Amount
+            </label>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full"
+              placeholder="0.00"
+            />
+            {creditableAmount !== null && (
+              <p className="text-xs text-gray-500 mt-1">
+                Maximum creditable (unpaid balance): {formatCurrency(creditableAmount)}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-1">
+              Reason
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              placeholder="e.g. Overbilled employee count for January"
+            />
+          </div>
+        </div>
+
+        {/* Footer Actions */}
+        <div className="mt-8 flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Issuing...' : 'Issue Credit Note'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
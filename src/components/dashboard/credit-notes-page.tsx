@@ -0,0 +1,271 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Header } from '@/components/dashboard/header';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { BillingEntityBadge } from '@/components/dashboard/billing-entity-badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RefreshCw, Loader2, X, FileText, Ban } from 'lucide-react';
+import { formatCurrency, formatDateShort } from '@/lib/utils';
+
+interface CreditNoteRow {
+  id: string;
+  creditNoteNo: string;
+  customerName: string;
+  reason: string;
+  amount: number;
+  vatAmount: number;
+  status: 'ISSUED' | 'VOID';
+  issuedAt: Date;
+  voidReason: string | null;
+  billingEntity: string;
+  invoiceBillingNo: string | null;
+  issuedBy: string | null;
+}
+
+export function CreditNotesPage() {
+  const [creditNotes, setCreditNotes] = useState<CreditNoteRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [voidingId, setVoidingId] = useState<string | null>(null);
+
+  // Filters
+  const [statusFilter, setStatusFilter] = useState<'ALL' | 'ISSUED' | 'VOID'>('ALL');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+
+  const fetchCreditNotes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (statusFilter !== 'ALL') params.set('status', statusFilter);
+      if (dateFrom) params.set('issuedFrom', dateFrom);
+      if (dateTo) params.set('issuedTo', dateTo);
+
+      const response = await fetch(`/api/credit-notes?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch credit notes');
+
+      const data = await response.json();
+      setCreditNotes(
+        data.map((cn: any) => ({
+          id: cn.id,
+          creditNoteNo: cn.creditNoteNo,
+          customerName: cn.customerName,
+          reason: cn.reason,
+          amount: Number(cn.amount),
+          vatAmount: Number(cn.vatAmount),
+          status: cn.status,
+          issuedAt: new Date(cn.issuedAt),
+          voidReason: cn.voidReason,
+          billingEntity: cn.company?.code || '',
+          invoiceBillingNo: cn.invoice?.billingNo || null,
+          issuedBy: cn.issuedBy?.name || cn.issuedBy?.email || null,
+        }))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch credit notes');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, dateFrom, dateTo]);
+
+  useEffect(() => {
+    fetchCreditNotes();
+  }, [fetchCreditNotes]);
+
+  const handleVoid = async (id: string) => {
+    const reason = prompt('Enter reason for voiding this credit note:');
+    if (!reason) return;
+
+    try {
+      setVoidingId(id);
+      const response = await fetch(`/api/credit-notes/${id}/void`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.details || data.error || 'Failed to void credit note');
+      }
+      fetchCreditNotes();
+    } catch (err) {
+      alert(`Error: ${err instanceof Error ? err.message : 'Failed to void credit note'}`);
+    } finally {
+      setVoidingId(null);
+    }
+  };
+
+  const clearFilters = () => {
+    setStatusFilter('ALL');
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  const totalCredited = creditNotes
+    .filter((cn) => cn.status === 'ISSUED')
+    .reduce((sum, cn) => sum + cn.amount, 0);
+
+  const selectClassName = "h-10 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+  return (
+    <div className="flex flex-col">
+      <Header title="Credit Notes" subtitle="Credit memos issued against sent and paid invoices" />
+
+      <div className="flex-1 space-y-6 p-6">
+        {/* Actions bar */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as 'ALL' | 'ISSUED' | 'VOID')}
+                className={selectClassName}
+              >
+                <option value="ALL">All Statuses</option>
+                <option value="ISSUED">Issued</option>
+                <option value="VOID">Void</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Issued From</label>
+              <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="w-44" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Issued To</label>
+              <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="w-44" />
+            </div>
+            {(statusFilter !== 'ALL' || dateFrom || dateTo) && (
+              <Button variant="ghost" size="sm" onClick={clearFilters}>
+                <X className="mr-1 h-4 w-4" />
+                Clear
+              </Button>
+            )}
+          </div>
+
+          <Button variant="outline" onClick={fetchCreditNotes} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="rounded-lg border bg-white p-4">
+            <div className="text-2xl font-bold text-gray-900">{creditNotes.length}</div>
+            <p className="text-sm text-gray-500">Credit Notes</p>
+          </div>
+          <div className="rounded-lg border bg-white p-4">
+            <div className="text-2xl font-bold text-orange-600">{formatCurrency(totalCredited)}</div>
+            <p className="text-sm text-gray-500">Total Credited</p>
+          </div>
+        </div>
+
+        {/* Error message */}
+        {error && (
+          <div className="rounded-md bg-red-50 p-4 text-red-700">
+            Error: {error}
+          </div>
+        )}
+
+        {/* Credit Notes Table */}
+        <div className="rounded-lg border bg-white">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Credit Note No</TableHead>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Client</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Issued</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {creditNotes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="h-24 text-center text-gray-500">
+                    {loading ? (
+                      <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                    ) : (
+                      'No credit notes found'
+                    )}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                creditNotes.map((cn) => (
+                  <TableRow key={cn.id}>
+                    <TableCell className="font-medium">{cn.creditNoteNo}</TableCell>
+                    <TableCell>{cn.invoiceBillingNo || '-'}</TableCell>
+                    <TableCell>{cn.customerName}</TableCell>
+                    <TableCell className="max-w-xs truncate text-sm text-gray-600" title={cn.reason}>
+                      {cn.reason}
+                    </TableCell>
+                    <TableCell className="text-right font-medium text-orange-600">
+                      {formatCurrency(-cn.amount)}
+                    </TableCell>
+                    <TableCell>
+                      <div>{formatDateShort(cn.issuedAt)}</div>
+                      {cn.issuedBy && <div className="text-xs text-gray-500">{cn.issuedBy}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={cn.status === 'ISSUED' ? 'warning' : 'secondary'}
+                        title={cn.voidReason || undefined}
+                      >
+                        {cn.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <BillingEntityBadge code={cn.billingEntity} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => window.open(`/api/credit-notes/${cn.id}/pdf`, '_blank')}
+                          title="View PDF"
+                        >
+                          <FileText className="mr-1 h-4 w-4" />
+                          PDF
+                        </Button>
+                        {cn.status === 'ISSUED' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleVoid(cn.id)}
+                            disabled={voidingId === cn.id}
+                            className="text-gray-600 hover:text-gray-800 hover:bg-gray-100"
+                          >
+                            <Ban className="mr-1 h-4 w-4" />
+                            Void
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+}
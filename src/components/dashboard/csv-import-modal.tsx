@@ -70,7 +70,7 @@ interface CSVImportModalProps {
   isOpen: boolean;
   onClose: () => void;
   onImportComplete: () => void;
-  importType: 'contracts' | 'rcbc-clients';
+  importType: 'contracts' | 'rcbc-clients' | 'usage' | 'holidays';
   title: string;
 }
 
@@ -124,9 +124,7 @@ export function CSVImportModal({
   };
 
   const handleDownloadTemplate = async () => {
-    const endpoint = importType === 'contracts'
-      ? '/api/import/contracts'
-      : '/api/import/rcbc-clients';
+    const endpoint = `/api/import/${importType}`;
 
     try {
       const response = await fetch(endpoint);
@@ -134,9 +132,7 @@ export function CSVImportModal({
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = importType === 'contracts'
-        ? 'contracts-template.csv'
-        : 'rcbc-clients-template.csv';
+      a.download = `${importType}-template.csv`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -279,7 +275,7 @@ export function CSVImportModal({
 
       const endpoint = importType === 'contracts'
         ? '/api/import/contracts?mode=import'
-        : '/api/import/rcbc-clients';
+        : `/api/import/${importType}`;
 
       const response = await fetch(endpoint, {
         method: 'POST',
@@ -32,6 +32,7 @@ const PLACEHOLDERS = [
   { key: '{{periodStart}}', desc: 'Period start' },
   { key: '{{periodEnd}}', desc: 'Period end' },
   { key: '{{companyName}}', desc: 'Your company (YOWI/ABBA)' },
+  { key: '{{paymentUrl}}', desc: 'Online payment link (blank when not offered)' },
 ];
 
 export function EmailTemplatesPage() {
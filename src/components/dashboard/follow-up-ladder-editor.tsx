@@ -0,0 +1,285 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Plus, Save, Trash2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+type FollowUpAction = 'NONE' | 'CC_ACCOUNT_MANAGER' | 'SUSPEND_AUTO_BILLING';
+
+interface LadderLevel {
+  delayDays: number;
+  templateId: string | null;
+  extraRecipients: string;
+  action: FollowUpAction;
+}
+
+interface ApiLadderLevel {
+  level: number;
+  delayDays: number;
+  templateId: string | null;
+  extraRecipients: string[];
+  action: FollowUpAction;
+}
+
+interface ScopeOption {
+  value: string; // '' | 'company:<id>' | 'partner:<id>'
+  label: string;
+}
+
+interface FollowUpTemplateOption {
+  id: string;
+  name: string;
+  followUpLevel: number | null;
+}
+
+const ACTION_OPTIONS: { value: FollowUpAction; label: string }[] = [
+  { value: 'NONE', label: 'No side effect' },
+  { value: 'CC_ACCOUNT_MANAGER', label: 'CC account manager' },
+  { value: 'SUSPEND_AUTO_BILLING', label: 'Suspend auto-billing' },
+];
+
+const SCOPE_LABELS: Record<string, string> = {
+  PARTNER: 'partner',
+  COMPANY: 'billing entity',
+  DEFAULT: 'default',
+};
+
+function parseScope(scope: string): { companyId: string | null; partnerId: string | null } {
+  if (scope.startsWith('company:')) return { companyId: scope.slice(8), partnerId: null };
+  if (scope.startsWith('partner:')) return { companyId: null, partnerId: scope.slice(8) };
+  return { companyId: null, partnerId: null };
+}
+
+function toEditable(levels: ApiLadderLevel[]): LadderLevel[] {
+  return levels.map((l) => ({
+    delayDays: l.delayDays,
+    templateId: l.templateId,
+    extraRecipients: l.extraRecipients.join(', '),
+    action: l.action,
+  }));
+}
+
+export function FollowUpLadderEditor() {
+  const [scopeOptions, setScopeOptions] = useState<ScopeOption[]>([{ value: '', label: 'Default (all invoices)' }]);
+  const [templates, setTemplates] = useState<FollowUpTemplateOption[]>([]);
+  const [scope, setScope] = useState('');
+  const [levels, setLevels] = useState<LadderLevel[]>([]);
+  const [hasOverride, setHasOverride] = useState(false);
+  const [inheritedFrom, setInheritedFrom] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Load scopes and follow-up templates once
+  useEffect(() => {
+    Promise.all([
+      fetch('/api/companies').then((res) => (res.ok ? res.json() : [])),
+      fetch('/api/partners').then((res) => (res.ok ? res.json() : [])),
+      fetch('/api/email-templates').then((res) => (res.ok ? res.json() : [])),
+    ])
+      .then(([companies, partners, emailTemplates]) => {
+        setScopeOptions([
+          { value: '', label: 'Default (all invoices)' },
+          ...companies.map((c: { id: string; code: string }) => ({ value: `company:${c.id}`, label: `Billing entity: ${c.code}` })),
+          ...partners.map((p: { id: string; name: string }) => ({ value: `partner:${p.id}`, label: `Partner: ${p.name}` })),
+        ]);
+        setTemplates(emailTemplates.filter((t: { templateType: string }) => t.templateType === 'FOLLOW_UP'));
+      })
+      .catch((err) => console.error('Error loading follow-up ladder options:', err));
+  }, []);
+
+  const fetchLadder = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSuccess(null);
+
+      const { companyId, partnerId } = parseScope(scope);
+      const params = new URLSearchParams();
+      if (companyId) params.set('companyId', companyId);
+      if (partnerId) params.set('partnerId', partnerId);
+
+      const response = await fetch(`/api/follow-up-ladders?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch follow-up ladder');
+
+      const data = await response.json();
+      if (data.levels.length > 0) {
+        setLevels(toEditable(data.levels));
+        setHasOverride(true);
+        setInheritedFrom(null);
+      } else {
+        // Start from the inherited ladder so it can be customised
+        setLevels(toEditable(data.inherited.levels));
+        setHasOverride(false);
+        setInheritedFrom(SCOPE_LABELS[data.inherited.scope] || null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch follow-up ladder');
+    } finally {
+      setLoading(false);
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    fetchLadder();
+  }, [fetchLadder]);
+
+  const updateLevel = (index: number, changes: Partial<LadderLevel>) => {
+    setLevels((prev) => prev.map((l, i) => (i === index ? { ...l, ...changes } : l)));
+    setSuccess(null);
+  };
+
+  const addLevel = () => {
+    const last = levels[levels.length - 1];
+    setLevels([
+      ...levels,
+      { delayDays: last ? last.delayDays + 10 : 3, templateId: null, extraRecipients: '', action: 'NONE' },
+    ]);
+  };
+
+  const removeLevel = (index: number) => {
+    setLevels(levels.filter((_, i) => i !== index));
+  };
+
+  const saveLadder = async (levelsToSave: LadderLevel[]) => {
+    try {
+      setSaving(true);
+      setError(null);
+      setSuccess(null);
+
+      const response = await fetch('/api/follow-up-ladders', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...parseScope(scope), levels: levelsToSave }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save follow-up ladder');
+
+      setSuccess(levelsToSave.length > 0 ? 'Follow-up ladder saved' : 'Override removed');
+      await fetchLadder();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save follow-up ladder');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const templateLabel = (level: number) => {
+    const match = templates.find((t) => t.followUpLevel === level);
+    return match ? `Level ${level} template (${match.name})` : `Level ${level} template`;
+  };
+
+  return (
+    <div className="border rounded-lg p-6 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h4 className="font-semibold text-gray-900">Escalation Ladder</h4>
+          <p className="text-xs text-gray-500">
+            Days past due before each level is sent. Partner ladders override billing entity ladders, which override the default.
+          </p>
+        </div>
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+          className="h-9 rounded-md border border-gray-300 bg-white px-3 text-sm"
+        >
+          {scopeOptions.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+      {success && <div className="rounded-md bg-green-50 p-3 text-sm text-green-700">{success}</div>}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <>
+          {!hasOverride && inheritedFrom && (
+            <p className="text-xs text-gray-500">
+              No ladder configured here yet; showing the {inheritedFrom} ladder. Saving creates an override.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500">
+              <div className="col-span-1">Level</div>
+              <div className="col-span-2">Days overdue</div>
+              <div className="col-span-3">Template</div>
+              <div className="col-span-3">Extra recipients (CC)</div>
+              <div className="col-span-2">Side effect</div>
+              <div className="col-span-1" />
+            </div>
+            {levels.map((level, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <div className="col-span-1 text-sm font-semibold text-gray-700">{index + 1}</div>
+                <input
+                  type="number"
+                  min={0}
+                  value={level.delayDays}
+                  onChange={(e) => updateLevel(index, { delayDays: parseInt(e.target.value) || 0 })}
+                  className="col-span-2 px-2 py-1.5 border rounded-md text-sm"
+                />
+                <select
+                  value={level.templateId || ''}
+                  onChange={(e) => updateLevel(index, { templateId: e.target.value || null })}
+                  className="col-span-3 px-2 py-1.5 border rounded-md text-sm bg-white"
+                >
+                  <option value="">{templateLabel(index + 1)}</option>
+                  {templates.map((t) => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={level.extraRecipients}
+                  onChange={(e) => updateLevel(index, { extraRecipients: e.target.value })}
+                  placeholder="a@example.com, b@example.com"
+                  className="col-span-3 px-2 py-1.5 border rounded-md text-sm"
+                />
+                <select
+                  value={level.action}
+                  onChange={(e) => updateLevel(index, { action: e.target.value as FollowUpAction })}
+                  className="col-span-2 px-2 py-1.5 border rounded-md text-sm bg-white"
+                >
+                  {ACTION_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <div className="col-span-1 flex justify-end">
+                  <Button variant="ghost" size="sm" onClick={() => removeLevel(index)} disabled={levels.length <= 1}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap justify-between gap-2 pt-2">
+            <Button variant="outline" size="sm" onClick={addLevel}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add Level
+            </Button>
+            <div className="flex gap-2">
+              {hasOverride && (
+                <Button variant="outline" size="sm" onClick={() => saveLadder([])} disabled={saving}>
+                  <RotateCcw className="mr-1 h-4 w-4" />
+                  {scope ? 'Use Inherited Ladder' : 'Reset to Defaults'}
+                </Button>
+              )}
+              <Button size="sm" onClick={() => saveLadder(levels)} disabled={saving}>
+                {saving ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Save className="mr-1 h-4 w-4" />}
+                Save Ladder
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { CalendarDays, Loader2, Plus, Trash2, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { CSVImportModal } from '@/components/dashboard/csv-import-modal';
+
+interface Holiday {
+  id: string;
+  date: string;
+  name: string;
+}
+
+export function HolidayCalendarEditor() {
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [showImportModal, setShowImportModal] = useState(false);
+
+  // New holiday
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+
+  const fetchHolidays = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch(`/api/holidays?year=${year}`);
+      if (!res.ok) throw new Error('Failed to fetch holidays');
+      setHolidays(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch holidays');
+    } finally {
+      setLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [fetchHolidays]);
+
+  const addHoliday = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch('/api/holidays', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date, name }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to save holiday');
+      }
+      setDate('');
+      setName('');
+      await fetchHolidays();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save holiday');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteHoliday = async (id: string) => {
+    if (!confirm('Remove this holiday from the calendar?')) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch(`/api/holidays/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to delete holiday');
+      }
+      await fetchHolidays();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete holiday');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Holiday Calendar</h3>
+          <p className="text-sm text-gray-600">
+            Weekends and these holidays are non-working days. Schedules with a business day rule move their billing and
+            due dates off them, and follow-up delays can be counted in business days.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={year}
+            onChange={(e) => setYear(parseInt(e.target.value))}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            {[-1, 0, 1, 2].map((offset) => {
+              const value = new Date().getFullYear() + offset;
+              return (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              );
+            })}
+          </select>
+          <Button variant="outline" onClick={() => setShowImportModal(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import CSV
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-4 text-red-700">
+          {error}
+          <button onClick={() => setError(null)} className="ml-2 text-red-500 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Add Holiday */}
+      <div className="border rounded-lg p-4 flex items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Independence Day"
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+        <Button onClick={addHoliday} disabled={saving || !date || !name.trim()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Holiday
+        </Button>
+      </div>
+
+      {/* Holiday List */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      ) : holidays.length === 0 ? (
+        <div className="rounded-lg border p-8 text-center text-gray-500">
+          <CalendarDays className="mx-auto h-12 w-12 text-gray-300 mb-4" />
+          <p className="text-lg font-medium">No holidays for {year}</p>
+          <p className="text-sm mt-1">Add holidays above or import the year&apos;s calendar from CSV</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Date</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Day</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Holiday</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {holidays.map((holiday) => (
+                <tr key={holiday.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 font-medium text-gray-900">{format(new Date(holiday.date), 'MMM d, yyyy')}</td>
+                  <td className="px-4 py-3 text-gray-600">{format(new Date(holiday.date), 'EEEE')}</td>
+                  <td className="px-4 py-3 text-gray-700">{holiday.name}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => deleteHoliday(holiday.id)}
+                      disabled={saving}
+                      className="rounded p-1 text-red-600 hover:bg-red-50 disabled:opacity-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <CSVImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImportComplete={fetchHolidays}
+        importType="holidays"
+        title="Import Holidays"
+      />
+    </div>
+  );
+}
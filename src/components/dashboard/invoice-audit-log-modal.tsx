@@ -16,6 +16,8 @@ import {
   Send,
   AlertCircle,
   Loader2,
+  FileMinus,
+  FileCheck,
 } from 'lucide-react';
 import { formatDateTime } from '@/lib/utils';
 
@@ -49,6 +51,13 @@ const actionConfig: Record<string, { icon: any; color: string; label: string }>
   INVOICE_REJECTED: { icon: XCircle, color: 'text-red-500', label: 'Rejected' },
   INVOICE_SENT: { icon: Mail, color: 'text-blue-500', label: 'Sent' },
   INVOICE_PAID: { icon: DollarSign, color: 'text-green-500', label: 'Paid' },
+  PAYMENT_RECORDED: { icon: DollarSign, color: 'text-yellow-500', label: 'Partial Payment' },
+  PAYMENT_REVERSED: { icon: Ban, color: 'text-red-500', label: 'Payment Reversed' },
+  PAYMENT_REFUNDED: { icon: Ban, color: 'text-red-500', label: 'Payment Refunded' },
+  CREDIT_NOTE_ISSUED: { icon: FileMinus, color: 'text-orange-500', label: 'Credit Note Issued' },
+  CREDIT_NOTE_VOIDED: { icon: Ban, color: 'text-gray-500', label: 'Credit Note Voided' },
+  BIR_2307_RECEIVED: { icon: FileCheck, color: 'text-green-500', label: '2307 Received' },
+  BIR_2307_REMINDER_SENT: { icon: Mail, color: 'text-orange-500', label: '2307 Reminder Sent' },
   INVOICE_VOIDED: { icon: Ban, color: 'text-gray-500', label: 'Voided' },
   INVOICE_UPDATED: { icon: Edit, color: 'text-yellow-500', label: 'Updated' },
   INVOICE_AUTO_SENT: { icon: Send, color: 'text-purple-500', label: 'Auto-sent' },
@@ -69,6 +78,7 @@ function formatActionDetails(action: string, details: Record<string, any> | null
 
   switch (action) {
     case 'INVOICE_PAID':
+    case 'PAYMENT_RECORDED':
       const amount = details.amount || details.paidAmount;
       const method = details.method || details.paymentMethod;
       if (amount && method) {
@@ -82,8 +92,30 @@ function formatActionDetails(action: string, details: Record<string, any> | null
         return `Sent to: ${details.to || details.recipients}`;
       }
       break;
+    case 'CREDIT_NOTE_ISSUED':
+      if (details.creditNoteNo && details.amount) {
+        return `${details.creditNoteNo}: PHP ${Number(details.amount).toLocaleString('en-PH', { minimumFractionDigits: 2 })} - ${details.reason}`;
+      }
+      break;
+    case 'PAYMENT_REFUNDED':
+      if (details.amount) {
+        return `${details.type === 'CHARGEBACK' ? 'Chargeback' : 'Refund'}: PHP ${Number(details.amount).toLocaleString('en-PH', { minimumFractionDigits: 2 })}`;
+      }
+      break;
+    case 'BIR_2307_RECEIVED':
+      if (details.atcCode && details.amount !== undefined) {
+        return `${details.atcCode} ${details.quarter}: PHP ${Number(details.amount).toLocaleString('en-PH', { minimumFractionDigits: 2 })}`;
+      }
+      break;
+    case 'BIR_2307_REMINDER_SENT':
+      if (details.to) {
+        return `Sent to: ${details.to}`;
+      }
+      break;
     case 'INVOICE_REJECTED':
     case 'INVOICE_VOIDED':
+    case 'PAYMENT_REVERSED':
+    case 'CREDIT_NOTE_VOIDED':
       if (details.reason) {
         return `Reason: ${details.reason}`;
       }
@@ -186,7 +186,7 @@ export function InvoiceEditModal({
 
   if (!isOpen) return null;
 
-  const canEdit = invoice && !['SENT', 'PAID'].includes(invoice.status);
+  const canEdit = invoice && !['SENT', 'PARTIALLY_PAID', 'PAID'].includes(invoice.status);
   const selectedPartner = partners.find((p) => p.id === partnerId);
 
   return (
@@ -5,7 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Select } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Filter, X } from 'lucide-react';
-import { useProductTypes } from '@/lib/hooks/use-api';
+import { useCompanies, useProductTypes } from '@/lib/hooks/use-api';
 
 export interface InvoiceFilters {
   billingEntity: string;
@@ -29,6 +29,7 @@ export function InvoiceFiltersComponent({
 }: InvoiceFiltersProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const { data: productTypes } = useProductTypes();
+  const { data: companies } = useCompanies();
 
   const handleChange = (key: keyof InvoiceFilters, value: string) => {
     onFilterChange({ ...filters, [key]: value });
@@ -71,8 +72,9 @@ export function InvoiceFiltersComponent({
               onChange={(e) => handleChange('billingEntity', e.target.value)}
             >
               <option value="">All Entities</option>
-              <option value="YOWI">YOWI</option>
-              <option value="ABBA">ABBA</option>
+              {(companies || []).map((company: { code: string }) => (
+                <option key={company.code} value={company.code}>{company.code}</option>
+              ))}
             </Select>
           </div>
 
@@ -122,6 +124,7 @@ export function InvoiceFiltersComponent({
               <option value="APPROVED">Approved</option>
               <option value="REJECTED">Rejected</option>
               <option value="SENT">Sent</option>
+              <option value="PARTIALLY_PAID">Partially Paid</option>
               <option value="PAID">Paid</option>
             </Select>
           </div>
@@ -4,33 +4,36 @@ import { useState, useMemo } from 'react';
 import { Header } from '@/components/dashboard/header';
 import { InvoiceTable, InvoiceRow } from '@/components/dashboard/invoice-table';
 import { MarkPaidModal, InvoiceForPayment } from '@/components/dashboard/mark-paid-modal';
+import { CreditNoteModal, InvoiceForCredit } from '@/components/dashboard/credit-note-modal';
 import { InvoiceEditModal } from '@/components/dashboard/invoice-edit-modal';
 import { InvoiceAuditLogModal } from '@/components/dashboard/invoice-audit-log-modal';
 import { Button } from '@/components/ui/button';
 import { RefreshCw, Loader2, Search, X } from 'lucide-react';
-import { useInvoices } from '@/lib/hooks/use-api';
+import { useInvoices, useCompanies } from '@/lib/hooks/use-api';
 
 interface InvoiceListPageProps {
   title: string;
   subtitle: string;
-  status?: 'PENDING' | 'APPROVED' | 'REJECTED' | 'SENT' | 'PAID' | 'CANCELLED' | 'VOID';
+  status?: 'PENDING' | 'APPROVED' | 'REJECTED' | 'SENT' | 'PARTIALLY_PAID' | 'PAID' | 'CANCELLED' | 'VOID';
   showAllStatuses?: boolean;
 }
 
 export function InvoiceListPage({ title, subtitle, status, showAllStatuses }: InvoiceListPageProps) {
   const [selectedInvoiceForPayment, setSelectedInvoiceForPayment] = useState<InvoiceForPayment | null>(null);
+  const [selectedInvoiceForCredit, setSelectedInvoiceForCredit] = useState<InvoiceForCredit | null>(null);
   const [editingInvoiceId, setEditingInvoiceId] = useState<string | null>(null);
   const [selectedInvoiceForHistory, setSelectedInvoiceForHistory] = useState<{ id: string; billingNo: string | null; customerName: string } | null>(null);
 
   // Filter state
   const [searchQuery, setSearchQuery] = useState('');
-  const [entityFilter, setEntityFilter] = useState<'ALL' | 'YOWI' | 'ABBA'>('ALL');
+  const [entityFilter, setEntityFilter] = useState<string>('ALL');
   const [statusFilter, setStatusFilter] = useState<string>('ALL');
 
   // Use SWR for data fetching with caching
   const { data: invoicesData, error: invoicesError, isLoading, mutate } = useInvoices(
     status && !showAllStatuses ? status : undefined
   );
+  const { data: companies } = useCompanies();
 
   // Transform invoices data
   const invoices: InvoiceRow[] = useMemo(() => {
@@ -48,9 +51,12 @@ export function InvoiceListPage({ title, subtitle, status, showAllStatuses }: In
       netAmount: Number(inv.netAmount),
       dueDate: new Date(inv.dueDate),
       createdAt: new Date(inv.createdAt),
-      billingEntity: inv.company?.code || 'YOWI',
+      billingEntity: inv.company?.code || '',
       billingModel: inv.billingModel,
       status: inv.status,
+      paidAmount: inv.paidAmount != null ? Number(inv.paidAmount) : null,
+      emailStatus: inv.emailStatus,
+      emailError: inv.emailError,
       // Follow-up tracking fields
       followUpEnabled: inv.followUpEnabled ?? true,
       followUpCount: inv.followUpCount ?? 0,
@@ -156,6 +162,16 @@ export function InvoiceListPage({ title, subtitle, status, showAllStatuses }: In
       billingNo: invoice.billingNo,
       customerName: invoice.customerName,
       netAmount: invoice.netAmount,
+      paidAmount: invoice.paidAmount ?? 0,
+    });
+  };
+
+  const handleIssueCreditNote = (invoice: InvoiceRow) => {
+    setSelectedInvoiceForCredit({
+      id: invoice.id,
+      billingNo: invoice.billingNo,
+      customerName: invoice.customerName,
+      netAmount: invoice.netAmount,
     });
   };
 
@@ -176,7 +192,7 @@ export function InvoiceListPage({ title, subtitle, status, showAllStatuses }: In
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || 'Failed to mark as paid');
+      throw new Error(error.error || 'Failed to record payment');
     }
 
     mutate();
@@ -203,10 +219,10 @@ export function InvoiceListPage({ title, subtitle, status, showAllStatuses }: In
     }
   };
 
-  // Pay online via HitPay
+  // Pay online via the company's payment provider
   const handlePayOnline = async (invoice: InvoiceRow) => {
     try {
-      const response = await fetch(`/api/invoices/${invoice.id}/hitpay/create-payment`, {
+      const response = await fetch(`/api/invoices/${invoice.id}/payment-request`, {
         method: 'POST',
       });
 
@@ -218,7 +234,7 @@ export function InvoiceListPage({ title, subtitle, status, showAllStatuses }: In
       const data = await response.json();
 
       if (data.checkoutUrl) {
-        // Open HitPay checkout in a new tab
+        // Open the provider checkout in a new tab
         window.open(data.checkoutUrl, '_blank');
       } else {
         throw new Error('No checkout URL returned');
@@ -306,12 +322,13 @@ export function InvoiceListPage({ title, subtitle, status, showAllStatuses }: In
           {/* Entity filter */}
           <select
             value={entityFilter}
-            onChange={(e) => setEntityFilter(e.target.value as 'ALL' | 'YOWI' | 'ABBA')}
+            onChange={(e) => setEntityFilter(e.target.value)}
             className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
           >
             <option value="ALL">All Entities</option>
-            <option value="YOWI">YOWI</option>
-            <option value="ABBA">ABBA</option>
+            {(companies || []).map((company: { code: string }) => (
+              <option key={company.code} value={company.code}>{company.code}</option>
+            ))}
           </select>
 
           {/* Status filter (only when showing all statuses) */}
@@ -325,6 +342,7 @@ export function InvoiceListPage({ title, subtitle, status, showAllStatuses }: In
               <option value="PENDING">Pending</option>
               <option value="APPROVED">Approved</option>
               <option value="SENT">Sent</option>
+              <option value="PARTIALLY_PAID">Partially Paid</option>
               <option value="PAID">Paid</option>
               <option value="REJECTED">Rejected</option>
               <option value="VOID">Void</option>
@@ -359,6 +377,7 @@ export function InvoiceListPage({ title, subtitle, status, showAllStatuses }: In
           onSend={refreshData}
           onMarkPaid={handleMarkPaid}
           onPayOnline={handlePayOnline}
+          onIssueCreditNote={handleIssueCreditNote}
           onViewHistory={handleViewHistory}
           onSendFollowUp={handleSendFollowUp}
         />
@@ -387,6 +406,15 @@ export function InvoiceListPage({ title, subtitle, status, showAllStatuses }: In
         isOpen={!!selectedInvoiceForPayment}
         onClose={() => setSelectedInvoiceForPayment(null)}
         onSave={handleSavePayment}
+        onPaymentReversed={() => mutate()}
+      />
+
+      {/* Credit Note Modal */}
+      <CreditNoteModal
+        invoice={selectedInvoiceForCredit}
+        isOpen={!!selectedInvoiceForCredit}
+        onClose={() => setSelectedInvoiceForCredit(null)}
+        onIssued={() => mutate()}
       />
 
       {/* Invoice Edit Modal */}
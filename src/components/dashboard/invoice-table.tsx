@@ -10,6 +10,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { BillingEntityBadge } from '@/components/dashboard/billing-entity-badge';
 import { Button } from '@/components/ui/button';
 import { formatCurrency, formatDateShort, formatDateTime, daysUntil } from '@/lib/utils';
 import {
@@ -29,6 +30,7 @@ import {
   CreditCard,
   History,
   MailWarning,
+  FileMinus,
 } from 'lucide-react';
 import { SendInvoiceModal } from './send-invoice-modal';
 
@@ -47,10 +49,12 @@ export interface InvoiceRow {
   netAmount: number;
   dueDate: Date;
   createdAt: Date;
-  billingEntity: 'YOWI' | 'ABBA';
+  billingEntity: string;
   billingModel: string;
-  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'SENT' | 'PAID' | 'VOID';
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'SENT' | 'PARTIALLY_PAID' | 'PAID' | 'VOID';
+  paidAmount?: number | null;
   emailStatus?: string;
+  emailError?: string | null;
   // Follow-up tracking fields
   followUpEnabled?: boolean;
   followUpCount?: number;
@@ -68,6 +72,7 @@ interface InvoiceTableProps {
   onSend?: (id: string) => void;
   onMarkPaid?: (invoice: InvoiceRow) => void;
   onPayOnline?: (invoice: InvoiceRow) => void;
+  onIssueCreditNote?: (invoice: InvoiceRow) => void;
   onViewHistory?: (invoice: InvoiceRow) => void;
   onSendFollowUp?: (invoice: InvoiceRow) => void;
   showBulkActions?: boolean;
@@ -84,6 +89,7 @@ export function InvoiceTable({
   onSend,
   onMarkPaid,
   onPayOnline,
+  onIssueCreditNote,
   onViewHistory,
   onSendFollowUp,
   showBulkActions = true,
@@ -226,12 +232,32 @@ export function InvoiceTable({
       APPROVED: 'success',
       REJECTED: 'destructive',
       SENT: 'default',
+      PARTIALLY_PAID: 'warning',
       PAID: 'success',
       VOID: 'secondary',
     };
     return <Badge variant={variants[status] || 'secondary'}>{status}</Badge>;
   };
 
+  // Delivery state of the invoice email while it is in the outbox or after it failed
+  const getEmailStatusBadge = (invoice: InvoiceRow) => {
+    if (invoice.emailStatus === 'QUEUED') {
+      return (
+        <Badge variant="warning" title={invoice.emailError || 'Waiting for the email queue worker'}>
+          Email queued
+        </Badge>
+      );
+    }
+    if (invoice.emailStatus === 'FAILED') {
+      return (
+        <Badge variant="destructive" title={invoice.emailError || undefined}>
+          Email failed
+        </Badge>
+      );
+    }
+    return null;
+  };
+
   const getDaysUntilBadge = (dueDate: Date) => {
     const days = daysUntil(dueDate);
     if (days < 0) {
@@ -342,13 +368,14 @@ export function InvoiceTable({
                 <TableCell>{formatDateShort(invoice.dueDate)}</TableCell>
                 <TableCell>{getDaysUntilBadge(invoice.dueDate)}</TableCell>
                 <TableCell>
-                  <Badge
-                    variant={invoice.billingEntity === 'YOWI' ? 'default' : 'secondary'}
-                  >
-                    {invoice.billingEntity}
-                  </Badge>
+                  <BillingEntityBadge code={invoice.billingEntity} />
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-col items-start gap-1">
+                    {getStatusBadge(invoice.status)}
+                    {getEmailStatusBadge(invoice)}
+                  </div>
                 </TableCell>
-                <TableCell>{getStatusBadge(invoice.status)}</TableCell>
                 <TableCell>
                   <div className="flex items-center justify-end gap-2">
                     <Button
@@ -430,7 +457,7 @@ export function InvoiceTable({
                         )}
                       </>
                     )}
-                    {invoice.status === 'SENT' && (
+                    {(invoice.status === 'SENT' || invoice.status === 'PARTIALLY_PAID') && (
                       <>
                         <Button
                           variant="outline"
@@ -483,7 +510,7 @@ export function InvoiceTable({
                             variant="outline"
                             onClick={() => onPayOnline(invoice)}
                             className="text-blue-600 hover:text-blue-700 hover:bg-blue-50"
-                            title="Pay Online via HitPay"
+                            title="Create an online payment link"
                           >
                             <CreditCard className="mr-1 h-4 w-4" />
                             Pay Online
@@ -494,14 +521,26 @@ export function InvoiceTable({
                             size="sm"
                             onClick={() => onMarkPaid(invoice)}
                             className="bg-green-600 hover:bg-green-700 text-white"
-                            title="Mark as Paid"
+                            title={invoice.status === 'PARTIALLY_PAID' ? 'Record Payment' : 'Mark as Paid'}
                           >
                             <DollarSign className="mr-1 h-4 w-4" />
-                            Mark Paid
+                            {invoice.status === 'PARTIALLY_PAID' ? 'Record Payment' : 'Mark Paid'}
                           </Button>
                         )}
                       </>
                     )}
+                    {onIssueCreditNote && ['SENT', 'PARTIALLY_PAID', 'PAID'].includes(invoice.status) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onIssueCreditNote(invoice)}
+                        className="text-orange-600 hover:text-orange-700 hover:bg-orange-50"
+                        title="Issue Credit Note"
+                      >
+                        <FileMinus className="mr-1 h-4 w-4" />
+                        Credit
+                      </Button>
+                    )}
                   </div>
                 </TableCell>
               </TableRow>
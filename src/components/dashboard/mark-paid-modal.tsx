@@ -1,15 +1,48 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { X, Loader2, Undo2 } from 'lucide-react';
+import { formatCurrency, formatDateShort } from '@/lib/utils';
 
 export interface InvoiceForPayment {
   id: string;
   billingNo: string | null;
   customerName: string;
   netAmount: number;
+  paidAmount?: number | null;
+}
+
+interface LedgerPayment {
+  id: string;
+  amount: number | string;
+  type: string; // PAYMENT | REFUND | CHARGEBACK
+  paymentMethod: string;
+  reference: string | null;
+  paidAt: string;
+  reversedAt: string | null;
+  reversalReason: string | null;
+  recordedBy: { name: string | null; email: string } | null;
+}
+
+interface LedgerPaymentRequest {
+  id: string;
+  provider: string;
+  amount: number | string;
+  status: string;
+  refundedAmount: number | string;
+  overpaidAmount: number | string;
+  paidAt: string | null;
+  paymentReference: string | null;
+  createdAt: string;
+}
+
+interface LedgerBalance {
+  totalDue: number;
+  totalPaid: number;
+  balance: number;
 }
 
 interface MarkPaidModalProps {
@@ -25,26 +58,106 @@ interface MarkPaidModalProps {
       paidAt?: string;
     }
   ) => Promise<void>;
+  onPaymentReversed?: () => void;
 }
 
-export function MarkPaidModal({ invoice, isOpen, onClose, onSave }: MarkPaidModalProps) {
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  CASH: 'Cash',
+  BANK_TRANSFER: 'Bank Transfer',
+  CHECK: 'Check',
+  HITPAY: 'HitPay',
+};
+
+const ENTRY_TYPE_LABELS: Record<string, string> = {
+  REFUND: 'Refund',
+  CHARGEBACK: 'Chargeback',
+};
+
+const PAYMENT_REQUEST_STATUS: Record<string, { variant: 'default' | 'success' | 'destructive' | 'secondary' | 'warning'; label: string }> = {
+  PENDING: { variant: 'secondary', label: 'Pending' },
+  COMPLETED: { variant: 'success', label: 'Paid' },
+  FAILED: { variant: 'destructive', label: 'Failed' },
+  REFUNDED: { variant: 'warning', label: 'Refunded' },
+  CHARGED_BACK: { variant: 'destructive', label: 'Charged Back' },
+  SUPERSEDED: { variant: 'secondary', label: 'Superseded' },
+};
+
+export function MarkPaidModal({ invoice, isOpen, onClose, onSave, onPaymentReversed }: MarkPaidModalProps) {
   const [paidAmount, setPaidAmount] = useState('');
   const [paymentMethod, setPaymentMethod] = useState<'CASH' | 'BANK_TRANSFER' | 'CHECK'>('BANK_TRANSFER');
   const [paymentReference, setPaymentReference] = useState('');
   const [paidAt, setPaidAt] = useState('');
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [payments, setPayments] = useState<LedgerPayment[]>([]);
+  const [paymentRequests, setPaymentRequests] = useState<LedgerPaymentRequest[]>([]);
+  const [ledgerBalance, setLedgerBalance] = useState<LedgerBalance | null>(null);
+  const [loadingLedger, setLoadingLedger] = useState(false);
+  const [reversingId, setReversingId] = useState<string | null>(null);
+
+  // Load payment ledger for the invoice
+  const fetchLedger = useCallback(async (invoiceId: string) => {
+    try {
+      setLoadingLedger(true);
+      const response = await fetch(`/api/invoices/${invoiceId}/payments`);
+      if (!response.ok) throw new Error('Failed to load payments');
+      const data = await response.json();
+      setPayments(data.payments || []);
+      setPaymentRequests(data.paymentRequests || []);
+      setLedgerBalance(data.balance || null);
+      if (data.balance) {
+        setPaidAmount(Math.max(data.balance.balance, 0).toFixed(2));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load payments');
+    } finally {
+      setLoadingLedger(false);
+    }
+  }, []);
 
   // Update form when invoice changes
   useEffect(() => {
     if (invoice) {
-      setPaidAmount(invoice.netAmount.toFixed(2));
+      const outstanding = invoice.netAmount - (invoice.paidAmount || 0);
+      setPaidAmount(Math.max(outstanding, 0).toFixed(2));
       setPaymentMethod('BANK_TRANSFER');
       setPaymentReference('');
       setPaidAt(new Date().toISOString().split('T')[0]);
       setError(null);
+      setPayments([]);
+      setPaymentRequests([]);
+      setLedgerBalance(null);
+      fetchLedger(invoice.id);
+    }
+  }, [invoice, fetchLedger]);
+
+  const handleReverse = async (paymentId: string) => {
+    if (!invoice) return;
+
+    const reason = prompt('Enter reason for reversing this payment:');
+    if (!reason) return;
+
+    setReversingId(paymentId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/invoices/${invoice.id}/payments/${paymentId}/reverse`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to reverse payment');
+      }
+      await fetchLedger(invoice.id);
+      onPaymentReversed?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reverse payment');
+    } finally {
+      setReversingId(null);
     }
-  }, [invoice]);
+  };
 
   const handleSave = async () => {
     if (!invoice) return;
@@ -67,7 +180,7 @@ export function MarkPaidModal({ invoice, isOpen, onClose, onSave }: MarkPaidModa
       });
       onClose();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to mark as paid');
+      setError(err instanceof Error ? err.message : 'Failed to record payment');
     } finally {
       setSaving(false);
     }
@@ -75,6 +188,9 @@ export function MarkPaidModal({ invoice, isOpen, onClose, onSave }: MarkPaidModa
 
   if (!isOpen || !invoice) return null;
 
+  const balance = ledgerBalance?.balance ?? invoice.netAmount - (invoice.paidAmount || 0);
+  const isFullyPaid = ledgerBalance !== null && ledgerBalance.balance <= 0;
+
   const selectClassName = "h-10 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500";
 
   return (
@@ -86,10 +202,10 @@ export function MarkPaidModal({ invoice, isOpen, onClose, onSave }: MarkPaidModa
       />
 
       {/* Modal */}
-      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-md mx-4 p-6">
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 p-6 max-h-[90vh] overflow-y-auto">
         {/* Header */}
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-lg font-semibold text-gray-900">Mark Invoice as Paid</h2>
+          <h2 className="text-lg font-semibold text-gray-900">Record Payment</h2>
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-gray-600 transition-colors"
@@ -104,8 +220,118 @@ export function MarkPaidModal({ invoice, isOpen, onClose, onSave }: MarkPaidModa
             {invoice.billingNo || invoice.id.slice(0, 8)}
           </p>
           <p className="text-sm text-gray-600">{invoice.customerName}</p>
+          <div className="mt-3 grid grid-cols-3 gap-2 text-sm">
+            <div>
+              <p className="text-xs text-gray-500">Invoice Total</p>
+              <p className="font-medium">{formatCurrency(invoice.netAmount)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500">Paid</p>
+              <p className="font-medium text-green-600">
+                {formatCurrency(ledgerBalance?.totalPaid ?? (invoice.paidAmount || 0))}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500">Balance</p>
+              <p className="font-medium text-orange-600">{formatCurrency(balance)}</p>
+            </div>
+          </div>
         </div>
 
+        {/* Payment History */}
+        {(loadingLedger || payments.length > 0) && (
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Payment History</h3>
+            {loadingLedger ? (
+              <div className="flex items-center text-sm text-gray-500">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading payments...
+              </div>
+            ) : (
+              <div className="max-h-40 overflow-y-auto divide-y rounded-md border">
+                {payments.map((payment) => (
+                  <div key={payment.id} className="flex items-center justify-between p-2 text-sm">
+                    <div>
+                      <p className={payment.reversedAt ? 'text-gray-400 line-through' : Number(payment.amount) < 0 ? 'font-medium text-red-600' : 'font-medium'}>
+                        {formatCurrency(Number(payment.amount))}
+                        <span className="ml-2 font-normal text-gray-500">
+                          {PAYMENT_METHOD_LABELS[payment.paymentMethod] || payment.paymentMethod}
+                          {ENTRY_TYPE_LABELS[payment.type] && ` ${ENTRY_TYPE_LABELS[payment.type]}`}
+                        </span>
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatDateShort(new Date(payment.paidAt))}
+                        {payment.reference && ` · ${payment.reference}`}
+                        {payment.recordedBy && ` · ${payment.recordedBy.name || payment.recordedBy.email}`}
+                      </p>
+                      {payment.reversedAt && (
+                        <p className="text-xs text-red-600">Reversed: {payment.reversalReason}</p>
+                      )}
+                    </div>
+                    {payment.reversedAt ? (
+                      <Badge variant="secondary">Reversed</Badge>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleReverse(payment.id)}
+                        disabled={reversingId === payment.id}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        title="Reverse payment"
+                      >
+                        {reversingId === payment.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Undo2 className="h-4 w-4" />
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Online Payments */}
+        {!loadingLedger && paymentRequests.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Online Payments</h3>
+            <div className="max-h-40 overflow-y-auto divide-y rounded-md border">
+              {paymentRequests.map((request) => {
+                const status = PAYMENT_REQUEST_STATUS[request.status] || { variant: 'secondary' as const, label: request.status };
+                return (
+                  <div key={request.id} className="flex items-center justify-between p-2 text-sm">
+                    <div>
+                      <p className="font-medium">
+                        {formatCurrency(Number(request.amount))}
+                        <span className="ml-2 font-normal text-gray-500">
+                          {PAYMENT_METHOD_LABELS[request.provider] || request.provider}
+                        </span>
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatDateShort(new Date(request.paidAt || request.createdAt))}
+                        {request.paymentReference && ` · ${request.paymentReference}`}
+                      </p>
+                      {Number(request.refundedAmount) > 0 && (
+                        <p className="text-xs text-red-600">
+                          Refunded {formatCurrency(Number(request.refundedAmount))}
+                        </p>
+                      )}
+                      {Number(request.overpaidAmount) > 0 && (
+                        <p className="text-xs text-amber-600">
+                          Overpaid {formatCurrency(Number(request.overpaidAmount))} - not applied
+                        </p>
+                      )}
+                    </div>
+                    <Badge variant={status.variant}>{status.label}</Badge>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
@@ -114,78 +340,82 @@ export function MarkPaidModal({ invoice, isOpen, onClose, onSave }: MarkPaidModa
         )}
 
         {/* Form Fields */}
-        <div className="space-y-4">
-          {/* Amount Paid */}
-          <div>
-            <label className="block text-sm font-medium text-gray-900 mb-1">
-              Amount Paid
-            </label>
-            <Input
-              type="number"
-              step="0.01"
-              min="0"
-              value={paidAmount}
-              onChange={(e) => setPaidAmount(e.target.value)}
-              className="w-full"
-              placeholder="0.00"
-            />
-            <p className="text-xs text-gray-500 mt-1">
-              Invoice amount: PHP {invoice.netAmount.toLocaleString('en-PH', { minimumFractionDigits: 2 })}
-            </p>
-          </div>
+        {!isFullyPaid && (
+          <div className="space-y-4">
+            {/* Amount Paid */}
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-1">
+                Amount Paid
+              </label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={paidAmount}
+                onChange={(e) => setPaidAmount(e.target.value)}
+                className="w-full"
+                placeholder="0.00"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Outstanding balance: {formatCurrency(balance)}
+              </p>
+            </div>
 
-          {/* Payment Method */}
-          <div>
-            <label className="block text-sm font-medium text-gray-900 mb-1">
-              Payment Method
-            </label>
-            <select
-              value={paymentMethod}
-              onChange={(e) => setPaymentMethod(e.target.value as 'CASH' | 'BANK_TRANSFER' | 'CHECK')}
-              className={selectClassName}
-            >
-              <option value="BANK_TRANSFER">Bank Transfer</option>
-              <option value="CASH">Cash</option>
-              <option value="CHECK">Check</option>
-            </select>
-          </div>
+            {/* Payment Method */}
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-1">
+                Payment Method
+              </label>
+              <select
+                value={paymentMethod}
+                onChange={(e) => setPaymentMethod(e.target.value as 'CASH' | 'BANK_TRANSFER' | 'CHECK')}
+                className={selectClassName}
+              >
+                <option value="BANK_TRANSFER">Bank Transfer</option>
+                <option value="CASH">Cash</option>
+                <option value="CHECK">Check</option>
+              </select>
+            </div>
 
-          {/* Payment Reference */}
-          <div>
-            <label className="block text-sm font-medium text-gray-900 mb-1">
-              Reference Number (Optional)
-            </label>
-            <Input
-              type="text"
-              value={paymentReference}
-              onChange={(e) => setPaymentReference(e.target.value)}
-              className="w-full"
-              placeholder="Transaction ID, check number, etc."
-            />
-          </div>
+            {/* Payment Reference */}
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-1">
+                Reference Number (Optional)
+              </label>
+              <Input
+                type="text"
+                value={paymentReference}
+                onChange={(e) => setPaymentReference(e.target.value)}
+                className="w-full"
+                placeholder="Transaction ID, check number, etc."
+              />
+            </div>
 
-          {/* Payment Date */}
-          <div>
-            <label className="block text-sm font-medium text-gray-900 mb-1">
-              Payment Date
-            </label>
-            <Input
-              type="date"
-              value={paidAt}
-              onChange={(e) => setPaidAt(e.target.value)}
-              className="w-full"
-            />
+            {/* Payment Date */}
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-1">
+                Payment Date
+              </label>
+              <Input
+                type="date"
+                value={paidAt}
+                onChange={(e) => setPaidAt(e.target.value)}
+                className="w-full"
+              />
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Footer Actions */}
         <div className="mt-8 flex justify-end gap-3">
           <Button variant="outline" onClick={onClose} disabled={saving}>
-            Cancel
-          </Button>
-          <Button onClick={handleSave} disabled={saving}>
-            {saving ? 'Saving...' : 'Mark as Paid'}
+            {isFullyPaid ? 'Close' : 'Cancel'}
           </Button>
+          {!isFullyPaid && (
+            <Button onClick={handleSave} disabled={saving || loadingLedger}>
+              {saving ? 'Saving...' : 'Record Payment'}
+            </Button>
+          )}
         </div>
       </div>
     </div>
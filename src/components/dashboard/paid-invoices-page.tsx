@@ -5,6 +5,7 @@ import { Header } from '@/components/dashboard/header';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { BillingEntityBadge } from '@/components/dashboard/billing-entity-badge';
 import {
   Table,
   TableBody,
@@ -13,7 +14,8 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { RefreshCw, Loader2, Filter, X, Download } from 'lucide-react';
+import { MarkPaidModal, InvoiceForPayment } from '@/components/dashboard/mark-paid-modal';
+import { RefreshCw, Loader2, Filter, X, Download, Wallet } from 'lucide-react';
 import { formatCurrency, formatDateShort } from '@/lib/utils';
 import { format, subDays } from 'date-fns';
 
@@ -26,6 +28,7 @@ interface PaidInvoice {
   netAmount: number;
   dueDate: Date;
   billingEntity: string;
+  status: 'PAID' | 'PARTIALLY_PAID';
   paidAt: Date | null;
   paidAmount: number | null;
   paymentMethod: string | null;
@@ -37,6 +40,7 @@ export function PaidInvoicesPage() {
   const [loading, setLoading] = useState(true);
   const [exporting, setExporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [selectedInvoiceForPayment, setSelectedInvoiceForPayment] = useState<InvoiceForPayment | null>(null);
 
   // Date filter state - default to last 30 days
   const [dateFrom, setDateFrom] = useState(() => format(subDays(new Date(), 30), 'yyyy-MM-dd'));
@@ -49,7 +53,7 @@ export function PaidInvoicesPage() {
       setError(null);
 
       const params = new URLSearchParams();
-      params.set('status', 'PAID');
+      params.set('status', 'PAID,PARTIALLY_PAID');
       if (dateFrom) params.set('paidFrom', dateFrom);
       if (dateTo) params.set('paidTo', dateTo);
 
@@ -68,7 +72,8 @@ export function PaidInvoicesPage() {
         vatAmount: Number(inv.vatAmount),
         netAmount: Number(inv.netAmount),
         dueDate: new Date(inv.dueDate),
-        billingEntity: inv.company?.code || 'YOWI',
+        billingEntity: inv.company?.code || '',
+        status: inv.status,
         paidAt: inv.paidAt ? new Date(inv.paidAt) : null,
         paidAmount: inv.paidAmount ? Number(inv.paidAmount) : null,
         paymentMethod: inv.paymentMethod,
@@ -144,17 +149,57 @@ export function PaidInvoicesPage() {
     }
   };
 
+  const handleOpenPayments = (invoice: PaidInvoice) => {
+    setSelectedInvoiceForPayment({
+      id: invoice.id,
+      billingNo: invoice.billingNo,
+      customerName: invoice.customerName,
+      netAmount: invoice.netAmount,
+      paidAmount: invoice.paidAmount,
+    });
+  };
+
+  const handleSavePayment = async (
+    invoiceId: string,
+    data: {
+      paidAmount: number;
+      paymentMethod: 'CASH' | 'BANK_TRANSFER' | 'CHECK';
+      paymentReference?: string;
+      paidAt?: string;
+    }
+  ) => {
+    const response = await fetch(`/api/invoices/${invoiceId}/payments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        amount: data.paidAmount,
+        paymentMethod: data.paymentMethod,
+        reference: data.paymentReference,
+        paidAt: data.paidAt,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to record payment');
+    }
+
+    fetchInvoices();
+  };
+
   const getPaymentMethodBadge = (method: string | null) => {
     if (!method) return <span className="text-gray-400">-</span>;
     const labels: Record<string, string> = {
       CASH: 'Cash',
       BANK_TRANSFER: 'Bank Transfer',
       CHECK: 'Check',
+      HITPAY: 'HitPay',
     };
     const variants: Record<string, 'default' | 'secondary' | 'success'> = {
       CASH: 'secondary',
       BANK_TRANSFER: 'default',
       CHECK: 'secondary',
+      HITPAY: 'success',
     };
     return <Badge variant={variants[method] || 'secondary'}>{labels[method] || method}</Badge>;
   };
@@ -162,6 +207,9 @@ export function PaidInvoicesPage() {
   // Calculate totals
   const totalAmount = invoices.reduce((sum, inv) => sum + inv.netAmount, 0);
   const totalPaid = invoices.reduce((sum, inv) => sum + (inv.paidAmount || inv.netAmount), 0);
+  const totalOutstanding = invoices
+    .filter((inv) => inv.status === 'PARTIALLY_PAID')
+    .reduce((sum, inv) => sum + (inv.netAmount - (inv.paidAmount || 0)), 0);
 
   return (
     <div className="flex flex-col">
@@ -244,7 +292,7 @@ export function PaidInvoicesPage() {
         )}
 
         {/* Summary */}
-        <div className="grid grid-cols-2 gap-4 md:grid-cols-3">
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
           <div className="rounded-lg border bg-white p-4">
             <div className="text-2xl font-bold text-gray-900">{invoices.length}</div>
             <p className="text-sm text-gray-500">Paid Invoices</p>
@@ -257,6 +305,10 @@ export function PaidInvoicesPage() {
             <div className="text-2xl font-bold text-green-600">{formatCurrency(totalPaid)}</div>
             <p className="text-sm text-gray-500">Total Amount Received</p>
           </div>
+          <div className="rounded-lg border bg-white p-4">
+            <div className="text-2xl font-bold text-orange-600">{formatCurrency(totalOutstanding)}</div>
+            <p className="text-sm text-gray-500">Outstanding on Partial Payments</p>
+          </div>
         </div>
 
         {/* Error message */}
@@ -276,16 +328,19 @@ export function PaidInvoicesPage() {
                 <TableHead className="text-right">Amount</TableHead>
                 <TableHead>Due Date</TableHead>
                 <TableHead>Paid Date</TableHead>
+                <TableHead>Status</TableHead>
                 <TableHead className="text-right">Amount Paid</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
                 <TableHead>Method</TableHead>
                 <TableHead>Reference</TableHead>
                 <TableHead>Entity</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {invoices.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={9} className="h-24 text-center text-gray-500">
+                  <TableCell colSpan={12} className="h-24 text-center text-gray-500">
                     {loading ? 'Loading...' : 'No paid invoices found'}
                   </TableCell>
                 </TableRow>
@@ -303,17 +358,36 @@ export function PaidInvoicesPage() {
                     <TableCell>
                       {invoice.paidAt ? formatDateShort(invoice.paidAt) : '-'}
                     </TableCell>
+                    <TableCell>
+                      <Badge variant={invoice.status === 'PAID' ? 'success' : 'warning'}>
+                        {invoice.status === 'PAID' ? 'Paid' : 'Partially Paid'}
+                      </Badge>
+                    </TableCell>
                     <TableCell className="text-right font-medium text-green-600">
                       {invoice.paidAmount ? formatCurrency(invoice.paidAmount) : formatCurrency(invoice.netAmount)}
                     </TableCell>
+                    <TableCell className="text-right">
+                      {invoice.status === 'PARTIALLY_PAID'
+                        ? formatCurrency(invoice.netAmount - (invoice.paidAmount || 0))
+                        : '-'}
+                    </TableCell>
                     <TableCell>{getPaymentMethodBadge(invoice.paymentMethod)}</TableCell>
                     <TableCell className="text-sm text-gray-600">
                       {invoice.paymentReference || '-'}
                     </TableCell>
                     <TableCell>
-                      <Badge variant={invoice.billingEntity === 'YOWI' ? 'default' : 'secondary'}>
-                        {invoice.billingEntity}
-                      </Badge>
+                      <BillingEntityBadge code={invoice.billingEntity} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleOpenPayments(invoice)}
+                        title="View payment history"
+                      >
+                        <Wallet className="mr-1 h-4 w-4" />
+                        Payments
+                      </Button>
                     </TableCell>
                   </TableRow>
                 ))
@@ -337,6 +411,15 @@ export function PaidInvoicesPage() {
           </div>
         )}
       </div>
+
+      {/* Payments Modal */}
+      <MarkPaidModal
+        invoice={selectedInvoiceForPayment}
+        isOpen={!!selectedInvoiceForPayment}
+        onClose={() => setSelectedInvoiceForPayment(null)}
+        onSave={handleSavePayment}
+        onPaymentReversed={fetchInvoices}
+      />
     </div>
   );
 }
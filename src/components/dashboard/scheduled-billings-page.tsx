@@ -10,12 +10,16 @@ import {
   Calendar,
   ListChecks,
   History,
+  TrendingUp,
+  Users,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { formatDistanceToNow, format } from 'date-fns';
 import { CreateScheduleTab } from './scheduled-billings/create-schedule-tab';
 import { ManageSchedulesTab } from './scheduled-billings/manage-schedules-tab';
 import { RunHistoryTab } from './scheduled-billings/run-history-tab';
+import { ForecastTab } from './scheduled-billings/forecast-tab';
+import { UsageTab } from './scheduled-billings/usage-tab';
 
 interface SchedulerStatus {
   running: boolean;
@@ -27,6 +31,7 @@ interface SchedulerStatus {
   };
   lastRun: string | null;
   nextRun: string | null;
+  upcomingRuns?: string[];
 }
 
 interface Stats {
@@ -58,6 +63,14 @@ interface ScheduledBilling {
   nextBillingDate: string | null;
   startDate: string;
   endDate: string | null;
+  prorationMethod: 'NONE' | 'DAILY' | 'THIRTY_360';
+  businessDayRule: 'NONE' | 'NEXT_BUSINESS_DAY' | 'PREVIOUS_BUSINESS_DAY';
+  escalationRate: number | null;
+  escalationMonths: number | null;
+  priceNoticeDays: number | null;
+  billingMode: 'FIXED' | 'USAGE';
+  usageMetric: string | null;
+  usageRate: number | null;
   autoApprove: boolean;
   autoSendEnabled: boolean;
   status: 'PENDING' | 'ACTIVE' | 'PAUSED' | 'ENDED';
@@ -79,7 +92,7 @@ interface ScheduledBillingsData {
   scheduledBillings: ScheduledBilling[];
 }
 
-type TabType = 'create' | 'manage' | 'history';
+type TabType = 'create' | 'manage' | 'history' | 'forecast' | 'usage';
 
 export function ScheduledBillingsPage() {
   const [data, setData] = useState<ScheduledBillingsData | null>(null);
@@ -137,6 +150,8 @@ export function ScheduledBillingsPage() {
     { id: 'create' as TabType, label: 'Create Schedule', icon: Plus },
     { id: 'manage' as TabType, label: 'Manage Schedules', icon: ListChecks, badge: stats.pending > 0 ? stats.pending : undefined },
     { id: 'history' as TabType, label: 'Run History', icon: History },
+    { id: 'forecast' as TabType, label: 'Forecast', icon: TrendingUp },
+    { id: 'usage' as TabType, label: 'Usage', icon: Users },
   ];
 
   return (
@@ -189,7 +204,10 @@ export function ScheduledBillingsPage() {
             </div>
             <p className="mt-1 text-xs text-gray-500">Last Run</p>
           </div>
-          <div className="rounded-lg bg-gray-50 p-4">
+          <div
+            className="rounded-lg bg-gray-50 p-4"
+            title={scheduler.upcomingRuns?.map((run) => format(new Date(run), 'EEE, MMM d, h:mm a')).join('\n')}
+          >
             <div className="text-sm font-medium">
               {scheduler.nextRun
                 ? format(new Date(scheduler.nextRun), 'MMM d, h:mm a')
@@ -244,6 +262,12 @@ export function ScheduledBillingsPage() {
         {activeTab === 'history' && (
           <RunHistoryTab />
         )}
+        {activeTab === 'forecast' && (
+          <ForecastTab />
+        )}
+        {activeTab === 'usage' && (
+          <UsageTab />
+        )}
       </div>
 
       {/* Legend */}
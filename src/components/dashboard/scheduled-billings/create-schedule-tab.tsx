@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Loader2, Search, AlertCircle } from 'lucide-react';
+import { Loader2, Search, AlertCircle, Plus, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useProductTypes } from '@/lib/hooks/use-api';
 
@@ -15,6 +15,8 @@ interface Contract {
   billingAmount: number | null;
   vatType: 'VAT' | 'NON_VAT';
   withholdingRate: number | null;
+  employeeCount: number | null;
+  ratePerEmployee: number | null;
 }
 
 interface BillingEntity {
@@ -29,6 +31,11 @@ interface WithholdingPreset {
   label: string;
 }
 
+interface UsageTierInput {
+  upTo: string;
+  rate: string;
+}
+
 interface CreateScheduleTabProps {
   onSuccess: () => void;
 }
@@ -62,6 +69,13 @@ export function CreateScheduleTab({ onSuccess }: CreateScheduleTabProps) {
   const [remarks, setRemarks] = useState('');
   const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
   const [endDate, setEndDate] = useState('');
+  const [prorationMethod, setProrationMethod] = useState<'NONE' | 'DAILY' | 'THIRTY_360'>('NONE');
+  const [businessDayRule, setBusinessDayRule] = useState<'NONE' | 'NEXT_BUSINESS_DAY' | 'PREVIOUS_BUSINESS_DAY'>('NONE');
+  const [billingMode, setBillingMode] = useState<'FIXED' | 'USAGE'>('FIXED');
+  const [usageMetric, setUsageMetric] = useState('HEADCOUNT');
+  const [usageRate, setUsageRate] = useState('');
+  const [usageMinimumFee, setUsageMinimumFee] = useState('');
+  const [usageTiers, setUsageTiers] = useState<UsageTierInput[]>([]);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -82,7 +96,7 @@ export function CreateScheduleTab({ onSuccess }: CreateScheduleTabProps) {
         // Handle both array response and { contracts: [] } response
         const contractsList = Array.isArray(contractsData) ? contractsData : (contractsData.contracts || []);
         setContracts(contractsList);
-        setBillingEntities(companiesData.filter((c: BillingEntity) => ['YOWI', 'ABBA'].includes(c.code)));
+        setBillingEntities(companiesData);
 
         // Fetch withholding presets from settings
         if (settingsRes.ok) {
@@ -177,17 +191,23 @@ export function CreateScheduleTab({ onSuccess }: CreateScheduleTabProps) {
     e.preventDefault();
     setError(null);
 
-    if (!contractId || !billingEntityId || !billingAmount || !billingDayOfMonth) {
+    const isUsage = billingMode === 'USAGE';
+    if (!contractId || !billingEntityId || (!isUsage && !billingAmount) || !billingDayOfMonth) {
       setError('Please fill in all required fields');
       return;
     }
 
-    const amount = parseFloat(billingAmount);
-    if (isNaN(amount) || amount <= 0) {
+    const amount = billingAmount ? parseFloat(billingAmount) : 0;
+    if (isNaN(amount) || (!isUsage && amount <= 0)) {
       setError('Billing amount must be a positive number');
       return;
     }
 
+    if (isUsage && !usageRate && usageTiers.length === 0 && !selectedContract?.ratePerEmployee) {
+      setError('Enter a usage rate or tiers - this contract has no rate per employee');
+      return;
+    }
+
     const day = parseInt(billingDayOfMonth);
     if (isNaN(day) || day < 1 || day > 31) {
       setError('Billing day must be between 1 and 31');
@@ -227,6 +247,17 @@ export function CreateScheduleTab({ onSuccess }: CreateScheduleTabProps) {
           remarks: remarks || undefined,
           startDate: startDate ? new Date(startDate).toISOString() : undefined,
           endDate: endDate ? new Date(endDate).toISOString() : undefined,
+          prorationMethod,
+          businessDayRule,
+          billingMode,
+          ...(isUsage && {
+            usageMetric: usageMetric || undefined,
+            usageRate: usageRate ? parseFloat(usageRate) : undefined,
+            usageMinimumFee: usageMinimumFee ? parseFloat(usageMinimumFee) : undefined,
+            usageTiers: usageTiers.length > 0
+              ? usageTiers.map((tier) => ({ upTo: tier.upTo ? parseInt(tier.upTo) : null, rate: parseFloat(tier.rate) }))
+              : undefined,
+          }),
         }),
       });
 
@@ -252,6 +283,13 @@ export function CreateScheduleTab({ onSuccess }: CreateScheduleTabProps) {
       setRemarks('');
       setStartDate(new Date().toISOString().split('T')[0]);
       setEndDate('');
+      setProrationMethod('NONE');
+      setBusinessDayRule('NONE');
+      setBillingMode('FIXED');
+      setUsageMetric('HEADCOUNT');
+      setUsageRate('');
+      setUsageMinimumFee('');
+      setUsageTiers([]);
       setSearchQuery('');
 
       onSuccess();
@@ -373,10 +411,26 @@ export function CreateScheduleTab({ onSuccess }: CreateScheduleTabProps) {
             <div className="rounded-lg border bg-white p-6">
               <h3 className="text-lg font-medium text-gray-900 mb-4">Schedule Configuration</h3>
 
+              {/* Billing Mode */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Billing Mode
+                </label>
+                <select
+                  value={billingMode}
+                  onChange={(e) => setBillingMode(e.target.value as typeof billingMode)}
+                  className="w-full rounded-lg border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  <option value="FIXED">Fixed amount</option>
+                  <option value="USAGE">Usage - recorded monthly usage x rate</option>
+                </select>
+              </div>
+
               {/* Billing Amount */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Billing Amount (PHP) <span className="text-red-500">*</span>
+                  {billingMode === 'USAGE' ? 'Estimated Amount (PHP)' : 'Billing Amount (PHP)'}
+                  {billingMode === 'FIXED' && <span className="text-red-500"> *</span>}
                 </label>
                 <input
                   type="number"
@@ -386,10 +440,103 @@ export function CreateScheduleTab({ onSuccess }: CreateScheduleTabProps) {
                   step="0.01"
                   min="0"
                   className="w-full rounded-lg border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                  required
+                  required={billingMode === 'FIXED'}
                 />
+                {billingMode === 'USAGE' && (
+                  <p className="mt-1 text-xs text-gray-500">For reference only - invoices bill the usage recorded for each period</p>
+                )}
               </div>
 
+              {/* Usage Pricing */}
+              {billingMode === 'USAGE' && (
+                <div className="mt-4 rounded-lg bg-gray-50 p-4 space-y-4">
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Metric</label>
+                      <input
+                        type="text"
+                        value={usageMetric}
+                        onChange={(e) => setUsageMetric(e.target.value.toUpperCase())}
+                        className="w-full rounded-lg border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Rate per Unit</label>
+                      <input
+                        type="number"
+                        value={usageRate}
+                        onChange={(e) => setUsageRate(e.target.value)}
+                        placeholder={selectedContract?.ratePerEmployee ? String(Number(selectedContract.ratePerEmployee)) : '0.00'}
+                        step="0.01"
+                        min="0"
+                        disabled={usageTiers.length > 0}
+                        className="w-full rounded-lg border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-100"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Fee</label>
+                      <input
+                        type="number"
+                        value={usageMinimumFee}
+                        onChange={(e) => setUsageMinimumFee(e.target.value)}
+                        placeholder="None"
+                        step="0.01"
+                        min="0"
+                        className="w-full rounded-lg border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                    </div>
+                  </div>
+
+                  {/* Graduated Tiers */}
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-gray-700">Tiers</label>
+                      <button
+                        type="button"
+                        onClick={() => setUsageTiers([...usageTiers, { upTo: '', rate: '' }])}
+                        className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                      >
+                        <Plus className="h-4 w-4" />
+                        Add Tier
+                      </button>
+                    </div>
+                    {usageTiers.map((tier, index) => (
+                      <div key={index} className="flex items-center gap-2 mb-2">
+                        <input
+                          type="number"
+                          value={tier.upTo}
+                          onChange={(e) => setUsageTiers(usageTiers.map((t, i) => (i === index ? { ...t, upTo: e.target.value } : t)))}
+                          placeholder={index === usageTiers.length - 1 ? 'Up to (blank = no limit)' : 'Up to'}
+                          min="1"
+                          className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                        <input
+                          type="number"
+                          value={tier.rate}
+                          onChange={(e) => setUsageTiers(usageTiers.map((t, i) => (i === index ? { ...t, rate: e.target.value } : t)))}
+                          placeholder="Rate"
+                          step="0.01"
+                          min="0"
+                          className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setUsageTiers(usageTiers.filter((_, i) => i !== index))}
+                          className="rounded p-1 text-gray-400 hover:text-red-600"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <p className="text-xs text-gray-500">
+                      {usageTiers.length > 0
+                        ? 'Each tier bills the units up to its limit at its own rate'
+                        : 'Leave empty to bill every unit at the same rate (defaults to the contract rate per employee)'}
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {/* Description */}
               <div className="mt-4">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -514,6 +661,46 @@ export function CreateScheduleTab({ onSuccess }: CreateScheduleTabProps) {
                 </div>
               </div>
 
+              {/* Weekends and Holidays */}
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Weekends and Holidays
+                </label>
+                <select
+                  value={businessDayRule}
+                  onChange={(e) => setBusinessDayRule(e.target.value as typeof businessDayRule)}
+                  className="w-full rounded-lg border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  <option value="NONE">No change - bill and fall due on the exact day</option>
+                  <option value="NEXT_BUSINESS_DAY">Move to the next business day</option>
+                  <option value="PREVIOUS_BUSINESS_DAY">Move to the previous business day</option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Applied to billing and due dates that land on a weekend or a holiday on the Settings holiday calendar
+                </p>
+              </div>
+
+              {/* Proration (fixed amounts only) */}
+              {billingMode === 'FIXED' && (
+                <div className="mt-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Proration
+                  </label>
+                  <select
+                    value={prorationMethod}
+                    onChange={(e) => setProrationMethod(e.target.value as typeof prorationMethod)}
+                    className="w-full rounded-lg border border-gray-300 px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    <option value="NONE">None - always bill the full period</option>
+                    <option value="DAILY">Daily - actual days in the period</option>
+                    <option value="THIRTY_360">30/360 - every month counts as 30 days</option>
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Applied when the start date, end date or contract end date falls inside a billing period
+                  </p>
+                </div>
+              )}
+
               {/* VAT and Withholding */}
               <div className="grid grid-cols-2 gap-4 mt-4">
                 <div>
@@ -643,6 +830,22 @@ export function CreateScheduleTab({ onSuccess }: CreateScheduleTabProps) {
                     Starting {new Date(startDate).toLocaleDateString()}
                     {endDate && ` until ${new Date(endDate).toLocaleDateString()}`}
                   </div>
+                  {billingMode === 'USAGE' && (
+                    <div className="text-sm text-gray-600">
+                      Billed from recorded {usageMetric.toLowerCase()} usage x {usageTiers.length > 0 ? 'tiered rates' : 'rate'}
+                      {usageMinimumFee && `, minimum ₱${parseFloat(usageMinimumFee).toLocaleString('en-PH', { minimumFractionDigits: 2 })}`}
+                    </div>
+                  )}
+                  {billingMode === 'FIXED' && prorationMethod !== 'NONE' && (
+                    <div className="text-sm text-gray-600">
+                      Partial periods prorated {prorationMethod === 'DAILY' ? 'daily' : 'on a 30/360 basis'}
+                    </div>
+                  )}
+                  {businessDayRule !== 'NONE' && (
+                    <div className="text-sm text-gray-600">
+                      Weekend and holiday dates move to the {businessDayRule === 'NEXT_BUSINESS_DAY' ? 'next' : 'previous'} business day
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -715,7 +918,7 @@ export function CreateScheduleTab({ onSuccess }: CreateScheduleTabProps) {
 
         {/* Submit Button */}
         <div className="flex justify-end pt-4">
-          <Button type="submit" disabled={submitting || !contractId || !billingEntityId || !billingAmount} size="lg">
+          <Button type="submit" disabled={submitting || !contractId || !billingEntityId || (billingMode === 'FIXED' && !billingAmount)} size="lg">
             {submitting ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -0,0 +1,262 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, Download, TrendingUp, History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { format } from 'date-fns';
+import { formatCurrency } from '@/lib/utils';
+import { useCompanies } from '@/lib/hooks/use-api';
+
+interface ForecastInvoice {
+  scheduledBillingId: string;
+  billingDate: string;
+  customerName: string;
+  billingEntity: string;
+  productType: string;
+  description: string;
+  periodStart: string;
+  periodEnd: string;
+  dueDate: string;
+  serviceFee: number;
+  vatAmount: number;
+  withholdingTax: number;
+  netAmount: number;
+  autoApprove: boolean;
+  autoSendEnabled: boolean;
+  isCatchUp: boolean;
+}
+
+interface ForecastTotals {
+  invoiceCount: number;
+  serviceFee: number;
+  vatAmount: number;
+  withholdingTax: number;
+  netAmount: number;
+}
+
+interface ForecastGroup extends ForecastTotals {
+  key: string;
+}
+
+interface BillingForecast {
+  from: string;
+  to: string;
+  days: number;
+  invoices: ForecastInvoice[];
+  byEntity: ForecastGroup[];
+  byProductType: ForecastGroup[];
+  totals: ForecastTotals;
+}
+
+const DAY_OPTIONS = [30, 60, 90];
+
+function TotalsTable({ title, groups }: { title: string; groups: ForecastGroup[] }) {
+  return (
+    <div className="rounded-lg border bg-white">
+      <h4 className="border-b px-4 py-3 text-sm font-medium text-gray-700">{title}</h4>
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">{title.replace('By ', '')}</th>
+            <th className="px-4 py-2 text-right font-medium text-gray-500">Invoices</th>
+            <th className="px-4 py-2 text-right font-medium text-gray-500">VAT</th>
+            <th className="px-4 py-2 text-right font-medium text-gray-500">Net Amount</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {groups.map((group) => (
+            <tr key={group.key}>
+              <td className="px-4 py-2 font-medium text-gray-900">{group.key}</td>
+              <td className="px-4 py-2 text-right">{group.invoiceCount}</td>
+              <td className="px-4 py-2 text-right">{formatCurrency(group.vatAmount)}</td>
+              <td className="px-4 py-2 text-right font-medium">{formatCurrency(group.netAmount)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function ForecastTab() {
+  const [forecast, setForecast] = useState<BillingForecast | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [days, setDays] = useState(30);
+  const [billingEntity, setBillingEntity] = useState('');
+  const { data: companies } = useCompanies();
+
+  const params = new URLSearchParams({ days: String(days) });
+  if (billingEntity) params.set('billingEntity', billingEntity);
+  const query = params.toString();
+
+  const fetchForecast = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch(`/api/scheduled-billings/forecast?${query}`);
+      if (!res.ok) throw new Error('Failed to fetch forecast');
+      setForecast(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch forecast');
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    fetchForecast();
+  }, [fetchForecast]);
+
+  const handleExport = () => {
+    window.open(`/api/scheduled-billings/forecast/export?${query}`, '_blank');
+  };
+
+  const invoices = forecast?.invoices || [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header with filters */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value))}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            {DAY_OPTIONS.map((option) => (
+              <option key={option} value={option}>Next {option} days</option>
+            ))}
+          </select>
+          <select
+            value={billingEntity}
+            onChange={(e) => setBillingEntity(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="">All entities</option>
+            {(companies || []).map((company: { code: string }) => (
+              <option key={company.code} value={company.code}>{company.code}</option>
+            ))}
+          </select>
+          {forecast && (
+            <span className="text-sm text-gray-500">
+              {format(new Date(forecast.from), 'MMM d')} - {format(new Date(forecast.to), 'MMM d, yyyy')}
+            </span>
+          )}
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={loading || invoices.length === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          CSV
+        </Button>
+      </div>
+
+      {/* Error Banner */}
+      {error && (
+        <div className="rounded-lg bg-red-50 p-4 text-red-700">
+          {error}
+          <button onClick={() => setError(null)} className="ml-2 text-red-500 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex h-64 items-center justify-center rounded-lg border bg-white">
+          <RefreshCw className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      ) : !forecast || invoices.length === 0 ? (
+        <div className="rounded-lg border bg-white p-8 text-center text-gray-500">
+          <TrendingUp className="mx-auto h-12 w-12 text-gray-300 mb-4" />
+          <p className="text-lg font-medium">No invoices forecast</p>
+          <p className="text-sm mt-1">No active schedules bill in the next {days} days</p>
+        </div>
+      ) : (
+        <>
+          {/* Summary Stats */}
+          <div className="grid grid-cols-4 gap-4">
+            <div className="rounded-lg border bg-white p-4 text-center">
+              <div className="text-2xl font-bold text-gray-900">{forecast.totals.invoiceCount}</div>
+              <p className="text-sm text-gray-500">Invoices</p>
+            </div>
+            <div className="rounded-lg border bg-white p-4 text-center">
+              <div className="text-2xl font-bold text-gray-900">{formatCurrency(forecast.totals.serviceFee)}</div>
+              <p className="text-sm text-gray-500">Service Fees</p>
+            </div>
+            <div className="rounded-lg border bg-white p-4 text-center">
+              <div className="text-2xl font-bold text-gray-600">{formatCurrency(forecast.totals.vatAmount)}</div>
+              <p className="text-sm text-gray-500">VAT</p>
+            </div>
+            <div className="rounded-lg border bg-white p-4 text-center">
+              <div className="text-2xl font-bold text-green-600">{formatCurrency(forecast.totals.netAmount)}</div>
+              <p className="text-sm text-gray-500">Net Receivable</p>
+            </div>
+          </div>
+
+          {/* Totals by entity and product */}
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <TotalsTable title="By Billing Entity" groups={forecast.byEntity} />
+            <TotalsTable title="By Product Type" groups={forecast.byProductType} />
+          </div>
+
+          {/* Forecast Invoices */}
+          <div className="overflow-x-auto rounded-lg border bg-white">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Billing Date</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Client</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Entity</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Description</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Due Date</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">VAT</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Withholding</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Net Amount</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Automation</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {invoices.map((invoice) => (
+                  <tr key={`${invoice.scheduledBillingId}-${invoice.billingDate}`} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">
+                        {format(new Date(invoice.billingDate), 'MMM d, yyyy')}
+                      </div>
+                      {invoice.isCatchUp && (
+                        <span
+                          className="mt-1 inline-flex items-center gap-1 rounded-full bg-purple-100 px-2 py-0.5 text-xs font-medium text-purple-700"
+                          title="Missed billing date - billed on the next scheduler run"
+                        >
+                          <History className="h-3 w-3" />
+                          Catch-up
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">{invoice.customerName}</div>
+                      <div className="text-xs text-gray-500">{invoice.productType}</div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className="inline-flex items-center rounded bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700">
+                        {invoice.billingEntity}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{invoice.description}</td>
+                    <td className="px-4 py-3 text-gray-700">{format(new Date(invoice.dueDate), 'MMM d, yyyy')}</td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(invoice.vatAmount)}</td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(invoice.withholdingTax)}</td>
+                    <td className="px-4 py-3 text-right font-medium text-gray-900">{formatCurrency(invoice.netAmount)}</td>
+                    <td className="px-4 py-3 text-xs text-gray-500">
+                      {invoice.autoApprove
+                        ? invoice.autoSendEnabled ? 'Auto-approve & send' : 'Auto-approve'
+                        : 'Needs approval'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
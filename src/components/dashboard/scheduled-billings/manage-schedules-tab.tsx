@@ -17,9 +17,13 @@ import {
   StopCircle,
   Check,
   X,
+  TrendingUp,
+  History,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { formatDistanceToNow, format } from 'date-fns';
+import { PriceChangesModal, ScheduleForPriceChanges } from './price-changes-modal';
+import { ScheduleHistoryModal, ScheduleForHistory } from './schedule-history-modal';
 
 interface ScheduledBilling {
   id: string;
@@ -36,6 +40,14 @@ interface ScheduledBilling {
   nextBillingDate: string | null;
   startDate: string;
   endDate: string | null;
+  prorationMethod: 'NONE' | 'DAILY' | 'THIRTY_360';
+  businessDayRule: 'NONE' | 'NEXT_BUSINESS_DAY' | 'PREVIOUS_BUSINESS_DAY';
+  escalationRate: number | null;
+  escalationMonths: number | null;
+  priceNoticeDays: number | null;
+  billingMode: 'FIXED' | 'USAGE';
+  usageMetric: string | null;
+  usageRate: number | null;
   autoApprove: boolean;
   autoSendEnabled: boolean;
   status: 'PENDING' | 'ACTIVE' | 'PAUSED' | 'ENDED';
@@ -77,6 +89,8 @@ export function ManageSchedulesTab({
   const [openMenu, setOpenMenu] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [error, setError] = useState<string | null>(null);
+  const [priceChangesSchedule, setPriceChangesSchedule] = useState<ScheduleForPriceChanges | null>(null);
+  const [historySchedule, setHistorySchedule] = useState<ScheduleForHistory | null>(null);
 
   const filteredBillings = scheduledBillings.filter((sb) => {
     if (statusFilter === 'all') return true;
@@ -345,7 +359,17 @@ export function ManageSchedulesTab({
                       </span>
                     </td>
                     <td className="px-4 py-3 text-right font-medium text-gray-900">
-                      {new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(billing.billingAmount)}
+                      {billing.billingMode === 'USAGE' ? (
+                        <>
+                          <div>Usage</div>
+                          <div className="text-xs font-normal text-gray-500">
+                            {(billing.usageMetric || 'HEADCOUNT').toLowerCase()}
+                            {billing.usageRate != null && ` x ${new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(billing.usageRate)}`}
+                          </div>
+                        </>
+                      ) : (
+                        new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(billing.billingAmount)
+                      )}
                     </td>
                     <td className="px-4 py-3 text-gray-600">
                       <div className="flex items-center gap-1">
@@ -353,6 +377,16 @@ export function ManageSchedulesTab({
                         <span className="text-gray-400">|</span>
                         <span className="text-xs text-gray-500">{getFrequencyLabel(billing)}</span>
                       </div>
+                      {billing.billingMode === 'FIXED' && billing.prorationMethod !== 'NONE' && (
+                        <div className="text-xs text-gray-400">
+                          Prorated {billing.prorationMethod === 'DAILY' ? 'daily' : '30/360'}
+                        </div>
+                      )}
+                      {billing.businessDayRule !== 'NONE' && (
+                        <div className="text-xs text-gray-400">
+                          {billing.businessDayRule === 'NEXT_BUSINESS_DAY' ? 'Next' : 'Previous'} business day
+                        </div>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-gray-600">
                       {billing.status === 'PENDING' ? (
@@ -477,8 +511,30 @@ export function ManageSchedulesTab({
                                   </button>
                                 </>
                               )}
+                              <button
+                                onClick={() => {
+                                  setHistorySchedule(billing);
+                                  setOpenMenu(null);
+                                }}
+                                className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm hover:bg-gray-50"
+                              >
+                                <History className="h-4 w-4 text-gray-600" />
+                                History
+                              </button>
                               {billing.status !== 'ENDED' && (
                                 <>
+                                  {billing.billingMode === 'FIXED' && (
+                                    <button
+                                      onClick={() => {
+                                        setPriceChangesSchedule(billing);
+                                        setOpenMenu(null);
+                                      }}
+                                      className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm hover:bg-gray-50"
+                                    >
+                                      <TrendingUp className="h-4 w-4 text-blue-600" />
+                                      Price Changes
+                                    </button>
+                                  )}
                                   <button
                                     onClick={() => endSchedule(billing.id)}
                                     className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm hover:bg-gray-50"
@@ -508,6 +564,19 @@ export function ManageSchedulesTab({
           )}
         </div>
       </div>
+
+      <PriceChangesModal
+        schedule={priceChangesSchedule}
+        isOpen={!!priceChangesSchedule}
+        onClose={() => setPriceChangesSchedule(null)}
+        onSaved={onRefresh}
+      />
+
+      <ScheduleHistoryModal
+        schedule={historySchedule}
+        isOpen={!!historySchedule}
+        onClose={() => setHistorySchedule(null)}
+      />
     </div>
   );
 }
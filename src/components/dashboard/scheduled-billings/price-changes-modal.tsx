@@ -0,0 +1,354 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, RefreshCw, Trash2, TrendingUp, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { format } from 'date-fns';
+import { formatCurrency } from '@/lib/utils';
+
+export interface ScheduleForPriceChanges {
+  id: string;
+  companyName: string;
+  billingAmount: number;
+  escalationRate: number | null;
+  escalationMonths: number | null;
+  priceNoticeDays: number | null;
+}
+
+interface PriceChange {
+  id: string;
+  effectiveDate: string;
+  amount: number;
+  reason: string | null;
+  isEscalation: boolean;
+  noticeSentAt: string | null;
+}
+
+interface ProjectedChange {
+  effectiveDate: string;
+  amount: number;
+  previousAmount: number;
+  reason: string | null;
+}
+
+interface PriceChangesData {
+  currentAmount: { amount: number; reason: string | null };
+  priceChanges: PriceChange[];
+  upcoming: ProjectedChange[];
+}
+
+interface PriceChangesModalProps {
+  schedule: ScheduleForPriceChanges | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function PriceChangesModal({ schedule, isOpen, onClose, onSaved }: PriceChangesModalProps) {
+  const [data, setData] = useState<PriceChangesData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Escalation settings (rate is entered as a percentage)
+  const [escalationPercent, setEscalationPercent] = useState('');
+  const [escalationMonths, setEscalationMonths] = useState('12');
+  const [priceNoticeDays, setPriceNoticeDays] = useState('');
+
+  // New price change
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+
+  const fetchPriceChanges = async (id: string) => {
+    try {
+      setLoading(true);
+      const res = await fetch(`/api/scheduled-billings/${id}/price-changes`);
+      if (!res.ok) throw new Error('Failed to fetch price changes');
+      setData(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch price changes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (schedule && isOpen) {
+      setEscalationPercent(schedule.escalationRate ? String(Math.round(schedule.escalationRate * 10000) / 100) : '');
+      setEscalationMonths(String(schedule.escalationMonths || 12));
+      setPriceNoticeDays(schedule.priceNoticeDays ? String(schedule.priceNoticeDays) : '');
+      setEffectiveDate('');
+      setAmount('');
+      setReason('');
+      setError(null);
+      fetchPriceChanges(schedule.id);
+    }
+  }, [schedule, isOpen]);
+
+  const saveSettings = async () => {
+    if (!schedule) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const percent = parseFloat(escalationPercent);
+      const res = await fetch(`/api/scheduled-billings/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          escalationRate: percent > 0 ? percent / 100 : null,
+          escalationMonths: percent > 0 ? parseInt(escalationMonths) : null,
+          priceNoticeDays: priceNoticeDays ? parseInt(priceNoticeDays) : null,
+        }),
+      });
+      if (!res.ok) {
+        const json = await res.json();
+        throw new Error(json.error || 'Failed to save escalation settings');
+      }
+      onSaved();
+      await fetchPriceChanges(schedule.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save escalation settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addPriceChange = async () => {
+    if (!schedule) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch(`/api/scheduled-billings/${schedule.id}/price-changes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          effectiveDate: new Date(effectiveDate).toISOString(),
+          amount: parseFloat(amount),
+          reason: reason || undefined,
+        }),
+      });
+      if (!res.ok) {
+        const json = await res.json();
+        throw new Error(json.error || 'Failed to add price change');
+      }
+      setEffectiveDate('');
+      setAmount('');
+      setReason('');
+      await fetchPriceChanges(schedule.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add price change');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deletePriceChange = async (changeId: string) => {
+    if (!schedule || !confirm('Remove this price change?')) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch(`/api/scheduled-billings/${schedule.id}/price-changes/${changeId}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const json = await res.json();
+        throw new Error(json.error || 'Failed to delete price change');
+      }
+      await fetchPriceChanges(schedule.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete price change');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen || !schedule) return null;
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 p-6 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Price Changes</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="mb-6 pb-4 border-b flex items-center justify-between">
+          <p className="text-sm text-gray-600">{schedule.companyName}</p>
+          {data && (
+            <p className="text-sm text-gray-600">
+              Current amount: <span className="font-medium text-gray-900">{formatCurrency(data.currentAmount.amount)}</span>
+            </p>
+          )}
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {/* Escalation Settings */}
+        <div className="rounded-lg border p-4 mb-6">
+          <h3 className="text-sm font-medium text-gray-900 mb-3">Automatic Escalation</h3>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Increase (%)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={escalationPercent}
+                onChange={(e) => setEscalationPercent(e.target.value)}
+                placeholder="e.g. 5"
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Every (months)</label>
+              <input
+                type="number"
+                min="1"
+                value={escalationMonths}
+                onChange={(e) => setEscalationMonths(e.target.value)}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Notice (days before)</label>
+              <input
+                type="number"
+                min="1"
+                value={priceNoticeDays}
+                onChange={(e) => setPriceNoticeDays(e.target.value)}
+                placeholder="No notice"
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Escalations are counted from the contract start date. The notice uses the Price Change email template.
+          </p>
+          <div className="mt-3 flex justify-end">
+            <Button size="sm" variant="outline" onClick={saveSettings} disabled={saving}>
+              Save Settings
+            </Button>
+          </div>
+        </div>
+
+        {/* Scheduled Changes */}
+        <h3 className="text-sm font-medium text-gray-900 mb-3">Scheduled Amounts</h3>
+        {loading ? (
+          <div className="flex h-24 items-center justify-center">
+            <RefreshCw className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <table className="w-full text-sm mb-6">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Effective</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Amount</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Reason</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {(data?.priceChanges || []).map((change) => (
+                <tr key={change.id}>
+                  <td className="px-3 py-2 text-gray-900">{format(new Date(change.effectiveDate), 'MMM d, yyyy')}</td>
+                  <td className="px-3 py-2 text-right font-medium">{formatCurrency(change.amount)}</td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {change.reason || '-'}
+                    {change.noticeSentAt && (
+                      <span className="ml-2 inline-flex items-center gap-1 text-xs text-blue-600">
+                        <Mail className="h-3 w-3" />
+                        Notice sent
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {new Date(change.effectiveDate) > today && (
+                      <button
+                        onClick={() => deletePriceChange(change.id)}
+                        disabled={saving}
+                        className="rounded p-1 text-red-600 hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {(data?.upcoming || []).map((change) => (
+                <tr key={`projected-${change.effectiveDate}`} className="text-gray-500">
+                  <td className="px-3 py-2">{format(new Date(change.effectiveDate), 'MMM d, yyyy')}</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(change.amount)}</td>
+                  <td className="px-3 py-2">
+                    <span className="inline-flex items-center gap-1 text-xs">
+                      <TrendingUp className="h-3 w-3" />
+                      {change.reason} (projected)
+                    </span>
+                  </td>
+                  <td className="px-3 py-2"></td>
+                </tr>
+              ))}
+              {data && data.priceChanges.length === 0 && data.upcoming.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-3 py-4 text-center text-gray-500">
+                    Bills {formatCurrency(schedule.billingAmount)} with no changes scheduled
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+
+        {/* Add Price Change */}
+        <div className="rounded-lg bg-gray-50 border p-4">
+          <h3 className="text-sm font-medium text-gray-900 mb-3">Add Price Change</h3>
+          <div className="grid grid-cols-3 gap-3">
+            <input
+              type="date"
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="New amount"
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (optional)"
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          <div className="mt-3 flex justify-end">
+            <Button size="sm" onClick={addPriceChange} disabled={saving || !effectiveDate || !amount}>
+              Add Change
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
   FileText,
   ExternalLink,
   AlertTriangle,
+  History,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { format, formatDistanceToNow } from 'date-fns';
@@ -18,6 +19,8 @@ interface ScheduledBillingRun {
   scheduledBillingId: string;
   invoiceId: string | null;
   runDate: string;
+  billingDate: string | null;
+  isCatchUp: boolean;
   status: 'PENDING' | 'SUCCESS' | 'FAILED' | 'SKIPPED';
   errorMessage: string | null;
   createdAt: string;
@@ -190,6 +193,16 @@ export function RunHistoryTab() {
                       <div className="text-xs text-gray-500">
                         {format(new Date(run.runDate), 'h:mm a')}
                       </div>
+                      {run.isCatchUp && (
+                        <span
+                          className="mt-1 inline-flex items-center gap-1 rounded-full bg-purple-100 px-2 py-0.5 text-xs font-medium text-purple-700"
+                          title="Generated for a billing date that was missed"
+                        >
+                          <History className="h-3 w-3" />
+                          Catch-up
+                          {run.billingDate && ` for ${format(new Date(run.billingDate), 'MMM d, yyyy')}`}
+                        </span>
+                      )}
                     </td>
                     <td className="px-4 py-3">
                       <div className="font-medium text-gray-900">
@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, RefreshCw, FileText } from 'lucide-react';
+import { format } from 'date-fns';
+
+export interface ScheduleForHistory {
+  id: string;
+  companyName: string;
+}
+
+type VersionValue = string | number | boolean | null | object;
+
+interface ScheduleVersion {
+  id: string;
+  version: number;
+  changes: Record<string, { from: VersionValue; to: VersionValue }> | null;
+  effectiveDate: string;
+  changeReason: string | null;
+  createdAt: string;
+  changedBy: { id: string; name: string | null; email: string } | null;
+  runs: {
+    id: string;
+    billingDate: string;
+    invoice: { id: string; billingNo: string | null; status: string } | null;
+  }[];
+}
+
+interface ScheduleHistoryModalProps {
+  schedule: ScheduleForHistory | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  billingAmount: 'Amount',
+  vatType: 'VAT Type',
+  hasWithholding: 'Withholding',
+  withholdingRate: 'Withholding Rate',
+  description: 'Description',
+  frequency: 'Frequency',
+  customIntervalValue: 'Interval',
+  customIntervalUnit: 'Interval Unit',
+  billingDayOfMonth: 'Billing Day',
+  dueDayOfMonth: 'Due Day',
+  startDate: 'Start Date',
+  endDate: 'End Date',
+  prorationMethod: 'Proration',
+  businessDayRule: 'Business Day Rule',
+  escalationRate: 'Escalation Rate',
+  escalationMonths: 'Escalation Every (months)',
+  priceNoticeDays: 'Price Notice Days',
+  billingMode: 'Billing Mode',
+  usageMetric: 'Usage Metric',
+  usageRate: 'Usage Rate',
+  usageTiers: 'Usage Tiers',
+  usageMinimumFee: 'Usage Minimum Fee',
+  autoApprove: 'Auto-Approve',
+  autoSendEnabled: 'Auto-Send',
+  status: 'Status',
+  remarks: 'Remarks',
+};
+
+function formatValue(value: VersionValue): string {
+  if (value === null || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return format(new Date(value), 'MMM d, yyyy');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function ScheduleHistoryModal({ schedule, isOpen, onClose }: ScheduleHistoryModalProps) {
+  const [versions, setVersions] = useState<ScheduleVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVersions = async (id: string) => {
+    try {
+      setLoading(true);
+      const res = await fetch(`/api/scheduled-billings/${id}/versions`);
+      if (!res.ok) throw new Error('Failed to fetch schedule history');
+      const data = await res.json();
+      setVersions(data.versions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch schedule history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (schedule && isOpen) {
+      setVersions([]);
+      setError(null);
+      fetchVersions(schedule.id);
+    }
+  }, [schedule, isOpen]);
+
+  if (!isOpen || !schedule) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 p-6 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Schedule History</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="mb-6 pb-4 border-b">
+          <p className="text-sm text-gray-600">{schedule.companyName}</p>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex h-24 items-center justify-center">
+            <RefreshCw className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {versions.map((version) => (
+              <div key={version.id} className="rounded-lg border p-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      Version {version.version}
+                      {version.changeReason && (
+                        <span className="ml-2 font-normal text-gray-600">{version.changeReason}</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {version.changedBy ? version.changedBy.name || version.changedBy.email : 'System'} on{' '}
+                      {format(new Date(version.createdAt), 'MMM d, yyyy h:mm a')}
+                    </p>
+                  </div>
+                  <span className="text-xs text-gray-500">
+                    Effective {format(new Date(version.effectiveDate), 'MMM d, yyyy')}
+                  </span>
+                </div>
+
+                {version.changes ? (
+                  <table className="mt-3 w-full text-sm">
+                    <tbody className="divide-y">
+                      {Object.entries(version.changes).map(([field, change]) => (
+                        <tr key={field}>
+                          <td className="py-1.5 pr-3 text-gray-500">{FIELD_LABELS[field] || field}</td>
+                          <td className="py-1.5 pr-3 text-gray-500 line-through">{formatValue(change.from)}</td>
+                          <td className="py-1.5 font-medium text-gray-900">{formatValue(change.to)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="mt-3 text-sm text-gray-500">Original terms</p>
+                )}
+
+                {version.runs.length > 0 && (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {version.runs.map((run) => (
+                      <span
+                        key={run.id}
+                        className="inline-flex items-center gap-1 rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-700"
+                        title={run.invoice?.status}
+                      >
+                        <FileText className="h-3 w-3" />
+                        {run.invoice?.billingNo || format(new Date(run.billingDate), 'MMM d, yyyy')}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+            {!error && versions.length === 0 && (
+              <p className="py-4 text-center text-sm text-gray-500">No history recorded</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, Upload, Trash2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { format } from 'date-fns';
+import { useContracts } from '@/lib/hooks/use-api';
+import { CSVImportModal } from '@/components/dashboard/csv-import-modal';
+
+interface UsageEntry {
+  id: string;
+  contractId: string;
+  month: string;
+  metric: string;
+  unit: string;
+  quantity: number;
+  notes: string | null;
+  contract: {
+    id: string;
+    companyName: string;
+    customerNumber: string | null;
+    ratePerEmployee: number | null;
+  };
+}
+
+interface ContractOption {
+  id: string;
+  companyName: string;
+  productType: string;
+  employeeCount: number | null;
+}
+
+export function UsageTab() {
+  const [usage, setUsage] = useState<UsageEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [showImportModal, setShowImportModal] = useState(false);
+  const { data: contractsData } = useContracts();
+
+  // New entry
+  const [contractId, setContractId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [metric, setMetric] = useState('HEADCOUNT');
+  const [unit, setUnit] = useState('employees');
+  const [notes, setNotes] = useState('');
+
+  const contracts: ContractOption[] = Array.isArray(contractsData) ? contractsData : contractsData?.contracts || [];
+
+  const fetchUsage = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch(`/api/usage?month=${month}`);
+      if (!res.ok) throw new Error('Failed to fetch usage');
+      setUsage(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch usage');
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    if (month) fetchUsage();
+  }, [month, fetchUsage]);
+
+  const recordUsage = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch('/api/usage', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contractId,
+          month,
+          metric,
+          unit,
+          quantity: parseInt(quantity),
+          notes: notes || undefined,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to record usage');
+      }
+      setContractId('');
+      setQuantity('');
+      setNotes('');
+      await fetchUsage();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record usage');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteEntry = async (id: string) => {
+    if (!confirm('Delete this usage entry?')) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch(`/api/usage/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to delete usage');
+      }
+      await fetchUsage();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete usage');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header with month filter */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <span className="text-sm text-gray-500">
+            Usage schedules bill the usage recorded for each month in their billing period
+          </span>
+        </div>
+        <Button variant="outline" onClick={() => setShowImportModal(true)}>
+          <Upload className="mr-2 h-4 w-4" />
+          Import CSV
+        </Button>
+      </div>
+
+      {/* Error Banner */}
+      {error && (
+        <div className="rounded-lg bg-red-50 p-4 text-red-700">
+          {error}
+          <button onClick={() => setError(null)} className="ml-2 text-red-500 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Record Usage */}
+      <div className="rounded-lg border bg-white p-4">
+        <h4 className="text-sm font-medium text-gray-700 mb-3">Record Usage</h4>
+        <div className="grid grid-cols-6 gap-3">
+          <select
+            value={contractId}
+            onChange={(e) => {
+              setContractId(e.target.value);
+              const contract = contracts.find((c) => c.id === e.target.value);
+              if (contract?.employeeCount && !quantity) setQuantity(String(contract.employeeCount));
+            }}
+            className="col-span-2 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="">Select contract...</option>
+            {contracts.map((contract) => (
+              <option key={contract.id} value={contract.id}>
+                {contract.companyName} ({contract.productType})
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            placeholder="Quantity"
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={metric}
+            onChange={(e) => setMetric(e.target.value.toUpperCase())}
+            placeholder="Metric"
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={unit}
+            onChange={(e) => setUnit(e.target.value)}
+            placeholder="Unit"
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <Button onClick={recordUsage} disabled={saving || !contractId || quantity === ''}>
+            Save
+          </Button>
+        </div>
+        <input
+          type="text"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Notes (optional)"
+          className="mt-3 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+
+      {/* Usage Table */}
+      {loading ? (
+        <div className="flex h-64 items-center justify-center rounded-lg border bg-white">
+          <RefreshCw className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      ) : usage.length === 0 ? (
+        <div className="rounded-lg border bg-white p-8 text-center text-gray-500">
+          <Users className="mx-auto h-12 w-12 text-gray-300 mb-4" />
+          <p className="text-lg font-medium">No usage recorded</p>
+          <p className="text-sm mt-1">Record usage above or import a CSV for this month</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border bg-white">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Client</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Month</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Metric</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-500">Quantity</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Notes</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {usage.map((entry) => (
+                <tr key={entry.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">{entry.contract.companyName}</div>
+                    {entry.contract.customerNumber && (
+                      <div className="text-xs text-gray-500">{entry.contract.customerNumber}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{format(new Date(entry.month), 'MMM yyyy')}</td>
+                  <td className="px-4 py-3">
+                    <span className="inline-flex items-center rounded bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700">
+                      {entry.metric}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right font-medium text-gray-900">
+                    {entry.quantity.toLocaleString('en-PH')} <span className="font-normal text-gray-500">{entry.unit}</span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">{entry.notes || '-'}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => deleteEntry(entry.id)}
+                      disabled={saving}
+                      className="rounded p-1 text-red-600 hover:bg-red-50 disabled:opacity-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <CSVImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImportComplete={fetchUsage}
+        importType="usage"
+        title="Import Usage"
+      />
+    </div>
+  );
+}
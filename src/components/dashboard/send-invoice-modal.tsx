@@ -173,7 +173,7 @@ export function SendInvoiceModal({ isOpen, onClose, invoice, onSent }: SendInvoi
       }
 
       const data = await res.json();
-      alert(`Invoice sent successfully to ${data.sentTo}`);
+      alert(`Invoice queued for delivery to ${data.sentTo}`);
       onSent();
       onClose();
     } catch (err: any) {
@@ -362,7 +362,7 @@ export function SendInvoiceModal({ isOpen, onClose, invoice, onSent }: SendInvoi
             />
             <label htmlFor="includePaymentLink" className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
               <CreditCard className="h-4 w-4 text-blue-500" />
-              Include payment link (HitPay)
+              Include online payment link
             </label>
           </div>
         </div>
@@ -23,6 +23,11 @@ import {
   Handshake,
   FilePlus,
   History,
+  FileMinus,
+  FileCheck,
+  BarChart3,
+  Webhook,
+  ArrowLeftRight,
 } from 'lucide-react';
 
 const navigation = [
@@ -32,6 +37,10 @@ const navigation = [
   { name: 'Rejected', href: '/dashboard/rejected', icon: XCircle },
   { name: 'All Invoices', href: '/dashboard/invoices', icon: FileText },
   { name: 'Paid Invoices', href: '/dashboard/paid', icon: DollarSign },
+  { name: 'Credit Notes', href: '/dashboard/credit-notes', icon: FileMinus },
+  { name: 'BIR 2307', href: '/dashboard/bir-2307', icon: FileCheck },
+  { name: 'AR Aging', href: '/dashboard/ar-aging', icon: BarChart3 },
+  { name: 'Reconciliation', href: '/dashboard/reconciliation', icon: ArrowLeftRight },
   { name: 'Contracts', href: '/dashboard/contracts', icon: Users },
   { name: 'Scheduled Billings', href: '/dashboard/scheduled', icon: Calendar },
   { name: 'Invoice Generator', href: '/dashboard/generate-invoice', icon: FilePlus },
@@ -43,6 +52,7 @@ const navigation = [
 const adminNavigation = [
   { name: 'Users', href: '/dashboard/users', icon: UserCog },
   { name: 'Audit Logs', href: '/dashboard/audit-logs', icon: History },
+  { name: 'Webhooks', href: '/dashboard/webhooks', icon: Webhook },
 ];
 
 export function Sidebar() {
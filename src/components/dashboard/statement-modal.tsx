@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { X, Loader2, Download, Mail } from 'lucide-react';
+
+export interface StatementCustomer {
+  customerName: string;
+  billingEntity: string;
+}
+
+interface StatementModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customer: StatementCustomer | null;
+  billingEntities: string[];
+}
+
+export function StatementModal({ isOpen, onClose, customer, billingEntities }: StatementModalProps) {
+  const today = new Date().toISOString().split('T')[0];
+  const [billingEntity, setBillingEntity] = useState('');
+  const [from, setFrom] = useState(`${new Date().getFullYear()}-01-01`);
+  const [to, setTo] = useState(today);
+  const [toEmails, setToEmails] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Reset the form when a different customer is selected
+  useEffect(() => {
+    if (!customer) return;
+
+    setBillingEntity(customer.billingEntity);
+    setFrom(`${new Date().getFullYear()}-01-01`);
+    setTo(new Date().toISOString().split('T')[0]);
+    setToEmails('');
+    setError(null);
+    setSuccess(null);
+  }, [customer]);
+
+  if (!isOpen || !customer) return null;
+
+  const params = new URLSearchParams({
+    customerName: customer.customerName,
+    billingEntity,
+    from,
+    to,
+  });
+
+  const handleDownload = () => {
+    window.open(`/api/statements?${params.toString()}`, '_blank');
+  };
+
+  const handleSend = async () => {
+    setError(null);
+    setSuccess(null);
+    setIsSending(true);
+
+    try {
+      const response = await fetch('/api/statements/send', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          customerName: customer.customerName,
+          billingEntity,
+          from,
+          to,
+          toEmails: toEmails || undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send statement');
+      }
+
+      setSuccess(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send statement');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl">
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Statement of Account</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="mb-4 rounded-md bg-gray-50 p-3 text-sm">
+          <div className="font-medium">{customer.customerName}</div>
+          <div className="text-gray-600">All invoices, payments and credit notes in the period</div>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+        {success && (
+          <div className="mb-4 rounded-md bg-green-50 p-3 text-sm text-green-700">{success}</div>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Billing Entity</label>
+            <select
+              value={billingEntity}
+              onChange={(e) => setBillingEntity(e.target.value)}
+              className="h-10 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm"
+            >
+              {billingEntities.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">From</label>
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">To</label>
+              <Input type="date" value={to} max={today} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Send To</label>
+            <Input
+              value={toEmails}
+              onChange={(e) => setToEmails(e.target.value)}
+              placeholder="Customer's billing email (default)"
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={handleDownload} disabled={!billingEntity}>
+              <Download className="mr-2 h-4 w-4" />
+              Download PDF
+            </Button>
+            <Button type="button" onClick={handleSend} disabled={isSending || !billingEntity}>
+              {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+              Email Statement
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { X, RotateCcw, Loader2 } from 'lucide-react';
+import { formatDateTime } from '@/lib/utils';
+
+export interface WebhookEvent {
+  id: string;
+  provider: string;
+  headers: Record<string, string>;
+  rawBody: string;
+  signatureValid: boolean | null;
+  providerRequestId: string | null;
+  paymentReference: string | null;
+  status: string;
+  outcome: string | null;
+  error: string | null;
+  replayCount: number;
+  processedAt: string | null;
+  createdAt: string;
+}
+
+const statusBadgeConfig: Record<string, { variant: 'default' | 'success' | 'destructive' | 'secondary' | 'warning'; label: string }> = {
+  RECEIVED: { variant: 'default', label: 'Received' },
+  PROCESSED: { variant: 'success', label: 'Processed' },
+  SKIPPED: { variant: 'secondary', label: 'Skipped' },
+  REJECTED: { variant: 'destructive', label: 'Rejected' },
+  FAILED: { variant: 'destructive', label: 'Failed' },
+};
+
+export function getStatusBadge(status: string) {
+  const config = statusBadgeConfig[status] || { variant: 'secondary' as const, label: status };
+  return <Badge variant={config.variant}>{config.label}</Badge>;
+}
+
+export function getSignatureBadge(signatureValid: boolean | null) {
+  if (signatureValid === null) return <Badge variant="secondary">Unchecked</Badge>;
+  return signatureValid ? <Badge variant="success">Valid</Badge> : <Badge variant="destructive">Invalid</Badge>;
+}
+
+interface WebhookEventDetailModalProps {
+  event: WebhookEvent | null;
+  isOpen: boolean;
+  replaying: boolean;
+  onReplay: (event: WebhookEvent) => void;
+  onClose: () => void;
+}
+
+// Show the body as formatted JSON when it parses
+function formatBody(rawBody: string): string {
+  try {
+    return JSON.stringify(JSON.parse(rawBody), null, 2);
+  } catch {
+    return rawBody;
+  }
+}
+
+export function WebhookEventDetailModal({ event, isOpen, replaying, onReplay, onClose }: WebhookEventDetailModalProps) {
+  if (!isOpen || !event) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Webhook Event</h2>
+            <p className="text-sm text-gray-600">
+              {event.provider} &middot; {formatDateTime(event.createdAt)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+                Status
+              </label>
+              {getStatusBadge(event.status)}
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+                Signature
+              </label>
+              {getSignatureBadge(event.signatureValid)}
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+                Outcome
+              </label>
+              <p className="text-sm text-gray-900">
+                {event.outcome ? event.outcome.replace(/_/g, ' ') : '-'}
+                {event.replayCount > 0 && (
+                  <span className="ml-1 text-gray-500">
+                    (replayed {event.replayCount}x)
+                  </span>
+                )}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+                Payment Request ID
+              </label>
+              <p className="text-gray-900 font-mono text-sm break-all">{event.providerRequestId || '-'}</p>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+                Payment ID
+              </label>
+              <p className="text-gray-900 font-mono text-sm break-all">{event.paymentReference || '-'}</p>
+            </div>
+          </div>
+
+          {event.error && (
+            <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+              {event.error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+              Headers
+            </label>
+            <pre className="bg-gray-50 border rounded-md p-3 text-xs text-gray-800 overflow-x-auto whitespace-pre-wrap">
+              {JSON.stringify(event.headers, null, 2)}
+            </pre>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+              Body
+            </label>
+            <pre className="bg-gray-50 border rounded-md p-3 text-xs text-gray-800 overflow-x-auto whitespace-pre-wrap">
+              {formatBody(event.rawBody)}
+            </pre>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t p-4 flex items-center justify-between">
+          <p className="text-xs text-gray-500">
+            Replaying processes the stored body and headers again. Payments already recorded are not recorded twice.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onClose}>
+              Close
+            </Button>
+            <Button size="sm" onClick={() => onReplay(event)} disabled={replaying}>
+              {replaying ? (
+                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-1 h-4 w-4" />
+              )}
+              Replay
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { Header } from '@/components/dashboard/header';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  WebhookEvent,
+  WebhookEventDetailModal,
+  getSignatureBadge,
+  getStatusBadge,
+} from './webhook-event-detail-modal';
+import {
+  RefreshCw,
+  Eye,
+  Loader2,
+  Search,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react';
+import { formatDateTime } from '@/lib/utils';
+
+const STATUS_OPTIONS = [
+  { value: 'PROCESSED', label: 'Processed' },
+  { value: 'SKIPPED', label: 'Skipped' },
+  { value: 'REJECTED', label: 'Rejected' },
+  { value: 'FAILED', label: 'Failed' },
+  { value: 'RECEIVED', label: 'Received' },
+];
+
+interface WebhookEventsResponse {
+  events: WebhookEvent[];
+  total: number;
+  totalPages: number;
+}
+
+export function WebhookEventsPage() {
+  const { data: session } = useSession();
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Pagination
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const limit = 20;
+
+  // Filters
+  const [statusFilter, setStatusFilter] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Detail modal
+  const [selectedEvent, setSelectedEvent] = useState<WebhookEvent | null>(null);
+  const [replaying, setReplaying] = useState(false);
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      params.set('page', page.toString());
+      params.set('limit', limit.toString());
+      if (statusFilter) params.set('status', statusFilter);
+      if (searchQuery) params.set('search', searchQuery);
+
+      const response = await fetch(`/api/webhook-events?${params}`);
+
+      if (!response.ok) {
+        if (response.status === 403) {
+          throw new Error('You do not have permission to view webhook events');
+        }
+        throw new Error('Failed to fetch webhook events');
+      }
+
+      const data: WebhookEventsResponse = await response.json();
+      setEvents(data.events);
+      setTotal(data.total);
+      setTotalPages(data.totalPages);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch webhook events');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, statusFilter, searchQuery]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const handleReplay = async (event: WebhookEvent) => {
+    if (!confirm('Process this webhook again?')) return;
+
+    try {
+      setReplaying(true);
+      const response = await fetch(`/api/webhook-events/${event.id}/replay`, { method: 'POST' });
+      const data: WebhookEvent & { error?: string } = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to replay webhook event');
+      }
+      setSelectedEvent(data);
+      await fetchEvents();
+    } catch (err) {
+      alert(`Error: ${err instanceof Error ? err.message : 'Failed to replay webhook event'}`);
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  const isAdmin = session?.user?.role === 'ADMIN';
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col">
+        <Header title="Webhooks" subtitle="Payment webhook events" />
+        <div className="flex-1 p-6">
+          <div className="rounded-md bg-red-50 p-4 text-red-700">
+            You do not have permission to access this page.
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col">
+      <Header title="Webhooks" subtitle="Every payment webhook received, with its verification and processing outcome" />
+
+      <div className="flex-1 space-y-6 p-6">
+        {/* Filters */}
+        <div className="rounded-lg border bg-white p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Status</label>
+              <Select
+                value={statusFilter}
+                onChange={(e) => {
+                  setStatusFilter(e.target.value);
+                  setPage(1);
+                }}
+              >
+                <option value="">All Statuses</option>
+                {STATUS_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-xs font-medium text-gray-500 mb-1">Search Payment Request or Payment ID</label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  type="text"
+                  placeholder="Search..."
+                  value={searchQuery}
+                  onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    setPage(1);
+                  }}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Header row */}
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">
+            Webhook Events
+            {loading && <Loader2 className="ml-2 inline h-4 w-4 animate-spin" />}
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              ({total} event{total !== 1 ? 's' : ''})
+            </span>
+          </h2>
+          <Button variant="outline" onClick={fetchEvents} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {/* Error message */}
+        {error && (
+          <div className="rounded-md bg-red-50 p-4 text-red-700">
+            Error: {error}
+          </div>
+        )}
+
+        {/* Table */}
+        <div className="rounded-lg border bg-white">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Provider</TableHead>
+                <TableHead>Payment Request ID</TableHead>
+                <TableHead>Signature</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Outcome</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.length === 0 && !loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center text-gray-500">
+                    No webhook events found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDateTime(event.createdAt)}
+                    </TableCell>
+                    <TableCell>{event.provider}</TableCell>
+                    <TableCell className="font-mono text-sm max-w-[200px] truncate" title={event.providerRequestId || ''}>
+                      {event.providerRequestId || '-'}
+                    </TableCell>
+                    <TableCell>{getSignatureBadge(event.signatureValid)}</TableCell>
+                    <TableCell>{getStatusBadge(event.status)}</TableCell>
+                    <TableCell className="text-sm text-gray-600" title={event.error || undefined}>
+                      {event.outcome ? event.outcome.replace(/_/g, ' ') : event.error ? 'Error' : '-'}
+                      {event.replayCount > 0 && (
+                        <span className="ml-1 text-xs text-gray-400">(replayed)</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelectedEvent(event)}
+                          title="View details"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              Showing {((page - 1) * limit) + 1} to {Math.min(page * limit, total)} of {total} events
+            </p>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page === 1 || loading}
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Previous
+              </Button>
+              <span className="text-sm text-gray-600">
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                disabled={page === totalPages || loading}
+              >
+                Next
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Detail Modal */}
+      <WebhookEventDetailModal
+        event={selectedEvent}
+        isOpen={!!selectedEvent}
+        replaying={replaying}
+        onReplay={handleReplay}
+        onClose={() => setSelectedEvent(null)}
+      />
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import Anthropic from '@anthropic-ai/sdk';
+import prisma from './prisma';
 import { chatToolDefinitions, executeTool } from './chat-tools';
 
 // Initialize the Anthropic client
@@ -10,8 +11,7 @@ const anthropic = new Anthropic({
 const SYSTEM_PROMPT = `You are a helpful billing assistant for YAHSHUA-ABBA, an accounting and payroll services firm in the Philippines. You help users query and understand their billing data, contracts, and invoices.
 
 ## Available Billing Entities
-- **YOWI** (YAHSHUA OUTSOURCING WORLDWIDE INC.) - Main billing entity
-- **ABBA** (THE ABBA INITIATIVE, OPC) - Secondary billing entity
+{{billingEntities}}
 
 ## Product Types
 The firm offers these services:
@@ -48,6 +48,16 @@ The firm offers these services:
 - "Any overdue accounts?"
 - "Search for payroll clients"`;
 
+// Fill the system prompt with the billing entities configured in the Company table
+async function buildSystemPrompt(): Promise<string> {
+  const companies = await prisma.company.findMany({
+    select: { code: true, name: true },
+    orderBy: { code: 'asc' },
+  });
+  const billingEntities = companies.map((c) => `- **${c.code}** (${c.name})`).join('\n');
+  return SYSTEM_PROMPT.replace('{{billingEntities}}', billingEntities);
+}
+
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
@@ -65,11 +75,13 @@ export async function processChat(
   }));
 
   try {
+    const systemPrompt = await buildSystemPrompt();
+
     // Initial API call with tools
     let response = await anthropic.messages.create({
       model: 'claude-sonnet-4-20250514',
       max_tokens: 1024,
-      system: SYSTEM_PROMPT,
+      system: systemPrompt,
       tools: chatToolDefinitions,
       messages: anthropicMessages,
     });
@@ -110,7 +122,7 @@ export async function processChat(
       response = await anthropic.messages.create({
         model: 'claude-sonnet-4-20250514',
         max_tokens: 1024,
-        system: SYSTEM_PROMPT,
+        system: systemPrompt,
         tools: chatToolDefinitions,
         messages: [
           ...anthropicMessages,
@@ -0,0 +1,275 @@
+// AR aging service - open receivables bucketed by days past due
+import prisma from './prisma';
+import { Prisma } from '@/generated/prisma';
+import { PAYABLE_STATUSES, calculateInvoiceBalance, sumCreditNotes } from './payment-service';
+
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90';
+export type AgingGroupBy = 'customer' | 'company' | 'partner' | 'productType';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1-30' },
+  { key: 'days31to60', label: '31-60' },
+  { key: 'days61to90', label: '61-90' },
+  { key: 'over90', label: '90+' },
+];
+
+export const AGING_GROUP_BY: AgingGroupBy[] = ['customer', 'company', 'partner', 'productType'];
+
+export type AgingBucketTotals = Record<AgingBucket, number>;
+
+export interface AgingInvoice {
+  id: string;
+  billingNo: string | null;
+  customerName: string;
+  billingEntity: string;
+  partner: string | null;
+  productType: string | null;
+  statementDate: Date;
+  dueDate: Date;
+  status: string;
+  netAmount: number;
+  totalPaid: number;
+  totalCredited: number;
+  balance: number;
+  daysOverdue: number;
+  bucket: AgingBucket;
+  groupKey: string;
+}
+
+export interface AgingGroup {
+  key: string;
+  label: string;
+  invoiceCount: number;
+  buckets: AgingBucketTotals;
+  total: number;
+}
+
+export interface ArAgingReport {
+  asOf: Date;
+  groupBy: AgingGroupBy;
+  groups: AgingGroup[];
+  totals: AgingBucketTotals & { total: number };
+  invoices: AgingInvoice[];
+}
+
+export interface ArAgingOptions {
+  asOf?: Date;
+  groupBy?: AgingGroupBy;
+  billingEntity?: string;
+}
+
+/**
+ * Parse the aging query parameters shared by the report and export routes
+ */
+export function parseArAgingParams(searchParams: URLSearchParams): ArAgingOptions | { error: string } {
+  const groupBy = (searchParams.get('groupBy') || 'customer') as AgingGroupBy;
+  if (!AGING_GROUP_BY.includes(groupBy)) {
+    return { error: 'Invalid groupBy. Must be customer, company, partner, or productType' };
+  }
+
+  const asOfParam = searchParams.get('asOf');
+  const asOf = asOfParam ? new Date(asOfParam) : new Date();
+  if (isNaN(asOf.getTime())) {
+    return { error: 'Invalid asOf date' };
+  }
+
+  return { asOf, groupBy, billingEntity: searchParams.get('billingEntity') || undefined };
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function emptyBuckets(): AgingBucketTotals {
+  return { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0 };
+}
+
+/**
+ * Whole days between the due date and the as-of date (0 when not yet due)
+ */
+export function getDaysPastDue(dueDate: Date, asOf: Date): number {
+  const start = new Date(dueDate);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(asOf);
+  end.setHours(0, 0, 0, 0);
+  return Math.max(0, Math.floor((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)));
+}
+
+/**
+ * Map days past due to an aging bucket
+ */
+export function getAgingBucket(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days1to30';
+  if (daysPastDue <= 60) return 'days31to60';
+  if (daysPastDue <= 90) return 'days61to90';
+  return 'over90';
+}
+
+function getGroup(
+  invoice: { customerName: string; productType: string | null },
+  company: { id: string; code: string },
+  partner: { id: string; name: string } | null,
+  groupBy: AgingGroupBy
+): { key: string; label: string } {
+  switch (groupBy) {
+    case 'company':
+      return { key: company.id, label: company.code };
+    case 'partner':
+      return partner ? { key: partner.id, label: partner.name } : { key: 'direct', label: 'Direct (no partner)' };
+    case 'productType':
+      return { key: invoice.productType || 'unassigned', label: invoice.productType || 'Unassigned' };
+    default:
+      return { key: invoice.customerName.trim().toUpperCase(), label: invoice.customerName };
+  }
+}
+
+/**
+ * Build the AR aging report.
+ * Amounts are the net receivable after withholding, less recorded payments and issued credit notes.
+ */
+export async function getArAging(options: ArAgingOptions = {}): Promise<ArAgingReport> {
+  const asOf = options.asOf || new Date();
+  const groupBy = options.groupBy || 'customer';
+
+  const asOfEnd = new Date(asOf);
+  asOfEnd.setHours(23, 59, 59, 999);
+
+  const where: Prisma.InvoiceWhereInput = {
+    status: { in: PAYABLE_STATUSES },
+    statementDate: { lte: asOfEnd },
+    ...(options.billingEntity && { company: { code: options.billingEntity } }),
+  };
+
+  const invoices = await prisma.invoice.findMany({
+    where,
+    select: {
+      id: true,
+      billingNo: true,
+      customerName: true,
+      productType: true,
+      statementDate: true,
+      dueDate: true,
+      status: true,
+      netAmount: true,
+      company: { select: { id: true, code: true } },
+      partner: { select: { id: true, name: true } },
+      payments: { select: { amount: true, paidAt: true, reversedAt: true } },
+      creditNotes: { where: { status: 'ISSUED' }, select: { amount: true } },
+    },
+    orderBy: { dueDate: 'asc' },
+  });
+
+  const groups = new Map<string, AgingGroup>();
+  const totals = { ...emptyBuckets(), total: 0 };
+  const rows: AgingInvoice[] = [];
+
+  for (const invoice of invoices) {
+    const balance = calculateInvoiceBalance(
+      invoice.netAmount,
+      invoice.payments,
+      sumCreditNotes(invoice.creditNotes)
+    );
+    if (balance.balance <= 0) continue;
+
+    const daysOverdue = getDaysPastDue(invoice.dueDate, asOf);
+    const bucket = getAgingBucket(daysOverdue);
+    const group = getGroup(invoice, invoice.company, invoice.partner, groupBy);
+
+    if (!groups.has(group.key)) {
+      groups.set(group.key, { ...group, invoiceCount: 0, buckets: emptyBuckets(), total: 0 });
+    }
+    const entry = groups.get(group.key)!;
+    entry.invoiceCount++;
+    entry.buckets[bucket] = roundCurrency(entry.buckets[bucket] + balance.balance);
+    entry.total = roundCurrency(entry.total + balance.balance);
+    totals[bucket] = roundCurrency(totals[bucket] + balance.balance);
+    totals.total = roundCurrency(totals.total + balance.balance);
+
+    rows.push({
+      id: invoice.id,
+      billingNo: invoice.billingNo,
+      customerName: invoice.customerName,
+      billingEntity: invoice.company.code,
+      partner: invoice.partner?.name || null,
+      productType: invoice.productType,
+      statementDate: invoice.statementDate,
+      dueDate: invoice.dueDate,
+      status: invoice.status,
+      netAmount: balance.totalDue,
+      totalPaid: balance.totalPaid,
+      totalCredited: balance.totalCredited,
+      balance: balance.balance,
+      daysOverdue,
+      bucket,
+      groupKey: group.key,
+    });
+  }
+
+  return {
+    asOf,
+    groupBy,
+    groups: Array.from(groups.values()).sort((a, b) => b.total - a.total),
+    totals,
+    invoices: rows,
+  };
+}
+
+function escapeCsv(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render the aging summary and invoice detail as CSV
+ */
+export function generateArAgingCsv(report: ArAgingReport): string {
+  const bucketLabels = AGING_BUCKETS.map((b) => b.label);
+  const lines: string[] = [];
+
+  lines.push(['Group', 'Invoices', ...bucketLabels, 'Total'].map(escapeCsv).join(','));
+  for (const group of report.groups) {
+    lines.push(
+      [group.label, group.invoiceCount, ...AGING_BUCKETS.map((b) => group.buckets[b.key].toFixed(2)), group.total.toFixed(2)]
+        .map(escapeCsv)
+        .join(',')
+    );
+  }
+  lines.push(
+    ['TOTAL', report.invoices.length, ...AGING_BUCKETS.map((b) => report.totals[b.key].toFixed(2)), report.totals.total.toFixed(2)]
+      .map(escapeCsv)
+      .join(',')
+  );
+
+  lines.push('');
+  lines.push(
+    ['Billing No', 'Customer', 'Billing Entity', 'Partner', 'Product Type', 'Statement Date', 'Due Date', 'Days Past Due', 'Bucket', 'Net Amount', 'Paid', 'Credited', 'Balance']
+      .map(escapeCsv)
+      .join(',')
+  );
+  const bucketLabel = new Map(AGING_BUCKETS.map((b) => [b.key, b.label]));
+  for (const invoice of report.invoices) {
+    lines.push(
+      [
+        invoice.billingNo,
+        invoice.customerName,
+        invoice.billingEntity,
+        invoice.partner,
+        invoice.productType,
+        invoice.statementDate.toISOString().split('T')[0],
+        invoice.dueDate.toISOString().split('T')[0],
+        invoice.daysOverdue,
+        bucketLabel.get(invoice.bucket) || invoice.bucket,
+        invoice.netAmount.toFixed(2),
+        invoice.totalPaid.toFixed(2),
+        invoice.totalCredited.toFixed(2),
+        invoice.balance.toFixed(2),
+      ]
+        .map(escapeCsv)
+        .join(',')
+    );
+  }
+
+  return lines.join('\n');
+}
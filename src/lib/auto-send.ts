@@ -9,7 +9,7 @@ import { getSOASettings, getInvoiceTemplate, clearTemplateCache } from './settin
 import { generateInvoicePdfLib } from './pdf-generator';
 import {
   initEmailServiceFromEnv,
-  sendBillingEmail,
+  queueBillingEmail,
   getEmailTemplateForPartner,
   generateEmailSubjectFromTemplate,
   generateEmailBodyFromTemplate,
@@ -25,12 +25,12 @@ export interface AutoSendResult {
   invoiceId: string;
   billingNo?: string;
   sentTo?: string;
-  messageId?: string;
+  emailLogId?: string; // Outbox entry; delivery happens in the email queue worker
   error?: string;
 }
 
 /**
- * Auto-send an invoice (generate PDF and send email)
+ * Auto-send an invoice (generate PDF and queue the email for delivery)
  * This function is called by the scheduler for MONTHLY/QUARTERLY invoices
  */
 export async function autoSendInvoice(invoiceId: string): Promise<AutoSendResult> {
@@ -93,7 +93,7 @@ export async function autoSendInvoice(invoiceId: string): Promise<AutoSendResult
     initEmailServiceFromEnv();
 
     // Get SOA settings and invoice template
-    const companyCode = invoice.company?.code === 'YOWI' ? 'YOWI' : 'ABBA';
+    const companyCode = invoice.company.code;
 
     // Clear template cache to ensure we always use the latest template
     clearTemplateCache();
@@ -130,7 +130,7 @@ export async function autoSendInvoice(invoiceId: string): Promise<AutoSendResult
       totalAmount: formatCurrency(Number(invoice.netAmount)),
       periodStart: formatDate(invoice.periodStart),
       periodEnd: formatDate(invoice.periodEnd),
-      companyName: invoice.company?.name || 'YAHSHUA-ABBA',
+      companyName: invoice.company.name,
       clientCompanyName,
     };
 
@@ -145,8 +145,8 @@ export async function autoSendInvoice(invoiceId: string): Promise<AutoSendResult
       contentType: att.mimeType,
     }));
 
-    // Send email to all valid recipients
-    const result = await sendBillingEmail(
+    // Queue the email for all valid recipients; the email queue worker delivers it
+    const result = await queueBillingEmail(
       invoice.id,
       validEmails,
       subject,
@@ -162,7 +162,7 @@ export async function autoSendInvoice(invoiceId: string): Promise<AutoSendResult
         success: false,
         invoiceId,
         billingNo,
-        error: result.error || 'Failed to send email',
+        error: result.error || 'Failed to queue email',
       };
     }
 
@@ -184,7 +184,7 @@ export async function autoSendInvoice(invoiceId: string): Promise<AutoSendResult
         details: {
           invoiceNo: billingNo,
           sentTo: validEmails.join(', '),
-          messageId: result.messageId,
+          emailLogId: result.emailLogId,
           attachmentCount: additionalAttachments.length,
           automated: true,
         },
@@ -199,14 +199,14 @@ export async function autoSendInvoice(invoiceId: string): Promise<AutoSendResult
       customerEmail: validEmails[0],  // Use first email for notification
     });
 
-    console.log(`[Auto-Send] Successfully sent invoice ${billingNo} to ${validEmails.join(', ')}`);
+    console.log(`[Auto-Send] Queued invoice ${billingNo} to ${validEmails.join(', ')}`);
 
     return {
       success: true,
       invoiceId,
       billingNo,
       sentTo: validEmails.join(', '),
-      messageId: result.messageId,
+      emailLogId: result.emailLogId,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -0,0 +1,673 @@
+// Bank reconciliation service - stages imported bank statement lines and matches them to invoices as payments
+import crypto from 'crypto';
+import prisma from './prisma';
+import { BankLineStatus, BankMatchStatus, Prisma } from '@/generated/prisma';
+import { BankColumnMapping, BankStatementCSVRow } from './csv-parser';
+import {
+  PAYABLE_STATUSES,
+  calculateInvoiceBalance,
+  sumCreditNotes,
+  recordPaymentInTransaction,
+  notifyPaymentRecorded,
+  RecordPaymentResult,
+} from './payment-service';
+
+// ==================== STATEMENT FORMATS ====================
+
+export type BankPresetName = 'BDO' | 'BPI' | 'METROBANK';
+export type BankStatementFormat = BankPresetName | 'CUSTOM';
+
+// Column layouts of the banks' CSV statement exports
+export const BANK_STATEMENT_PRESETS: Record<BankPresetName, { label: string; mapping: BankColumnMapping }> = {
+  BDO: {
+    label: 'BDO',
+    mapping: { date: 'Posting Date', description: 'Description', reference: 'Check Number', debit: 'Debit', credit: 'Credit' },
+  },
+  BPI: {
+    label: 'BPI',
+    mapping: { date: 'Date', description: 'Description', reference: 'Reference Number', debit: 'Debit Amount', credit: 'Credit Amount' },
+  },
+  METROBANK: {
+    label: 'Metrobank',
+    mapping: { date: 'Transaction Date', description: 'Transaction Description', reference: 'Reference No.', debit: 'Withdrawals', credit: 'Deposits' },
+  },
+};
+
+export function isBankStatementFormat(value: string): value is BankStatementFormat {
+  return value === 'CUSTOM' || value in BANK_STATEMENT_PRESETS;
+}
+
+/**
+ * The column mapping for a statement format. Custom statements bring their own mapping.
+ */
+export function getBankColumnMapping(format: BankStatementFormat, custom?: Partial<BankColumnMapping> | null): BankColumnMapping {
+  if (format !== 'CUSTOM') {
+    return BANK_STATEMENT_PRESETS[format].mapping;
+  }
+
+  if (!custom?.date || !custom.description || (!custom.credit && !custom.amount)) {
+    throw new Error('Custom column mapping needs date, description and a credit or amount column');
+  }
+
+  return {
+    date: custom.date,
+    description: custom.description,
+    credit: custom.credit || undefined,
+    debit: custom.debit || undefined,
+    amount: custom.amount || undefined,
+    reference: custom.reference || undefined,
+    dateFormat: custom.dateFormat === 'DMY' ? 'DMY' : 'MDY',
+  };
+}
+
+// ==================== MATCHING ====================
+
+// Proposals scoring below this are left for manual matching
+export const MIN_MATCH_SCORE = 50;
+
+const AMOUNT_TOLERANCE = 0.01;
+
+// Words that don't identify a customer
+const NAME_STOPWORDS = new Set([
+  'inc', 'corp', 'corporation', 'co', 'company', 'ltd', 'llc', 'opc', 'the', 'of', 'and',
+  'phils', 'philippines', 'ph',
+]);
+
+export interface MatchableInvoice {
+  id: string;
+  billingNo: string | null;
+  customerName: string;
+  companyId: string;
+  dueDate: Date;
+  balance: number; // Outstanding, net of withholding
+  withholdingTax: number;
+}
+
+export interface BankLineForMatching {
+  amount: number;
+  description: string;
+  reference?: string | null;
+}
+
+export interface ProposedAllocation {
+  invoiceId: string;
+  amount: number;
+  score: number;
+  reasons: string[];
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function amountsEqual(a: number, b: number): boolean {
+  return Math.abs(a - b) <= AMOUNT_TOLERANCE;
+}
+
+function alphanumeric(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function nameTokens(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !NAME_STOPWORDS.has(token));
+}
+
+/**
+ * Share of the customer name's words found in the bank narrative (0-1).
+ * Narratives are often truncated, so words missing from the end of the narrative still count.
+ */
+export function customerNameSimilarity(customerName: string, narrative: string): number {
+  const customer = nameTokens(customerName);
+  if (customer.length === 0) return 0;
+
+  const narrativeTokens = nameTokens(narrative);
+  const found = customer.filter((token) =>
+    narrativeTokens.some((word) => word === token || (word.length >= 4 && token.startsWith(word)))
+  );
+  return found.length / customer.length;
+}
+
+function hasBillingNo(invoice: MatchableInvoice, narrative: string): boolean {
+  const billingNo = invoice.billingNo ? alphanumeric(invoice.billingNo) : '';
+  return billingNo.length >= 4 && narrative.includes(billingNo);
+}
+
+/**
+ * Score how well a bank credit matches an invoice, out of 100:
+ * amount (the balance, or the gross before withholding), billing number in the narrative
+ * and customer name similarity.
+ */
+export function scoreInvoiceMatch(
+  line: BankLineForMatching,
+  invoice: MatchableInvoice
+): { score: number; reasons: string[]; amount: number } {
+  const narrative = alphanumeric(`${line.description} ${line.reference || ''}`);
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (amountsEqual(line.amount, invoice.balance)) {
+    score += 50;
+    reasons.push('Amount matches the balance');
+  } else if (invoice.withholdingTax > 0 && amountsEqual(line.amount, invoice.balance + invoice.withholdingTax)) {
+    // Paid in full without deducting withholding tax
+    score += 40;
+    reasons.push('Amount matches the gross before withholding');
+  }
+
+  if (hasBillingNo(invoice, narrative)) {
+    score += 40;
+    reasons.push('Billing number in description');
+  }
+
+  const similarity = customerNameSimilarity(invoice.customerName, `${line.description} ${line.reference || ''}`);
+  if (similarity >= 0.5) {
+    score += Math.round(30 * similarity);
+    reasons.push(`Customer name ${Math.round(similarity * 100)}% similar`);
+  }
+
+  return {
+    score: Math.min(100, score),
+    reasons,
+    amount: roundCurrency(Math.min(line.amount, invoice.balance)),
+  };
+}
+
+/**
+ * Propose how to apply a bank credit: one invoice, or several when the narrative names
+ * several billing numbers whose balances add up to the credit. Among equally good matches
+ * the invoice due first is proposed, since customers usually pay the oldest invoice.
+ */
+export function proposeBankLineMatch(
+  line: BankLineForMatching,
+  invoices: MatchableInvoice[]
+): ProposedAllocation[] {
+  const candidates = invoices.filter((invoice) => invoice.balance > 0);
+  const narrative = alphanumeric(`${line.description} ${line.reference || ''}`);
+
+  // One transfer settling several invoices
+  const named = candidates.filter((invoice) => hasBillingNo(invoice, narrative));
+  if (named.length > 1) {
+    const net = roundCurrency(named.reduce((sum, invoice) => sum + invoice.balance, 0));
+    const gross = roundCurrency(named.reduce((sum, invoice) => sum + invoice.balance + invoice.withholdingTax, 0));
+    if (amountsEqual(line.amount, net) || amountsEqual(line.amount, gross)) {
+      return named.map((invoice) => ({
+        invoiceId: invoice.id,
+        amount: invoice.balance,
+        score: 90,
+        reasons: ['Billing number in description', `Amount matches the total of ${named.length} invoices`],
+      }));
+    }
+  }
+
+  const scored = candidates
+    .map((invoice) => ({ invoice, ...scoreInvoiceMatch(line, invoice) }))
+    .filter((match) => match.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score || a.invoice.dueDate.getTime() - b.invoice.dueDate.getTime());
+
+  if (scored.length === 0) return [];
+
+  const [best] = scored;
+  const tied = scored.filter((match) => match.score === best.score).length;
+  const reasons = tied > 1 ? [...best.reasons, `Oldest of ${tied} equally likely invoices`] : best.reasons;
+
+  return [{ invoiceId: best.invoice.id, amount: best.amount, score: best.score, reasons }];
+}
+
+/**
+ * Open invoices that bank credits can be applied to, with their outstanding balances
+ */
+export async function getMatchableInvoices(
+  filters: { companyId?: string | null; search?: string; limit?: number } = {}
+): Promise<MatchableInvoice[]> {
+  const where: Prisma.InvoiceWhereInput = { status: { in: PAYABLE_STATUSES } };
+  if (filters.companyId) where.companyId = filters.companyId;
+  if (filters.search) {
+    where.OR = [
+      { billingNo: { contains: filters.search, mode: 'insensitive' } },
+      { customerName: { contains: filters.search, mode: 'insensitive' } },
+    ];
+  }
+
+  const invoices = await prisma.invoice.findMany({
+    where,
+    select: {
+      id: true,
+      billingNo: true,
+      customerName: true,
+      companyId: true,
+      dueDate: true,
+      netAmount: true,
+      withholdingTax: true,
+      payments: { select: { amount: true, paidAt: true, reversedAt: true } },
+      creditNotes: { where: { status: 'ISSUED' }, select: { amount: true } },
+    },
+    orderBy: { dueDate: 'asc' },
+    ...(filters.limit && { take: filters.limit }),
+  });
+
+  return invoices.map((invoice) => ({
+    id: invoice.id,
+    billingNo: invoice.billingNo,
+    customerName: invoice.customerName,
+    companyId: invoice.companyId,
+    dueDate: invoice.dueDate,
+    balance: calculateInvoiceBalance(invoice.netAmount, invoice.payments, sumCreditNotes(invoice.creditNotes)).balance,
+    withholdingTax: Number(invoice.withholdingTax),
+  }));
+}
+
+// Matches already settled on a line: rejected proposals and reversed payments aren't proposed again,
+// and confirmed payments (the rest of a partly reversed split) use up part of the line
+const SETTLED_MATCH_STATUSES = [BankMatchStatus.CONFIRMED, BankMatchStatus.REJECTED, BankMatchStatus.REVERSED];
+
+function sumConfirmed(matches: { status: BankMatchStatus; amount: Prisma.Decimal | number }[]): number {
+  return roundCurrency(
+    matches.filter((m) => m.status === BankMatchStatus.CONFIRMED).reduce((sum, m) => sum + Number(m.amount), 0)
+  );
+}
+
+/**
+ * Propose matches for unmatched bank lines. Invoices rejected for a line aren't proposed for it again,
+ * and balances already proposed for other lines are held back so two credits don't claim the same invoice.
+ * Returns the number of lines that received a proposal.
+ */
+export async function autoMatchBankLines(filters: { statementId?: string } = {}): Promise<number> {
+  const lines = await prisma.bankStatementLine.findMany({
+    where: { status: BankLineStatus.UNMATCHED, ...(filters.statementId && { statementId: filters.statementId }) },
+    include: {
+      statement: { select: { companyId: true } },
+      matches: { where: { status: { in: SETTLED_MATCH_STATUSES } }, select: { invoiceId: true, status: true, amount: true } },
+    },
+    orderBy: { transactionDate: 'asc' },
+  });
+  if (lines.length === 0) return 0;
+
+  const [invoices, pending] = await Promise.all([
+    getMatchableInvoices(),
+    prisma.bankLineMatch.findMany({
+      where: { status: BankMatchStatus.PROPOSED },
+      select: { invoiceId: true, amount: true },
+    }),
+  ]);
+
+  const remaining = new Map(invoices.map((invoice) => [invoice.id, invoice.balance]));
+  for (const match of pending) {
+    remaining.set(match.invoiceId, roundCurrency((remaining.get(match.invoiceId) ?? 0) - Number(match.amount)));
+  }
+
+  let proposed = 0;
+  for (const line of lines) {
+    const settled = new Set(line.matches.map((m) => m.invoiceId));
+    const amount = roundCurrency(Number(line.amount) - sumConfirmed(line.matches));
+    if (amount <= 0) continue;
+
+    const candidates = invoices
+      .filter((invoice) => !settled.has(invoice.id))
+      .filter((invoice) => !line.statement.companyId || invoice.companyId === line.statement.companyId)
+      .map((invoice) => ({ ...invoice, balance: remaining.get(invoice.id) ?? 0 }));
+
+    const allocations = proposeBankLineMatch(
+      { amount, description: line.description, reference: line.reference },
+      candidates
+    );
+    if (allocations.length === 0) continue;
+
+    await prisma.$transaction([
+      prisma.bankLineMatch.createMany({
+        data: allocations.map((allocation) => ({ lineId: line.id, ...allocation })),
+      }),
+      prisma.bankStatementLine.update({
+        where: { id: line.id },
+        data: { status: BankLineStatus.PROPOSED },
+      }),
+    ]);
+
+    for (const allocation of allocations) {
+      remaining.set(allocation.invoiceId, roundCurrency((remaining.get(allocation.invoiceId) ?? 0) - allocation.amount));
+    }
+    proposed++;
+  }
+
+  return proposed;
+}
+
+// ==================== IMPORT ====================
+
+export interface ImportBankStatementInput {
+  fileName: string;
+  format: BankStatementFormat;
+  mapping: BankColumnMapping;
+  companyId?: string | null;
+  rows: BankStatementCSVRow[];
+}
+
+export interface ImportBankStatementResult {
+  statementId: string;
+  imported: number;
+  duplicates: number; // Lines already imported from an overlapping statement
+  proposed: number;
+}
+
+/**
+ * Fingerprints identify a credit across overlapping statements. Identical credits on the same day
+ * are told apart by their order in the file.
+ */
+function fingerprintRows(rows: BankStatementCSVRow[], companyId?: string | null): string[] {
+  const seen = new Map<string, number>();
+  return rows.map((row) => {
+    const key = [
+      companyId || '',
+      row.transactionDate.toISOString().slice(0, 10),
+      row.amount.toFixed(2),
+      row.description.toUpperCase().replace(/\s+/g, ' '),
+      row.reference || '',
+    ].join('|');
+    const occurrence = (seen.get(key) ?? 0) + 1;
+    seen.set(key, occurrence);
+    return crypto.createHash('sha256').update(`${key}|${occurrence}`).digest('hex');
+  });
+}
+
+/**
+ * Stage a parsed bank statement's credit lines and propose invoice matches for them
+ */
+export async function importBankStatement(
+  input: ImportBankStatementInput,
+  userId?: string | null
+): Promise<ImportBankStatementResult> {
+  const fingerprints = fingerprintRows(input.rows, input.companyId);
+  const existing = await prisma.bankStatementLine.findMany({
+    where: { fingerprint: { in: fingerprints } },
+    select: { fingerprint: true },
+  });
+  const known = new Set(existing.map((line) => line.fingerprint));
+  const newLines = input.rows
+    .map((row, i) => ({ row, fingerprint: fingerprints[i] }))
+    .filter(({ fingerprint }) => !known.has(fingerprint));
+
+  const statement = await prisma.bankStatement.create({
+    data: {
+      companyId: input.companyId || null,
+      bank: input.format,
+      fileName: input.fileName,
+      columnMapping: input.mapping as unknown as Prisma.InputJsonValue,
+      totalLines: newLines.length,
+      importedById: userId || null,
+      lines: {
+        create: newLines.map(({ row, fingerprint }) => ({
+          rowNumber: row.row,
+          transactionDate: row.transactionDate,
+          description: row.description,
+          reference: row.reference || null,
+          amount: row.amount,
+          fingerprint,
+        })),
+      },
+    },
+  });
+
+  const proposed = newLines.length > 0 ? await autoMatchBankLines({ statementId: statement.id }) : 0;
+
+  await prisma.auditLog.create({
+    data: {
+      userId: userId || null,
+      action: 'BANK_STATEMENT_IMPORTED',
+      entityType: 'BankStatement',
+      entityId: statement.id,
+      details: {
+        fileName: input.fileName,
+        bank: input.format,
+        imported: newLines.length,
+        duplicates: input.rows.length - newLines.length,
+        proposed,
+      },
+    },
+  });
+
+  return {
+    statementId: statement.id,
+    imported: newLines.length,
+    duplicates: input.rows.length - newLines.length,
+    proposed,
+  };
+}
+
+// ==================== RECONCILIATION ====================
+
+export interface BankLineAllocation {
+  invoiceId: string;
+  amount: number;
+}
+
+/**
+ * Confirm a bank line into payments. Without allocations the proposed matches are confirmed as-is;
+ * with allocations the line is matched (or split across invoices) manually and the proposals are rejected.
+ * A line freed by reversing its payments can be confirmed again; payments still standing on it use up part of its amount.
+ */
+export async function confirmBankLine(
+  lineId: string,
+  allocations: BankLineAllocation[] | null,
+  userId: string
+): Promise<{ lineId: string; payments: RecordPaymentResult[]; unapplied: number }> {
+  const { payments, applied, unapplied } = await prisma.$transaction(async (tx) => {
+    const line = await tx.bankStatementLine.findUnique({
+      where: { id: lineId },
+      include: { matches: { where: { status: { in: [BankMatchStatus.PROPOSED, BankMatchStatus.CONFIRMED] } } } },
+    });
+
+    if (!line) {
+      throw new Error('Bank line not found');
+    }
+
+    if (line.status === BankLineStatus.CONFIRMED) {
+      throw new Error('Bank line has already been confirmed');
+    }
+
+    const proposals = line.matches.filter((m) => m.status === BankMatchStatus.PROPOSED);
+    const applied = allocations ?? proposals.map((m) => ({ invoiceId: m.invoiceId, amount: Number(m.amount) }));
+    if (applied.length === 0) {
+      throw new Error('No matches to confirm');
+    }
+
+    if (new Set(applied.map((a) => a.invoiceId)).size !== applied.length) {
+      throw new Error('Each invoice can only be matched once per bank line');
+    }
+
+    if (applied.some((a) => !a.amount || a.amount <= 0)) {
+      throw new Error('Valid amount is required for each invoice');
+    }
+
+    const available = roundCurrency(Number(line.amount) - sumConfirmed(line.matches));
+    const total = roundCurrency(applied.reduce((sum, a) => sum + a.amount, 0));
+    if (total - available > AMOUNT_TOLERANCE) {
+      throw new Error(
+        `Matches of ${total.toFixed(2)} exceed the bank line amount of ${available.toFixed(2)}`
+      );
+    }
+
+    // Proposals not kept are rejected so the matcher doesn't offer them again
+    await tx.bankLineMatch.updateMany({
+      where: { lineId, status: BankMatchStatus.PROPOSED, invoiceId: { notIn: applied.map((a) => a.invoiceId) } },
+      data: { status: BankMatchStatus.REJECTED },
+    });
+
+    const recorded: RecordPaymentResult[] = [];
+    for (const allocation of applied) {
+      const proposal = proposals.find((m) => m.invoiceId === allocation.invoiceId);
+      const match = proposal ?? await tx.bankLineMatch.create({
+        data: {
+          lineId,
+          invoiceId: allocation.invoiceId,
+          amount: allocation.amount,
+          score: 100,
+          reasons: ['Matched manually'],
+        },
+      });
+
+      const result = await recordPaymentInTransaction(
+        tx,
+        allocation.invoiceId,
+        {
+          amount: allocation.amount,
+          paymentMethod: 'BANK_TRANSFER',
+          reference: line.reference || line.description.slice(0, 100),
+          paidAt: line.transactionDate,
+          notes: `Bank statement: ${line.description}`,
+          source: 'BANK_IMPORT',
+          // One payment per match, so a line can be confirmed again after its payment is reversed
+          externalId: `${line.id}:${match.id}`,
+        },
+        userId
+      );
+      recorded.push(result);
+
+      await tx.bankLineMatch.update({
+        where: { id: match.id },
+        data: { status: BankMatchStatus.CONFIRMED, amount: allocation.amount, paymentId: result.paymentId },
+      });
+    }
+
+    // Kept on the line rather than dropped, e.g. a customer paying the gross without deducting withholding
+    const unapplied = roundCurrency(available - total);
+
+    await tx.bankStatementLine.update({
+      where: { id: lineId },
+      data: {
+        status: BankLineStatus.CONFIRMED,
+        unappliedAmount: unapplied,
+        resolvedById: userId,
+        resolvedAt: new Date(),
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'BANK_LINE_CONFIRMED',
+        entityType: 'BankStatementLine',
+        entityId: lineId,
+        details: {
+          description: line.description,
+          amount: Number(line.amount),
+          invoices: recorded.map((r, i) => ({ billingNo: r.billingNo, amount: applied[i].amount })),
+          unapplied,
+        },
+      },
+    });
+
+    return { payments: recorded, applied, unapplied };
+  });
+
+  // Send notifications (outside transaction)
+  for (const [i, result] of payments.entries()) {
+    await notifyPaymentRecorded(result, applied[i].amount, 'BANK_TRANSFER');
+  }
+
+  return { lineId, payments, unapplied };
+}
+
+/**
+ * Reject a bank line's proposed matches. The line goes back to unmatched for manual matching,
+ * or is ignored when it isn't a customer payment (interest, refunds, internal transfers).
+ */
+export async function rejectBankLine(lineId: string, options: { ignore?: boolean }, userId: string) {
+  return prisma.$transaction(async (tx) => {
+    const line = await tx.bankStatementLine.findUnique({ where: { id: lineId } });
+
+    if (!line) {
+      throw new Error('Bank line not found');
+    }
+
+    if (line.status === BankLineStatus.CONFIRMED) {
+      throw new Error('Bank line has already been confirmed. Reverse its payments instead.');
+    }
+
+    await tx.bankLineMatch.updateMany({
+      where: { lineId, status: BankMatchStatus.PROPOSED },
+      data: { status: BankMatchStatus.REJECTED },
+    });
+
+    const updated = await tx.bankStatementLine.update({
+      where: { id: lineId },
+      data: options.ignore
+        ? { status: BankLineStatus.IGNORED, resolvedById: userId, resolvedAt: new Date() }
+        : { status: BankLineStatus.UNMATCHED, resolvedById: null, resolvedAt: null },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: options.ignore ? 'BANK_LINE_IGNORED' : 'BANK_LINE_REJECTED',
+        entityType: 'BankStatementLine',
+        entityId: lineId,
+        details: { description: line.description, amount: Number(line.amount) },
+      },
+    });
+
+    return updated;
+  });
+}
+
+export interface BankLineFilters {
+  status?: BankLineStatus;
+  statementId?: string;
+  search?: string; // Description or reference
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Staged bank lines with their proposed or confirmed matches, newest first
+ */
+export async function listBankLines(filters: BankLineFilters = {}) {
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(100, Math.max(1, filters.limit || 50));
+
+  const where: Prisma.BankStatementLineWhereInput = {};
+  if (filters.status) where.status = filters.status;
+  if (filters.statementId) where.statementId = filters.statementId;
+  if (filters.search) {
+    where.OR = [
+      { description: { contains: filters.search, mode: 'insensitive' } },
+      { reference: { contains: filters.search, mode: 'insensitive' } },
+    ];
+  }
+
+  const [total, lines] = await Promise.all([
+    prisma.bankStatementLine.count({ where }),
+    prisma.bankStatementLine.findMany({
+      where,
+      include: {
+        statement: { select: { id: true, bank: true, fileName: true } },
+        matches: {
+          where: { status: { in: [BankMatchStatus.PROPOSED, BankMatchStatus.CONFIRMED] } },
+          include: {
+            invoice: { select: { id: true, billingNo: true, customerName: true, netAmount: true, status: true } },
+          },
+        },
+      },
+      orderBy: [{ transactionDate: 'desc' }, { rowNumber: 'asc' }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+  ]);
+
+  return { lines, total, page, limit, totalPages: Math.ceil(total / limit) };
+}
+
+/**
+ * Imported statements, newest first
+ */
+export async function listBankStatements(limit = 20) {
+  return prisma.bankStatement.findMany({
+    include: {
+      company: { select: { code: true } },
+      importedBy: { select: { name: true, email: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
@@ -0,0 +1,353 @@
+// Billing forecast service - simulates the invoices the scheduler will create, without writing anything
+import prisma from './prisma';
+import { BusinessDayRule, InvoiceStatus, Prisma, ScheduleBillingMode, ScheduleStatus, VatType } from '@/generated/prisma';
+import { calculateBilling } from './utils';
+import { getVatRate } from './settings';
+import { calculateNextBillingDate, getFollowingBillingDate } from './scheduled-billing-service';
+import { getScheduledBillingPeriod, getScheduledBillingProration } from './invoice-generator';
+import { getEffectiveBillingAmount } from './price-change-service';
+import {
+  DEFAULT_USAGE_METRIC,
+  DEFAULT_USAGE_UNIT,
+  UsageEntry,
+  calculateUsageCharge,
+  getScheduleUsagePricing,
+  startOfMonth,
+} from './usage-billing-service';
+import { MAX_BUSINESS_DAY_SHIFT, adjustToBusinessDay, getHolidayCalendar } from './business-calendar-service';
+import { businessNow } from './business-time';
+import { addDays, format } from 'date-fns';
+
+export const FORECAST_MAX_DAYS = 366;
+
+export interface ForecastInvoice {
+  scheduledBillingId: string;
+  billingDate: Date;
+  customerName: string;
+  billingEntity: string;
+  productType: string;
+  description: string;
+  periodStart: Date;
+  periodEnd: Date;
+  dueDate: Date;
+  serviceFee: number;
+  vatAmount: number;
+  withholdingTax: number;
+  netAmount: number;
+  autoApprove: boolean;
+  autoSendEnabled: boolean;
+  isCatchUp: boolean; // Billing date already passed; the next scheduler run bills it
+}
+
+export interface ForecastTotals {
+  invoiceCount: number;
+  serviceFee: number;
+  vatAmount: number;
+  withholdingTax: number;
+  netAmount: number;
+}
+
+export interface ForecastGroup extends ForecastTotals {
+  key: string;
+}
+
+export interface BillingForecast {
+  from: Date;
+  to: Date;
+  days: number;
+  invoices: ForecastInvoice[];
+  byEntity: ForecastGroup[];
+  byProductType: ForecastGroup[];
+  totals: ForecastTotals;
+}
+
+export interface BillingForecastOptions {
+  days?: number;
+  billingEntity?: string;
+  from?: Date;
+}
+
+/**
+ * Parse the forecast query parameters shared by the forecast and export routes
+ */
+export function parseForecastParams(searchParams: URLSearchParams): BillingForecastOptions | { error: string } {
+  const days = parseInt(searchParams.get('days') || '30', 10);
+  if (isNaN(days) || days < 1 || days > FORECAST_MAX_DAYS) {
+    return { error: `Invalid days. Must be between 1 and ${FORECAST_MAX_DAYS}` };
+  }
+
+  return { days, billingEntity: searchParams.get('billingEntity') || undefined };
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function emptyTotals(): ForecastTotals {
+  return { invoiceCount: 0, serviceFee: 0, vatAmount: 0, withholdingTax: 0, netAmount: 0 };
+}
+
+function addToTotals(totals: ForecastTotals, invoice: ForecastInvoice) {
+  totals.invoiceCount++;
+  totals.serviceFee = roundCurrency(totals.serviceFee + invoice.serviceFee);
+  totals.vatAmount = roundCurrency(totals.vatAmount + invoice.vatAmount);
+  totals.withholdingTax = roundCurrency(totals.withholdingTax + invoice.withholdingTax);
+  totals.netAmount = roundCurrency(totals.netAmount + invoice.netAmount);
+}
+
+function groupTotals(invoices: ForecastInvoice[], keyOf: (invoice: ForecastInvoice) => string): ForecastGroup[] {
+  const groups = new Map<string, ForecastGroup>();
+
+  for (const invoice of invoices) {
+    const key = keyOf(invoice);
+    if (!groups.has(key)) {
+      groups.set(key, { key, ...emptyTotals() });
+    }
+    addToTotals(groups.get(key)!, invoice);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.netAmount - a.netAmount);
+}
+
+/**
+ * Simulate the scheduler over the next `days` days.
+ * Each ACTIVE schedule is stepped from its next billing date one period at a time; periods that
+ * already have a successful run (and a live invoice) are left out, just as the scheduler skips them.
+ */
+export async function getBillingForecast(options: BillingForecastOptions = {}): Promise<BillingForecast> {
+  const days = options.days || 30;
+  const from = options.from || businessNow();
+  const today = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const to = new Date(today);
+  to.setDate(to.getDate() + days);
+  to.setHours(23, 59, 59, 999);
+
+  const where: Prisma.ScheduledBillingWhereInput = {
+    status: ScheduleStatus.ACTIVE,
+    ...(options.billingEntity && { billingEntity: { code: options.billingEntity } }),
+  };
+
+  const [schedules, vatRate, holidays] = await Promise.all([
+    prisma.scheduledBilling.findMany({
+      where,
+      include: {
+        contract: {
+          select: {
+            companyName: true,
+            productType: true,
+            contractStart: true,
+            contractEndDate: true,
+            employeeCount: true,
+            ratePerEmployee: true,
+            usage: {
+              select: { month: true, metric: true, unit: true, quantity: true },
+              orderBy: { month: 'desc' },
+              take: 24,
+            },
+          },
+        },
+        billingEntity: { select: { code: true } },
+        priceChanges: { select: { effectiveDate: true, amount: true, reason: true } },
+        runs: {
+          where: { status: 'SUCCESS' },
+          select: { billingDate: true, runDate: true, invoice: { select: { status: true } } },
+        },
+      },
+    }),
+    getVatRate(),
+    getHolidayCalendar(),
+  ]);
+
+  const invoices: ForecastInvoice[] = [];
+
+  for (const schedule of schedules) {
+    const customIntervalValue = schedule.customIntervalValue ?? undefined;
+    const customIntervalUnit = schedule.customIntervalUnit ?? undefined;
+
+    // Periods already invoiced (voided or cancelled invoices can be billed again)
+    const billedDates = schedule.runs
+      .filter((run) => run.invoice?.status !== InvoiceStatus.VOID && run.invoice?.status !== InvoiceStatus.CANCELLED)
+      .map((run) => run.billingDate || run.runDate);
+
+    const calculate = (amount: number) => calculateBilling(
+      amount,
+      false, // VAT-exclusive (amount is net, VAT added on top)
+      schedule.vatType === VatType.VAT,
+      schedule.hasWithholding,
+      schedule.withholdingRate ? Number(schedule.withholdingRate) : undefined,
+      vatRate
+    );
+
+    // Usage schedules bill recorded usage; periods not recorded yet are estimated from the latest
+    // month recorded, or the contract's employee count when there is no usage at all
+    const estimateUsage = (period: { periodStart: Date; periodEnd: Date; description: string }) => {
+      const usage = schedule.contract.usage.filter(
+        (entry) => entry.metric === (schedule.usageMetric || DEFAULT_USAGE_METRIC)
+      );
+      const recorded = usage.filter(
+        (entry) => entry.month >= startOfMonth(period.periodStart) && entry.month <= period.periodEnd
+      );
+      const latestQuantity = usage[0]?.quantity ?? schedule.contract.employeeCount;
+      const entries: UsageEntry[] = recorded.length > 0
+        ? recorded
+        : latestQuantity != null
+          ? [{ month: startOfMonth(period.periodStart), quantity: latestQuantity, unit: usage[0]?.unit || DEFAULT_USAGE_UNIT }]
+          : [];
+      if (entries.length === 0) return null;
+
+      const charge = calculateUsageCharge(entries, getScheduleUsagePricing(schedule), period.description);
+      const unit = entries[0].unit;
+      return {
+        amount: charge.amount,
+        description: `${period.description} (${charge.quantity} ${unit}${recorded.length === 0 ? ', estimated' : ''})`,
+      };
+    };
+
+    let billingDate = schedule.nextBillingDate
+      ? new Date(schedule.nextBillingDate)
+      : calculateNextBillingDate(
+          schedule.billingDayOfMonth,
+          schedule.frequency,
+          schedule.startDate,
+          false,
+          customIntervalValue,
+          customIntervalUnit
+        );
+
+    // Billing dates moved to the previous business day can fall in the window while the
+    // nominal date is just past it
+    const lastBillingDate = schedule.businessDayRule === BusinessDayRule.PREVIOUS_BUSINESS_DAY
+      ? addDays(to, MAX_BUSINESS_DAY_SHIFT)
+      : to;
+
+    while (billingDate <= lastBillingDate) {
+      if (schedule.endDate && schedule.endDate <= billingDate) break;
+
+      // The scheduler bills on the nominal date shifted off weekends and holidays
+      const billedOn = adjustToBusinessDay(billingDate, schedule.businessDayRule, holidays);
+      const period = getScheduledBillingPeriod(schedule, billingDate, billingDate, holidays);
+      const periodEnd = new Date(period.periodEnd);
+      periodEnd.setHours(23, 59, 59, 999);
+      const alreadyBilled = billedDates.some((date) => date >= period.periodStart && date <= periodEnd);
+      const usageCharge = schedule.billingMode === ScheduleBillingMode.USAGE ? estimateUsage(period) : null;
+      const billingAmount = getEffectiveBillingAmount(schedule, billingDate).amount;
+      const proration = schedule.billingMode === ScheduleBillingMode.USAGE
+        ? null
+        : getScheduledBillingProration(schedule, billingAmount, period);
+      const calculation = calculate(usageCharge?.amount ?? (proration ? proration.amount : billingAmount));
+
+      if (!alreadyBilled && billedOn <= to && billingDate >= schedule.startDate && proration?.billedDays !== 0) {
+        invoices.push({
+          scheduledBillingId: schedule.id,
+          billingDate: billedOn,
+          customerName: schedule.contract.companyName,
+          billingEntity: schedule.billingEntity.code,
+          productType: schedule.contract.productType,
+          description: usageCharge?.description
+            ?? (proration ? `${period.description} (${proration.description})` : period.description),
+          periodStart: proration?.serviceStart || period.periodStart,
+          periodEnd: proration?.serviceEnd || period.periodEnd,
+          dueDate: period.dueDate,
+          serviceFee: calculation.serviceFee,
+          vatAmount: calculation.vatAmount,
+          withholdingTax: calculation.withholdingTax,
+          netAmount: calculation.netAmount,
+          autoApprove: schedule.autoApprove,
+          autoSendEnabled: schedule.autoSendEnabled,
+          isCatchUp: billedOn < today,
+        });
+      }
+
+      billingDate = getFollowingBillingDate(
+        billingDate,
+        schedule.billingDayOfMonth,
+        schedule.frequency,
+        customIntervalValue,
+        customIntervalUnit
+      );
+    }
+  }
+
+  invoices.sort((a, b) => a.billingDate.getTime() - b.billingDate.getTime() || a.customerName.localeCompare(b.customerName));
+
+  const totals = emptyTotals();
+  invoices.forEach((invoice) => addToTotals(totals, invoice));
+
+  return {
+    from: today,
+    to,
+    days,
+    invoices,
+    byEntity: groupTotals(invoices, (invoice) => invoice.billingEntity),
+    byProductType: groupTotals(invoices, (invoice) => invoice.productType),
+    totals,
+  };
+}
+
+function escapeCsv(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Forecast dates are local midnights, so format them locally rather than via toISOString
+function formatCsvDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Render the forecast detail and per-entity / per-product totals as CSV
+ */
+export function generateForecastCsv(forecast: BillingForecast): string {
+  const lines: string[] = [];
+  const amountColumns = (totals: ForecastTotals) => [
+    totals.serviceFee.toFixed(2),
+    totals.vatAmount.toFixed(2),
+    totals.withholdingTax.toFixed(2),
+    totals.netAmount.toFixed(2),
+  ];
+
+  lines.push(
+    ['Billing Date', 'Client', 'Billing Entity', 'Product Type', 'Description', 'Period Start', 'Period End', 'Due Date', 'Service Fee', 'VAT', 'Withholding', 'Net Amount', 'Auto-Approve', 'Auto-Send', 'Catch-up']
+      .map(escapeCsv)
+      .join(',')
+  );
+  for (const invoice of forecast.invoices) {
+    lines.push(
+      [
+        formatCsvDate(invoice.billingDate),
+        invoice.customerName,
+        invoice.billingEntity,
+        invoice.productType,
+        invoice.description,
+        formatCsvDate(invoice.periodStart),
+        formatCsvDate(invoice.periodEnd),
+        formatCsvDate(invoice.dueDate),
+        invoice.serviceFee.toFixed(2),
+        invoice.vatAmount.toFixed(2),
+        invoice.withholdingTax.toFixed(2),
+        invoice.netAmount.toFixed(2),
+        invoice.autoApprove ? 'Yes' : 'No',
+        invoice.autoSendEnabled ? 'Yes' : 'No',
+        invoice.isCatchUp ? 'Yes' : 'No',
+      ]
+        .map(escapeCsv)
+        .join(',')
+    );
+  }
+
+  for (const [title, groups] of [
+    ['Billing Entity', forecast.byEntity],
+    ['Product Type', forecast.byProductType],
+  ] as const) {
+    lines.push('');
+    lines.push([title, 'Invoices', 'Service Fee', 'VAT', 'Withholding', 'Net Amount'].map(escapeCsv).join(','));
+    for (const group of groups) {
+      lines.push([group.key, group.invoiceCount, ...amountColumns(group)].map(escapeCsv).join(','));
+    }
+  }
+
+  lines.push('');
+  lines.push(['TOTAL', forecast.totals.invoiceCount, ...amountColumns(forecast.totals)].map(escapeCsv).join(','));
+
+  return lines.join('\n');
+}
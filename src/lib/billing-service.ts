@@ -1,5 +1,5 @@
 import prisma from './prisma';
-import { calculateBilling, getBillingEntity, generateBillingNo } from './utils';
+import { calculateBilling, generateBillingNo } from './utils';
 import { BillingModel, InvoiceStatus, ContractStatus, VatType, BillingFrequency } from '@/generated/prisma';
 import { getProductTypes } from './settings';
 
@@ -364,8 +364,10 @@ export async function getInvoiceStats() {
     approved: statsMap.get(InvoiceStatus.APPROVED)?.count || 0,
     rejected: statsMap.get(InvoiceStatus.REJECTED)?.count || 0,
     sent: statsMap.get(InvoiceStatus.SENT)?.count || 0,
+    partiallyPaid: statsMap.get(InvoiceStatus.PARTIALLY_PAID)?.count || 0,
     totalPendingAmount: statsMap.get(InvoiceStatus.PENDING)?.sum || 0,
     totalApprovedAmount: statsMap.get(InvoiceStatus.APPROVED)?.sum || 0,
+    totalPartiallyPaidAmount: statsMap.get(InvoiceStatus.PARTIALLY_PAID)?.sum || 0,
   };
 }
 
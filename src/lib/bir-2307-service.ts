@@ -0,0 +1,407 @@
+// BIR 2307 service - tracks creditable withholding tax certificates received from customers
+import prisma from './prisma';
+import { EmailStatus, InvoiceStatus, Prisma } from '@/generated/prisma';
+import {
+  initEmailServiceFromEnv,
+  getBir2307Template,
+  replacePlaceholders,
+  generateEmailHtmlFromTemplate,
+  sendBillingEmail,
+  EmailPlaceholderData,
+} from './email-service';
+import { formatCurrency, formatDate } from './utils';
+
+// Invoice statuses where the customer is expected to issue a 2307
+export const BIR_2307_STATUSES: InvoiceStatus[] = [
+  InvoiceStatus.SENT,
+  InvoiceStatus.PARTIALLY_PAID,
+  InvoiceStatus.PAID,
+];
+
+export interface TaxQuarter {
+  taxYear: number;
+  taxQuarter: number;
+}
+
+export interface Record2307Input {
+  atcCode?: string;
+  amount?: number;
+  receivedAt?: Date | null;
+  taxYear?: number;
+  taxQuarter?: number;
+  attachmentId?: string | null;
+  remarks?: string;
+}
+
+export interface Bir2307ReminderResult {
+  success: boolean;
+  queued?: boolean; // Delivery failed transiently; the email queue will retry it
+  message: string;
+  error?: string;
+}
+
+export type Bir2307Filter = 'missing' | 'received' | 'all';
+
+/**
+ * Get the tax year and quarter a date falls in
+ */
+export function getTaxQuarter(date: Date): TaxQuarter {
+  const d = new Date(date);
+  return {
+    taxYear: d.getFullYear(),
+    taxQuarter: Math.floor(d.getMonth() / 3) + 1,
+  };
+}
+
+/**
+ * Get the first and last moment of a tax quarter
+ */
+export function getQuarterRange(taxYear: number, taxQuarter: number): { start: Date; end: Date } {
+  const start = new Date(taxYear, (taxQuarter - 1) * 3, 1);
+  const end = new Date(taxYear, taxQuarter * 3, 0, 23, 59, 59, 999);
+  return { start, end };
+}
+
+/**
+ * Format a tax quarter for display, e.g. "Q1 2025"
+ */
+export function formatTaxQuarter(taxYear: number, taxQuarter: number): string {
+  return `Q${taxQuarter} ${taxYear}`;
+}
+
+/**
+ * The quarter the withholding applies to.
+ * Customers withhold when they pay, so the payment date wins over the statement date.
+ */
+export function getInvoiceTaxQuarter(invoice: { paidAt: Date | null; statementDate: Date }): TaxQuarter {
+  return getTaxQuarter(invoice.paidAt || invoice.statementDate);
+}
+
+/**
+ * List invoices with withholding tax for a quarter along with their 2307 status
+ */
+export async function get2307Invoices(
+  taxYear: number,
+  taxQuarter: number,
+  filter: Bir2307Filter = 'missing',
+  billingEntity?: string
+) {
+  const { start, end } = getQuarterRange(taxYear, taxQuarter);
+
+  const where: Prisma.InvoiceWhereInput = {
+    hasWithholding: true,
+    withholdingTax: { gt: 0 },
+    status: { in: BIR_2307_STATUSES },
+    OR: [
+      { paidAt: { gte: start, lte: end } },
+      { paidAt: null, statementDate: { gte: start, lte: end } },
+    ],
+  };
+
+  if (billingEntity) {
+    where.company = { code: billingEntity };
+  }
+
+  if (filter === 'missing') {
+    where.AND = [
+      {
+        OR: [
+          { withholdingCertificate: { is: null } },
+          { withholdingCertificate: { is: { receivedAt: null } } },
+        ],
+      },
+    ];
+  } else if (filter === 'received') {
+    where.withholdingCertificate = { is: { receivedAt: { not: null } } };
+  }
+
+  const invoices = await prisma.invoice.findMany({
+    where,
+    select: {
+      id: true,
+      billingNo: true,
+      customerName: true,
+      customerEmail: true,
+      customerEmails: true,
+      statementDate: true,
+      paidAt: true,
+      status: true,
+      netAmount: true,
+      withholdingTax: true,
+      withholdingCode: true,
+      company: { select: { code: true, name: true } },
+      withholdingCertificate: {
+        include: {
+          attachment: { select: { id: true, filename: true } },
+          recordedBy: { select: { id: true, name: true } },
+        },
+      },
+    },
+    orderBy: [{ customerName: 'asc' }, { statementDate: 'asc' }],
+  });
+
+  const totalWithheld = invoices.reduce((sum, inv) => sum + Number(inv.withholdingTax), 0);
+
+  return {
+    taxYear,
+    taxQuarter,
+    invoices,
+    summary: {
+      count: invoices.length,
+      totalWithheld: Math.round(totalWithheld * 100) / 100,
+    },
+  };
+}
+
+/**
+ * Record a received (or pending) 2307 certificate for an invoice.
+ * Fields not given default to the invoice's own withholding details.
+ */
+export async function record2307(
+  invoiceId: string,
+  input: Record2307Input,
+  userId?: string | null
+) {
+  if (input.taxQuarter !== undefined && (input.taxQuarter < 1 || input.taxQuarter > 4)) {
+    throw new Error('Tax quarter must be between 1 and 4');
+  }
+
+  if (input.amount !== undefined && input.amount < 0) {
+    throw new Error('Amount cannot be negative');
+  }
+
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    select: {
+      id: true,
+      billingNo: true,
+      status: true,
+      hasWithholding: true,
+      withholdingTax: true,
+      withholdingCode: true,
+      statementDate: true,
+      paidAt: true,
+    },
+  });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  if (!invoice.hasWithholding) {
+    throw new Error('Invoice has no withholding tax');
+  }
+
+  if (input.attachmentId) {
+    const attachment = await prisma.invoiceAttachment.findUnique({
+      where: { id: input.attachmentId },
+      select: { invoiceId: true },
+    });
+    if (!attachment || attachment.invoiceId !== invoiceId) {
+      throw new Error('Attachment not found for this invoice');
+    }
+  }
+
+  const defaultQuarter = getInvoiceTaxQuarter(invoice);
+  const data = {
+    atcCode: input.atcCode || invoice.withholdingCode || 'WC160',
+    amount: input.amount ?? Number(invoice.withholdingTax),
+    taxYear: input.taxYear ?? defaultQuarter.taxYear,
+    taxQuarter: input.taxQuarter ?? defaultQuarter.taxQuarter,
+    receivedAt: input.receivedAt === undefined ? new Date() : input.receivedAt,
+    attachmentId: input.attachmentId === undefined ? undefined : input.attachmentId,
+    remarks: input.remarks,
+    recordedById: userId || null,
+  };
+
+  const certificate = await prisma.withholdingCertificate.upsert({
+    where: { invoiceId },
+    create: { invoiceId, ...data },
+    update: data,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: userId || null,
+      action: 'BIR_2307_RECEIVED',
+      entityType: 'Invoice',
+      entityId: invoiceId,
+      details: {
+        billingNo: invoice.billingNo,
+        atcCode: data.atcCode,
+        amount: data.amount,
+        quarter: formatTaxQuarter(data.taxYear, data.taxQuarter),
+        receivedAt: data.receivedAt ? data.receivedAt.toISOString() : null,
+        expectedAmount: Number(invoice.withholdingTax),
+      },
+    },
+  });
+
+  return certificate;
+}
+
+/**
+ * Get the 2307 record for an invoice
+ */
+export async function get2307ForInvoice(invoiceId: string) {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    select: {
+      id: true,
+      billingNo: true,
+      customerName: true,
+      hasWithholding: true,
+      withholdingTax: true,
+      withholdingCode: true,
+      statementDate: true,
+      paidAt: true,
+      withholdingCertificate: {
+        include: {
+          attachment: { select: { id: true, filename: true, mimeType: true, size: true } },
+          recordedBy: { select: { id: true, name: true, email: true } },
+        },
+      },
+    },
+  });
+
+  if (!invoice) return null;
+
+  const { withholdingCertificate, ...rest } = invoice;
+
+  return {
+    invoice: {
+      ...rest,
+      withholdingTax: Number(rest.withholdingTax),
+      ...getInvoiceTaxQuarter(rest),
+    },
+    certificate: withholdingCertificate,
+  };
+}
+
+/**
+ * Send a reminder asking the customer for their 2307 certificate
+ */
+export async function send2307Reminder(
+  invoiceId: string,
+  userId?: string
+): Promise<Bir2307ReminderResult> {
+  initEmailServiceFromEnv();
+
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    include: {
+      company: true,
+      withholdingCertificate: true,
+    },
+  });
+
+  if (!invoice) {
+    return { success: false, message: 'Invoice not found' };
+  }
+
+  if (!invoice.hasWithholding || Number(invoice.withholdingTax) <= 0) {
+    return { success: false, message: 'Invoice has no withholding tax' };
+  }
+
+  if (invoice.withholdingCertificate?.receivedAt) {
+    return { success: false, message: '2307 has already been received for this invoice' };
+  }
+
+  const toEmails = invoice.customerEmails || invoice.customerEmail;
+  if (!toEmails) {
+    return { success: false, message: 'No email address for this customer' };
+  }
+
+  const template = await getBir2307Template();
+  if (!template) {
+    return {
+      success: false,
+      message: 'No BIR 2307 reminder template configured. Please set one up in Settings.',
+    };
+  }
+
+  const quarter = invoice.withholdingCertificate
+    ? { taxYear: invoice.withholdingCertificate.taxYear, taxQuarter: invoice.withholdingCertificate.taxQuarter }
+    : getInvoiceTaxQuarter(invoice);
+  const atcCode = invoice.withholdingCertificate?.atcCode || invoice.withholdingCode || 'WC160';
+
+  const placeholderData: EmailPlaceholderData = {
+    customerName: invoice.customerName,
+    billingNo: invoice.billingNo || invoice.id.slice(0, 8),
+    dueDate: formatDate(invoice.dueDate),
+    totalAmount: formatCurrency(Number(invoice.netAmount)),
+    periodStart: invoice.periodStart ? formatDate(invoice.periodStart) : '',
+    periodEnd: invoice.periodEnd ? formatDate(invoice.periodEnd) : '',
+    companyName: invoice.company.name,
+    clientCompanyName: invoice.customerName,
+    withholdingAmount: formatCurrency(Number(invoice.withholdingTax)),
+    taxQuarter: formatTaxQuarter(quarter.taxYear, quarter.taxQuarter),
+    atcCode,
+  };
+
+  const subject = replacePlaceholders(template.subject, placeholderData);
+  const greeting = replacePlaceholders(template.greeting, placeholderData);
+  const body = replacePlaceholders(template.body, placeholderData);
+  const closing = replacePlaceholders(template.closing, placeholderData);
+  const plainTextBody = `${greeting}\n\n${body}\n\n${closing}`;
+  const htmlBody = generateEmailHtmlFromTemplate(template, placeholderData);
+
+  try {
+    const result = await sendBillingEmail(invoice.id, toEmails, subject, plainTextBody, htmlBody);
+
+    if (!result.success) {
+      return {
+        success: false,
+        message: `Failed to send 2307 reminder: ${result.error}`,
+        error: result.error,
+      };
+    }
+
+    // Track reminders on a pending certificate record
+    await prisma.withholdingCertificate.upsert({
+      where: { invoiceId: invoice.id },
+      create: {
+        invoiceId: invoice.id,
+        atcCode,
+        amount: Number(invoice.withholdingTax),
+        taxYear: quarter.taxYear,
+        taxQuarter: quarter.taxQuarter,
+        reminderCount: 1,
+        lastReminderAt: new Date(),
+      },
+      update: {
+        reminderCount: { increment: 1 },
+        lastReminderAt: new Date(),
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: userId || null,
+        action: 'BIR_2307_REMINDER_SENT',
+        entityType: 'Invoice',
+        entityId: invoice.id,
+        details: {
+          to: toEmails,
+          subject,
+          quarter: placeholderData.taxQuarter,
+          withholdingTax: Number(invoice.withholdingTax),
+          emailStatus: result.queued ? EmailStatus.QUEUED : EmailStatus.SENT,
+        },
+      },
+    });
+
+    if (result.queued) {
+      return { success: true, queued: true, message: '2307 reminder queued for delivery' };
+    }
+
+    return { success: true, message: '2307 reminder sent successfully' };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      success: false,
+      message: `Error sending 2307 reminder: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
@@ -0,0 +1,143 @@
+// Business calendar service - holiday calendar and business day rules for billing and due dates
+import prisma from './prisma';
+import { BusinessDayRule } from '@/generated/prisma';
+import { format } from 'date-fns';
+import { HolidayCSVRow } from './csv-parser';
+
+// Holiday dates keyed by yyyy-MM-dd (local time)
+export type HolidayCalendar = Set<string>;
+
+// Longest run of non-business days a date is shifted across (e.g. Holy Week plus a weekend)
+export const MAX_BUSINESS_DAY_SHIFT = 10;
+
+export interface CreateHolidayInput {
+  date: Date;
+  name: string;
+}
+
+export interface HolidayImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: { row: number; message: string }[];
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Whether the date is a working day: not a Saturday, Sunday or calendar holiday
+ */
+export function isBusinessDay(date: Date, holidays: HolidayCalendar): boolean {
+  const day = date.getDay();
+  return day !== 0 && day !== 6 && !holidays.has(toDateKey(date));
+}
+
+/**
+ * Shift a billing or due date off weekends and holidays according to the schedule's rule.
+ * NONE returns the date unchanged.
+ */
+export function adjustToBusinessDay(date: Date, rule: BusinessDayRule, holidays: HolidayCalendar): Date {
+  if (rule === BusinessDayRule.NONE) {
+    return new Date(date);
+  }
+
+  const step = rule === BusinessDayRule.PREVIOUS_BUSINESS_DAY ? -1 : 1;
+  const adjusted = startOfDay(date);
+  for (let i = 0; i < MAX_BUSINESS_DAY_SHIFT && !isBusinessDay(adjusted, holidays); i++) {
+    adjusted.setDate(adjusted.getDate() + step);
+  }
+
+  return adjusted;
+}
+
+/**
+ * Business days after `from` up to and including `to` (0 when `to` is not after `from`)
+ */
+export function countBusinessDaysBetween(from: Date, to: Date, holidays: HolidayCalendar): number {
+  const end = startOfDay(to);
+  const cursor = startOfDay(from);
+  let count = 0;
+
+  cursor.setDate(cursor.getDate() + 1);
+  while (cursor <= end) {
+    if (isBusinessDay(cursor, holidays)) count++;
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  return count;
+}
+
+/**
+ * Load the holiday calendar for business day calculations
+ */
+export async function getHolidayCalendar(): Promise<HolidayCalendar> {
+  const holidays = await prisma.holiday.findMany({ select: { date: true } });
+  return new Set(holidays.map((holiday) => toDateKey(holiday.date)));
+}
+
+// ==================== CRUD OPERATIONS ====================
+
+export async function listHolidays(year?: number) {
+  return prisma.holiday.findMany({
+    where: year ? { date: { gte: new Date(year, 0, 1), lt: new Date(year + 1, 0, 1) } } : undefined,
+    orderBy: { date: 'asc' },
+  });
+}
+
+/**
+ * Add a holiday, renaming the existing entry when the date is already on the calendar
+ */
+export async function upsertHoliday(data: CreateHolidayInput) {
+  const date = startOfDay(data.date);
+
+  return prisma.holiday.upsert({
+    where: { date },
+    create: { date, name: data.name },
+    update: { name: data.name },
+  });
+}
+
+export async function deleteHoliday(id: string) {
+  return prisma.holiday.delete({
+    where: { id },
+  });
+}
+
+/**
+ * Import parsed holiday CSV rows. Dates already on the calendar are renamed.
+ */
+export async function importHolidays(rows: HolidayCSVRow[]): Promise<HolidayImportResult> {
+  const result: HolidayImportResult = { created: 0, updated: 0, skipped: 0, errors: [] };
+
+  const existing = await prisma.holiday.findMany({
+    where: { date: { in: rows.map((row) => startOfDay(row.date)) } },
+    select: { date: true },
+  });
+  const existingKeys = new Set(existing.map((holiday) => toDateKey(holiday.date)));
+
+  for (const row of rows) {
+    const key = toDateKey(row.date);
+    try {
+      await upsertHoliday({ date: row.date, name: row.name });
+    } catch (error) {
+      result.skipped++;
+      result.errors.push({ row: row.row, message: error instanceof Error ? error.message : 'Failed to save holiday' });
+      continue;
+    }
+
+    if (existingKeys.has(key)) {
+      result.updated++;
+    } else {
+      existingKeys.add(key);
+      result.created++;
+    }
+  }
+
+  return result;
+}
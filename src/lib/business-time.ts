@@ -0,0 +1,123 @@
+// Business time - reads the clock in the business timezone instead of the server's
+//
+// Billing dates are handled as local-midnight Date values. On a server running in another
+// timezone (e.g. UTC on Vercel) new Date() can still be the previous day in Manila, so
+// billing-date logic reads the clock through businessNow(), which returns a Date whose local
+// fields hold the current wall-clock time in the business timezone.
+
+export const DEFAULT_BUSINESS_TIMEZONE = 'Asia/Manila';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Timezone billing dates are calculated in (BUSINESS_TIMEZONE, defaults to Asia/Manila)
+ */
+export function getBusinessTimezone(): string {
+  return process.env.BUSINESS_TIMEZONE || DEFAULT_BUSINESS_TIMEZONE;
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Calendar fields of an instant as read on a clock in the timezone
+ */
+export function getWallClock(instant: Date, timeZone: string = getBusinessTimezone()): WallClock {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value);
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * The instant at which a clock in the timezone reads the wall-clock time.
+ * A time skipped by a daylight saving change resolves to an instant beside the gap.
+ */
+export function fromWallClock(wallClock: WallClock, timeZone: string = getBusinessTimezone()): Date {
+  const target = Date.UTC(
+    wallClock.year,
+    wallClock.month - 1,
+    wallClock.day,
+    wallClock.hour,
+    wallClock.minute,
+    wallClock.second
+  );
+  const offsetAt = (instant: number) => {
+    const clock = getWallClock(new Date(instant), timeZone);
+    return (
+      Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second) -
+      Math.floor(instant / 1000) * 1000
+    );
+  };
+
+  // Offsets either side of a daylight saving change differ; the second pass settles on one
+  let instant = target - offsetAt(target);
+  instant = target - offsetAt(instant);
+
+  return new Date(instant);
+}
+
+/**
+ * The wall-clock time of an instant in the business timezone, as a server-local Date
+ */
+export function toBusinessTime(instant: Date, timeZone: string = getBusinessTimezone()): Date {
+  const clock = getWallClock(instant, timeZone);
+
+  return new Date(
+    clock.year,
+    clock.month - 1,
+    clock.day,
+    clock.hour,
+    clock.minute,
+    clock.second,
+    instant.getMilliseconds()
+  );
+}
+
+/**
+ * Current time in the business timezone
+ */
+export function businessNow(): Date {
+  return toBusinessTime(new Date());
+}
+
+/**
+ * Midnight of the current business day
+ */
+export function businessToday(): Date {
+  const now = businessNow();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
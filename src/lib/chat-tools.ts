@@ -1,5 +1,6 @@
 import prisma from '@/lib/prisma';
 import { format, startOfMonth, endOfMonth, addDays } from 'date-fns';
+import { PAYABLE_STATUSES, calculateInvoiceBalance, sumCreditNotes } from '@/lib/payment-service';
 
 // Tool result types
 export interface ContractDueSoon {
@@ -30,9 +31,11 @@ export interface InvoiceStats {
   approved: number;
   rejected: number;
   sent: number;
+  partiallyPaid: number;
   paid: number;
   pendingAmount: number;
   approvedAmount: number;
+  partiallyPaidAmount: number;
   paidAmount: number;
 }
 
@@ -51,6 +54,7 @@ export interface OverdueInvoice {
   billingNo: string | null;
   customerName: string;
   netAmount: number;
+  balance: number;
   dueDate: Date;
   daysPastDue: number;
   billingEntity: string;
@@ -93,7 +97,7 @@ export async function getContractsDueSoon(days: number = 7): Promise<ContractDue
     productType: contract.productType,
     monthlyFee: Number(contract.monthlyFee),
     nextDueDate: contract.nextDueDate,
-    billingEntity: contract.billingEntity?.code || 'YOWI',
+    billingEntity: contract.billingEntity?.code || '',
   }));
 }
 
@@ -121,7 +125,7 @@ export async function getContractDetails(companyName: string): Promise<ContractD
     nextDueDate: contract.nextDueDate,
     status: contract.status,
     autoSendEnabled: contract.autoSendEnabled,
-    billingEntity: contract.billingEntity?.code || 'YOWI',
+    billingEntity: contract.billingEntity?.code || '',
     vatType: contract.vatType,
     email: contract.email,
     remarks: contract.remarks,
@@ -130,16 +134,18 @@ export async function getContractDetails(companyName: string): Promise<ContractD
 
 // Get dashboard invoice statistics
 export async function getInvoiceStats(): Promise<InvoiceStats> {
-  const [pending, approved, rejected, sent, paid] = await Promise.all([
+  const [pending, approved, rejected, sent, partiallyPaid, paid] = await Promise.all([
     prisma.invoice.findMany({ where: { status: 'PENDING' } }),
     prisma.invoice.findMany({ where: { status: 'APPROVED' } }),
     prisma.invoice.findMany({ where: { status: 'REJECTED' } }),
     prisma.invoice.findMany({ where: { status: 'SENT' } }),
+    prisma.invoice.findMany({ where: { status: 'PARTIALLY_PAID' } }),
     prisma.invoice.findMany({ where: { status: 'PAID' } }),
   ]);
 
   const pendingAmount = pending.reduce((sum, inv) => sum + Number(inv.netAmount), 0);
   const approvedAmount = approved.reduce((sum, inv) => sum + Number(inv.netAmount), 0);
+  const partiallyPaidAmount = partiallyPaid.reduce((sum, inv) => sum + Number(inv.netAmount), 0);
   const paidAmount = paid.reduce((sum, inv) => sum + Number(inv.paidAmount || inv.netAmount), 0);
 
   return {
@@ -147,9 +153,11 @@ export async function getInvoiceStats(): Promise<InvoiceStats> {
     approved: approved.length,
     rejected: rejected.length,
     sent: sent.length,
+    partiallyPaid: partiallyPaid.length,
     paid: paid.length,
     pendingAmount,
     approvedAmount,
+    partiallyPaidAmount,
     paidAmount,
   };
 }
@@ -174,25 +182,27 @@ export async function getPendingInvoices(billingEntity?: string): Promise<Pendin
     customerName: inv.customerName,
     netAmount: Number(inv.netAmount),
     dueDate: inv.dueDate,
-    billingEntity: inv.company?.code || 'YOWI',
+    billingEntity: inv.company?.code || '',
     createdAt: inv.createdAt,
   }));
 }
 
-// Get overdue invoices (SENT status past due date)
+// Get overdue invoices (unpaid or partially paid past due date) with what is still owed
 export async function getOverdueInvoices(): Promise<OverdueInvoice[]> {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
 
   const invoices = await prisma.invoice.findMany({
     where: {
-      status: 'SENT',
+      status: { in: PAYABLE_STATUSES },
       dueDate: {
         lt: today,
       },
     },
     include: {
       company: true,
+      payments: { select: { amount: true, paidAt: true, reversedAt: true } },
+      creditNotes: { where: { status: 'ISSUED' }, select: { amount: true } },
     },
     orderBy: { dueDate: 'asc' },
   });
@@ -207,9 +217,10 @@ export async function getOverdueInvoices(): Promise<OverdueInvoice[]> {
       billingNo: inv.billingNo,
       customerName: inv.customerName,
       netAmount: Number(inv.netAmount),
+      balance: calculateInvoiceBalance(inv.netAmount, inv.payments, sumCreditNotes(inv.creditNotes)).balance,
       dueDate: inv.dueDate,
       daysPastDue,
-      billingEntity: inv.company?.code || 'YOWI',
+      billingEntity: inv.company?.code || '',
     };
   });
 }
@@ -244,7 +255,7 @@ export async function searchContracts(query: string): Promise<ContractDetails[]>
     nextDueDate: contract.nextDueDate,
     status: contract.status,
     autoSendEnabled: contract.autoSendEnabled,
-    billingEntity: contract.billingEntity?.code || 'YOWI',
+    billingEntity: contract.billingEntity?.code || '',
     vatType: contract.vatType,
     email: contract.email,
     remarks: contract.remarks,
@@ -347,8 +358,7 @@ export const chatToolDefinitions = [
       properties: {
         billingEntity: {
           type: 'string',
-          description: 'Filter by billing entity code (YOWI or ABBA)',
-          enum: ['YOWI', 'ABBA'],
+          description: 'Filter by billing entity code (e.g., YOWI)',
         },
       },
       required: [],
@@ -356,7 +366,7 @@ export const chatToolDefinitions = [
   },
   {
     name: 'get_overdue_invoices',
-    description: 'Get list of invoices that are past their due date but not yet paid. Use this when users ask about overdue accounts or late payments.',
+    description: 'Get list of invoices that are past their due date but not yet fully paid, with the balance still owed. Use this when users ask about overdue accounts or late payments.',
     input_schema: {
       type: 'object' as const,
       properties: {},
@@ -385,8 +395,7 @@ export const chatToolDefinitions = [
       properties: {
         entity: {
           type: 'string',
-          description: 'Billing entity code (YOWI or ABBA)',
-          enum: ['YOWI', 'ABBA'],
+          description: 'Billing entity code (e.g., YOWI)',
         },
         month: {
           type: 'string',
@@ -0,0 +1,326 @@
+// Credit note service - issues credit memos against the unpaid balance of sent invoices
+import prisma from './prisma';
+import { CreditNote, CreditNoteStatus, InvoiceStatus, Prisma } from '@/generated/prisma';
+import { generateBillingNo } from './utils';
+import {
+  calculateInvoiceBalance,
+  sumCreditNotes,
+  syncInvoiceFromLedger,
+  InvoiceBalance,
+  PaymentLedgerEntry,
+} from './payment-service';
+
+// Invoice statuses that can be corrected with a credit note
+export const CREDITABLE_STATUSES: InvoiceStatus[] = [
+  InvoiceStatus.SENT,
+  InvoiceStatus.PARTIALLY_PAID,
+  InvoiceStatus.PAID,
+];
+
+export interface IssueCreditNoteInput {
+  amount: number; // Net amount to credit
+  reason: string;
+}
+
+export interface CreditNoteAmounts {
+  serviceFee: number;
+  vatAmount: number;
+  grossAmount: number;
+  withholdingTax: number;
+  amount: number;
+}
+
+export interface CanIssueCreditNoteResult {
+  canIssue: boolean;
+  reason?: string;
+  creditableAmount?: number;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// A credit can only cover what is still unpaid, so it never leaves a negative balance;
+// money already paid is returned to the customer with a refund instead
+function getCreditableAmount(invoice: {
+  netAmount: number | Prisma.Decimal;
+  payments: PaymentLedgerEntry[];
+  creditNotes: { amount: number | Prisma.Decimal }[];
+}): number {
+  const { balance } = calculateInvoiceBalance(invoice.netAmount, invoice.payments, sumCreditNotes(invoice.creditNotes));
+  return Math.max(0, balance);
+}
+
+function exceedsCreditableMessage(amount: number, creditableAmount: number): string {
+  return `Credit of ${roundCurrency(amount).toFixed(2)} exceeds the unpaid balance of ${creditableAmount.toFixed(2)}. ` +
+    'Record a refund for amounts already paid.';
+}
+
+/**
+ * Split a net credit amount into service fee, VAT and withholding
+ * in the same proportions as the original invoice
+ */
+export function calculateCreditNoteAmounts(
+  invoice: {
+    serviceFee: number | Prisma.Decimal;
+    vatAmount: number | Prisma.Decimal;
+    grossAmount: number | Prisma.Decimal;
+    withholdingTax: number | Prisma.Decimal;
+    netAmount: number | Prisma.Decimal;
+  },
+  amount: number
+): CreditNoteAmounts {
+  const netAmount = Number(invoice.netAmount);
+  const ratio = netAmount > 0 ? amount / netAmount : 0;
+
+  const serviceFee = roundCurrency(Number(invoice.serviceFee) * ratio);
+  const vatAmount = roundCurrency(Number(invoice.vatAmount) * ratio);
+  const withholdingTax = roundCurrency(Number(invoice.withholdingTax) * ratio);
+
+  return {
+    serviceFee,
+    vatAmount,
+    grossAmount: roundCurrency(serviceFee + vatAmount),
+    withholdingTax,
+    amount: roundCurrency(amount),
+  };
+}
+
+/**
+ * Check if a credit note of the given amount can be issued for an invoice
+ */
+export async function canIssueCreditNote(
+  invoiceId: string,
+  amount: number
+): Promise<CanIssueCreditNoteResult> {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    select: {
+      status: true,
+      netAmount: true,
+      payments: { select: { amount: true, paidAt: true, reversedAt: true } },
+      creditNotes: { where: { status: CreditNoteStatus.ISSUED }, select: { amount: true } },
+    },
+  });
+
+  if (!invoice) {
+    return { canIssue: false, reason: 'Invoice not found' };
+  }
+
+  if (!CREDITABLE_STATUSES.includes(invoice.status)) {
+    return {
+      canIssue: false,
+      reason: `Cannot issue credit note. Current status: ${invoice.status}. Only SENT, PARTIALLY_PAID or PAID invoices can be credited.`,
+    };
+  }
+
+  const creditableAmount = getCreditableAmount(invoice);
+  if (roundCurrency(amount) > creditableAmount) {
+    return {
+      canIssue: false,
+      reason: exceedsCreditableMessage(amount, creditableAmount),
+      creditableAmount,
+    };
+  }
+
+  return { canIssue: true, creditableAmount };
+}
+
+/**
+ * Issue a credit note inside an existing transaction
+ * (used when a full online refund closes the invoice)
+ */
+export async function issueCreditNoteInTransaction(
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  input: IssueCreditNoteInput,
+  userId?: string | null
+): Promise<{ creditNote: CreditNote; balance: InvoiceBalance }> {
+  if (!input.amount || input.amount <= 0) {
+    throw new Error('Valid credit amount is required');
+  }
+
+  if (!input.reason) {
+    throw new Error('Reason is required');
+  }
+
+  const invoice = await tx.invoice.findUnique({
+    where: { id: invoiceId },
+    include: {
+      company: true,
+      payments: { select: { amount: true, paidAt: true, reversedAt: true } },
+      creditNotes: { where: { status: CreditNoteStatus.ISSUED }, select: { amount: true } },
+    },
+  });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  if (!CREDITABLE_STATUSES.includes(invoice.status)) {
+    throw new Error(
+      `Cannot issue credit note. Current status: ${invoice.status}. Only SENT, PARTIALLY_PAID or PAID invoices can be credited.`
+    );
+  }
+
+  const creditableAmount = getCreditableAmount(invoice);
+  if (roundCurrency(input.amount) > creditableAmount) {
+    throw new Error(exceedsCreditableMessage(input.amount, creditableAmount));
+  }
+
+  // Reserve the next credit note number for this company. Each company has its
+  // own sequence, so the default prefix carries the company code.
+  const company = await tx.company.update({
+    where: { id: invoice.companyId },
+    data: { nextCreditNoteNo: { increment: 1 } },
+  });
+  const creditNoteNo = generateBillingNo(
+    company.creditNotePrefix || `CN-${company.code}-`,
+    company.nextCreditNoteNo - 1
+  );
+
+  const amounts = calculateCreditNoteAmounts(invoice, input.amount);
+
+  const creditNote = await tx.creditNote.create({
+    data: {
+      creditNoteNo,
+      invoiceId,
+      companyId: invoice.companyId,
+      customerName: invoice.customerName,
+      reason: input.reason,
+      ...amounts,
+      issuedById: userId || null,
+    },
+  });
+
+  const balance = await syncInvoiceFromLedger(tx, invoiceId, invoice.netAmount);
+
+  await tx.auditLog.create({
+    data: {
+      userId: userId || null,
+      action: 'CREDIT_NOTE_ISSUED',
+      entityType: 'Invoice',
+      entityId: invoiceId,
+      details: {
+        billingNo: invoice.billingNo,
+        creditNoteId: creditNote.id,
+        creditNoteNo,
+        amount: amounts.amount,
+        reason: input.reason,
+        balance: balance.balance,
+      },
+    },
+  });
+
+  return { creditNote, balance };
+}
+
+/**
+ * Issue a credit note against an invoice.
+ * Uses the company's credit note sequence and applies the credit to the invoice balance.
+ */
+export async function issueCreditNote(
+  invoiceId: string,
+  input: IssueCreditNoteInput,
+  userId?: string | null
+) {
+  return prisma.$transaction((tx) => issueCreditNoteInTransaction(tx, invoiceId, input, userId));
+}
+
+/**
+ * Void a credit note and restore the invoice balance
+ */
+export async function voidCreditNote(
+  creditNoteId: string,
+  reason: string,
+  userId?: string | null
+): Promise<{ creditNoteId: string; invoiceId: string; balance: InvoiceBalance }> {
+  if (!reason) {
+    throw new Error('Void reason is required');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const creditNote = await tx.creditNote.findUnique({
+      where: { id: creditNoteId },
+      include: { invoice: { select: { id: true, billingNo: true, netAmount: true } } },
+    });
+
+    if (!creditNote) {
+      throw new Error('Credit note not found');
+    }
+
+    if (creditNote.status === CreditNoteStatus.VOID) {
+      throw new Error('Credit note has already been voided');
+    }
+
+    await tx.creditNote.update({
+      where: { id: creditNoteId },
+      data: {
+        status: CreditNoteStatus.VOID,
+        voidedAt: new Date(),
+        voidedById: userId || null,
+        voidReason: reason,
+      },
+    });
+
+    const balance = await syncInvoiceFromLedger(tx, creditNote.invoiceId, creditNote.invoice.netAmount);
+
+    await tx.auditLog.create({
+      data: {
+        userId: userId || null,
+        action: 'CREDIT_NOTE_VOIDED',
+        entityType: 'Invoice',
+        entityId: creditNote.invoiceId,
+        details: {
+          billingNo: creditNote.invoice.billingNo,
+          creditNoteId,
+          creditNoteNo: creditNote.creditNoteNo,
+          amount: Number(creditNote.amount),
+          reason,
+          balance: balance.balance,
+        },
+      },
+    });
+
+    return { creditNoteId, invoiceId: creditNote.invoiceId, balance };
+  });
+}
+
+/**
+ * Get credit notes for an invoice along with its current balance
+ */
+export async function getInvoiceCreditNotes(invoiceId: string) {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    select: {
+      id: true,
+      billingNo: true,
+      customerName: true,
+      status: true,
+      netAmount: true,
+      payments: { select: { amount: true, paidAt: true, reversedAt: true } },
+      creditNotes: {
+        include: {
+          issuedBy: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { issuedAt: 'asc' },
+      },
+    },
+  });
+
+  if (!invoice) return null;
+
+  const issued = invoice.creditNotes.filter((cn) => cn.status === CreditNoteStatus.ISSUED);
+
+  return {
+    invoice: {
+      id: invoice.id,
+      billingNo: invoice.billingNo,
+      customerName: invoice.customerName,
+      status: invoice.status,
+      netAmount: Number(invoice.netAmount),
+    },
+    creditNotes: invoice.creditNotes,
+    balance: calculateInvoiceBalance(invoice.netAmount, invoice.payments, sumCreditNotes(issued)),
+  };
+}
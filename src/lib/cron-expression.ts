@@ -0,0 +1,200 @@
+// Cron expressions - validates scheduler cron expressions and computes their upcoming runs
+//
+// Supports the syntax node-cron accepts: 5 fields (minute hour day-of-month month day-of-week)
+// or 6 with a leading seconds field, each a list of values, ranges and steps (e.g. 0,30 or
+// 1-5 or */15), with month and weekday names. Like node-cron, a day must match both the
+// day-of-month and day-of-week fields.
+import { WallClock, fromWallClock, getBusinessTimezone, getWallClock } from './business-time';
+
+interface CronFieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+export interface CronSchedule {
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+}
+
+const SECOND_FIELD: CronFieldSpec = { name: 'second', min: 0, max: 59 };
+
+const FIELDS: CronFieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: [
+      'january', 'february', 'march', 'april', 'may', 'june',
+      'july', 'august', 'september', 'october', 'november', 'december',
+    ],
+  },
+  // 7 is accepted as Sunday
+  {
+    name: 'day of week',
+    min: 0,
+    max: 7,
+    names: ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'],
+  },
+];
+
+// Stop looking for runs this many years ahead (e.g. "0 0 30 2 *" never runs)
+const MAX_YEARS_AHEAD = 8;
+
+function parseValue(value: string, field: CronFieldSpec): number {
+  // Names may be written in full or abbreviated to three letters
+  const lower = value.toLowerCase();
+  const nameIndex = field.names?.findIndex((name) => lower === name || lower === name.slice(0, 3)) ?? -1;
+  if (nameIndex >= 0) {
+    return field.min + nameIndex;
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${field.name} value "${value}"`);
+  }
+
+  const number = parseInt(value);
+  if (number < field.min || number > field.max) {
+    throw new Error(`${field.name} value ${number} is out of range (${field.min}-${field.max})`);
+  }
+
+  return number;
+}
+
+function parseField(expression: string, field: CronFieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of expression.split(',')) {
+    const [range, stepText, ...rest] = item.split('/');
+    if (rest.length > 0 || !range) {
+      throw new Error(`Invalid ${field.name} "${item}"`);
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText) === 0) {
+        throw new Error(`Invalid ${field.name} step "${stepText}"`);
+      }
+      step = parseInt(stepText);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to, ...extra] = range.split('-');
+      if (extra.length > 0) {
+        throw new Error(`Invalid ${field.name} range "${range}"`);
+      }
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, field);
+      // "5/15" runs from 5 to the end of the range
+      end = stepText !== undefined ? field.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression. Throws with a description of the first invalid field.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/).filter(Boolean);
+  if (parts.length !== 5 && parts.length !== 6) {
+    throw new Error(`Expected 5 or 6 fields, got ${parts.length}`);
+  }
+
+  const seconds = parts.length === 6 ? parseField(parts.shift()!, SECOND_FIELD) : new Set([0]);
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return { seconds, minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+/**
+ * Validate a cron expression, returning the error message or null when valid
+ */
+export function validateCronExpression(expression: string): string | null {
+  try {
+    parseCronExpression(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+/**
+ * The next runs of a cron expression after `from`, evaluated on the clock of the timezone
+ * (the business timezone by default). Returns fewer than `count` when the expression stops
+ * matching, e.g. a day that never falls in its month.
+ */
+export function getNextCronRuns(
+  expression: string,
+  count: number,
+  options?: { from?: Date; timeZone?: string }
+): Date[] {
+  const schedule = parseCronExpression(expression);
+  const from = options?.from || new Date();
+  const timeZone = options?.timeZone || getBusinessTimezone();
+  const runs: Date[] = [];
+
+  // Walk wall-clock time in a UTC Date so the server's own daylight saving changes do not interfere
+  const start = getWallClock(from, timeZone);
+  const cursor = new Date(Date.UTC(start.year, start.month - 1, start.day, start.hour, start.minute, start.second + 1));
+  const lastYear = start.year + MAX_YEARS_AHEAD;
+
+  while (runs.length < count && cursor.getUTCFullYear() <= lastYear) {
+    if (!schedule.months.has(cursor.getUTCMonth() + 1)) {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1, 1);
+      cursor.setUTCHours(0, 0, 0);
+    } else if (!schedule.daysOfMonth.has(cursor.getUTCDate()) || !schedule.daysOfWeek.has(cursor.getUTCDay())) {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+      cursor.setUTCHours(0, 0, 0);
+    } else if (!schedule.hours.has(cursor.getUTCHours())) {
+      cursor.setUTCHours(cursor.getUTCHours() + 1, 0, 0);
+    } else if (!schedule.minutes.has(cursor.getUTCMinutes())) {
+      cursor.setUTCMinutes(cursor.getUTCMinutes() + 1, 0);
+    } else if (!schedule.seconds.has(cursor.getUTCSeconds())) {
+      cursor.setUTCSeconds(cursor.getUTCSeconds() + 1);
+    } else {
+      const wallClock: WallClock = {
+        year: cursor.getUTCFullYear(),
+        month: cursor.getUTCMonth() + 1,
+        day: cursor.getUTCDate(),
+        hour: cursor.getUTCHours(),
+        minute: cursor.getUTCMinutes(),
+        second: cursor.getUTCSeconds(),
+      };
+      const run = fromWallClock(wallClock, timeZone);
+      if (run > from) {
+        runs.push(run);
+      }
+      cursor.setUTCSeconds(cursor.getUTCSeconds() + 1);
+    }
+  }
+
+  return runs;
+}
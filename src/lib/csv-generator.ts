@@ -55,6 +55,20 @@ export interface InvoiceCsvData {
   }[];
 }
 
+// Credit note data for CSV generation (exported as negative lines)
+export interface CreditNoteCsvData {
+  creditNoteNo: string;
+  invoiceNo?: string | null;
+  issuedAt: Date;
+  customerCode: string;
+  productType: string;
+  reason: string;
+  serviceFee: number;
+  grossAmount: number;
+  vatType: 'VAT' | 'NON_VAT';
+  withholdingCode?: string;
+}
+
 // Default YTO settings
 const YTO_DEFAULTS = {
   accountsReceivable: 'Accounts Receivable - Trade',
@@ -104,8 +118,29 @@ async function generateRow(data: InvoiceCsvData, lineItem?: LineItem): Promise<Y
   };
 }
 
-// Generate CSV content from invoice data
-export async function generateYtoCsv(invoices: InvoiceCsvData[]): Promise<string> {
+// Convert a credit note to a YTO row with negative amounts
+export function creditNoteToCsvData(creditNote: CreditNoteCsvData): InvoiceCsvData {
+  const invoiceRef = creditNote.invoiceNo ? ` against invoice ${creditNote.invoiceNo}` : '';
+  return {
+    invoiceNo: '',
+    statementDate: creditNote.issuedAt,
+    dueDate: creditNote.issuedAt,
+    customerCode: creditNote.customerCode,
+    productType: creditNote.productType,
+    description: `Credit Note ${creditNote.creditNoteNo}${invoiceRef}`,
+    serviceFee: -Math.abs(creditNote.serviceFee),
+    grossAmount: -Math.abs(creditNote.grossAmount),
+    vatType: creditNote.vatType,
+    withholdingCode: creditNote.withholdingCode,
+    remarks: creditNote.reason.replace(/"/g, "'"),
+  };
+}
+
+// Generate CSV content from invoice data (credit notes are appended as negative lines)
+export async function generateYtoCsv(
+  invoices: InvoiceCsvData[],
+  creditNotes: CreditNoteCsvData[] = []
+): Promise<string> {
   const headers = [
     'Invoice No.',
     'Date',
@@ -145,6 +180,10 @@ export async function generateYtoCsv(invoices: InvoiceCsvData[]): Promise<string
     }
   }
 
+  for (const creditNote of creditNotes) {
+    rows.push(await generateRow(creditNoteToCsvData(creditNote)));
+  }
+
   // Convert to CSV
   const csvRows = [
     headers.join(','),
@@ -1,4 +1,4 @@
-// CSV Parser utility for importing contracts and RCBC end-clients
+// CSV Parser utility for importing contracts, RCBC end-clients, contract usage and bank statements
 
 export interface ParsedRow {
   data: Record<string, string>;
@@ -83,6 +83,45 @@ export interface RcbcClientCSVRow {
   isActive: boolean;
 }
 
+// Contract usage CSV parsing types
+export interface UsageCSVRow {
+  row: number; // CSV row number, for reporting import errors
+  customerNumber?: string;
+  companyName?: string;
+  month: Date;
+  metric: string;
+  unit: string;
+  quantity: number;
+  notes?: string;
+}
+
+// Holiday calendar CSV parsing types
+export interface HolidayCSVRow {
+  row: number; // CSV row number, for reporting import errors
+  date: Date;
+  name: string;
+}
+
+// Bank statement CSV column mapping (header names as they appear in the bank's export)
+export interface BankColumnMapping {
+  date: string;
+  description: string;
+  credit?: string; // Deposits column
+  debit?: string; // Withdrawals column - rows with only a debit are skipped
+  amount?: string; // Single signed amount column, used instead of credit/debit
+  reference?: string;
+  dateFormat?: 'MDY' | 'DMY'; // For slash dates like 03/04/2026; defaults to MDY
+}
+
+// Bank statement CSV parsing types
+export interface BankStatementCSVRow {
+  row: number; // CSV row number, for reporting import errors
+  transactionDate: Date;
+  description: string;
+  reference?: string;
+  amount: number; // Credit amount
+}
+
 // Parse date from various formats
 function parseDate(value: string): Date | null {
   if (!value || value.trim() === '') return null;
@@ -107,6 +146,30 @@ function parseDate(value: string): Date | null {
   return null;
 }
 
+// Parse a usage month (YYYY-MM or any date) to the first day of the month in local time
+function parseMonth(value: string): Date | null {
+  const ymMatch = value.trim().match(/^(\d{4})-(\d{1,2})$/);
+  if (ymMatch) {
+    const month = parseInt(ymMatch[2]);
+    return month >= 1 && month <= 12 ? new Date(parseInt(ymMatch[1]), month - 1, 1) : null;
+  }
+
+  const date = parseDate(value);
+  return date ? new Date(date.getFullYear(), date.getMonth(), 1) : null;
+}
+
+// Parse a calendar day (YYYY-MM-DD or any date) to local midnight
+function parseDay(value: string): Date | null {
+  const ymdMatch = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (ymdMatch) {
+    const date = new Date(parseInt(ymdMatch[1]), parseInt(ymdMatch[2]) - 1, parseInt(ymdMatch[3]));
+    return date.getMonth() === parseInt(ymdMatch[2]) - 1 ? date : null;
+  }
+
+  const date = parseDate(value);
+  return date ? new Date(date.getFullYear(), date.getMonth(), date.getDate()) : null;
+}
+
 // Parse number from string
 function parseNumber(value: string): number {
   if (!value || value.trim() === '') return 0;
@@ -317,6 +380,279 @@ export function parseRcbcClientsCSV(csvContent: string): ParseResult<RcbcClientC
   return result;
 }
 
+// Validate and parse contract usage CSV
+export function parseUsageCSV(csvContent: string): ParseResult<UsageCSVRow> {
+  const rows = parseCSV(csvContent);
+  if (rows.length < 2) {
+    return {
+      success: false,
+      data: [],
+      errors: [{ row: 0, message: 'CSV must have at least a header row and one data row' }],
+      totalRows: 0,
+      validRows: 0,
+      skippedRows: 0,
+    };
+  }
+
+  const headers = rows[0].map(h => h.toLowerCase().trim());
+  const result: ParseResult<UsageCSVRow> = {
+    success: true,
+    data: [],
+    errors: [],
+    totalRows: rows.length - 1,
+    validRows: 0,
+    skippedRows: 0,
+  };
+
+  // Required columns (contracts are matched by customerNumber, falling back to companyName)
+  const requiredColumns = ['month', 'quantity'];
+  const missingColumns = requiredColumns.filter(col => !headers.includes(col));
+  if (!headers.includes('customernumber') && !headers.includes('companyname')) {
+    missingColumns.unshift('customerNumber or companyName');
+  }
+  if (missingColumns.length > 0) {
+    result.success = false;
+    result.errors.push({
+      row: 0,
+      message: `Missing required columns: ${missingColumns.join(', ')}`,
+    });
+    return result;
+  }
+
+  // Column index mapping
+  const colIndex: Record<string, number> = {};
+  headers.forEach((h, i) => {
+    colIndex[h] = i;
+  });
+
+  // Parse data rows
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    const rowErrors: string[] = [];
+
+    // Skip empty rows
+    if (row.every(cell => !cell.trim())) {
+      result.skippedRows++;
+      continue;
+    }
+
+    const getValue = (col: string): string => (colIndex[col] !== undefined ? row[colIndex[col]] || '' : '');
+
+    const customerNumber = getValue('customernumber');
+    const companyName = getValue('companyname');
+    const monthStr = getValue('month');
+    const month = parseMonth(monthStr);
+    const quantityStr = getValue('quantity').replace(/,/g, '');
+    const quantity = Number(quantityStr);
+
+    // Validate required fields
+    if (!customerNumber && !companyName) rowErrors.push('Missing customerNumber or companyName');
+    if (!month) rowErrors.push(`Invalid month format: ${monthStr}. Use YYYY-MM format.`);
+    if (!quantityStr || !Number.isInteger(quantity) || quantity < 0) {
+      rowErrors.push(`Invalid quantity: ${getValue('quantity')}. Use a whole number.`);
+    }
+
+    if (rowErrors.length > 0) {
+      result.errors.push({ row: i + 1, message: rowErrors.join('; ') });
+      result.skippedRows++;
+      continue;
+    }
+
+    const usageRow: UsageCSVRow = {
+      row: i + 1,
+      customerNumber: customerNumber || undefined,
+      companyName: companyName || undefined,
+      month: month!,
+      metric: getValue('metric').toUpperCase() || 'HEADCOUNT',
+      unit: getValue('unit') || 'employees',
+      quantity,
+      notes: getValue('notes') || undefined,
+    };
+
+    result.data.push(usageRow);
+    result.validRows++;
+  }
+
+  result.success = result.errors.length === 0 || result.validRows > 0;
+  return result;
+}
+
+// Parse a bank statement date, reading slash dates in the statement's day/month order
+function parseStatementDate(value: string, dateFormat: BankColumnMapping['dateFormat'] = 'MDY'): Date | null {
+  const slashMatch = value.trim().match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/);
+  if (slashMatch) {
+    const [first, second] = [parseInt(slashMatch[1]), parseInt(slashMatch[2])];
+    const [month, day] = dateFormat === 'DMY' ? [second, first] : [first, second];
+    const year = slashMatch[3].length === 2 ? 2000 + parseInt(slashMatch[3]) : parseInt(slashMatch[3]);
+    const date = new Date(year, month - 1, day);
+    return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+  }
+
+  return parseDay(value);
+}
+
+// Validate and parse a bank statement CSV using the given column mapping.
+// Banks put account details above the header, so the header is the first row with the date and description columns.
+export function parseBankStatementCSV(
+  csvContent: string,
+  mapping: BankColumnMapping
+): ParseResult<BankStatementCSVRow> {
+  const rows = parseCSV(csvContent);
+  const result: ParseResult<BankStatementCSVRow> = {
+    success: false,
+    data: [],
+    errors: [],
+    totalRows: 0,
+    validRows: 0,
+    skippedRows: 0,
+  };
+
+  if (!mapping.credit && !mapping.amount) {
+    result.errors.push({ row: 0, message: 'Column mapping needs a credit or amount column' });
+    return result;
+  }
+
+  const normalize = (h: string) => h.toLowerCase().trim();
+  const headerIndex = rows.findIndex((row) => {
+    const cells = row.map(normalize);
+    return cells.includes(normalize(mapping.date)) && cells.includes(normalize(mapping.description));
+  });
+  if (headerIndex === -1) {
+    result.errors.push({
+      row: 0,
+      message: `Header row with columns "${mapping.date}" and "${mapping.description}" not found`,
+    });
+    return result;
+  }
+
+  const headers = rows[headerIndex].map(normalize);
+  const column = (name?: string) => (name ? headers.indexOf(normalize(name)) : -1);
+  // The reference column is optional - not every export of a bank's statement has one
+  const missingColumns = [mapping.credit, mapping.debit, mapping.amount]
+    .filter((name): name is string => !!name && column(name) === -1);
+  if (missingColumns.length > 0) {
+    result.errors.push({ row: headerIndex + 1, message: `Missing required columns: ${missingColumns.join(', ')}` });
+    return result;
+  }
+
+  result.totalRows = rows.length - headerIndex - 1;
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const row = rows[i];
+    const getValue = (name?: string): string => {
+      const index = column(name);
+      return index === -1 ? '' : (row[index] || '').trim();
+    };
+
+    // Skip empty rows
+    if (row.every(cell => !cell.trim())) {
+      result.skippedRows++;
+      continue;
+    }
+
+    // Withdrawals and footer rows (totals, closing balance) carry no credit
+    const amount = mapping.amount ? parseNumber(getValue(mapping.amount)) : parseNumber(getValue(mapping.credit));
+    if (amount <= 0) {
+      result.skippedRows++;
+      continue;
+    }
+
+    const dateStr = getValue(mapping.date);
+    const transactionDate = parseStatementDate(dateStr, mapping.dateFormat);
+    const description = getValue(mapping.description);
+
+    const rowErrors: string[] = [];
+    if (!transactionDate) rowErrors.push(`Invalid date format: ${dateStr}`);
+    if (!description) rowErrors.push('Missing description');
+
+    if (rowErrors.length > 0) {
+      result.errors.push({ row: i + 1, message: rowErrors.join('; ') });
+      result.skippedRows++;
+      continue;
+    }
+
+    result.data.push({
+      row: i + 1,
+      transactionDate: transactionDate!,
+      description,
+      reference: getValue(mapping.reference) || undefined,
+      amount: Math.round(amount * 100) / 100,
+    });
+    result.validRows++;
+  }
+
+  result.success = result.errors.length === 0 || result.validRows > 0;
+  return result;
+}
+
+// Validate and parse holiday calendar CSV
+export function parseHolidaysCSV(csvContent: string): ParseResult<HolidayCSVRow> {
+  const rows = parseCSV(csvContent);
+  if (rows.length < 2) {
+    return {
+      success: false,
+      data: [],
+      errors: [{ row: 0, message: 'CSV must have at least a header row and one data row' }],
+      totalRows: 0,
+      validRows: 0,
+      skippedRows: 0,
+    };
+  }
+
+  const headers = rows[0].map(h => h.toLowerCase().trim());
+  const result: ParseResult<HolidayCSVRow> = {
+    success: true,
+    data: [],
+    errors: [],
+    totalRows: rows.length - 1,
+    validRows: 0,
+    skippedRows: 0,
+  };
+
+  const missingColumns = ['date', 'name'].filter(col => !headers.includes(col));
+  if (missingColumns.length > 0) {
+    result.success = false;
+    result.errors.push({
+      row: 0,
+      message: `Missing required columns: ${missingColumns.join(', ')}`,
+    });
+    return result;
+  }
+
+  const dateIndex = headers.indexOf('date');
+  const nameIndex = headers.indexOf('name');
+
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+
+    // Skip empty rows
+    if (row.every(cell => !cell.trim())) {
+      result.skippedRows++;
+      continue;
+    }
+
+    const dateStr = row[dateIndex] || '';
+    const date = parseDay(dateStr);
+    const name = (row[nameIndex] || '').trim();
+
+    const rowErrors: string[] = [];
+    if (!date) rowErrors.push(`Invalid date format: ${dateStr}. Use YYYY-MM-DD format.`);
+    if (!name) rowErrors.push('Missing name');
+
+    if (rowErrors.length > 0) {
+      result.errors.push({ row: i + 1, message: rowErrors.join('; ') });
+      result.skippedRows++;
+      continue;
+    }
+
+    result.data.push({ row: i + 1, date: date!, name });
+    result.validRows++;
+  }
+
+  result.success = result.errors.length === 0 || result.validRows > 0;
+  return result;
+}
+
 // Generate CSV template for contracts
 export function generateContractsTemplate(): string {
   const headers = [
@@ -372,3 +708,26 @@ export function generateRcbcClientsTemplate(): string {
 
   return headers.join(',') + '\n' + sampleRows.map(r => r.join(',')).join('\n');
 }
+
+// Generate CSV template for contract usage
+export function generateUsageTemplate(): string {
+  const headers = ['customerNumber', 'companyName', 'month', 'metric', 'unit', 'quantity', 'notes'];
+  const sampleRows = [
+    ['YOWI-0001', 'Sample Company Inc.', '2026-01', 'HEADCOUNT', 'employees', '150', ''],
+    ['YOWI-0002', 'Another Client Corp.', '2026-01', 'HEADCOUNT', 'employees', '85', 'Includes 5 new hires'],
+  ];
+
+  return headers.join(',') + '\n' + sampleRows.map(r => r.join(',')).join('\n');
+}
+
+// Generate CSV template for the holiday calendar
+export function generateHolidaysTemplate(): string {
+  const headers = ['date', 'name'];
+  const sampleRows = [
+    ['2026-01-01', "New Year's Day"],
+    ['2026-04-09', 'Araw ng Kagitingan'],
+    ['2026-06-12', 'Independence Day'],
+  ];
+
+  return headers.join(',') + '\n' + sampleRows.map(r => r.join(',')).join('\n');
+}
@@ -2,6 +2,7 @@
 import nodemailer from 'nodemailer';
 import prisma from './prisma';
 import { EmailStatus } from '@/generated/prisma';
+import { decryptSecret } from './encryption';
 
 // Email configuration
 interface EmailConfig {
@@ -34,8 +35,14 @@ export interface EmailPlaceholderData {
   periodEnd: string;
   companyName: string;
   clientCompanyName: string; // The actual client company name (from contract)
-  paymentUrl?: string; // HitPay checkout URL for online payment
+  paymentUrl?: string; // Live payment link checkout URL for online payment
   daysOverdue?: string; // For follow-up emails
+  withholdingAmount?: string; // For BIR 2307 reminders
+  taxQuarter?: string; // For BIR 2307 reminders, e.g. "Q1 2025"
+  atcCode?: string; // For BIR 2307 reminders
+  previousAmount?: string; // For price change notices
+  effectiveDate?: string; // For price change notices
+  changeReason?: string; // For price change notices
 }
 
 // Additional email attachment (for invoice attachments from database)
@@ -56,9 +63,60 @@ export interface EmailTemplateContent {
   isDefault: boolean;
 }
 
+// Resolved sending identity for a billing entity
+export interface EmailSender {
+  transporter: nodemailer.Transporter;
+  fromEmail: string;
+  fromName: string;
+  replyTo?: string;
+  bccEmail?: string;
+}
+
+// Result of queueing an email in the outbox
+export interface QueueEmailResult {
+  success: boolean;
+  emailLogId?: string;
+  error?: string;
+}
+
+// Outcome of a single delivery attempt
+interface EmailDeliveryResult {
+  status: 'SENT' | 'RETRYING' | 'FAILED' | 'SKIPPED';
+  messageId?: string;
+  error?: string;
+}
+
+// Summary of one email queue worker run
+export interface EmailQueueResult {
+  processed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+// Attachment as stored on a queued email (content is base64)
+type QueuedAttachment = {
+  filename: string;
+  contentType: string;
+  content: string;
+};
+
+// Outbox retry policy
+export const EMAIL_MAX_ATTEMPTS = 5;
+const EMAIL_RETRY_BASE_DELAY_MS = 60 * 1000; // Doubled after every failed attempt
+const EMAIL_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const EMAIL_SEND_LEASE_MS = 10 * 60 * 1000; // Claimed emails are hidden from other workers this long
+
+// Connection-level nodemailer error codes that are worth retrying
+const TRANSIENT_ERROR_CODES = ['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNRESET', 'ECONNREFUSED'];
+
 let transporter: nodemailer.Transporter | null = null;
 let emailConfig: EmailConfig | null = null;
 
+// Transporters for billing entities with their own SMTP credentials, keyed by company id.
+// Entries are rebuilt when the company record changes.
+const companyTransporters = new Map<string, { transporter: nodemailer.Transporter; updatedAt: number }>();
+
 // Initialize email service with Google Workspace SMTP
 export function initEmailService(config: EmailConfig) {
   emailConfig = config;
@@ -98,6 +156,78 @@ export function initEmailServiceFromEnv() {
   initEmailService(config);
 }
 
+/**
+ * Resolve the sender for a billing entity.
+ * Entities with their own SMTP credentials get their own transporter; otherwise the
+ * environment transporter is used with the entity's from-name/address, reply-to and BCC.
+ */
+export async function getEmailSender(companyId: string | null): Promise<EmailSender | null> {
+  const defaultSender: EmailSender | null = transporter && emailConfig
+    ? {
+        transporter,
+        fromEmail: emailConfig.fromEmail,
+        fromName: emailConfig.fromName,
+        replyTo: emailConfig.replyTo,
+        bccEmail: emailConfig.bccEmail,
+      }
+    : null;
+
+  if (!companyId) return defaultSender;
+
+  const company = await prisma.company.findUnique({
+    where: { id: companyId },
+    select: {
+      id: true,
+      name: true,
+      updatedAt: true,
+      emailFromName: true,
+      emailFromAddress: true,
+      emailReplyTo: true,
+      emailBcc: true,
+      smtpHost: true,
+      smtpPort: true,
+      smtpSecure: true,
+      smtpUser: true,
+      smtpPassword: true,
+    },
+  });
+
+  if (!company) return defaultSender;
+
+  let senderTransporter = defaultSender?.transporter || null;
+  if (company.smtpHost && company.smtpUser && company.smtpPassword) {
+    const cached = companyTransporters.get(company.id);
+    if (cached && cached.updatedAt === company.updatedAt.getTime()) {
+      senderTransporter = cached.transporter;
+    } else {
+      senderTransporter = nodemailer.createTransport({
+        host: company.smtpHost,
+        port: company.smtpPort || 587,
+        secure: company.smtpSecure,
+        auth: {
+          user: company.smtpUser,
+          pass: decryptSecret(company.smtpPassword),
+        },
+      });
+      companyTransporters.set(company.id, {
+        transporter: senderTransporter,
+        updatedAt: company.updatedAt.getTime(),
+      });
+      console.log('[Email Service] Initialized SMTP for company:', company.name, company.smtpHost);
+    }
+  }
+
+  if (!senderTransporter) return null;
+
+  return {
+    transporter: senderTransporter,
+    fromName: company.emailFromName || defaultSender?.fromName || company.name,
+    fromEmail: company.emailFromAddress || defaultSender?.fromEmail || company.smtpUser || '',
+    replyTo: company.emailReplyTo || defaultSender?.replyTo,
+    bccEmail: company.emailBcc || defaultSender?.bccEmail,
+  };
+}
+
 // Verify SMTP connection
 export async function verifyEmailConnection(): Promise<boolean> {
   if (!transporter) {
@@ -160,6 +290,51 @@ export async function getFollowUpTemplate(level: number): Promise<EmailTemplateC
   }
 }
 
+// Get the BIR 2307 reminder template
+export async function getBir2307Template(): Promise<EmailTemplateContent | null> {
+  try {
+    const template = await prisma.emailTemplate.findFirst({
+      where: { templateType: 'BIR_2307' },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return template;
+  } catch (error) {
+    console.error('[Email Service] Failed to fetch BIR 2307 template:', error);
+    return null;
+  }
+}
+
+// Get the customer statement of account template
+export async function getStatementTemplate(): Promise<EmailTemplateContent | null> {
+  try {
+    const template = await prisma.emailTemplate.findFirst({
+      where: { templateType: 'STATEMENT' },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return template;
+  } catch (error) {
+    console.error('[Email Service] Failed to fetch statement template:', error);
+    return null;
+  }
+}
+
+// Get the advance notice template for scheduled billing amount changes
+export async function getPriceChangeTemplate(): Promise<EmailTemplateContent | null> {
+  try {
+    const template = await prisma.emailTemplate.findFirst({
+      where: { templateType: 'PRICE_CHANGE' },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return template;
+  } catch (error) {
+    console.error('[Email Service] Failed to fetch price change template:', error);
+    return null;
+  }
+}
+
 // Replace placeholders in template text
 export function replacePlaceholders(text: string, data: EmailPlaceholderData): string {
   let result = text
@@ -170,13 +345,37 @@ export function replacePlaceholders(text: string, data: EmailPlaceholderData): s
     .replace(/\{\{periodStart\}\}/g, data.periodStart)
     .replace(/\{\{periodEnd\}\}/g, data.periodEnd)
     .replace(/\{\{companyName\}\}/g, data.companyName)
-    .replace(/\{\{clientCompanyName\}\}/g, data.clientCompanyName);
+    .replace(/\{\{clientCompanyName\}\}/g, data.clientCompanyName)
+    // Blank when online payment isn't offered, so the raw placeholder never reaches the customer
+    .replace(/\{\{paymentUrl\}\}/g, data.paymentUrl || '');
 
   // Add daysOverdue placeholder for follow-up emails
   if (data.daysOverdue !== undefined) {
     result = result.replace(/\{\{daysOverdue\}\}/g, data.daysOverdue);
   }
 
+  // Add withholding placeholders for BIR 2307 reminders
+  if (data.withholdingAmount !== undefined) {
+    result = result.replace(/\{\{withholdingAmount\}\}/g, data.withholdingAmount);
+  }
+  if (data.taxQuarter !== undefined) {
+    result = result.replace(/\{\{taxQuarter\}\}/g, data.taxQuarter);
+  }
+  if (data.atcCode !== undefined) {
+    result = result.replace(/\{\{atcCode\}\}/g, data.atcCode);
+  }
+
+  // Add price change placeholders for advance notices
+  if (data.previousAmount !== undefined) {
+    result = result.replace(/\{\{previousAmount\}\}/g, data.previousAmount);
+  }
+  if (data.effectiveDate !== undefined) {
+    result = result.replace(/\{\{effectiveDate\}\}/g, data.effectiveDate);
+  }
+  if (data.changeReason !== undefined) {
+    result = result.replace(/\{\{changeReason\}\}/g, data.changeReason);
+  }
+
   return result;
 }
 
@@ -339,8 +538,9 @@ export function generateEmailHtml(data: EmailTemplateData): string {
   `;
 }
 
-// Send billing email
-export async function sendBillingEmail(
+// Queue a billing email in the outbox. The email is stored with its full content and
+// attachments and delivered by the email queue worker (see processEmailQueue).
+export async function queueBillingEmail(
   invoiceId: string,
   toEmails: string | string[],  // Accept single email or array
   subject: string,
@@ -348,138 +548,365 @@ export async function sendBillingEmail(
   htmlBody?: string,
   pdfAttachment?: Buffer,
   pdfFilename?: string,
-  additionalAttachments?: EmailAttachment[]  // Additional files to attach
-): Promise<{ success: boolean; messageId?: string; error?: string }> {
-  if (!transporter || !emailConfig) {
-    return { success: false, error: 'Email service not configured' };
+  additionalAttachments?: EmailAttachment[],  // Additional files to attach
+  ccEmails?: string | string[]  // e.g. escalation recipients on follow-ups
+): Promise<QueueEmailResult> {
+  // Normalize to comma-separated strings for nodemailer (supports multiple recipients)
+  const emailString = Array.isArray(toEmails) ? toEmails.join(', ') : toEmails;
+  const ccString = Array.isArray(ccEmails) ? ccEmails.join(', ') : ccEmails;
+
+  if (!emailString) {
+    return { success: false, error: 'No recipients' };
   }
 
-  // Normalize to comma-separated string for nodemailer (supports multiple recipients)
-  const emailString = Array.isArray(toEmails) ? toEmails.join(', ') : toEmails;
+  // Attachments are stored base64-encoded so the worker can rebuild the email later
+  const attachments: QueuedAttachment[] = [];
+
+  if (pdfAttachment && pdfFilename) {
+    attachments.push({
+      filename: pdfFilename,
+      contentType: 'application/pdf',
+      content: pdfAttachment.toString('base64'),
+    });
+  }
+
+  for (const att of additionalAttachments || []) {
+    attachments.push({
+      filename: att.filename,
+      contentType: att.contentType,
+      content: att.content.toString('base64'),
+    });
+  }
 
-  // Log the email attempt (store all recipients)
   const emailLog = await prisma.emailLog.create({
     data: {
       invoiceId,
       toEmail: emailString,
+      ccEmail: ccString || null,
       subject,
+      body,
+      htmlBody,
+      attachments: attachments.length > 0 ? attachments : undefined,
       status: EmailStatus.QUEUED,
+      maxAttempts: EMAIL_MAX_ATTEMPTS,
     },
   });
 
-  try {
-    const mailOptions: nodemailer.SendMailOptions = {
-      from: {
-        name: emailConfig.fromName,
-        address: emailConfig.fromEmail,
-      },
-      to: emailString,  // Nodemailer supports comma-separated emails
-      replyTo: emailConfig.replyTo || emailConfig.fromEmail,
-      subject,
-      text: body,
-      html: htmlBody,
-    };
+  await prisma.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      emailStatus: EmailStatus.QUEUED,
+      emailError: null,
+    },
+  });
 
-    // Add BCC for tracking
-    if (emailConfig.bccEmail) {
-      mailOptions.bcc = emailConfig.bccEmail;
-    }
+  return { success: true, emailLogId: emailLog.id };
+}
 
-    // Build attachments array
-    const attachments: Array<{
-      filename: string;
-      content: Buffer;
-      contentType: string;
-    }> = [];
-
-    // Add PDF attachment if provided
-    if (pdfAttachment && pdfFilename) {
-      attachments.push({
-        filename: pdfFilename,
-        content: pdfAttachment,
-        contentType: 'application/pdf',
-      });
-    }
+// Send billing email now. The email goes through the outbox, so a transient failure
+// leaves it queued for the worker to retry instead of failing the caller; queued: true
+// then means the email has not been delivered yet.
+export async function sendBillingEmail(
+  invoiceId: string,
+  toEmails: string | string[],  // Accept single email or array
+  subject: string,
+  body: string,
+  htmlBody?: string,
+  pdfAttachment?: Buffer,
+  pdfFilename?: string,
+  additionalAttachments?: EmailAttachment[],  // Additional files to attach
+  ccEmails?: string | string[]  // e.g. escalation recipients on follow-ups
+): Promise<{ success: boolean; emailLogId?: string; messageId?: string; queued?: boolean; error?: string }> {
+  const queued = await queueBillingEmail(
+    invoiceId,
+    toEmails,
+    subject,
+    body,
+    htmlBody,
+    pdfAttachment,
+    pdfFilename,
+    additionalAttachments,
+    ccEmails
+  );
+
+  if (!queued.success || !queued.emailLogId) {
+    return { success: false, error: queued.error };
+  }
 
-    // Add additional attachments (from invoice attachments)
-    if (additionalAttachments && additionalAttachments.length > 0) {
-      for (const att of additionalAttachments) {
-        attachments.push({
-          filename: att.filename,
-          content: att.content,
-          contentType: att.contentType,
-        });
-      }
-    }
+  const delivery = await deliverQueuedEmail(queued.emailLogId);
 
-    if (attachments.length > 0) {
-      mailOptions.attachments = attachments;
-    }
+  if (delivery.status === 'FAILED') {
+    return { success: false, emailLogId: queued.emailLogId, error: delivery.error };
+  }
 
-    const result = await transporter.sendMail(mailOptions);
-    const messageId = result.messageId;
+  return {
+    success: true,
+    emailLogId: queued.emailLogId,
+    messageId: delivery.messageId,
+    queued: delivery.status !== 'SENT',
+  };
+}
 
-    console.log('[Email Service] Email sent successfully:', messageId);
+/**
+ * Delay before the next delivery attempt: 1, 2, 4, 8... minutes, capped at an hour
+ */
+export function getEmailRetryDelay(attempt: number): number {
+  return Math.min(EMAIL_RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0), EMAIL_RETRY_MAX_DELAY_MS);
+}
 
-    // Update email log
-    await prisma.emailLog.update({
-      where: { id: emailLog.id },
-      data: {
-        status: EmailStatus.SENT,
-        sendGridId: messageId, // Reusing field for message ID
-        sentAt: new Date(),
-      },
-    });
+/**
+ * Whether a send error is worth retrying.
+ * SMTP 4xx replies and connection-level failures are transient; 5xx replies, rejected
+ * envelopes and authentication failures are permanent.
+ */
+export function isTransientEmailError(error: unknown): boolean {
+  const { responseCode, code } = (error || {}) as { responseCode?: number; code?: string };
 
-    // Update invoice email status
-    await prisma.invoice.update({
-      where: { id: invoiceId },
-      data: {
-        emailStatus: EmailStatus.SENT,
-        emailSentAt: new Date(),
-      },
-    });
+  if (typeof responseCode === 'number') {
+    return responseCode >= 400 && responseCode < 500;
+  }
 
-    return { success: true, messageId };
+  return !!code && TRANSIENT_ERROR_CODES.includes(code);
+}
+
+// Record a delivered email on the log and the invoice
+async function markEmailSent(emailLogId: string, invoiceId: string, messageId: string): Promise<EmailDeliveryResult> {
+  await prisma.emailLog.update({
+    where: { id: emailLogId },
+    data: {
+      status: EmailStatus.SENT,
+      sendGridId: messageId, // Reusing field for message ID
+      sentAt: new Date(),
+      error: null,
+    },
+  });
+
+  await prisma.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      emailStatus: EmailStatus.SENT,
+      emailSentAt: new Date(),
+      emailError: null,
+    },
+  });
+
+  // A follow-up sent through this email is now delivered
+  await prisma.followUpLog.updateMany({
+    where: { emailLogId },
+    data: { status: EmailStatus.SENT, messageId, sentAt: new Date(), error: null },
+  });
+
+  return { status: 'SENT', messageId };
+}
+
+// Give up on an email and record the reason on the log and the invoice
+async function markEmailFailed(emailLogId: string, invoiceId: string, error: string): Promise<EmailDeliveryResult> {
+  console.error('[Email Service] Email failed permanently:', error);
+
+  await prisma.emailLog.update({
+    where: { id: emailLogId },
+    data: {
+      status: EmailStatus.FAILED,
+      error,
+    },
+  });
+
+  await prisma.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      emailStatus: EmailStatus.FAILED,
+      emailError: error,
+    },
+  });
+
+  await prisma.followUpLog.updateMany({
+    where: { emailLogId },
+    data: { status: EmailStatus.FAILED, error },
+  });
+
+  return { status: 'FAILED', error };
+}
+
+// Schedule another attempt with backoff, or give up once the attempts are used up
+async function retryOrFailEmail(
+  emailLog: { id: string; invoiceId: string; maxAttempts: number },
+  attempt: number,
+  error: string
+): Promise<EmailDeliveryResult> {
+  if (attempt >= emailLog.maxAttempts) {
+    return markEmailFailed(emailLog.id, emailLog.invoiceId, `${error} (gave up after ${attempt} attempts)`);
+  }
+
+  const nextAttemptAt = new Date(Date.now() + getEmailRetryDelay(attempt));
+  console.warn(`[Email Service] Attempt ${attempt} failed, retrying at ${nextAttemptAt.toISOString()}:`, error);
+
+  await prisma.emailLog.update({
+    where: { id: emailLog.id },
+    data: { nextAttemptAt, error },
+  });
+
+  // Invoice stays QUEUED; surface the last error while retrying
+  await prisma.invoice.update({
+    where: { id: emailLog.invoiceId },
+    data: { emailError: error },
+  });
+
+  return { status: 'RETRYING', error };
+}
+
+/**
+ * Make one delivery attempt for a queued email.
+ * The email is claimed first (attempt counter + lease) so concurrent workers never send it twice.
+ */
+async function deliverQueuedEmail(emailLogId: string): Promise<EmailDeliveryResult> {
+  const emailLog = await prisma.emailLog.findUnique({
+    where: { id: emailLogId },
+    include: { invoice: { select: { companyId: true } } },
+  });
+
+  if (!emailLog || emailLog.status !== EmailStatus.QUEUED) {
+    return { status: 'SKIPPED' };
+  }
+
+  const now = new Date();
+  const claimed = await prisma.emailLog.updateMany({
+    where: { id: emailLog.id, status: EmailStatus.QUEUED, attempts: emailLog.attempts },
+    data: {
+      attempts: { increment: 1 },
+      lastAttemptAt: now,
+      nextAttemptAt: new Date(now.getTime() + EMAIL_SEND_LEASE_MS),
+    },
+  });
+
+  if (claimed.count === 0) {
+    return { status: 'SKIPPED' };
+  }
+
+  const attempt = emailLog.attempts + 1;
+
+  // Rows logged before the outbox existed have no stored content
+  if (emailLog.body === null) {
+    return markEmailFailed(emailLog.id, emailLog.invoiceId, 'Email content not available for delivery');
+  }
+
+  // Send from the invoice's billing entity
+  let sender: EmailSender | null;
+  try {
+    sender = await getEmailSender(emailLog.invoice.companyId);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error('[Email Service] Failed to send email:', errorMessage);
-
-    // Update email log with error
-    await prisma.emailLog.update({
-      where: { id: emailLog.id },
-      data: {
-        status: EmailStatus.FAILED,
-        error: errorMessage,
-      },
-    });
+    return markEmailFailed(emailLog.id, emailLog.invoiceId, `Email sender misconfigured: ${errorMessage}`);
+  }
 
-    // Update invoice email status
-    await prisma.invoice.update({
-      where: { id: invoiceId },
-      data: {
-        emailStatus: EmailStatus.FAILED,
-        emailError: errorMessage,
-      },
-    });
+  if (!sender) {
+    return retryOrFailEmail(emailLog, attempt, 'Email service not configured');
+  }
 
-    return { success: false, error: errorMessage };
+  const mailOptions: nodemailer.SendMailOptions = {
+    from: {
+      name: sender.fromName,
+      address: sender.fromEmail,
+    },
+    to: emailLog.toEmail,  // Nodemailer supports comma-separated emails
+    replyTo: sender.replyTo || sender.fromEmail,
+    subject: emailLog.subject,
+    text: emailLog.body,
+    html: emailLog.htmlBody || undefined,
+  };
+
+  // Add CC recipients if provided
+  if (emailLog.ccEmail) {
+    mailOptions.cc = emailLog.ccEmail;
+  }
+
+  // Add BCC for tracking
+  if (sender.bccEmail) {
+    mailOptions.bcc = sender.bccEmail;
+  }
+
+  const attachments = (emailLog.attachments as QueuedAttachment[] | null) || [];
+  if (attachments.length > 0) {
+    mailOptions.attachments = attachments.map((att) => ({
+      filename: att.filename,
+      content: Buffer.from(att.content, 'base64'),
+      contentType: att.contentType,
+    }));
+  }
+
+  try {
+    const result = await sender.transporter.sendMail(mailOptions);
+    console.log('[Email Service] Email sent successfully:', result.messageId);
+
+    return markEmailSent(emailLog.id, emailLog.invoiceId, result.messageId);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (isTransientEmailError(error)) {
+      return retryOrFailEmail(emailLog, attempt, errorMessage);
+    }
+
+    return markEmailFailed(emailLog.id, emailLog.invoiceId, errorMessage);
   }
 }
 
-// Send test email
-export async function sendTestEmail(toEmail: string): Promise<{ success: boolean; messageId?: string; error?: string }> {
-  if (!transporter || !emailConfig) {
-    return { success: false, error: 'Email service not configured' };
+/**
+ * Drain the email outbox: attempt every queued email whose next attempt is due.
+ * Called by the scheduler's email queue worker.
+ */
+export async function processEmailQueue(batchSize: number = 20): Promise<EmailQueueResult> {
+  const dueEmails = await prisma.emailLog.findMany({
+    where: {
+      status: EmailStatus.QUEUED,
+      nextAttemptAt: { lte: new Date() },
+    },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+    take: batchSize,
+  });
+
+  const summary: EmailQueueResult = { processed: 0, sent: 0, retrying: 0, failed: 0 };
+  if (dueEmails.length === 0) return summary;
+
+  if (!transporter) {
+    initEmailServiceFromEnv();
   }
 
+  for (const { id } of dueEmails) {
+    try {
+      const result = await deliverQueuedEmail(id);
+      if (result.status === 'SKIPPED') continue;
+
+      summary.processed++;
+      if (result.status === 'SENT') summary.sent++;
+      if (result.status === 'RETRYING') summary.retrying++;
+      if (result.status === 'FAILED') summary.failed++;
+    } catch (error) {
+      // Leave the email queued; its lease expires and the next run picks it up again
+      console.error(`[Email Service] Error delivering queued email ${id}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+// Send test email (from a billing entity's sender when companyId is given)
+export async function sendTestEmail(
+  toEmail: string,
+  companyId: string | null = null
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
   try {
-    const result = await transporter.sendMail({
+    const sender = await getEmailSender(companyId);
+    if (!sender) {
+      return { success: false, error: 'Email service not configured' };
+    }
+
+    const result = await sender.transporter.sendMail({
       from: {
-        name: emailConfig.fromName,
-        address: emailConfig.fromEmail,
+        name: sender.fromName,
+        address: sender.fromEmail,
       },
       to: toEmail,
+      replyTo: sender.replyTo || sender.fromEmail,
       subject: 'Test Email - YAHSHUA-ABBA Billing System',
       text: 'This is a test email from the YAHSHUA-ABBA Billing Agent system. If you received this, email delivery is working correctly!',
       html: `
@@ -501,25 +928,44 @@ export async function sendTestEmail(toEmail: string): Promise<{ success: boolean
   }
 }
 
-// Retry failed emails
-export async function retryFailedEmails(maxRetries: number = 3): Promise<number> {
-  const failedEmails = await prisma.emailLog.findMany({
-    where: {
-      status: EmailStatus.FAILED,
-    },
-    include: {
-      invoice: true,
-    },
-    take: 10, // Process in batches
-  });
+// Send a notice that is not tied to an invoice (e.g. price change notices) from a billing entity's sender.
+// Sent directly rather than through the outbox; callers retry on their next run.
+export async function sendNoticeEmail(
+  companyId: string | null,
+  toEmails: string | string[],
+  subject: string,
+  body: string,
+  htmlBody?: string
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  const emailString = Array.isArray(toEmails) ? toEmails.join(', ') : toEmails;
+  if (!emailString) {
+    return { success: false, error: 'No recipients' };
+  }
 
-  let retried = 0;
+  try {
+    const sender = await getEmailSender(companyId);
+    if (!sender) {
+      return { success: false, error: 'Email service not configured' };
+    }
 
-  for (const emailLog of failedEmails) {
-    console.log(`[Email Service] Retrying email for invoice ${emailLog.invoiceId}`);
-    // Implement retry logic here
-    retried++;
-  }
+    const result = await sender.transporter.sendMail({
+      from: {
+        name: sender.fromName,
+        address: sender.fromEmail,
+      },
+      to: emailString,
+      replyTo: sender.replyTo || sender.fromEmail,
+      ...(sender.bccEmail && { bcc: sender.bccEmail }),
+      subject,
+      text: body,
+      html: htmlBody,
+    });
 
-  return retried;
+    console.log('[Email Service] Notice email sent:', result.messageId);
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Email Service] Notice email failed:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
 }
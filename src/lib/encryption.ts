@@ -0,0 +1,40 @@
+// Encryption helpers for secrets stored in the database (e.g. per-entity SMTP passwords)
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+// Derive a 32-byte key from EMAIL_ENCRYPTION_KEY (or the NextAuth secret as a fallback)
+function getKey(): Buffer {
+  const secret = process.env.EMAIL_ENCRYPTION_KEY || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('EMAIL_ENCRYPTION_KEY is not configured');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a secret as "iv:authTag:ciphertext" (base64 parts)
+ */
+export function encryptSecret(plainText: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv, authTag, encrypted].map((part) => part.toString('base64')).join(':');
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ */
+export function decryptSecret(encrypted: string): string {
+  const [iv, authTag, cipherText] = encrypted.split(':').map((part) => Buffer.from(part, 'base64'));
+  if (!iv || !authTag || !cipherText) {
+    throw new Error('Invalid encrypted secret');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(cipherText), decipher.final()]).toString('utf8');
+}
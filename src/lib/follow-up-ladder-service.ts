@@ -0,0 +1,215 @@
+// Follow-up ladder service - configurable escalation levels per billing entity and partner
+import prisma from './prisma';
+import { FollowUpAction } from '@/generated/prisma';
+import { getDunningSettings } from './settings';
+import { parseEmails, joinEmails, validateEmails } from './utils';
+
+export const FOLLOW_UP_ACTIONS: FollowUpAction[] = [
+  FollowUpAction.NONE,
+  FollowUpAction.CC_ACCOUNT_MANAGER,
+  FollowUpAction.SUSPEND_AUTO_BILLING,
+];
+
+export type FollowUpLadderScope = 'PARTNER' | 'COMPANY' | 'DEFAULT';
+
+export interface FollowUpLadderLevel {
+  level: number;
+  delayDays: number;
+  templateId: string | null;
+  extraRecipients: string[];
+  action: FollowUpAction;
+}
+
+export interface FollowUpLadder {
+  scope: FollowUpLadderScope;
+  companyId: string | null;
+  partnerId: string | null;
+  levels: FollowUpLadderLevel[];
+}
+
+export interface FollowUpLadderLevelInput {
+  delayDays: number;
+  templateId?: string | null;
+  extraRecipients?: string | null;
+  action?: FollowUpAction;
+}
+
+function toLadderLevel(row: {
+  level: number;
+  delayDays: number;
+  templateId: string | null;
+  extraRecipients: string | null;
+  action: FollowUpAction;
+}): FollowUpLadderLevel {
+  return {
+    level: row.level,
+    delayDays: row.delayDays,
+    templateId: row.templateId,
+    extraRecipients: parseEmails(row.extraRecipients),
+    action: row.action,
+  };
+}
+
+async function findLevels(companyId: string | null, partnerId: string | null) {
+  const rows = await prisma.followUpLevel.findMany({
+    where: { companyId, partnerId },
+    orderBy: { level: 'asc' },
+  });
+  return rows.map(toLadderLevel);
+}
+
+/**
+ * Built-in ladder used when no levels are configured anywhere:
+ * one level per day offset in the follow-up settings, using the FOLLOW_UP template for that level
+ */
+export async function getDefaultFollowUpLadder(): Promise<FollowUpLadderLevel[]> {
+  const { dayOffsets } = await getDunningSettings();
+  return dayOffsets.map((delayDays, index) => ({
+    level: index + 1,
+    delayDays,
+    templateId: null,
+    extraRecipients: [],
+    action: FollowUpAction.NONE,
+  }));
+}
+
+/**
+ * Get the levels configured for exactly this scope (no inheritance)
+ */
+export async function getScopedFollowUpLevels(
+  companyId: string | null,
+  partnerId: string | null
+): Promise<FollowUpLadderLevel[]> {
+  return findLevels(companyId, partnerId);
+}
+
+/**
+ * Resolve the ladder that applies to an invoice.
+ * Partner levels win over billing entity levels, which win over the global default.
+ */
+export async function getFollowUpLadder(invoice: {
+  companyId: string | null;
+  partnerId: string | null;
+}): Promise<FollowUpLadder> {
+  if (invoice.partnerId) {
+    const levels = await findLevels(null, invoice.partnerId);
+    if (levels.length > 0) {
+      return { scope: 'PARTNER', companyId: null, partnerId: invoice.partnerId, levels };
+    }
+  }
+
+  if (invoice.companyId) {
+    const companyLevels = await findLevels(invoice.companyId, null);
+    if (companyLevels.length > 0) {
+      return { scope: 'COMPANY', companyId: invoice.companyId, partnerId: null, levels: companyLevels };
+    }
+  }
+
+  const globalLevels = await findLevels(null, null);
+  return {
+    scope: 'DEFAULT',
+    companyId: null,
+    partnerId: null,
+    levels: globalLevels.length > 0 ? globalLevels : await getDefaultFollowUpLadder(),
+  };
+}
+
+/**
+ * Get the ladder a scope falls back to when it has no levels of its own
+ */
+export async function getInheritedFollowUpLadder(
+  companyId: string | null,
+  partnerId: string | null
+): Promise<FollowUpLadder> {
+  if (partnerId) {
+    const partner = await prisma.partner.findUnique({
+      where: { id: partnerId },
+      select: { companyId: true },
+    });
+    return getFollowUpLadder({ companyId: partner?.companyId || null, partnerId: null });
+  }
+
+  if (companyId) {
+    return getFollowUpLadder({ companyId: null, partnerId: null });
+  }
+
+  return {
+    scope: 'DEFAULT',
+    companyId: null,
+    partnerId: null,
+    levels: await getDefaultFollowUpLadder(),
+  };
+}
+
+/**
+ * Replace the ladder for a scope. Passing no levels removes the override so the
+ * scope inherits from the next broader one.
+ */
+export async function saveFollowUpLadder(
+  scope: { companyId: string | null; partnerId: string | null },
+  levels: FollowUpLadderLevelInput[],
+  userId?: string | null
+): Promise<FollowUpLadderLevel[]> {
+  if (scope.companyId && scope.partnerId) {
+    throw new Error('A ladder is scoped to either a billing entity or a partner, not both');
+  }
+
+  levels.forEach((level, index) => {
+    if (!Number.isInteger(level.delayDays) || level.delayDays < 0) {
+      throw new Error(`Level ${index + 1}: delay must be a whole number of days`);
+    }
+    if (index > 0 && level.delayDays <= levels[index - 1].delayDays) {
+      throw new Error(`Level ${index + 1}: delay must be greater than level ${index}`);
+    }
+    if (level.action && !FOLLOW_UP_ACTIONS.includes(level.action)) {
+      throw new Error(`Level ${index + 1}: invalid action ${level.action}`);
+    }
+    const { invalid } = validateEmails(level.extraRecipients);
+    if (invalid.length > 0) {
+      throw new Error(`Level ${index + 1}: invalid email ${invalid.join(', ')}`);
+    }
+  });
+
+  const rows = await prisma.$transaction(async (tx) => {
+    await tx.followUpLevel.deleteMany({
+      where: { companyId: scope.companyId, partnerId: scope.partnerId },
+    });
+
+    if (levels.length > 0) {
+      await tx.followUpLevel.createMany({
+        data: levels.map((level, index) => ({
+          companyId: scope.companyId,
+          partnerId: scope.partnerId,
+          level: index + 1,
+          delayDays: level.delayDays,
+          templateId: level.templateId || null,
+          extraRecipients: joinEmails(parseEmails(level.extraRecipients)) || null,
+          action: level.action || FollowUpAction.NONE,
+        })),
+      });
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId: userId || null,
+        action: 'FOLLOW_UP_LADDER_UPDATED',
+        entityType: scope.partnerId ? 'Partner' : scope.companyId ? 'Company' : 'Settings',
+        entityId: scope.partnerId || scope.companyId || 'followUp',
+        details: {
+          levels: levels.map((level, index) => ({
+            level: index + 1,
+            delayDays: level.delayDays,
+            action: level.action || FollowUpAction.NONE,
+          })),
+        },
+      },
+    });
+
+    return tx.followUpLevel.findMany({
+      where: { companyId: scope.companyId, partnerId: scope.partnerId },
+      orderBy: { level: 'asc' },
+    });
+  });
+
+  return rows.map(toLadderLevel);
+}
@@ -1,6 +1,6 @@
 // Follow-up email service for sent invoices
 import prisma from './prisma';
-import { EmailStatus } from '@/generated/prisma';
+import { EmailStatus, FollowUpAction, ScheduleStatus } from '@/generated/prisma';
 import {
   initEmailServiceFromEnv,
   getFollowUpTemplate,
@@ -10,8 +10,14 @@ import {
   EmailPlaceholderData,
 } from './email-service';
 import { generateInvoicePdfLib, SOASettings } from './pdf-generator';
-import { getSOASettings, getInvoiceTemplate } from './settings';
+import { getSOASettings, getInvoiceTemplate, getDunningSettings } from './settings';
 import { formatCurrency, formatDate } from './utils';
+import { getFollowUpLadder, FollowUpLadderLevel } from './follow-up-ladder-service';
+import { HolidayCalendar, countBusinessDaysBetween, getHolidayCalendar } from './business-calendar-service';
+import { businessToday, toBusinessTime } from './business-time';
+import { pauseSchedule } from './scheduled-billing-service';
+import { getLiveInvoicePaymentLink } from './payment-gateway';
+import { calculateInvoiceBalance, sumCreditNotes } from './payment-service';
 
 export interface FollowUpResult {
   success: boolean;
@@ -25,10 +31,9 @@ export interface CanSendFollowUpResult {
   canSend: boolean;
   reason?: string;
   nextLevel?: number;
+  ladderLevel?: FollowUpLadderLevel;
 }
 
-const MAX_FOLLOW_UP_LEVEL = 3;
-
 /**
  * Check if a follow-up can be sent for an invoice
  */
@@ -37,6 +42,8 @@ export async function canSendFollowUp(invoiceId: string): Promise<CanSendFollowU
     where: { id: invoiceId },
     select: {
       id: true,
+      companyId: true,
+      partnerId: true,
       status: true,
       followUpEnabled: true,
       lastFollowUpLevel: true,
@@ -49,17 +56,19 @@ export async function canSendFollowUp(invoiceId: string): Promise<CanSendFollowU
     return { canSend: false, reason: 'Invoice not found' };
   }
 
-  if (invoice.status !== 'SENT') {
-    return { canSend: false, reason: 'Invoice must be in SENT status to send follow-up' };
+  if (invoice.status !== 'SENT' && invoice.status !== 'PARTIALLY_PAID') {
+    return { canSend: false, reason: 'Invoice must be in SENT or PARTIALLY_PAID status to send follow-up' };
   }
 
   if (!invoice.followUpEnabled) {
     return { canSend: false, reason: 'Follow-up is disabled for this invoice' };
   }
 
+  const ladder = await getFollowUpLadder(invoice);
   const nextLevel = invoice.lastFollowUpLevel + 1;
-  if (nextLevel > MAX_FOLLOW_UP_LEVEL) {
-    return { canSend: false, reason: 'Maximum follow-up level (3) reached' };
+  const ladderLevel = ladder.levels.find((l) => l.level === nextLevel);
+  if (!ladderLevel) {
+    return { canSend: false, reason: `Maximum follow-up level (${ladder.levels.length}) reached` };
   }
 
   // Check if customer has email
@@ -68,15 +77,18 @@ export async function canSendFollowUp(invoiceId: string): Promise<CanSendFollowU
     return { canSend: false, reason: 'No email address for this customer' };
   }
 
-  return { canSend: true, nextLevel };
+  return { canSend: true, nextLevel, ladderLevel };
 }
 
 /**
- * Calculate days overdue for an invoice
+ * Calculate days overdue for an invoice.
+ * With a holiday calendar only business days are counted (weekends and holidays are skipped).
  */
-export function calculateDaysOverdue(dueDate: Date): number {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+export function calculateDaysOverdue(dueDate: Date, holidays?: HolidayCalendar): number {
+  const today = businessToday();
+  if (holidays) {
+    return countBusinessDaysBetween(dueDate, today, holidays);
+  }
   const due = new Date(dueDate);
   due.setHours(0, 0, 0, 0);
   const diffTime = today.getTime() - due.getTime();
@@ -84,6 +96,64 @@ export function calculateDaysOverdue(dueDate: Date): number {
   return Math.max(0, diffDays);
 }
 
+/**
+ * Determine which follow-up level (if any) is due for an overdue invoice.
+ * dayOffsets[n] is the ladder delay (days past due) before level n + 1 is sent. Levels are
+ * sent one at a time and spaced at least the gap between their offsets, so an invoice
+ * that is already far overdue does not receive several levels on consecutive days.
+ * Pass the holiday calendar to count the offsets in business days.
+ */
+export function getDueFollowUpLevel(
+  invoice: { dueDate: Date; lastFollowUpLevel: number; lastFollowUpAt: Date | null },
+  dayOffsets: number[],
+  holidays?: HolidayCalendar
+): number | null {
+  const nextLevel = invoice.lastFollowUpLevel + 1;
+  if (nextLevel > dayOffsets.length) {
+    return null;
+  }
+
+  const daysOverdue = calculateDaysOverdue(invoice.dueDate, holidays);
+  if (daysOverdue === 0 || daysOverdue < dayOffsets[nextLevel - 1]) {
+    return null;
+  }
+
+  if (nextLevel > 1 && invoice.lastFollowUpAt) {
+    const minGap = dayOffsets[nextLevel - 1] - dayOffsets[nextLevel - 2];
+    // lastFollowUpAt is a send timestamp; count from the business day it was sent on
+    if (calculateDaysOverdue(toBusinessTime(invoice.lastFollowUpAt), holidays) < minGap) {
+      return null;
+    }
+  }
+
+  return nextLevel;
+}
+
+/**
+ * The live payment link for a follow-up, when the customer was offered online payment
+ * or the template asks for one. A link that expired or no longer matches the balance is replaced.
+ */
+async function getFollowUpPaymentUrl(
+  invoiceId: string,
+  template: { subject: string; greeting: string; body: string; closing: string }
+): Promise<string | undefined> {
+  const usesPlaceholder = [template.subject, template.greeting, template.body, template.closing]
+    .some((text) => text.includes('{{paymentUrl}}'));
+  const offeredOnline = usesPlaceholder || (await prisma.paymentRequest.count({ where: { invoiceId } })) > 0;
+  if (!offeredOnline) {
+    return undefined;
+  }
+
+  try {
+    const live = await getLiveInvoicePaymentLink(invoiceId);
+    return live?.paymentRequest.checkoutUrl || undefined;
+  } catch (error) {
+    console.error('[Follow-up Service] Failed to get payment link:', error);
+    // Send the follow-up without a payment link
+    return undefined;
+  }
+}
+
 /**
  * Send a follow-up email for an invoice
  */
@@ -104,6 +174,7 @@ export async function sendFollowUpEmail(
   }
 
   const level = canSendResult.nextLevel!;
+  const ladderLevel = canSendResult.ladderLevel!;
 
   // Fetch invoice with all needed relations
   const invoice = await prisma.invoice.findUnique({
@@ -113,6 +184,9 @@ export async function sendFollowUpEmail(
       partner: true,
       lineItems: true,
       attachments: true,
+      contracts: { select: { id: true, accountManagerEmail: true } },
+      payments: { select: { amount: true, paidAt: true, reversedAt: true } },
+      creditNotes: { where: { status: 'ISSUED' }, select: { amount: true } },
     },
   });
 
@@ -120,8 +194,11 @@ export async function sendFollowUpEmail(
     return { success: false, message: 'Invoice not found' };
   }
 
-  // Get follow-up template for this level
-  const template = await getFollowUpTemplate(level);
+  // Get the template configured on the ladder, falling back to the FOLLOW_UP template for this level
+  const template =
+    (ladderLevel.templateId
+      ? await prisma.emailTemplate.findUnique({ where: { id: ladderLevel.templateId } })
+      : null) || (await getFollowUpTemplate(level));
   if (!template) {
     return {
       success: false,
@@ -129,20 +206,28 @@ export async function sendFollowUpEmail(
     };
   }
 
-  // Calculate days overdue
-  const daysOverdue = calculateDaysOverdue(invoice.dueDate);
+  // Calculate days overdue, in business days when the ladder counts them that way
+  const { businessDaysOnly } = await getDunningSettings();
+  const holidays = businessDaysOnly ? await getHolidayCalendar() : undefined;
+  const daysOverdue = calculateDaysOverdue(invoice.dueDate, holidays);
+
+  const paymentUrl = await getFollowUpPaymentUrl(invoice.id, template);
+
+  // Ask for what is still owed, the amount the payment link charges
+  const { balance } = calculateInvoiceBalance(invoice.netAmount, invoice.payments, sumCreditNotes(invoice.creditNotes));
 
   // Prepare placeholder data
   const placeholderData: EmailPlaceholderData = {
     customerName: invoice.customerName,
     billingNo: invoice.billingNo || invoice.id.slice(0, 8),
     dueDate: formatDate(invoice.dueDate),
-    totalAmount: formatCurrency(Number(invoice.netAmount)),
+    totalAmount: formatCurrency(balance),
     periodStart: invoice.periodStart ? formatDate(invoice.periodStart) : '',
     periodEnd: invoice.periodEnd ? formatDate(invoice.periodEnd) : '',
-    companyName: invoice.company?.name || 'YAHSHUA-ABBA',
+    companyName: invoice.company.name,
     clientCompanyName: invoice.customerName,
     daysOverdue: daysOverdue.toString(),
+    paymentUrl,
   };
 
   // Generate email content from template
@@ -156,13 +241,21 @@ export async function sendFollowUpEmail(
   // Get recipient emails
   const toEmails = invoice.customerEmails || invoice.customerEmail || '';
 
+  // Escalation recipients for this level
+  const ccEmails = [...ladderLevel.extraRecipients];
+  if (ladderLevel.action === FollowUpAction.CC_ACCOUNT_MANAGER) {
+    for (const contract of invoice.contracts) {
+      if (contract.accountManagerEmail && !ccEmails.includes(contract.accountManagerEmail)) {
+        ccEmails.push(contract.accountManagerEmail);
+      }
+    }
+  }
+
   // Generate PDF attachment
   let pdfBuffer: Buffer | undefined;
   let pdfFilename: string | undefined;
   try {
-    const companyCode = (invoice.company?.code === 'YOWI' || invoice.company?.code === 'ABBA')
-      ? invoice.company.code
-      : 'ABBA';
+    const companyCode = invoice.company.code;
     const soaSettings = await getSOASettings(companyCode);
     const templateSettings = await getInvoiceTemplate(companyCode);
 
@@ -195,18 +288,23 @@ export async function sendFollowUpEmail(
       plainTextBody,
       htmlBody,
       pdfBuffer,
-      pdfFilename
+      pdfFilename,
+      undefined,
+      ccEmails
     );
 
     if (result.success) {
-      // Update follow-up log
+      // A transient failure leaves the email queued; the queue worker marks the log once it is delivered
       await prisma.followUpLog.update({
         where: { id: followUpLog.id },
-        data: {
-          status: EmailStatus.SENT,
-          messageId: result.messageId,
-          sentAt: new Date(),
-        },
+        data: result.queued
+          ? { status: EmailStatus.QUEUED, emailLogId: result.emailLogId }
+          : {
+              status: EmailStatus.SENT,
+              emailLogId: result.emailLogId,
+              messageId: result.messageId,
+              sentAt: new Date(),
+            },
       });
 
       // Update invoice follow-up tracking
@@ -229,18 +327,25 @@ export async function sendFollowUpEmail(
           details: {
             level,
             to: toEmails,
+            cc: ccEmails.length > 0 ? ccEmails.join(', ') : undefined,
             subject,
             daysOverdue,
+            action: ladderLevel.action,
+            queued: result.queued || undefined,
           },
         },
       });
 
+      if (ladderLevel.action === FollowUpAction.SUSPEND_AUTO_BILLING) {
+        await suspendAutoBilling(invoice.contracts.map((c) => c.id), invoice.billingNo, level, userId);
+      }
+
       // Create notification
       await prisma.notification.create({
         data: {
           type: 'INVOICE_FOLLOW_UP',
-          title: `Follow-up ${level} Sent`,
-          message: `Follow-up email (level ${level}) sent for invoice ${invoice.billingNo || invoice.id.slice(0, 8)} to ${invoice.customerName}`,
+          title: `Follow-up ${level} ${result.queued ? 'Queued' : 'Sent'}`,
+          message: `Follow-up email (level ${level}) ${result.queued ? 'queued for delivery' : 'sent'} for invoice ${invoice.billingNo || invoice.id.slice(0, 8)} to ${invoice.customerName}`,
           link: '/dashboard/invoices',
           entityType: 'Invoice',
           entityId: invoice.id,
@@ -250,7 +355,9 @@ export async function sendFollowUpEmail(
       return {
         success: true,
         level,
-        message: `Follow-up level ${level} sent successfully`,
+        message: result.queued
+          ? `Follow-up level ${level} queued for delivery`
+          : `Follow-up level ${level} sent successfully`,
         followUpLogId: followUpLog.id,
       };
     } else {
@@ -291,6 +398,42 @@ export async function sendFollowUpEmail(
   }
 }
 
+/**
+ * Pause the active billing schedules of the invoice's contracts
+ * (the SUSPEND_AUTO_BILLING ladder action)
+ */
+async function suspendAutoBilling(
+  contractIds: string[],
+  billingNo: string | null,
+  level: number,
+  userId?: string
+) {
+  if (contractIds.length === 0) return;
+
+  const schedules = await prisma.scheduledBilling.findMany({
+    where: { contractId: { in: contractIds }, status: ScheduleStatus.ACTIVE },
+    select: { id: true, contract: { select: { companyName: true } } },
+  });
+
+  for (const schedule of schedules) {
+    const reason = `Suspended by follow-up level ${level} on invoice ${billingNo || ''}`.trim();
+    await pauseSchedule(schedule.id, { changedById: userId || null, changeReason: reason });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: userId || null,
+        action: 'SCHEDULED_BILLING_PAUSED',
+        entityType: 'ScheduledBilling',
+        entityId: schedule.id,
+        details: {
+          companyName: schedule.contract.companyName,
+          reason,
+        },
+      },
+    });
+  }
+}
+
 /**
  * Get follow-up history for an invoice
  */
@@ -1,19 +1,17 @@
+// HitPay service - the HitPay adapter for the payment gateway (see payment-gateway.ts)
 import crypto from 'crypto';
+import type {
+  CreatePaymentLinkParams,
+  PaymentGateway,
+  PaymentGatewayCredentials,
+  PaymentWebhookEvent,
+  PaymentWebhookRefund,
+} from './payment-gateway';
+import { getWallClock } from './business-time';
 
 const HITPAY_API_URL = process.env.HITPAY_API_URL || 'https://api.hit-pay.com/v1';
-const HITPAY_API_KEY = process.env.HITPAY_API_KEY || '';
-const HITPAY_SALT = process.env.HITPAY_SALT || '';
-
-export interface CreatePaymentRequestParams {
-  amount: number;
-  currency?: string;
-  referenceNumber: string;
-  email?: string;
-  name?: string;
-  purpose?: string;
-  redirectUrl?: string;
-  paymentMethods?: string[];
-}
+
+export type CreatePaymentRequestParams = CreatePaymentLinkParams;
 
 export interface HitpayPaymentRequestResponse {
   id: string;
@@ -67,11 +65,42 @@ export interface HitpayWebhookPayload {
   }>;
 }
 
+export interface HitpayRefundResponse {
+  id: string;
+  payment_id: string;
+  amount_refunded: number;
+  total_amount: number;
+  currency: string;
+  status: string;
+  payment_method: string;
+  created_at: string;
+}
+
+/**
+ * The system HitPay account, used by companies without their own credentials
+ */
+export function getDefaultHitpayCredentials(): PaymentGatewayCredentials {
+  return {
+    apiKey: process.env.HITPAY_API_KEY || '',
+    webhookSecret: process.env.HITPAY_SALT || '',
+  };
+}
+
+/**
+ * HitPay takes expiry dates as "YYYY-MM-DD HH:mm:ss" in the business's local time
+ */
+export function formatHitpayExpiryDate(expiresAt: Date): string {
+  const c = getWallClock(expiresAt);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${c.year}-${pad(c.month)}-${pad(c.day)} ${pad(c.hour)}:${pad(c.minute)}:${pad(c.second)}`;
+}
+
 /**
  * Creates a payment request with HitPay
  */
 export async function createPaymentRequest(
-  params: CreatePaymentRequestParams
+  params: CreatePaymentRequestParams,
+  credentials: PaymentGatewayCredentials = getDefaultHitpayCredentials()
 ): Promise<HitpayPaymentRequestResponse> {
   const {
     amount,
@@ -82,6 +111,7 @@ export async function createPaymentRequest(
     purpose,
     redirectUrl,
     paymentMethods,
+    expiresAt,
   } = params;
 
   const body = new URLSearchParams();
@@ -93,6 +123,7 @@ export async function createPaymentRequest(
   if (name) body.append('name', name);
   if (purpose) body.append('purpose', purpose);
   if (redirectUrl) body.append('redirect_url', redirectUrl);
+  if (expiresAt) body.append('expiry_date', formatHitpayExpiryDate(expiresAt));
 
   // Add payment methods if specified
   if (paymentMethods && paymentMethods.length > 0) {
@@ -104,7 +135,7 @@ export async function createPaymentRequest(
   const response = await fetch(`${HITPAY_API_URL}/payment-requests`, {
     method: 'POST',
     headers: {
-      'X-BUSINESS-API-KEY': HITPAY_API_KEY,
+      'X-BUSINESS-API-KEY': credentials.apiKey,
       'Content-Type': 'application/x-www-form-urlencoded',
       'X-Requested-With': 'XMLHttpRequest',
     },
@@ -123,57 +154,21 @@ export async function createPaymentRequest(
 
 /**
  * Verifies the webhook signature from HitPay
- * Uses HMAC-SHA256 with the salt as the secret key
+ * Uses HMAC-SHA256 with the salt as the secret key, over the raw body exactly as received
  */
 export function verifyWebhookSignature(
   payload: string,
-  signature: string
+  signature: string,
+  salt: string = getDefaultHitpayCredentials().webhookSecret
 ): boolean {
-  const salt = process.env.HITPAY_SALT || '';
-
   if (!salt) {
-    console.error('HITPAY_SALT is not configured');
+    console.error('HitPay webhook salt is not configured');
     return false;
   }
 
-  // Try with raw payload first
-  let computedSignature = crypto
-    .createHmac('sha256', salt)
-    .update(payload)
-    .digest('hex');
-
-  if (computedSignature === signature) {
-    return true;
-  }
-
-  // Try with normalized JSON (parse and re-stringify)
-  try {
-    const normalizedPayload = JSON.stringify(JSON.parse(payload));
-    computedSignature = crypto
-      .createHmac('sha256', salt)
-      .update(normalizedPayload)
-      .digest('hex');
-
-    if (computedSignature === signature) {
-      return true;
-    }
-  } catch {
-    // JSON parse failed, continue with other attempts
-  }
-
-  // Try with payload + no trailing newline
-  const trimmedPayload = payload.trim();
-  computedSignature = crypto
-    .createHmac('sha256', salt)
-    .update(trimmedPayload)
-    .digest('hex');
-
-  console.log('Signature verification attempts failed:', {
-    receivedSig: signature.substring(0, 16) + '...',
-    lastComputedSig: computedSignature.substring(0, 16) + '...',
-  });
-
-  return computedSignature === signature;
+  const received = Buffer.from(signature, 'utf8');
+  const computed = Buffer.from(crypto.createHmac('sha256', salt).update(payload).digest('hex'), 'utf8');
+  return computed.length === received.length && crypto.timingSafeEqual(computed, received);
 }
 
 /**
@@ -200,3 +195,102 @@ export function getPaymentDetailsFromWebhook(payload: HitpayWebhookPayload): {
     paymentReference: payment?.id || null,
   };
 }
+
+// HitPay payment statuses for a disputed payment the card network took back
+const HITPAY_CHARGEBACK_STATUSES = ['charged_back', 'chargeback'];
+
+/**
+ * Gets the refund or chargeback from a webhook payload. HitPay reports the payment's
+ * refunded_amount as a running total.
+ */
+export function getRefundFromWebhook(payload: HitpayWebhookPayload): PaymentWebhookRefund | null {
+  const payment = payload.payments?.[0];
+  if (!payment) return null;
+
+  const refunded = Number(payment.refunded_amount || 0);
+  if (HITPAY_CHARGEBACK_STATUSES.includes(payment.status)) {
+    return { type: 'CHARGEBACK', totalAmount: refunded > 0 ? refunded : Number(payment.amount) };
+  }
+
+  return refunded > 0 ? { type: 'REFUND', totalAmount: refunded } : null;
+}
+
+/**
+ * Refunds all or part of a completed HitPay payment
+ */
+export async function createRefund(
+  paymentId: string,
+  amount: number,
+  credentials: PaymentGatewayCredentials = getDefaultHitpayCredentials()
+): Promise<HitpayRefundResponse> {
+  const body = new URLSearchParams();
+  body.append('payment_id', paymentId);
+  body.append('amount', amount.toFixed(2));
+
+  const response = await fetch(`${HITPAY_API_URL}/refund`, {
+    method: 'POST',
+    headers: {
+      'X-BUSINESS-API-KEY': credentials.apiKey,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Requested-With': 'XMLHttpRequest',
+    },
+    body: body.toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('HitPay refund error:', response.status, errorText);
+    throw new Error(`HitPay API error: ${response.status} - ${errorText}`);
+  }
+
+  return response.json();
+}
+
+// HitPay payment request statuses that settle a payment request
+const HITPAY_STATUS_MAP: Record<string, PaymentWebhookEvent['status']> = {
+  completed: 'COMPLETED',
+  failed: 'FAILED',
+};
+
+export const hitpayGateway: PaymentGateway = {
+  name: 'HITPAY',
+  label: 'HitPay',
+
+  getDefaultCredentials: getDefaultHitpayCredentials,
+
+  async createPaymentLink(params, credentials) {
+    const response = await createPaymentRequest(params, credentials);
+    return { providerRequestId: response.id, checkoutUrl: response.url };
+  },
+
+  verifyWebhook(rawBody, headers, credentials) {
+    const signature = headers.get('Hitpay-Signature');
+    return !!signature && verifyWebhookSignature(rawBody, signature, credentials.webhookSecret);
+  },
+
+  parseWebhook(rawBody) {
+    const payload: HitpayWebhookPayload = JSON.parse(rawBody);
+    const details = getPaymentDetailsFromWebhook(payload);
+
+    return {
+      providerRequestId: details.paymentRequestId,
+      providerStatus: details.status,
+      status: HITPAY_STATUS_MAP[details.status] ?? null,
+      amount: Number(details.amount),
+      currency: details.currency,
+      referenceNumber: details.referenceNumber,
+      paymentMethod: details.paymentMethod,
+      paymentReference: details.paymentReference,
+      refund: getRefundFromWebhook(payload),
+    };
+  },
+
+  async refund({ paymentReference, amount }, credentials) {
+    const response = await createRefund(paymentReference, amount, credentials);
+    return {
+      providerRefundId: response.id,
+      status: response.status,
+      amount: Number(response.amount_refunded),
+    };
+  },
+};
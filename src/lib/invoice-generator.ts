@@ -1,13 +1,29 @@
 import prisma from './prisma';
 import { calculateBilling, generateBillingNo } from './utils';
-import { BillingModel, InvoiceStatus, VatType, BillingFrequency } from '@/generated/prisma';
+import {
+  BillingModel,
+  InvoiceStatus,
+  VatType,
+  BillingFrequency,
+  ProrationMethod,
+  ScheduleBillingMode,
+  BusinessDayRule,
+} from '@/generated/prisma';
 import {
   getScheduledBilling,
-  createScheduledBillingRun,
+  claimBillingPeriod,
+  completeBillingPeriodClaim,
   updateNextBillingDate,
   checkExistingInvoiceForPeriod,
+  createScheduledBillingRun,
+  endSchedule,
 } from './scheduled-billing-service';
 import { getVatRate, getProductTypes } from './settings';
+import { getEffectiveBillingAmount } from './price-change-service';
+import { getScheduledBillingUsageCharge } from './usage-billing-service';
+import { HolidayCalendar, adjustToBusinessDay, getHolidayCalendar } from './business-calendar-service';
+import { businessNow } from './business-time';
+import { getCurrentScheduleVersion } from './schedule-version-service';
 import { format } from 'date-fns';
 
 // ==================== TYPES ====================
@@ -24,6 +40,8 @@ export interface CustomBillTo {
 export interface LineItemInput {
   description: string;
   amount: number;
+  quantity?: number;   // Units billed (usage lines); defaults to 1
+  unitPrice?: number;  // Rate per unit; defaults to the line amount
   periodStart?: Date;
   periodEnd?: Date;
   discountType?: 'PERCENTAGE' | 'FIXED' | null;
@@ -48,6 +66,7 @@ export interface GenerateInvoiceRequest {
   withholdingCode?: string;  // ATC code (e.g., 'WC160')
   periodStart?: Date;
   periodEnd?: Date;
+  statementDate?: Date;    // Defaults to today; catch-up runs bill on the missed billing date
   autoApprove?: boolean;
 
   // Editable text fields
@@ -173,6 +192,7 @@ export async function generateInvoice(
   const withholdingRate = request.withholdingRate ?? 0.02;  // Default to 2%
   const withholdingCode = request.withholdingCode ?? 'WC160';  // Default code
   const vatRate = await getVatRate();  // Fetch configurable VAT rate
+  const statementDate = request.statementDate || businessNow();
 
   // Prepare line items data
   let lineItemsToCreate: Array<{
@@ -215,10 +235,10 @@ export async function generateInvoice(
 
       lineItemsToCreate.push({
         ...(contractId && { contractId }),
-        date: new Date(),
+        date: statementDate,
         description: item.description,
-        quantity: 1,
-        unitPrice: itemCalc.serviceFee,
+        quantity: item.quantity ?? 1,
+        unitPrice: item.unitPrice ?? itemCalc.serviceFee,
         serviceFee: itemCalc.serviceFee,
         vatAmount: itemCalc.vatAmount,
         withholdingTax: itemCalc.withholdingTax,
@@ -248,7 +268,7 @@ export async function generateInvoice(
 
     lineItemsToCreate.push({
       ...(contractId && { contractId }),
-      date: new Date(),
+      date: statementDate,
       description,
       quantity: 1,
       unitPrice: calculation.serviceFee,
@@ -287,7 +307,7 @@ export async function generateInvoice(
       customerEmail,
       customerEmails,
       customerTin,
-      statementDate: new Date(),
+      statementDate,
       dueDate: request.dueDate,
       periodStart: request.periodStart,
       periodEnd: request.periodEnd,
@@ -360,46 +380,54 @@ export async function generateInvoice(
   };
 }
 
+export interface ScheduledBillingPeriod {
+  periodStart: Date;
+  periodEnd: Date;
+  dueDate: Date;
+  description: string;
+}
+
 /**
- * Generate an invoice from a scheduled billing
+ * Billing period, due date and line item description of a scheduled billing run on billingDate.
+ * Shared by invoice generation and the billing forecast so both describe a run the same way.
+ * billingDate is the nominal billing date; with a holiday calendar the due date is shifted by
+ * the schedule's business day rule.
  */
-export async function generateFromScheduledBilling(
-  scheduledBillingId: string
-): Promise<GenerateInvoiceResult> {
-  const schedule = await getScheduledBilling(scheduledBillingId);
-
-  if (!schedule) {
-    throw new Error('Scheduled billing not found');
-  }
-
-  // Check if invoice already exists for this period
-  const hasExisting = await checkExistingInvoiceForPeriod(scheduledBillingId);
-  if (hasExisting) {
-    throw new Error('Invoice already exists for this billing period');
-  }
-
+export function getScheduledBillingPeriod(
+  schedule: {
+    frequency: BillingFrequency;
+    customIntervalUnit: string | null;
+    customIntervalValue: number | null;
+    billingDayOfMonth: number;
+    dueDayOfMonth: number | null;
+    description: string | null;
+    businessDayRule?: BusinessDayRule;
+  },
+  billingDate: Date,
+  customBaseDate: Date = billingDate,  // End of the period for custom intervals
+  holidays?: HolidayCalendar
+): ScheduledBillingPeriod {
   // Calculate period based on frequency
-  const now = new Date();
   let periodStart: Date;
   let periodEnd: Date;
 
   switch (schedule.frequency) {
     case BillingFrequency.MONTHLY:
-      periodStart = new Date(now.getFullYear(), now.getMonth(), 1);
-      periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+      periodStart = new Date(billingDate.getFullYear(), billingDate.getMonth(), 1);
+      periodEnd = new Date(billingDate.getFullYear(), billingDate.getMonth() + 1, 0);
       break;
     case BillingFrequency.QUARTERLY:
-      const quarter = Math.floor(now.getMonth() / 3);
-      periodStart = new Date(now.getFullYear(), quarter * 3, 1);
-      periodEnd = new Date(now.getFullYear(), quarter * 3 + 3, 0);
+      const quarter = Math.floor(billingDate.getMonth() / 3);
+      periodStart = new Date(billingDate.getFullYear(), quarter * 3, 1);
+      periodEnd = new Date(billingDate.getFullYear(), quarter * 3 + 3, 0);
       break;
     case BillingFrequency.ANNUALLY:
-      periodStart = new Date(now.getFullYear(), 0, 1);
-      periodEnd = new Date(now.getFullYear(), 11, 31);
+      periodStart = new Date(billingDate.getFullYear(), 0, 1);
+      periodEnd = new Date(billingDate.getFullYear(), 11, 31);
       break;
     case BillingFrequency.CUSTOM:
       // For custom intervals, calculate period based on interval from start date
-      const baseDate = schedule.nextBillingDate ? new Date(schedule.nextBillingDate) : new Date(schedule.startDate);
+      const baseDate = new Date(customBaseDate);
 
       if (schedule.customIntervalUnit === 'DAYS' && schedule.customIntervalValue) {
         // Period ends on next billing date, starts interval days before
@@ -413,8 +441,8 @@ export async function generateFromScheduledBilling(
         periodStart.setMonth(periodStart.getMonth() - schedule.customIntervalValue);
       } else {
         // Fallback to monthly if custom interval not properly configured
-        periodStart = new Date(now.getFullYear(), now.getMonth(), 1);
-        periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+        periodStart = new Date(billingDate.getFullYear(), billingDate.getMonth(), 1);
+        periodEnd = new Date(billingDate.getFullYear(), billingDate.getMonth() + 1, 0);
       }
       break;
   }
@@ -429,6 +457,11 @@ export async function generateFromScheduledBilling(
     dueDate = new Date(periodStart.getFullYear(), periodStart.getMonth() + 1, dueDayOfMonth);
   }
 
+  // Move the due date off weekends and holidays
+  if (holidays && schedule.businessDayRule) {
+    dueDate = adjustToBusinessDay(dueDate, schedule.businessDayRule, holidays);
+  }
+
   // Format description with billing period (e.g., "Payroll Services - Jan 2026")
   let formattedDescription = schedule.description || 'Services';
   if (schedule.frequency === BillingFrequency.MONTHLY) {
@@ -442,42 +475,234 @@ export async function generateFromScheduledBilling(
     formattedDescription = `${formattedDescription} - ${format(periodStart, 'MMM d')} to ${format(periodEnd, 'MMM d, yyyy')}`;
   }
 
+  return { periodStart, periodEnd, dueDate, description: formattedDescription };
+}
+
+export interface ScheduledBillingProration {
+  amount: number;
+  billedDays: number;
+  periodDays: number;
+  serviceStart: Date;  // First billed day within the period
+  serviceEnd: Date;    // Last billed day within the period
+  description: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Days from start up to (not including) end, counting every month as 30 days (US 30/360)
+function days360(start: Date, end: Date): number {
+  const startDay = Math.min(start.getDate(), 30);
+  const endDay = end.getDate() === 31 && startDay === 30 ? 30 : end.getDate();
+  return (end.getFullYear() - start.getFullYear()) * 360 +
+    (end.getMonth() - start.getMonth()) * 30 +
+    (endDay - startDay);
+}
+
+function countDays(start: Date, end: Date, method: ProrationMethod): number {
+  const dayAfterEnd = new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1);
+  if (method === ProrationMethod.THIRTY_360) {
+    return days360(start, dayAfterEnd);
+  }
+  return Math.round((dayAfterEnd.getTime() - start.getTime()) / DAY_MS);
+}
+
+/**
+ * Prorate a period's amount when service starts or ends inside the period.
+ * Service dates are inclusive. Returns null when the method is NONE or the whole period is billed.
+ */
+export function calculateProration(
+  amount: number,
+  period: { periodStart: Date; periodEnd: Date },
+  method: ProrationMethod,
+  serviceStartDate?: Date | null,
+  serviceEndDate?: Date | null
+): ScheduledBillingProration | null {
+  if (method === ProrationMethod.NONE) {
+    return null;
+  }
+
+  const periodStart = startOfDay(period.periodStart);
+  const periodEnd = startOfDay(period.periodEnd);
+  const serviceStart = serviceStartDate && startOfDay(serviceStartDate) > periodStart
+    ? startOfDay(serviceStartDate)
+    : periodStart;
+  const serviceEnd = serviceEndDate && startOfDay(serviceEndDate) < periodEnd
+    ? startOfDay(serviceEndDate)
+    : periodEnd;
+
+  if (serviceStart.getTime() === periodStart.getTime() && serviceEnd.getTime() === periodEnd.getTime()) {
+    return null;
+  }
+
+  const periodDays = countDays(periodStart, periodEnd, method);
+  const billedDays = serviceEnd < serviceStart ? 0 : Math.min(countDays(serviceStart, serviceEnd, method), periodDays);
+  const proratedAmount = Math.round((amount * billedDays / periodDays) * 100) / 100;
+
+  const formatAmount = (value: number) =>
+    value.toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const basis = method === ProrationMethod.THIRTY_360 ? '30/360' : 'daily';
+
+  return {
+    amount: proratedAmount,
+    billedDays,
+    periodDays,
+    serviceStart,
+    serviceEnd,
+    description: `Prorated ${basis} ${format(serviceStart, 'MMM d')} - ${format(serviceEnd, 'MMM d, yyyy')}: ` +
+      `${billedDays}/${periodDays} days x ${formatAmount(amount)} = ${formatAmount(proratedAmount)}`,
+  };
+}
+
+/**
+ * Prorate a scheduled billing period against the schedule's start/end dates and the contract end date
+ */
+export function getScheduledBillingProration(
+  schedule: {
+    prorationMethod: ProrationMethod;
+    startDate: Date;
+    endDate: Date | null;
+    contract: { contractEndDate: Date | null };
+  },
+  amount: number,
+  period: { periodStart: Date; periodEnd: Date }
+): ScheduledBillingProration | null {
+  const { endDate } = schedule;
+  const { contractEndDate } = schedule.contract;
+  const serviceEnd = endDate && contractEndDate
+    ? (endDate < contractEndDate ? endDate : contractEndDate)
+    : endDate || contractEndDate;
+
+  return calculateProration(amount, period, schedule.prorationMethod, schedule.startDate, serviceEnd);
+}
+
+/**
+ * Generate an invoice from a scheduled billing
+ * Pass billingDate to bill a past period (catch-up runs) or a nominal billing date moved by the
+ * schedule's business day rule; the period, statement date and due date are then based on that
+ * date instead of today, with the statement and due dates shifted off weekends and holidays.
+ * Returns null when no day of the period is billable: a period after the contract or schedule
+ * ended ends the schedule, and a period before the schedule starts is skipped.
+ */
+export async function generateFromScheduledBilling(
+  scheduledBillingId: string,
+  options?: { billingDate?: Date; isCatchUp?: boolean }
+): Promise<GenerateInvoiceResult | null> {
+  const schedule = await getScheduledBilling(scheduledBillingId);
+
+  if (!schedule) {
+    throw new Error('Scheduled billing not found');
+  }
+
+  // Check if invoice already exists for this period
+  const billingDate = options?.billingDate || businessNow();
+  const hasExisting = await checkExistingInvoiceForPeriod(scheduledBillingId, billingDate);
+  if (hasExisting) {
+    throw new Error('Invoice already exists for this billing period');
+  }
+
+  // The holiday calendar is only needed when the schedule shifts dates off non-business days
+  const holidays = schedule.businessDayRule !== BusinessDayRule.NONE ? await getHolidayCalendar() : undefined;
+
+  // Custom intervals end on the schedule's billing date
+  const { periodStart, periodEnd, dueDate, description: formattedDescription } = getScheduledBillingPeriod(
+    schedule,
+    billingDate,
+    options?.billingDate || schedule.nextBillingDate || schedule.startDate,
+    holidays
+  );
+  const statementDate = options?.billingDate && holidays
+    ? adjustToBusinessDay(options.billingDate, schedule.businessDayRule, holidays)
+    : options?.billingDate;
+
+  const runOptions = { billingDate, isCatchUp: options?.isCatchUp ?? false };
+
+  // Fixed schedules bill the amount in effect on the billing date (price changes and escalations),
+  // then only the days of service when the schedule or contract starts or ends inside the period
+  const isUsage = schedule.billingMode === ScheduleBillingMode.USAGE;
+  const billingAmount = getEffectiveBillingAmount(schedule, billingDate).amount;
+  const proration = isUsage ? null : getScheduledBillingProration(schedule, billingAmount, { periodStart, periodEnd });
+
+  if (proration && proration.billedDays === 0) {
+    // Service stopped before the period ends, so every later period is empty too
+    const ended = proration.serviceEnd < startOfDay(periodEnd);
+    const reason = ended
+      ? `Service ended ${format(proration.serviceEnd, 'MMM d, yyyy')}, before this billing period`
+      : 'Service starts after this billing period';
+
+    await createScheduledBillingRun(scheduledBillingId, null, 'SKIPPED', reason, runOptions);
+    if (ended) {
+      await endSchedule(scheduledBillingId, { changeReason: reason });
+    } else {
+      await updateNextBillingDate(scheduledBillingId, options?.billingDate);
+    }
+    return null;
+  }
+
+  // Hold the period with a pending run so a concurrent run cannot bill it too. The run records
+  // the schedule version the invoice is generated from.
+  const version = await getCurrentScheduleVersion(scheduledBillingId);
+  const run = await claimBillingPeriod(scheduledBillingId, schedule.frequency, billingDate, {
+    ...runOptions,
+    versionId: version?.id,
+  });
+
   try {
+    // Usage schedules bill the usage recorded for the period's months x rate
+    const usageCharge = isUsage
+      ? await getScheduledBillingUsageCharge(schedule, { periodStart, periodEnd }, formattedDescription)
+      : null;
+
     const result = await generateInvoice({
       contractId: schedule.contractId,
       scheduledBillingId: schedule.id,
       billingEntityId: schedule.billingEntityId,
-      billingAmount: Number(schedule.billingAmount),
+      billingAmount: usageCharge ? usageCharge.amount : billingAmount,
       vatType: schedule.vatType,
       hasWithholding: schedule.hasWithholding,
       withholdingRate: schedule.withholdingRate ? Number(schedule.withholdingRate) : undefined,
       dueDate,
-      periodStart,
-      periodEnd,
+      periodStart: proration?.serviceStart || periodStart,
+      periodEnd: proration?.serviceEnd || periodEnd,
+      statementDate,
       autoApprove: schedule.autoApprove,
       description: formattedDescription,
       remarks: schedule.remarks || undefined,
+      // Usage is listed one line per month (or tier band) with its quantity and rate
+      ...(usageCharge && {
+        lineItems: usageCharge.lines.map((line) => ({
+          description: line.description,
+          amount: line.amount,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          periodStart,
+          periodEnd,
+        })),
+      }),
+      // Prorated periods bill a single line item carrying the calculation
+      ...(proration && {
+        lineItems: [{
+          description: `${formattedDescription} (${proration.description})`,
+          amount: proration.amount,
+          periodStart: proration.serviceStart,
+          periodEnd: proration.serviceEnd,
+        }],
+      }),
     });
 
     // Record successful run
-    await createScheduledBillingRun(
-      scheduledBillingId,
-      result.invoice.id,
-      'SUCCESS'
-    );
+    await completeBillingPeriodClaim(run.id, result.invoice.id, 'SUCCESS');
 
-    // Update next billing date
-    await updateNextBillingDate(scheduledBillingId);
+    // Update next billing date (catch-up runs advance from the billed date)
+    await updateNextBillingDate(scheduledBillingId, options?.billingDate);
 
     return result;
   } catch (error) {
-    // Record failed run
-    await createScheduledBillingRun(
-      scheduledBillingId,
-      null,
-      'FAILED',
-      error instanceof Error ? error.message : 'Unknown error'
-    );
+    // Record failed run, releasing the period for a retry
+    await completeBillingPeriodClaim(run.id, null, 'FAILED', error instanceof Error ? error.message : 'Unknown error');
 
     throw error;
   }
@@ -0,0 +1,70 @@
+// Job lock service - database-backed locks so a scheduler job runs on one instance at a time
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import prisma from './prisma';
+import { JobStatus } from '@/generated/prisma';
+
+// How long a lock is held without renewal; the lock of an instance that stopped mid-run expires after this
+export const JOB_LOCK_LEASE_MS = 15 * 60 * 1000;
+
+export interface JobLock {
+  jobName: string;
+  holder: string;
+}
+
+/**
+ * Take the job's lock for a lease. Returns null while another run holds an unexpired lock.
+ */
+export async function acquireJobLock(jobName: string, leaseMs: number = JOB_LOCK_LEASE_MS): Promise<JobLock | null> {
+  const holder = `${hostname()}:${process.pid}:${randomUUID()}`;
+  const now = new Date();
+
+  // Create the job's row on first use (skipDuplicates tolerates another instance creating it first)
+  await prisma.scheduledJob.createMany({
+    data: [{ name: jobName }],
+    skipDuplicates: true,
+  });
+
+  // Conditional update - only one instance can take a free or expired lock
+  const { count } = await prisma.scheduledJob.updateMany({
+    where: {
+      name: jobName,
+      OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+    },
+    data: {
+      lockedBy: holder,
+      lockedUntil: new Date(now.getTime() + leaseMs),
+      status: JobStatus.RUNNING,
+    },
+  });
+
+  return count === 1 ? { jobName, holder } : null;
+}
+
+/**
+ * Extend the lease of a held lock. Returns false when the lock expired and was taken over.
+ */
+export async function renewJobLock(lock: JobLock, leaseMs: number = JOB_LOCK_LEASE_MS): Promise<boolean> {
+  const { count } = await prisma.scheduledJob.updateMany({
+    where: { name: lock.jobName, lockedBy: lock.holder },
+    data: { lockedUntil: new Date(Date.now() + leaseMs) },
+  });
+
+  return count === 1;
+}
+
+/**
+ * Release a held lock, recording the run's outcome on the job
+ */
+export async function releaseJobLock(lock: JobLock, status: 'COMPLETED' | 'FAILED', error?: string) {
+  await prisma.scheduledJob.updateMany({
+    where: { name: lock.jobName, lockedBy: lock.holder },
+    data: {
+      lockedBy: null,
+      lockedUntil: null,
+      status,
+      lastRun: new Date(),
+      lastError: error ?? null,
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import prisma from '@/lib/prisma';
 import { NotificationType } from '@/generated/prisma';
+import { formatCurrency } from '@/lib/utils';
 
 interface CreateNotificationParams {
   userId?: string | null; // null = broadcast to all users
@@ -163,3 +164,69 @@ export async function notifyInvoicePaid(invoice: {
     entityId: invoice.id,
   });
 }
+
+export async function notifyPartialPayment(invoice: {
+  id: string;
+  billingNo?: string | null;
+  customerName: string;
+  paidAmount: number;
+  balance: number;
+}) {
+  const billingNo = invoice.billingNo || invoice.id.slice(0, 8);
+  return createNotification({
+    userId: null,
+    type: 'INVOICE_PARTIALLY_PAID',
+    title: 'Partial Payment Received',
+    message: `Payment of ${formatCurrency(invoice.paidAmount)} received for invoice ${billingNo} (${invoice.customerName}). Remaining balance: ${formatCurrency(invoice.balance)}`,
+    link: '/dashboard/paid',
+    entityType: 'Invoice',
+    entityId: invoice.id,
+  });
+}
+
+export async function notifyPaymentRefunded(invoice: {
+  id: string;
+  billingNo?: string | null;
+  customerName: string;
+  amount: number;
+  type: 'REFUND' | 'CHARGEBACK';
+  balance: number;
+  creditNoteNo?: string | null;
+}) {
+  const billingNo = invoice.billingNo || invoice.id.slice(0, 8);
+  const kind = invoice.type === 'CHARGEBACK' ? 'Chargeback' : 'Refund';
+  const outcome = invoice.creditNoteNo
+    ? `Credit note ${invoice.creditNoteNo} was issued for the full refund.`
+    : `Balance reopened to ${formatCurrency(invoice.balance)}.`;
+  return createNotification({
+    userId: null, // Notify all approvers
+    type: 'PAYMENT_REFUNDED',
+    title: `Payment ${kind}`,
+    message: `${kind} of ${formatCurrency(invoice.amount)} on invoice ${billingNo} (${invoice.customerName}). ${outcome}`,
+    link: '/dashboard/invoices',
+    entityType: 'Invoice',
+    entityId: invoice.id,
+  });
+}
+
+export async function notifyStalePaymentLinkPaid(invoice: {
+  id: string;
+  billingNo?: string | null;
+  customerName: string;
+  amount: number;
+  overpaid: number; // Not applied to the invoice
+}) {
+  const billingNo = invoice.billingNo || invoice.id.slice(0, 8);
+  const overpayment = invoice.overpaid > 0
+    ? ` ${formatCurrency(invoice.overpaid)} exceeded the balance and was not applied - refund it or apply it manually.`
+    : ' It was applied to the invoice.';
+  return createNotification({
+    userId: null,
+    type: 'SYSTEM',
+    title: 'Payment on Superseded Link',
+    message: `${invoice.customerName} paid ${formatCurrency(invoice.amount)} on an old payment link for invoice ${billingNo}.${overpayment}`,
+    link: '/dashboard/invoices',
+    entityType: 'Invoice',
+    entityId: invoice.id,
+  });
+}
@@ -0,0 +1,599 @@
+// Payment gateway - provider-neutral payment links, with an adapter per payment provider
+import prisma from './prisma';
+import { PaymentRequest, PaymentRequestStatus, Prisma } from '@/generated/prisma';
+import { decryptSecret } from './encryption';
+import { hitpayGateway } from './hitpay-service';
+import {
+  PAYABLE_STATUSES,
+  calculateInvoiceBalance,
+  sumCreditNotes,
+  recordPaymentInTransaction,
+  recordRefundInTransaction,
+  notifyPaymentRecorded,
+  supersedePaymentLinks,
+} from './payment-service';
+import { issueCreditNoteInTransaction } from './credit-note-service';
+import { notifyPaymentRefunded, notifyStalePaymentLinkPaid } from './notifications';
+
+export type PaymentProviderName = 'HITPAY';
+
+export interface PaymentGatewayCredentials {
+  apiKey: string;
+  webhookSecret: string;
+}
+
+export interface CreatePaymentLinkParams {
+  amount: number;
+  currency?: string;
+  referenceNumber: string;
+  email?: string;
+  name?: string;
+  purpose?: string;
+  redirectUrl?: string;
+  paymentMethods?: string[]; // Provider-specific method codes
+  expiresAt?: Date;
+}
+
+export interface PaymentLink {
+  providerRequestId: string;
+  checkoutUrl: string;
+}
+
+export interface PaymentWebhookEvent {
+  providerRequestId: string;
+  providerStatus: string;
+  status: PaymentRequestStatus | null; // null for statuses that don't settle the request
+  amount: number;
+  currency: string;
+  referenceNumber: string | null;
+  paymentMethod: string | null;
+  paymentReference: string | null;
+  refund: PaymentWebhookRefund | null; // Set when money was taken back from the payment
+}
+
+export interface PaymentWebhookRefund {
+  type: 'REFUND' | 'CHARGEBACK';
+  totalAmount: number; // Refunded or charged back on the payment so far (providers report a running total)
+}
+
+export interface PaymentRefund {
+  providerRefundId: string;
+  status: string;
+  amount: number;
+}
+
+/**
+ * A payment provider adapter. Adding a provider (PayMongo, Xendit, Maya) means implementing this
+ * and registering it in PAYMENT_GATEWAYS.
+ */
+export interface PaymentGateway {
+  name: PaymentProviderName;
+  label: string;
+  getDefaultCredentials(): PaymentGatewayCredentials;
+  createPaymentLink(params: CreatePaymentLinkParams, credentials: PaymentGatewayCredentials): Promise<PaymentLink>;
+  verifyWebhook(rawBody: string, headers: Headers, credentials: PaymentGatewayCredentials): boolean;
+  parseWebhook(rawBody: string): PaymentWebhookEvent;
+  refund(
+    params: { paymentReference: string; amount: number },
+    credentials: PaymentGatewayCredentials
+  ): Promise<PaymentRefund>;
+}
+
+const PAYMENT_GATEWAYS: Record<PaymentProviderName, PaymentGateway> = {
+  HITPAY: hitpayGateway,
+};
+
+export const PAYMENT_PROVIDERS = Object.keys(PAYMENT_GATEWAYS) as PaymentProviderName[];
+
+// Provider for companies that haven't chosen one
+export const DEFAULT_PAYMENT_PROVIDER: PaymentProviderName = 'HITPAY';
+
+// Days a payment link stays payable for companies that haven't set their own expiry
+export const DEFAULT_PAYMENT_LINK_EXPIRY_DAYS = 7;
+
+// A link is regenerated rather than emailed when it expires within this window
+const MIN_LINK_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+export function isPaymentProvider(name: string): name is PaymentProviderName {
+  return PAYMENT_PROVIDERS.includes(name as PaymentProviderName);
+}
+
+/**
+ * Look up a provider's adapter by name (case-insensitive, as used in webhook URLs)
+ */
+export function getPaymentGateway(name: string): PaymentGateway {
+  const provider = name.toUpperCase();
+  if (!isPaymentProvider(provider)) {
+    throw new Error(`Unsupported payment provider: ${name}`);
+  }
+  return PAYMENT_GATEWAYS[provider];
+}
+
+/**
+ * The company's payment provider and credentials. Companies without their own
+ * credentials use the provider's system account from the environment.
+ */
+export async function getCompanyPaymentGateway(
+  companyId: string | null,
+  providerName?: string
+): Promise<{ gateway: PaymentGateway; credentials: PaymentGatewayCredentials; linkExpiryDays: number }> {
+  const company = companyId
+    ? await prisma.company.findUnique({
+        where: { id: companyId },
+        select: { paymentProvider: true, paymentApiKey: true, paymentWebhookSecret: true, paymentLinkExpiryDays: true },
+      })
+    : null;
+
+  const gateway = getPaymentGateway(providerName || company?.paymentProvider || DEFAULT_PAYMENT_PROVIDER);
+  const defaults = gateway.getDefaultCredentials();
+  const linkExpiryDays = company?.paymentLinkExpiryDays || DEFAULT_PAYMENT_LINK_EXPIRY_DAYS;
+
+  // Stored credentials only apply to the provider they were entered for
+  if (!company || (company.paymentProvider || DEFAULT_PAYMENT_PROVIDER) !== gateway.name) {
+    return { gateway, credentials: defaults, linkExpiryDays };
+  }
+
+  return {
+    gateway,
+    linkExpiryDays,
+    credentials: {
+      apiKey: company.paymentApiKey ? decryptSecret(company.paymentApiKey) : defaults.apiKey,
+      webhookSecret: company.paymentWebhookSecret ? decryptSecret(company.paymentWebhookSecret) : defaults.webhookSecret,
+    },
+  };
+}
+
+/**
+ * Create a payment link for an invoice with its company's provider and store it as a pending payment request.
+ * Links expire after the company's link expiry unless an expiry is given.
+ */
+export async function createInvoicePaymentRequest(
+  invoice: { id: string; companyId: string | null },
+  params: CreatePaymentLinkParams
+) {
+  const { gateway, credentials, linkExpiryDays } = await getCompanyPaymentGateway(invoice.companyId);
+  const expiresAt = params.expiresAt ?? new Date(Date.now() + linkExpiryDays * 24 * 60 * 60 * 1000);
+  const link = await gateway.createPaymentLink({ ...params, expiresAt }, credentials);
+
+  return prisma.paymentRequest.create({
+    data: {
+      invoiceId: invoice.id,
+      provider: gateway.name,
+      providerRequestId: link.providerRequestId,
+      checkoutUrl: link.checkoutUrl,
+      amount: params.amount,
+      currency: params.currency || 'PHP',
+      status: PaymentRequestStatus.PENDING,
+      expiresAt,
+    },
+  });
+}
+
+/**
+ * Whether a pending link can still be sent to the customer for the given balance
+ */
+export function isPaymentLinkLive(
+  paymentRequest: Pick<PaymentRequest, 'status' | 'amount' | 'expiresAt'>,
+  balance: number,
+  now: Date = new Date()
+): boolean {
+  return (
+    paymentRequest.status === PaymentRequestStatus.PENDING &&
+    Number(paymentRequest.amount) === balance &&
+    (!paymentRequest.expiresAt || paymentRequest.expiresAt.getTime() - now.getTime() > MIN_LINK_LIFETIME_MS)
+  );
+}
+
+export interface LivePaymentLink {
+  paymentRequest: PaymentRequest;
+  created: boolean; // false when the current link was still live
+}
+
+/**
+ * The invoice's current payment link for its outstanding balance. The latest pending link is reused
+ * while its amount matches the balance and it isn't about to expire; otherwise a new link is created
+ * and the old ones are superseded. Returns null when nothing is left to pay.
+ */
+export async function getLiveInvoicePaymentLink(
+  invoiceId: string,
+  options: { email?: string; paymentMethods?: string[] } = {}
+): Promise<LivePaymentLink | null> {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    select: {
+      id: true,
+      companyId: true,
+      billingNo: true,
+      customerName: true,
+      customerEmail: true,
+      customerEmails: true,
+      netAmount: true,
+      payments: { select: { amount: true, paidAt: true, reversedAt: true } },
+      creditNotes: { where: { status: 'ISSUED' }, select: { amount: true } },
+      paymentRequests: {
+        where: { status: PaymentRequestStatus.PENDING },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+      },
+    },
+  });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  // Charge only the outstanding balance
+  const { balance } = calculateInvoiceBalance(
+    invoice.netAmount,
+    invoice.payments,
+    sumCreditNotes(invoice.creditNotes)
+  );
+  if (balance <= 0) {
+    return null;
+  }
+
+  const current = invoice.paymentRequests[0];
+  if (current && isPaymentLinkLive(current, balance)) {
+    return { paymentRequest: current, created: false };
+  }
+
+  const referenceNumber = invoice.billingNo || invoice.id;
+  const email = options.email ||
+    invoice.customerEmail ||
+    (invoice.customerEmails ? invoice.customerEmails.split(',')[0].trim() : undefined);
+
+  const paymentRequest = await createInvoicePaymentRequest(invoice, {
+    amount: balance,
+    currency: 'PHP',
+    referenceNumber,
+    email,
+    name: invoice.customerName,
+    purpose: `Invoice ${referenceNumber}`,
+    redirectUrl: `${APP_URL}/payment/success?invoice=${invoice.id}`,
+    paymentMethods: options.paymentMethods,
+  });
+
+  await supersedePaymentLinks(prisma, invoice.id, { id: { not: paymentRequest.id } });
+
+  return { paymentRequest, created: true };
+}
+
+// ==================== WEBHOOKS ====================
+
+export type PaymentWebhookOutcome =
+  | 'REJECTED'
+  | 'IGNORED'
+  | 'NOT_FOUND'
+  | 'ALREADY_PROCESSED'
+  | 'ALREADY_PAID'
+  | 'FAILED'
+  | 'PROCESSED'
+  | 'REFUNDED'
+  | 'CHARGED_BACK'
+  | 'STALE_LINK_PAID';
+
+export interface PaymentWebhookResult {
+  outcome: PaymentWebhookOutcome;
+  providerStatus: string;
+  providerRequestId: string;
+  paymentReference: string | null;
+  signatureValid: boolean | null; // null when the payment request (and so its secret) is unknown
+}
+
+type PaymentRequestWithInvoice = Prisma.PaymentRequestGetPayload<{
+  include: { invoice: { select: { id: true; billingNo: true; customerName: true } } };
+}>;
+
+// A concurrent delivery already inserted the payment with this source and external ID.
+// Other unique violations in the same transaction are real failures.
+function isDuplicatePayment(error: unknown): boolean {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+    return false;
+  }
+  const target = error.meta?.target;
+  if (Array.isArray(target)) {
+    return target.includes('source') && target.includes('externalId');
+  }
+  return typeof target === 'string' && target.includes('source_externalId');
+}
+
+/**
+ * Record the part of a refund or chargeback not yet in the ledger as a negative payment.
+ * Providers report the running total, so each total is recorded once. A refund that returns
+ * everything paid closes the invoice with a credit note instead of reopening its balance.
+ */
+async function applyPaymentRefund(
+  gateway: PaymentGateway,
+  paymentRequest: PaymentRequestWithInvoice,
+  paymentReference: string,
+  refund: PaymentWebhookRefund
+): Promise<PaymentWebhookOutcome> {
+  const source = `${gateway.name}_WEBHOOK` as const;
+  const externalId = `${paymentReference}:${refund.type}:${refund.totalAmount.toFixed(2)}`;
+
+  const [original, previous] = await Promise.all([
+    prisma.payment.findUnique({
+      where: { source_externalId: { source, externalId: paymentReference } },
+      select: { id: true },
+    }),
+    prisma.payment.findMany({
+      where: {
+        invoiceId: paymentRequest.invoice.id,
+        source,
+        externalId: { startsWith: `${paymentReference}:` },
+        reversedAt: null,
+      },
+      select: { amount: true, externalId: true },
+    }),
+  ]);
+
+  // Refund of a payment that was never recorded
+  if (!original) {
+    return 'NOT_FOUND';
+  }
+
+  const alreadyRefunded = previous.reduce((sum, p) => sum - Number(p.amount), 0);
+  const amount = Math.round((refund.totalAmount - alreadyRefunded) * 100) / 100;
+  if (amount <= 0 || previous.some((p) => p.externalId === externalId)) {
+    return 'ALREADY_PROCESSED';
+  }
+
+  const label = refund.type === 'CHARGEBACK' ? 'chargeback' : 'refund';
+  let outcome;
+  try {
+    outcome = await prisma.$transaction(async (tx) => {
+      const recorded = await recordRefundInTransaction(
+        tx,
+        paymentRequest.invoice.id,
+        {
+          amount,
+          type: refund.type,
+          paymentMethod: gateway.name,
+          reference: paymentReference,
+          notes: `${gateway.label} ${label} of payment ${paymentReference}`,
+          source,
+          externalId,
+        },
+        null // System action
+      );
+
+      // A full refund closes the invoice: credit what the customer no longer owes
+      let creditNoteNo: string | null = null;
+      if (refund.type === 'REFUND' && recorded.fullyRefunded && recorded.balance.balance > 0) {
+        const credited = await issueCreditNoteInTransaction(
+          tx,
+          paymentRequest.invoice.id,
+          {
+            amount: recorded.balance.balance,
+            reason: `Full ${gateway.label} refund of payment ${paymentReference}`,
+          },
+          null
+        );
+        creditNoteNo = credited.creditNote.creditNoteNo;
+        recorded.balance = credited.balance;
+      }
+
+      await tx.paymentRequest.update({
+        where: { id: paymentRequest.id },
+        data: {
+          refundedAmount: refund.totalAmount,
+          ...(refund.type === 'CHARGEBACK'
+            ? { status: PaymentRequestStatus.CHARGED_BACK }
+            : refund.totalAmount >= Number(paymentRequest.amount)
+              ? { status: PaymentRequestStatus.REFUNDED }
+              : {}),
+        },
+      });
+
+      return { recorded, creditNoteNo };
+    });
+  } catch (error) {
+    // A concurrent delivery of the same refund recorded it first
+    if (isDuplicatePayment(error)) {
+      return 'ALREADY_PROCESSED';
+    }
+    throw error;
+  }
+
+  await notifyPaymentRefunded({
+    id: outcome.recorded.invoiceId,
+    billingNo: outcome.recorded.billingNo,
+    customerName: outcome.recorded.customerName,
+    amount,
+    type: refund.type,
+    balance: outcome.recorded.balance.balance,
+    creditNoteNo: outcome.creditNoteNo,
+  });
+
+  return refund.type === 'CHARGEBACK' ? 'CHARGED_BACK' : 'REFUNDED';
+}
+
+/**
+ * Apply a provider's payment webhook: completed payments are recorded against the invoice ledger
+ * and failed ones close their payment request. Refunds and chargebacks are recorded as negative
+ * payments. Webhooks without a valid signature are rejected, and a payment ID (or refund total)
+ * that was already recorded is never recorded again.
+ */
+export async function processPaymentWebhook(
+  gateway: PaymentGateway,
+  rawBody: string,
+  headers: Headers
+): Promise<PaymentWebhookResult> {
+  const event = gateway.parseWebhook(rawBody);
+  const source = `${gateway.name}_WEBHOOK` as const;
+
+  const result = (outcome: PaymentWebhookOutcome, signatureValid: boolean | null): PaymentWebhookResult => ({
+    outcome,
+    providerStatus: event.providerStatus,
+    providerRequestId: event.providerRequestId,
+    paymentReference: event.paymentReference,
+    signatureValid,
+  });
+
+  const paymentRequest = await prisma.paymentRequest.findUnique({
+    where: {
+      provider_providerRequestId: { provider: gateway.name, providerRequestId: event.providerRequestId },
+    },
+    include: {
+      invoice: {
+        select: {
+          id: true,
+          companyId: true,
+          billingNo: true,
+          customerName: true,
+          status: true,
+          netAmount: true,
+        },
+      },
+    },
+  });
+
+  // Unknown IDs are checked against the system credentials, so a request that is not
+  // signed gets the same rejection whether or not the payment request exists
+  if (!paymentRequest) {
+    const { credentials } = await getCompanyPaymentGateway(null, gateway.name);
+    if (!gateway.verifyWebhook(rawBody, headers, credentials)) {
+      console.warn(`${gateway.label} webhook rejected - invalid signature for`, event.providerRequestId);
+      return result('REJECTED', false);
+    }
+
+    console.error('Payment request not found:', event.providerRequestId);
+    return result('NOT_FOUND', true);
+  }
+
+  // Verify with the credentials of the invoice's company
+  const { credentials } = await getCompanyPaymentGateway(paymentRequest.invoice.companyId, gateway.name);
+  if (!gateway.verifyWebhook(rawBody, headers, credentials)) {
+    console.warn(`${gateway.label} webhook rejected - invalid signature for`, event.providerRequestId);
+    return result('REJECTED', false);
+  }
+
+  if (event.refund && event.paymentReference) {
+    return result(await applyPaymentRefund(gateway, paymentRequest, event.paymentReference, event.refund), true);
+  }
+
+  if (!event.status) {
+    return result('IGNORED', true);
+  }
+
+  // Idempotency - the payment request was settled, or this payment ID was already recorded
+  if (paymentRequest.status === PaymentRequestStatus.COMPLETED) {
+    return result('ALREADY_PROCESSED', true);
+  }
+  if (event.paymentReference) {
+    const existing = await prisma.payment.findUnique({
+      where: { source_externalId: { source, externalId: event.paymentReference } },
+      select: { id: true },
+    });
+    if (existing) {
+      return result('ALREADY_PROCESSED', true);
+    }
+  }
+
+  if (event.status === PaymentRequestStatus.FAILED) {
+    await prisma.paymentRequest.update({
+      where: { id: paymentRequest.id },
+      data: { status: PaymentRequestStatus.FAILED },
+    });
+    return result('FAILED', true);
+  }
+
+  // The customer paid a link that was replaced after the balance changed or the link expired.
+  // The money was received either way: what fits the balance is recorded and the rest is kept
+  // on the request as an overpayment for review, so the webhook never fails and retries.
+  const stale = paymentRequest.status === PaymentRequestStatus.SUPERSEDED;
+  if (stale) {
+    console.warn(`${gateway.label} payment on superseded link`, event.providerRequestId);
+  }
+
+  // Check if invoice is already paid
+  if (!stale && paymentRequest.invoice.status === 'PAID') {
+    return result('ALREADY_PAID', true);
+  }
+
+  // Update payment request and invoice in a transaction
+  let settled;
+  try {
+    settled = await prisma.$transaction(async (tx) => {
+      let applied = event.amount;
+      if (stale) {
+        const invoice = await tx.invoice.findUniqueOrThrow({
+          where: { id: paymentRequest.invoice.id },
+          select: {
+            status: true,
+            netAmount: true,
+            payments: { select: { amount: true, paidAt: true, reversedAt: true } },
+            creditNotes: { where: { status: 'ISSUED' }, select: { amount: true } },
+          },
+        });
+        const { balance } = calculateInvoiceBalance(invoice.netAmount, invoice.payments, sumCreditNotes(invoice.creditNotes));
+        applied = PAYABLE_STATUSES.includes(invoice.status) ? Math.min(event.amount, Math.max(0, balance)) : 0;
+      }
+      const overpaid = Math.round((event.amount - applied) * 100) / 100;
+
+      await tx.paymentRequest.update({
+        where: { id: paymentRequest.id },
+        data: {
+          status: PaymentRequestStatus.COMPLETED,
+          paidAt: new Date(),
+          paymentMethod: event.paymentMethod,
+          paymentReference: event.paymentReference,
+          overpaidAmount: overpaid,
+        },
+      });
+
+      // Record the payment against the invoice ledger
+      const recorded = applied > 0
+        ? await recordPaymentInTransaction(
+          tx,
+          paymentRequest.invoice.id,
+          {
+            amount: applied,
+            paymentMethod: gateway.name,
+            reference: event.paymentReference,
+            notes: event.paymentMethod ? `${gateway.label} payment type: ${event.paymentMethod}` : null,
+            source,
+            externalId: event.paymentReference,
+          },
+          null // System action
+        )
+        : null;
+
+      return { recorded, applied, overpaid };
+    });
+  } catch (error) {
+    // A concurrent delivery of the same payment recorded it first
+    if (isDuplicatePayment(error)) {
+      return result('ALREADY_PROCESSED', true);
+    }
+    throw error;
+  }
+
+  // Send notifications (outside transaction). Retries of this event stop at the completed request, so they go out once.
+  const { recorded, applied, overpaid } = settled;
+  if (recorded) {
+    await notifyPaymentRecorded(recorded, applied, `${gateway.label} (${event.paymentMethod || 'Online'})`);
+  }
+  if (stale) {
+    await notifyStalePaymentLinkPaid({
+      id: paymentRequest.invoice.id,
+      billingNo: paymentRequest.invoice.billingNo,
+      customerName: paymentRequest.invoice.customerName,
+      amount: event.amount,
+      overpaid,
+    });
+  }
+
+  console.log('Payment processed successfully:', {
+    invoiceId: paymentRequest.invoice.id,
+    billingNo: paymentRequest.invoice.billingNo,
+    amount: event.amount,
+    overpaid,
+    status: recorded?.balance.status ?? paymentRequest.invoice.status,
+    balance: recorded?.balance.balance ?? 0,
+  });
+
+  return result(stale ? 'STALE_LINK_PAID' : 'PROCESSED', true);
+}
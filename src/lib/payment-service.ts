@@ -0,0 +1,590 @@
+// Payment ledger service - records individual payments against invoices
+import prisma from './prisma';
+import { BankLineStatus, BankMatchStatus, InvoiceStatus, PaymentRequestStatus, Prisma } from '@/generated/prisma';
+import { notifyInvoicePaid, notifyPartialPayment } from './notifications';
+import type { PaymentProviderName } from './payment-gateway';
+
+// Online payments are recorded with their provider's name as the method
+export type PaymentMethod = 'CASH' | 'BANK_TRANSFER' | 'CHECK' | PaymentProviderName;
+export type PaymentSource = 'MANUAL' | 'BANK_IMPORT' | `${PaymentProviderName}_WEBHOOK`;
+
+// Ledger entry types. Refunds and chargebacks are stored as negative amounts.
+export type PaymentEntryType = 'PAYMENT' | 'REFUND' | 'CHARGEBACK';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'BANK_TRANSFER', 'CHECK', 'HITPAY'];
+
+// Invoice statuses that can still accept payments
+export const PAYABLE_STATUSES: InvoiceStatus[] = [
+  InvoiceStatus.SENT,
+  InvoiceStatus.PARTIALLY_PAID,
+];
+
+// Amounts within half a centavo are treated as equal
+const BALANCE_TOLERANCE = 0.005;
+
+export interface RecordPaymentInput {
+  amount: number;
+  paymentMethod: PaymentMethod;
+  reference?: string | null;
+  paidAt?: Date;
+  notes?: string | null;
+  source?: PaymentSource;
+  externalId?: string | null; // Provider payment ID, unique per source
+}
+
+export interface RecordRefundInput {
+  amount: number; // Amount returned to the customer, as a positive number
+  type: Exclude<PaymentEntryType, 'PAYMENT'>;
+  paymentMethod: PaymentMethod;
+  reference?: string | null;
+  refundedAt?: Date;
+  notes?: string | null;
+  source?: PaymentSource;
+  externalId?: string | null;
+}
+
+export interface PaymentLedgerEntry {
+  amount: number | Prisma.Decimal;
+  paidAt: Date;
+  reversedAt?: Date | null;
+}
+
+export interface InvoiceBalance {
+  totalDue: number;
+  totalCredited: number;
+  totalPaid: number;
+  balance: number;
+  status: InvoiceStatus;
+  lastPaidAt: Date | null;
+}
+
+export interface RecordPaymentResult {
+  paymentId: string;
+  invoiceId: string;
+  billingNo: string | null;
+  customerName: string;
+  previousStatus: InvoiceStatus;
+  balance: InvoiceBalance;
+}
+
+export interface RecordRefundResult extends RecordPaymentResult {
+  amount: number;
+  type: RecordRefundInput['type'];
+  fullyRefunded: boolean; // Nothing paid on the invoice remains
+}
+
+export interface CanRecordPaymentResult {
+  canRecord: boolean;
+  reason?: string;
+  balance?: InvoiceBalance;
+}
+
+// Only issued (non-void) credit notes reduce the invoice balance
+const ACTIVE_CREDIT_NOTES = { where: { status: 'ISSUED' as const }, select: { amount: true } };
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Sum the amounts of issued credit notes
+ */
+export function sumCreditNotes(creditNotes: { amount: number | Prisma.Decimal }[]): number {
+  return roundCurrency(creditNotes.reduce((sum, cn) => sum + Number(cn.amount), 0));
+}
+
+/**
+ * Compute the running balance of an invoice from its payment ledger
+ * and issued credit notes. Reversed payments are ignored.
+ */
+export function calculateInvoiceBalance(
+  netAmount: number | Prisma.Decimal,
+  payments: PaymentLedgerEntry[],
+  creditedAmount: number = 0
+): InvoiceBalance {
+  const totalDue = roundCurrency(Number(netAmount));
+  const totalCredited = roundCurrency(creditedAmount);
+  const active = payments.filter((p) => !p.reversedAt);
+
+  const totalPaid = roundCurrency(active.reduce((sum, p) => sum + Number(p.amount), 0));
+  const balance = roundCurrency(totalDue - totalCredited - totalPaid);
+
+  let status: InvoiceStatus;
+  if (totalPaid <= BALANCE_TOLERANCE && totalCredited <= BALANCE_TOLERANCE) {
+    status = InvoiceStatus.SENT;
+  } else if (balance <= BALANCE_TOLERANCE) {
+    // Settled by payments and/or credit notes
+    status = InvoiceStatus.PAID;
+  } else if (totalPaid <= BALANCE_TOLERANCE) {
+    status = InvoiceStatus.SENT;
+  } else {
+    status = InvoiceStatus.PARTIALLY_PAID;
+  }
+
+  // Refunds don't count as the invoice being paid
+  const lastPaidAt = active.reduce<Date | null>(
+    (latest, p) => (Number(p.amount) > 0 && (!latest || p.paidAt > latest) ? p.paidAt : latest),
+    null
+  );
+
+  return { totalDue, totalCredited, totalPaid, balance, status, lastPaidAt };
+}
+
+/**
+ * Check if a payment of the given amount can be recorded for an invoice
+ */
+export async function canRecordPayment(
+  invoiceId: string,
+  amount: number
+): Promise<CanRecordPaymentResult> {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    select: {
+      status: true,
+      netAmount: true,
+      payments: { select: { amount: true, paidAt: true, reversedAt: true } },
+      creditNotes: ACTIVE_CREDIT_NOTES,
+    },
+  });
+
+  if (!invoice) {
+    return { canRecord: false, reason: 'Invoice not found' };
+  }
+
+  if (!PAYABLE_STATUSES.includes(invoice.status)) {
+    return {
+      canRecord: false,
+      reason: `Cannot record payment. Current status: ${invoice.status}. Only SENT or PARTIALLY_PAID invoices can receive payments.`,
+    };
+  }
+
+  const balance = calculateInvoiceBalance(
+    invoice.netAmount,
+    invoice.payments,
+    sumCreditNotes(invoice.creditNotes)
+  );
+  if (roundCurrency(amount) - balance.balance > BALANCE_TOLERANCE) {
+    return {
+      canRecord: false,
+      reason: `Payment of ${roundCurrency(amount).toFixed(2)} exceeds the outstanding balance of ${balance.balance.toFixed(2)}`,
+      balance,
+    };
+  }
+
+  return { canRecord: true, balance };
+}
+
+/**
+ * Mark an invoice's pending links as superseded, so a payment on one of them is detected as stale
+ */
+export async function supersedePaymentLinks(
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  where: Prisma.PaymentRequestWhereInput = {}
+): Promise<void> {
+  await tx.paymentRequest.updateMany({
+    where: { ...where, invoiceId, status: PaymentRequestStatus.PENDING },
+    data: { status: PaymentRequestStatus.SUPERSEDED, supersededAt: new Date() },
+  });
+}
+
+/**
+ * Recalculate invoice payment totals and status from the ledger
+ */
+export async function syncInvoiceFromLedger(
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  netAmount: number | Prisma.Decimal
+): Promise<InvoiceBalance> {
+  const [payments, creditNotes] = await Promise.all([
+    tx.payment.findMany({
+      where: { invoiceId },
+      orderBy: { paidAt: 'asc' },
+    }),
+    tx.creditNote.findMany({
+      where: { invoiceId, status: 'ISSUED' },
+      select: { amount: true },
+    }),
+  ]);
+
+  const balance = calculateInvoiceBalance(netAmount, payments, sumCreditNotes(creditNotes));
+  const latest = [...payments].reverse().find((p) => !p.reversedAt && Number(p.amount) > 0);
+
+  await tx.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      status: balance.status,
+      paidAmount: balance.totalPaid > 0 ? balance.totalPaid : null,
+      paidAt: balance.lastPaidAt,
+      paymentMethod: latest?.paymentMethod ?? null,
+      paymentReference: latest?.reference ?? null,
+    },
+  });
+
+  // Pending payment links for another amount no longer match what the customer owes
+  await supersedePaymentLinks(tx, invoiceId, { amount: { not: balance.balance } });
+
+  return balance;
+}
+
+/**
+ * Record a payment inside an existing transaction
+ * (used by payment webhooks so the payment request update is atomic)
+ */
+export async function recordPaymentInTransaction(
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  input: RecordPaymentInput,
+  userId?: string | null
+): Promise<RecordPaymentResult> {
+  if (!input.amount || input.amount <= 0) {
+    throw new Error('Valid payment amount is required');
+  }
+
+  if (!PAYMENT_METHODS.includes(input.paymentMethod)) {
+    throw new Error(`Invalid payment method. Must be ${PAYMENT_METHODS.join(', ')}`);
+  }
+
+  const invoice = await tx.invoice.findUnique({
+    where: { id: invoiceId },
+    select: {
+      id: true,
+      billingNo: true,
+      customerName: true,
+      status: true,
+      netAmount: true,
+      payments: true,
+      creditNotes: ACTIVE_CREDIT_NOTES,
+    },
+  });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  if (!PAYABLE_STATUSES.includes(invoice.status)) {
+    throw new Error(
+      `Cannot record payment. Current status: ${invoice.status}. Only SENT or PARTIALLY_PAID invoices can receive payments.`
+    );
+  }
+
+  const current = calculateInvoiceBalance(
+    invoice.netAmount,
+    invoice.payments,
+    sumCreditNotes(invoice.creditNotes)
+  );
+  const amount = roundCurrency(input.amount);
+  if (amount - current.balance > BALANCE_TOLERANCE) {
+    throw new Error(
+      `Payment of ${amount.toFixed(2)} exceeds the outstanding balance of ${current.balance.toFixed(2)}`
+    );
+  }
+
+  const paidAt = input.paidAt ?? new Date();
+  const payment = await tx.payment.create({
+    data: {
+      invoiceId,
+      amount,
+      paymentMethod: input.paymentMethod,
+      reference: input.reference || null,
+      paidAt,
+      notes: input.notes || null,
+      source: input.source ?? 'MANUAL',
+      externalId: input.externalId || null,
+      recordedById: userId || null,
+    },
+  });
+
+  const balance = await syncInvoiceFromLedger(tx, invoiceId, invoice.netAmount);
+
+  await tx.auditLog.create({
+    data: {
+      userId: userId || null,
+      action: balance.status === InvoiceStatus.PAID ? 'INVOICE_PAID' : 'PAYMENT_RECORDED',
+      entityType: 'Invoice',
+      entityId: invoiceId,
+      details: {
+        billingNo: invoice.billingNo,
+        paymentId: payment.id,
+        paidAmount: amount,
+        paymentMethod: input.paymentMethod,
+        paymentReference: input.reference,
+        paidAt: paidAt.toISOString(),
+        totalPaid: balance.totalPaid,
+        balance: balance.balance,
+        source: input.source ?? 'MANUAL',
+      },
+    },
+  });
+
+  return {
+    paymentId: payment.id,
+    invoiceId,
+    billingNo: invoice.billingNo,
+    customerName: invoice.customerName,
+    previousStatus: invoice.status,
+    balance,
+  };
+}
+
+/**
+ * Record a payment against an invoice and update its running balance
+ */
+export async function recordPayment(
+  invoiceId: string,
+  input: RecordPaymentInput,
+  userId?: string | null
+): Promise<RecordPaymentResult> {
+  return prisma.$transaction((tx) => recordPaymentInTransaction(tx, invoiceId, input, userId));
+}
+
+/**
+ * Record a refund or chargeback inside an existing transaction.
+ * The entry is negative, so the invoice balance reopens by the refunded amount.
+ */
+export async function recordRefundInTransaction(
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  input: RecordRefundInput,
+  userId?: string | null
+): Promise<RecordRefundResult> {
+  if (!input.amount || input.amount <= 0) {
+    throw new Error('Valid refund amount is required');
+  }
+
+  const invoice = await tx.invoice.findUnique({
+    where: { id: invoiceId },
+    select: {
+      id: true,
+      billingNo: true,
+      customerName: true,
+      status: true,
+      netAmount: true,
+      payments: true,
+      creditNotes: ACTIVE_CREDIT_NOTES,
+    },
+  });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  const current = calculateInvoiceBalance(
+    invoice.netAmount,
+    invoice.payments,
+    sumCreditNotes(invoice.creditNotes)
+  );
+  const amount = roundCurrency(input.amount);
+  if (amount - current.totalPaid > BALANCE_TOLERANCE) {
+    throw new Error(
+      `Refund of ${amount.toFixed(2)} exceeds the ${current.totalPaid.toFixed(2)} paid on the invoice`
+    );
+  }
+
+  const refundedAt = input.refundedAt ?? new Date();
+  const payment = await tx.payment.create({
+    data: {
+      invoiceId,
+      amount: -amount,
+      type: input.type,
+      paymentMethod: input.paymentMethod,
+      reference: input.reference || null,
+      paidAt: refundedAt,
+      notes: input.notes || null,
+      source: input.source ?? 'MANUAL',
+      externalId: input.externalId || null,
+      recordedById: userId || null,
+    },
+  });
+
+  const balance = await syncInvoiceFromLedger(tx, invoiceId, invoice.netAmount);
+
+  await tx.auditLog.create({
+    data: {
+      userId: userId || null,
+      action: 'PAYMENT_REFUNDED',
+      entityType: 'Invoice',
+      entityId: invoiceId,
+      details: {
+        billingNo: invoice.billingNo,
+        paymentId: payment.id,
+        type: input.type,
+        amount,
+        paymentMethod: input.paymentMethod,
+        paymentReference: input.reference,
+        previousStatus: invoice.status,
+        totalPaid: balance.totalPaid,
+        balance: balance.balance,
+        source: input.source ?? 'MANUAL',
+      },
+    },
+  });
+
+  return {
+    paymentId: payment.id,
+    invoiceId,
+    billingNo: invoice.billingNo,
+    customerName: invoice.customerName,
+    previousStatus: invoice.status,
+    balance,
+    amount,
+    type: input.type,
+    fullyRefunded: balance.totalPaid <= BALANCE_TOLERANCE,
+  };
+}
+
+/**
+ * Notify users about a recorded payment (full or partial)
+ */
+export async function notifyPaymentRecorded(
+  result: RecordPaymentResult,
+  amount: number,
+  paymentMethodLabel: string
+) {
+  if (result.balance.status === InvoiceStatus.PAID) {
+    return notifyInvoicePaid({
+      id: result.invoiceId,
+      billingNo: result.billingNo,
+      customerName: result.customerName,
+      paidAmount: result.balance.totalPaid,
+      paymentMethod: paymentMethodLabel,
+    });
+  }
+
+  return notifyPartialPayment({
+    id: result.invoiceId,
+    billingNo: result.billingNo,
+    customerName: result.customerName,
+    paidAmount: amount,
+    balance: result.balance.balance,
+  });
+}
+
+/**
+ * Reverse a payment (e.g. bounced check or wrong entry).
+ * The payment stays in the ledger but no longer counts toward the balance.
+ */
+export async function reversePayment(
+  paymentId: string,
+  reason: string,
+  userId?: string | null
+): Promise<RecordPaymentResult> {
+  if (!reason) {
+    throw new Error('Reversal reason is required');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const payment = await tx.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        invoice: {
+          select: { id: true, billingNo: true, customerName: true, status: true, netAmount: true },
+        },
+        bankLineMatch: { select: { id: true, lineId: true } },
+      },
+    });
+
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    if (payment.reversedAt) {
+      throw new Error('Payment has already been reversed');
+    }
+
+    await tx.payment.update({
+      where: { id: paymentId },
+      data: {
+        reversedAt: new Date(),
+        reversedById: userId || null,
+        reversalReason: reason,
+      },
+    });
+
+    // A payment confirmed from a bank statement frees its bank line, so it can be matched again
+    if (payment.bankLineMatch) {
+      await tx.bankLineMatch.update({
+        where: { id: payment.bankLineMatch.id },
+        data: { status: BankMatchStatus.REVERSED },
+      });
+      await tx.bankStatementLine.update({
+        where: { id: payment.bankLineMatch.lineId },
+        data: { status: BankLineStatus.UNMATCHED, unappliedAmount: 0, resolvedById: null, resolvedAt: null },
+      });
+    }
+
+    const balance = await syncInvoiceFromLedger(tx, payment.invoiceId, payment.invoice.netAmount);
+
+    await tx.auditLog.create({
+      data: {
+        userId: userId || null,
+        action: 'PAYMENT_REVERSED',
+        entityType: 'Invoice',
+        entityId: payment.invoiceId,
+        details: {
+          billingNo: payment.invoice.billingNo,
+          paymentId,
+          amount: Number(payment.amount),
+          paymentMethod: payment.paymentMethod,
+          reason,
+          totalPaid: balance.totalPaid,
+          balance: balance.balance,
+          ...(payment.bankLineMatch && { bankLineId: payment.bankLineMatch.lineId }),
+        },
+      },
+    });
+
+    return {
+      paymentId,
+      invoiceId: payment.invoiceId,
+      billingNo: payment.invoice.billingNo,
+      customerName: payment.invoice.customerName,
+      previousStatus: payment.invoice.status,
+      balance,
+    };
+  });
+}
+
+/**
+ * Get the payment ledger for an invoice, with its current balance
+ */
+export async function getInvoicePayments(invoiceId: string) {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    select: {
+      id: true,
+      billingNo: true,
+      customerName: true,
+      status: true,
+      netAmount: true,
+      payments: {
+        include: {
+          recordedBy: { select: { id: true, name: true, email: true } },
+          reversedBy: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { paidAt: 'asc' },
+      },
+      paymentRequests: { orderBy: { createdAt: 'asc' } },
+      creditNotes: ACTIVE_CREDIT_NOTES,
+    },
+  });
+
+  if (!invoice) return null;
+
+  return {
+    invoice: {
+      id: invoice.id,
+      billingNo: invoice.billingNo,
+      customerName: invoice.customerName,
+      status: invoice.status,
+      netAmount: Number(invoice.netAmount),
+    },
+    payments: invoice.payments,
+    paymentRequests: invoice.paymentRequests,
+    balance: calculateInvoiceBalance(
+      invoice.netAmount,
+      invoice.payments,
+      sumCreditNotes(invoice.creditNotes)
+    ),
+  };
+}
@@ -2,7 +2,10 @@ import { formatCurrency, formatDate } from './utils';
 import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
 import fs from 'fs';
 import path from 'path';
-import { getVatRate } from './settings';
+import prisma from './prisma';
+import { getVatRate, getSOASettings } from './settings';
+import type { ArAgingReport, AgingBucket } from './ar-aging-service';
+import type { CustomerStatement } from './statement-service';
 
 // PDF generation configuration
 interface PdfConfig {
@@ -314,33 +317,25 @@ export async function generatePdf(invoice: InvoicePdfData, config: PdfConfig): P
   return Buffer.from(html, 'utf-8');
 }
 
-// Get PDF config for a company
-export function getPdfConfig(companyCode: 'YOWI' | 'ABBA'): PdfConfig {
-  if (companyCode === 'YOWI') {
-    return {
-      companyName: 'YAHSHUA OUTSOURCING WORLDWIDE, INC.',
-      companyAddress: 'Unit #12 2F E-Max Building, Xavier Estates, Masterson Avenue, Upper Balulang, Cagayan De Oro City Misamis Oriental 9000',
-      companyContact: '0917-650-4003',
-      bankName: 'RCBC',
-      bankAccount: '7-590-53889-5',
-      formReference: 'YOWI-FRM-03-012',
-      logoPath: '/assets/yowi-logo.png',
-      preparedBy: 'VANESSA L. DONOSO',
-      reviewedBy: 'RUTH MICHELLE C. BAYRON',
-    };
+// Get PDF config for a billing entity from its Company record and default signatories
+export async function getPdfConfig(companyCode: string): Promise<PdfConfig> {
+  const company = await prisma.company.findUnique({ where: { code: companyCode } });
+  if (!company) {
+    throw new Error(`Billing entity ${companyCode} not found`);
   }
 
-  // ABBA
+  const soaSettings = await getSOASettings(companyCode);
+
   return {
-    companyName: 'THE ABBA INITIATIVE, OPC',
-    companyAddress: 'Unit #12 2F E-Max Building Xavier Estates Masterson Avenue, Upper Balulang, Cagayan De Oro City Misamis Oriental 9000',
-    companyContact: '0917-106-5249',
-    bankName: 'RCBC',
-    bankAccount: '7-590-59122-2',
-    formReference: 'YOWI-FRM-03-012',
-    logoPath: '/assets/abba-logo.png',
-    preparedBy: 'VANESSA L. DONOSO',
-    reviewedBy: 'RUTH MICHELLE C. BAYRON',
+    companyName: company.name,
+    companyAddress: company.address || '',
+    companyContact: company.contactNumber || '',
+    bankName: soaSettings.bankName,
+    bankAccount: soaSettings.bankAccountNo,
+    formReference: company.formReference || '',
+    logoPath: company.logoPath || undefined,
+    preparedBy: soaSettings.preparedBy,
+    reviewedBy: soaSettings.reviewedBy,
   };
 }
 
@@ -391,6 +386,33 @@ const defaultTemplate: TemplateConfig = {
   showDisclaimer: true,
 };
 
+/**
+ * Embed the template logo (from public/assets) into a PDF, falling back to the company logo.
+ * Returns null if neither is set or the file is missing.
+ */
+async function embedLogo(pdfDoc: PDFDocument, tmpl: TemplateConfig, companyLogoPath?: string | null) {
+  try {
+    const logoSource = tmpl.logoPath || companyLogoPath;
+    if (!logoSource) return null;
+
+    const logoPath = path.join(process.cwd(), 'public', 'assets', path.basename(logoSource));
+
+    if (fs.existsSync(logoPath)) {
+      const logoBytes = fs.readFileSync(logoPath);
+      if (logoBytes.length > 100) {
+        if (logoBytes[0] === 0x89 && logoBytes[1] === 0x50) {
+          return await pdfDoc.embedPng(logoBytes);
+        } else if (logoBytes[0] === 0xFF && logoBytes[1] === 0xD8) {
+          return await pdfDoc.embedJpg(logoBytes);
+        }
+      }
+    }
+  } catch (error) {
+    console.log('Could not load logo:', error);
+  }
+  return null;
+}
+
 /**
  * Generate invoice PDF using pdf-lib with customizable template
  * Supports multi-page for invoices with many line items
@@ -424,8 +446,7 @@ export async function generateInvoicePdfLib(
   const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
 
   const company = invoice.company;
-  const isYOWI = company?.code === 'YOWI';
-  const companyName = company?.name || (isYOWI ? 'YAHSHUA OUTSOURCING WORLDWIDE INC.' : 'THE ABBA INITIATIVE, OPC');
+  const companyName = company?.name || '';
 
   // Page dimensions
   const PAGE_WIDTH = 612;
@@ -458,27 +479,8 @@ export async function generateInvoicePdfLib(
   const invoiceHasWithholding = Number(invoice.withholdingTax) > 0;
 
   // Load logo once
-  let logoImage: any = null;
+  const logoImage = await embedLogo(pdfDoc, tmpl, company?.logoPath);
   const logoSize = 55;
-  try {
-    const logoFileName = tmpl.logoPath
-      ? path.basename(tmpl.logoPath)
-      : (isYOWI ? 'yowi-logo.png' : 'abba-logo.png');
-    const logoPath = path.join(process.cwd(), 'public', 'assets', logoFileName);
-
-    if (fs.existsSync(logoPath)) {
-      const logoBytes = fs.readFileSync(logoPath);
-      if (logoBytes.length > 100) {
-        if (logoBytes[0] === 0x89 && logoBytes[1] === 0x50) {
-          logoImage = await pdfDoc.embedPng(logoBytes);
-        } else if (logoBytes[0] === 0xFF && logoBytes[1] === 0xD8) {
-          logoImage = await pdfDoc.embedJpg(logoBytes);
-        }
-      }
-    }
-  } catch (error) {
-    console.log('Could not load logo:', error);
-  }
 
   // Helper function to draw NEW page header (Logo left, Company info right)
   const drawPageHeader = (page: any, pageNum: number, totalPages: number): number => {
@@ -540,17 +542,18 @@ export async function generateInvoicePdfLib(
     }
 
     // TIN
-    const tin = company?.tin || (isYOWI ? '010-143-230-000' : '010-143-231-000');
-    const tinText = `TIN: ${tin}`;
-    const tinWidth = font.widthOfTextAtSize(tinText, 9);
-    page.drawText(tinText, {
-      x: rightX - tinWidth,
-      y: rightY,
-      size: 9,
-      font,
-      color: rgb(0.3, 0.3, 0.3),
-    });
-    rightY -= 12;
+    if (company?.tin) {
+      const tinText = `TIN: ${company.tin}`;
+      const tinWidth = font.widthOfTextAtSize(tinText, 9);
+      page.drawText(tinText, {
+        x: rightX - tinWidth,
+        y: rightY,
+        size: 9,
+        font,
+        color: rgb(0.3, 0.3, 0.3),
+      });
+      rightY -= 12;
+    }
 
     // Contact
     if (company?.contactNumber) {
@@ -1449,6 +1452,663 @@ export async function generateInvoicePdfLib(
   return pdfDoc.save();
 }
 
+/**
+ * Generate credit note PDF using pdf-lib.
+ * Single page: references the original invoice and shows the credited amounts.
+ */
+export async function generateCreditNotePdfLib(
+  creditNote: any,
+  soaSettings: SOASettings,
+  template?: TemplateConfig
+): Promise<Uint8Array> {
+  const tmpl = template || defaultTemplate;
+  const primaryRgb = hexToRgb(tmpl.primaryColor);
+  const secondaryRgb = hexToRgb(tmpl.secondaryColor);
+  const footerBgRgb = hexToRgb(tmpl.footerBgColor);
+
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  const PAGE_WIDTH = 612;
+  const PAGE_HEIGHT = 792;
+  const MARGIN_LEFT = 50;
+  const MARGIN_RIGHT = 50;
+  const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_LEFT - MARGIN_RIGHT;
+  const RIGHT_X = PAGE_WIDTH - MARGIN_RIGHT;
+
+  const page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const company = creditNote.company;
+  const invoice = creditNote.invoice;
+
+  const drawRight = (text: string, y: number, size: number, useBold = false) => {
+    const f = useBold ? fontBold : font;
+    const clean = sanitizeForPdf(text);
+    page.drawText(clean, { x: RIGHT_X - f.widthOfTextAtSize(clean, size), y, size, font: f, color: rgb(0.1, 0.1, 0.1) });
+  };
+
+  // === Header: title left, company info right ===
+  let y = PAGE_HEIGHT - 60;
+  page.drawText('CREDIT NOTE', {
+    x: MARGIN_LEFT,
+    y,
+    size: 20,
+    font: fontBold,
+    color: rgb(primaryRgb.r, primaryRgb.g, primaryRgb.b),
+  });
+
+  let rightY = y + 8;
+  drawRight(company?.name || '', rightY, 11, true);
+  rightY -= 14;
+  for (const line of wrapTextForPdf(company?.address || '', font, 9, 250)) {
+    drawRight(line, rightY, 9);
+    rightY -= 12;
+  }
+  if (company?.tin) {
+    drawRight(`TIN: ${company.tin}`, rightY, 9);
+    rightY -= 12;
+  }
+
+  y = Math.min(y, rightY) - 30;
+
+  // === Customer (left) and credit note details (right) ===
+  page.drawText('CREDIT TO:', { x: MARGIN_LEFT, y, size: 9, font: fontBold, color: rgb(0.4, 0.4, 0.4) });
+  const detailsStartY = y;
+  y -= 14;
+  page.drawText(sanitizeForPdf(creditNote.customerName), { x: MARGIN_LEFT, y, size: 11, font: fontBold, color: rgb(0, 0, 0) });
+  y -= 13;
+  if (invoice?.attention) {
+    page.drawText(sanitizeForPdf(`Attn: ${invoice.attention}`), { x: MARGIN_LEFT, y, size: 9, font, color: rgb(0.3, 0.3, 0.3) });
+    y -= 12;
+  }
+  for (const line of wrapTextForPdf(invoice?.customerAddress || '', font, 9, 260)) {
+    page.drawText(line, { x: MARGIN_LEFT, y, size: 9, font, color: rgb(0.3, 0.3, 0.3) });
+    y -= 12;
+  }
+  if (invoice?.customerTin) {
+    page.drawText(sanitizeForPdf(`TIN: ${invoice.customerTin}`), { x: MARGIN_LEFT, y, size: 9, font, color: rgb(0.3, 0.3, 0.3) });
+    y -= 12;
+  }
+
+  const details: [string, string][] = [
+    ['Credit Note No:', creditNote.creditNoteNo],
+    ['Date Issued:', formatDate(new Date(creditNote.issuedAt))],
+    ['Invoice Ref:', invoice?.billingNo || '-'],
+    ['Invoice Date:', invoice?.statementDate ? formatDate(new Date(invoice.statementDate)) : '-'],
+  ];
+  let detailsY = detailsStartY;
+  for (const [label, value] of details) {
+    page.drawText(label, { x: RIGHT_X - 200, y: detailsY, size: 9, font: fontBold, color: rgb(0.4, 0.4, 0.4) });
+    drawRight(value, detailsY, 9);
+    detailsY -= 14;
+  }
+
+  y = Math.min(y, detailsY) - 25;
+
+  // === Table header ===
+  const TABLE_HEADER_HEIGHT = 25;
+  page.drawRectangle({
+    x: MARGIN_LEFT,
+    y: y - TABLE_HEADER_HEIGHT + 15,
+    width: CONTENT_WIDTH,
+    height: TABLE_HEADER_HEIGHT,
+    color: rgb(secondaryRgb.r, secondaryRgb.g, secondaryRgb.b),
+  });
+  page.drawText('DESCRIPTION', { x: MARGIN_LEFT + 8, y: y + 2, size: 8, font: fontBold, color: rgb(1, 1, 1) });
+  const amountHeader = 'AMOUNT';
+  page.drawText(amountHeader, {
+    x: RIGHT_X - fontBold.widthOfTextAtSize(amountHeader, 8) - 8,
+    y: y + 2,
+    size: 8,
+    font: fontBold,
+    color: rgb(1, 1, 1),
+  });
+  y -= TABLE_HEADER_HEIGHT + 5;
+
+  // === Single credit line: reason ===
+  const descLines = wrapTextForPdf(creditNote.reason, font, 9, CONTENT_WIDTH - 140);
+  const serviceFeeText = formatPdfCurrency(-Number(creditNote.serviceFee));
+  page.drawText(serviceFeeText, {
+    x: RIGHT_X - font.widthOfTextAtSize(serviceFeeText, 9) - 8,
+    y,
+    size: 9,
+    font,
+    color: rgb(0.1, 0.1, 0.1),
+  });
+  for (const line of descLines) {
+    page.drawText(line, { x: MARGIN_LEFT + 8, y, size: 9, font, color: rgb(0.1, 0.1, 0.1) });
+    y -= 12;
+  }
+  y -= 8;
+  page.drawLine({
+    start: { x: MARGIN_LEFT, y },
+    end: { x: RIGHT_X, y },
+    thickness: 0.5,
+    color: rgb(0.8, 0.8, 0.8),
+  });
+  y -= 20;
+
+  // === Totals ===
+  const totals: [string, number][] = [
+    ['Service Fee', -Number(creditNote.serviceFee)],
+    ['VAT', -Number(creditNote.vatAmount)],
+    ['Gross Amount', -Number(creditNote.grossAmount)],
+  ];
+  if (Number(creditNote.withholdingTax) > 0) {
+    totals.push(['Less: Withholding Tax', Number(creditNote.withholdingTax)]);
+  }
+  for (const [label, amount] of totals) {
+    page.drawText(label, { x: RIGHT_X - 220, y, size: 9, font, color: rgb(0.3, 0.3, 0.3) });
+    drawRight(formatPdfCurrency(amount), y, 9);
+    y -= 14;
+  }
+  y -= 4;
+  page.drawRectangle({
+    x: RIGHT_X - 230,
+    y: y - 8,
+    width: 230,
+    height: 24,
+    color: rgb(footerBgRgb.r, footerBgRgb.g, footerBgRgb.b),
+  });
+  page.drawText('TOTAL CREDIT', { x: RIGHT_X - 220, y, size: 10, font: fontBold, color: rgb(0, 0, 0) });
+  drawRight(formatPdfCurrency(-Number(creditNote.amount)), y, 10, true);
+  y -= 40;
+
+  if (invoice?.netAmount !== undefined) {
+    const note = `This credit note reduces the amount due on invoice ${invoice.billingNo || ''} (${formatPdfCurrency(Number(invoice.netAmount))}).`;
+    for (const line of wrapTextForPdf(note, font, 9, CONTENT_WIDTH)) {
+      page.drawText(line, { x: MARGIN_LEFT, y, size: 9, font, color: rgb(0.4, 0.4, 0.4) });
+      y -= 12;
+    }
+  }
+
+  // === Signatures ===
+  y = Math.max(y - 40, 140);
+  const signatureBoxWidth = (CONTENT_WIDTH - 15) / 2;
+  const signatories: [string, string][] = [
+    [soaSettings.preparedBy, 'Prepared by'],
+    [soaSettings.reviewedBy, 'Reviewed by'],
+  ];
+  signatories.forEach(([name, label], index) => {
+    const x = MARGIN_LEFT + (signatureBoxWidth + 15) * index;
+    const nameWidth = fontBold.widthOfTextAtSize(name, 9);
+    page.drawText(name, { x: x + (signatureBoxWidth - nameWidth) / 2, y, size: 9, font: fontBold, color: rgb(0.1, 0.1, 0.1) });
+    const labelWidth = font.widthOfTextAtSize(label, 8);
+    page.drawText(label, { x: x + (signatureBoxWidth - labelWidth) / 2, y: y - 12, size: 8, font, color: rgb(0.5, 0.5, 0.5) });
+  });
+
+  // === Footer bar ===
+  const footerY = 15;
+  const footerHeight = 55;
+  page.drawRectangle({
+    x: MARGIN_LEFT,
+    y: footerY,
+    width: CONTENT_WIDTH,
+    height: footerHeight,
+    color: rgb(footerBgRgb.r, footerBgRgb.g, footerBgRgb.b),
+  });
+  const footerTextWidth = fontBold.widthOfTextAtSize(tmpl.footerText, 11);
+  page.drawText(tmpl.footerText, {
+    x: (PAGE_WIDTH - footerTextWidth) / 2,
+    y: footerY + footerHeight - 20,
+    size: 11,
+    font: fontBold,
+    color: rgb(secondaryRgb.r, secondaryRgb.g, secondaryRgb.b),
+  });
+
+  return pdfDoc.save();
+}
+
+/**
+ * Generate a customer statement of account PDF using pdf-lib.
+ * Lists account activity with a running balance, then the invoices still open at the end date.
+ */
+export async function generateStatementPdfLib(
+  statement: CustomerStatement,
+  soaSettings: SOASettings,
+  template?: TemplateConfig
+): Promise<Uint8Array> {
+  const tmpl = template || defaultTemplate;
+  const primaryRgb = hexToRgb(tmpl.primaryColor);
+  const secondaryRgb = hexToRgb(tmpl.secondaryColor);
+  const footerBgRgb = hexToRgb(tmpl.footerBgColor);
+
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const logoImage = await embedLogo(pdfDoc, tmpl, statement.company.logoPath);
+
+  const PAGE_WIDTH = 612;
+  const PAGE_HEIGHT = 792;
+  const MARGIN_LEFT = 50;
+  const MARGIN_RIGHT = 50;
+  const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_LEFT - MARGIN_RIGHT;
+  const RIGHT_X = PAGE_WIDTH - MARGIN_RIGHT;
+  const BOTTOM_Y = 90;
+  const ROW_HEIGHT = 14;
+
+  // Activity table columns (right edges for amounts)
+  const COL_DATE = MARGIN_LEFT + 6;
+  const COL_REF = MARGIN_LEFT + 70;
+  const COL_DESC = MARGIN_LEFT + 160;
+  const COL_DESC_WIDTH = 150;
+  const COL_DEBIT_RIGHT = RIGHT_X - 150;
+  const COL_CREDIT_RIGHT = RIGHT_X - 78;
+  const COL_BALANCE_RIGHT = RIGHT_X - 6;
+
+  let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - 50;
+
+  const text = (value: string, x: number, rowY: number, size: number, useBold = false, color = rgb(0.1, 0.1, 0.1)) => {
+    page.drawText(sanitizeForPdf(value), { x, y: rowY, size, font: useBold ? fontBold : font, color });
+  };
+  const textRight = (value: string, right: number, rowY: number, size: number, useBold = false) => {
+    const f = useBold ? fontBold : font;
+    const clean = sanitizeForPdf(value);
+    page.drawText(clean, { x: right - f.widthOfTextAtSize(clean, size), y: rowY, size, font: f, color: rgb(0.1, 0.1, 0.1) });
+  };
+  const amount = (value: number) => formatPdfCurrency(value).replace('PHP ', '');
+
+  const drawFooter = () => {
+    const footerY = 15;
+    const footerHeight = 40;
+    page.drawRectangle({
+      x: MARGIN_LEFT,
+      y: footerY,
+      width: CONTENT_WIDTH,
+      height: footerHeight,
+      color: rgb(footerBgRgb.r, footerBgRgb.g, footerBgRgb.b),
+    });
+    const footerTextWidth = fontBold.widthOfTextAtSize(tmpl.footerText, 10);
+    page.drawText(tmpl.footerText, {
+      x: (PAGE_WIDTH - footerTextWidth) / 2,
+      y: footerY + 15,
+      size: 10,
+      font: fontBold,
+      color: rgb(secondaryRgb.r, secondaryRgb.g, secondaryRgb.b),
+    });
+  };
+
+  const newPage = () => {
+    drawFooter();
+    page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - 50;
+    text(`${statement.customerName} - Statement of Account (continued)`, MARGIN_LEFT, y, 9, true, rgb(0.4, 0.4, 0.4));
+    y -= 25;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y - height < BOTTOM_Y) newPage();
+  };
+
+  const drawSectionHeader = (columns: [string, number, 'left' | 'right'][]) => {
+    page.drawRectangle({
+      x: MARGIN_LEFT,
+      y: y - 7,
+      width: CONTENT_WIDTH,
+      height: 20,
+      color: rgb(secondaryRgb.r, secondaryRgb.g, secondaryRgb.b),
+    });
+    for (const [label, x, align] of columns) {
+      const width = align === 'right' ? fontBold.widthOfTextAtSize(label, 8) : 0;
+      page.drawText(label, { x: x - width, y, size: 8, font: fontBold, color: rgb(1, 1, 1) });
+    }
+    y -= ROW_HEIGHT + 6;
+  };
+
+  // === Header: logo and title left, company info right ===
+  const logoSize = 50;
+  if (logoImage) {
+    const logoWidth = logoSize * (logoImage.width / logoImage.height);
+    page.drawImage(logoImage, { x: MARGIN_LEFT, y: y - logoSize + 10, width: logoWidth, height: logoSize });
+  }
+  const titleY = y - logoSize - 10;
+  text('STATEMENT OF ACCOUNT', MARGIN_LEFT, titleY, 18, true, rgb(primaryRgb.r, primaryRgb.g, primaryRgb.b));
+
+  let rightY = y;
+  textRight(statement.company.name, RIGHT_X, rightY, 11, true);
+  rightY -= 14;
+  for (const line of wrapTextForPdf(statement.company.address || '', font, 9, 250)) {
+    textRight(line, RIGHT_X, rightY, 9);
+    rightY -= 12;
+  }
+  if (statement.company.tin) {
+    textRight(`TIN: ${statement.company.tin}`, RIGHT_X, rightY, 9);
+    rightY -= 12;
+  }
+  if (statement.company.contactNumber) {
+    textRight(`Tel: ${statement.company.contactNumber}`, RIGHT_X, rightY, 9);
+    rightY -= 12;
+  }
+
+  y = Math.min(titleY, rightY) - 15;
+  page.drawLine({ start: { x: MARGIN_LEFT, y }, end: { x: RIGHT_X, y }, thickness: 1, color: rgb(0.85, 0.85, 0.85) });
+  y -= 20;
+
+  // === Customer (left) and statement details (right) ===
+  const detailsStartY = y;
+  text('STATEMENT FOR:', MARGIN_LEFT, y, 9, true, rgb(0.4, 0.4, 0.4));
+  y -= 14;
+  text(statement.customerName, MARGIN_LEFT, y, 11, true, rgb(0, 0, 0));
+  y -= 13;
+  if (statement.attention) {
+    text(`Attn: ${statement.attention}`, MARGIN_LEFT, y, 9, false, rgb(0.3, 0.3, 0.3));
+    y -= 12;
+  }
+  for (const line of wrapTextForPdf(statement.customerAddress || '', font, 9, 260)) {
+    text(line, MARGIN_LEFT, y, 9, false, rgb(0.3, 0.3, 0.3));
+    y -= 12;
+  }
+  if (statement.customerTin) {
+    text(`TIN: ${statement.customerTin}`, MARGIN_LEFT, y, 9, false, rgb(0.3, 0.3, 0.3));
+    y -= 12;
+  }
+
+  const details: [string, string][] = [
+    ['Statement Date:', formatDate(new Date())],
+    ['Period:', `${formatDate(statement.from)} - ${formatDate(statement.to)}`],
+    ['Amount Due:', formatPdfCurrency(statement.closingBalance)],
+  ];
+  let detailsY = detailsStartY;
+  for (const [label, value] of details) {
+    text(label, RIGHT_X - 220, detailsY, 9, true, rgb(0.4, 0.4, 0.4));
+    textRight(value, RIGHT_X, detailsY, 9, label === 'Amount Due:');
+    detailsY -= 14;
+  }
+
+  y = Math.min(y, detailsY) - 20;
+
+  // === Account summary ===
+  const summary: [string, number][] = [
+    ['Opening Balance', statement.openingBalance],
+    ['Invoices', statement.totalInvoiced],
+    ['Payments Received', -statement.totalPaid],
+    ['Credit Notes', -statement.totalCredited],
+  ];
+  const summaryWidth = CONTENT_WIDTH / (summary.length + 1);
+  [...summary, ['Closing Balance', statement.closingBalance] as [string, number]].forEach(([label, value], index) => {
+    const x = MARGIN_LEFT + summaryWidth * index;
+    const isClosing = index === summary.length;
+    if (isClosing) {
+      page.drawRectangle({
+        x,
+        y: y - 22,
+        width: summaryWidth,
+        height: 38,
+        color: rgb(footerBgRgb.r, footerBgRgb.g, footerBgRgb.b),
+      });
+    }
+    text(label.toUpperCase(), x + 6, y, 7, true, rgb(0.4, 0.4, 0.4));
+    text(formatPdfCurrency(value), x + 6, y - 14, 9, isClosing);
+  });
+  y -= 50;
+
+  // === Account activity ===
+  text('ACCOUNT ACTIVITY', MARGIN_LEFT, y, 10, true, rgb(primaryRgb.r, primaryRgb.g, primaryRgb.b));
+  y -= 18;
+  const activityColumns: [string, number, 'left' | 'right'][] = [
+    ['DATE', COL_DATE, 'left'],
+    ['REFERENCE', COL_REF, 'left'],
+    ['DESCRIPTION', COL_DESC, 'left'],
+    ['DEBIT', COL_DEBIT_RIGHT, 'right'],
+    ['CREDIT', COL_CREDIT_RIGHT, 'right'],
+    ['BALANCE', COL_BALANCE_RIGHT, 'right'],
+  ];
+  drawSectionHeader(activityColumns);
+
+  text(formatDate(statement.from), COL_DATE, y, 8);
+  text('Opening balance', COL_DESC, y, 8, true);
+  textRight(amount(statement.openingBalance), COL_BALANCE_RIGHT, y, 8, true);
+  y -= ROW_HEIGHT;
+
+  for (const entry of statement.entries) {
+    const descLines = wrapTextForPdf(entry.description, font, 8, COL_DESC_WIDTH);
+    const rowHeight = Math.max(1, descLines.length) * 10 + 4;
+    if (y - rowHeight < BOTTOM_Y) {
+      newPage();
+      drawSectionHeader(activityColumns);
+    }
+
+    text(formatDate(new Date(entry.date)), COL_DATE, y, 8);
+    text(entry.reference, COL_REF, y, 8);
+    descLines.forEach((line, index) => text(line, COL_DESC, y - index * 10, 8));
+    if (entry.debit) textRight(amount(entry.debit), COL_DEBIT_RIGHT, y, 8);
+    if (entry.credit) textRight(amount(entry.credit), COL_CREDIT_RIGHT, y, 8);
+    textRight(amount(entry.balance), COL_BALANCE_RIGHT, y, 8);
+    y -= rowHeight;
+    page.drawLine({
+      start: { x: MARGIN_LEFT, y: y + 8 },
+      end: { x: RIGHT_X, y: y + 8 },
+      thickness: 0.5,
+      color: rgb(0.9, 0.9, 0.9),
+    });
+  }
+
+  ensureSpace(ROW_HEIGHT);
+  text('Closing balance', COL_DESC, y, 8, true);
+  textRight(amount(statement.closingBalance), COL_BALANCE_RIGHT, y, 8, true);
+  y -= 30;
+
+  // === Open invoices ===
+  if (statement.openInvoices.length > 0) {
+    ensureSpace(60);
+    text('OPEN INVOICES', MARGIN_LEFT, y, 10, true, rgb(primaryRgb.r, primaryRgb.g, primaryRgb.b));
+    y -= 18;
+    const openColumns: [string, number, 'left' | 'right'][] = [
+      ['INVOICE', COL_DATE, 'left'],
+      ['INVOICE DATE', COL_REF + 20, 'left'],
+      ['DUE DATE', COL_DESC + 20, 'left'],
+      ['DAYS PAST DUE', COL_DEBIT_RIGHT, 'right'],
+      ['AMOUNT', COL_CREDIT_RIGHT, 'right'],
+      ['BALANCE', COL_BALANCE_RIGHT, 'right'],
+    ];
+    drawSectionHeader(openColumns);
+
+    for (const invoice of statement.openInvoices) {
+      if (y - ROW_HEIGHT < BOTTOM_Y) {
+        newPage();
+        drawSectionHeader(openColumns);
+      }
+      text(invoice.billingNo || invoice.id.slice(0, 8), COL_DATE, y, 8);
+      text(formatDate(new Date(invoice.statementDate)), COL_REF + 20, y, 8);
+      text(formatDate(new Date(invoice.dueDate)), COL_DESC + 20, y, 8);
+      textRight(String(invoice.daysOverdue), COL_DEBIT_RIGHT, y, 8);
+      textRight(amount(invoice.netAmount), COL_CREDIT_RIGHT, y, 8);
+      textRight(amount(invoice.balance), COL_BALANCE_RIGHT, y, 8, true);
+      y -= ROW_HEIGHT;
+    }
+    y -= 16;
+  }
+
+  // === Payment details ===
+  if (soaSettings.bankName) {
+    ensureSpace(60);
+    text('PAYMENT DETAILS', MARGIN_LEFT, y, 9, true, rgb(0.4, 0.4, 0.4));
+    y -= 13;
+    for (const line of [
+      `Bank: ${soaSettings.bankName}`,
+      `Account Name: ${soaSettings.bankAccountName}`,
+      `Account No: ${soaSettings.bankAccountNo}`,
+    ]) {
+      text(line, MARGIN_LEFT, y, 9);
+      y -= 12;
+    }
+    y -= 10;
+  }
+
+  // === Signatures ===
+  ensureSpace(50);
+  y = Math.max(y - 20, BOTTOM_Y + 20);
+  const signatureBoxWidth = (CONTENT_WIDTH - 15) / 2;
+  const signatories: [string, string][] = [
+    [soaSettings.preparedBy, 'Prepared by'],
+    [soaSettings.reviewedBy, 'Reviewed by'],
+  ];
+  signatories.forEach(([name, label], index) => {
+    const x = MARGIN_LEFT + (signatureBoxWidth + 15) * index;
+    const nameWidth = fontBold.widthOfTextAtSize(name, 9);
+    page.drawText(name, { x: x + (signatureBoxWidth - nameWidth) / 2, y, size: 9, font: fontBold, color: rgb(0.1, 0.1, 0.1) });
+    const labelWidth = font.widthOfTextAtSize(label, 8);
+    page.drawText(label, { x: x + (signatureBoxWidth - labelWidth) / 2, y: y - 12, size: 8, font, color: rgb(0.5, 0.5, 0.5) });
+  });
+
+  drawFooter();
+
+  return pdfDoc.save();
+}
+
+/**
+ * Generate AR aging report PDF using pdf-lib.
+ * Landscape summary table (one row per group) that continues onto new pages as needed.
+ */
+export async function generateArAgingPdfLib(
+  report: ArAgingReport,
+  bucketLabels: { key: AgingBucket; label: string }[],
+  template?: TemplateConfig
+): Promise<Uint8Array> {
+  const tmpl = template || defaultTemplate;
+  const primaryRgb = hexToRgb(tmpl.primaryColor);
+  const secondaryRgb = hexToRgb(tmpl.secondaryColor);
+  const footerBgRgb = hexToRgb(tmpl.footerBgColor);
+
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  const PAGE_WIDTH = 792;
+  const PAGE_HEIGHT = 612;
+  const MARGIN_LEFT = 40;
+  const MARGIN_RIGHT = 40;
+  const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_LEFT - MARGIN_RIGHT;
+  const RIGHT_X = PAGE_WIDTH - MARGIN_RIGHT;
+  const ROW_HEIGHT = 16;
+  const BOTTOM_Y = 50;
+
+  // Group label column, invoice count, one column per bucket, total
+  const amountColumns = [...bucketLabels.map((b) => b.label), 'TOTAL'];
+  const LABEL_WIDTH = 190;
+  const COUNT_WIDTH = 50;
+  const amountWidth = (CONTENT_WIDTH - LABEL_WIDTH - COUNT_WIDTH) / amountColumns.length;
+  const columnRight = (index: number) => MARGIN_LEFT + LABEL_WIDTH + COUNT_WIDTH + amountWidth * (index + 1) - 6;
+
+  const groupByLabels: Record<string, string> = {
+    customer: 'Customer',
+    company: 'Billing Entity',
+    partner: 'Partner',
+    productType: 'Product Type',
+  };
+
+  let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - 50;
+
+  const drawRightAt = (text: string, right: number, rowY: number, size: number, useBold = false, white = false) => {
+    const f = useBold ? fontBold : font;
+    const clean = sanitizeForPdf(text);
+    page.drawText(clean, {
+      x: right - f.widthOfTextAtSize(clean, size),
+      y: rowY,
+      size,
+      font: f,
+      color: white ? rgb(1, 1, 1) : rgb(0.1, 0.1, 0.1),
+    });
+  };
+
+  const drawTableHeader = () => {
+    page.drawRectangle({
+      x: MARGIN_LEFT,
+      y: y - 7,
+      width: CONTENT_WIDTH,
+      height: 20,
+      color: rgb(secondaryRgb.r, secondaryRgb.g, secondaryRgb.b),
+    });
+    page.drawText(groupByLabels[report.groupBy].toUpperCase(), { x: MARGIN_LEFT + 6, y, size: 8, font: fontBold, color: rgb(1, 1, 1) });
+    drawRightAt('INV', MARGIN_LEFT + LABEL_WIDTH + COUNT_WIDTH - 6, y, 8, true, true);
+    amountColumns.forEach((label, index) => drawRightAt(label, columnRight(index), y, 8, true, true));
+    y -= ROW_HEIGHT + 6;
+  };
+
+  // === Title ===
+  page.drawText('ACCOUNTS RECEIVABLE AGING', {
+    x: MARGIN_LEFT,
+    y,
+    size: 18,
+    font: fontBold,
+    color: rgb(primaryRgb.r, primaryRgb.g, primaryRgb.b),
+  });
+  drawRightAt(`As of ${formatDate(report.asOf)}`, RIGHT_X, y + 4, 10, true);
+  y -= 16;
+  page.drawText(sanitizeForPdf(`Grouped by ${groupByLabels[report.groupBy].toLowerCase()} - net receivable after withholding, payments and credit notes`), {
+    x: MARGIN_LEFT,
+    y,
+    size: 9,
+    font,
+    color: rgb(0.4, 0.4, 0.4),
+  });
+  y -= 30;
+
+  drawTableHeader();
+
+  for (const group of report.groups) {
+    if (y < BOTTOM_Y + ROW_HEIGHT * 2) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - 50;
+      drawTableHeader();
+    }
+
+    const label = wrapTextForPdf(group.label, font, 8, LABEL_WIDTH - 10)[0] || '';
+    page.drawText(label, { x: MARGIN_LEFT + 6, y, size: 8, font, color: rgb(0.1, 0.1, 0.1) });
+    drawRightAt(String(group.invoiceCount), MARGIN_LEFT + LABEL_WIDTH + COUNT_WIDTH - 6, y, 8);
+    bucketLabels.forEach((bucket, index) => {
+      const amount = group.buckets[bucket.key];
+      drawRightAt(amount ? formatPdfCurrency(amount).replace('PHP ', '') : '-', columnRight(index), y, 8);
+    });
+    drawRightAt(formatPdfCurrency(group.total).replace('PHP ', ''), columnRight(bucketLabels.length), y, 8, true);
+
+    page.drawLine({
+      start: { x: MARGIN_LEFT, y: y - 5 },
+      end: { x: RIGHT_X, y: y - 5 },
+      thickness: 0.5,
+      color: rgb(0.85, 0.85, 0.85),
+    });
+    y -= ROW_HEIGHT;
+  }
+
+  // === Totals row ===
+  if (y < BOTTOM_Y + ROW_HEIGHT) {
+    page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - 50;
+  }
+  y -= 4;
+  page.drawRectangle({
+    x: MARGIN_LEFT,
+    y: y - 7,
+    width: CONTENT_WIDTH,
+    height: 20,
+    color: rgb(footerBgRgb.r, footerBgRgb.g, footerBgRgb.b),
+  });
+  page.drawText('TOTAL', { x: MARGIN_LEFT + 6, y, size: 9, font: fontBold, color: rgb(0, 0, 0) });
+  drawRightAt(String(report.invoices.length), MARGIN_LEFT + LABEL_WIDTH + COUNT_WIDTH - 6, y, 9, true);
+  bucketLabels.forEach((bucket, index) => {
+    const amount = report.totals[bucket.key];
+    drawRightAt(formatPdfCurrency(amount).replace('PHP ', ''), columnRight(index), y, 9, true);
+  });
+  drawRightAt(formatPdfCurrency(report.totals.total).replace('PHP ', ''), columnRight(bucketLabels.length), y, 9, true);
+
+  // Footer text on every page
+  for (const p of pdfDoc.getPages()) {
+    const footerWidth = font.widthOfTextAtSize(tmpl.footerText, 8);
+    p.drawText(tmpl.footerText, {
+      x: (PAGE_WIDTH - footerWidth) / 2,
+      y: 20,
+      size: 8,
+      font,
+      color: rgb(0.5, 0.5, 0.5),
+    });
+  }
+
+  return pdfDoc.save();
+}
+
 export function formatPdfCurrency(amount: number): string {
   return 'PHP ' + new Intl.NumberFormat('en-PH', {
     minimumFractionDigits: 2,
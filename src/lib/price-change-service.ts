@@ -0,0 +1,370 @@
+// Price change service - future-dated amount changes and automatic escalation for scheduled billings
+import prisma from './prisma';
+import { Prisma, ScheduleStatus } from '@/generated/prisma';
+import { addMonths } from 'date-fns';
+import { businessNow } from './business-time';
+import {
+  initEmailServiceFromEnv,
+  getPriceChangeTemplate,
+  replacePlaceholders,
+  generateEmailHtmlFromTemplate,
+  sendNoticeEmail,
+  EmailPlaceholderData,
+} from './email-service';
+import { formatCurrency, formatDate } from './utils';
+
+// Escalations projected ahead when listing a schedule's upcoming amounts
+const MAX_PROJECTED_ESCALATIONS = 5;
+
+type Amount = number | Prisma.Decimal;
+
+export interface PriceChangeScheduleInput {
+  billingAmount: Amount;
+  startDate: Date;
+  escalationRate: Amount | null;
+  escalationMonths: number | null;
+  contract: { contractStart: Date | null };
+  priceChanges: Array<{ effectiveDate: Date; amount: Amount; reason: string | null }>;
+}
+
+export type BillingAmountSource = 'BASE' | 'PRICE_CHANGE' | 'ESCALATION';
+
+export interface EffectiveBillingAmount {
+  amount: number;
+  source: BillingAmountSource;
+  effectiveDate: Date | null; // When the amount took effect (null for the schedule's base amount)
+  reason: string | null;
+}
+
+export interface UpcomingPriceChange {
+  effectiveDate: Date;
+  amount: number;
+  previousAmount: number;
+  reason: string | null;
+  source: Exclude<BillingAmountSource, 'BASE'>;
+}
+
+export interface CreatePriceChangeInput {
+  scheduledBillingId: string;
+  effectiveDate: Date;
+  amount: number;
+  reason?: string | null;
+  createdById?: string | null;
+}
+
+export interface PriceNoticeResult {
+  processed: number;
+  sent: number;
+  skipped: number;
+  errors: Array<{ scheduleId: string; effectiveDate: Date; error: string }>;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function getEscalationReason(rate: number): string {
+  return `Automatic escalation +${roundCurrency(rate * 100)}%`;
+}
+
+/**
+ * Escalation dates after `after` up to and including `until`.
+ * Escalations fall every `escalationMonths` months from the contract start (the schedule start when
+ * the contract has none), so a 12-month interval escalates on every contract anniversary.
+ */
+export function getEscalationDates(
+  schedule: Pick<PriceChangeScheduleInput, 'startDate' | 'escalationRate' | 'escalationMonths' | 'contract'>,
+  after: Date,
+  until: Date
+): Date[] {
+  if (!schedule.escalationRate || Number(schedule.escalationRate) === 0 || !schedule.escalationMonths) {
+    return [];
+  }
+
+  const anchor = startOfDay(schedule.contract.contractStart || schedule.startDate);
+  const dates: Date[] = [];
+
+  for (let step = 1; ; step++) {
+    const date = addMonths(anchor, step * schedule.escalationMonths);
+    if (date > until) break;
+    if (date > after) dates.push(date);
+  }
+
+  return dates;
+}
+
+/**
+ * The amount a schedule bills on a date: the latest price change effective on or before the date
+ * (or the schedule's base amount), increased by every escalation that falls after it.
+ */
+export function getEffectiveBillingAmount(schedule: PriceChangeScheduleInput, billingDate: Date): EffectiveBillingAmount {
+  const latestChange = schedule.priceChanges
+    .filter((change) => change.effectiveDate <= billingDate)
+    .sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime())[0];
+
+  let result: EffectiveBillingAmount = latestChange
+    ? {
+        amount: Number(latestChange.amount),
+        source: 'PRICE_CHANGE',
+        effectiveDate: latestChange.effectiveDate,
+        reason: latestChange.reason,
+      }
+    : { amount: Number(schedule.billingAmount), source: 'BASE', effectiveDate: null, reason: null };
+
+  // The base amount applies from the schedule start, so earlier anniversaries are already in it
+  const escalations = getEscalationDates(
+    schedule,
+    startOfDay(latestChange ? latestChange.effectiveDate : schedule.startDate),
+    billingDate
+  );
+
+  const rate = Number(schedule.escalationRate);
+  for (const date of escalations) {
+    result = {
+      amount: roundCurrency(result.amount * (1 + rate)),
+      source: 'ESCALATION',
+      effectiveDate: date,
+      reason: getEscalationReason(rate),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Amount changes taking effect after `from` up to and including `to`, in date order
+ */
+export function getUpcomingPriceChanges(
+  schedule: PriceChangeScheduleInput,
+  from: Date,
+  to: Date
+): UpcomingPriceChange[] {
+  const dates = [
+    ...schedule.priceChanges.map((change) => change.effectiveDate).filter((date) => date > from && date <= to),
+    ...getEscalationDates(schedule, from, to),
+  ].sort((a, b) => a.getTime() - b.getTime());
+
+  const changes: UpcomingPriceChange[] = [];
+  for (const date of dates) {
+    const effective = getEffectiveBillingAmount(schedule, date);
+    // Skip escalation dates superseded by a manual change on the same day
+    if (effective.effectiveDate?.getTime() !== date.getTime()) continue;
+    if (changes.some((change) => change.effectiveDate.getTime() === date.getTime())) continue;
+
+    const dayBefore = new Date(date.getTime() - 1);
+    changes.push({
+      effectiveDate: date,
+      amount: effective.amount,
+      previousAmount: getEffectiveBillingAmount(schedule, dayBefore).amount,
+      reason: effective.reason,
+      source: effective.source as UpcomingPriceChange['source'],
+    });
+  }
+
+  return changes;
+}
+
+// ==================== CRUD OPERATIONS ====================
+
+/**
+ * Price changes for a schedule plus the next projected escalations
+ */
+export async function listPriceChanges(scheduledBillingId: string) {
+  const schedule = await prisma.scheduledBilling.findUnique({
+    where: { id: scheduledBillingId },
+    include: {
+      contract: { select: { contractStart: true } },
+      priceChanges: { orderBy: { effectiveDate: 'asc' } },
+    },
+  });
+
+  if (!schedule) {
+    return null;
+  }
+
+  const today = startOfDay(businessNow());
+  const lastChange = schedule.priceChanges[schedule.priceChanges.length - 1]?.effectiveDate;
+  const horizon = addMonths(
+    lastChange && lastChange > today ? lastChange : today,
+    (schedule.escalationMonths || 12) * MAX_PROJECTED_ESCALATIONS
+  );
+
+  return {
+    currentAmount: getEffectiveBillingAmount(schedule, today),
+    priceChanges: schedule.priceChanges,
+    upcoming: getUpcomingPriceChanges(schedule, today, horizon)
+      .filter((change) => change.source === 'ESCALATION')
+      .slice(0, MAX_PROJECTED_ESCALATIONS),
+  };
+}
+
+export async function createPriceChange(data: CreatePriceChangeInput) {
+  return prisma.scheduledBillingPriceChange.create({
+    data: {
+      scheduledBillingId: data.scheduledBillingId,
+      effectiveDate: startOfDay(data.effectiveDate),
+      amount: data.amount,
+      reason: data.reason || null,
+      createdById: data.createdById || null,
+    },
+  });
+}
+
+export async function deletePriceChange(id: string) {
+  return prisma.scheduledBillingPriceChange.delete({
+    where: { id },
+  });
+}
+
+// ==================== ADVANCE NOTICES ====================
+
+/**
+ * Email clients about amount changes coming up within each schedule's notice period.
+ * Escalations are stored as price changes when their notice goes out, so the notice and the
+ * billed amount always agree. Notices that fail are retried on the next run.
+ */
+export async function sendDuePriceChangeNotices(asOf: Date = businessNow()): Promise<PriceNoticeResult> {
+  initEmailServiceFromEnv();
+
+  const today = startOfDay(asOf);
+  const result: PriceNoticeResult = { processed: 0, sent: 0, skipped: 0, errors: [] };
+
+  const schedules = await prisma.scheduledBilling.findMany({
+    where: {
+      status: ScheduleStatus.ACTIVE,
+      priceNoticeDays: { not: null },
+    },
+    include: {
+      contract: { select: { companyName: true, email: true, emails: true, contractStart: true } },
+      billingEntity: { select: { id: true, name: true } },
+      priceChanges: { orderBy: { effectiveDate: 'asc' } },
+    },
+  });
+
+  if (schedules.length === 0) {
+    return result;
+  }
+
+  const template = await getPriceChangeTemplate();
+
+  for (const schedule of schedules) {
+    const windowEnd = new Date(today);
+    windowEnd.setDate(windowEnd.getDate() + schedule.priceNoticeDays!);
+    const dayBeforeToday = new Date(today.getTime() - 1);
+
+    const dueChanges = getUpcomingPriceChanges(schedule, dayBeforeToday, windowEnd).filter((change) => {
+      const stored = schedule.priceChanges.find((pc) => pc.effectiveDate.getTime() === change.effectiveDate.getTime());
+      return !stored?.noticeSentAt;
+    });
+
+    for (const change of dueChanges) {
+      result.processed++;
+
+      if (!template) {
+        result.skipped++;
+        result.errors.push({
+          scheduleId: schedule.id,
+          effectiveDate: change.effectiveDate,
+          error: 'No price change email template configured',
+        });
+        continue;
+      }
+
+      const toEmails = schedule.contract.emails || schedule.contract.email;
+      if (!toEmails) {
+        result.skipped++;
+        result.errors.push({
+          scheduleId: schedule.id,
+          effectiveDate: change.effectiveDate,
+          error: 'No email address for this client',
+        });
+        continue;
+      }
+
+      try {
+        const placeholderData: EmailPlaceholderData = {
+          customerName: schedule.contract.companyName,
+          billingNo: '',
+          dueDate: '',
+          totalAmount: formatCurrency(change.amount),
+          periodStart: '',
+          periodEnd: '',
+          companyName: schedule.billingEntity.name,
+          clientCompanyName: schedule.contract.companyName,
+          previousAmount: formatCurrency(change.previousAmount),
+          effectiveDate: formatDate(change.effectiveDate),
+          changeReason: change.reason || '',
+        };
+
+        const subject = replacePlaceholders(template.subject, placeholderData);
+        const greeting = replacePlaceholders(template.greeting, placeholderData);
+        const body = replacePlaceholders(template.body, placeholderData);
+        const closing = replacePlaceholders(template.closing, placeholderData);
+
+        const sendResult = await sendNoticeEmail(
+          schedule.billingEntity.id,
+          toEmails,
+          subject,
+          `${greeting}\n\n${body}\n\n${closing}`,
+          generateEmailHtmlFromTemplate(template, placeholderData)
+        );
+
+        if (!sendResult.success) {
+          result.errors.push({
+            scheduleId: schedule.id,
+            effectiveDate: change.effectiveDate,
+            error: sendResult.error || 'Failed to send notice',
+          });
+          continue;
+        }
+
+        // Record the notice on the price change, storing escalations so the notified amount is locked in
+        const stored = schedule.priceChanges.find((pc) => pc.effectiveDate.getTime() === change.effectiveDate.getTime());
+        const priceChange = stored
+          ? await prisma.scheduledBillingPriceChange.update({
+              where: { id: stored.id },
+              data: { noticeSentAt: new Date() },
+            })
+          : await prisma.scheduledBillingPriceChange.create({
+              data: {
+                scheduledBillingId: schedule.id,
+                effectiveDate: change.effectiveDate,
+                amount: change.amount,
+                reason: change.reason,
+                isEscalation: true,
+                noticeSentAt: new Date(),
+              },
+            });
+
+        await prisma.auditLog.create({
+          data: {
+            action: 'PRICE_CHANGE_NOTICE_SENT',
+            entityType: 'ScheduledBilling',
+            entityId: schedule.id,
+            details: {
+              priceChangeId: priceChange.id,
+              effectiveDate: change.effectiveDate.toISOString(),
+              previousAmount: change.previousAmount,
+              amount: change.amount,
+              sentTo: toEmails,
+            },
+          },
+        });
+
+        result.sent++;
+      } catch (error) {
+        result.errors.push({
+          scheduleId: schedule.id,
+          effectiveDate: change.effectiveDate,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,167 @@
+// Schedule version service - records each change to a scheduled billing as a numbered version
+import prisma from './prisma';
+import { Prisma, ScheduledBilling } from '@/generated/prisma';
+
+// Schedule fields captured in each version
+export const SCHEDULE_VERSION_FIELDS = [
+  'billingAmount',
+  'vatType',
+  'hasWithholding',
+  'withholdingRate',
+  'description',
+  'frequency',
+  'customIntervalValue',
+  'customIntervalUnit',
+  'billingDayOfMonth',
+  'dueDayOfMonth',
+  'startDate',
+  'endDate',
+  'prorationMethod',
+  'businessDayRule',
+  'escalationRate',
+  'escalationMonths',
+  'priceNoticeDays',
+  'billingMode',
+  'usageMetric',
+  'usageRate',
+  'usageTiers',
+  'usageMinimumFee',
+  'autoApprove',
+  'autoSendEnabled',
+  'status',
+  'remarks',
+] as const;
+
+export type ScheduleVersionField = (typeof SCHEDULE_VERSION_FIELDS)[number];
+export type ScheduleSnapshot = Record<ScheduleVersionField, Prisma.JsonValue>;
+export type ScheduleChanges = Partial<Record<ScheduleVersionField, { from: Prisma.JsonValue; to: Prisma.JsonValue }>>;
+
+export type VersionedSchedule = Pick<ScheduledBilling, ScheduleVersionField | 'id' | 'createdById' | 'nextBillingDate'>;
+
+export interface ScheduleVersionOptions {
+  changedById?: string | null;
+  changeReason?: string;
+}
+
+// Dates as ISO strings and decimals as numbers, so snapshots compare and serialize cleanly
+function toJsonValue(value: unknown): Prisma.JsonValue {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Prisma.Decimal.isDecimal(value)) return Number(value);
+  return value as Prisma.JsonValue;
+}
+
+export function toScheduleSnapshot(schedule: VersionedSchedule): ScheduleSnapshot {
+  const snapshot = {} as ScheduleSnapshot;
+  for (const field of SCHEDULE_VERSION_FIELDS) {
+    snapshot[field] = toJsonValue(schedule[field]);
+  }
+  return snapshot;
+}
+
+/**
+ * Fields that differ between two snapshots, with their before and after values
+ */
+export function diffScheduleSnapshots(before: ScheduleSnapshot, after: ScheduleSnapshot): ScheduleChanges {
+  const changes: ScheduleChanges = {};
+  for (const field of SCHEDULE_VERSION_FIELDS) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Record the schedule's terms after a change as its next version. Pass `before` for edits;
+ * without it the schedule is recorded as version 1. Returns null when no versioned field changed.
+ * Schedules created before versioning get their pre-change terms recorded as version 1 first.
+ */
+export async function recordScheduleVersion(
+  before: VersionedSchedule | null,
+  after: VersionedSchedule,
+  options?: ScheduleVersionOptions,
+  db: Prisma.TransactionClient = prisma
+) {
+  const snapshot = toScheduleSnapshot(after);
+  const changes = before ? diffScheduleSnapshots(toScheduleSnapshot(before), snapshot) : null;
+  if (changes && Object.keys(changes).length === 0) {
+    return null;
+  }
+
+  const latest = await db.scheduledBillingVersion.findFirst({
+    where: { scheduledBillingId: after.id },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  });
+  let version = latest?.version ?? 0;
+
+  if (before && version === 0) {
+    await db.scheduledBillingVersion.create({
+      data: {
+        scheduledBillingId: before.id,
+        version: 1,
+        snapshot: toScheduleSnapshot(before),
+        effectiveDate: before.startDate,
+        changedById: before.createdById,
+      },
+    });
+    version = 1;
+  }
+
+  return db.scheduledBillingVersion.create({
+    data: {
+      scheduledBillingId: after.id,
+      version: version + 1,
+      snapshot,
+      ...(changes && { changes: changes as Prisma.InputJsonValue }),
+      // The next invoice is the first one billed on the new terms
+      effectiveDate: after.nextBillingDate ?? after.startDate,
+      changeReason: options?.changeReason,
+      changedById: options?.changedById ?? (before ? null : after.createdById),
+    },
+  });
+}
+
+/**
+ * The schedule's current version, recording version 1 for schedules created before versioning
+ */
+export async function getCurrentScheduleVersion(scheduledBillingId: string) {
+  const latest = await prisma.scheduledBillingVersion.findFirst({
+    where: { scheduledBillingId },
+    orderBy: { version: 'desc' },
+  });
+  if (latest) {
+    return latest;
+  }
+
+  const schedule = await prisma.scheduledBilling.findUnique({ where: { id: scheduledBillingId } });
+  if (!schedule) {
+    throw new Error('Scheduled billing not found');
+  }
+
+  // The original terms apply from the schedule's start
+  return recordScheduleVersion(null, { ...schedule, nextBillingDate: schedule.startDate });
+}
+
+/**
+ * Version history, newest first, with who made each change and the invoices billed on it
+ */
+export async function listScheduleVersions(scheduledBillingId: string) {
+  return prisma.scheduledBillingVersion.findMany({
+    where: { scheduledBillingId },
+    orderBy: { version: 'desc' },
+    include: {
+      changedBy: { select: { id: true, name: true, email: true } },
+      runs: {
+        where: { status: 'SUCCESS' },
+        select: {
+          id: true,
+          billingDate: true,
+          invoice: { select: { id: true, billingNo: true, status: true } },
+        },
+        orderBy: { billingDate: 'asc' },
+      },
+    },
+  });
+}
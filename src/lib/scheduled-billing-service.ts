@@ -1,5 +1,21 @@
 import prisma from './prisma';
-import { ScheduleStatus, BillingFrequency, VatType, IntervalUnit, InvoiceStatus } from '@/generated/prisma';
+import {
+  Prisma,
+  ScheduledBilling,
+  ScheduleStatus,
+  BillingFrequency,
+  VatType,
+  IntervalUnit,
+  InvoiceStatus,
+  ProrationMethod,
+  ScheduleBillingMode,
+  BusinessDayRule,
+} from '@/generated/prisma';
+import { UsageTier, validateUsageTiers } from './usage-billing-service';
+import { addDays, format } from 'date-fns';
+import { businessNow } from './business-time';
+import { MAX_BUSINESS_DAY_SHIFT, adjustToBusinessDay, getHolidayCalendar } from './business-calendar-service';
+import { ScheduleVersionOptions, recordScheduleVersion } from './schedule-version-service';
 
 // ==================== TYPES ====================
 
@@ -16,6 +32,16 @@ export interface CreateScheduledBillingInput {
   dueDayOfMonth?: number;    // Day of month invoice is due (defaults to billingDayOfMonth)
   startDate?: Date;
   endDate?: Date;
+  prorationMethod?: ProrationMethod;  // Billing of partial first/last periods (defaults to NONE)
+  escalationRate?: number;    // Automatic increase per interval (e.g., 0.05 = +5%)
+  escalationMonths?: number;  // Months between escalations (12 = every contract anniversary)
+  priceNoticeDays?: number;   // Days before an amount change to email the client
+  billingMode?: ScheduleBillingMode;  // USAGE bills recorded usage x rate (defaults to FIXED)
+  usageMetric?: string;       // Usage metric billed in USAGE mode (defaults to HEADCOUNT)
+  usageRate?: number;         // Rate per unit (defaults to the contract's ratePerEmployee)
+  usageTiers?: UsageTier[];   // Graduated tiers, replacing usageRate
+  usageMinimumFee?: number;   // Minimum service fee per invoice
+  businessDayRule?: BusinessDayRule;  // Shift billing/due dates off weekends and holidays (defaults to NONE)
   autoApprove?: boolean;
   autoSendEnabled?: boolean;
   remarks?: string;
@@ -36,6 +62,16 @@ export interface UpdateScheduledBillingInput {
   billingDayOfMonth?: number;
   startDate?: Date;
   endDate?: Date | null;
+  prorationMethod?: ProrationMethod;
+  escalationRate?: number | null;
+  escalationMonths?: number | null;
+  priceNoticeDays?: number | null;
+  billingMode?: ScheduleBillingMode;
+  usageMetric?: string | null;
+  usageRate?: number | null;
+  usageTiers?: UsageTier[] | null;
+  usageMinimumFee?: number | null;
+  businessDayRule?: BusinessDayRule;
   autoApprove?: boolean;
   autoSendEnabled?: boolean;
   status?: ScheduleStatus;
@@ -52,6 +88,51 @@ export interface ScheduledBillingFilters {
   frequency?: BillingFrequency;
 }
 
+/**
+ * Validate escalation and price notice settings from a request body.
+ * Null clears a setting. Returns an error message, or null when valid.
+ */
+export function validatePriceSettings(body: {
+  escalationRate?: number | null;
+  escalationMonths?: number | null;
+  priceNoticeDays?: number | null;
+}): string | null {
+  if (body.escalationRate != null && (typeof body.escalationRate !== 'number' || body.escalationRate <= 0 || body.escalationRate >= 1)) {
+    return 'escalationRate must be a decimal between 0 and 1 (e.g., 0.05 for 5%)';
+  }
+  if (body.escalationMonths != null && (!Number.isInteger(body.escalationMonths) || body.escalationMonths < 1)) {
+    return 'escalationMonths must be a whole number of at least 1';
+  }
+  if (body.priceNoticeDays != null && (!Number.isInteger(body.priceNoticeDays) || body.priceNoticeDays < 1)) {
+    return 'priceNoticeDays must be a whole number of at least 1';
+  }
+  return null;
+}
+
+/**
+ * Validate usage billing settings (null clears a setting). Returns an error message or null.
+ */
+export function validateUsageSettings(body: {
+  billingMode?: string;
+  usageRate?: number | null;
+  usageTiers?: unknown;
+  usageMinimumFee?: number | null;
+}): string | null {
+  if (body.billingMode !== undefined && !['FIXED', 'USAGE'].includes(body.billingMode)) {
+    return 'billingMode must be FIXED or USAGE';
+  }
+  if (body.usageRate != null && (typeof body.usageRate !== 'number' || body.usageRate < 0)) {
+    return 'usageRate must be a number of 0 or more';
+  }
+  if (body.usageMinimumFee != null && (typeof body.usageMinimumFee !== 'number' || body.usageMinimumFee < 0)) {
+    return 'usageMinimumFee must be a number of 0 or more';
+  }
+  if (body.usageTiers != null) {
+    return validateUsageTiers(body.usageTiers);
+  }
+  return null;
+}
+
 // ==================== CRUD OPERATIONS ====================
 
 export async function createScheduledBilling(data: CreateScheduledBillingInput) {
@@ -59,13 +140,13 @@ export async function createScheduledBilling(data: CreateScheduledBillingInput)
   const nextBillingDate = calculateNextBillingDate(
     data.billingDayOfMonth,
     data.frequency || BillingFrequency.MONTHLY,
-    data.startDate || new Date(),
+    data.startDate || businessNow(),
     false,
     data.customIntervalValue,
     data.customIntervalUnit
   );
 
-  return prisma.scheduledBilling.create({
+  const schedule = await prisma.scheduledBilling.create({
     data: {
       contractId: data.contractId,
       billingEntityId: data.billingEntityId,
@@ -77,8 +158,18 @@ export async function createScheduledBilling(data: CreateScheduledBillingInput)
       frequency: data.frequency || BillingFrequency.MONTHLY,
       billingDayOfMonth: data.billingDayOfMonth,
       dueDayOfMonth: data.dueDayOfMonth || data.billingDayOfMonth,  // Default to billing day if not specified
-      startDate: data.startDate || new Date(),
+      startDate: data.startDate || businessNow(),
       endDate: data.endDate,
+      prorationMethod: data.prorationMethod || ProrationMethod.NONE,
+      escalationRate: data.escalationRate,
+      escalationMonths: data.escalationMonths,
+      priceNoticeDays: data.priceNoticeDays,
+      billingMode: data.billingMode || ScheduleBillingMode.FIXED,
+      usageMetric: data.usageMetric,
+      usageRate: data.usageRate,
+      usageTiers: data.usageTiers as unknown as Prisma.InputJsonValue,
+      usageMinimumFee: data.usageMinimumFee,
+      businessDayRule: data.businessDayRule || BusinessDayRule.NONE,
       nextBillingDate,
       autoApprove: data.autoApprove ?? false,
       autoSendEnabled: data.autoSendEnabled ?? true,
@@ -116,6 +207,11 @@ export async function createScheduledBilling(data: CreateScheduledBillingInput)
       },
     },
   });
+
+  // The schedule as created is version 1
+  await recordScheduleVersion(null, schedule);
+
+  return schedule;
 }
 
 export async function getScheduledBilling(id: string) {
@@ -130,6 +226,9 @@ export async function getScheduledBilling(id: string) {
           email: true,
           contactPerson: true,
           tin: true,
+          contractStart: true,
+          contractEndDate: true,
+          ratePerEmployee: true,
           partnerId: true,
           partner: {
             select: {
@@ -153,6 +252,9 @@ export async function getScheduledBilling(id: string) {
           nextInvoiceNo: true,
         },
       },
+      priceChanges: {
+        orderBy: { effectiveDate: 'asc' },
+      },
       runs: {
         orderBy: { runDate: 'desc' },
         take: 10,
@@ -180,31 +282,35 @@ export async function getScheduledBilling(id: string) {
   });
 }
 
-export async function updateScheduledBilling(id: string, data: UpdateScheduledBillingInput) {
-  // If billing day or frequency changed, recalculate next billing date
-  let nextBillingDate: Date | undefined;
-  if (data.billingDayOfMonth !== undefined || data.frequency !== undefined) {
-    const current = await prisma.scheduledBilling.findUnique({
-      where: { id },
-      select: { billingDayOfMonth: true, frequency: true, startDate: true },
-    });
+export async function updateScheduledBilling(
+  id: string,
+  input: UpdateScheduledBillingInput,
+  options?: ScheduleVersionOptions
+) {
+  const { usageTiers, ...data } = input;
 
-    if (current) {
-      nextBillingDate = calculateNextBillingDate(
-        data.billingDayOfMonth ?? current.billingDayOfMonth,
-        data.frequency ?? current.frequency,
-        current.startDate
-      );
-    }
-  }
+  return updateWithVersion(
+    id,
+    (current) => {
+      // If billing day or frequency changed, recalculate next billing date
+      const nextBillingDate = data.billingDayOfMonth !== undefined || data.frequency !== undefined
+        ? calculateNextBillingDate(
+            data.billingDayOfMonth ?? current.billingDayOfMonth,
+            data.frequency ?? current.frequency,
+            current.startDate
+          )
+        : undefined;
 
-  return prisma.scheduledBilling.update({
-    where: { id },
-    data: {
-      ...data,
-      ...(nextBillingDate && { nextBillingDate }),
+      return {
+        ...data,
+        ...(usageTiers !== undefined && {
+          usageTiers: usageTiers ? (usageTiers as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+        }),
+        ...(nextBillingDate && { nextBillingDate }),
+      };
     },
-    include: {
+    options,
+    {
       contract: {
         select: {
           id: true,
@@ -219,7 +325,35 @@ export async function updateScheduledBilling(id: string, data: UpdateScheduledBi
           name: true,
         },
       },
-    },
+    }
+  );
+}
+
+/**
+ * Update a schedule and record the change as its next version, in one transaction.
+ * `data` may be a function of the current schedule.
+ */
+async function updateWithVersion<T extends Prisma.ScheduledBillingInclude>(
+  id: string,
+  data: Prisma.ScheduledBillingUpdateInput | ((current: ScheduledBilling) => Prisma.ScheduledBillingUpdateInput),
+  options?: ScheduleVersionOptions,
+  include?: T
+) {
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.scheduledBilling.findUnique({ where: { id } });
+    if (!current) {
+      throw new Error('Schedule not found');
+    }
+
+    const updated = await tx.scheduledBilling.update({
+      where: { id },
+      data: typeof data === 'function' ? data(current) : data,
+      include,
+    });
+
+    await recordScheduleVersion(current, updated, options, tx);
+
+    return updated as Prisma.ScheduledBillingGetPayload<{ include: T }>;
   });
 }
 
@@ -278,22 +412,36 @@ export async function listScheduledBillings(filters?: ScheduledBillingFilters) {
 // ==================== SCHEDULING OPERATIONS ====================
 
 export async function getSchedulesDueToday() {
-  const today = new Date();
+  const today = businessNow();
   const dayOfMonth = today.getDate();
+  const todayStart = new Date(today.getFullYear(), today.getMonth(), dayOfMonth);
 
   // Get schedules where:
   // 1. Status is ACTIVE
-  // 2. billingDayOfMonth matches today
+  // 2. billingDayOfMonth matches today, or for schedules with a business day rule,
+  //    their next billing date shifted off weekends and holidays is today
   // 3. startDate <= today
   // 4. endDate is null OR endDate > today
-  return prisma.scheduledBilling.findMany({
+  const schedules = await prisma.scheduledBilling.findMany({
     where: {
       status: ScheduleStatus.ACTIVE,
-      billingDayOfMonth: dayOfMonth,
       startDate: { lte: today },
-      OR: [
-        { endDate: null },
-        { endDate: { gt: today } },
+      AND: [
+        {
+          OR: [
+            { endDate: null },
+            { endDate: { gt: today } },
+          ],
+        },
+        {
+          OR: [
+            { businessDayRule: BusinessDayRule.NONE, billingDayOfMonth: dayOfMonth },
+            {
+              businessDayRule: { not: BusinessDayRule.NONE },
+              nextBillingDate: { gte: addDays(todayStart, -MAX_BUSINESS_DAY_SHIFT), lte: addDays(todayStart, MAX_BUSINESS_DAY_SHIFT) },
+            },
+          ],
+        },
       ],
     },
     include: {
@@ -305,49 +453,81 @@ export async function getSchedulesDueToday() {
       billingEntity: true,
     },
   });
-}
 
-export async function pauseSchedule(id: string) {
-  return prisma.scheduledBilling.update({
-    where: { id },
-    data: { status: ScheduleStatus.PAUSED },
-  });
+  if (!schedules.some((schedule) => schedule.businessDayRule !== BusinessDayRule.NONE)) {
+    return schedules;
+  }
+
+  const holidays = await getHolidayCalendar();
+  return schedules.filter((schedule) =>
+    schedule.businessDayRule === BusinessDayRule.NONE ||
+    adjustToBusinessDay(schedule.nextBillingDate!, schedule.businessDayRule, holidays).getTime() === todayStart.getTime()
+  );
 }
 
-export async function resumeSchedule(id: string) {
-  // Recalculate next billing date when resuming
-  const schedule = await prisma.scheduledBilling.findUnique({
-    where: { id },
-    select: { billingDayOfMonth: true, frequency: true, startDate: true },
+// Schedules whose next billing date passed without being billed (e.g. the server was
+// down or the cron failed on the billing day). The scheduler catches these up.
+// With a business day rule the billing date counts as passed once its shifted date has.
+export async function getSchedulesWithMissedRuns() {
+  const now = businessNow();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  const schedules = await prisma.scheduledBilling.findMany({
+    where: {
+      status: ScheduleStatus.ACTIVE,
+      startDate: { lte: now },
+      OR: [
+        { businessDayRule: BusinessDayRule.NONE, nextBillingDate: { lt: today } },
+        { businessDayRule: { not: BusinessDayRule.NONE }, nextBillingDate: { lt: addDays(today, MAX_BUSINESS_DAY_SHIFT) } },
+      ],
+    },
+    include: {
+      contract: {
+        include: {
+          partner: true,
+        },
+      },
+      billingEntity: true,
+    },
+    orderBy: { nextBillingDate: 'asc' },
   });
 
-  if (!schedule) {
-    throw new Error('Schedule not found');
+  if (!schedules.some((schedule) => schedule.businessDayRule !== BusinessDayRule.NONE)) {
+    return schedules;
   }
 
-  const nextBillingDate = calculateNextBillingDate(
-    schedule.billingDayOfMonth,
-    schedule.frequency,
-    schedule.startDate
+  const holidays = await getHolidayCalendar();
+  return schedules.filter((schedule) =>
+    schedule.businessDayRule === BusinessDayRule.NONE ||
+    adjustToBusinessDay(schedule.nextBillingDate!, schedule.businessDayRule, holidays) < today
   );
+}
 
-  return prisma.scheduledBilling.update({
-    where: { id },
-    data: {
+export async function pauseSchedule(id: string, options?: ScheduleVersionOptions) {
+  return updateWithVersion(id, { status: ScheduleStatus.PAUSED }, options);
+}
+
+export async function resumeSchedule(id: string, options?: ScheduleVersionOptions) {
+  // Recalculate next billing date when resuming
+  return updateWithVersion(
+    id,
+    (schedule) => ({
       status: ScheduleStatus.ACTIVE,
-      nextBillingDate,
-    },
-  });
+      nextBillingDate: calculateNextBillingDate(schedule.billingDayOfMonth, schedule.frequency, schedule.startDate),
+    }),
+    options
+  );
 }
 
-export async function endSchedule(id: string) {
-  return prisma.scheduledBilling.update({
-    where: { id },
-    data: {
+export async function endSchedule(id: string, options?: ScheduleVersionOptions) {
+  return updateWithVersion(
+    id,
+    {
       status: ScheduleStatus.ENDED,
-      endDate: new Date(),
+      endDate: businessNow(),
     },
-  });
+    options
+  );
 }
 
 // ==================== RUN TRACKING ====================
@@ -356,35 +536,124 @@ export async function createScheduledBillingRun(
   scheduledBillingId: string,
   invoiceId: string | null,
   status: 'SUCCESS' | 'FAILED' | 'SKIPPED',
-  errorMessage?: string
+  errorMessage?: string,
+  options?: { billingDate?: Date; isCatchUp?: boolean }
 ) {
+  const runDate = new Date();
+
   return prisma.scheduledBillingRun.create({
     data: {
       scheduledBillingId,
       invoiceId,
       status,
       errorMessage,
-      runDate: new Date(),
+      runDate,
+      billingDate: options?.billingDate || businessNow(),
+      isCatchUp: options?.isCatchUp ?? false,
     },
   });
 }
 
-export async function updateNextBillingDate(id: string) {
+// A pending claim older than this was abandoned (the instance stopped mid-run)
+const STALE_CLAIM_MS = 30 * 60 * 1000;
+
+/**
+ * Claim the billing period containing billingDate with a PENDING run before its invoice is
+ * generated. Only one run can hold a period (unique scheduledBillingId + periodKey), so two
+ * concurrent runs cannot both bill it. Throws when another run holds the period.
+ */
+export async function claimBillingPeriod(
+  scheduledBillingId: string,
+  frequency: BillingFrequency,
+  billingDate: Date,
+  options?: { isCatchUp?: boolean; versionId?: string }
+) {
+  const periodKey = format(getRunPeriod(frequency, billingDate).periodStart, 'yyyy-MM-dd');
+
+  // Release the period from runs whose invoice was voided or cancelled, and from abandoned claims
+  await prisma.scheduledBillingRun.updateMany({
+    where: {
+      scheduledBillingId,
+      periodKey,
+      OR: [
+        { invoice: { status: { in: [InvoiceStatus.CANCELLED, InvoiceStatus.VOID] } } },
+        { status: 'PENDING', runDate: { lt: new Date(Date.now() - STALE_CLAIM_MS) } },
+      ],
+    },
+    data: { periodKey: null },
+  });
+
+  try {
+    return await prisma.scheduledBillingRun.create({
+      data: {
+        scheduledBillingId,
+        status: 'PENDING',
+        periodKey,
+        runDate: new Date(),
+        billingDate,
+        isCatchUp: options?.isCatchUp ?? false,
+        versionId: options?.versionId,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error('Invoice already exists or is being generated for this billing period');
+    }
+    throw error;
+  }
+}
+
+// Record the outcome of a claimed run. A failed run releases its period so it can be retried.
+export async function completeBillingPeriodClaim(
+  runId: string,
+  invoiceId: string | null,
+  status: 'SUCCESS' | 'FAILED',
+  errorMessage?: string
+) {
+  return prisma.scheduledBillingRun.update({
+    where: { id: runId },
+    data: {
+      invoiceId,
+      status,
+      errorMessage,
+      ...(status === 'FAILED' && { periodKey: null }),
+    },
+  });
+}
+
+// Move the schedule to its next billing date. When billedDate is given (catch-up runs),
+// the next date follows that billing date instead of today, so later missed periods are
+// still picked up.
+export async function updateNextBillingDate(id: string, billedDate?: Date) {
   const schedule = await prisma.scheduledBilling.findUnique({
     where: { id },
-    select: { billingDayOfMonth: true, frequency: true, startDate: true },
+    select: {
+      billingDayOfMonth: true,
+      frequency: true,
+      startDate: true,
+      customIntervalValue: true,
+      customIntervalUnit: true,
+    },
   });
 
   if (!schedule) {
     throw new Error('Schedule not found');
   }
 
-  const nextBillingDate = calculateNextBillingDate(
-    schedule.billingDayOfMonth,
-    schedule.frequency,
-    schedule.startDate,
-    true // Skip to next period
-  );
+  const nextBillingDate = billedDate
+    ? getFollowingBillingDate(
+        billedDate,
+        schedule.billingDayOfMonth,
+        schedule.frequency,
+        schedule.customIntervalValue ?? undefined,
+        schedule.customIntervalUnit ?? undefined
+      )
+    : calculateNextBillingDate(
+        schedule.billingDayOfMonth,
+        schedule.frequency,
+        schedule.startDate,
+        true // Skip to next period
+      );
 
   return prisma.scheduledBilling.update({
     where: { id },
@@ -402,7 +671,7 @@ export function calculateNextBillingDate(
   customIntervalValue?: number,
   customIntervalUnit?: IntervalUnit
 ): Date {
-  const now = new Date();
+  const now = businessNow();
   let nextDate = new Date(now.getFullYear(), now.getMonth(), billingDayOfMonth);
 
   // Handle months with fewer days (e.g., billing day 31 in February)
@@ -471,51 +740,91 @@ export function calculateNextBillingDate(
   return nextDate;
 }
 
-// Check if an invoice already exists for this schedule's current period
-export async function checkExistingInvoiceForPeriod(
-  scheduledBillingId: string
-): Promise<boolean> {
-  const schedule = await prisma.scheduledBilling.findUnique({
-    where: { id: scheduledBillingId },
-    select: { frequency: true },
-  });
+// Billing date one period after the given billing date
+export function getFollowingBillingDate(
+  billingDate: Date,
+  billingDayOfMonth: number,
+  frequency: BillingFrequency,
+  customIntervalValue?: number,
+  customIntervalUnit?: IntervalUnit
+): Date {
+  if (frequency === BillingFrequency.CUSTOM && customIntervalValue && customIntervalUnit === IntervalUnit.DAYS) {
+    const nextDate = new Date(billingDate);
+    nextDate.setDate(nextDate.getDate() + customIntervalValue);
+    return nextDate;
+  }
 
-  if (!schedule) return false;
+  let months = 1;
+  if (frequency === BillingFrequency.QUARTERLY) {
+    months = 3;
+  } else if (frequency === BillingFrequency.ANNUALLY) {
+    months = 12;
+  } else if (frequency === BillingFrequency.CUSTOM && customIntervalValue && customIntervalUnit === IntervalUnit.MONTHS) {
+    months = customIntervalValue;
+  }
 
-  const now = new Date();
+  // Handle months with fewer days (e.g., billing day 31 in February)
+  const nextDate = new Date(billingDate.getFullYear(), billingDate.getMonth() + months, 1);
+  const lastDayOfMonth = new Date(nextDate.getFullYear(), nextDate.getMonth() + 1, 0).getDate();
+  nextDate.setDate(Math.min(billingDayOfMonth, lastDayOfMonth));
+
+  return nextDate;
+}
+
+// Period a run's billing date falls in, for duplicate checks
+function getRunPeriod(frequency: BillingFrequency, billingDate: Date): { periodStart: Date; periodEnd: Date } {
   let periodStart: Date;
   let periodEnd: Date;
 
-  switch (schedule.frequency) {
+  switch (frequency) {
     case BillingFrequency.MONTHLY:
-      periodStart = new Date(now.getFullYear(), now.getMonth(), 1);
-      periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
+      periodStart = new Date(billingDate.getFullYear(), billingDate.getMonth(), 1);
+      periodEnd = new Date(billingDate.getFullYear(), billingDate.getMonth() + 1, 0, 23, 59, 59);
       break;
     case BillingFrequency.QUARTERLY:
-      const quarter = Math.floor(now.getMonth() / 3);
-      periodStart = new Date(now.getFullYear(), quarter * 3, 1);
-      periodEnd = new Date(now.getFullYear(), quarter * 3 + 3, 0, 23, 59, 59);
+      const quarter = Math.floor(billingDate.getMonth() / 3);
+      periodStart = new Date(billingDate.getFullYear(), quarter * 3, 1);
+      periodEnd = new Date(billingDate.getFullYear(), quarter * 3 + 3, 0, 23, 59, 59);
       break;
     case BillingFrequency.ANNUALLY:
-      periodStart = new Date(now.getFullYear(), 0, 1);
-      periodEnd = new Date(now.getFullYear(), 11, 31, 23, 59, 59);
+      periodStart = new Date(billingDate.getFullYear(), 0, 1);
+      periodEnd = new Date(billingDate.getFullYear(), 11, 31, 23, 59, 59);
       break;
     case BillingFrequency.CUSTOM:
     default:
       // For custom intervals, use the current month as the period
-      periodStart = new Date(now.getFullYear(), now.getMonth(), 1);
-      periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
+      periodStart = new Date(billingDate.getFullYear(), billingDate.getMonth(), 1);
+      periodEnd = new Date(billingDate.getFullYear(), billingDate.getMonth() + 1, 0, 23, 59, 59);
       break;
   }
 
+  return { periodStart, periodEnd };
+}
+
+// Check if an invoice already exists for the schedule's period containing billingDate
+// (the current period by default)
+export async function checkExistingInvoiceForPeriod(
+  scheduledBillingId: string,
+  billingDate: Date = businessNow()
+): Promise<boolean> {
+  const schedule = await prisma.scheduledBilling.findUnique({
+    where: { id: scheduledBillingId },
+    select: { frequency: true },
+  });
+
+  if (!schedule) return false;
+
+  const { periodStart, periodEnd } = getRunPeriod(schedule.frequency, billingDate);
+
   const existingRun = await prisma.scheduledBillingRun.findFirst({
     where: {
       scheduledBillingId,
       status: 'SUCCESS',
-      runDate: {
-        gte: periodStart,
-        lte: periodEnd,
-      },
+      OR: [
+        { billingDate: { gte: periodStart, lte: periodEnd } },
+        // Runs recorded before billingDate was tracked
+        { billingDate: null, runDate: { gte: periodStart, lte: periodEnd } },
+      ],
     },
     include: {
       invoice: {
@@ -545,8 +854,8 @@ export async function getScheduledBillingStats() {
   ]);
 
   // Get schedules due in next 7 days
-  const today = new Date();
-  const nextWeek = new Date();
+  const today = businessNow();
+  const nextWeek = new Date(today);
   nextWeek.setDate(today.getDate() + 7);
 
   const dueThisWeek = await prisma.scheduledBilling.count({
@@ -585,14 +894,15 @@ export async function approveSchedule(id: string, approverId: string) {
     throw new Error('Only pending schedules can be approved');
   }
 
-  return prisma.scheduledBilling.update({
-    where: { id },
-    data: {
+  return updateWithVersion(
+    id,
+    {
       status: ScheduleStatus.ACTIVE,
-      approvedById: approverId,
+      approvedBy: { connect: { id: approverId } },
       approvedAt: new Date(),
     },
-    include: {
+    { changedById: approverId, changeReason: 'Approved' },
+    {
       contract: {
         select: {
           id: true,
@@ -610,8 +920,8 @@ export async function approveSchedule(id: string, approverId: string) {
       approvedBy: {
         select: { id: true, name: true, email: true },
       },
-    },
-  });
+    }
+  );
 }
 
 export async function rejectSchedule(id: string, rejectorId: string, reason?: string) {
@@ -628,15 +938,16 @@ export async function rejectSchedule(id: string, rejectorId: string, reason?: st
     throw new Error('Only pending schedules can be rejected');
   }
 
-  return prisma.scheduledBilling.update({
-    where: { id },
-    data: {
+  return updateWithVersion(
+    id,
+    {
       status: ScheduleStatus.ENDED,
-      rejectedById: rejectorId,
+      rejectedBy: { connect: { id: rejectorId } },
       rejectedAt: new Date(),
       rejectionReason: reason,
     },
-    include: {
+    { changedById: rejectorId, changeReason: reason ? `Rejected: ${reason}` : 'Rejected' },
+    {
       contract: {
         select: {
           id: true,
@@ -654,8 +965,8 @@ export async function rejectSchedule(id: string, rejectorId: string, reason?: st
       rejectedBy: {
         select: { id: true, name: true, email: true },
       },
-    },
-  });
+    }
+  );
 }
 
 // Get run history with filtering
@@ -1,16 +1,26 @@
 import * as cron from 'node-cron';
 import prisma from './prisma';
-import { JobStatus, InvoiceStatus } from '@/generated/prisma';
+import { JobStatus, InvoiceStatus, BusinessDayRule } from '@/generated/prisma';
 import { autoSendInvoice } from './auto-send';
-import { notifyInvoicePending } from './notifications';
+import { notifyInvoicePending, notifyInvoiceOverdue } from './notifications';
 import {
   getSchedulesDueToday,
+  getSchedulesWithMissedRuns,
   createScheduledBillingRun,
   updateNextBillingDate,
   checkExistingInvoiceForPeriod,
+  getFollowingBillingDate,
 } from './scheduled-billing-service';
 import { generateFromScheduledBilling } from './invoice-generator';
-import { getSchedulerSettings } from './settings';
+import { getSchedulerSettings, getDunningSettings } from './settings';
+import { getDueFollowUpLevel, sendFollowUpEmail } from './follow-up-service';
+import { getFollowUpLadder } from './follow-up-ladder-service';
+import { processEmailQueue } from './email-service';
+import { sendDuePriceChangeNotices } from './price-change-service';
+import { adjustToBusinessDay, getHolidayCalendar } from './business-calendar-service';
+import { businessToday, getBusinessTimezone } from './business-time';
+import { getNextCronRuns } from './cron-expression';
+import { acquireJobLock, releaseJobLock, renewJobLock } from './job-lock-service';
 
 interface SchedulerConfig {
   cronExpression: string;
@@ -21,27 +31,139 @@ interface SchedulerConfig {
 
 const defaultConfig: SchedulerConfig = {
   cronExpression: '0 8 * * *', // 8:00 AM daily
-  timezone: 'Asia/Manila',
+  timezone: getBusinessTimezone(),
   enabled: true, // Always enabled - individual schedules control themselves
   daysBeforeDue: 0,
 };
 
+// The email outbox is drained independently of the daily billing cron
+const EMAIL_QUEUE_CRON = '* * * * *'; // Every minute
+
+// Most missed periods billed for one schedule in a single run
+const MAX_CATCH_UP_PERIODS = 12;
+
+// Upcoming billing runs listed in the scheduler status
+const UPCOMING_RUN_COUNT = 5;
+
+const BILLING_JOB_NAME = 'daily-billing-check';
+const DUNNING_JOB_NAME = 'daily-dunning';
+const PRICE_NOTICE_JOB_NAME = 'daily-price-notices';
+
 let scheduledTask: ReturnType<typeof cron.schedule> | null = null;
+let emailQueueTask: ReturnType<typeof cron.schedule> | null = null;
+let emailQueueRunning = false;
 let currentConfig: SchedulerConfig = { ...defaultConfig };
 let lastRun: Date | null = null;
 let nextRun: Date | null = null;
 
+/**
+ * Run a job while holding its lock, so it runs on one instance at a time.
+ * The job gets keepLock to extend the lease as it works; the lock is released with the
+ * run's outcome whatever happens after it was taken.
+ */
+async function withJobLock<T>(
+  jobName: string,
+  label: string,
+  job: (keepLock: () => Promise<void>) => Promise<T>
+): Promise<T> {
+  const lock = await acquireJobLock(jobName);
+  if (!lock) {
+    throw new Error(`${label} is already running`);
+  }
+
+  // Stop if another run took over an expired lock
+  const keepLock = async () => {
+    if (!(await renewJobLock(lock))) {
+      throw new Error(`${label} lock expired and was taken over by another run`);
+    }
+  };
+
+  let status: 'COMPLETED' | 'FAILED' = 'FAILED';
+  let failure: string | undefined;
+  try {
+    const result = await job(keepLock);
+    status = 'COMPLETED';
+    return result;
+  } catch (error) {
+    failure = error instanceof Error ? error.message : 'Unknown error';
+    throw error;
+  } finally {
+    await releaseJobLock(lock, status, failure);
+  }
+}
+
+/**
+ * Auto-send an approved invoice (when the schedule allows it) or notify for approval
+ */
+async function dispatchGeneratedInvoice(
+  schedule: { id: string; autoSendEnabled: boolean },
+  invoice: { id: string; billingNo: string | null; customerName: string; status: InvoiceStatus },
+  errors: any[]
+): Promise<'AUTO_SENT' | 'PENDING_APPROVAL' | null> {
+  if (invoice.status === InvoiceStatus.APPROVED) {
+    // Auto-approved invoice - try to send if autoSendEnabled
+    if (!schedule.autoSendEnabled) {
+      console.log(`[Scheduler] Invoice ${invoice.billingNo} approved but auto-send disabled`);
+      return null;
+    }
+
+    try {
+      const sendResult = await autoSendInvoice(invoice.id);
+
+      if (sendResult.success) {
+        console.log(`[Scheduler] Queued invoice ${invoice.billingNo} for ${sendResult.sentTo}`);
+        return 'AUTO_SENT';
+      }
+
+      console.error(`[Scheduler] Failed to auto-send ${invoice.billingNo}: ${sendResult.error}`);
+      errors.push({
+        scheduleId: schedule.id,
+        invoiceId: invoice.id,
+        billingNo: invoice.billingNo,
+        error: `Auto-send failed: ${sendResult.error}`,
+      });
+    } catch (sendError) {
+      console.error(`[Scheduler] Error sending invoice ${invoice.billingNo}:`, sendError);
+      errors.push({
+        scheduleId: schedule.id,
+        invoiceId: invoice.id,
+        billingNo: invoice.billingNo,
+        error: `Auto-send error: ${sendError instanceof Error ? sendError.message : 'Unknown'}`,
+      });
+    }
+    return null;
+  }
+
+  // PENDING invoice - notify for manual approval
+  await notifyInvoicePending({
+    id: invoice.id,
+    billingNo: invoice.billingNo,
+    customerName: invoice.customerName,
+  });
+
+  console.log(`[Scheduler] Invoice ${invoice.billingNo} pending approval`);
+  return 'PENDING_APPROVAL';
+}
+
 /**
  * Main billing job - uses ScheduledBilling model
- * 1. Get scheduled billings where billingDayOfMonth = today
- * 2. For each schedule, generate invoice
- * 3. For APPROVED invoices with autoSendEnabled: auto-send
- * 4. For PENDING invoices: notify for approval
+ * 1. Catch up schedules whose nextBillingDate passed without a successful run
+ *    (server down or cron failure on the billing day), billing each missed period
+ * 2. Get scheduled billings where billingDayOfMonth = today
+ * 3. For each schedule, generate invoice
+ * 4. For APPROVED invoices with autoSendEnabled: auto-send
+ * 5. For PENDING invoices: notify for approval
  */
 async function runBillingJob() {
+  // One billing run at a time across instances and manual triggers
+  return withJobLock(BILLING_JOB_NAME, 'Billing job', billScheduledBillings);
+}
+
+// The billing run itself; keepLock extends the lease as schedules are processed
+async function billScheduledBillings(keepLock: () => Promise<void>) {
   const jobRun = await prisma.jobRun.create({
     data: {
-      jobName: 'daily-billing-check',
+      jobName: BILLING_JOB_NAME,
       status: JobStatus.RUNNING,
     },
   });
@@ -49,21 +171,97 @@ async function runBillingJob() {
   try {
     console.log('[Scheduler] Starting daily billing check...');
 
-    // Get scheduled billings due today
-    const schedules = await getSchedulesDueToday();
-    console.log(`[Scheduler] Found ${schedules.length} scheduled billings due today`);
-
     let processed = 0;
+    let caughtUp = 0;
     let autoSent = 0;
     let pendingApproval = 0;
     let skipped = 0;
     const errors: any[] = [];
 
+    const countDispatch = (outcome: 'AUTO_SENT' | 'PENDING_APPROVAL' | null) => {
+      if (outcome === 'AUTO_SENT') autoSent++;
+      if (outcome === 'PENDING_APPROVAL') pendingApproval++;
+    };
+
+    // Catch up on missed billing dates first, oldest period first
+    const today = businessToday();
+
+    const missedSchedules = await getSchedulesWithMissedRuns();
+    console.log(`[Scheduler] Found ${missedSchedules.length} scheduled billings with missed runs`);
+
+    // A period is missed once the date it bills on (shifted off weekends and holidays) has passed
+    const holidays = missedSchedules.some((schedule) => schedule.businessDayRule !== BusinessDayRule.NONE)
+      ? await getHolidayCalendar()
+      : new Set<string>();
+
+    for (const schedule of missedSchedules) {
+      let billingDate = schedule.nextBillingDate!;
+      const isMissed = (date: Date) => adjustToBusinessDay(date, schedule.businessDayRule, holidays) < today;
+
+      await keepLock();
+
+      try {
+        for (let period = 0; period < MAX_CATCH_UP_PERIODS && isMissed(billingDate); period++) {
+          if (schedule.endDate && schedule.endDate <= billingDate) break;
+
+          // Already billed (e.g. by a manual run) - just move past the period
+          const hasExisting = await checkExistingInvoiceForPeriod(schedule.id, billingDate);
+          if (hasExisting) {
+            await updateNextBillingDate(schedule.id, billingDate);
+          } else {
+            const result = await generateFromScheduledBilling(schedule.id, { billingDate, isCatchUp: true });
+
+            // Nothing billable - the generator ended or advanced the schedule
+            if (!result) {
+              console.log(`[Scheduler] Skipping ${schedule.contract.companyName} - no billable days (billing date ${billingDate.toDateString()})`);
+              skipped++;
+              break;
+            }
+
+            processed++;
+            caughtUp++;
+
+            console.log(`[Scheduler] Caught up invoice ${result.invoice.billingNo} for ${schedule.contract.companyName} (billing date ${billingDate.toDateString()})`);
+
+            countDispatch(await dispatchGeneratedInvoice(schedule, result.invoice, errors));
+          }
+
+          billingDate = getFollowingBillingDate(
+            billingDate,
+            schedule.billingDayOfMonth,
+            schedule.frequency,
+            schedule.customIntervalValue ?? undefined,
+            schedule.customIntervalUnit ?? undefined
+          );
+        }
+      } catch (error) {
+        // The failed run is recorded by the generator; the period is retried on the next run
+        console.error(`[Scheduler] Error catching up schedule for ${schedule.contract.companyName}:`, error);
+
+        errors.push({
+          scheduleId: schedule.id,
+          companyName: schedule.contract.companyName,
+          billingDate,
+          catchUp: true,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    // Get scheduled billings due today
+    const schedules = await getSchedulesDueToday();
+    console.log(`[Scheduler] Found ${schedules.length} scheduled billings due today`);
+
     // Process each scheduled billing
     for (const schedule of schedules) {
+      await keepLock();
+
       try {
+        // Schedules with a business day rule are due on a shifted date; bill their nominal billing date's period
+        const billingDate = schedule.businessDayRule !== BusinessDayRule.NONE ? schedule.nextBillingDate! : undefined;
+
         // Check if invoice already exists for this period
-        const hasExisting = await checkExistingInvoiceForPeriod(schedule.id);
+        const hasExisting = await checkExistingInvoiceForPeriod(schedule.id, billingDate);
         if (hasExisting) {
           console.log(`[Scheduler] Skipping ${schedule.contract.companyName} - invoice already exists for this period`);
           skipped++;
@@ -71,53 +269,18 @@ async function runBillingJob() {
         }
 
         // Generate invoice
-        const result = await generateFromScheduledBilling(schedule.id);
+        const result = await generateFromScheduledBilling(schedule.id, billingDate ? { billingDate } : undefined);
+        if (!result) {
+          console.log(`[Scheduler] Skipping ${schedule.contract.companyName} - no billable days in this period`);
+          skipped++;
+          continue;
+        }
+
         processed++;
 
         console.log(`[Scheduler] Created invoice ${result.invoice.billingNo} for ${schedule.contract.companyName}`);
 
-        if (result.invoice.status === InvoiceStatus.APPROVED) {
-          // Auto-approved invoice - try to send if autoSendEnabled
-          if (schedule.autoSendEnabled) {
-            try {
-              const sendResult = await autoSendInvoice(result.invoice.id);
-
-              if (sendResult.success) {
-                autoSent++;
-                console.log(`[Scheduler] Auto-sent invoice ${result.invoice.billingNo} to ${sendResult.sentTo}`);
-              } else {
-                console.error(`[Scheduler] Failed to auto-send ${result.invoice.billingNo}: ${sendResult.error}`);
-                errors.push({
-                  scheduleId: schedule.id,
-                  invoiceId: result.invoice.id,
-                  billingNo: result.invoice.billingNo,
-                  error: `Auto-send failed: ${sendResult.error}`,
-                });
-              }
-            } catch (sendError) {
-              console.error(`[Scheduler] Error sending invoice ${result.invoice.billingNo}:`, sendError);
-              errors.push({
-                scheduleId: schedule.id,
-                invoiceId: result.invoice.id,
-                billingNo: result.invoice.billingNo,
-                error: `Auto-send error: ${sendError instanceof Error ? sendError.message : 'Unknown'}`,
-              });
-            }
-          } else {
-            console.log(`[Scheduler] Invoice ${result.invoice.billingNo} approved but auto-send disabled`);
-          }
-        } else {
-          // PENDING invoice - notify for manual approval
-          pendingApproval++;
-
-          await notifyInvoicePending({
-            id: result.invoice.id,
-            billingNo: result.invoice.billingNo,
-            customerName: result.invoice.customerName,
-          });
-
-          console.log(`[Scheduler] Invoice ${result.invoice.billingNo} pending approval`);
-        }
+        countDispatch(await dispatchGeneratedInvoice(schedule, result.invoice, errors));
       } catch (error) {
         console.error(`[Scheduler] Error processing schedule for ${schedule.contract.companyName}:`, error);
 
@@ -144,17 +307,17 @@ async function runBillingJob() {
         status: JobStatus.COMPLETED,
         completedAt: new Date(),
         itemsProcessed: processed,
-        errors: { errors, autoSent, pendingApproval, skipped },
+        errors: { errors, caughtUp, autoSent, pendingApproval, skipped },
       },
     });
 
-    console.log(`[Scheduler] Completed. Processed: ${processed}, Auto-sent: ${autoSent}, Pending: ${pendingApproval}, Skipped: ${skipped}, Errors: ${errors.length}`);
+    console.log(`[Scheduler] Completed. Processed: ${processed}, Caught up: ${caughtUp}, Auto-sent: ${autoSent}, Pending: ${pendingApproval}, Skipped: ${skipped}, Errors: ${errors.length}`);
 
     // Track last run time
     lastRun = new Date();
     updateNextRunTime();
 
-    return { processed, autoSent, pendingApproval, skipped, errors };
+    return { processed, caughtUp, autoSent, pendingApproval, skipped, errors };
   } catch (error) {
     console.error('[Scheduler] Job failed:', error);
 
@@ -176,36 +339,243 @@ async function runBillingJob() {
 }
 
 /**
- * Calculate next run time based on cron expression
+ * Dunning job - chases overdue invoices
+ * 1. Get SENT / PARTIALLY_PAID invoices past their due date
+ * 2. Raise an overdue notification the first time each invoice is seen
+ * 3. If auto follow-ups are enabled, send the next level of the invoice's follow-up ladder once its delay is reached
+ *    (counted in business days when followUp.businessDaysOnly is set)
  */
-function updateNextRunTime() {
-  if (!scheduledTask || !currentConfig.enabled) {
-    nextRun = null;
-    return;
-  }
+async function runDunningJob() {
+  // Two overlapping runs would both send the next follow-up level
+  return withJobLock(DUNNING_JOB_NAME, 'Dunning job', chaseOverdueInvoices);
+}
+
+// The dunning run itself; keepLock extends the lease as invoices are processed
+async function chaseOverdueInvoices(keepLock: () => Promise<void>) {
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobName: DUNNING_JOB_NAME,
+      status: JobStatus.RUNNING,
+    },
+  });
 
   try {
-    // Parse cron and calculate next occurrence
-    const cronParts = currentConfig.cronExpression.split(' ');
-    const now = new Date();
+    console.log('[Scheduler] Starting dunning run...');
+
+    const { autoSendEnabled, businessDaysOnly } = await getDunningSettings();
+
+    // Ladder delays count business days only when configured
+    const holidays = businessDaysOnly ? await getHolidayCalendar() : undefined;
+
+    const today = businessToday();
+
+    const overdueInvoices = await prisma.invoice.findMany({
+      where: {
+        status: { in: [InvoiceStatus.SENT, InvoiceStatus.PARTIALLY_PAID] },
+        dueDate: { lt: today },
+      },
+      select: {
+        id: true,
+        companyId: true,
+        partnerId: true,
+        billingNo: true,
+        customerName: true,
+        dueDate: true,
+        followUpEnabled: true,
+        lastFollowUpLevel: true,
+        lastFollowUpAt: true,
+      },
+      orderBy: { dueDate: 'asc' },
+    });
+    console.log(`[Scheduler] Found ${overdueInvoices.length} overdue invoices`);
+
+    let notified = 0;
+    let followUpsSent = 0;
+    let skipped = 0;
+    const errors: any[] = [];
 
-    // Simple calculation for common patterns (minute hour * * *)
-    if (cronParts.length >= 2) {
-      const minute = parseInt(cronParts[0]) || 0;
-      const hour = parseInt(cronParts[1]) || 8;
+    // Ladders are shared by every invoice of the same partner / billing entity
+    const ladderDelays = new Map<string, number[]>();
 
-      const next = new Date(now);
-      next.setHours(hour, minute, 0, 0);
+    for (const invoice of overdueInvoices) {
+      await keepLock();
+
+      try {
+        // Raise the overdue notification only once per invoice
+        const alreadyNotified = await prisma.notification.findFirst({
+          where: { type: 'INVOICE_OVERDUE', entityType: 'Invoice', entityId: invoice.id },
+          select: { id: true },
+        });
+        if (!alreadyNotified) {
+          await notifyInvoiceOverdue(invoice);
+          notified++;
+        }
+
+        if (!autoSendEnabled || !invoice.followUpEnabled) {
+          skipped++;
+          continue;
+        }
+
+        const ladderKey = `${invoice.partnerId || ''}:${invoice.companyId}`;
+        if (!ladderDelays.has(ladderKey)) {
+          const ladder = await getFollowUpLadder({ companyId: invoice.companyId, partnerId: invoice.partnerId });
+          ladderDelays.set(ladderKey, ladder.levels.map((l) => l.delayDays));
+        }
+
+        const level = getDueFollowUpLevel(invoice, ladderDelays.get(ladderKey)!, holidays);
+        if (!level) {
+          skipped++;
+          continue;
+        }
 
-      // If time has passed today, schedule for tomorrow
-      if (next <= now) {
-        next.setDate(next.getDate() + 1);
+        const result = await sendFollowUpEmail(invoice.id);
+        if (result.success) {
+          followUpsSent++;
+          console.log(`[Scheduler] Sent follow-up level ${result.level} for ${invoice.billingNo}`);
+        } else {
+          console.error(`[Scheduler] Failed to send follow-up for ${invoice.billingNo}: ${result.message}`);
+          errors.push({
+            invoiceId: invoice.id,
+            billingNo: invoice.billingNo,
+            level,
+            error: result.message,
+          });
+        }
+      } catch (error) {
+        console.error(`[Scheduler] Error processing overdue invoice ${invoice.billingNo}:`, error);
+        errors.push({
+          invoiceId: invoice.id,
+          billingNo: invoice.billingNo,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
       }
+    }
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: JobStatus.COMPLETED,
+        completedAt: new Date(),
+        itemsProcessed: overdueInvoices.length,
+        errors: { errors, followUpsSent, notified, skipped },
+      },
+    });
+
+    console.log(`[Scheduler] Dunning completed. Overdue: ${overdueInvoices.length}, Follow-ups sent: ${followUpsSent}, Notified: ${notified}, Skipped: ${skipped}, Errors: ${errors.length}`);
+
+    return { processed: overdueInvoices.length, followUpsSent, notified, skipped, errors };
+  } catch (error) {
+    console.error('[Scheduler] Dunning job failed:', error);
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: JobStatus.FAILED,
+        completedAt: new Date(),
+        errors: [{ error: error instanceof Error ? error.message : 'Unknown error' }],
+      },
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Price notice job - emails clients ahead of scheduled billing amount changes
+ * Covers future-dated price changes and automatic escalations falling within each
+ * schedule's notice period; notices that fail are retried on the next daily run.
+ */
+async function runPriceNoticeJob() {
+  // Two overlapping runs would both email the same notice
+  return withJobLock(PRICE_NOTICE_JOB_NAME, 'Price notice job', sendPriceNotices);
+}
+
+// The price notice run itself
+async function sendPriceNotices() {
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobName: PRICE_NOTICE_JOB_NAME,
+      status: JobStatus.RUNNING,
+    },
+  });
+
+  try {
+    const result = await sendDuePriceChangeNotices();
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: JobStatus.COMPLETED,
+        completedAt: new Date(),
+        itemsProcessed: result.processed,
+        errors: { errors: result.errors, sent: result.sent, skipped: result.skipped },
+      },
+    });
+
+    console.log(`[Scheduler] Price notices completed. Due: ${result.processed}, Sent: ${result.sent}, Skipped: ${result.skipped}, Errors: ${result.errors.length}`);
 
-      nextRun = next;
+    return result;
+  } catch (error) {
+    console.error('[Scheduler] Price notice job failed:', error);
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: JobStatus.FAILED,
+        completedAt: new Date(),
+        errors: [{ error: error instanceof Error ? error.message : 'Unknown error' }],
+      },
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Email queue job - drains the email outbox
+ * Delivers queued emails whose next attempt is due; transient failures are retried with
+ * exponential backoff until the max attempt count, permanent ones are marked FAILED.
+ * Returns null when the previous run is still in progress.
+ */
+async function runEmailQueueJob() {
+  if (emailQueueRunning) {
+    return null;
+  }
+
+  emailQueueRunning = true;
+  try {
+    const result = await processEmailQueue();
+
+    if (result.processed > 0) {
+      console.log(`[Scheduler] Email queue: Processed: ${result.processed}, Sent: ${result.sent}, Retrying: ${result.retrying}, Failed: ${result.failed}`);
     }
-  } catch {
+
+    return result;
+  } finally {
+    emailQueueRunning = false;
+  }
+}
+
+/**
+ * Calculate next run time based on cron expression
+ */
+function updateNextRunTime() {
+  if (!scheduledTask || !currentConfig.enabled) {
     nextRun = null;
+    return;
+  }
+
+  nextRun = getUpcomingRuns(currentConfig.cronExpression, 1)[0] || null;
+}
+
+/**
+ * Upcoming runs of a cron expression in the scheduler timezone (empty when the expression is invalid)
+ */
+function getUpcomingRuns(cronExpression: string, count: number = UPCOMING_RUN_COUNT): Date[] {
+  try {
+    return getNextCronRuns(cronExpression, count, { timeZone: currentConfig.timezone });
+  } catch {
+    return [];
   }
 }
 
@@ -241,12 +611,42 @@ export function startScheduler(config?: Partial<SchedulerConfig>) {
       } catch (error) {
         console.error('[Scheduler] Unhandled error in job:', error);
       }
+
+      // Dunning runs after billing so a failed billing run does not block follow-ups
+      try {
+        await runDunningJob();
+      } catch (error) {
+        console.error('[Scheduler] Unhandled error in dunning job:', error);
+      }
+
+      try {
+        await runPriceNoticeJob();
+      } catch (error) {
+        console.error('[Scheduler] Unhandled error in price notice job:', error);
+      }
     },
     {
       timezone: mergedConfig.timezone,
     }
   );
 
+  // Start the email queue worker once; it does not depend on the billing cron settings
+  if (!emailQueueTask) {
+    emailQueueTask = cron.schedule(
+      EMAIL_QUEUE_CRON,
+      async () => {
+        try {
+          await runEmailQueueJob();
+        } catch (error) {
+          console.error('[Scheduler] Unhandled error in email queue job:', error);
+        }
+      },
+      {
+        timezone: mergedConfig.timezone,
+      }
+    );
+  }
+
   updateNextRunTime();
   console.log('[Scheduler] Started successfully');
 }
@@ -260,6 +660,10 @@ export function stopScheduler() {
     scheduledTask = null;
     console.log('[Scheduler] Stopped');
   }
+  if (emailQueueTask) {
+    emailQueueTask.stop();
+    emailQueueTask = null;
+  }
   currentConfig = { ...defaultConfig, enabled: false };
   nextRun = null;
 }
@@ -301,6 +705,27 @@ export async function triggerBillingJob() {
   return runBillingJob();
 }
 
+/**
+ * Manual trigger for the dunning job
+ */
+export async function triggerDunningJob() {
+  return runDunningJob();
+}
+
+/**
+ * Manual trigger for the price change notice job
+ */
+export async function triggerPriceNoticeJob() {
+  return runPriceNoticeJob();
+}
+
+/**
+ * Manual trigger for the email queue worker
+ */
+export async function triggerEmailQueueJob() {
+  return runEmailQueueJob();
+}
+
 /**
  * Get scheduler status (reads current state, not DB)
  */
@@ -310,6 +735,7 @@ export function getSchedulerStatus() {
     config: currentConfig,
     lastRun: lastRun?.toISOString() || null,
     nextRun: nextRun?.toISOString() || null,
+    upcomingRuns: getUpcomingRuns(currentConfig.cronExpression).map((run) => run.toISOString()),
   };
 }
 
@@ -329,5 +755,6 @@ export async function getSchedulerStatusAsync() {
     },
     lastRun: lastRun?.toISOString() || null,
     nextRun: nextRun?.toISOString() || null,
+    upcomingRuns: getUpcomingRuns(settings.cronExpression).map((run) => run.toISOString()),
   };
 }
@@ -2,13 +2,7 @@ import prisma from './prisma';
 
 // Default settings values
 const DEFAULTS: Record<string, any> = {
-  // SOA Template Settings
-  'soa.yowi.bankName': 'BDO',
-  'soa.yowi.bankAccountName': 'YAHSHUA OUTSOURCING WORLDWIDE INC.',
-  'soa.yowi.bankAccountNo': '',
-  'soa.abba.bankName': 'BDO',
-  'soa.abba.bankAccountName': 'THE ABBA INITIATIVE OPC',
-  'soa.abba.bankAccountNo': '',
+  // SOA Template Settings (bank details are stored per billing entity on Company)
   'soa.footer': 'Thank you for your business. Please include the invoice number in your payment reference.',
   'soa.preparedBy': 'VANESSA L. DONOSO',
   'soa.reviewedBy': 'RUTH MICHELLE C. BAYRON',
@@ -18,6 +12,11 @@ const DEFAULTS: Record<string, any> = {
   'scheduler.cronExpression': '0 8 * * *',
   'scheduler.daysBeforeDue': 15,
 
+  // Follow-up (dunning) Settings
+  'followUp.autoSendEnabled': false,
+  'followUp.dayOffsets': [3, 10, 20],
+  'followUp.businessDaysOnly': false,
+
   // Email Settings
   'email.enabled': true,
   'email.bccAddress': '',
@@ -115,7 +114,7 @@ export function clearSettingsCache(): void {
  * Get SOA/PDF template settings for a company
  * Now fetches from Company model (bank details) and Signatory model (signatories)
  */
-export async function getSOASettings(companyCode: 'YOWI' | 'ABBA'): Promise<{
+export async function getSOASettings(companyCode: string): Promise<{
   bankName: string;
   bankAccountName: string;
   bankAccountNo: string;
@@ -123,9 +122,11 @@ export async function getSOASettings(companyCode: 'YOWI' | 'ABBA'): Promise<{
   preparedBy: string;
   reviewedBy: string;
 }> {
+  let company: { name: string } | null = null;
+
   try {
     // Fetch company with signatories
-    const company = await prisma.company.findUnique({
+    const found = await prisma.company.findUnique({
       where: { code: companyCode },
       include: {
         signatories: {
@@ -134,36 +135,38 @@ export async function getSOASettings(companyCode: 'YOWI' | 'ABBA'): Promise<{
       },
     });
 
-    if (!company) {
+    if (!found) {
       // Fallback to defaults if company not found
-      return getSOASettingsDefaults(companyCode);
+      return getSOASettingsDefaults(companyCode, null);
     }
+    company = found;
 
     // Get signatories by role
-    const preparedBySignatory = company.signatories.find(s => s.role === 'prepared_by');
-    const reviewedBySignatory = company.signatories.find(s => s.role === 'reviewed_by');
+    const preparedBySignatory = found.signatories.find(s => s.role === 'prepared_by');
+    const reviewedBySignatory = found.signatories.find(s => s.role === 'reviewed_by');
 
     // Get footer from Settings (shared setting)
     const footerSetting = await getSetting('soa.footer');
 
     return {
-      bankName: company.bankName || 'BDO',
-      bankAccountName: company.bankAccountName || company.name,
-      bankAccountNo: company.bankAccountNo || '',
+      bankName: found.bankName || 'BDO',
+      bankAccountName: found.bankAccountName || found.name,
+      bankAccountNo: found.bankAccountNo || '',
       footer: footerSetting || 'Thank you for your business. Please include the invoice number in your payment reference.',
       preparedBy: preparedBySignatory?.name || 'VANESSA L. DONOSO',
       reviewedBy: reviewedBySignatory?.name || 'RUTH MICHELLE C. BAYRON',
     };
   } catch (error) {
     console.error('Error fetching SOA settings:', error);
-    return getSOASettingsDefaults(companyCode);
+    return getSOASettingsDefaults(companyCode, company);
   }
 }
 
 /**
  * Get default SOA settings (fallback)
+ * The account name falls back to the billing entity's name, or its code when the entity is unknown
  */
-function getSOASettingsDefaults(companyCode: 'YOWI' | 'ABBA'): {
+function getSOASettingsDefaults(companyCode: string, company: { name: string } | null): {
   bankName: string;
   bankAccountName: string;
   bankAccountNo: string;
@@ -171,10 +174,9 @@ function getSOASettingsDefaults(companyCode: 'YOWI' | 'ABBA'): {
   preparedBy: string;
   reviewedBy: string;
 } {
-  const isYowi = companyCode === 'YOWI';
   return {
     bankName: 'BDO',
-    bankAccountName: isYowi ? 'YAHSHUA OUTSOURCING WORLDWIDE INC.' : 'THE ABBA INITIATIVE OPC',
+    bankAccountName: company?.name || companyCode,
     bankAccountNo: '',
     footer: 'Thank you for your business. Please include the invoice number in your payment reference.',
     preparedBy: 'VANESSA L. DONOSO',
@@ -203,6 +205,32 @@ export async function getSchedulerSettings(): Promise<{
   };
 }
 
+/**
+ * Get dunning settings
+ * dayOffsets[n] is the number of days past due before follow-up level n + 1 is sent
+ */
+export async function getDunningSettings(): Promise<{
+  autoSendEnabled: boolean;
+  dayOffsets: number[];
+  businessDaysOnly: boolean;
+}> {
+  const settings = await getSettings([
+    'followUp.autoSendEnabled',
+    'followUp.dayOffsets',
+    'followUp.businessDaysOnly',
+  ]);
+
+  const dayOffsets = Array.isArray(settings['followUp.dayOffsets'])
+    ? settings['followUp.dayOffsets'].map(Number).filter((d: number) => !isNaN(d) && d >= 0)
+    : DEFAULTS['followUp.dayOffsets'];
+
+  return {
+    autoSendEnabled: settings['followUp.autoSendEnabled'] === true,
+    dayOffsets,
+    businessDaysOnly: settings['followUp.businessDaysOnly'] === true,
+  };
+}
+
 /**
  * Get email settings
  */
@@ -242,7 +270,7 @@ let templateCache: Record<string, { template: InvoiceTemplateConfig; timestamp:
 /**
  * Get invoice template for a company
  */
-export async function getInvoiceTemplate(companyCode: 'YOWI' | 'ABBA'): Promise<InvoiceTemplateConfig> {
+export async function getInvoiceTemplate(companyCode: string): Promise<InvoiceTemplateConfig> {
   const now = Date.now();
 
   // Check cache (per-company timestamp)
@@ -278,42 +306,46 @@ export async function getInvoiceTemplate(companyCode: 'YOWI' | 'ABBA'): Promise<
     }
 
     console.log('[Template] No template found in DB, using defaults for:', companyCode);
-    // Return defaults based on company
-    const defaultTemplate: InvoiceTemplateConfig = companyCode === 'YOWI'
-      ? {
-          primaryColor: '#2563eb',
-          secondaryColor: '#1e40af',
-          footerBgColor: '#dbeafe',
-          logoPath: '/assets/yowi-logo.png',
-          invoiceTitle: 'Invoice',
-          footerText: 'Powered by: YAHSHUA',
-          showDisclaimer: true,
-        }
-      : {
-          primaryColor: '#059669',
-          secondaryColor: '#047857',
-          footerBgColor: '#d1fae5',
-          logoPath: '/assets/abba-logo.png',
-          invoiceTitle: 'Invoice',
-          footerText: 'Powered by: THE ABBA INITIATIVE',
-          showDisclaimer: true,
-        };
-
-    return defaultTemplate;
+    return getDefaultInvoiceTemplate(company);
   } catch (error) {
     console.error('Error fetching invoice template:', error);
-    // Return YOWI defaults on error
-    return {
-      primaryColor: '#2563eb',
-      secondaryColor: '#1e40af',
-      footerBgColor: '#dbeafe',
-      invoiceTitle: 'Invoice',
-      footerText: 'Powered by: YAHSHUA',
-      showDisclaimer: true,
-    };
+    return getDefaultInvoiceTemplate(null);
   }
 }
 
+// Templates the original billing entities rendered with before templates were stored per company
+const BUILT_IN_TEMPLATE_DEFAULTS: Record<string, Partial<InvoiceTemplateConfig>> = {
+  YOWI: {
+    logoPath: '/assets/yowi-logo.png',
+    footerText: 'Powered by: YAHSHUA',
+  },
+  ABBA: {
+    primaryColor: '#059669',
+    secondaryColor: '#047857',
+    footerBgColor: '#d1fae5',
+    logoPath: '/assets/abba-logo.png',
+    footerText: 'Powered by: THE ABBA INITIATIVE',
+  },
+};
+
+/**
+ * Default invoice template for a billing entity that has not customised one yet
+ */
+export function getDefaultInvoiceTemplate(
+  company: { code: string; name: string; logoPath: string | null } | null
+): InvoiceTemplateConfig {
+  return {
+    primaryColor: '#2563eb',
+    secondaryColor: '#1e40af',
+    footerBgColor: '#dbeafe',
+    invoiceTitle: 'Invoice',
+    footerText: company ? `Powered by: ${company.name}` : 'Powered by: YAHSHUA',
+    showDisclaimer: true,
+    ...(company && BUILT_IN_TEMPLATE_DEFAULTS[company.code]),
+    ...(company?.logoPath && { logoPath: company.logoPath }),
+  };
+}
+
 /**
  * Clear template cache (call after updating templates)
  */
@@ -0,0 +1,430 @@
+// Statement service - customer statement of account across multiple invoices
+import prisma from './prisma';
+import { EmailStatus, InvoiceStatus } from '@/generated/prisma';
+import {
+  initEmailServiceFromEnv,
+  getStatementTemplate,
+  replacePlaceholders,
+  generateEmailHtmlFromTemplate,
+  sendBillingEmail,
+  EmailPlaceholderData,
+} from './email-service';
+import { generateStatementPdfLib } from './pdf-generator';
+import { getSOASettings, getInvoiceTemplate } from './settings';
+import { formatCurrency, formatDate } from './utils';
+
+// Invoices that have been issued to the customer and therefore appear on a statement
+export const STATEMENT_STATUSES: InvoiceStatus[] = [
+  InvoiceStatus.SENT,
+  InvoiceStatus.PARTIALLY_PAID,
+  InvoiceStatus.PAID,
+];
+
+export type StatementEntryType = 'INVOICE' | 'PAYMENT' | 'CREDIT_NOTE';
+
+// Ledger rows by payment type; refunds and chargebacks are negative payments that reopen the balance
+const PAYMENT_TYPE_LABELS: Record<string, string> = {
+  PAYMENT: 'Payment',
+  REFUND: 'Refund',
+  CHARGEBACK: 'Chargeback',
+};
+
+export interface StatementEntry {
+  date: Date;
+  type: StatementEntryType;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface StatementOpenInvoice {
+  id: string;
+  billingNo: string | null;
+  statementDate: Date;
+  dueDate: Date;
+  netAmount: number;
+  balance: number;
+  daysOverdue: number;
+}
+
+export interface CustomerStatement {
+  customerName: string;
+  attention: string | null;
+  customerAddress: string | null;
+  customerTin: string | null;
+  customerEmails: string | null;
+  company: {
+    id: string;
+    code: string;
+    name: string;
+    address: string | null;
+    tin: string | null;
+    contactNumber: string | null;
+    logoPath: string | null;
+  };
+  latestInvoiceId: string | null;
+  from: Date;
+  to: Date;
+  openingBalance: number;
+  totalInvoiced: number;
+  totalPaid: number;
+  totalCredited: number;
+  closingBalance: number;
+  entries: StatementEntry[];
+  openInvoices: StatementOpenInvoice[];
+}
+
+export interface CustomerStatementParams {
+  customerName: string;
+  billingEntity: string;
+  from: Date;
+  to: Date;
+}
+
+export interface SendStatementResult {
+  success: boolean;
+  queued?: boolean; // Delivery failed transiently; the email queue will retry it
+  message: string;
+  error?: string;
+}
+
+/**
+ * Validate statement request parameters. The period defaults to the start of the year through today.
+ */
+export function parseStatementParams(input: {
+  customerName?: string | null;
+  billingEntity?: string | null;
+  from?: string | null;
+  to?: string | null;
+}): CustomerStatementParams | { error: string } {
+  if (!input.customerName || !input.billingEntity) {
+    return { error: 'customerName and billingEntity are required' };
+  }
+
+  const to = input.to ? new Date(input.to) : new Date();
+  const from = input.from ? new Date(input.from) : new Date(to.getFullYear(), 0, 1);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return { error: 'Invalid from or to date' };
+  }
+  if (from > to) {
+    return { error: 'Statement start date must be before the end date' };
+  }
+
+  return { customerName: input.customerName, billingEntity: input.billingEntity, from, to };
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Build a statement of account for one customer of a billing entity.
+ * Activity before `from` is rolled into the opening balance; invoices, payments and
+ * credit notes inside the range are listed with a running balance.
+ */
+export async function getCustomerStatement(params: CustomerStatementParams): Promise<CustomerStatement> {
+  const from = startOfDay(params.from);
+  const to = endOfDay(params.to);
+
+  if (from > to) {
+    throw new Error('Statement start date must be before the end date');
+  }
+
+  const company = await prisma.company.findUnique({
+    where: { code: params.billingEntity },
+    select: { id: true, code: true, name: true, address: true, tin: true, contactNumber: true, logoPath: true },
+  });
+
+  if (!company) {
+    throw new Error('Billing entity not found');
+  }
+
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      companyId: company.id,
+      customerName: { equals: params.customerName, mode: 'insensitive' },
+      status: { in: STATEMENT_STATUSES },
+      statementDate: { lte: to },
+    },
+    select: {
+      id: true,
+      billingNo: true,
+      customerName: true,
+      attention: true,
+      customerAddress: true,
+      customerTin: true,
+      customerEmail: true,
+      customerEmails: true,
+      statementDate: true,
+      dueDate: true,
+      periodDescription: true,
+      status: true,
+      netAmount: true,
+      paidAt: true,
+      paidAmount: true,
+      payments: {
+        where: { reversedAt: null },
+        select: { amount: true, paidAt: true, paymentMethod: true, reference: true, type: true },
+      },
+      creditNotes: {
+        where: { status: 'ISSUED' },
+        select: { creditNoteNo: true, amount: true, issuedAt: true, reason: true },
+      },
+    },
+    orderBy: { statementDate: 'asc' },
+  });
+
+  // Flatten every invoice, payment and credit note into dated ledger movements
+  const movements: (Omit<StatementEntry, 'balance'> & { invoiceId: string })[] = [];
+  for (const invoice of invoices) {
+    const reference = invoice.billingNo || invoice.id.slice(0, 8);
+    movements.push({
+      invoiceId: invoice.id,
+      date: invoice.statementDate,
+      type: 'INVOICE',
+      reference,
+      description: invoice.periodDescription ? `Invoice - ${invoice.periodDescription}` : 'Invoice',
+      debit: Number(invoice.netAmount),
+      credit: 0,
+    });
+
+    for (const payment of invoice.payments) {
+      movements.push({
+        invoiceId: invoice.id,
+        date: payment.paidAt,
+        type: 'PAYMENT',
+        reference,
+        description: `${PAYMENT_TYPE_LABELS[payment.type] || 'Payment'}${payment.reference ? ` - ${payment.reference}` : ''} (${payment.paymentMethod.replace('_', ' ').toLowerCase()})`,
+        debit: 0,
+        credit: Number(payment.amount),
+      });
+    }
+
+    // Invoices marked paid before the payment ledger existed have no payment rows
+    if (invoice.payments.length === 0 && invoice.status === InvoiceStatus.PAID && invoice.paidAt) {
+      movements.push({
+        invoiceId: invoice.id,
+        date: invoice.paidAt,
+        type: 'PAYMENT',
+        reference,
+        description: 'Payment',
+        debit: 0,
+        credit: Number(invoice.paidAmount ?? invoice.netAmount),
+      });
+    }
+
+    for (const creditNote of invoice.creditNotes) {
+      movements.push({
+        invoiceId: invoice.id,
+        date: creditNote.issuedAt,
+        type: 'CREDIT_NOTE',
+        reference: creditNote.creditNoteNo,
+        description: `Credit note on ${reference} - ${creditNote.reason}`,
+        debit: 0,
+        credit: Number(creditNote.amount),
+      });
+    }
+  }
+
+  // Same-day invoices are listed before the payments against them
+  movements.sort((a, b) =>
+    a.date.getTime() - b.date.getTime() || Number(a.type !== 'INVOICE') - Number(b.type !== 'INVOICE')
+  );
+
+  let openingBalance = 0;
+  let balance = 0;
+  let totalInvoiced = 0;
+  let totalPaid = 0;
+  let totalCredited = 0;
+  const entries: StatementEntry[] = [];
+  const settledByInvoice = new Map<string, number>();
+
+  for (const { invoiceId, ...movement } of movements) {
+    if (movement.date > to) continue;
+
+    settledByInvoice.set(invoiceId, (settledByInvoice.get(invoiceId) || 0) + movement.credit);
+
+    balance = roundCurrency(balance + movement.debit - movement.credit);
+    if (movement.date < from) {
+      openingBalance = balance;
+      continue;
+    }
+
+    totalInvoiced += movement.debit;
+    if (movement.type === 'PAYMENT') totalPaid += movement.credit;
+    if (movement.type === 'CREDIT_NOTE') totalCredited += movement.credit;
+    entries.push({ ...movement, balance });
+  }
+
+  // Open invoices as of the statement end date
+  const openInvoices: StatementOpenInvoice[] = [];
+  for (const invoice of invoices) {
+    const invoiceBalance = roundCurrency(Number(invoice.netAmount) - (settledByInvoice.get(invoice.id) || 0));
+    if (invoiceBalance <= 0.005) continue;
+
+    const daysOverdue = Math.max(
+      0,
+      Math.floor((startOfDay(to).getTime() - startOfDay(invoice.dueDate).getTime()) / (1000 * 60 * 60 * 24))
+    );
+    openInvoices.push({
+      id: invoice.id,
+      billingNo: invoice.billingNo,
+      statementDate: invoice.statementDate,
+      dueDate: invoice.dueDate,
+      netAmount: Number(invoice.netAmount),
+      balance: invoiceBalance,
+      daysOverdue,
+    });
+  }
+
+  // Customer details come from the most recent invoice
+  const latest = invoices[invoices.length - 1];
+
+  return {
+    customerName: latest?.customerName || params.customerName,
+    attention: latest?.attention || null,
+    customerAddress: latest?.customerAddress || null,
+    customerTin: latest?.customerTin || null,
+    customerEmails: latest ? latest.customerEmails || latest.customerEmail : null,
+    company,
+    latestInvoiceId: latest?.id || null,
+    from,
+    to,
+    openingBalance,
+    totalInvoiced: roundCurrency(totalInvoiced),
+    totalPaid: roundCurrency(totalPaid),
+    totalCredited: roundCurrency(totalCredited),
+    closingBalance: balance,
+    entries,
+    openInvoices,
+  };
+}
+
+/**
+ * Render a statement of account PDF with the billing entity's template and signatories
+ */
+export async function generateCustomerStatementPdf(statement: CustomerStatement): Promise<Uint8Array> {
+  const [soaSettings, template] = await Promise.all([
+    getSOASettings(statement.company.code),
+    getInvoiceTemplate(statement.company.code),
+  ]);
+
+  return generateStatementPdfLib(statement, soaSettings, template);
+}
+
+export function getStatementFilename(statement: CustomerStatement): string {
+  const customer = statement.customerName.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+  const toDate = statement.to.toISOString().split('T')[0];
+  return `SOA_${customer}_${toDate}.pdf`;
+}
+
+/**
+ * Email a statement of account to the customer using the STATEMENT email template
+ */
+export async function sendCustomerStatement(
+  params: CustomerStatementParams,
+  options: { toEmails?: string | null; userId?: string | null } = {}
+): Promise<SendStatementResult> {
+  initEmailServiceFromEnv();
+
+  const statement = await getCustomerStatement(params);
+
+  // The email log is attached to the most recent invoice on the statement
+  if (!statement.latestInvoiceId) {
+    return { success: false, message: 'No invoices found for this customer' };
+  }
+
+  const toEmails = options.toEmails || statement.customerEmails;
+  if (!toEmails) {
+    return { success: false, message: 'No email address for this customer' };
+  }
+
+  const template = await getStatementTemplate();
+  if (!template) {
+    return {
+      success: false,
+      message: 'No statement email template configured. Please set one up in Settings.',
+    };
+  }
+
+  const earliestDue = statement.openInvoices[0]?.dueDate;
+  const placeholderData: EmailPlaceholderData = {
+    customerName: statement.customerName,
+    billingNo: statement.openInvoices.map((inv) => inv.billingNo).filter(Boolean).join(', '),
+    dueDate: earliestDue ? formatDate(earliestDue) : '',
+    totalAmount: formatCurrency(statement.closingBalance),
+    periodStart: formatDate(statement.from),
+    periodEnd: formatDate(statement.to),
+    companyName: statement.company.name,
+    clientCompanyName: statement.customerName,
+  };
+
+  const subject = replacePlaceholders(template.subject, placeholderData);
+  const greeting = replacePlaceholders(template.greeting, placeholderData);
+  const body = replacePlaceholders(template.body, placeholderData);
+  const closing = replacePlaceholders(template.closing, placeholderData);
+  const plainTextBody = `${greeting}\n\n${body}\n\n${closing}`;
+  const htmlBody = generateEmailHtmlFromTemplate(template, placeholderData);
+
+  try {
+    const pdfBuffer = Buffer.from(await generateCustomerStatementPdf(statement));
+    const result = await sendBillingEmail(
+      statement.latestInvoiceId,
+      toEmails,
+      subject,
+      plainTextBody,
+      htmlBody,
+      pdfBuffer,
+      getStatementFilename(statement)
+    );
+
+    if (!result.success) {
+      return {
+        success: false,
+        message: `Failed to send statement: ${result.error}`,
+        error: result.error,
+      };
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: options.userId || null,
+        action: 'STATEMENT_SENT',
+        entityType: 'Company',
+        entityId: statement.company.id,
+        details: {
+          customerName: statement.customerName,
+          from: statement.from.toISOString(),
+          to: statement.to.toISOString(),
+          closingBalance: statement.closingBalance,
+          sentTo: toEmails,
+          emailStatus: result.queued ? EmailStatus.QUEUED : EmailStatus.SENT,
+        },
+      },
+    });
+
+    if (result.queued) {
+      return { success: true, queued: true, message: `Statement queued for delivery to ${toEmails}` };
+    }
+
+    return { success: true, message: `Statement sent to ${toEmails}` };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Statement] Failed to send statement:', errorMessage);
+    return { success: false, message: 'Failed to send statement', error: errorMessage };
+  }
+}
@@ -0,0 +1,329 @@
+// Usage billing service - monthly usage per contract and usage x rate amounts for scheduled billings
+import prisma from './prisma';
+import { Prisma } from '@/generated/prisma';
+import { format } from 'date-fns';
+import { UsageCSVRow } from './csv-parser';
+
+export const DEFAULT_USAGE_METRIC = 'HEADCOUNT';
+export const DEFAULT_USAGE_UNIT = 'employees';
+
+type Amount = number | Prisma.Decimal;
+
+export interface UsageTier {
+  upTo: number | null; // Last unit billed at this rate; null = no upper limit
+  rate: number;
+}
+
+export interface UsagePricing {
+  rate: number;
+  tiers: UsageTier[] | null;
+  minimumFee: number | null;
+}
+
+export interface UsageEntry {
+  month: Date;
+  quantity: number;
+  unit: string;
+}
+
+export interface UsageChargeLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface UsageCharge {
+  quantity: number;
+  amount: number;
+  lines: UsageChargeLine[];
+  minimumApplied: boolean;
+}
+
+export interface UsageScheduleInput {
+  usageMetric: string | null;
+  usageRate: Amount | null;
+  usageTiers: Prisma.JsonValue | null;
+  usageMinimumFee: Amount | null;
+  contract: { ratePerEmployee: Amount | null };
+}
+
+export interface UpsertUsageInput {
+  contractId: string;
+  month: Date;
+  metric?: string;
+  unit?: string;
+  quantity: number;
+  notes?: string | null;
+  createdById?: string | null;
+}
+
+export interface UsageImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: { row: number; message: string }[];
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export function startOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/**
+ * Validate graduated usage tiers: ascending upper limits with only the last tier open-ended
+ */
+export function validateUsageTiers(tiers: unknown): string | null {
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    return 'usageTiers must be a non-empty list of { upTo, rate }';
+  }
+
+  let previousUpTo = 0;
+  for (let i = 0; i < tiers.length; i++) {
+    const tier = tiers[i] as Partial<UsageTier>;
+    if (typeof tier?.rate !== 'number' || tier.rate < 0) {
+      return `Tier ${i + 1} must have a rate of 0 or more`;
+    }
+    const isLast = i === tiers.length - 1;
+    if (tier.upTo == null) {
+      if (!isLast) return 'Only the last tier can have no upper limit';
+      continue;
+    }
+    if (!Number.isInteger(tier.upTo) || tier.upTo <= previousUpTo) {
+      return `Tier ${i + 1} upTo must be a whole number above ${previousUpTo}`;
+    }
+    previousUpTo = tier.upTo;
+  }
+
+  return null;
+}
+
+/**
+ * Pricing for a USAGE mode schedule. The flat rate falls back to the contract's ratePerEmployee.
+ */
+export function getScheduleUsagePricing(schedule: UsageScheduleInput): UsagePricing {
+  const tiers = Array.isArray(schedule.usageTiers) ? (schedule.usageTiers as unknown as UsageTier[]) : null;
+
+  return {
+    rate: Number(schedule.usageRate ?? schedule.contract.ratePerEmployee ?? 0),
+    tiers: tiers && tiers.length > 0 ? tiers : null,
+    minimumFee: schedule.usageMinimumFee != null ? Number(schedule.usageMinimumFee) : null,
+  };
+}
+
+/**
+ * Amount for the usage recorded in a billing period, with one line per usage month
+ * (one per tier band when tiered) and a top-up line when the minimum fee applies.
+ */
+export function calculateUsageCharge(entries: UsageEntry[], pricing: UsagePricing, label: string): UsageCharge {
+  const lines: UsageChargeLine[] = [];
+  const multiMonth = entries.length > 1;
+
+  for (const entry of [...entries].sort((a, b) => a.month.getTime() - b.month.getTime())) {
+    const prefix = multiMonth ? `${label} - ${format(entry.month, 'MMM yyyy')}` : label;
+
+    if (!pricing.tiers) {
+      lines.push({
+        description: `${prefix}: ${entry.quantity} ${entry.unit} x ${formatAmount(pricing.rate)}`,
+        quantity: entry.quantity,
+        unitPrice: pricing.rate,
+        amount: roundCurrency(entry.quantity * pricing.rate),
+      });
+      continue;
+    }
+
+    // Graduated tiers: each band's units are billed at that band's rate
+    let lowerBound = 0;
+    for (const tier of pricing.tiers) {
+      if (entry.quantity <= lowerBound) break;
+      const upper = tier.upTo == null ? entry.quantity : Math.min(tier.upTo, entry.quantity);
+      const units = upper - lowerBound;
+      lines.push({
+        description: `${prefix}: ${entry.unit} ${lowerBound + 1}-${upper} (${units} x ${formatAmount(tier.rate)})`,
+        quantity: units,
+        unitPrice: tier.rate,
+        amount: roundCurrency(units * tier.rate),
+      });
+      lowerBound = upper;
+    }
+  }
+
+  const usageAmount = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+  const minimumApplied = pricing.minimumFee != null && usageAmount < pricing.minimumFee;
+
+  if (minimumApplied) {
+    const topUp = roundCurrency(pricing.minimumFee! - usageAmount);
+    lines.push({
+      description: `${label}: Minimum fee adjustment (minimum ${formatAmount(pricing.minimumFee!)})`,
+      quantity: 1,
+      unitPrice: topUp,
+      amount: topUp,
+    });
+  }
+
+  return {
+    quantity: entries.reduce((sum, entry) => sum + entry.quantity, 0),
+    amount: minimumApplied ? pricing.minimumFee! : usageAmount,
+    lines,
+    minimumApplied,
+  };
+}
+
+/**
+ * Usage recorded for the months a billing period covers
+ */
+export async function getUsageForPeriod(
+  contractId: string,
+  metric: string,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<UsageEntry[]> {
+  const usage = await prisma.contractUsage.findMany({
+    where: {
+      contractId,
+      metric,
+      month: { gte: startOfMonth(periodStart), lte: periodEnd },
+    },
+    orderBy: { month: 'asc' },
+  });
+
+  return usage.map((entry) => ({ month: entry.month, quantity: entry.quantity, unit: entry.unit }));
+}
+
+/**
+ * Usage charge for a USAGE mode schedule's billing period.
+ * Throws when no usage is recorded for the period so the run fails instead of billing zero.
+ */
+export async function getScheduledBillingUsageCharge(
+  schedule: UsageScheduleInput & { contractId: string },
+  period: { periodStart: Date; periodEnd: Date },
+  label: string
+): Promise<UsageCharge> {
+  const metric = schedule.usageMetric || DEFAULT_USAGE_METRIC;
+  const entries = await getUsageForPeriod(schedule.contractId, metric, period.periodStart, period.periodEnd);
+
+  if (entries.length === 0) {
+    throw new Error(`No ${metric} usage recorded for ${format(period.periodStart, 'MMM yyyy')}`);
+  }
+
+  return calculateUsageCharge(entries, getScheduleUsagePricing(schedule), label);
+}
+
+// ==================== CRUD OPERATIONS ====================
+
+export async function listUsage(filters: { month?: Date; contractId?: string }) {
+  return prisma.contractUsage.findMany({
+    where: {
+      ...(filters.month && { month: startOfMonth(filters.month) }),
+      ...(filters.contractId && { contractId: filters.contractId }),
+    },
+    include: {
+      contract: { select: { id: true, companyName: true, customerNumber: true, ratePerEmployee: true } },
+    },
+    orderBy: [{ month: 'desc' }, { contract: { companyName: 'asc' } }],
+  });
+}
+
+/**
+ * Record usage for a contract month, replacing any existing entry for the same metric
+ */
+export async function upsertUsage(data: UpsertUsageInput) {
+  const month = startOfMonth(data.month);
+  const metric = data.metric || DEFAULT_USAGE_METRIC;
+
+  return prisma.contractUsage.upsert({
+    where: { contractId_month_metric: { contractId: data.contractId, month, metric } },
+    create: {
+      contractId: data.contractId,
+      month,
+      metric,
+      unit: data.unit || DEFAULT_USAGE_UNIT,
+      quantity: data.quantity,
+      notes: data.notes || null,
+      createdById: data.createdById || null,
+    },
+    update: {
+      quantity: data.quantity,
+      ...(data.unit && { unit: data.unit }),
+      notes: data.notes || null,
+    },
+  });
+}
+
+export async function deleteUsage(id: string) {
+  return prisma.contractUsage.delete({
+    where: { id },
+  });
+}
+
+/**
+ * Import parsed usage CSV rows. Contracts are matched by customer number, then by company name
+ * when it is unique. Existing entries for the same contract, month and metric are replaced.
+ */
+export async function importUsage(rows: UsageCSVRow[], createdById?: string): Promise<UsageImportResult> {
+  const result: UsageImportResult = { created: 0, updated: 0, skipped: 0, errors: [] };
+
+  const contracts = await prisma.contract.findMany({
+    select: { id: true, companyName: true, customerNumber: true },
+  });
+
+  const byCustomerNumber = new Map<string, string>();
+  const byName = new Map<string, string[]>();
+  for (const contract of contracts) {
+    if (contract.customerNumber) byCustomerNumber.set(contract.customerNumber.toLowerCase(), contract.id);
+    const key = contract.companyName.toLowerCase();
+    byName.set(key, [...(byName.get(key) || []), contract.id]);
+  }
+
+  const existing = await prisma.contractUsage.findMany({
+    where: { month: { in: [...new Set(rows.map((row) => row.month.getTime()))].map((time) => new Date(time)) } },
+    select: { contractId: true, month: true, metric: true },
+  });
+  const existingKeys = new Set(existing.map((entry) => `${entry.contractId}::${entry.month.getTime()}::${entry.metric}`));
+
+  for (const row of rows) {
+    let contractId = row.customerNumber ? byCustomerNumber.get(row.customerNumber.toLowerCase()) : undefined;
+    if (!contractId && row.companyName) {
+      const matches = byName.get(row.companyName.toLowerCase()) || [];
+      if (matches.length > 1) {
+        result.skipped++;
+        result.errors.push({ row: row.row, message: `Multiple contracts named "${row.companyName}" - use customerNumber` });
+        continue;
+      }
+      contractId = matches[0];
+    }
+
+    if (!contractId) {
+      result.skipped++;
+      result.errors.push({ row: row.row, message: `Contract not found: ${row.customerNumber || row.companyName}` });
+      continue;
+    }
+
+    const key = `${contractId}::${row.month.getTime()}::${row.metric}`;
+    await upsertUsage({
+      contractId,
+      month: row.month,
+      metric: row.metric,
+      unit: row.unit,
+      quantity: row.quantity,
+      notes: row.notes,
+      createdById,
+    });
+
+    if (existingKeys.has(key)) {
+      result.updated++;
+    } else {
+      existingKeys.add(key);
+      result.created++;
+    }
+  }
+
+  return result;
+}
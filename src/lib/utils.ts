@@ -133,11 +133,17 @@ export function calculateBilling(
   };
 }
 
-// Determine billing entity based on partner
-export function getBillingEntity(partner: string | null | undefined): 'YOWI' | 'ABBA' {
-  const yowiPartners = ['Globe', 'Innove', 'RCBC', 'Direct-YOWI'];
-  if (!partner) return 'ABBA';
-  return yowiPartners.some(p => partner.toLowerCase().includes(p.toLowerCase())) ? 'YOWI' : 'ABBA';
+// Determine billing entity code from the company the matching partner is assigned to
+export function getBillingEntity(
+  partner: string | null | undefined,
+  partners: { code: string; name: string; company: { code: string } }[]
+): string | null {
+  if (!partner) return null;
+  const search = partner.toLowerCase();
+  const match =
+    partners.find(p => p.code.toLowerCase() === search || p.name.toLowerCase() === search) ||
+    partners.find(p => search.includes(p.code.toLowerCase()) || search.includes(p.name.toLowerCase()));
+  return match?.company.code ?? null;
 }
 
 // Period description for emails
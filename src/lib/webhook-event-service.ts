@@ -0,0 +1,177 @@
+// Webhook event service - stores every payment webhook as delivered and replays stored events
+import prisma from './prisma';
+import { Prisma, WebhookEventStatus } from '@/generated/prisma';
+import {
+  PaymentGateway,
+  PaymentWebhookOutcome,
+  PaymentWebhookResult,
+  getPaymentGateway,
+  processPaymentWebhook,
+} from './payment-gateway';
+
+// Request headers that are never stored
+const REDACTED_HEADERS = ['authorization', 'cookie'];
+
+const OUTCOME_STATUS: Record<PaymentWebhookOutcome, WebhookEventStatus> = {
+  PROCESSED: WebhookEventStatus.PROCESSED,
+  FAILED: WebhookEventStatus.PROCESSED,
+  REFUNDED: WebhookEventStatus.PROCESSED,
+  CHARGED_BACK: WebhookEventStatus.PROCESSED,
+  STALE_LINK_PAID: WebhookEventStatus.PROCESSED,
+  REJECTED: WebhookEventStatus.REJECTED,
+  IGNORED: WebhookEventStatus.SKIPPED,
+  NOT_FOUND: WebhookEventStatus.SKIPPED,
+  ALREADY_PROCESSED: WebhookEventStatus.SKIPPED,
+  ALREADY_PAID: WebhookEventStatus.SKIPPED,
+};
+
+function toStoredHeaders(headers: Headers): Record<string, string> {
+  const stored: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    if (!REDACTED_HEADERS.includes(key.toLowerCase())) {
+      stored[key] = value;
+    }
+  });
+  return stored;
+}
+
+/**
+ * Process a stored event and record the outcome on it. Processing errors are recorded and rethrown.
+ */
+async function applyWebhookEvent(
+  eventId: string,
+  gateway: PaymentGateway,
+  rawBody: string,
+  headers: Headers,
+  isReplay: boolean
+): Promise<PaymentWebhookResult> {
+  const replay = isReplay ? { replayCount: { increment: 1 } } : {};
+
+  try {
+    const result = await processPaymentWebhook(gateway, rawBody, headers);
+
+    await prisma.webhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status: OUTCOME_STATUS[result.outcome],
+        outcome: result.outcome,
+        signatureValid: result.signatureValid,
+        providerRequestId: result.providerRequestId,
+        paymentReference: result.paymentReference,
+        error: null,
+        processedAt: new Date(),
+        ...replay,
+      },
+    });
+
+    return result;
+  } catch (error) {
+    await prisma.webhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status: WebhookEventStatus.FAILED,
+        error: error instanceof Error ? error.message : String(error),
+        processedAt: new Date(),
+        ...replay,
+      },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Store a webhook as received, then process it
+ */
+export async function receivePaymentWebhook(
+  gateway: PaymentGateway,
+  rawBody: string,
+  headers: Headers
+): Promise<PaymentWebhookResult> {
+  const event = await prisma.webhookEvent.create({
+    data: {
+      provider: gateway.name,
+      headers: toStoredHeaders(headers),
+      rawBody,
+    },
+  });
+
+  return applyWebhookEvent(event.id, gateway, rawBody, headers, false);
+}
+
+/**
+ * Process a stored webhook again with its original body and headers,
+ * e.g. after correcting a company's webhook secret. Idempotency still applies.
+ */
+export async function replayWebhookEvent(id: string, userId: string) {
+  const event = await prisma.webhookEvent.findUnique({ where: { id } });
+  if (!event) {
+    throw new Error('Webhook event not found');
+  }
+
+  const gateway = getPaymentGateway(event.provider);
+  const headers = new Headers(event.headers as Record<string, string>);
+
+  let result: PaymentWebhookResult | null = null;
+  let error: string | null = null;
+  try {
+    result = await applyWebhookEvent(event.id, gateway, event.rawBody, headers, true);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action: 'WEBHOOK_EVENT_REPLAYED',
+      entityType: 'WebhookEvent',
+      entityId: event.id,
+      details: {
+        provider: event.provider,
+        providerRequestId: event.providerRequestId,
+        previousStatus: event.status,
+        outcome: result?.outcome ?? null,
+        error,
+      },
+    },
+  });
+
+  return prisma.webhookEvent.findUniqueOrThrow({ where: { id } });
+}
+
+export interface WebhookEventFilters {
+  status?: WebhookEventStatus;
+  provider?: string;
+  search?: string; // Provider request or payment ID
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Stored webhook events, newest first
+ */
+export async function listWebhookEvents(filters: WebhookEventFilters = {}) {
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(50, Math.max(1, filters.limit || 20));
+
+  const where: Prisma.WebhookEventWhereInput = {};
+  if (filters.status) where.status = filters.status;
+  if (filters.provider) where.provider = filters.provider;
+  if (filters.search) {
+    where.OR = [
+      { providerRequestId: { contains: filters.search, mode: 'insensitive' } },
+      { paymentReference: { contains: filters.search, mode: 'insensitive' } },
+    ];
+  }
+
+  const [total, events] = await Promise.all([
+    prisma.webhookEvent.count({ where }),
+    prisma.webhookEvent.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+  ]);
+
+  return { events, total, page, limit, totalPages: Math.ceil(total / limit) };
+}
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the AR aging service
+ */
+
+import { prismaMock } from './mocks/prisma';
+import {
+  getAgingBucket,
+  getDaysPastDue,
+  getArAging,
+  generateArAgingCsv,
+  parseArAgingParams,
+} from '@/lib/ar-aging-service';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  notifyInvoicePaid: jest.fn(),
+  notifyPartialPayment: jest.fn(),
+}));
+
+const AS_OF = new Date(2025, 5, 30);
+
+function invoice(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'inv-1',
+    billingNo: 'S0000000001',
+    customerName: 'Acme Corp',
+    productType: 'PAYROLL',
+    statementDate: new Date(2025, 4, 1),
+    dueDate: new Date(2025, 4, 16),
+    status: 'SENT',
+    netAmount: 10800,
+    company: { id: 'company-1', code: 'YOWI' },
+    partner: null,
+    payments: [],
+    creditNotes: [],
+    ...overrides,
+  };
+}
+
+describe('AR Aging Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getAgingBucket', () => {
+    it('maps days past due to the standard buckets', () => {
+      expect(getAgingBucket(0)).toBe('current');
+      expect(getAgingBucket(1)).toBe('days1to30');
+      expect(getAgingBucket(30)).toBe('days1to30');
+      expect(getAgingBucket(31)).toBe('days31to60');
+      expect(getAgingBucket(90)).toBe('days61to90');
+      expect(getAgingBucket(91)).toBe('over90');
+    });
+
+    it('counts whole days from the due date to the as-of date', () => {
+      expect(getDaysPastDue(new Date(2025, 4, 16), AS_OF)).toBe(45);
+      expect(getDaysPastDue(new Date(2025, 6, 15), AS_OF)).toBe(0);
+    });
+  });
+
+  describe('getArAging', () => {
+    it('ages the balance left after payments and credit notes', async () => {
+      prismaMock.invoice.findMany.mockResolvedValue([
+        invoice({
+          status: 'PARTIALLY_PAID',
+          payments: [
+            { amount: 3000, paidAt: new Date(2025, 4, 20), reversedAt: null },
+            { amount: 1000, paidAt: new Date(2025, 4, 21), reversedAt: new Date(2025, 4, 22) },
+          ],
+          creditNotes: [{ amount: 800 }],
+        }),
+        invoice({ id: 'inv-2', dueDate: new Date(2025, 6, 1), netAmount: 5000 }),
+        invoice({ id: 'inv-3', customerName: 'Beta Inc', dueDate: new Date(2025, 1, 1), netAmount: 2000 }),
+      ] as any);
+
+      const report = await getArAging({ asOf: AS_OF });
+
+      expect(report.totals).toEqual({
+        current: 5000,
+        days1to30: 0,
+        days31to60: 7000,
+        days61to90: 0,
+        over90: 2000,
+        total: 14000,
+      });
+      expect(report.groups[0]).toMatchObject({ label: 'Acme Corp', invoiceCount: 2, total: 12000 });
+      expect(report.invoices[0]).toMatchObject({ id: 'inv-1', totalPaid: 3000, totalCredited: 800, balance: 7000, daysOverdue: 45 });
+    });
+
+    it('skips settled invoices and groups by partner', async () => {
+      prismaMock.invoice.findMany.mockResolvedValue([
+        invoice({ payments: [{ amount: 10800, paidAt: new Date(2025, 4, 20), reversedAt: null }] }),
+        invoice({ id: 'inv-2', partner: { id: 'partner-1', name: 'Globe' } }),
+        invoice({ id: 'inv-3' }),
+      ] as any);
+
+      const report = await getArAging({ asOf: AS_OF, groupBy: 'partner' });
+
+      expect(report.invoices).toHaveLength(2);
+      expect(report.groups.map((g) => g.label).sort()).toEqual(['Direct (no partner)', 'Globe']);
+    });
+
+    it('filters by billing entity and statement date', async () => {
+      prismaMock.invoice.findMany.mockResolvedValue([]);
+
+      await getArAging({ asOf: AS_OF, billingEntity: 'ABBA' });
+
+      expect(prismaMock.invoice.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: { in: ['SENT', 'PARTIALLY_PAID'] },
+            company: { code: 'ABBA' },
+            statementDate: { lte: expect.any(Date) },
+          }),
+        })
+      );
+    });
+  });
+
+  describe('generateArAgingCsv', () => {
+    it('writes the summary, a total row and the invoice detail', async () => {
+      prismaMock.invoice.findMany.mockResolvedValue([invoice({ customerName: 'Acme, Inc.' })] as any);
+
+      const csv = generateArAgingCsv(await getArAging({ asOf: AS_OF }));
+      const lines = csv.split('\n');
+
+      expect(lines[0]).toBe('Group,Invoices,Current,1-30,31-60,61-90,90+,Total');
+      expect(lines[1]).toBe('"Acme, Inc.",1,0.00,0.00,10800.00,0.00,0.00,10800.00');
+      expect(lines[2]).toBe('TOTAL,1,0.00,0.00,10800.00,0.00,0.00,10800.00');
+      expect(lines[5]).toContain('S0000000001,"Acme, Inc.",YOWI,,PAYROLL');
+    });
+  });
+
+  describe('parseArAgingParams', () => {
+    it('rejects unknown groupings and invalid dates', () => {
+      expect(parseArAgingParams(new URLSearchParams({ groupBy: 'region' }))).toHaveProperty('error');
+      expect(parseArAgingParams(new URLSearchParams({ asOf: 'not-a-date' }))).toHaveProperty('error');
+      expect(parseArAgingParams(new URLSearchParams({ groupBy: 'company', billingEntity: 'YOWI' }))).toMatchObject({
+        groupBy: 'company',
+        billingEntity: 'YOWI',
+      });
+    });
+  });
+});
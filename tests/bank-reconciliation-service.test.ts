@@ -0,0 +1,418 @@
+/**
+ * Unit tests for bank statement import and invoice matching
+ */
+
+import { prismaMock } from './mocks/prisma';
+import { parseBankStatementCSV } from '@/lib/csv-parser';
+import { recordPaymentInTransaction, notifyPaymentRecorded, reversePayment } from '@/lib/payment-service';
+import {
+  BANK_STATEMENT_PRESETS,
+  MatchableInvoice,
+  confirmBankLine,
+  customerNameSimilarity,
+  getBankColumnMapping,
+  importBankStatement,
+  proposeBankLineMatch,
+  rejectBankLine,
+  scoreInvoiceMatch,
+} from '@/lib/bank-reconciliation-service';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+jest.mock('@/lib/payment-service', () => ({
+  PAYABLE_STATUSES: ['SENT', 'PARTIALLY_PAID'],
+  calculateInvoiceBalance: jest.requireActual('@/lib/payment-service').calculateInvoiceBalance,
+  sumCreditNotes: jest.requireActual('@/lib/payment-service').sumCreditNotes,
+  recordPaymentInTransaction: jest.fn((_tx: unknown, invoiceId: string) =>
+    Promise.resolve({ paymentId: `pay-${invoiceId}`, invoiceId, billingNo: 'S-1', balance: { status: 'PAID', balance: 0 } })
+  ),
+  notifyPaymentRecorded: jest.fn(),
+  reversePayment: jest.requireActual('@/lib/payment-service').reversePayment,
+}));
+
+function invoice(overrides: Partial<MatchableInvoice> = {}): MatchableInvoice {
+  return {
+    id: 'inv-1',
+    billingNo: 'S-2025-00042',
+    customerName: 'Acme Trading Corporation',
+    companyId: 'company-1',
+    dueDate: new Date('2025-01-15'),
+    balance: 10640,
+    withholdingTax: 160,
+    ...overrides,
+  };
+}
+
+describe('Bank Reconciliation Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prismaMock.$transaction.mockImplementation(((fn: (tx: typeof prismaMock) => unknown) =>
+      fn(prismaMock)) as any);
+  });
+
+  describe('parseBankStatementCSV', () => {
+    const bpi = BANK_STATEMENT_PRESETS.BPI.mapping;
+
+    it('reads credits after the bank header block and skips debits', () => {
+      const csv = [
+        'Account Name,YAHSHUA OUTSOURCING',
+        'Account Number,1234-5678-90',
+        '',
+        'Date,Description,Reference Number,Debit Amount,Credit Amount,Running Balance',
+        '01/20/2025,INSTAPAY ACME TRADING S-2025-00042,REF123,,"10,640.00","50,640.00"',
+        '01/21/2025,SERVICE CHARGE,,25.00,,"50,615.00"',
+        '01/22/2025,,REF124,,500.00,"51,115.00"',
+      ].join('\n');
+
+      const result = parseBankStatementCSV(csv, bpi);
+
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0]).toMatchObject({
+        row: 4,
+        description: 'INSTAPAY ACME TRADING S-2025-00042',
+        reference: 'REF123',
+        amount: 10640,
+      });
+      expect(result.data[0].transactionDate.getMonth()).toBe(0);
+      expect(result.data[0].transactionDate.getDate()).toBe(20);
+      expect(result.errors).toEqual([{ row: 6, message: 'Missing description' }]);
+    });
+
+    it('reads day-first dates and signed amounts with a custom mapping', () => {
+      const csv = [
+        'Value Date,Narrative,Amount',
+        '05/02/2025,TRANSFER FROM ACME,1500.50',
+        '06/02/2025,ATM WITHDRAWAL,-2000',
+      ].join('\n');
+
+      const result = parseBankStatementCSV(csv, {
+        date: 'Value Date',
+        description: 'Narrative',
+        amount: 'Amount',
+        dateFormat: 'DMY',
+      });
+
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0].amount).toBe(1500.5);
+      expect(result.data[0].transactionDate.getMonth()).toBe(1);
+      expect(result.data[0].transactionDate.getDate()).toBe(5);
+    });
+
+    it('fails when the mapped header row is missing', () => {
+      const result = parseBankStatementCSV('Foo,Bar\n1,2', bpi);
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0].message).toContain('not found');
+    });
+  });
+
+  describe('getBankColumnMapping', () => {
+    it('returns the preset for a known bank', () => {
+      expect(getBankColumnMapping('METROBANK')).toBe(BANK_STATEMENT_PRESETS.METROBANK.mapping);
+    });
+
+    it('requires a credit or amount column for custom statements', () => {
+      expect(() => getBankColumnMapping('CUSTOM', { date: 'Date', description: 'Details' })).toThrow(
+        'credit or amount column'
+      );
+    });
+  });
+
+  describe('scoreInvoiceMatch', () => {
+    it('scores an exact amount, billing number and customer name', () => {
+      const result = scoreInvoiceMatch(
+        { amount: 10640, description: 'INSTAPAY ACME TRADING S202500042' },
+        invoice()
+      );
+
+      expect(result.score).toBe(100);
+      expect(result.reasons).toEqual([
+        'Amount matches the balance',
+        'Billing number in description',
+        'Customer name 100% similar',
+      ]);
+    });
+
+    it('recognises a payment of the gross amount before withholding', () => {
+      const result = scoreInvoiceMatch({ amount: 10800, description: 'FUND TRANSFER' }, invoice());
+
+      expect(result.score).toBe(40);
+      expect(result.reasons).toEqual(['Amount matches the gross before withholding']);
+      expect(result.amount).toBe(10640);
+    });
+
+    it('ignores company suffixes when comparing names', () => {
+      expect(customerNameSimilarity('Acme Trading Corporation', 'IBFT ACME TRADING CORP')).toBe(1);
+      expect(customerNameSimilarity('Acme Trading Corporation', 'IBFT ACME')).toBe(0.5);
+      expect(customerNameSimilarity('The Company Inc', 'ANY')).toBe(0);
+    });
+  });
+
+  describe('proposeBankLineMatch', () => {
+    it('proposes the invoice due first among equal amount matches', () => {
+      const allocations = proposeBankLineMatch({ amount: 5000, description: 'DEPOSIT' }, [
+        invoice({ id: 'newer', balance: 5000, customerName: 'Beta', dueDate: new Date('2025-02-15') }),
+        invoice({ id: 'older', balance: 5000, customerName: 'Gamma', dueDate: new Date('2025-01-15') }),
+      ]);
+
+      expect(allocations).toHaveLength(1);
+      expect(allocations[0].invoiceId).toBe('older');
+      expect(allocations[0].reasons).toContain('Oldest of 2 equally likely invoices');
+    });
+
+    it('splits a credit across the invoices named in the narrative', () => {
+      const allocations = proposeBankLineMatch(
+        { amount: 15000, description: 'PAYMENT FOR S-2025-00042 AND S-2025-00043' },
+        [
+          invoice({ id: 'inv-1', balance: 10000, withholdingTax: 0 }),
+          invoice({ id: 'inv-2', billingNo: 'S-2025-00043', balance: 5000, withholdingTax: 0 }),
+          invoice({ id: 'inv-3', billingNo: 'S-2025-00044', balance: 15000, withholdingTax: 0 }),
+        ]
+      );
+
+      expect(allocations.map((a) => [a.invoiceId, a.amount])).toEqual([
+        ['inv-1', 10000],
+        ['inv-2', 5000],
+      ]);
+    });
+
+    it('proposes nothing when no invoice scores high enough', () => {
+      const allocations = proposeBankLineMatch(
+        { amount: 1234, description: 'INTEREST CREDIT' },
+        [invoice()]
+      );
+
+      expect(allocations).toEqual([]);
+    });
+  });
+
+  describe('importBankStatement', () => {
+    const rows = [
+      { row: 2, transactionDate: new Date('2025-01-20'), description: 'DEPOSIT', amount: 100 },
+      { row: 3, transactionDate: new Date('2025-01-20'), description: 'DEPOSIT', amount: 100 },
+    ];
+    const input = { fileName: 'jan.csv', format: 'BDO' as const, mapping: BANK_STATEMENT_PRESETS.BDO.mapping, rows };
+
+    beforeEach(() => {
+      prismaMock.bankStatement.create.mockResolvedValue({ id: 'stmt-1' } as any);
+    });
+
+    it('fingerprints identical credits on the same day separately', async () => {
+      prismaMock.bankStatementLine.findMany.mockResolvedValue([]);
+
+      const result = await importBankStatement(input, 'user-1');
+
+      const lines = prismaMock.bankStatement.create.mock.calls[0][0].data.lines!.create as { fingerprint: string }[];
+      expect(lines).toHaveLength(2);
+      expect(lines[0].fingerprint).not.toBe(lines[1].fingerprint);
+      expect(result).toEqual({ statementId: 'stmt-1', imported: 2, duplicates: 0, proposed: 0 });
+    });
+
+    it('skips lines already imported from an overlapping statement', async () => {
+      prismaMock.bankStatementLine.findMany.mockResolvedValue([]);
+      await importBankStatement(input, 'user-1');
+      const [first] = prismaMock.bankStatement.create.mock.calls[0][0].data.lines!.create as { fingerprint: string }[];
+
+      prismaMock.bankStatementLine.findMany.mockResolvedValueOnce([{ fingerprint: first.fingerprint }] as any);
+      const result = await importBankStatement({ ...input, fileName: 'jan-feb.csv' }, 'user-1');
+
+      expect(result).toMatchObject({ imported: 1, duplicates: 1 });
+    });
+  });
+
+  describe('confirmBankLine', () => {
+    const line = {
+      id: 'line-1',
+      status: 'PROPOSED',
+      amount: 15000,
+      description: 'PAYMENT ACME',
+      reference: 'REF123',
+      transactionDate: new Date('2025-01-20'),
+      matches: [{ id: 'match-1', invoiceId: 'inv-1', amount: 15000, status: 'PROPOSED' }],
+    };
+
+    beforeEach(() => {
+      prismaMock.bankLineMatch.create.mockImplementation(((args: { data: { invoiceId: string } }) =>
+        Promise.resolve({ id: `match-${args.data.invoiceId}` })) as any);
+    });
+
+    it('records the proposed match as a bank transfer payment', async () => {
+      prismaMock.bankStatementLine.findUnique.mockResolvedValue(line as any);
+
+      await confirmBankLine('line-1', null, 'user-1');
+
+      expect(recordPaymentInTransaction).toHaveBeenCalledWith(
+        prismaMock,
+        'inv-1',
+        expect.objectContaining({
+          amount: 15000,
+          paymentMethod: 'BANK_TRANSFER',
+          reference: 'REF123',
+          paidAt: line.transactionDate,
+          source: 'BANK_IMPORT',
+          externalId: 'line-1:match-1',
+        }),
+        'user-1'
+      );
+      expect(prismaMock.bankLineMatch.update).toHaveBeenCalledWith({
+        where: { id: 'match-1' },
+        data: { status: 'CONFIRMED', amount: 15000, paymentId: 'pay-inv-1' },
+      });
+      expect(prismaMock.bankStatementLine.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'CONFIRMED', resolvedById: 'user-1' }) })
+      );
+      expect(notifyPaymentRecorded).toHaveBeenCalledTimes(1);
+    });
+
+    it('splits the line across invoices and rejects the unused proposal', async () => {
+      prismaMock.bankStatementLine.findUnique.mockResolvedValue(line as any);
+
+      await confirmBankLine(
+        'line-1',
+        [
+          { invoiceId: 'inv-2', amount: 10000 },
+          { invoiceId: 'inv-3', amount: 5000 },
+        ],
+        'user-1'
+      );
+
+      expect(prismaMock.bankLineMatch.updateMany).toHaveBeenCalledWith({
+        where: { lineId: 'line-1', status: 'PROPOSED', invoiceId: { notIn: ['inv-2', 'inv-3'] } },
+        data: { status: 'REJECTED' },
+      });
+      expect(recordPaymentInTransaction).toHaveBeenCalledTimes(2);
+      expect(prismaMock.bankLineMatch.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ invoiceId: 'inv-3', amount: 5000, reasons: ['Matched manually'] }),
+      });
+      expect(prismaMock.bankLineMatch.update).toHaveBeenCalledWith({
+        where: { id: 'match-inv-3' },
+        data: { status: 'CONFIRMED', amount: 5000, paymentId: 'pay-inv-3' },
+      });
+    });
+
+    it('frees the line when its payment is reversed so it can be confirmed again', async () => {
+      prismaMock.bankStatementLine.findUnique.mockResolvedValueOnce(line as any);
+      await confirmBankLine('line-1', null, 'user-1');
+
+      prismaMock.payment.findUnique.mockResolvedValue({
+        id: 'pay-inv-1',
+        invoiceId: 'inv-1',
+        amount: 15000,
+        paymentMethod: 'BANK_TRANSFER',
+        reversedAt: null,
+        invoice: { id: 'inv-1', billingNo: 'S-1', customerName: 'Acme', status: 'PAID', netAmount: 15000 },
+        bankLineMatch: { id: 'match-1', lineId: 'line-1' },
+      } as any);
+      prismaMock.payment.findMany.mockResolvedValue([]);
+      prismaMock.creditNote.findMany.mockResolvedValue([]);
+      await reversePayment('pay-inv-1', 'Matched to the wrong invoice', 'user-1');
+
+      expect(prismaMock.bankLineMatch.update).toHaveBeenCalledWith({
+        where: { id: 'match-1' },
+        data: { status: 'REVERSED' },
+      });
+      expect(prismaMock.bankStatementLine.update).toHaveBeenCalledWith({
+        where: { id: 'line-1' },
+        data: { status: 'UNMATCHED', unappliedAmount: 0, resolvedById: null, resolvedAt: null },
+      });
+
+      // The reversed match isn't loaded again, so re-confirming creates a new match and payment
+      prismaMock.bankStatementLine.findUnique.mockResolvedValueOnce({ ...line, status: 'UNMATCHED', matches: [] } as any);
+      await confirmBankLine('line-1', [{ invoiceId: 'inv-1', amount: 15000 }], 'user-1');
+
+      expect(recordPaymentInTransaction).toHaveBeenLastCalledWith(
+        prismaMock,
+        'inv-1',
+        expect.objectContaining({ externalId: 'line-1:match-inv-1' }),
+        'user-1'
+      );
+    });
+
+    it('applies only what is left of a partly reversed split', async () => {
+      prismaMock.bankStatementLine.findUnique.mockResolvedValue({
+        ...line,
+        status: 'UNMATCHED',
+        matches: [{ id: 'match-2', invoiceId: 'inv-2', amount: 10000, status: 'CONFIRMED' }],
+      } as any);
+
+      await expect(
+        confirmBankLine('line-1', [{ invoiceId: 'inv-3', amount: 10000 }], 'user-1')
+      ).rejects.toThrow('exceed the bank line amount of 5000.00');
+    });
+
+    it('keeps what a gross payment leaves over on the line', async () => {
+      prismaMock.bankStatementLine.findUnique.mockResolvedValue({
+        ...line,
+        amount: 10800,
+        matches: [{ id: 'match-1', invoiceId: 'inv-1', amount: 10640, status: 'PROPOSED' }],
+      } as any);
+
+      const result = await confirmBankLine('line-1', null, 'user-1');
+
+      expect(result.unapplied).toBe(160);
+      expect(prismaMock.bankStatementLine.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'CONFIRMED', unappliedAmount: 160 }) })
+      );
+    });
+
+    it('rejects allocations larger than the bank line', async () => {
+      prismaMock.bankStatementLine.findUnique.mockResolvedValue(line as any);
+
+      await expect(
+        confirmBankLine('line-1', [{ invoiceId: 'inv-1', amount: 15000.5 }], 'user-1')
+      ).rejects.toThrow('exceed the bank line amount');
+      expect(recordPaymentInTransaction).not.toHaveBeenCalled();
+    });
+
+    it('refuses to confirm a line twice', async () => {
+      prismaMock.bankStatementLine.findUnique.mockResolvedValue({ ...line, status: 'CONFIRMED' } as any);
+
+      await expect(confirmBankLine('line-1', null, 'user-1')).rejects.toThrow('already been confirmed');
+    });
+  });
+
+  describe('rejectBankLine', () => {
+    it('rejects the proposals and returns the line to unmatched', async () => {
+      prismaMock.bankStatementLine.findUnique.mockResolvedValue({
+        id: 'line-1',
+        status: 'PROPOSED',
+        amount: 100,
+        description: 'DEPOSIT',
+      } as any);
+
+      await rejectBankLine('line-1', {}, 'user-1');
+
+      expect(prismaMock.bankLineMatch.updateMany).toHaveBeenCalledWith({
+        where: { lineId: 'line-1', status: 'PROPOSED' },
+        data: { status: 'REJECTED' },
+      });
+      expect(prismaMock.bankStatementLine.update).toHaveBeenCalledWith({
+        where: { id: 'line-1' },
+        data: { status: 'UNMATCHED', resolvedById: null, resolvedAt: null },
+      });
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ action: 'BANK_LINE_REJECTED' }) })
+      );
+    });
+
+    it('ignores a line that is not a customer payment', async () => {
+      prismaMock.bankStatementLine.findUnique.mockResolvedValue({
+        id: 'line-1',
+        status: 'UNMATCHED',
+        amount: 12.5,
+        description: 'INTEREST CREDIT',
+      } as any);
+
+      await rejectBankLine('line-1', { ignore: true }, 'user-1');
+
+      expect(prismaMock.bankStatementLine.update).toHaveBeenCalledWith({
+        where: { id: 'line-1' },
+        data: expect.objectContaining({ status: 'IGNORED', resolvedById: 'user-1' }),
+      });
+    });
+  });
+});
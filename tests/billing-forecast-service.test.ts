@@ -0,0 +1,261 @@
+/**
+ * Unit tests for the scheduled billing forecast
+ */
+
+import { prismaMock } from './mocks/prisma';
+import {
+  getBillingForecast,
+  generateForecastCsv,
+  parseForecastParams,
+} from '@/lib/billing-forecast-service';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+// Mock settings
+jest.mock('@/lib/settings', () => ({
+  getVatRate: jest.fn(() => Promise.resolve(0.12)),
+  getProductTypes: jest.fn(() => Promise.resolve([])),
+}));
+
+const TODAY = new Date(2025, 5, 10);
+
+function schedule(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sched-1',
+    status: 'ACTIVE',
+    billingAmount: 10000,
+    vatType: 'VAT',
+    hasWithholding: true,
+    withholdingRate: 0.02,
+    frequency: 'MONTHLY',
+    customIntervalValue: null,
+    customIntervalUnit: null,
+    billingDayOfMonth: 15,
+    dueDayOfMonth: 30,
+    description: 'Payroll Services',
+    startDate: new Date(2025, 0, 1),
+    endDate: null,
+    nextBillingDate: new Date(2025, 5, 15),
+    prorationMethod: 'NONE',
+    businessDayRule: 'NONE',
+    autoApprove: false,
+    autoSendEnabled: true,
+    escalationRate: null,
+    escalationMonths: null,
+    contract: { companyName: 'Acme Corp', productType: 'PAYROLL', contractStart: null, contractEndDate: null },
+    billingEntity: { code: 'YOWI' },
+    priceChanges: [],
+    runs: [],
+    ...overrides,
+  };
+}
+
+describe('Billing Forecast Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prismaMock.holiday.findMany.mockResolvedValue([]);
+  });
+
+  describe('parseForecastParams', () => {
+    it('defaults to the next 30 days and validates the window', () => {
+      expect(parseForecastParams(new URLSearchParams())).toEqual({ days: 30, billingEntity: undefined });
+      expect(parseForecastParams(new URLSearchParams('days=90&billingEntity=ABBA'))).toEqual({
+        days: 90,
+        billingEntity: 'ABBA',
+      });
+      expect(parseForecastParams(new URLSearchParams('days=0'))).toHaveProperty('error');
+      expect(parseForecastParams(new URLSearchParams('days=abc'))).toHaveProperty('error');
+    });
+  });
+
+  describe('getBillingForecast', () => {
+    it('simulates each billing date in the window with calculated amounts', async () => {
+      prismaMock.scheduledBilling.findMany.mockResolvedValue([schedule()] as any);
+
+      const forecast = await getBillingForecast({ days: 60, from: TODAY });
+
+      expect(forecast.invoices.map((invoice) => invoice.billingDate)).toEqual([
+        new Date(2025, 5, 15),
+        new Date(2025, 6, 15),
+      ]);
+      expect(forecast.invoices[0]).toMatchObject({
+        description: 'Payroll Services - Jun 2025',
+        dueDate: new Date(2025, 5, 30),
+        serviceFee: 10000,
+        vatAmount: 1200,
+        withholdingTax: 200,
+        netAmount: 11000,
+        billingEntity: 'YOWI',
+        isCatchUp: false,
+      });
+      expect(forecast.invoices[1].description).toBe('Payroll Services - Jul 2025');
+      expect(forecast.totals).toEqual({
+        invoiceCount: 2,
+        serviceFee: 20000,
+        vatAmount: 2400,
+        withholdingTax: 400,
+        netAmount: 22000,
+      });
+      expect(prismaMock.scheduledBilling.create).not.toHaveBeenCalled();
+      expect(prismaMock.scheduledBillingRun.create).not.toHaveBeenCalled();
+    });
+
+    it('skips periods already billed and stops at the schedule end date', async () => {
+      prismaMock.scheduledBilling.findMany.mockResolvedValue([
+        schedule({
+          nextBillingDate: new Date(2025, 4, 15),
+          endDate: new Date(2025, 6, 1),
+          runs: [{ billingDate: null, runDate: new Date(2025, 4, 15, 8), invoice: { status: 'PENDING' } }],
+        }),
+      ] as any);
+
+      const forecast = await getBillingForecast({ days: 90, from: TODAY });
+
+      expect(forecast.invoices).toHaveLength(1);
+      expect(forecast.invoices[0].billingDate).toEqual(new Date(2025, 5, 15));
+    });
+
+    it('prorates the final period up to the contract end date', async () => {
+      prismaMock.scheduledBilling.findMany.mockResolvedValue([
+        schedule({
+          prorationMethod: 'DAILY',
+          contract: { companyName: 'Acme Corp', productType: 'PAYROLL', contractEndDate: new Date(2025, 6, 10) },
+        }),
+      ] as any);
+
+      const forecast = await getBillingForecast({ days: 90, from: TODAY });
+
+      expect(forecast.invoices).toHaveLength(2);
+      expect(forecast.invoices[1]).toMatchObject({
+        serviceFee: 3225.81,
+        periodEnd: new Date(2025, 6, 10),
+        description: 'Payroll Services - Jul 2025 (Prorated daily Jul 1 - Jul 10, 2025: 10/31 days x 10,000.00 = 3,225.81)',
+      });
+    });
+
+    it('bills usage schedules from recorded usage, estimating months not yet recorded', async () => {
+      prismaMock.scheduledBilling.findMany.mockResolvedValue([
+        schedule({
+          billingMode: 'USAGE',
+          usageMetric: null,
+          usageRate: 50,
+          usageTiers: null,
+          usageMinimumFee: null,
+          hasWithholding: false,
+          vatType: 'NON_VAT',
+          contract: {
+            companyName: 'Acme Corp',
+            productType: 'PAYROLL',
+            contractStart: null,
+            contractEndDate: null,
+            employeeCount: 90,
+            usage: [{ month: new Date(2025, 5, 1), metric: 'HEADCOUNT', unit: 'employees', quantity: 120 }],
+          },
+        }),
+      ] as any);
+
+      const forecast = await getBillingForecast({ days: 60, from: TODAY });
+
+      expect(forecast.invoices.map((invoice) => [invoice.serviceFee, invoice.description])).toEqual([
+        [6000, 'Payroll Services - Jun 2025 (120 employees)'],
+        [6000, 'Payroll Services - Jul 2025 (120 employees, estimated)'],
+      ]);
+    });
+
+    it('flags overdue billing dates as catch-up runs', async () => {
+      prismaMock.scheduledBilling.findMany.mockResolvedValue([
+        schedule({ nextBillingDate: new Date(2025, 4, 15) }),
+      ] as any);
+
+      const forecast = await getBillingForecast({ days: 30, from: TODAY });
+
+      expect(forecast.invoices.map((invoice) => invoice.isCatchUp)).toEqual([true, false]);
+    });
+
+    it('moves billing and due dates off weekends and holidays by the schedule rule', async () => {
+      // Jun 15, 2025 is a Sunday; Jun 30 is on the holiday calendar
+      prismaMock.scheduledBilling.findMany.mockResolvedValue([
+        schedule({ businessDayRule: 'NEXT_BUSINESS_DAY' }),
+        schedule({ id: 'sched-2', businessDayRule: 'PREVIOUS_BUSINESS_DAY' }),
+      ] as any);
+      prismaMock.holiday.findMany.mockResolvedValue([{ date: new Date(2025, 5, 30) }] as any);
+
+      const forecast = await getBillingForecast({ days: 20, from: TODAY });
+
+      expect(forecast.invoices).toEqual([
+        expect.objectContaining({
+          scheduledBillingId: 'sched-2',
+          billingDate: new Date(2025, 5, 13),
+          dueDate: new Date(2025, 5, 27),
+          description: 'Payroll Services - Jun 2025',
+        }),
+        expect.objectContaining({
+          scheduledBillingId: 'sched-1',
+          billingDate: new Date(2025, 5, 16),
+          dueDate: new Date(2025, 6, 1),
+          description: 'Payroll Services - Jun 2025',
+        }),
+      ]);
+    });
+
+    it('groups totals by billing entity and product type', async () => {
+      prismaMock.scheduledBilling.findMany.mockResolvedValue([
+        schedule(),
+        schedule({
+          id: 'sched-2',
+          billingAmount: 5000,
+          vatType: 'NON_VAT',
+          hasWithholding: false,
+          contract: { companyName: 'Beta Inc', productType: 'ACCOUNTING' },
+          billingEntity: { code: 'ABBA' },
+        }),
+        schedule({ id: 'sched-3', contract: { companyName: 'Gamma LLC', productType: 'ACCOUNTING' } }),
+      ] as any);
+
+      const forecast = await getBillingForecast({ days: 30, from: TODAY });
+
+      expect(forecast.byEntity).toEqual([
+        expect.objectContaining({ key: 'YOWI', invoiceCount: 2, netAmount: 22000 }),
+        expect.objectContaining({ key: 'ABBA', invoiceCount: 1, netAmount: 5000 }),
+      ]);
+      expect(forecast.byProductType).toEqual([
+        expect.objectContaining({ key: 'ACCOUNTING', invoiceCount: 2, netAmount: 16000 }),
+        expect.objectContaining({ key: 'PAYROLL', invoiceCount: 1, netAmount: 11000 }),
+      ]);
+    });
+
+    it('filters schedules by billing entity code', async () => {
+      prismaMock.scheduledBilling.findMany.mockResolvedValue([]);
+
+      await getBillingForecast({ billingEntity: 'YOWI', from: TODAY });
+
+      expect(prismaMock.scheduledBilling.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: 'ACTIVE', billingEntity: { code: 'YOWI' } },
+        })
+      );
+    });
+  });
+
+  describe('generateForecastCsv', () => {
+    it('renders detail rows, group totals and a grand total', async () => {
+      prismaMock.scheduledBilling.findMany.mockResolvedValue([
+        schedule({ contract: { companyName: 'Acme, Inc.', productType: 'PAYROLL' } }),
+      ] as any);
+
+      const csv = generateForecastCsv(await getBillingForecast({ days: 30, from: TODAY }));
+      const lines = csv.split('\n');
+
+      expect(lines[0]).toContain('Billing Date,Client,Billing Entity');
+      expect(lines[1]).toBe(
+        '2025-06-15,"Acme, Inc.",YOWI,PAYROLL,Payroll Services - Jun 2025,2025-06-01,2025-06-30,2025-06-30,10000.00,1200.00,200.00,11000.00,No,Yes,No'
+      );
+      expect(csv).toContain('YOWI,1,10000.00,1200.00,200.00,11000.00');
+      expect(lines[lines.length - 1]).toBe('TOTAL,1,10000.00,1200.00,200.00,11000.00');
+    });
+  });
+});
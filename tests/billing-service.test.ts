@@ -283,6 +283,7 @@ describe('Billing Service', () => {
         { status: 'APPROVED', _count: 3, _sum: { netAmount: 30000 } },
         { status: 'REJECTED', _count: 2, _sum: { netAmount: 20000 } },
         { status: 'SENT', _count: 10, _sum: { netAmount: 100000 } },
+        { status: 'PARTIALLY_PAID', _count: 4, _sum: { netAmount: 40000 } },
       ] as any);
 
       const result = await getInvoiceStats();
@@ -293,6 +294,8 @@ describe('Billing Service', () => {
       expect(result.sent).toBe(10);
       expect(result.totalPendingAmount).toBe(50000);
       expect(result.totalApprovedAmount).toBe(30000);
+      expect(result.partiallyPaid).toBe(4);
+      expect(result.totalPartiallyPaidAmount).toBe(40000);
     });
   });
 });
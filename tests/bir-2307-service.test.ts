@@ -0,0 +1,178 @@
+/**
+ * Unit tests for the BIR 2307 service
+ */
+
+import { prismaMock } from './mocks/prisma';
+import {
+  getTaxQuarter,
+  getQuarterRange,
+  getInvoiceTaxQuarter,
+  record2307,
+  send2307Reminder,
+} from '@/lib/bir-2307-service';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+jest.mock('@/lib/email-service', () => ({
+  initEmailServiceFromEnv: jest.fn(),
+  getBir2307Template: jest.fn(),
+  replacePlaceholders: jest.fn((text: string) => text),
+  generateEmailHtmlFromTemplate: jest.fn(() => '<p>html</p>'),
+  sendBillingEmail: jest.fn(),
+}));
+
+import { getBir2307Template, sendBillingEmail } from '@/lib/email-service';
+
+describe('BIR 2307 Service', () => {
+  const invoice = {
+    id: 'inv-1',
+    billingNo: 'S0000000001',
+    status: 'PAID',
+    hasWithholding: true,
+    withholdingTax: 200,
+    withholdingCode: 'WC160',
+    statementDate: new Date(2025, 0, 15),
+    paidAt: new Date(2025, 3, 2),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getTaxQuarter', () => {
+    it('maps months to calendar quarters', () => {
+      expect(getTaxQuarter(new Date(2025, 0, 1))).toEqual({ taxYear: 2025, taxQuarter: 1 });
+      expect(getTaxQuarter(new Date(2025, 5, 30))).toEqual({ taxYear: 2025, taxQuarter: 2 });
+      expect(getTaxQuarter(new Date(2025, 11, 31))).toEqual({ taxYear: 2025, taxQuarter: 4 });
+    });
+
+    it('returns the full date range of a quarter', () => {
+      const { start, end } = getQuarterRange(2025, 3);
+
+      expect(start).toEqual(new Date(2025, 6, 1));
+      expect(end.getMonth()).toBe(8);
+      expect(end.getDate()).toBe(30);
+    });
+
+    it('uses the payment date over the statement date', () => {
+      expect(getInvoiceTaxQuarter(invoice)).toEqual({ taxYear: 2025, taxQuarter: 2 });
+      expect(getInvoiceTaxQuarter({ ...invoice, paidAt: null })).toEqual({ taxYear: 2025, taxQuarter: 1 });
+    });
+  });
+
+  describe('record2307', () => {
+    it('defaults the certificate to the invoice withholding and logs it', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue(invoice as any);
+      prismaMock.withholdingCertificate.upsert.mockResolvedValue({ id: 'cert-1' } as any);
+
+      const receivedAt = new Date(2025, 4, 10);
+      await record2307('inv-1', { receivedAt }, 'user-1');
+
+      expect(prismaMock.withholdingCertificate.upsert).toHaveBeenCalledWith({
+        where: { invoiceId: 'inv-1' },
+        create: expect.objectContaining({
+          invoiceId: 'inv-1',
+          atcCode: 'WC160',
+          amount: 200,
+          taxYear: 2025,
+          taxQuarter: 2,
+          receivedAt,
+          recordedById: 'user-1',
+        }),
+        update: expect.objectContaining({ receivedAt }),
+      });
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'BIR_2307_RECEIVED', entityId: 'inv-1' }),
+      });
+    });
+
+    it('rejects attachments from another invoice', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue(invoice as any);
+      prismaMock.invoiceAttachment.findUnique.mockResolvedValue({ invoiceId: 'inv-2' } as any);
+
+      await expect(record2307('inv-1', { attachmentId: 'att-1' })).rejects.toThrow(
+        'Attachment not found for this invoice'
+      );
+      expect(prismaMock.withholdingCertificate.upsert).not.toHaveBeenCalled();
+    });
+
+    it('rejects invoices without withholding', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue({ ...invoice, hasWithholding: false } as any);
+
+      await expect(record2307('inv-1', {})).rejects.toThrow('Invoice has no withholding tax');
+    });
+  });
+
+  describe('send2307Reminder', () => {
+    const reminderInvoice = {
+      ...invoice,
+      customerName: 'Test Client',
+      customerEmail: 'client@example.com',
+      customerEmails: null,
+      dueDate: new Date(2025, 1, 15),
+      netAmount: 11000,
+      periodStart: null,
+      periodEnd: null,
+      company: { name: 'YAHSHUA' },
+      withholdingCertificate: null,
+    };
+
+    it('does not chase certificates that were already received', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue({
+        ...reminderInvoice,
+        withholdingCertificate: { receivedAt: new Date() },
+      } as any);
+
+      const result = await send2307Reminder('inv-1');
+
+      expect(result.success).toBe(false);
+      expect(sendBillingEmail).not.toHaveBeenCalled();
+    });
+
+    it('sends the reminder and tracks it on a pending certificate', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue(reminderInvoice as any);
+      (getBir2307Template as jest.Mock).mockResolvedValue({
+        id: 'tpl-1',
+        subject: 'Request for 2307',
+        greeting: 'Dear client,',
+        body: 'Please send your 2307.',
+        closing: 'Thanks',
+      });
+      (sendBillingEmail as jest.Mock).mockResolvedValue({ success: true, messageId: 'msg-1' });
+
+      const result = await send2307Reminder('inv-1', 'user-1');
+
+      expect(result.success).toBe(true);
+      expect(prismaMock.withholdingCertificate.upsert).toHaveBeenCalledWith({
+        where: { invoiceId: 'inv-1' },
+        create: expect.objectContaining({ reminderCount: 1, taxQuarter: 2 }),
+        update: expect.objectContaining({ reminderCount: { increment: 1 } }),
+      });
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'BIR_2307_REMINDER_SENT' }),
+      });
+    });
+
+    it('reports a reminder left in the email queue as queued, not sent', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue(reminderInvoice as any);
+      (getBir2307Template as jest.Mock).mockResolvedValue({
+        subject: 'Request for 2307',
+        greeting: 'Dear client,',
+        body: 'Please send your 2307.',
+        closing: 'Thanks',
+      });
+      (sendBillingEmail as jest.Mock).mockResolvedValue({ success: true, emailLogId: 'log-1', queued: true });
+
+      const result = await send2307Reminder('inv-1', 'user-1');
+
+      expect(result).toEqual({ success: true, queued: true, message: '2307 reminder queued for delivery' });
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ details: expect.objectContaining({ emailStatus: 'QUEUED' }) }),
+      });
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the holiday calendar, business day rules and the holiday CSV import
+ */
+
+import { prismaMock } from './mocks/prisma';
+import {
+  adjustToBusinessDay,
+  countBusinessDaysBetween,
+  importHolidays,
+  isBusinessDay,
+} from '@/lib/business-calendar-service';
+import { parseHolidaysCSV } from '@/lib/csv-parser';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+// Jun 12, 2025 (Thursday) is Independence Day
+const HOLIDAYS = new Set(['2025-06-12']);
+
+describe('Business Calendar Service', () => {
+  describe('isBusinessDay', () => {
+    it('excludes weekends and calendar holidays', () => {
+      expect(isBusinessDay(new Date(2025, 5, 11), HOLIDAYS)).toBe(true);
+      expect(isBusinessDay(new Date(2025, 5, 12), HOLIDAYS)).toBe(false);
+      expect(isBusinessDay(new Date(2025, 5, 14), HOLIDAYS)).toBe(false);
+      expect(isBusinessDay(new Date(2025, 5, 15), HOLIDAYS)).toBe(false);
+    });
+  });
+
+  describe('adjustToBusinessDay', () => {
+    it('moves past weekends and holidays in the direction of the rule', () => {
+      const thursday = new Date(2025, 5, 12);
+      const sunday = new Date(2025, 5, 15);
+
+      expect(adjustToBusinessDay(thursday, 'NEXT_BUSINESS_DAY', HOLIDAYS)).toEqual(new Date(2025, 5, 13));
+      expect(adjustToBusinessDay(thursday, 'PREVIOUS_BUSINESS_DAY', HOLIDAYS)).toEqual(new Date(2025, 5, 11));
+      expect(adjustToBusinessDay(sunday, 'NEXT_BUSINESS_DAY', HOLIDAYS)).toEqual(new Date(2025, 5, 16));
+      expect(adjustToBusinessDay(sunday, 'PREVIOUS_BUSINESS_DAY', HOLIDAYS)).toEqual(new Date(2025, 5, 13));
+      expect(adjustToBusinessDay(sunday, 'NONE', HOLIDAYS)).toEqual(sunday);
+    });
+
+    it('keeps business days unchanged', () => {
+      expect(adjustToBusinessDay(new Date(2025, 5, 11), 'NEXT_BUSINESS_DAY', HOLIDAYS)).toEqual(new Date(2025, 5, 11));
+    });
+  });
+
+  describe('countBusinessDaysBetween', () => {
+    it('counts the business days after the start date up to the end date', () => {
+      expect(countBusinessDaysBetween(new Date(2025, 5, 6), new Date(2025, 5, 16), HOLIDAYS)).toBe(5);
+      expect(countBusinessDaysBetween(new Date(2025, 5, 6), new Date(2025, 5, 16), new Set())).toBe(6);
+      expect(countBusinessDaysBetween(new Date(2025, 5, 16), new Date(2025, 5, 6), HOLIDAYS)).toBe(0);
+    });
+  });
+
+  describe('parseHolidaysCSV', () => {
+    it('parses dates to local midnight and reports invalid rows', () => {
+      const result = parseHolidaysCSV('date,name\n2026-06-12,Independence Day\n2026-02-30,Bad Date\n2026-12-25,');
+
+      expect(result.data).toEqual([{ row: 2, date: new Date(2026, 5, 12), name: 'Independence Day' }]);
+      expect(result.errors.map((error) => error.row)).toEqual([3, 4]);
+    });
+  });
+
+  describe('importHolidays', () => {
+    it('creates new dates and renames dates already on the calendar', async () => {
+      prismaMock.holiday.findMany.mockResolvedValue([{ date: new Date(2026, 5, 12) }] as any);
+
+      const result = await importHolidays([
+        { row: 2, date: new Date(2026, 5, 12), name: 'Independence Day' },
+        { row: 3, date: new Date(2026, 7, 31), name: 'National Heroes Day' },
+      ]);
+
+      expect(result).toEqual({ created: 1, updated: 1, skipped: 0, errors: [] });
+      expect(prismaMock.holiday.upsert).toHaveBeenCalledWith({
+        where: { date: new Date(2026, 7, 31) },
+        create: { date: new Date(2026, 7, 31), name: 'National Heroes Day' },
+        update: { name: 'National Heroes Day' },
+      });
+    });
+  });
+});
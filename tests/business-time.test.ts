@@ -0,0 +1,155 @@
+/**
+ * Unit tests for billing dates in the business timezone under different server timezones
+ */
+
+import { prismaMock } from './mocks/prisma';
+import { businessNow, businessToday, toBusinessTime } from '@/lib/business-time';
+import {
+  calculateNextBillingDate,
+  checkExistingInvoiceForPeriod,
+  getScheduledBilling,
+  getSchedulesDueToday,
+} from '@/lib/scheduled-billing-service';
+import { generateFromScheduledBilling } from '@/lib/invoice-generator';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+jest.mock('@/lib/scheduled-billing-service', () => ({
+  ...jest.requireActual('@/lib/scheduled-billing-service'),
+  getScheduledBilling: jest.fn(),
+  claimBillingPeriod: jest.fn(() => Promise.resolve({ id: 'run-1' })),
+  completeBillingPeriodClaim: jest.fn(),
+  updateNextBillingDate: jest.fn(),
+}));
+
+jest.mock('@/lib/schedule-version-service', () => ({
+  getCurrentScheduleVersion: jest.fn(() => Promise.resolve({ id: 'version-1' })),
+}));
+
+// Mock settings
+jest.mock('@/lib/settings', () => ({
+  getVatRate: jest.fn(() => Promise.resolve(0.12)),
+  getProductTypes: jest.fn(() => Promise.resolve([])),
+}));
+
+// 00:30 on Jul 1, 2025 in Manila - still Jun 30 in UTC and Los Angeles
+const JUST_AFTER_MIDNIGHT_MANILA = new Date(Date.UTC(2025, 5, 30, 16, 30));
+
+const SERVER_TIMEZONES = ['UTC', 'Asia/Manila', 'America/Los_Angeles'];
+
+function schedule() {
+  return {
+    id: 'sched-1',
+    contractId: 'contract-1',
+    billingEntityId: 'company-1',
+    billingAmount: 10000,
+    vatType: 'VAT',
+    hasWithholding: false,
+    withholdingRate: null,
+    description: 'Payroll Services',
+    frequency: 'MONTHLY',
+    customIntervalValue: null,
+    customIntervalUnit: null,
+    billingDayOfMonth: 1,
+    dueDayOfMonth: 15,
+    startDate: new Date(2025, 0, 1),
+    endDate: null,
+    nextBillingDate: new Date(2025, 6, 1),
+    prorationMethod: 'NONE',
+    businessDayRule: 'NONE',
+    autoApprove: false,
+    escalationRate: null,
+    escalationMonths: null,
+    billingMode: 'FIXED',
+    usageMetric: null,
+    usageRate: null,
+    usageTiers: null,
+    usageMinimumFee: null,
+    remarks: null,
+    contract: { contractStart: null, contractEndDate: null, ratePerEmployee: null },
+    priceChanges: [],
+  };
+}
+
+describe.each(SERVER_TIMEZONES)('Business timezone with the server on %s', (serverTimezone) => {
+  const originalTimezone = process.env.TZ;
+  const originalBusinessTimezone = process.env.BUSINESS_TIMEZONE;
+
+  beforeAll(() => {
+    process.env.TZ = serverTimezone;
+    process.env.BUSINESS_TIMEZONE = 'Asia/Manila';
+  });
+
+  afterAll(() => {
+    if (originalTimezone === undefined) delete process.env.TZ;
+    else process.env.TZ = originalTimezone;
+    process.env.BUSINESS_TIMEZONE = originalBusinessTimezone;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: JUST_AFTER_MIDNIGHT_MANILA });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reads the clock as Manila wall-clock time', () => {
+    expect(businessNow()).toEqual(new Date(2025, 6, 1, 0, 30));
+    expect(businessToday()).toEqual(new Date(2025, 6, 1));
+    expect(toBusinessTime(new Date(Date.UTC(2025, 5, 30, 15, 59)))).toEqual(new Date(2025, 5, 30, 23, 59));
+  });
+
+  it('finds schedules billing on the 1st', async () => {
+    prismaMock.scheduledBilling.findMany.mockResolvedValue([]);
+
+    await getSchedulesDueToday();
+
+    const { where } = prismaMock.scheduledBilling.findMany.mock.calls[0][0] as any;
+    expect(JSON.stringify(where)).toContain('"billingDayOfMonth":1');
+  });
+
+  it('calculates the next billing date from the Manila date', () => {
+    expect(calculateNextBillingDate(1, 'MONTHLY', new Date(2025, 0, 1))).toEqual(new Date(2025, 7, 1));
+    expect(calculateNextBillingDate(15, 'MONTHLY', new Date(2025, 0, 1))).toEqual(new Date(2025, 6, 15));
+  });
+
+  it('checks for an existing invoice in the July period', async () => {
+    prismaMock.scheduledBilling.findUnique.mockResolvedValue({ frequency: 'MONTHLY' } as any);
+    prismaMock.scheduledBillingRun.findFirst.mockResolvedValue(null);
+
+    await expect(checkExistingInvoiceForPeriod('sched-1')).resolves.toBe(false);
+
+    const { where } = prismaMock.scheduledBillingRun.findFirst.mock.calls[0][0] as any;
+    expect(where.OR[0].billingDate.gte).toEqual(new Date(2025, 6, 1));
+  });
+
+  it('bills the July period when no billing date is given', async () => {
+    (getScheduledBilling as jest.Mock).mockResolvedValue(schedule());
+    prismaMock.scheduledBilling.findUnique.mockResolvedValue({ frequency: 'MONTHLY' } as any);
+    prismaMock.scheduledBillingRun.findFirst.mockResolvedValue(null);
+    prismaMock.company.findUnique.mockResolvedValue({ id: 'company-1', invoicePrefix: 'S', nextInvoiceNo: 1 } as any);
+    prismaMock.contract.findUnique.mockResolvedValue({
+      id: 'contract-1',
+      companyName: 'Acme Corp',
+      productType: 'PAYROLL',
+      partner: null,
+    } as any);
+    prismaMock.invoice.create.mockResolvedValue({ id: 'inv-1', billingNo: 'S-0001', status: 'PENDING' } as any);
+
+    await generateFromScheduledBilling('sched-1');
+
+    const { data } = prismaMock.invoice.create.mock.calls[0][0] as any;
+    expect(data).toMatchObject({
+      statementDate: new Date(2025, 6, 1, 0, 30),
+      periodStart: new Date(2025, 6, 1),
+      dueDate: new Date(2025, 6, 15),
+    });
+    expect(data.lineItems.create[0].description).toBe('Payroll Services - Jul 2025');
+  });
+});
@@ -125,6 +125,7 @@ describe('Chat Tools', () => {
       const mockApproved = [{ netAmount: 20000 }];
       const mockRejected = [{ netAmount: 5000 }];
       const mockSent = [{ netAmount: 12000 }];
+      const mockPartiallyPaid = [{ netAmount: 9000 }];
       const mockPaid = [
         { netAmount: 8000, paidAmount: 8000 },
       ];
@@ -134,6 +135,7 @@ describe('Chat Tools', () => {
         .mockResolvedValueOnce(mockApproved as any) // APPROVED
         .mockResolvedValueOnce(mockRejected as any) // REJECTED
         .mockResolvedValueOnce(mockSent as any) // SENT
+        .mockResolvedValueOnce(mockPartiallyPaid as any) // PARTIALLY_PAID
         .mockResolvedValueOnce(mockPaid as any); // PAID
 
       const result = await getInvoiceStats();
@@ -142,9 +144,11 @@ describe('Chat Tools', () => {
       expect(result.approved).toBe(1);
       expect(result.rejected).toBe(1);
       expect(result.sent).toBe(1);
+      expect(result.partiallyPaid).toBe(1);
       expect(result.paid).toBe(1);
       expect(result.pendingAmount).toBe(25000);
       expect(result.approvedAmount).toBe(20000);
+      expect(result.partiallyPaidAmount).toBe(9000);
       expect(result.paidAmount).toBe(8000);
     });
   });
@@ -202,9 +206,11 @@ describe('Chat Tools', () => {
           id: 'inv-1',
           billingNo: 'S-2026-00001',
           customerName: 'Late Client',
-          netAmount: { toNumber: () => 10000 },
+          netAmount: 10000,
           dueDate: pastDate,
           company: { code: 'YOWI' },
+          payments: [],
+          creditNotes: [],
         },
       ];
 
@@ -215,12 +221,36 @@ describe('Chat Tools', () => {
       expect(prismaMock.invoice.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
           where: expect.objectContaining({
-            status: 'SENT',
+            status: { in: ['SENT', 'PARTIALLY_PAID'] },
           }),
         })
       );
       expect(result).toHaveLength(1);
       expect(result[0].daysPastDue).toBeGreaterThan(0);
+      expect(result[0].balance).toBe(10000);
+    });
+
+    it('reports the balance still owed on partially paid invoices', async () => {
+      const pastDate = new Date();
+      pastDate.setDate(pastDate.getDate() - 10);
+
+      prismaMock.invoice.findMany.mockResolvedValue([
+        {
+          id: 'inv-2',
+          billingNo: 'S-2026-00002',
+          customerName: 'Partial Client',
+          status: 'PARTIALLY_PAID',
+          netAmount: 10000,
+          dueDate: pastDate,
+          company: { code: 'YOWI' },
+          payments: [{ amount: 4000, paidAt: pastDate, reversedAt: null }],
+          creditNotes: [{ amount: 1000 }],
+        },
+      ] as any);
+
+      const result = await getOverdueInvoices();
+
+      expect(result[0]).toEqual(expect.objectContaining({ netAmount: 10000, balance: 5000 }));
     });
   });
 
@@ -0,0 +1,197 @@
+/**
+ * Unit tests for the credit note service
+ */
+
+import { prismaMock } from './mocks/prisma';
+import {
+  calculateCreditNoteAmounts,
+  canIssueCreditNote,
+  issueCreditNote,
+  voidCreditNote,
+} from '@/lib/credit-note-service';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+describe('Credit Note Service', () => {
+  const invoice = {
+    id: 'inv-1',
+    billingNo: 'S0000000001',
+    companyId: 'company-1',
+    customerName: 'Test Client',
+    status: 'PAID',
+    serviceFee: 10000,
+    vatAmount: 1200,
+    grossAmount: 11200,
+    withholdingTax: 200,
+    netAmount: 11000,
+    payments: [],
+    creditNotes: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prismaMock.$transaction.mockImplementation(((fn: (tx: typeof prismaMock) => unknown) =>
+      fn(prismaMock)) as any);
+    prismaMock.payment.findMany.mockResolvedValue([]);
+    prismaMock.creditNote.findMany.mockResolvedValue([]);
+  });
+
+  describe('calculateCreditNoteAmounts', () => {
+    it('splits the credit in the same proportions as the invoice', () => {
+      const result = calculateCreditNoteAmounts(invoice, 5500);
+
+      expect(result).toEqual({
+        serviceFee: 5000,
+        vatAmount: 600,
+        grossAmount: 5600,
+        withholdingTax: 100,
+        amount: 5500,
+      });
+    });
+  });
+
+  describe('canIssueCreditNote', () => {
+    it('rejects invoices that have not been sent', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue({ ...invoice, status: 'APPROVED' } as any);
+
+      const result = await canIssueCreditNote('inv-1', 100);
+
+      expect(result.canIssue).toBe(false);
+      expect(result.reason).toContain('APPROVED');
+    });
+
+    it('rejects credits above the remaining creditable amount', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue({
+        ...invoice,
+        creditNotes: [{ amount: 10000 }],
+      } as any);
+
+      const result = await canIssueCreditNote('inv-1', 1500);
+
+      expect(result.canIssue).toBe(false);
+      expect(result.creditableAmount).toBe(1000);
+    });
+
+    it('caps the credit at the unpaid balance of a partly paid invoice', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue({
+        ...invoice,
+        status: 'PARTIALLY_PAID',
+        payments: [
+          { amount: 8000, paidAt: new Date('2025-02-01'), reversedAt: null },
+          { amount: 2000, paidAt: new Date('2025-02-10'), reversedAt: new Date('2025-02-11') },
+        ],
+      } as any);
+
+      expect(await canIssueCreditNote('inv-1', 3000)).toEqual({ canIssue: true, creditableAmount: 3000 });
+      expect((await canIssueCreditNote('inv-1', 3000.01)).canIssue).toBe(false);
+    });
+
+    it('rejects a credit on a fully paid invoice', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue({
+        ...invoice,
+        payments: [{ amount: 11000, paidAt: new Date('2025-02-01'), reversedAt: null }],
+      } as any);
+
+      const result = await canIssueCreditNote('inv-1', 100);
+
+      expect(result.canIssue).toBe(false);
+      expect(result.creditableAmount).toBe(0);
+      expect(result.reason).toContain('Record a refund');
+    });
+  });
+
+  describe('issueCreditNote', () => {
+    it('numbers the credit note from the company sequence and logs it', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue({
+        ...invoice,
+        company: { id: 'company-1', code: 'YOWI' },
+      } as any);
+      prismaMock.company.update.mockResolvedValue({
+        creditNotePrefix: 'CN',
+        nextCreditNoteNo: 8,
+      } as any);
+      prismaMock.creditNote.create.mockResolvedValue({ id: 'cn-1', creditNoteNo: 'CN0000000007' } as any);
+
+      await issueCreditNote('inv-1', { amount: 1100, reason: 'Overbilled' }, 'user-1');
+
+      expect(prismaMock.company.update).toHaveBeenCalledWith({
+        where: { id: 'company-1' },
+        data: { nextCreditNoteNo: { increment: 1 } },
+      });
+      expect(prismaMock.creditNote.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          creditNoteNo: 'CN0000000007',
+          invoiceId: 'inv-1',
+          amount: 1100,
+          serviceFee: 1000,
+          issuedById: 'user-1',
+        }),
+      });
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'CREDIT_NOTE_ISSUED', entityId: 'inv-1' }),
+      });
+    });
+
+    it('keeps the default numbers of two companies apart', async () => {
+      prismaMock.invoice.findUnique
+        .mockResolvedValueOnce({ ...invoice, company: { id: 'company-1', code: 'YOWI' } } as any)
+        .mockResolvedValueOnce({
+          ...invoice,
+          id: 'inv-2',
+          companyId: 'company-2',
+          company: { id: 'company-2', code: 'ABBA' },
+        } as any);
+      prismaMock.company.update
+        .mockResolvedValueOnce({ code: 'YOWI', creditNotePrefix: null, nextCreditNoteNo: 2 } as any)
+        .mockResolvedValueOnce({ code: 'ABBA', creditNotePrefix: null, nextCreditNoteNo: 2 } as any);
+      prismaMock.creditNote.create.mockResolvedValue({ id: 'cn-1' } as any);
+
+      await issueCreditNote('inv-1', { amount: 1100, reason: 'Overbilled' });
+      await issueCreditNote('inv-2', { amount: 1100, reason: 'Overbilled' });
+
+      expect(prismaMock.creditNote.create).toHaveBeenNthCalledWith(1, {
+        data: expect.objectContaining({ creditNoteNo: 'CN-YOWI-0000000001', companyId: 'company-1' }),
+      });
+      expect(prismaMock.creditNote.create).toHaveBeenNthCalledWith(2, {
+        data: expect.objectContaining({ creditNoteNo: 'CN-ABBA-0000000001', companyId: 'company-2' }),
+      });
+    });
+
+    it('refuses a credit that would leave a negative balance', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue({
+        ...invoice,
+        company: { id: 'company-1', code: 'YOWI' },
+        payments: [{ amount: 11000, paidAt: new Date('2025-02-01'), reversedAt: null }],
+      } as any);
+
+      await expect(issueCreditNote('inv-1', { amount: 1100, reason: 'Overbilled' })).rejects.toThrow(
+        'exceeds the unpaid balance of 0.00'
+      );
+      expect(prismaMock.creditNote.create).not.toHaveBeenCalled();
+    });
+
+    it('throws without a reason', async () => {
+      await expect(issueCreditNote('inv-1', { amount: 100, reason: '' })).rejects.toThrow(
+        'Reason is required'
+      );
+    });
+  });
+
+  describe('voidCreditNote', () => {
+    it('rejects credit notes that are already void', async () => {
+      prismaMock.creditNote.findUnique.mockResolvedValue({
+        id: 'cn-1',
+        status: 'VOID',
+        invoice: invoice,
+      } as any);
+
+      await expect(voidCreditNote('cn-1', 'Wrong amount', 'user-1')).rejects.toThrow(
+        'Credit note has already been voided'
+      );
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for cron expression parsing and upcoming run calculation
+ */
+
+import { getNextCronRuns, parseCronExpression, validateCronExpression } from '@/lib/cron-expression';
+
+// Sunday, Jun 29, 2025 10:00 in Manila (UTC+8)
+const FROM = new Date('2025-06-29T02:00:00Z');
+
+function runs(expression: string, count: number, timeZone = 'Asia/Manila') {
+  return getNextCronRuns(expression, count, { from: FROM, timeZone }).map((run) => run.toISOString());
+}
+
+describe('Cron Expression', () => {
+  describe('parseCronExpression', () => {
+    it('expands lists, ranges, steps and names', () => {
+      const schedule = parseCronExpression('*/15 8-10 1,15 jan-mar mon-fri');
+
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([8, 9, 10]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect([...schedule.months]).toEqual([1, 2, 3]);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect([...schedule.seconds]).toEqual([0]);
+    });
+
+    it('reads a leading seconds field and 7 as Sunday', () => {
+      const schedule = parseCronExpression('30 0 8 * * 7');
+
+      expect([...schedule.seconds]).toEqual([30]);
+      expect([...schedule.daysOfWeek]).toEqual([0]);
+    });
+  });
+
+  describe('validateCronExpression', () => {
+    it('accepts valid expressions', () => {
+      expect(validateCronExpression('0 8 * * *')).toBeNull();
+      expect(validateCronExpression('0 9 1 * *')).toBeNull();
+      expect(validateCronExpression('0 7 * * Monday')).toBeNull();
+    });
+
+    it('describes the invalid field', () => {
+      expect(validateCronExpression('0 8 * *')).toBe('Expected 5 or 6 fields, got 4');
+      expect(validateCronExpression('0 25 * * *')).toBe('hour value 25 is out of range (0-23)');
+      expect(validateCronExpression('0 8 x * *')).toBe('Invalid day of month value "x"');
+      expect(validateCronExpression('*/0 8 * * *')).toBe('Invalid minute step "0"');
+      expect(validateCronExpression('0 8 * 6-3 *')).toBe('Invalid month range "6-3"');
+    });
+  });
+
+  describe('getNextCronRuns', () => {
+    it('lists daily runs in the timezone', () => {
+      expect(runs('0 8 * * *', 3)).toEqual([
+        '2025-06-30T00:00:00.000Z',
+        '2025-07-01T00:00:00.000Z',
+        '2025-07-02T00:00:00.000Z',
+      ]);
+    });
+
+    it('includes a run later the same day', () => {
+      expect(runs('0 14 * * *', 1)).toEqual(['2025-06-29T06:00:00.000Z']);
+    });
+
+    it('handles non-daily expressions', () => {
+      // 9 AM on the 1st of each month
+      expect(runs('0 9 1 * *', 2)).toEqual(['2025-07-01T01:00:00.000Z', '2025-08-01T01:00:00.000Z']);
+      // Weekdays at 7:30 AM, starting Monday
+      expect(runs('30 7 * * 1-5', 2)).toEqual(['2025-06-29T23:30:00.000Z', '2025-06-30T23:30:00.000Z']);
+      // Every 6 hours
+      expect(runs('0 */6 * * *', 2)).toEqual(['2025-06-29T04:00:00.000Z', '2025-06-29T10:00:00.000Z']);
+    });
+
+    it('requires both day fields to match, like node-cron', () => {
+      // The 1st of the month only when it falls on a Monday: Sep 1 and Dec 1, 2025
+      expect(runs('0 8 1 * mon', 2)).toEqual(['2025-09-01T00:00:00.000Z', '2025-12-01T00:00:00.000Z']);
+    });
+
+    it('evaluates wall-clock times across daylight saving changes', () => {
+      const from = new Date('2025-11-01T12:00:00Z');
+      const result = getNextCronRuns('0 8 * * *', 2, { from, timeZone: 'America/Los_Angeles' });
+
+      // 8 AM PDT (UTC-7) then 8 AM PST (UTC-8)
+      expect(result.map((run) => run.toISOString())).toEqual(['2025-11-01T15:00:00.000Z', '2025-11-02T16:00:00.000Z']);
+    });
+
+    it('returns no runs for a date that never occurs', () => {
+      expect(runs('0 8 30 2 *', 1)).toEqual([]);
+    });
+  });
+});
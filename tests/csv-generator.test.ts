@@ -2,7 +2,7 @@
  * Unit tests for CSV generator functions
  */
 
-import { generateYtoCsv, InvoiceCsvData } from '@/lib/csv-generator';
+import { generateYtoCsv, InvoiceCsvData, CreditNoteCsvData } from '@/lib/csv-generator';
 
 // Mock settings to return default product types
 jest.mock('@/lib/settings', () => ({
@@ -172,6 +172,36 @@ describe('generateYtoCsv', () => {
     });
   });
 
+  describe('Credit notes', () => {
+    const creditNote: CreditNoteCsvData = {
+      creditNoteNo: 'CN0000000001',
+      invoiceNo: 'S0000000123',
+      issuedAt: new Date(2026, 1, 20), // Feb 20, 2026
+      customerCode: 'TEST CLIENT INC.',
+      productType: 'ACCOUNTING',
+      reason: 'Overbilled "setup" fee',
+      serviceFee: 1000,
+      grossAmount: 1120,
+      vatType: 'VAT',
+    };
+
+    it('appends credit notes as negative lines after invoices', async () => {
+      const csv = await generateYtoCsv([baseMockInvoice], [creditNote]);
+      const lines = csv.split('\n');
+
+      expect(lines.length).toBe(3);
+      expect(lines[2]).toContain('02/20/2026');
+      expect(lines[2]).toContain('-1000.00');
+      expect(lines[2]).toContain('-1120.00');
+      expect(lines[2]).toContain('Credit Note CN0000000001 against invoice S0000000123');
+    });
+
+    it('replaces double quotes in the credit note reason', async () => {
+      const csv = await generateYtoCsv([], [creditNote]);
+      expect(csv).toContain("Overbilled 'setup' fee");
+    });
+  });
+
   describe('Default values', () => {
     it('includes default Accounts Receivable value', async () => {
       const csv = await generateYtoCsv([baseMockInvoice]);
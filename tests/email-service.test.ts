@@ -0,0 +1,309 @@
+/**
+ * Unit tests for per-entity email senders and the email outbox
+ */
+
+import { prismaMock } from './mocks/prisma';
+import nodemailer from 'nodemailer';
+import {
+  initEmailServiceFromEnv,
+  getEmailSender,
+  sendBillingEmail,
+  queueBillingEmail,
+  processEmailQueue,
+  isTransientEmailError,
+  getEmailRetryDelay,
+  replacePlaceholders,
+  EmailPlaceholderData,
+} from '@/lib/email-service';
+import { encryptSecret, decryptSecret } from '@/lib/encryption';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+jest.mock('nodemailer', () => ({
+  __esModule: true,
+  default: {
+    createTransport: jest.fn(() => ({ sendMail: jest.fn().mockResolvedValue({ messageId: 'msg-1' }) })),
+  },
+}));
+
+process.env.EMAIL_ENCRYPTION_KEY = 'test-encryption-key';
+
+function company(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'company-1',
+    name: 'NEW COMPANY INC.',
+    updatedAt: new Date(2025, 0, 1),
+    emailFromName: null,
+    emailFromAddress: null,
+    emailReplyTo: null,
+    emailBcc: null,
+    smtpHost: null,
+    smtpPort: null,
+    smtpSecure: false,
+    smtpUser: null,
+    smtpPassword: null,
+    ...overrides,
+  };
+}
+
+function queuedLog(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'log-1',
+    invoiceId: 'inv-1',
+    toEmail: 'client@acme.test',
+    ccEmail: 'boss@acme.test',
+    subject: 'Invoice',
+    body: 'Body',
+    htmlBody: '<p>Body</p>',
+    attachments: [{ filename: 'S-1.pdf', contentType: 'application/pdf', content: Buffer.from('pdf').toString('base64') }],
+    status: 'QUEUED',
+    attempts: 0,
+    maxAttempts: 5,
+    invoice: { companyId: 'company-3' },
+    ...overrides,
+  };
+}
+
+describe('Email Service senders', () => {
+  beforeAll(() => {
+    initEmailServiceFromEnv();
+  });
+
+  beforeEach(() => {
+    (nodemailer.createTransport as jest.Mock).mockClear();
+  });
+
+  it('encrypts SMTP passwords so they can be decrypted again', () => {
+    const encrypted = encryptSecret('s3cret');
+
+    expect(encrypted).not.toContain('s3cret');
+    expect(decryptSecret(encrypted)).toBe('s3cret');
+  });
+
+  it('uses the environment sender when no company is given', async () => {
+    const sender = await getEmailSender(null);
+
+    expect(sender).toMatchObject({ fromEmail: 'billing@test.com', fromName: 'Test Billing' });
+  });
+
+  it('overrides the identity but keeps the shared transporter without company SMTP', async () => {
+    const defaultSender = await getEmailSender(null);
+    prismaMock.company.findUnique.mockResolvedValue(
+      company({ emailFromName: 'NewCo Billing', emailFromAddress: 'billing@newco.test', emailBcc: 'audit@newco.test' }) as any
+    );
+
+    const sender = await getEmailSender('company-1');
+
+    expect(sender).toMatchObject({
+      fromName: 'NewCo Billing',
+      fromEmail: 'billing@newco.test',
+      bccEmail: 'audit@newco.test',
+    });
+    expect(sender?.transporter).toBe(defaultSender?.transporter);
+    expect(nodemailer.createTransport).not.toHaveBeenCalled();
+  });
+
+  it('builds and caches a transporter from the company SMTP credentials', async () => {
+    prismaMock.company.findUnique.mockResolvedValue(
+      company({
+        id: 'company-2',
+        smtpHost: 'smtp.newco.test',
+        smtpPort: 465,
+        smtpSecure: true,
+        smtpUser: 'mailer@newco.test',
+        smtpPassword: encryptSecret('smtp-pass'),
+      }) as any
+    );
+
+    await getEmailSender('company-2');
+    await getEmailSender('company-2');
+
+    expect(nodemailer.createTransport).toHaveBeenCalledTimes(1);
+    expect(nodemailer.createTransport).toHaveBeenCalledWith({
+      host: 'smtp.newco.test',
+      port: 465,
+      secure: true,
+      auth: { user: 'mailer@newco.test', pass: 'smtp-pass' },
+    });
+  });
+
+  it('sends billing emails from the invoice company', async () => {
+    prismaMock.company.findUnique.mockResolvedValue(
+      company({ emailFromName: 'NewCo Billing', emailFromAddress: 'billing@newco.test' }) as any
+    );
+    prismaMock.emailLog.create.mockResolvedValue({ id: 'log-1' } as any);
+    prismaMock.emailLog.findUnique.mockResolvedValue(queuedLog() as any);
+    prismaMock.emailLog.updateMany.mockResolvedValue({ count: 1 });
+
+    const sender = await getEmailSender('company-1');
+    const result = await sendBillingEmail('inv-1', 'client@acme.test', 'Invoice', 'Body');
+
+    expect(result).toEqual({ success: true, emailLogId: 'log-1', messageId: 'msg-1', queued: false });
+    expect(prismaMock.company.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'company-1' } })
+    );
+    expect(sender?.transporter.sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({ from: { name: 'NewCo Billing', address: 'billing@newco.test' } })
+    );
+  });
+});
+
+describe('Email Service outbox', () => {
+  let sendMail: jest.Mock;
+
+  beforeAll(() => {
+    initEmailServiceFromEnv();
+  });
+
+  beforeEach(async () => {
+    prismaMock.company.findUnique.mockResolvedValue(company({ id: 'company-3' }) as any);
+    const sender = await getEmailSender('company-3');
+    sendMail = sender!.transporter.sendMail as jest.Mock;
+    sendMail.mockReset();
+
+    prismaMock.emailLog.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('stores the email content and marks the invoice as queued', async () => {
+    prismaMock.emailLog.create.mockResolvedValue({ id: 'log-1' } as any);
+
+    const result = await queueBillingEmail(
+      'inv-1',
+      ['a@acme.test', 'b@acme.test'],
+      'Invoice',
+      'Body',
+      '<p>Body</p>',
+      Buffer.from('pdf'),
+      'S-1.pdf'
+    );
+
+    expect(result).toEqual({ success: true, emailLogId: 'log-1' });
+    expect(prismaMock.emailLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        toEmail: 'a@acme.test, b@acme.test',
+        status: 'QUEUED',
+        attachments: [{ filename: 'S-1.pdf', contentType: 'application/pdf', content: Buffer.from('pdf').toString('base64') }],
+      }),
+    });
+    expect(prismaMock.invoice.update).toHaveBeenCalledWith({
+      where: { id: 'inv-1' },
+      data: { emailStatus: 'QUEUED', emailError: null },
+    });
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+
+  it('classifies SMTP errors and backs off exponentially', () => {
+    expect(isTransientEmailError({ responseCode: 421 })).toBe(true);
+    expect(isTransientEmailError({ code: 'ETIMEDOUT' })).toBe(true);
+    expect(isTransientEmailError({ responseCode: 550, code: 'EENVELOPE' })).toBe(false);
+    expect(isTransientEmailError({ code: 'EAUTH' })).toBe(false);
+
+    expect([1, 2, 3, 4].map(getEmailRetryDelay)).toEqual([60000, 120000, 240000, 480000]);
+    expect(getEmailRetryDelay(20)).toBe(60 * 60 * 1000);
+  });
+
+  it('delivers due emails with their attachments and marks the invoice sent', async () => {
+    prismaMock.emailLog.findMany.mockResolvedValue([{ id: 'log-1' }] as any);
+    prismaMock.emailLog.findUnique.mockResolvedValue(queuedLog() as any);
+    sendMail.mockResolvedValue({ messageId: 'msg-2' });
+
+    const result = await processEmailQueue();
+
+    expect(result).toEqual({ processed: 1, sent: 1, retrying: 0, failed: 0 });
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'client@acme.test',
+        cc: 'boss@acme.test',
+        attachments: [{ filename: 'S-1.pdf', content: Buffer.from('pdf'), contentType: 'application/pdf' }],
+      })
+    );
+    expect(prismaMock.invoice.update).toHaveBeenCalledWith({
+      where: { id: 'inv-1' },
+      data: expect.objectContaining({ emailStatus: 'SENT', emailError: null }),
+    });
+    // A follow-up that was only queued is marked sent once its email goes out
+    expect(prismaMock.followUpLog.updateMany).toHaveBeenCalledWith({
+      where: { emailLogId: 'log-1' },
+      data: expect.objectContaining({ status: 'SENT', messageId: 'msg-2' }),
+    });
+  });
+
+  it('reschedules transient failures and keeps the invoice queued', async () => {
+    prismaMock.emailLog.findMany.mockResolvedValue([{ id: 'log-1' }] as any);
+    prismaMock.emailLog.findUnique.mockResolvedValue(queuedLog({ attempts: 1 }) as any);
+    sendMail.mockRejectedValue(Object.assign(new Error('Try again later'), { responseCode: 421 }));
+
+    const before = Date.now();
+    const result = await processEmailQueue();
+
+    expect(result.retrying).toBe(1);
+    const { data } = prismaMock.emailLog.update.mock.calls[0][0] as any;
+    expect(data.error).toBe('Try again later');
+    expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 120000);
+    expect(prismaMock.invoice.update).toHaveBeenCalledWith({
+      where: { id: 'inv-1' },
+      data: { emailError: 'Try again later' },
+    });
+  });
+
+  it('marks permanent failures and exhausted retries as failed', async () => {
+    prismaMock.emailLog.findMany.mockResolvedValue([{ id: 'log-1' }, { id: 'log-2' }] as any);
+    prismaMock.emailLog.findUnique
+      .mockResolvedValueOnce(queuedLog() as any)
+      .mockResolvedValueOnce(queuedLog({ id: 'log-2', attempts: 4 }) as any);
+    sendMail
+      .mockRejectedValueOnce(Object.assign(new Error('Mailbox unavailable'), { responseCode: 550 }))
+      .mockRejectedValueOnce(Object.assign(new Error('Connection timeout'), { code: 'ETIMEDOUT' }));
+
+    const result = await processEmailQueue();
+
+    expect(result.failed).toBe(2);
+    expect(prismaMock.emailLog.update).toHaveBeenCalledWith({
+      where: { id: 'log-1' },
+      data: { status: 'FAILED', error: 'Mailbox unavailable' },
+    });
+    expect(prismaMock.emailLog.update).toHaveBeenCalledWith({
+      where: { id: 'log-2' },
+      data: { status: 'FAILED', error: 'Connection timeout (gave up after 5 attempts)' },
+    });
+    expect(prismaMock.invoice.update).toHaveBeenCalledWith({
+      where: { id: 'inv-1' },
+      data: { emailStatus: 'FAILED', emailError: 'Mailbox unavailable' },
+    });
+  });
+
+  it('skips emails already claimed by another worker', async () => {
+    prismaMock.emailLog.findMany.mockResolvedValue([{ id: 'log-1' }] as any);
+    prismaMock.emailLog.findUnique.mockResolvedValue(queuedLog() as any);
+    prismaMock.emailLog.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await processEmailQueue();
+
+    expect(result.processed).toBe(0);
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+});
+
+describe('Email Service placeholders', () => {
+  const data: EmailPlaceholderData = {
+    customerName: 'Acme',
+    billingNo: 'S-1',
+    dueDate: 'March 1, 2025',
+    totalAmount: 'PHP 1,000.00',
+    periodStart: '',
+    periodEnd: '',
+    companyName: 'YOWI',
+    clientCompanyName: 'Acme',
+  };
+
+  it('fills in the payment link, or leaves it blank when online payment is not offered', () => {
+    expect(replacePlaceholders('Pay online: {{paymentUrl}}', { ...data, paymentUrl: 'https://pay.example/1' })).toBe(
+      'Pay online: https://pay.example/1'
+    );
+    expect(replacePlaceholders('Pay online: {{paymentUrl}}', data)).toBe('Pay online: ');
+  });
+});
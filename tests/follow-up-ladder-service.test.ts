@@ -0,0 +1,122 @@
+/**
+ * Unit tests for the follow-up ladder service
+ */
+
+import { prismaMock } from './mocks/prisma';
+import { getFollowUpLadder, saveFollowUpLadder } from '@/lib/follow-up-ladder-service';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+jest.mock('@/lib/settings', () => ({
+  getDunningSettings: jest.fn(),
+}));
+
+import { getDunningSettings } from '@/lib/settings';
+
+function levelRow(level: number, delayDays: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `level-${level}`,
+    companyId: null,
+    partnerId: null,
+    level,
+    delayDays,
+    templateId: null,
+    extraRecipients: null,
+    action: 'NONE',
+    ...overrides,
+  };
+}
+
+describe('Follow-up Ladder Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDunningSettings as jest.Mock).mockResolvedValue({ autoSendEnabled: false, dayOffsets: [3, 10, 20] });
+    prismaMock.$transaction.mockImplementation(((fn: any) => fn(prismaMock)) as any);
+  });
+
+  describe('getFollowUpLadder', () => {
+    it('prefers the partner ladder over the billing entity ladder', async () => {
+      prismaMock.followUpLevel.findMany.mockImplementation((async (args: any) => {
+        if (args.where.partnerId === 'partner-1') {
+          return [levelRow(1, 5, { partnerId: 'partner-1', extraRecipients: 'ar@example.com, cfo@example.com' })];
+        }
+        return [levelRow(1, 3, { companyId: 'company-1' })];
+      }) as any);
+
+      const ladder = await getFollowUpLadder({ companyId: 'company-1', partnerId: 'partner-1' });
+
+      expect(ladder.scope).toBe('PARTNER');
+      expect(ladder.levels).toEqual([
+        expect.objectContaining({ level: 1, delayDays: 5, extraRecipients: ['ar@example.com', 'cfo@example.com'] }),
+      ]);
+    });
+
+    it('falls back to the billing entity ladder', async () => {
+      prismaMock.followUpLevel.findMany.mockImplementation((async (args: any) =>
+        args.where.companyId === 'company-1'
+          ? [levelRow(1, 7), levelRow(2, 14), levelRow(3, 30), levelRow(4, 45, { action: 'CC_ACCOUNT_MANAGER' })]
+          : []) as any);
+
+      const ladder = await getFollowUpLadder({ companyId: 'company-1', partnerId: 'partner-1' });
+
+      expect(ladder.scope).toBe('COMPANY');
+      expect(ladder.levels).toHaveLength(4);
+      expect(ladder.levels[3].action).toBe('CC_ACCOUNT_MANAGER');
+    });
+
+    it('builds the default ladder from the follow-up day offsets', async () => {
+      prismaMock.followUpLevel.findMany.mockResolvedValue([]);
+
+      const ladder = await getFollowUpLadder({ companyId: 'company-1', partnerId: null });
+
+      expect(ladder.scope).toBe('DEFAULT');
+      expect(ladder.levels.map((l) => l.delayDays)).toEqual([3, 10, 20]);
+      expect(ladder.levels.every((l) => l.action === 'NONE' && l.templateId === null)).toBe(true);
+    });
+  });
+
+  describe('saveFollowUpLadder', () => {
+    it('replaces the levels for the scope and logs the change', async () => {
+      prismaMock.followUpLevel.findMany.mockResolvedValue([]);
+
+      await saveFollowUpLadder(
+        { companyId: 'company-1', partnerId: null },
+        [
+          { delayDays: 3 },
+          { delayDays: 15, extraRecipients: 'ar@example.com', action: 'SUSPEND_AUTO_BILLING' as any },
+        ],
+        'user-1'
+      );
+
+      expect(prismaMock.followUpLevel.deleteMany).toHaveBeenCalledWith({
+        where: { companyId: 'company-1', partnerId: null },
+      });
+      expect(prismaMock.followUpLevel.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ level: 1, delayDays: 3, extraRecipients: null, action: 'NONE' }),
+          expect.objectContaining({ level: 2, delayDays: 15, extraRecipients: 'ar@example.com', action: 'SUSPEND_AUTO_BILLING' }),
+        ],
+      });
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'FOLLOW_UP_LADDER_UPDATED', entityType: 'Company', entityId: 'company-1' }),
+      });
+    });
+
+    it('rejects delays that do not increase', async () => {
+      await expect(
+        saveFollowUpLadder({ companyId: null, partnerId: null }, [{ delayDays: 10 }, { delayDays: 10 }])
+      ).rejects.toThrow('Level 2: delay must be greater than level 1');
+      expect(prismaMock.followUpLevel.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid extra recipients', async () => {
+      await expect(
+        saveFollowUpLadder({ companyId: null, partnerId: 'partner-1' }, [{ delayDays: 3, extraRecipients: 'not-an-email' }])
+      ).rejects.toThrow('Level 1: invalid email not-an-email');
+    });
+  });
+});
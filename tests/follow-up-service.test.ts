@@ -0,0 +1,174 @@
+/**
+ * Unit tests for the follow-up email service
+ */
+
+import { prismaMock } from './mocks/prisma';
+import { sendFollowUpEmail } from '@/lib/follow-up-service';
+import { formatCurrency } from '@/lib/utils';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+jest.mock('@/lib/email-service', () => ({
+  initEmailServiceFromEnv: jest.fn(),
+  getFollowUpTemplate: jest.fn(),
+  replacePlaceholders: jest.fn((text: string) => text),
+  generateEmailHtmlFromTemplate: jest.fn(() => '<p>html</p>'),
+  sendBillingEmail: jest.fn(),
+}));
+
+jest.mock('@/lib/settings', () => ({
+  getSOASettings: jest.fn().mockResolvedValue({}),
+  getInvoiceTemplate: jest.fn().mockResolvedValue(null),
+  getDunningSettings: jest.fn(),
+}));
+
+jest.mock('@/lib/pdf-generator', () => ({
+  generateInvoicePdfLib: jest.fn().mockResolvedValue(new Uint8Array([37, 80, 68, 70])),
+}));
+
+jest.mock('@/lib/follow-up-ladder-service', () => ({
+  getFollowUpLadder: jest.fn(),
+}));
+
+jest.mock('@/lib/payment-gateway', () => ({
+  getLiveInvoicePaymentLink: jest.fn(),
+}));
+
+jest.mock('@/lib/scheduled-billing-service', () => ({
+  pauseSchedule: jest.fn(),
+}));
+
+import { generateEmailHtmlFromTemplate, getFollowUpTemplate, sendBillingEmail } from '@/lib/email-service';
+import { getFollowUpLadder } from '@/lib/follow-up-ladder-service';
+import { getDunningSettings } from '@/lib/settings';
+
+const template = {
+  id: 'template-1',
+  subject: 'Reminder: {{billingNo}}',
+  greeting: 'Dear {{customerName}},',
+  body: 'Please pay {{totalAmount}}.',
+  closing: 'Thank you',
+};
+
+function invoice(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'inv-1',
+    billingNo: 'S0000000001',
+    companyId: 'company-1',
+    partnerId: null,
+    company: { id: 'company-1', code: 'YOWI', name: 'YOWI' },
+    customerName: 'Acme Corp',
+    customerEmail: 'billing@acme.test',
+    customerEmails: null,
+    status: 'SENT',
+    followUpEnabled: true,
+    lastFollowUpLevel: 0,
+    dueDate: new Date(2025, 0, 15),
+    periodStart: null,
+    periodEnd: null,
+    netAmount: 10000,
+    contracts: [],
+    payments: [],
+    creditNotes: [],
+    ...overrides,
+  };
+}
+
+describe('Follow-up Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getFollowUpLadder as jest.Mock).mockResolvedValue({
+      scope: 'GLOBAL',
+      levels: [{ level: 1, delayDays: 3, templateId: null, extraRecipients: [], action: 'NONE' }],
+    });
+    (getFollowUpTemplate as jest.Mock).mockResolvedValue(template);
+    (getDunningSettings as jest.Mock).mockResolvedValue({
+      autoSendEnabled: false,
+      dayOffsets: [3, 10, 20],
+      businessDaysOnly: false,
+    });
+    (sendBillingEmail as jest.Mock).mockResolvedValue({ success: true, messageId: 'msg-1', emailLogId: 'email-1' });
+    prismaMock.paymentRequest.count.mockResolvedValue(0);
+    prismaMock.followUpLog.create.mockResolvedValue({ id: 'log-1' } as any);
+  });
+
+  describe('sendFollowUpEmail', () => {
+    it('asks for the full amount of an unpaid invoice', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue(invoice() as any);
+
+      const result = await sendFollowUpEmail('inv-1');
+
+      expect(result.success).toBe(true);
+      expect(generateEmailHtmlFromTemplate).toHaveBeenCalledWith(
+        template,
+        expect.objectContaining({ totalAmount: formatCurrency(10000) })
+      );
+    });
+
+    it('asks for the balance still owed on a partially paid invoice', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue(invoice({
+        status: 'PARTIALLY_PAID',
+        payments: [
+          { amount: 4000, paidAt: new Date(2025, 0, 20), reversedAt: null },
+          { amount: 1000, paidAt: new Date(2025, 0, 21), reversedAt: new Date(2025, 0, 22) },
+        ],
+        creditNotes: [{ amount: 500 }],
+      }) as any);
+
+      await sendFollowUpEmail('inv-1');
+
+      expect(generateEmailHtmlFromTemplate).toHaveBeenCalledWith(
+        template,
+        expect.objectContaining({ totalAmount: formatCurrency(5500) })
+      );
+    });
+
+    describe('days overdue', () => {
+      // Due Friday Jun 6: 10 calendar days by Monday Jun 16, but only 5 business days with Jun 12 a holiday
+      beforeEach(() => {
+        jest.useFakeTimers({ now: new Date(2025, 5, 16, 8, 0) });
+        prismaMock.invoice.findUnique.mockResolvedValue(invoice({ dueDate: new Date(2025, 5, 6) }) as any);
+        prismaMock.holiday.findMany.mockResolvedValue([{ date: new Date(2025, 5, 12) }] as any);
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('counts calendar days by default', async () => {
+        await sendFollowUpEmail('inv-1');
+
+        expect(prismaMock.holiday.findMany).not.toHaveBeenCalled();
+        expect(generateEmailHtmlFromTemplate).toHaveBeenCalledWith(
+          template,
+          expect.objectContaining({ daysOverdue: '10' })
+        );
+      });
+
+      it('counts business days when the ladder does', async () => {
+        (getDunningSettings as jest.Mock).mockResolvedValue({
+          autoSendEnabled: true,
+          dayOffsets: [3, 10, 20],
+          businessDaysOnly: true,
+        });
+
+        await sendFollowUpEmail('inv-1');
+
+        expect(generateEmailHtmlFromTemplate).toHaveBeenCalledWith(
+          template,
+          expect.objectContaining({ daysOverdue: '5' })
+        );
+        expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            action: 'INVOICE_FOLLOW_UP_SENT',
+            details: expect.objectContaining({ daysOverdue: 5 }),
+          }),
+        });
+      });
+    });
+  });
+});
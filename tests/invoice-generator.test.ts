@@ -0,0 +1,265 @@
+/**
+ * Unit tests for scheduled billing proration in the invoice generator
+ */
+
+import { prismaMock } from './mocks/prisma';
+import { calculateProration, generateFromScheduledBilling } from '@/lib/invoice-generator';
+import {
+  getScheduledBilling,
+  claimBillingPeriod,
+  createScheduledBillingRun,
+  endSchedule,
+  updateNextBillingDate,
+} from '@/lib/scheduled-billing-service';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+jest.mock('@/lib/scheduled-billing-service', () => ({
+  getScheduledBilling: jest.fn(),
+  claimBillingPeriod: jest.fn(() => Promise.resolve({ id: 'run-1' })),
+  completeBillingPeriodClaim: jest.fn(),
+  updateNextBillingDate: jest.fn(),
+  checkExistingInvoiceForPeriod: jest.fn(() => Promise.resolve(false)),
+  createScheduledBillingRun: jest.fn(),
+  endSchedule: jest.fn(),
+}));
+
+jest.mock('@/lib/schedule-version-service', () => ({
+  getCurrentScheduleVersion: jest.fn(() => Promise.resolve({ id: 'version-1' })),
+}));
+
+// Mock settings
+jest.mock('@/lib/settings', () => ({
+  getVatRate: jest.fn(() => Promise.resolve(0.12)),
+  getProductTypes: jest.fn(() => Promise.resolve([])),
+}));
+
+const JUNE = { periodStart: new Date(2025, 5, 1), periodEnd: new Date(2025, 5, 30) };
+
+describe('Invoice Generator proration', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('calculateProration', () => {
+    it('does not prorate with the NONE method or when service covers the period', () => {
+      expect(calculateProration(10000, JUNE, 'NONE', new Date(2025, 5, 20), null)).toBeNull();
+      expect(calculateProration(10000, JUNE, 'DAILY', new Date(2025, 0, 1), new Date(2025, 11, 31))).toBeNull();
+    });
+
+    it('bills actual days of service with the DAILY method', () => {
+      const proration = calculateProration(10000, JUNE, 'DAILY', new Date(2025, 5, 20, 9, 30), null);
+
+      expect(proration).toMatchObject({
+        amount: 3666.67,
+        billedDays: 11,
+        periodDays: 30,
+        serviceStart: new Date(2025, 5, 20),
+        serviceEnd: new Date(2025, 5, 30),
+      });
+      expect(proration?.description).toBe('Prorated daily Jun 20 - Jun 30, 2025: 11/30 days x 10,000.00 = 3,666.67');
+    });
+
+    it('counts every month as 30 days with the THIRTY_360 method', () => {
+      const february = { periodStart: new Date(2025, 1, 1), periodEnd: new Date(2025, 1, 28) };
+
+      expect(calculateProration(9000, february, 'DAILY', null, new Date(2025, 1, 14))).toMatchObject({
+        billedDays: 14,
+        periodDays: 28,
+        amount: 4500,
+      });
+      expect(calculateProration(9000, february, 'THIRTY_360', null, new Date(2025, 1, 14))).toMatchObject({
+        billedDays: 14,
+        periodDays: 30,
+        amount: 4200,
+      });
+    });
+
+    it('returns zero days when service lies outside the period', () => {
+      expect(calculateProration(10000, JUNE, 'DAILY', null, new Date(2025, 4, 31))).toMatchObject({
+        billedDays: 0,
+        amount: 0,
+      });
+    });
+  });
+
+  describe('generateFromScheduledBilling', () => {
+    function schedule(overrides: Record<string, unknown> = {}) {
+      return {
+        id: 'sched-1',
+        contractId: 'contract-1',
+        billingEntityId: 'company-1',
+        billingAmount: 10000,
+        vatType: 'VAT',
+        hasWithholding: false,
+        withholdingRate: null,
+        description: 'Payroll Services',
+        frequency: 'MONTHLY',
+        customIntervalValue: null,
+        customIntervalUnit: null,
+        billingDayOfMonth: 25,
+        dueDayOfMonth: 30,
+        startDate: new Date(2025, 5, 20),
+        endDate: null,
+        nextBillingDate: new Date(2025, 5, 25),
+        prorationMethod: 'DAILY',
+        businessDayRule: 'NONE',
+        autoApprove: false,
+        escalationRate: null,
+        escalationMonths: null,
+        billingMode: 'FIXED',
+        usageMetric: null,
+        usageRate: null,
+        usageTiers: null,
+        usageMinimumFee: null,
+        remarks: null,
+        contract: { contractStart: null, contractEndDate: null, ratePerEmployee: null },
+        priceChanges: [],
+        ...overrides,
+      };
+    }
+
+    beforeEach(() => {
+      prismaMock.company.findUnique.mockResolvedValue({ id: 'company-1', invoicePrefix: 'S', nextInvoiceNo: 1 } as any);
+      prismaMock.contract.findUnique.mockResolvedValue({
+        id: 'contract-1',
+        companyName: 'Acme Corp',
+        productType: 'PAYROLL',
+        partner: null,
+      } as any);
+      prismaMock.invoice.create.mockResolvedValue({
+        id: 'inv-1',
+        billingNo: 'S-0001',
+        status: 'PENDING',
+        netAmount: 4106.67,
+        customerName: 'Acme Corp',
+      } as any);
+    });
+
+    it('bills a prorated line item with the calculation in its description', async () => {
+      (getScheduledBilling as jest.Mock).mockResolvedValue(schedule());
+
+      await generateFromScheduledBilling('sched-1', { billingDate: new Date(2025, 5, 25) });
+
+      const { data } = prismaMock.invoice.create.mock.calls[0][0] as any;
+      expect(data).toMatchObject({
+        monthlyFee: 10000,
+        serviceFee: 3666.67,
+        periodStart: new Date(2025, 5, 20),
+        periodEnd: new Date(2025, 5, 30),
+      });
+      expect(data.lineItems.create).toEqual([
+        expect.objectContaining({
+          description: 'Payroll Services - Jun 2025 (Prorated daily Jun 20 - Jun 30, 2025: 11/30 days x 10,000.00 = 3,666.67)',
+          serviceFee: 3666.67,
+        }),
+      ]);
+    });
+
+    it('prorates to the contract end date when it is earlier than the schedule end date', async () => {
+      (getScheduledBilling as jest.Mock).mockResolvedValue(
+        schedule({
+          startDate: new Date(2025, 0, 1),
+          endDate: new Date(2025, 11, 31),
+          contract: { contractEndDate: new Date(2025, 5, 15) },
+        })
+      );
+
+      await generateFromScheduledBilling('sched-1', { billingDate: new Date(2025, 5, 25) });
+
+      const { data } = prismaMock.invoice.create.mock.calls[0][0] as any;
+      expect(data.serviceFee).toBe(5000);
+      expect(data.periodEnd).toEqual(new Date(2025, 5, 15));
+    });
+
+    it('bills recorded usage x rate for usage schedules, listing the usage on the line items', async () => {
+      (getScheduledBilling as jest.Mock).mockResolvedValue(
+        schedule({
+          billingMode: 'USAGE',
+          startDate: new Date(2025, 0, 1),
+          contract: { contractStart: null, contractEndDate: null, ratePerEmployee: 75 },
+        })
+      );
+      prismaMock.contractUsage.findMany.mockResolvedValue([
+        { month: new Date(2025, 5, 1), quantity: 150, unit: 'employees' },
+      ] as any);
+
+      await generateFromScheduledBilling('sched-1', { billingDate: new Date(2025, 5, 25) });
+
+      const { data } = prismaMock.invoice.create.mock.calls[0][0] as any;
+      expect(data).toMatchObject({ monthlyFee: 11250, serviceFee: 11250 });
+      expect(data.lineItems.create).toEqual([
+        expect.objectContaining({
+          description: 'Payroll Services - Jun 2025: 150 employees x 75.00',
+          quantity: 150,
+          unitPrice: 75,
+          serviceFee: 11250,
+        }),
+      ]);
+    });
+
+    it('shifts the statement and due dates to the next business day', async () => {
+      // Jun 15, 2025 is a Sunday; Jun 30 is on the holiday calendar
+      (getScheduledBilling as jest.Mock).mockResolvedValue(
+        schedule({
+          billingDayOfMonth: 15,
+          startDate: new Date(2025, 0, 1),
+          prorationMethod: 'NONE',
+          businessDayRule: 'NEXT_BUSINESS_DAY',
+        })
+      );
+      prismaMock.holiday.findMany.mockResolvedValue([{ date: new Date(2025, 5, 30) }] as any);
+
+      await generateFromScheduledBilling('sched-1', { billingDate: new Date(2025, 5, 15) });
+
+      const { data } = prismaMock.invoice.create.mock.calls[0][0] as any;
+      expect(data).toMatchObject({
+        statementDate: new Date(2025, 5, 16),
+        dueDate: new Date(2025, 6, 1),
+        periodStart: new Date(2025, 5, 1),
+        periodEnd: new Date(2025, 5, 30),
+      });
+    });
+
+    it('ends the schedule instead of failing once the contract has ended', async () => {
+      (getScheduledBilling as jest.Mock).mockResolvedValue(
+        schedule({ startDate: new Date(2025, 0, 1), contract: { contractEndDate: new Date(2025, 4, 31) } })
+      );
+
+      const result = await generateFromScheduledBilling('sched-1', { billingDate: new Date(2025, 5, 25) });
+
+      const reason = 'Service ended May 31, 2025, before this billing period';
+      expect(result).toBeNull();
+      expect(prismaMock.invoice.create).not.toHaveBeenCalled();
+      expect(claimBillingPeriod).not.toHaveBeenCalled();
+      expect(createScheduledBillingRun).toHaveBeenCalledWith('sched-1', null, 'SKIPPED', reason, {
+        billingDate: new Date(2025, 5, 25),
+        isCatchUp: false,
+      });
+      expect(endSchedule).toHaveBeenCalledWith('sched-1', { changeReason: reason });
+      expect(updateNextBillingDate).not.toHaveBeenCalled();
+    });
+
+    it('skips a period before the schedule starts and moves to the next one', async () => {
+      (getScheduledBilling as jest.Mock).mockResolvedValue(schedule({ startDate: new Date(2025, 6, 5) }));
+
+      const result = await generateFromScheduledBilling('sched-1', { billingDate: new Date(2025, 5, 25) });
+
+      expect(result).toBeNull();
+      expect(prismaMock.invoice.create).not.toHaveBeenCalled();
+      expect(createScheduledBillingRun).toHaveBeenCalledWith(
+        'sched-1',
+        null,
+        'SKIPPED',
+        'Service starts after this billing period',
+        expect.anything()
+      );
+      expect(endSchedule).not.toHaveBeenCalled();
+      expect(updateNextBillingDate).toHaveBeenCalledWith('sched-1', new Date(2025, 5, 25));
+    });
+  });
+});
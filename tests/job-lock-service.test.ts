@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the scheduler job lock and billing period claims that prevent duplicate invoices
+ */
+
+import { prismaMock } from './mocks/prisma';
+import { Prisma } from '@/generated/prisma';
+import { acquireJobLock, releaseJobLock, renewJobLock } from '@/lib/job-lock-service';
+import { claimBillingPeriod, completeBillingPeriodClaim } from '@/lib/scheduled-billing-service';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+describe('Job Lock Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date(2025, 5, 20, 8, 0) });
+    prismaMock.scheduledJob.createMany.mockResolvedValue({ count: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('acquireJobLock', () => {
+    it('takes a free or expired lock for a lease', async () => {
+      prismaMock.scheduledJob.updateMany.mockResolvedValue({ count: 1 });
+
+      const lock = await acquireJobLock('daily-billing-check', 60_000);
+
+      expect(lock).toEqual({ jobName: 'daily-billing-check', holder: expect.any(String) });
+      expect(prismaMock.scheduledJob.createMany).toHaveBeenCalledWith({
+        data: [{ name: 'daily-billing-check' }],
+        skipDuplicates: true,
+      });
+      expect(prismaMock.scheduledJob.updateMany).toHaveBeenCalledWith({
+        where: {
+          name: 'daily-billing-check',
+          OR: [{ lockedUntil: null }, { lockedUntil: { lte: new Date(2025, 5, 20, 8, 0) } }],
+        },
+        data: {
+          lockedBy: lock!.holder,
+          lockedUntil: new Date(2025, 5, 20, 8, 1),
+          status: 'RUNNING',
+        },
+      });
+    });
+
+    it('returns null while another run holds the lock', async () => {
+      prismaMock.scheduledJob.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(acquireJobLock('daily-billing-check')).resolves.toBeNull();
+    });
+
+    it('gives each acquisition its own holder', async () => {
+      prismaMock.scheduledJob.updateMany.mockResolvedValue({ count: 1 });
+
+      const first = await acquireJobLock('daily-billing-check');
+      const second = await acquireJobLock('daily-billing-check');
+
+      expect(first!.holder).not.toBe(second!.holder);
+    });
+  });
+
+  describe('renewJobLock and releaseJobLock', () => {
+    const lock = { jobName: 'daily-billing-check', holder: 'host:1:token' };
+
+    it('only renews a lock that is still held', async () => {
+      prismaMock.scheduledJob.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      await expect(renewJobLock(lock)).resolves.toBe(true);
+      await expect(renewJobLock(lock)).resolves.toBe(false);
+      expect(prismaMock.scheduledJob.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { name: 'daily-billing-check', lockedBy: 'host:1:token' } })
+      );
+    });
+
+    it('clears the lock and records the outcome', async () => {
+      prismaMock.scheduledJob.updateMany.mockResolvedValue({ count: 1 });
+
+      await releaseJobLock(lock, 'FAILED', 'Database unavailable');
+
+      expect(prismaMock.scheduledJob.updateMany).toHaveBeenCalledWith({
+        where: { name: 'daily-billing-check', lockedBy: 'host:1:token' },
+        data: {
+          lockedBy: null,
+          lockedUntil: null,
+          status: 'FAILED',
+          lastRun: new Date(2025, 5, 20, 8, 0),
+          lastError: 'Database unavailable',
+        },
+      });
+    });
+  });
+
+  describe('claimBillingPeriod', () => {
+    it('claims the period with a pending run keyed by its start', async () => {
+      prismaMock.scheduledBillingRun.updateMany.mockResolvedValue({ count: 0 });
+      prismaMock.scheduledBillingRun.create.mockResolvedValue({ id: 'run-1' } as any);
+
+      await claimBillingPeriod('sched-1', 'QUARTERLY', new Date(2025, 5, 15), { isCatchUp: true });
+
+      expect(prismaMock.scheduledBillingRun.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ scheduledBillingId: 'sched-1', periodKey: '2025-04-01' }),
+          data: { periodKey: null },
+        })
+      );
+      expect(prismaMock.scheduledBillingRun.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          scheduledBillingId: 'sched-1',
+          status: 'PENDING',
+          periodKey: '2025-04-01',
+          billingDate: new Date(2025, 5, 15),
+          isCatchUp: true,
+        }),
+      });
+    });
+
+    it('refuses a period another run already holds', async () => {
+      prismaMock.scheduledBillingRun.updateMany.mockResolvedValue({ count: 0 });
+      prismaMock.scheduledBillingRun.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      );
+
+      await expect(claimBillingPeriod('sched-1', 'MONTHLY', new Date(2025, 5, 15))).rejects.toThrow(
+        'Invoice already exists or is being generated for this billing period'
+      );
+    });
+
+    it('releases the period when the run fails', async () => {
+      await completeBillingPeriodClaim('run-1', null, 'FAILED', 'No usage recorded');
+
+      expect(prismaMock.scheduledBillingRun.update).toHaveBeenCalledWith({
+        where: { id: 'run-1' },
+        data: { invoiceId: null, status: 'FAILED', errorMessage: 'No usage recorded', periodKey: null },
+      });
+    });
+  });
+});
@@ -0,0 +1,712 @@
+/**
+ * Unit tests for the provider-neutral payment gateway and its HitPay adapter
+ */
+
+import crypto from 'crypto';
+import { prismaMock } from './mocks/prisma';
+import { Prisma } from '@/generated/prisma';
+import { encryptSecret } from '@/lib/encryption';
+import {
+  createInvoicePaymentRequest,
+  getCompanyPaymentGateway,
+  getLiveInvoicePaymentLink,
+  getPaymentGateway,
+  isPaymentLinkLive,
+  processPaymentWebhook,
+} from '@/lib/payment-gateway';
+import { hitpayGateway } from '@/lib/hitpay-service';
+import {
+  recordPaymentInTransaction,
+  recordRefundInTransaction,
+  notifyPaymentRecorded,
+  supersedePaymentLinks,
+} from '@/lib/payment-service';
+import { issueCreditNoteInTransaction } from '@/lib/credit-note-service';
+import { notifyPaymentRefunded, notifyStalePaymentLinkPaid } from '@/lib/notifications';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+jest.mock('@/lib/payment-service', () => ({
+  PAYABLE_STATUSES: ['SENT', 'PARTIALLY_PAID'],
+  calculateInvoiceBalance: jest.requireActual('@/lib/payment-service').calculateInvoiceBalance,
+  sumCreditNotes: jest.requireActual('@/lib/payment-service').sumCreditNotes,
+  supersedePaymentLinks: jest.fn(),
+  recordPaymentInTransaction: jest.fn(() =>
+    Promise.resolve({ balance: { status: 'PAID', balance: 0 } })
+  ),
+  recordRefundInTransaction: jest.fn(),
+  notifyPaymentRecorded: jest.fn(),
+}));
+
+jest.mock('@/lib/credit-note-service', () => ({
+  issueCreditNoteInTransaction: jest.fn(() =>
+    Promise.resolve({ creditNote: { creditNoteNo: 'CN-0001' }, balance: { status: 'PAID', balance: 0 } })
+  ),
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  notifyPaymentRefunded: jest.fn(),
+  notifyStalePaymentLinkPaid: jest.fn(),
+}));
+
+const SYSTEM = { apiKey: 'system-key', webhookSecret: 'system-salt' };
+const COMPANY = { apiKey: 'company-key', webhookSecret: 'company-salt' };
+
+function webhookBody(status: string, payment: Record<string, unknown> = {}) {
+  return JSON.stringify({
+    id: 'hp-req-1',
+    amount: '11200.00',
+    currency: 'PHP',
+    status,
+    reference_number: 'INV-001',
+    payments: [{ id: 'hp-pay-1', status: 'succeeded', payment_type: 'gcash', amount: '11200.00', refunded_amount: '0.00', ...payment }],
+  });
+}
+
+function signed(body: string, salt: string) {
+  return new Headers({ 'Hitpay-Signature': crypto.createHmac('sha256', salt).update(body).digest('hex') });
+}
+
+function pendingRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'pr-1',
+    provider: 'HITPAY',
+    providerRequestId: 'hp-req-1',
+    status: 'PENDING',
+    invoice: { id: 'inv-1', companyId: 'company-1', billingNo: 'INV-001', customerName: 'Acme', status: 'SENT', netAmount: 11200 },
+    ...overrides,
+  } as any;
+}
+
+describe('Payment Gateway', () => {
+  const originalEnv = { ...process.env };
+  const originalFetch = global.fetch;
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.HITPAY_API_KEY = SYSTEM.apiKey;
+    process.env.HITPAY_SALT = SYSTEM.webhookSecret;
+    process.env.EMAIL_ENCRYPTION_KEY = 'test-encryption-key';
+    global.fetch = fetchMock;
+    prismaMock.$transaction.mockImplementation(((fn: (tx: typeof prismaMock) => unknown) => fn(prismaMock)) as any);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    global.fetch = originalFetch;
+  });
+
+  describe('getPaymentGateway', () => {
+    it('looks up providers case-insensitively', () => {
+      expect(getPaymentGateway('hitpay')).toBe(hitpayGateway);
+      expect(getPaymentGateway('HITPAY')).toBe(hitpayGateway);
+    });
+
+    it('rejects unknown providers', () => {
+      expect(() => getPaymentGateway('paypal')).toThrow('Unsupported payment provider: paypal');
+    });
+  });
+
+  describe('getCompanyPaymentGateway', () => {
+    it("decrypts the company's own credentials", async () => {
+      prismaMock.company.findUnique.mockResolvedValue({
+        paymentProvider: 'HITPAY',
+        paymentApiKey: encryptSecret(COMPANY.apiKey),
+        paymentWebhookSecret: encryptSecret(COMPANY.webhookSecret),
+      } as any);
+
+      const { gateway, credentials } = await getCompanyPaymentGateway('company-1');
+
+      expect(gateway.name).toBe('HITPAY');
+      expect(credentials).toEqual(COMPANY);
+    });
+
+    it('uses the system account for companies without credentials', async () => {
+      prismaMock.company.findUnique.mockResolvedValue({
+        paymentProvider: null,
+        paymentApiKey: null,
+        paymentWebhookSecret: null,
+      } as any);
+
+      const { gateway, credentials } = await getCompanyPaymentGateway('company-1');
+
+      expect(gateway.name).toBe('HITPAY');
+      expect(credentials).toEqual(SYSTEM);
+    });
+  });
+
+  describe('createInvoicePaymentRequest', () => {
+    it('creates the link with the company provider and stores a pending request', async () => {
+      prismaMock.company.findUnique.mockResolvedValue({
+        paymentProvider: 'HITPAY',
+        paymentApiKey: encryptSecret(COMPANY.apiKey),
+        paymentWebhookSecret: null,
+      } as any);
+      fetchMock.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ id: 'hp-req-1', url: 'https://pay.hit-pay.com/hp-req-1' }),
+      });
+
+      await createInvoicePaymentRequest(
+        { id: 'inv-1', companyId: 'company-1' },
+        { amount: 11200, referenceNumber: 'INV-001' }
+      );
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.stringContaining('/payment-requests'),
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-BUSINESS-API-KEY': COMPANY.apiKey }),
+        })
+      );
+      expect(prismaMock.paymentRequest.create).toHaveBeenCalledWith({
+        data: {
+          invoiceId: 'inv-1',
+          provider: 'HITPAY',
+          providerRequestId: 'hp-req-1',
+          checkoutUrl: 'https://pay.hit-pay.com/hp-req-1',
+          amount: 11200,
+          currency: 'PHP',
+          status: 'PENDING',
+          expiresAt: expect.any(Date),
+        },
+      });
+    });
+
+    it("expires links after the company's link expiry", async () => {
+      prismaMock.company.findUnique.mockResolvedValue({
+        paymentProvider: null,
+        paymentApiKey: null,
+        paymentWebhookSecret: null,
+        paymentLinkExpiryDays: 3,
+      } as any);
+      fetchMock.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ id: 'hp-req-1', url: 'https://pay.hit-pay.com/hp-req-1' }),
+      });
+
+      const before = Date.now();
+      await createInvoicePaymentRequest(
+        { id: 'inv-1', companyId: 'company-1' },
+        { amount: 11200, referenceNumber: 'INV-001' }
+      );
+
+      const { expiresAt } = prismaMock.paymentRequest.create.mock.calls[0][0].data as { expiresAt: Date };
+      expect(expiresAt.getTime() - before).toBeGreaterThanOrEqual(3 * 24 * 60 * 60 * 1000);
+      expect(expiresAt.getTime() - before).toBeLessThan(4 * 24 * 60 * 60 * 1000);
+      expect(fetchMock.mock.calls[0][1].body).toMatch(/expiry_date=\d{4}-\d{2}-\d{2}\+\d{2}%3A\d{2}%3A\d{2}/);
+    });
+  });
+
+  describe('getLiveInvoicePaymentLink', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+
+    function invoiceWithLink(link: Record<string, unknown> | null, overrides: Record<string, unknown> = {}) {
+      return {
+        id: 'inv-1',
+        companyId: 'company-1',
+        billingNo: 'INV-001',
+        customerName: 'Acme',
+        customerEmail: 'billing@acme.test',
+        customerEmails: null,
+        netAmount: 11200,
+        payments: [],
+        creditNotes: [],
+        paymentRequests: link
+          ? [{ id: 'pr-1', status: 'PENDING', amount: 11200, expiresAt: new Date(Date.now() + 5 * DAY), checkoutUrl: 'https://pay/old', ...link }]
+          : [],
+        ...overrides,
+      } as any;
+    }
+
+    beforeEach(() => {
+      prismaMock.company.findUnique.mockResolvedValue(null);
+      fetchMock.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ id: 'hp-req-2', url: 'https://pay/new' }),
+      });
+      prismaMock.paymentRequest.create.mockResolvedValue({ id: 'pr-2', checkoutUrl: 'https://pay/new' } as any);
+    });
+
+    it('reuses a pending link that matches the balance and has time left', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue(invoiceWithLink({}));
+
+      const live = await getLiveInvoicePaymentLink('inv-1');
+
+      expect(live).toEqual({ paymentRequest: expect.objectContaining({ id: 'pr-1' }), created: false });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('replaces a link for an amount that no longer matches the balance', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue(
+        invoiceWithLink({}, { payments: [{ amount: 5000, paidAt: new Date(), reversedAt: null }] })
+      );
+
+      const live = await getLiveInvoicePaymentLink('inv-1');
+
+      expect(live).toEqual({ paymentRequest: expect.objectContaining({ id: 'pr-2' }), created: true });
+      expect(prismaMock.paymentRequest.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: 6200, invoiceId: 'inv-1' }),
+      });
+      expect(supersedePaymentLinks).toHaveBeenCalledWith(prismaMock, 'inv-1', { id: { not: 'pr-2' } });
+    });
+
+    it('replaces a link that has expired or is about to', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue(
+        invoiceWithLink({ expiresAt: new Date(Date.now() + 60 * 60 * 1000) })
+      );
+
+      const live = await getLiveInvoicePaymentLink('inv-1');
+
+      expect(live?.created).toBe(true);
+      expect(fetchMock.mock.calls[0][1].body).toContain('email=billing%40acme.test');
+    });
+
+    it('returns nothing when the invoice has no balance left', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue(
+        invoiceWithLink(null, { payments: [{ amount: 11200, paidAt: new Date(), reversedAt: null }] })
+      );
+
+      expect(await getLiveInvoicePaymentLink('inv-1')).toBeNull();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('only treats pending links as live', () => {
+      const link = { status: 'SUPERSEDED', amount: 11200, expiresAt: null } as any;
+
+      expect(isPaymentLinkLive(link, 11200)).toBe(false);
+      expect(isPaymentLinkLive({ ...link, status: 'PENDING' }, 11200)).toBe(true);
+    });
+  });
+
+  describe('HitPay adapter', () => {
+    it('maps webhook statuses to payment request statuses', () => {
+      expect(hitpayGateway.parseWebhook(webhookBody('completed'))).toEqual({
+        providerRequestId: 'hp-req-1',
+        providerStatus: 'completed',
+        status: 'COMPLETED',
+        amount: 11200,
+        currency: 'PHP',
+        referenceNumber: 'INV-001',
+        paymentMethod: 'gcash',
+        paymentReference: 'hp-pay-1',
+        refund: null,
+      });
+      expect(hitpayGateway.parseWebhook(webhookBody('failed')).status).toBe('FAILED');
+      expect(hitpayGateway.parseWebhook(webhookBody('pending')).status).toBeNull();
+    });
+
+    it('reads refunds and chargebacks from the payment', () => {
+      expect(hitpayGateway.parseWebhook(webhookBody('completed', { refunded_amount: '2000.00' })).refund).toEqual({
+        type: 'REFUND',
+        totalAmount: 2000,
+      });
+      expect(hitpayGateway.parseWebhook(webhookBody('completed', { status: 'charged_back' })).refund).toEqual({
+        type: 'CHARGEBACK',
+        totalAmount: 11200,
+      });
+    });
+
+    it('verifies the HMAC signature with the given webhook secret', () => {
+      const body = webhookBody('completed');
+
+      expect(hitpayGateway.verifyWebhook(body, signed(body, COMPANY.webhookSecret), COMPANY)).toBe(true);
+      expect(hitpayGateway.verifyWebhook(body, signed(body, 'wrong-salt'), COMPANY)).toBe(false);
+      expect(hitpayGateway.verifyWebhook(body, new Headers(), COMPANY)).toBe(false);
+    });
+
+    it('only accepts a signature over the raw body', () => {
+      const body = ` ${JSON.stringify(JSON.parse(webhookBody('completed')), null, 2)}\n`;
+
+      expect(hitpayGateway.verifyWebhook(body, signed(body, COMPANY.webhookSecret), COMPANY)).toBe(true);
+      expect(hitpayGateway.verifyWebhook(body, signed(JSON.stringify(JSON.parse(body)), COMPANY.webhookSecret), COMPANY)).toBe(false);
+      expect(hitpayGateway.verifyWebhook(body, signed(body.trim(), COMPANY.webhookSecret), COMPANY)).toBe(false);
+    });
+
+    it('refunds a payment by its payment ID', async () => {
+      fetchMock.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ id: 'refund-1', status: 'succeeded', amount_refunded: 500 }),
+      });
+
+      const refund = await hitpayGateway.refund({ paymentReference: 'hp-pay-1', amount: 500 }, COMPANY);
+
+      expect(refund).toEqual({ providerRefundId: 'refund-1', status: 'succeeded', amount: 500 });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toMatch(/\/refund$/);
+      expect(init.body).toBe('payment_id=hp-pay-1&amount=500.00');
+    });
+  });
+
+  describe('processPaymentWebhook', () => {
+    beforeEach(() => {
+      prismaMock.company.findUnique.mockResolvedValue(null);
+      prismaMock.payment.findUnique.mockResolvedValue(null);
+    });
+
+    function process(status: string, salt = SYSTEM.webhookSecret) {
+      const body = webhookBody(status);
+      return processPaymentWebhook(hitpayGateway, body, signed(body, salt));
+    }
+
+    it('records a completed payment against the invoice', async () => {
+      prismaMock.paymentRequest.findUnique.mockResolvedValue(pendingRequest());
+
+      const result = await process('completed');
+
+      expect(result).toEqual({
+        outcome: 'PROCESSED',
+        providerStatus: 'completed',
+        providerRequestId: 'hp-req-1',
+        paymentReference: 'hp-pay-1',
+        signatureValid: true,
+      });
+      expect(prismaMock.paymentRequest.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { provider_providerRequestId: { provider: 'HITPAY', providerRequestId: 'hp-req-1' } },
+        })
+      );
+      expect(prismaMock.paymentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'pr-1' },
+        data: expect.objectContaining({ status: 'COMPLETED', paymentMethod: 'gcash', paymentReference: 'hp-pay-1' }),
+      });
+      expect(recordPaymentInTransaction).toHaveBeenCalledWith(
+        prismaMock,
+        'inv-1',
+        expect.objectContaining({
+          amount: 11200,
+          paymentMethod: 'HITPAY',
+          source: 'HITPAY_WEBHOOK',
+          externalId: 'hp-pay-1',
+        }),
+        null
+      );
+      expect(notifyPaymentRecorded).toHaveBeenCalledWith(expect.anything(), 11200, 'HitPay (gcash)');
+    });
+
+    it('rejects webhooks without a valid signature', async () => {
+      prismaMock.paymentRequest.findUnique.mockResolvedValue(pendingRequest());
+
+      const wrongSalt = await process('completed', 'wrong-salt');
+      const unsigned = await processPaymentWebhook(hitpayGateway, webhookBody('completed'), new Headers());
+
+      expect(wrongSalt).toEqual(expect.objectContaining({ outcome: 'REJECTED', signatureValid: false }));
+      expect(unsigned.outcome).toBe('REJECTED');
+      expect(prismaMock.paymentRequest.update).not.toHaveBeenCalled();
+      expect(recordPaymentInTransaction).not.toHaveBeenCalled();
+    });
+
+    it("verifies with the company's own webhook secret", async () => {
+      prismaMock.paymentRequest.findUnique.mockResolvedValue(pendingRequest());
+      prismaMock.company.findUnique.mockResolvedValue({
+        paymentProvider: 'HITPAY',
+        paymentApiKey: null,
+        paymentWebhookSecret: encryptSecret(COMPANY.webhookSecret),
+      } as any);
+
+      expect((await process('completed', SYSTEM.webhookSecret)).outcome).toBe('REJECTED');
+      expect((await process('completed', COMPANY.webhookSecret)).outcome).toBe('PROCESSED');
+    });
+
+    it('skips requests that were already completed', async () => {
+      prismaMock.paymentRequest.findUnique.mockResolvedValue(pendingRequest({ status: 'COMPLETED' }));
+
+      const result = await process('completed');
+
+      expect(result.outcome).toBe('ALREADY_PROCESSED');
+      expect(recordPaymentInTransaction).not.toHaveBeenCalled();
+    });
+
+    it('never records the same payment ID twice', async () => {
+      prismaMock.paymentRequest.findUnique.mockResolvedValue(pendingRequest());
+      prismaMock.payment.findUnique.mockResolvedValue({ id: 'payment-1' } as any);
+
+      const result = await process('completed');
+
+      expect(result.outcome).toBe('ALREADY_PROCESSED');
+      expect(prismaMock.payment.findUnique).toHaveBeenCalledWith({
+        where: { source_externalId: { source: 'HITPAY_WEBHOOK', externalId: 'hp-pay-1' } },
+        select: { id: true },
+      });
+      expect(recordPaymentInTransaction).not.toHaveBeenCalled();
+    });
+
+    it('treats a concurrent delivery that recorded the payment first as already processed', async () => {
+      prismaMock.paymentRequest.findUnique.mockResolvedValue(pendingRequest());
+      (recordPaymentInTransaction as jest.Mock).mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+          meta: { target: ['source', 'externalId'] },
+        })
+      );
+
+      const result = await process('completed');
+
+      expect(result.outcome).toBe('ALREADY_PROCESSED');
+      expect(notifyPaymentRecorded).not.toHaveBeenCalled();
+    });
+
+    it('closes the request on a failed payment and ignores other statuses', async () => {
+      prismaMock.paymentRequest.findUnique.mockResolvedValue(pendingRequest());
+
+      const failed = await process('failed');
+      const pending = await process('pending');
+
+      expect(failed.outcome).toBe('FAILED');
+      expect(pending.outcome).toBe('IGNORED');
+      expect(prismaMock.paymentRequest.update).toHaveBeenCalledTimes(1);
+      expect(prismaMock.paymentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'pr-1' },
+        data: { status: 'FAILED' },
+      });
+    });
+
+    it('records a payment on a superseded link and flags it', async () => {
+      prismaMock.paymentRequest.findUnique.mockResolvedValue(pendingRequest({ status: 'SUPERSEDED' }));
+      prismaMock.invoice.findUniqueOrThrow.mockResolvedValue({
+        status: 'SENT', netAmount: 11200, payments: [], creditNotes: [],
+      } as any);
+
+      const result = await process('completed');
+
+      expect(result.outcome).toBe('STALE_LINK_PAID');
+      expect(recordPaymentInTransaction).toHaveBeenCalledWith(
+        prismaMock, 'inv-1', expect.objectContaining({ amount: 11200 }), null
+      );
+      expect(notifyStalePaymentLinkPaid).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'inv-1', amount: 11200, overpaid: 0 })
+      );
+    });
+
+    it('keeps what a superseded link paid beyond the balance as an overpayment', async () => {
+      prismaMock.paymentRequest.findUnique.mockResolvedValue(pendingRequest({ status: 'SUPERSEDED' }));
+      prismaMock.invoice.findUniqueOrThrow.mockResolvedValue({
+        status: 'PARTIALLY_PAID',
+        netAmount: 11200,
+        payments: [{ amount: 8000, paidAt: new Date(), reversedAt: null }],
+        creditNotes: [],
+      } as any);
+
+      const result = await process('completed');
+
+      expect(result.outcome).toBe('STALE_LINK_PAID');
+      expect(recordPaymentInTransaction).toHaveBeenCalledWith(
+        prismaMock, 'inv-1', expect.objectContaining({ amount: 3200 }), null
+      );
+      expect(prismaMock.paymentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'pr-1' },
+        data: expect.objectContaining({ status: 'COMPLETED', overpaidAmount: 8000 }),
+      });
+      expect(notifyStalePaymentLinkPaid).toHaveBeenCalledTimes(1);
+      expect(notifyStalePaymentLinkPaid).toHaveBeenCalledWith(expect.objectContaining({ overpaid: 8000 }));
+    });
+
+    it('completes a superseded link paid after the invoice was settled without recording it', async () => {
+      prismaMock.paymentRequest.findUnique.mockResolvedValue(
+        pendingRequest({ status: 'SUPERSEDED', invoice: { ...pendingRequest().invoice, status: 'PAID' } })
+      );
+      prismaMock.invoice.findUniqueOrThrow.mockResolvedValue({
+        status: 'PAID', netAmount: 11200, payments: [{ amount: 11200, paidAt: new Date(), reversedAt: null }], creditNotes: [],
+      } as any);
+
+      const result = await process('completed');
+
+      expect(result.outcome).toBe('STALE_LINK_PAID');
+      expect(recordPaymentInTransaction).not.toHaveBeenCalled();
+      expect(prismaMock.paymentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'pr-1' },
+        data: expect.objectContaining({ status: 'COMPLETED', overpaidAmount: 11200 }),
+      });
+
+      // A retry of the same event stops at the completed request and notifies nobody again
+      prismaMock.paymentRequest.findUnique.mockResolvedValue(pendingRequest({ status: 'COMPLETED' }));
+      expect((await process('completed')).outcome).toBe('ALREADY_PROCESSED');
+      expect(notifyStalePaymentLinkPaid).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports unknown payment requests only to signed webhooks', async () => {
+      prismaMock.paymentRequest.findUnique.mockResolvedValue(null);
+
+      const result = await process('completed');
+      const unsigned = await process('completed', 'wrong-salt');
+
+      expect(result).toEqual(expect.objectContaining({ outcome: 'NOT_FOUND', signatureValid: true }));
+      expect(unsigned).toEqual(expect.objectContaining({ outcome: 'REJECTED', signatureValid: false }));
+    });
+  });
+
+  describe('refunds and chargebacks', () => {
+    const completedRequest = () => pendingRequest({ status: 'COMPLETED', amount: 11200 });
+
+    beforeEach(() => {
+      prismaMock.company.findUnique.mockResolvedValue(null);
+      prismaMock.paymentRequest.findUnique.mockResolvedValue(completedRequest());
+      prismaMock.payment.findUnique.mockResolvedValue({ id: 'payment-1' } as any);
+      prismaMock.payment.findMany.mockResolvedValue([]);
+      (recordRefundInTransaction as jest.Mock).mockResolvedValue({
+        invoiceId: 'inv-1',
+        billingNo: 'INV-001',
+        customerName: 'Acme',
+        balance: { status: 'PARTIALLY_PAID', totalPaid: 9200, balance: 2000 },
+        fullyRefunded: false,
+      });
+    });
+
+    function process(payment: Record<string, unknown>) {
+      const body = webhookBody('completed', payment);
+      return processPaymentWebhook(hitpayGateway, body, signed(body, SYSTEM.webhookSecret));
+    }
+
+    it('records a partial refund as a negative payment and reopens the balance', async () => {
+      const result = await process({ refunded_amount: '2000.00' });
+
+      expect(result.outcome).toBe('REFUNDED');
+      expect(recordRefundInTransaction).toHaveBeenCalledWith(
+        prismaMock,
+        'inv-1',
+        expect.objectContaining({
+          amount: 2000,
+          type: 'REFUND',
+          source: 'HITPAY_WEBHOOK',
+          externalId: 'hp-pay-1:REFUND:2000.00',
+        }),
+        null
+      );
+      expect(issueCreditNoteInTransaction).not.toHaveBeenCalled();
+      expect(prismaMock.paymentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'pr-1' },
+        data: { refundedAmount: 2000 },
+      });
+      expect(notifyPaymentRefunded).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 2000, type: 'REFUND', balance: 2000, creditNoteNo: null })
+      );
+    });
+
+    it('records only the part of a running refund total not yet in the ledger', async () => {
+      prismaMock.payment.findMany.mockResolvedValue([
+        { amount: -2000, externalId: 'hp-pay-1:REFUND:2000.00' },
+      ] as any);
+
+      await process({ refunded_amount: '5000.00' });
+
+      expect(recordRefundInTransaction).toHaveBeenCalledWith(
+        prismaMock,
+        'inv-1',
+        expect.objectContaining({ amount: 3000, externalId: 'hp-pay-1:REFUND:5000.00' }),
+        null
+      );
+    });
+
+    it('never records the same refund total twice', async () => {
+      prismaMock.payment.findMany.mockResolvedValue([
+        { amount: -2000, externalId: 'hp-pay-1:REFUND:2000.00' },
+      ] as any);
+
+      const result = await process({ refunded_amount: '2000.00' });
+
+      expect(result.outcome).toBe('ALREADY_PROCESSED');
+      expect(recordRefundInTransaction).not.toHaveBeenCalled();
+    });
+
+    it('closes a fully refunded invoice with a credit note', async () => {
+      (recordRefundInTransaction as jest.Mock).mockResolvedValue({
+        invoiceId: 'inv-1',
+        billingNo: 'INV-001',
+        customerName: 'Acme',
+        balance: { status: 'SENT', totalPaid: 0, balance: 11200 },
+        fullyRefunded: true,
+      });
+
+      const result = await process({ refunded_amount: '11200.00' });
+
+      expect(result.outcome).toBe('REFUNDED');
+      expect(issueCreditNoteInTransaction).toHaveBeenCalledWith(
+        prismaMock,
+        'inv-1',
+        expect.objectContaining({ amount: 11200 }),
+        null
+      );
+      expect(prismaMock.paymentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'pr-1' },
+        data: { refundedAmount: 11200, status: 'REFUNDED' },
+      });
+      expect(notifyPaymentRefunded).toHaveBeenCalledWith(
+        expect.objectContaining({ balance: 0, creditNoteNo: 'CN-0001' })
+      );
+    });
+
+    it('treats a concurrent delivery that recorded the refund first as already processed', async () => {
+      (recordRefundInTransaction as jest.Mock).mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+          meta: { target: ['source', 'externalId'] },
+        })
+      );
+
+      const result = await process({ refunded_amount: '2000.00' });
+
+      expect(result.outcome).toBe('ALREADY_PROCESSED');
+      expect(notifyPaymentRefunded).not.toHaveBeenCalled();
+    });
+
+    it('fails a full refund whose credit note hits another unique constraint', async () => {
+      (recordRefundInTransaction as jest.Mock).mockResolvedValue({
+        invoiceId: 'inv-1',
+        billingNo: 'INV-001',
+        customerName: 'Acme',
+        balance: { status: 'SENT', totalPaid: 0, balance: 11200 },
+        fullyRefunded: true,
+      });
+      (issueCreditNoteInTransaction as jest.Mock).mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+          meta: { target: ['companyId', 'creditNoteNo'] },
+        })
+      );
+
+      await expect(process({ refunded_amount: '11200.00' })).rejects.toThrow('Unique constraint failed');
+      expect(notifyPaymentRefunded).not.toHaveBeenCalled();
+    });
+
+    it('reopens the balance on a chargeback without crediting it', async () => {
+      (recordRefundInTransaction as jest.Mock).mockResolvedValue({
+        invoiceId: 'inv-1',
+        billingNo: 'INV-001',
+        customerName: 'Acme',
+        balance: { status: 'SENT', totalPaid: 0, balance: 11200 },
+        fullyRefunded: true,
+      });
+
+      const result = await process({ status: 'charged_back' });
+
+      expect(result.outcome).toBe('CHARGED_BACK');
+      expect(recordRefundInTransaction).toHaveBeenCalledWith(
+        prismaMock,
+        'inv-1',
+        expect.objectContaining({ amount: 11200, type: 'CHARGEBACK' }),
+        null
+      );
+      expect(issueCreditNoteInTransaction).not.toHaveBeenCalled();
+      expect(prismaMock.paymentRequest.update).toHaveBeenCalledWith({
+        where: { id: 'pr-1' },
+        data: { refundedAmount: 11200, status: 'CHARGED_BACK' },
+      });
+    });
+
+    it('skips refunds of payments that were never recorded', async () => {
+      prismaMock.payment.findUnique.mockResolvedValue(null);
+
+      const result = await process({ refunded_amount: '2000.00' });
+
+      expect(result.outcome).toBe('NOT_FOUND');
+      expect(recordRefundInTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * Unit tests for the payment ledger service
+ */
+
+import { prismaMock } from './mocks/prisma';
+import {
+  calculateInvoiceBalance,
+  canRecordPayment,
+  recordPayment,
+  recordRefundInTransaction,
+  reversePayment,
+} from '@/lib/payment-service';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+describe('Payment Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prismaMock.$transaction.mockImplementation(((fn: (tx: typeof prismaMock) => unknown) =>
+      fn(prismaMock)) as any);
+    prismaMock.creditNote.findMany.mockResolvedValue([]);
+  });
+
+  describe('calculateInvoiceBalance', () => {
+    it('returns SENT with full balance when nothing is paid', () => {
+      const result = calculateInvoiceBalance(1000, []);
+
+      expect(result).toEqual({
+        totalDue: 1000,
+        totalCredited: 0,
+        totalPaid: 0,
+        balance: 1000,
+        status: 'SENT',
+        lastPaidAt: null,
+      });
+    });
+
+    it('returns PARTIALLY_PAID when payments do not cover the total', () => {
+      const paidAt = new Date('2025-01-10');
+      const result = calculateInvoiceBalance(1000, [{ amount: 400, paidAt }]);
+
+      expect(result.status).toBe('PARTIALLY_PAID');
+      expect(result.totalPaid).toBe(400);
+      expect(result.balance).toBe(600);
+      expect(result.lastPaidAt).toEqual(paidAt);
+    });
+
+    it('returns PAID when payments cover the total', () => {
+      const result = calculateInvoiceBalance(1000.1, [
+        { amount: 500.05, paidAt: new Date('2025-01-10') },
+        { amount: 500.05, paidAt: new Date('2025-01-20') },
+      ]);
+
+      expect(result.status).toBe('PAID');
+      expect(result.balance).toBe(0);
+      expect(result.lastPaidAt).toEqual(new Date('2025-01-20'));
+    });
+
+    it('deducts issued credit notes from the balance', () => {
+      const result = calculateInvoiceBalance(1000, [{ amount: 600, paidAt: new Date() }], 400);
+
+      expect(result.status).toBe('PAID');
+      expect(result.totalCredited).toBe(400);
+      expect(result.balance).toBe(0);
+    });
+
+    it('keeps SENT status when an unpaid invoice is only partially credited', () => {
+      const result = calculateInvoiceBalance(1000, [], 250);
+
+      expect(result.status).toBe('SENT');
+      expect(result.balance).toBe(750);
+    });
+
+    it('ignores reversed payments', () => {
+      const result = calculateInvoiceBalance(1000, [
+        { amount: 1000, paidAt: new Date('2025-01-10'), reversedAt: new Date('2025-01-11') },
+        { amount: 250, paidAt: new Date('2025-01-12') },
+      ]);
+
+      expect(result.status).toBe('PARTIALLY_PAID');
+      expect(result.totalPaid).toBe(250);
+      expect(result.balance).toBe(750);
+    });
+
+    it('deducts refunds from the amount paid', () => {
+      const paidAt = new Date('2025-01-10');
+      const result = calculateInvoiceBalance(1000, [
+        { amount: 1000, paidAt },
+        { amount: -400, paidAt: new Date('2025-01-20') },
+      ]);
+
+      expect(result.status).toBe('PARTIALLY_PAID');
+      expect(result.totalPaid).toBe(600);
+      expect(result.balance).toBe(400);
+      expect(result.lastPaidAt).toEqual(paidAt);
+    });
+  });
+
+  describe('canRecordPayment', () => {
+    it('rejects missing invoices', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue(null);
+
+      const result = await canRecordPayment('inv-1', 100);
+
+      expect(result).toEqual({ canRecord: false, reason: 'Invoice not found' });
+    });
+
+    it('rejects invoices that are not payable', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue({
+        status: 'APPROVED',
+        netAmount: 1000,
+        payments: [],
+        creditNotes: [],
+      } as any);
+
+      const result = await canRecordPayment('inv-1', 100);
+
+      expect(result.canRecord).toBe(false);
+      expect(result.reason).toContain('APPROVED');
+    });
+
+    it('rejects overpayments', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue({
+        status: 'PARTIALLY_PAID',
+        netAmount: 1000,
+        payments: [{ amount: 600, paidAt: new Date(), reversedAt: null }],
+        creditNotes: [],
+      } as any);
+
+      const result = await canRecordPayment('inv-1', 500);
+
+      expect(result.canRecord).toBe(false);
+      expect(result.reason).toContain('exceeds the outstanding balance of 400.00');
+    });
+
+    it('allows payments up to the outstanding balance', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue({
+        status: 'PARTIALLY_PAID',
+        netAmount: 1000,
+        payments: [{ amount: 600, paidAt: new Date(), reversedAt: null }],
+        creditNotes: [],
+      } as any);
+
+      const result = await canRecordPayment('inv-1', 400);
+
+      expect(result.canRecord).toBe(true);
+      expect(result.balance?.balance).toBe(400);
+    });
+  });
+
+  describe('recordPayment', () => {
+    const invoice = {
+      id: 'inv-1',
+      billingNo: 'S-0001',
+      customerName: 'Test Client',
+      status: 'SENT',
+      netAmount: 1000,
+      payments: [],
+      creditNotes: [],
+    };
+
+    it('records a partial payment and sets PARTIALLY_PAID', async () => {
+      const paidAt = new Date('2025-02-01');
+      prismaMock.invoice.findUnique.mockResolvedValue(invoice as any);
+      prismaMock.payment.create.mockResolvedValue({ id: 'pay-1' } as any);
+      prismaMock.payment.findMany.mockResolvedValue([
+        { id: 'pay-1', amount: 300, paidAt, reversedAt: null, paymentMethod: 'CASH', reference: 'OR-1' },
+      ] as any);
+
+      const result = await recordPayment(
+        'inv-1',
+        { amount: 300, paymentMethod: 'CASH', reference: 'OR-1', paidAt },
+        'user-1'
+      );
+
+      expect(prismaMock.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          invoiceId: 'inv-1',
+          amount: 300,
+          paymentMethod: 'CASH',
+          reference: 'OR-1',
+          source: 'MANUAL',
+          recordedById: 'user-1',
+        }),
+      });
+      expect(prismaMock.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-1' },
+        data: {
+          status: 'PARTIALLY_PAID',
+          paidAmount: 300,
+          paidAt,
+          paymentMethod: 'CASH',
+          paymentReference: 'OR-1',
+        },
+      });
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'PAYMENT_RECORDED', entityId: 'inv-1' }),
+      });
+      expect(prismaMock.paymentRequest.updateMany).toHaveBeenCalledWith({
+        where: { amount: { not: 700 }, invoiceId: 'inv-1', status: 'PENDING' },
+        data: { status: 'SUPERSEDED', supersededAt: expect.any(Date) },
+      });
+      expect(result.balance.balance).toBe(700);
+      expect(result.previousStatus).toBe('SENT');
+    });
+
+    it('marks the invoice PAID when the balance is settled', async () => {
+      const paidAt = new Date('2025-02-01');
+      prismaMock.invoice.findUnique.mockResolvedValue({
+        ...invoice,
+        status: 'PARTIALLY_PAID',
+        payments: [{ amount: 300, paidAt: new Date('2025-01-15'), reversedAt: null }],
+      } as any);
+      prismaMock.payment.create.mockResolvedValue({ id: 'pay-2' } as any);
+      prismaMock.payment.findMany.mockResolvedValue([
+        { id: 'pay-1', amount: 300, paidAt: new Date('2025-01-15'), reversedAt: null, paymentMethod: 'CASH', reference: null },
+        { id: 'pay-2', amount: 700, paidAt, reversedAt: null, paymentMethod: 'BANK_TRANSFER', reference: 'TRX-2' },
+      ] as any);
+
+      const result = await recordPayment('inv-1', {
+        amount: 700,
+        paymentMethod: 'BANK_TRANSFER',
+        reference: 'TRX-2',
+        paidAt,
+      });
+
+      expect(prismaMock.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-1' },
+        data: expect.objectContaining({ status: 'PAID', paidAmount: 1000, paidAt }),
+      });
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'INVOICE_PAID' }),
+      });
+      expect(result.balance.status).toBe('PAID');
+    });
+
+    it('throws when the payment exceeds the balance', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue(invoice as any);
+
+      await expect(
+        recordPayment('inv-1', { amount: 1500, paymentMethod: 'CASH' })
+      ).rejects.toThrow('exceeds the outstanding balance');
+      expect(prismaMock.payment.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reversePayment', () => {
+    it('reverses a payment and reopens the invoice', async () => {
+      prismaMock.payment.findUnique.mockResolvedValue({
+        id: 'pay-1',
+        invoiceId: 'inv-1',
+        amount: 1000,
+        paymentMethod: 'CHECK',
+        reversedAt: null,
+        invoice: {
+          id: 'inv-1',
+          billingNo: 'S-0001',
+          customerName: 'Test Client',
+          status: 'PAID',
+          netAmount: 1000,
+        },
+      } as any);
+      prismaMock.payment.findMany.mockResolvedValue([
+        { id: 'pay-1', amount: 1000, paidAt: new Date(), reversedAt: new Date(), paymentMethod: 'CHECK', reference: null },
+      ] as any);
+
+      const result = await reversePayment('pay-1', 'Check bounced', 'user-1');
+
+      expect(prismaMock.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay-1' },
+        data: expect.objectContaining({ reversedById: 'user-1', reversalReason: 'Check bounced' }),
+      });
+      expect(prismaMock.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-1' },
+        data: expect.objectContaining({ status: 'SENT', paidAmount: null, paidAt: null }),
+      });
+      expect(result.balance.balance).toBe(1000);
+    });
+
+    it('rejects already reversed payments', async () => {
+      prismaMock.payment.findUnique.mockResolvedValue({
+        id: 'pay-1',
+        reversedAt: new Date(),
+        invoice: {},
+      } as any);
+
+      await expect(reversePayment('pay-1', 'Duplicate', 'user-1')).rejects.toThrow(
+        'Payment has already been reversed'
+      );
+    });
+  });
+
+  describe('recordRefundInTransaction', () => {
+    const paidInvoice = {
+      id: 'inv-1',
+      billingNo: 'S-0001',
+      customerName: 'Test Client',
+      status: 'PAID',
+      netAmount: 1000,
+      payments: [{ amount: 1000, paidAt: new Date('2025-02-01'), reversedAt: null }],
+      creditNotes: [],
+    };
+
+    it('records a negative entry and reopens the invoice balance', async () => {
+      const paidAt = new Date('2025-02-01');
+      prismaMock.invoice.findUnique.mockResolvedValue(paidInvoice as any);
+      prismaMock.payment.create.mockResolvedValue({ id: 'refund-1' } as any);
+      prismaMock.payment.findMany.mockResolvedValue([
+        { id: 'pay-1', amount: 1000, paidAt, reversedAt: null, paymentMethod: 'HITPAY', reference: 'hp-pay-1' },
+        { id: 'refund-1', amount: -300, paidAt: new Date('2025-02-10'), reversedAt: null, paymentMethod: 'HITPAY', reference: 'hp-pay-1' },
+      ] as any);
+
+      const result = await recordRefundInTransaction(prismaMock as any, 'inv-1', {
+        amount: 300,
+        type: 'REFUND',
+        paymentMethod: 'HITPAY',
+        reference: 'hp-pay-1',
+        source: 'HITPAY_WEBHOOK',
+        externalId: 'hp-pay-1:REFUND:300.00',
+      });
+
+      expect(prismaMock.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          amount: -300,
+          type: 'REFUND',
+          source: 'HITPAY_WEBHOOK',
+          externalId: 'hp-pay-1:REFUND:300.00',
+        }),
+      });
+      expect(prismaMock.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-1' },
+        data: expect.objectContaining({ status: 'PARTIALLY_PAID', paidAmount: 700, paidAt }),
+      });
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'PAYMENT_REFUNDED', entityId: 'inv-1' }),
+      });
+      expect(result.balance.balance).toBe(300);
+      expect(result.fullyRefunded).toBe(false);
+    });
+
+    it('rejects refunds of more than was paid', async () => {
+      prismaMock.invoice.findUnique.mockResolvedValue(paidInvoice as any);
+
+      await expect(
+        recordRefundInTransaction(prismaMock as any, 'inv-1', {
+          amount: 1200,
+          type: 'CHARGEBACK',
+          paymentMethod: 'HITPAY',
+        })
+      ).rejects.toThrow('exceeds the 1000.00 paid on the invoice');
+      expect(prismaMock.payment.create).not.toHaveBeenCalled();
+    });
+  });
+});
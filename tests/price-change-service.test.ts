@@ -0,0 +1,174 @@
+/**
+ * Unit tests for scheduled billing price changes, escalation and advance notices
+ */
+
+import { prismaMock } from './mocks/prisma';
+import {
+  getEffectiveBillingAmount,
+  getUpcomingPriceChanges,
+  sendDuePriceChangeNotices,
+} from '@/lib/price-change-service';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+jest.mock('@/lib/email-service', () => ({
+  initEmailServiceFromEnv: jest.fn(),
+  getPriceChangeTemplate: jest.fn(),
+  replacePlaceholders: jest.fn((text: string) => text),
+  generateEmailHtmlFromTemplate: jest.fn(() => '<p>html</p>'),
+  sendNoticeEmail: jest.fn(),
+}));
+
+import { getPriceChangeTemplate, sendNoticeEmail } from '@/lib/email-service';
+
+function schedule(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sched-1',
+    billingAmount: 10000,
+    startDate: new Date(2024, 0, 1),
+    escalationRate: null,
+    escalationMonths: null,
+    priceNoticeDays: null,
+    contract: { contractStart: null, companyName: 'Acme Corp', email: 'billing@acme.test', emails: null },
+    billingEntity: { id: 'company-1', name: 'YOWI' },
+    priceChanges: [] as Array<Record<string, unknown>>,
+    ...overrides,
+  } as any;
+}
+
+describe('Price Change Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getEffectiveBillingAmount', () => {
+    it('uses the latest price change effective on the billing date', () => {
+      const s = schedule({
+        priceChanges: [
+          { effectiveDate: new Date(2025, 0, 1), amount: 12000, reason: 'New rate card' },
+          { effectiveDate: new Date(2025, 6, 1), amount: 15000, reason: 'Added headcount' },
+        ],
+      });
+
+      expect(getEffectiveBillingAmount(s, new Date(2024, 11, 15))).toMatchObject({ amount: 10000, source: 'BASE' });
+      expect(getEffectiveBillingAmount(s, new Date(2025, 0, 1))).toMatchObject({
+        amount: 12000,
+        source: 'PRICE_CHANGE',
+        reason: 'New rate card',
+      });
+      expect(getEffectiveBillingAmount(s, new Date(2025, 6, 15)).amount).toBe(15000);
+    });
+
+    it('compounds escalations on every contract anniversary', () => {
+      const s = schedule({
+        escalationRate: 0.05,
+        escalationMonths: 12,
+        contract: { contractStart: new Date(2024, 2, 1) },
+      });
+
+      expect(getEffectiveBillingAmount(s, new Date(2024, 5, 15)).amount).toBe(10000);
+      expect(getEffectiveBillingAmount(s, new Date(2025, 2, 1))).toMatchObject({
+        amount: 10500,
+        source: 'ESCALATION',
+        effectiveDate: new Date(2025, 2, 1),
+        reason: 'Automatic escalation +5%',
+      });
+      expect(getEffectiveBillingAmount(s, new Date(2026, 2, 15)).amount).toBe(11025);
+    });
+
+    it('escalates from the latest price change rather than the base amount', () => {
+      const s = schedule({
+        escalationRate: 0.1,
+        escalationMonths: 12,
+        priceChanges: [{ effectiveDate: new Date(2025, 3, 1), amount: 20000, reason: null }],
+      });
+
+      expect(getEffectiveBillingAmount(s, new Date(2025, 11, 31)).amount).toBe(20000);
+      expect(getEffectiveBillingAmount(s, new Date(2026, 0, 1)).amount).toBe(22000);
+    });
+  });
+
+  describe('getUpcomingPriceChanges', () => {
+    it('lists manual changes and escalations with the previous amount', () => {
+      const s = schedule({
+        escalationRate: 0.05,
+        escalationMonths: 12,
+        priceChanges: [{ effectiveDate: new Date(2025, 5, 1), amount: 11000, reason: 'Scope change' }],
+      });
+
+      expect(getUpcomingPriceChanges(s, new Date(2024, 11, 31), new Date(2026, 0, 1))).toEqual([
+        expect.objectContaining({ effectiveDate: new Date(2025, 0, 1), amount: 10500, previousAmount: 10000, source: 'ESCALATION' }),
+        expect.objectContaining({ effectiveDate: new Date(2025, 5, 1), amount: 11000, previousAmount: 10500, source: 'PRICE_CHANGE' }),
+        expect.objectContaining({ effectiveDate: new Date(2026, 0, 1), amount: 11550, previousAmount: 11000, source: 'ESCALATION' }),
+      ]);
+    });
+  });
+
+  describe('sendDuePriceChangeNotices', () => {
+    const template = { subject: 'Upcoming change', greeting: 'Hi', body: 'Body', closing: 'Bye' };
+
+    it('notifies clients of escalations within the notice period and stores them', async () => {
+      prismaMock.scheduledBilling.findMany.mockResolvedValue([
+        schedule({ escalationRate: 0.05, escalationMonths: 12, priceNoticeDays: 30 }),
+      ]);
+      (getPriceChangeTemplate as jest.Mock).mockResolvedValue(template);
+      (sendNoticeEmail as jest.Mock).mockResolvedValue({ success: true, messageId: 'msg-1' });
+      prismaMock.scheduledBillingPriceChange.create.mockResolvedValue({ id: 'pc-1' } as any);
+
+      const result = await sendDuePriceChangeNotices(new Date(2024, 11, 10));
+
+      expect(result).toEqual({ processed: 1, sent: 1, skipped: 0, errors: [] });
+      expect(sendNoticeEmail).toHaveBeenCalledWith('company-1', 'billing@acme.test', 'Upcoming change', 'Hi\n\nBody\n\nBye', '<p>html</p>');
+      expect(prismaMock.scheduledBillingPriceChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          scheduledBillingId: 'sched-1',
+          effectiveDate: new Date(2025, 0, 1),
+          amount: 10500,
+          isEscalation: true,
+          noticeSentAt: expect.any(Date),
+        }),
+      });
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'PRICE_CHANGE_NOTICE_SENT', entityId: 'sched-1' }),
+      });
+    });
+
+    it('does not resend notices already sent', async () => {
+      prismaMock.scheduledBilling.findMany.mockResolvedValue([
+        schedule({
+          priceNoticeDays: 30,
+          priceChanges: [
+            { id: 'pc-1', effectiveDate: new Date(2025, 0, 1), amount: 12000, reason: null, noticeSentAt: new Date(2024, 11, 5) },
+          ],
+        }),
+      ]);
+      (getPriceChangeTemplate as jest.Mock).mockResolvedValue(template);
+
+      const result = await sendDuePriceChangeNotices(new Date(2024, 11, 10));
+
+      expect(result.processed).toBe(0);
+      expect(sendNoticeEmail).not.toHaveBeenCalled();
+    });
+
+    it('skips clients without an email address and leaves the notice pending', async () => {
+      prismaMock.scheduledBilling.findMany.mockResolvedValue([
+        schedule({
+          priceNoticeDays: 14,
+          contract: { contractStart: null, companyName: 'Acme Corp', email: null, emails: null },
+          priceChanges: [{ id: 'pc-1', effectiveDate: new Date(2024, 11, 20), amount: 12000, reason: null, noticeSentAt: null }],
+        }),
+      ]);
+      (getPriceChangeTemplate as jest.Mock).mockResolvedValue(template);
+
+      const result = await sendDuePriceChangeNotices(new Date(2024, 11, 10));
+
+      expect(result).toMatchObject({ processed: 1, sent: 0, skipped: 1 });
+      expect(result.errors[0].error).toBe('No email address for this client');
+      expect(prismaMock.scheduledBillingPriceChange.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Unit tests for schedule version snapshots, diffs and amendment history
+ */
+
+import { prismaMock } from './mocks/prisma';
+import { Prisma } from '@/generated/prisma';
+import {
+  VersionedSchedule,
+  diffScheduleSnapshots,
+  getCurrentScheduleVersion,
+  recordScheduleVersion,
+  toScheduleSnapshot,
+} from '@/lib/schedule-version-service';
+import { updateScheduledBilling } from '@/lib/scheduled-billing-service';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+function schedule(overrides: Partial<VersionedSchedule> = {}): VersionedSchedule {
+  return {
+    id: 'sched-1',
+    createdById: 'user-1',
+    nextBillingDate: new Date('2025-07-15T00:00:00Z'),
+    billingAmount: new Prisma.Decimal(50000),
+    vatType: 'VAT',
+    hasWithholding: true,
+    withholdingRate: new Prisma.Decimal(0.02),
+    description: 'Monthly service fee',
+    frequency: 'MONTHLY',
+    customIntervalValue: null,
+    customIntervalUnit: null,
+    billingDayOfMonth: 15,
+    dueDayOfMonth: null,
+    startDate: new Date('2025-01-15T00:00:00Z'),
+    endDate: null,
+    prorationMethod: 'NONE',
+    businessDayRule: 'NONE',
+    escalationRate: null,
+    escalationMonths: null,
+    priceNoticeDays: null,
+    billingMode: 'FIXED',
+    usageMetric: null,
+    usageRate: null,
+    usageTiers: null,
+    usageMinimumFee: null,
+    autoApprove: false,
+    autoSendEnabled: true,
+    status: 'ACTIVE',
+    remarks: null,
+    ...overrides,
+  } as VersionedSchedule;
+}
+
+describe('Schedule Version Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prismaMock.scheduledBillingVersion.create.mockImplementation(((args: any) => Promise.resolve(args.data)) as any);
+  });
+
+  describe('toScheduleSnapshot and diffScheduleSnapshots', () => {
+    it('stores dates as ISO strings and decimals as numbers', () => {
+      const snapshot = toScheduleSnapshot(schedule());
+
+      expect(snapshot.billingAmount).toBe(50000);
+      expect(snapshot.withholdingRate).toBe(0.02);
+      expect(snapshot.startDate).toBe('2025-01-15T00:00:00.000Z');
+      expect(snapshot).not.toHaveProperty('nextBillingDate');
+    });
+
+    it('lists only the fields that changed', () => {
+      const changes = diffScheduleSnapshots(
+        toScheduleSnapshot(schedule()),
+        toScheduleSnapshot(schedule({ billingAmount: new Prisma.Decimal(55000), dueDayOfMonth: 30 }))
+      );
+
+      expect(changes).toEqual({
+        billingAmount: { from: 50000, to: 55000 },
+        dueDayOfMonth: { from: null, to: 30 },
+      });
+    });
+  });
+
+  describe('recordScheduleVersion', () => {
+    it('records the next version with its changes, effective from the next billing date', async () => {
+      prismaMock.scheduledBillingVersion.findFirst.mockResolvedValue({ version: 3 } as any);
+
+      const version = await recordScheduleVersion(
+        schedule(),
+        schedule({ billingAmount: new Prisma.Decimal(55000) }),
+        { changedById: 'user-2', changeReason: 'Renewal' }
+      );
+
+      expect(version).toEqual(
+        expect.objectContaining({
+          scheduledBillingId: 'sched-1',
+          version: 4,
+          changes: { billingAmount: { from: 50000, to: 55000 } },
+          effectiveDate: new Date('2025-07-15T00:00:00Z'),
+          changeReason: 'Renewal',
+          changedById: 'user-2',
+        })
+      );
+      expect(prismaMock.scheduledBillingVersion.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('records the original terms first for schedules created before versioning', async () => {
+      prismaMock.scheduledBillingVersion.findFirst.mockResolvedValue(null);
+
+      await recordScheduleVersion(schedule(), schedule({ status: 'PAUSED' }), { changedById: 'user-2' });
+
+      expect(prismaMock.scheduledBillingVersion.create).toHaveBeenNthCalledWith(1, {
+        data: expect.objectContaining({
+          version: 1,
+          effectiveDate: new Date('2025-01-15T00:00:00Z'),
+          changedById: 'user-1',
+        }),
+      });
+      expect(prismaMock.scheduledBillingVersion.create).toHaveBeenNthCalledWith(2, {
+        data: expect.objectContaining({ version: 2, changes: { status: { from: 'ACTIVE', to: 'PAUSED' } } }),
+      });
+    });
+
+    it('records nothing when no versioned field changed', async () => {
+      const version = await recordScheduleVersion(schedule(), schedule({ nextBillingDate: new Date('2025-08-15') }));
+
+      expect(version).toBeNull();
+      expect(prismaMock.scheduledBillingVersion.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCurrentScheduleVersion', () => {
+    it('records version 1 from the start date for an unversioned schedule', async () => {
+      prismaMock.scheduledBillingVersion.findFirst.mockResolvedValue(null);
+      prismaMock.scheduledBilling.findUnique.mockResolvedValue(schedule() as any);
+
+      const version = await getCurrentScheduleVersion('sched-1');
+
+      expect(version).toEqual(
+        expect.objectContaining({ version: 1, changedById: 'user-1', effectiveDate: new Date('2025-01-15T00:00:00Z') })
+      );
+    });
+  });
+
+  describe('updateScheduledBilling', () => {
+    it('records the edit in the same transaction', async () => {
+      prismaMock.$transaction.mockImplementation(((fn: any) => fn(prismaMock)) as any);
+      prismaMock.scheduledBilling.findUnique.mockResolvedValue(schedule() as any);
+      prismaMock.scheduledBilling.update.mockResolvedValue(schedule({ billingDayOfMonth: 1 }) as any);
+      prismaMock.scheduledBillingVersion.findFirst.mockResolvedValue({ version: 1 } as any);
+
+      await updateScheduledBilling('sched-1', { billingDayOfMonth: 1 }, { changedById: 'user-2' });
+
+      expect(prismaMock.scheduledBillingVersion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          version: 2,
+          changes: { billingDayOfMonth: { from: 15, to: 1 } },
+          changedById: 'user-2',
+        }),
+      });
+    });
+  });
+});
@@ -19,10 +19,10 @@ jest.mock('@/lib/prisma', () => ({
 }));
 
 // Mock email service
-const mockSendBillingEmail = jest.fn();
+const mockQueueBillingEmail = jest.fn();
 const mockInitEmailServiceFromEnv = jest.fn();
 jest.mock('@/lib/email-service', () => ({
-  sendBillingEmail: mockSendBillingEmail,
+  queueBillingEmail: mockQueueBillingEmail,
   initEmailServiceFromEnv: mockInitEmailServiceFromEnv,
   getEmailTemplateForPartner: jest.fn(() => Promise.resolve({
     subject: 'Bill No. {{billingNo}} | {{customerName}}',
@@ -475,16 +475,16 @@ describe('Scheduled Email Automation', () => {
       expect(result.error).toContain('No email');
     });
 
-    test('should send email and update status on success', async () => {
+    test('should queue email and update status on success', async () => {
       const approvedInvoice = createMockInvoice({ status: InvoiceStatus.APPROVED });
       prismaMock.invoice.findUnique.mockResolvedValue(approvedInvoice);
       prismaMock.invoice.update.mockResolvedValue({ ...approvedInvoice, status: InvoiceStatus.SENT });
       prismaMock.auditLog.create.mockResolvedValue({} as any);
       prismaMock.notification.create.mockResolvedValue({} as any);
 
-      mockSendBillingEmail.mockResolvedValue({
+      mockQueueBillingEmail.mockResolvedValue({
         success: true,
-        messageId: 'msg-123',
+        emailLogId: 'log-123',
       });
 
       const { autoSendInvoice } = await import('@/lib/auto-send');
@@ -492,15 +492,15 @@ describe('Scheduled Email Automation', () => {
 
       expect(result.success).toBe(true);
       expect(result.sentTo).toBe('john@test.com');
-      expect(result.messageId).toBe('msg-123');
-      expect(mockSendBillingEmail).toHaveBeenCalled();
+      expect(result.emailLogId).toBe('log-123');
+      expect(mockQueueBillingEmail).toHaveBeenCalled();
     });
 
-    test('should return error if email send fails', async () => {
+    test('should return error if email cannot be queued', async () => {
       const approvedInvoice = createMockInvoice({ status: InvoiceStatus.APPROVED });
       prismaMock.invoice.findUnique.mockResolvedValue(approvedInvoice);
 
-      mockSendBillingEmail.mockResolvedValue({
+      mockQueueBillingEmail.mockResolvedValue({
         success: false,
         error: 'SMTP connection failed',
       });
@@ -519,9 +519,9 @@ describe('Scheduled Email Automation', () => {
       prismaMock.auditLog.create.mockResolvedValue({} as any);
       prismaMock.notification.create.mockResolvedValue({} as any);
 
-      mockSendBillingEmail.mockResolvedValue({
+      mockQueueBillingEmail.mockResolvedValue({
         success: true,
-        messageId: 'msg-123',
+        emailLogId: 'log-123',
       });
 
       const { autoSendInvoice } = await import('@/lib/auto-send');
@@ -641,7 +641,7 @@ describe('Scheduled Email Automation', () => {
       prismaMock.auditLog.create.mockResolvedValue({} as any);
       prismaMock.notification.create.mockResolvedValue({} as any);
 
-      mockSendBillingEmail.mockResolvedValue({ success: true, messageId: 'msg-123' });
+      mockQueueBillingEmail.mockResolvedValue({ success: true, emailLogId: 'log-123' });
 
       const { autoSendInvoice } = await import('@/lib/auto-send');
       const sendResult = await autoSendInvoice(invoice.id);
@@ -738,7 +738,7 @@ describe('Scheduled Email Automation', () => {
       const approvedInvoice = createMockInvoice({ status: InvoiceStatus.APPROVED });
       prismaMock.invoice.findUnique.mockResolvedValue(approvedInvoice);
 
-      mockSendBillingEmail.mockRejectedValue(new Error('Network error'));
+      mockQueueBillingEmail.mockRejectedValue(new Error('Network error'));
 
       const { autoSendInvoice } = await import('@/lib/auto-send');
       const result = await autoSendInvoice('invoice-1');
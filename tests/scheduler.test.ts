@@ -0,0 +1,356 @@
+/**
+ * Unit tests for the scheduler billing catch-up, dunning and price notice jobs, follow-up level selection and status
+ */
+
+import { prismaMock } from './mocks/prisma';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+jest.mock('node-cron', () => ({ schedule: jest.fn() }));
+jest.mock('@/lib/auto-send', () => ({ autoSendInvoice: jest.fn() }));
+jest.mock('@/lib/invoice-generator', () => ({ generateFromScheduledBilling: jest.fn() }));
+jest.mock('@/lib/scheduled-billing-service', () => ({
+  getFollowingBillingDate: jest.requireActual('@/lib/scheduled-billing-service').getFollowingBillingDate,
+  getSchedulesDueToday: jest.fn(),
+  getSchedulesWithMissedRuns: jest.fn(),
+  checkExistingInvoiceForPeriod: jest.fn(),
+  updateNextBillingDate: jest.fn(),
+  createScheduledBillingRun: jest.fn(),
+}));
+jest.mock('@/lib/settings', () => ({
+  getSchedulerSettings: jest.fn(),
+  getDunningSettings: jest.fn(),
+}));
+jest.mock('@/lib/job-lock-service', () => ({
+  acquireJobLock: jest.fn(() => Promise.resolve({ jobName: 'daily-billing-check', holder: 'test' })),
+  renewJobLock: jest.fn(() => Promise.resolve(true)),
+  releaseJobLock: jest.fn(),
+}));
+jest.mock('@/lib/follow-up-ladder-service', () => ({
+  getFollowUpLadder: jest.fn(),
+}));
+jest.mock('@/lib/price-change-service', () => ({
+  sendDuePriceChangeNotices: jest.fn(),
+}));
+jest.mock('@/lib/follow-up-service', () => ({
+  ...jest.requireActual('@/lib/follow-up-service'),
+  sendFollowUpEmail: jest.fn(),
+}));
+
+import { getSchedulerStatusAsync, triggerBillingJob, triggerDunningJob, triggerPriceNoticeJob } from '@/lib/scheduler';
+import { generateFromScheduledBilling } from '@/lib/invoice-generator';
+import {
+  getFollowingBillingDate,
+  getSchedulesDueToday,
+  getSchedulesWithMissedRuns,
+  checkExistingInvoiceForPeriod,
+  updateNextBillingDate,
+} from '@/lib/scheduled-billing-service';
+import { getDunningSettings, getSchedulerSettings } from '@/lib/settings';
+import { getFollowUpLadder } from '@/lib/follow-up-ladder-service';
+import { getDueFollowUpLevel, sendFollowUpEmail } from '@/lib/follow-up-service';
+import { acquireJobLock, releaseJobLock } from '@/lib/job-lock-service';
+import { sendDuePriceChangeNotices } from '@/lib/price-change-service';
+
+function daysAgo(days: number): Date {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+}
+
+describe('Scheduler', () => {
+  describe('getDueFollowUpLevel', () => {
+    const offsets = [3, 10, 20];
+
+    it('waits until the first offset is reached', () => {
+      expect(getDueFollowUpLevel({ dueDate: daysAgo(2), lastFollowUpLevel: 0, lastFollowUpAt: null }, offsets)).toBeNull();
+      expect(getDueFollowUpLevel({ dueDate: daysAgo(3), lastFollowUpLevel: 0, lastFollowUpAt: null }, offsets)).toBe(1);
+    });
+
+    it('spaces later levels by the gap between offsets', () => {
+      const invoice = { dueDate: daysAgo(25), lastFollowUpLevel: 1 };
+
+      expect(getDueFollowUpLevel({ ...invoice, lastFollowUpAt: daysAgo(1) }, offsets)).toBeNull();
+      expect(getDueFollowUpLevel({ ...invoice, lastFollowUpAt: daysAgo(7) }, offsets)).toBe(2);
+    });
+
+    it('counts business days when given the holiday calendar', () => {
+      jest.useFakeTimers({ now: new Date(2025, 5, 16, 8, 0) });
+      try {
+        // Due Friday Jun 6: 10 calendar days, but only 5 business days with Jun 12 a holiday
+        const invoice = { dueDate: new Date(2025, 5, 6), lastFollowUpLevel: 1, lastFollowUpAt: new Date(2025, 5, 9) };
+
+        expect(getDueFollowUpLevel(invoice, [3, 10])).toBe(2);
+        expect(getDueFollowUpLevel(invoice, [3, 10], new Set(['2025-06-12']))).toBeNull();
+        expect(getDueFollowUpLevel({ ...invoice, lastFollowUpLevel: 0 }, [3, 10], new Set(['2025-06-12']))).toBe(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('stops after the last configured level', () => {
+      expect(getDueFollowUpLevel({ dueDate: daysAgo(60), lastFollowUpLevel: 3, lastFollowUpAt: daysAgo(30) }, offsets)).toBeNull();
+      expect(getDueFollowUpLevel({ dueDate: daysAgo(60), lastFollowUpLevel: 1, lastFollowUpAt: daysAgo(30) }, [3])).toBeNull();
+    });
+  });
+
+  describe('getFollowingBillingDate', () => {
+    it('moves by the schedule frequency and clamps to the month length', () => {
+      expect(getFollowingBillingDate(new Date(2025, 0, 31), 31, 'MONTHLY')).toEqual(new Date(2025, 1, 28));
+      expect(getFollowingBillingDate(new Date(2025, 1, 28), 31, 'MONTHLY')).toEqual(new Date(2025, 2, 31));
+      expect(getFollowingBillingDate(new Date(2025, 10, 15), 15, 'QUARTERLY')).toEqual(new Date(2026, 1, 15));
+      expect(getFollowingBillingDate(new Date(2025, 3, 1), 1, 'CUSTOM', 10, 'DAYS')).toEqual(new Date(2025, 3, 11));
+    });
+  });
+
+  describe('triggerBillingJob catch-up', () => {
+    const missedSchedule = {
+      id: 'sched-1',
+      nextBillingDate: new Date(2025, 3, 15),
+      billingDayOfMonth: 15,
+      frequency: 'MONTHLY',
+      customIntervalValue: null,
+      customIntervalUnit: null,
+      endDate: null,
+      businessDayRule: 'NONE',
+      autoSendEnabled: false,
+      contract: { companyName: 'Acme Corp' },
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.useFakeTimers({ now: new Date(2025, 5, 20, 8, 0) });
+      prismaMock.jobRun.create.mockResolvedValue({ id: 'job-1' } as any);
+      (getSchedulesWithMissedRuns as jest.Mock).mockResolvedValue([missedSchedule]);
+      (getSchedulesDueToday as jest.Mock).mockResolvedValue([]);
+      (generateFromScheduledBilling as jest.Mock).mockImplementation(async (_id, options) => ({
+        invoice: {
+          id: `inv-${options.billingDate.getMonth()}`,
+          billingNo: 'S0000000001',
+          customerName: 'Acme Corp',
+          status: 'PENDING',
+        },
+      }));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('bills every missed period with its historical billing date', async () => {
+      // May was billed manually while the scheduler was down
+      (checkExistingInvoiceForPeriod as jest.Mock).mockImplementation(
+        async (_id, billingDate: Date) => billingDate.getMonth() === 4
+      );
+
+      const result = await triggerBillingJob();
+
+      expect((generateFromScheduledBilling as jest.Mock).mock.calls).toEqual([
+        ['sched-1', { billingDate: new Date(2025, 3, 15), isCatchUp: true }],
+        ['sched-1', { billingDate: new Date(2025, 5, 15), isCatchUp: true }],
+      ]);
+      expect(updateNextBillingDate).toHaveBeenCalledWith('sched-1', new Date(2025, 4, 15));
+      expect(result).toMatchObject({ processed: 2, caughtUp: 2, pendingApproval: 2, errors: [] });
+      expect(releaseJobLock).toHaveBeenCalledWith({ jobName: 'daily-billing-check', holder: 'test' }, 'COMPLETED', undefined);
+    });
+
+    it('refuses to run while another run holds the billing job lock', async () => {
+      (acquireJobLock as jest.Mock).mockResolvedValueOnce(null);
+
+      await expect(triggerBillingJob()).rejects.toThrow('Billing job is already running');
+      expect(prismaMock.jobRun.create).not.toHaveBeenCalled();
+      expect(getSchedulesWithMissedRuns).not.toHaveBeenCalled();
+      expect(releaseJobLock).not.toHaveBeenCalled();
+    });
+
+    it('releases the billing job lock when the run cannot be recorded', async () => {
+      prismaMock.jobRun.create.mockRejectedValueOnce(new Error('Connection lost'));
+
+      await expect(triggerBillingJob()).rejects.toThrow('Connection lost');
+      expect(releaseJobLock).toHaveBeenCalledWith(
+        { jobName: 'daily-billing-check', holder: 'test' },
+        'FAILED',
+        'Connection lost'
+      );
+    });
+
+    it('waits for the shifted billing date before catching up a period', async () => {
+      // Jun 15, 2025 is a Sunday and Jun 16-19 are holidays: the June period bills on Jun 20
+      (getSchedulesWithMissedRuns as jest.Mock).mockResolvedValue([
+        { ...missedSchedule, nextBillingDate: new Date(2025, 4, 15), businessDayRule: 'NEXT_BUSINESS_DAY' },
+      ]);
+      prismaMock.holiday.findMany.mockResolvedValue(
+        [16, 17, 18, 19].map((day) => ({ date: new Date(2025, 5, day) })) as any
+      );
+      (checkExistingInvoiceForPeriod as jest.Mock).mockResolvedValue(false);
+
+      await triggerBillingJob();
+
+      expect((generateFromScheduledBilling as jest.Mock).mock.calls).toEqual([
+        ['sched-1', { billingDate: new Date(2025, 4, 15), isCatchUp: true }],
+      ]);
+    });
+
+    it('stops catching up a schedule when a period fails', async () => {
+      (checkExistingInvoiceForPeriod as jest.Mock).mockResolvedValue(false);
+      (generateFromScheduledBilling as jest.Mock).mockRejectedValue(new Error('Contract not found'));
+
+      const result = await triggerBillingJob();
+
+      expect(generateFromScheduledBilling).toHaveBeenCalledTimes(1);
+      expect(result.caughtUp).toBe(0);
+      expect(result.errors).toEqual([
+        expect.objectContaining({ scheduleId: 'sched-1', catchUp: true, error: 'Contract not found' }),
+      ]);
+    });
+  });
+
+  describe('triggerDunningJob', () => {
+    const overdueInvoice = {
+      id: 'inv-1',
+      billingNo: 'S0000000001',
+      customerName: 'Test Client',
+      dueDate: daysAgo(12),
+      followUpEnabled: true,
+      companyId: 'company-1',
+      partnerId: null,
+      lastFollowUpLevel: 1,
+      lastFollowUpAt: daysAgo(9),
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      prismaMock.jobRun.create.mockResolvedValue({ id: 'job-1' } as any);
+      (getDunningSettings as jest.Mock).mockResolvedValue({ autoSendEnabled: true, dayOffsets: [3, 10, 20] });
+      (getFollowUpLadder as jest.Mock).mockResolvedValue({
+        scope: 'DEFAULT',
+        levels: [3, 10, 20].map((delayDays, index) => ({ level: index + 1, delayDays })),
+      });
+    });
+
+    it('notifies new overdue invoices and sends the due follow-up level', async () => {
+      prismaMock.invoice.findMany.mockResolvedValue([overdueInvoice] as any);
+      prismaMock.notification.findFirst.mockResolvedValue(null);
+      (sendFollowUpEmail as jest.Mock).mockResolvedValue({ success: true, level: 2 });
+
+      const result = await triggerDunningJob();
+
+      expect(prismaMock.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'INVOICE_OVERDUE', entityId: 'inv-1' }),
+      });
+      expect(sendFollowUpEmail).toHaveBeenCalledWith('inv-1');
+      expect(result).toMatchObject({ processed: 1, followUpsSent: 1, notified: 1, skipped: 0 });
+      expect(prismaMock.jobRun.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'COMPLETED', itemsProcessed: 1 }),
+      });
+    });
+
+    it('respects followUpEnabled and does not re-notify', async () => {
+      prismaMock.invoice.findMany.mockResolvedValue([{ ...overdueInvoice, followUpEnabled: false }] as any);
+      prismaMock.notification.findFirst.mockResolvedValue({ id: 'notif-1' } as any);
+
+      const result = await triggerDunningJob();
+
+      expect(prismaMock.notification.create).not.toHaveBeenCalled();
+      expect(sendFollowUpEmail).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ followUpsSent: 0, notified: 0, skipped: 1 });
+    });
+
+    it('uses the invoice ladder delays and caches them per scope', async () => {
+      prismaMock.invoice.findMany.mockResolvedValue([
+        overdueInvoice,
+        { ...overdueInvoice, id: 'inv-2' },
+      ] as any);
+      prismaMock.notification.findFirst.mockResolvedValue({ id: 'notif-1' } as any);
+      (getFollowUpLadder as jest.Mock).mockResolvedValue({
+        scope: 'COMPANY',
+        levels: [{ level: 1, delayDays: 3 }, { level: 2, delayDays: 30 }],
+      });
+
+      const result = await triggerDunningJob();
+
+      expect(getFollowUpLadder).toHaveBeenCalledTimes(1);
+      expect(getFollowUpLadder).toHaveBeenCalledWith({ companyId: 'company-1', partnerId: null });
+      expect(sendFollowUpEmail).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ followUpsSent: 0, skipped: 2 });
+    });
+
+    it('only notifies when automatic follow-ups are disabled', async () => {
+      (getDunningSettings as jest.Mock).mockResolvedValue({ autoSendEnabled: false, dayOffsets: [3, 10, 20] });
+      prismaMock.invoice.findMany.mockResolvedValue([overdueInvoice] as any);
+      prismaMock.notification.findFirst.mockResolvedValue(null);
+
+      const result = await triggerDunningJob();
+
+      expect(sendFollowUpEmail).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ notified: 1, followUpsSent: 0 });
+    });
+
+    it('holds the dunning job lock so overlapping runs never send a level twice', async () => {
+      prismaMock.invoice.findMany.mockResolvedValue([]);
+
+      await triggerDunningJob();
+      expect(acquireJobLock).toHaveBeenCalledWith('daily-dunning');
+      expect(releaseJobLock).toHaveBeenCalledWith(expect.anything(), 'COMPLETED', undefined);
+
+      (acquireJobLock as jest.Mock).mockResolvedValueOnce(null);
+      await expect(triggerDunningJob()).rejects.toThrow('Dunning job is already running');
+      expect(prismaMock.jobRun.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('triggerPriceNoticeJob', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      prismaMock.jobRun.create.mockResolvedValue({ id: 'job-1' } as any);
+    });
+
+    it('sends due notices under the price notice job lock', async () => {
+      (sendDuePriceChangeNotices as jest.Mock).mockResolvedValue({ processed: 1, sent: 1, skipped: 0, errors: [] });
+
+      const result = await triggerPriceNoticeJob();
+
+      expect(result).toMatchObject({ sent: 1 });
+      expect(acquireJobLock).toHaveBeenCalledWith('daily-price-notices');
+      expect(releaseJobLock).toHaveBeenCalledWith(expect.anything(), 'COMPLETED', undefined);
+    });
+
+    it('refuses to run while another run holds the lock', async () => {
+      (acquireJobLock as jest.Mock).mockResolvedValueOnce(null);
+
+      await expect(triggerPriceNoticeJob()).rejects.toThrow('Price notice job is already running');
+      expect(sendDuePriceChangeNotices).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSchedulerStatusAsync', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('lists the upcoming runs of the saved cron expression in the scheduler timezone', async () => {
+      // Sunday, Jun 29, 2025 02:00 UTC
+      jest.useFakeTimers({ now: new Date('2025-06-29T02:00:00Z') });
+      (getSchedulerSettings as jest.Mock).mockResolvedValue({ cronExpression: '0 9 * * mon', daysBeforeDue: 0 });
+
+      const status = await getSchedulerStatusAsync();
+
+      expect(status.config.cronExpression).toBe('0 9 * * mon');
+      const wallClock = status.upcomingRuns.map((run) =>
+        new Date(run).toLocaleString('en-US', {
+          timeZone: status.config.timezone,
+          weekday: 'short',
+          month: 'short',
+          day: 'numeric',
+          hour: 'numeric',
+        })
+      );
+      expect(wallClock.slice(0, 2)).toEqual(['Mon, Jun 30, 9 AM', 'Mon, Jul 7, 9 AM']);
+    });
+  });
+});
@@ -10,6 +10,7 @@ import {
   clearSettingsCache,
   getSOASettings,
   getSchedulerSettings,
+  getDunningSettings,
   getEmailSettings,
   getInvoiceTemplate,
   clearTemplateCache,
@@ -150,17 +151,23 @@ describe('Settings Module', () => {
       const result = await getSOASettings('YOWI');
 
       expect(result.bankName).toBe('BDO');
-      expect(result.bankAccountName).toBe('YAHSHUA OUTSOURCING WORLDWIDE INC.');
+      expect(result.bankAccountName).toBe('YOWI');
       expect(result.preparedBy).toBe('VANESSA L. DONOSO');
       expect(result.reviewedBy).toBe('RUTH MICHELLE C. BAYRON');
     });
 
-    it('returns ABBA defaults when company not found', async () => {
-      (mockPrisma.company.findUnique as jest.Mock).mockResolvedValue(null);
+    it('falls back to the company name for the bank account name', async () => {
+      (mockPrisma.company.findUnique as jest.Mock).mockResolvedValue({
+        ...mockCompany,
+        code: 'NEWCO',
+        name: 'NEW COMPANY INC.',
+        bankAccountName: null,
+      });
+      (mockPrisma.settings.findMany as jest.Mock).mockResolvedValue([]);
 
-      const result = await getSOASettings('ABBA');
+      const result = await getSOASettings('NEWCO');
 
-      expect(result.bankAccountName).toBe('THE ABBA INITIATIVE OPC');
+      expect(result.bankAccountName).toBe('NEW COMPANY INC.');
     });
 
     it('handles missing signatories gracefully', async () => {
@@ -224,10 +231,12 @@ describe('Settings Module', () => {
       expect(result.notes).toBe('Custom notes here');
     });
 
-    it('returns YOWI defaults when template not found', async () => {
+    it('returns defaults when template not found', async () => {
       (mockPrisma.company.findUnique as jest.Mock).mockResolvedValue({
         id: 'company-1',
         code: 'YOWI',
+        name: 'YAHSHUA OUTSOURCING WORLDWIDE INC.',
+        logoPath: '/assets/yowi-logo.png',
         template: null,
       });
 
@@ -238,22 +247,43 @@ describe('Settings Module', () => {
       expect(result.footerBgColor).toBe('#dbeafe');
       expect(result.invoiceTitle).toBe('Invoice');
       expect(result.footerText).toBe('Powered by: YAHSHUA');
+      expect(result.logoPath).toBe('/assets/yowi-logo.png');
       expect(result.showDisclaimer).toBe(true);
     });
 
-    it('returns ABBA defaults when template not found', async () => {
+    it('keeps the ABBA colours and logo when its template is not stored', async () => {
       (mockPrisma.company.findUnique as jest.Mock).mockResolvedValue({
         id: 'company-2',
         code: 'ABBA',
+        name: 'THE ABBA INITIATIVE OPC',
+        logoPath: null,
         template: null,
       });
 
       const result = await getInvoiceTemplate('ABBA');
 
-      expect(result.primaryColor).toBe('#059669');
-      expect(result.secondaryColor).toBe('#047857');
-      expect(result.footerBgColor).toBe('#d1fae5');
-      expect(result.footerText).toBe('Powered by: THE ABBA INITIATIVE');
+      expect(result).toMatchObject({
+        primaryColor: '#059669',
+        secondaryColor: '#047857',
+        footerBgColor: '#d1fae5',
+        logoPath: '/assets/abba-logo.png',
+        footerText: 'Powered by: THE ABBA INITIATIVE',
+      });
+    });
+
+    it('builds defaults from any company record', async () => {
+      (mockPrisma.company.findUnique as jest.Mock).mockResolvedValue({
+        id: 'company-3',
+        code: 'NEWCO',
+        name: 'NEW COMPANY INC.',
+        logoPath: null,
+        template: null,
+      });
+
+      const result = await getInvoiceTemplate('NEWCO');
+
+      expect(result.footerText).toBe('Powered by: NEW COMPANY INC.');
+      expect(result.logoPath).toBeUndefined();
     });
 
     it('caches template results', async () => {
@@ -308,6 +338,29 @@ describe('Settings Module', () => {
     });
   });
 
+  describe('getDunningSettings', () => {
+    it('returns dunning settings', async () => {
+      (mockPrisma.settings.findMany as jest.Mock).mockResolvedValue([
+        { key: 'followUp.autoSendEnabled', value: true },
+        { key: 'followUp.dayOffsets', value: [5, 15, 30] },
+      ]);
+
+      const result = await getDunningSettings();
+
+      expect(result.autoSendEnabled).toBe(true);
+      expect(result.dayOffsets).toEqual([5, 15, 30]);
+    });
+
+    it('returns defaults when no settings in database', async () => {
+      (mockPrisma.settings.findMany as jest.Mock).mockResolvedValue([]);
+
+      const result = await getDunningSettings();
+
+      expect(result.autoSendEnabled).toBe(false);
+      expect(result.dayOffsets).toEqual([3, 10, 20]);
+    });
+  });
+
   describe('getEmailSettings', () => {
     it('returns email settings', async () => {
       (mockPrisma.settings.findMany as jest.Mock).mockResolvedValue([
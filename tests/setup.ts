@@ -11,6 +11,8 @@ process.env.SMTP_USER = 'test@test.com';
 process.env.SMTP_PASSWORD = 'testpassword';
 process.env.EMAIL_FROM = 'billing@test.com';
 process.env.EMAIL_FROM_NAME = 'Test Billing';
+// Keep the business clock on the server timezone; business-time tests set their own
+process.env.BUSINESS_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
 // Suppress console logs during tests unless DEBUG is set
 if (!process.env.DEBUG) {
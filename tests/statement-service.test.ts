@@ -0,0 +1,240 @@
+/**
+ * Unit tests for the customer statement service
+ */
+
+import { prismaMock } from './mocks/prisma';
+import {
+  getCustomerStatement,
+  parseStatementParams,
+  sendCustomerStatement,
+} from '@/lib/statement-service';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+jest.mock('@/lib/email-service', () => ({
+  initEmailServiceFromEnv: jest.fn(),
+  getStatementTemplate: jest.fn(),
+  replacePlaceholders: jest.fn((text: string) => text),
+  generateEmailHtmlFromTemplate: jest.fn(() => '<p>html</p>'),
+  sendBillingEmail: jest.fn(),
+}));
+
+jest.mock('@/lib/settings', () => ({
+  getSOASettings: jest.fn().mockResolvedValue({}),
+  getInvoiceTemplate: jest.fn().mockResolvedValue(null),
+}));
+
+jest.mock('@/lib/pdf-generator', () => ({
+  generateStatementPdfLib: jest.fn().mockResolvedValue(new Uint8Array([37, 80, 68, 70])),
+}));
+
+import { getStatementTemplate, sendBillingEmail } from '@/lib/email-service';
+
+const company = {
+  id: 'company-1',
+  code: 'YOWI',
+  name: 'YAHSHUA Outsourcing Worldwide Inc.',
+  address: null,
+  tin: null,
+  contactNumber: null,
+  logoPath: null,
+};
+
+const params = {
+  customerName: 'Acme Corp',
+  billingEntity: 'YOWI',
+  from: new Date(2025, 3, 1),
+  to: new Date(2025, 5, 30),
+};
+
+function invoice(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'inv-1',
+    billingNo: 'S0000000001',
+    customerName: 'Acme Corp',
+    attention: null,
+    customerAddress: null,
+    customerTin: null,
+    customerEmail: 'billing@acme.test',
+    customerEmails: null,
+    statementDate: new Date(2025, 1, 1),
+    dueDate: new Date(2025, 1, 16),
+    periodDescription: null,
+    status: 'SENT',
+    netAmount: 10000,
+    paidAt: null,
+    paidAmount: null,
+    payments: [],
+    creditNotes: [],
+    ...overrides,
+  };
+}
+
+describe('Statement Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prismaMock.company.findUnique.mockResolvedValue(company as any);
+  });
+
+  describe('getCustomerStatement', () => {
+    it('rolls earlier activity into the opening balance and keeps a running balance', async () => {
+      prismaMock.invoice.findMany.mockResolvedValue([
+        invoice({
+          status: 'PARTIALLY_PAID',
+          payments: [
+            { amount: 4000, paidAt: new Date(2025, 2, 1), paymentMethod: 'BANK_TRANSFER', reference: null },
+            { amount: 1000, paidAt: new Date(2025, 4, 5), paymentMethod: 'CHECK', reference: 'CHK-1' },
+          ],
+        }),
+        invoice({
+          id: 'inv-2',
+          billingNo: 'S0000000002',
+          statementDate: new Date(2025, 4, 1),
+          dueDate: new Date(2025, 4, 16),
+          netAmount: 5000,
+          creditNotes: [{ creditNoteNo: 'CN-0001', amount: 500, issuedAt: new Date(2025, 4, 10), reason: 'Overbilled' }],
+        }),
+      ] as any);
+
+      const statement = await getCustomerStatement(params);
+
+      expect(statement.openingBalance).toBe(6000);
+      expect(statement.entries.map((e) => [e.type, e.balance])).toEqual([
+        ['INVOICE', 11000],
+        ['PAYMENT', 10000],
+        ['CREDIT_NOTE', 9500],
+      ]);
+      expect(statement).toMatchObject({
+        totalInvoiced: 5000,
+        totalPaid: 1000,
+        totalCredited: 500,
+        closingBalance: 9500,
+        latestInvoiceId: 'inv-2',
+      });
+      expect(statement.openInvoices.map((i) => [i.id, i.balance])).toEqual([
+        ['inv-1', 5000],
+        ['inv-2', 4500],
+      ]);
+    });
+
+    it('labels refunds and chargebacks as such and adds them back to the balance', async () => {
+      prismaMock.invoice.findMany.mockResolvedValue([
+        invoice({
+          statementDate: new Date(2025, 3, 5),
+          payments: [
+            { amount: 10000, paidAt: new Date(2025, 3, 10), paymentMethod: 'HITPAY', reference: 'hp-1', type: 'PAYMENT' },
+            { amount: -2000, paidAt: new Date(2025, 3, 12), paymentMethod: 'HITPAY', reference: 'hp-1', type: 'REFUND' },
+            { amount: -8000, paidAt: new Date(2025, 3, 15), paymentMethod: 'HITPAY', reference: 'hp-1', type: 'CHARGEBACK' },
+          ],
+        }),
+      ] as any);
+
+      const statement = await getCustomerStatement(params);
+
+      expect(statement.entries.map((e) => [e.description, e.balance])).toEqual([
+        ['Invoice', 10000],
+        ['Payment - hp-1 (hitpay)', 0],
+        ['Refund - hp-1 (hitpay)', 2000],
+        ['Chargeback - hp-1 (hitpay)', 10000],
+      ]);
+      expect(statement.totalPaid).toBe(0);
+    });
+
+    it('credits invoices marked paid without payment records', async () => {
+      prismaMock.invoice.findMany.mockResolvedValue([
+        invoice({ status: 'PAID', statementDate: new Date(2025, 3, 5), paidAt: new Date(2025, 3, 20), paidAmount: 10000 }),
+      ] as any);
+
+      const statement = await getCustomerStatement(params);
+
+      expect(statement.entries).toHaveLength(2);
+      expect(statement.closingBalance).toBe(0);
+      expect(statement.openInvoices).toHaveLength(0);
+    });
+
+    it('throws for an unknown billing entity', async () => {
+      prismaMock.company.findUnique.mockResolvedValue(null);
+
+      await expect(getCustomerStatement(params)).rejects.toThrow('Billing entity not found');
+    });
+  });
+
+  describe('parseStatementParams', () => {
+    it('requires a customer and validates the period', () => {
+      expect(parseStatementParams({ billingEntity: 'YOWI' })).toHaveProperty('error');
+      expect(parseStatementParams({ customerName: 'Acme', billingEntity: 'YOWI', from: 'bad' })).toHaveProperty('error');
+      expect(
+        parseStatementParams({ customerName: 'Acme', billingEntity: 'YOWI', from: '2025-06-01', to: '2025-01-01' })
+      ).toHaveProperty('error');
+      expect(parseStatementParams({ customerName: 'Acme', billingEntity: 'YOWI', to: '2025-06-30' })).toMatchObject({
+        from: new Date(2025, 0, 1),
+      });
+    });
+  });
+
+  describe('sendCustomerStatement', () => {
+    beforeEach(() => {
+      prismaMock.invoice.findMany.mockResolvedValue([invoice()] as any);
+    });
+
+    it('does not send without a statement template', async () => {
+      (getStatementTemplate as jest.Mock).mockResolvedValue(null);
+
+      const result = await sendCustomerStatement(params);
+
+      expect(result.success).toBe(false);
+      expect(sendBillingEmail).not.toHaveBeenCalled();
+    });
+
+    it('emails the PDF and records an audit log', async () => {
+      (getStatementTemplate as jest.Mock).mockResolvedValue({
+        subject: 'Statement',
+        greeting: 'Hi',
+        body: 'Body',
+        closing: 'Bye',
+      });
+      (sendBillingEmail as jest.Mock).mockResolvedValue({ success: true, messageId: 'msg-1' });
+
+      const result = await sendCustomerStatement(params, { userId: 'user-1' });
+
+      expect(result.success).toBe(true);
+      expect(sendBillingEmail).toHaveBeenCalledWith(
+        'inv-1',
+        'billing@acme.test',
+        'Statement',
+        expect.any(String),
+        '<p>html</p>',
+        expect.any(Buffer),
+        'SOA_Acme_Corp_2025-06-30.pdf'
+      );
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'STATEMENT_SENT', entityType: 'Company', entityId: 'company-1' }),
+      });
+    });
+
+    it('reports a statement left in the email queue as queued, not sent', async () => {
+      (getStatementTemplate as jest.Mock).mockResolvedValue({
+        subject: 'Statement',
+        greeting: 'Hi',
+        body: 'Body',
+        closing: 'Bye',
+      });
+      (sendBillingEmail as jest.Mock).mockResolvedValue({ success: true, emailLogId: 'log-1', queued: true });
+
+      const result = await sendCustomerStatement(params, { userId: 'user-1' });
+
+      expect(result).toEqual({
+        success: true,
+        queued: true,
+        message: 'Statement queued for delivery to billing@acme.test',
+      });
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ details: expect.objectContaining({ emailStatus: 'QUEUED' }) }),
+      });
+    });
+  });
+});
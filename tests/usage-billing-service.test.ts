@@ -0,0 +1,209 @@
+/**
+ * Unit tests for usage-based billing and the usage CSV import
+ */
+
+import { prismaMock } from './mocks/prisma';
+import {
+  calculateUsageCharge,
+  getScheduledBillingUsageCharge,
+  getScheduleUsagePricing,
+  importUsage,
+  validateUsageTiers,
+} from '@/lib/usage-billing-service';
+import { parseUsageCSV } from '@/lib/csv-parser';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+const JUNE = new Date(2025, 5, 1);
+
+function entry(quantity: number, month = JUNE) {
+  return { month, quantity, unit: 'employees' };
+}
+
+describe('Usage Billing Service', () => {
+  describe('calculateUsageCharge', () => {
+    it('bills usage x rate with the usage in the line description', () => {
+      const charge = calculateUsageCharge([entry(150)], { rate: 75, tiers: null, minimumFee: null }, 'Payroll Services - Jun 2025');
+
+      expect(charge).toMatchObject({ quantity: 150, amount: 11250, minimumApplied: false });
+      expect(charge.lines).toEqual([
+        {
+          description: 'Payroll Services - Jun 2025: 150 employees x 75.00',
+          quantity: 150,
+          unitPrice: 75,
+          amount: 11250,
+        },
+      ]);
+    });
+
+    it('bills each tier band at its own rate', () => {
+      const tiers = [{ upTo: 100, rate: 80 }, { upTo: 200, rate: 70 }, { upTo: null, rate: 60 }];
+      const charge = calculateUsageCharge([entry(250)], { rate: 0, tiers, minimumFee: null }, 'Payroll');
+
+      expect(charge.amount).toBe(8000 + 7000 + 3000);
+      expect(charge.lines.map((line) => line.description)).toEqual([
+        'Payroll: employees 1-100 (100 x 80.00)',
+        'Payroll: employees 101-200 (100 x 70.00)',
+        'Payroll: employees 201-250 (50 x 60.00)',
+      ]);
+    });
+
+    it('tops up to the minimum fee', () => {
+      const charge = calculateUsageCharge([entry(10)], { rate: 75, tiers: null, minimumFee: 5000 }, 'Payroll');
+
+      expect(charge).toMatchObject({ amount: 5000, minimumApplied: true });
+      expect(charge.lines[1]).toEqual({
+        description: 'Payroll: Minimum fee adjustment (minimum 5,000.00)',
+        quantity: 1,
+        unitPrice: 4250,
+        amount: 4250,
+      });
+    });
+
+    it('lists each month of a multi-month period', () => {
+      const charge = calculateUsageCharge(
+        [entry(110, new Date(2025, 4, 1)), entry(100, new Date(2025, 3, 1))],
+        { rate: 50, tiers: null, minimumFee: null },
+        'Payroll - Q2 2025'
+      );
+
+      expect(charge.quantity).toBe(210);
+      expect(charge.lines.map((line) => line.description)).toEqual([
+        'Payroll - Q2 2025 - Apr 2025: 100 employees x 50.00',
+        'Payroll - Q2 2025 - May 2025: 110 employees x 50.00',
+      ]);
+    });
+  });
+
+  describe('getScheduleUsagePricing', () => {
+    it('falls back to the contract rate per employee', () => {
+      expect(
+        getScheduleUsagePricing({
+          usageMetric: null,
+          usageRate: null,
+          usageTiers: null,
+          usageMinimumFee: null,
+          contract: { ratePerEmployee: 65 },
+        })
+      ).toEqual({ rate: 65, tiers: null, minimumFee: null });
+    });
+  });
+
+  describe('validateUsageTiers', () => {
+    it('requires ascending limits with only the last tier open-ended', () => {
+      expect(validateUsageTiers([{ upTo: 100, rate: 80 }, { upTo: null, rate: 70 }])).toBeNull();
+      expect(validateUsageTiers([])).not.toBeNull();
+      expect(validateUsageTiers([{ upTo: null, rate: 80 }, { upTo: 100, rate: 70 }])).toBe(
+        'Only the last tier can have no upper limit'
+      );
+      expect(validateUsageTiers([{ upTo: 100, rate: 80 }, { upTo: 50, rate: 70 }])).toBe(
+        'Tier 2 upTo must be a whole number above 100'
+      );
+    });
+  });
+
+  describe('getScheduledBillingUsageCharge', () => {
+    const schedule = {
+      contractId: 'contract-1',
+      usageMetric: null,
+      usageRate: 75,
+      usageTiers: null,
+      usageMinimumFee: null,
+      contract: { ratePerEmployee: null },
+    };
+    const period = { periodStart: JUNE, periodEnd: new Date(2025, 5, 30) };
+
+    it('bills the usage recorded for the period months', async () => {
+      prismaMock.contractUsage.findMany.mockResolvedValue([
+        { month: JUNE, quantity: 120, unit: 'employees' },
+      ] as any);
+
+      const charge = await getScheduledBillingUsageCharge(schedule, period, 'Payroll');
+
+      expect(charge.amount).toBe(9000);
+      expect(prismaMock.contractUsage.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { contractId: 'contract-1', metric: 'HEADCOUNT', month: { gte: JUNE, lte: period.periodEnd } },
+        })
+      );
+    });
+
+    it('fails when no usage is recorded', async () => {
+      prismaMock.contractUsage.findMany.mockResolvedValue([]);
+
+      await expect(getScheduledBillingUsageCharge(schedule, period, 'Payroll')).rejects.toThrow(
+        'No HEADCOUNT usage recorded for Jun 2025'
+      );
+    });
+  });
+
+  describe('parseUsageCSV', () => {
+    it('parses rows to usage months and reports invalid rows', () => {
+      const result = parseUsageCSV(
+        'customerNumber,month,quantity,notes\nYOWI-0001,2026-01,150,New hires\nYOWI-0002,2026-13,10,\nYOWI-0003,2026-01,1.5,'
+      );
+
+      expect(result.data).toEqual([
+        {
+          row: 2,
+          customerNumber: 'YOWI-0001',
+          companyName: undefined,
+          month: new Date(2026, 0, 1),
+          metric: 'HEADCOUNT',
+          unit: 'employees',
+          quantity: 150,
+          notes: 'New hires',
+        },
+      ]);
+      expect(result.errors.map((error) => error.row)).toEqual([3, 4]);
+    });
+
+    it('requires a contract column', () => {
+      const result = parseUsageCSV('month,quantity\n2026-01,150');
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0].message).toBe('Missing required columns: customerNumber or companyName');
+    });
+  });
+
+  describe('importUsage', () => {
+    it('matches contracts by customer number, then unique company name', async () => {
+      prismaMock.contract.findMany.mockResolvedValue([
+        { id: 'c1', companyName: 'Acme Corp', customerNumber: 'YOWI-0001' },
+        { id: 'c2', companyName: 'Beta Inc', customerNumber: null },
+        { id: 'c3', companyName: 'Twin Co', customerNumber: null },
+        { id: 'c4', companyName: 'Twin Co', customerNumber: null },
+      ] as any);
+      prismaMock.contractUsage.findMany.mockResolvedValue([
+        { contractId: 'c1', month: new Date(2026, 0, 1), metric: 'HEADCOUNT' },
+      ] as any);
+
+      const base = { month: new Date(2026, 0, 1), metric: 'HEADCOUNT', unit: 'employees', quantity: 10 };
+      const result = await importUsage([
+        { ...base, row: 2, customerNumber: 'yowi-0001' },
+        { ...base, row: 3, companyName: 'Beta Inc' },
+        { ...base, row: 4, companyName: 'Twin Co' },
+        { ...base, row: 5, customerNumber: 'MISSING' },
+      ]);
+
+      expect(result).toEqual({
+        created: 1,
+        updated: 1,
+        skipped: 2,
+        errors: [
+          { row: 4, message: 'Multiple contracts named "Twin Co" - use customerNumber' },
+          { row: 5, message: 'Contract not found: MISSING' },
+        ],
+      });
+      expect(prismaMock.contractUsage.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { contractId_month_metric: { contractId: 'c2', month: new Date(2026, 0, 1), metric: 'HEADCOUNT' } },
+        })
+      );
+    });
+  });
+});
@@ -176,27 +176,29 @@ describe('calculateBilling', () => {
 });
 
 describe('getBillingEntity', () => {
-  it('returns YOWI for YOWI partners', () => {
-    expect(getBillingEntity('Globe')).toBe('YOWI');
-    expect(getBillingEntity('Innove')).toBe('YOWI');
-    expect(getBillingEntity('RCBC')).toBe('YOWI');
-    expect(getBillingEntity('Direct-YOWI')).toBe('YOWI');
-  });
+  const partners = [
+    { code: 'Globe', name: 'Globe Telecom', company: { code: 'YOWI' } },
+    { code: 'RCBC', name: 'Rizal Commercial Banking Corporation', company: { code: 'YOWI' } },
+    { code: 'Direct-ABBA', name: 'Direct ABBA', company: { code: 'ABBA' } },
+    { code: 'Direct-NEWCO', name: 'Direct NEWCO', company: { code: 'NEWCO' } },
+  ];
 
-  it('returns YOWI for case-insensitive matches', () => {
-    expect(getBillingEntity('globe')).toBe('YOWI');
-    expect(getBillingEntity('GLOBE')).toBe('YOWI');
-    expect(getBillingEntity('Globe Communications')).toBe('YOWI');
+  it('returns the company code of the matching partner', () => {
+    expect(getBillingEntity('Globe', partners)).toBe('YOWI');
+    expect(getBillingEntity('Direct-ABBA', partners)).toBe('ABBA');
+    expect(getBillingEntity('Direct-NEWCO', partners)).toBe('NEWCO');
   });
 
-  it('returns ABBA for other partners', () => {
-    expect(getBillingEntity('Direct-ABBA')).toBe('ABBA');
-    expect(getBillingEntity('Other Company')).toBe('ABBA');
+  it('matches partner code or name case-insensitively', () => {
+    expect(getBillingEntity('GLOBE', partners)).toBe('YOWI');
+    expect(getBillingEntity('rizal commercial banking corporation', partners)).toBe('YOWI');
+    expect(getBillingEntity('Globe Communications', partners)).toBe('YOWI');
   });
 
-  it('returns ABBA for null or undefined', () => {
-    expect(getBillingEntity(null)).toBe('ABBA');
-    expect(getBillingEntity(undefined)).toBe('ABBA');
+  it('returns null for unknown, null or undefined partners', () => {
+    expect(getBillingEntity('Other Company', partners)).toBeNull();
+    expect(getBillingEntity(null, partners)).toBeNull();
+    expect(getBillingEntity(undefined, partners)).toBeNull();
   });
 });
 
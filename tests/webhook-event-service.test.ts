@@ -0,0 +1,120 @@
+/**
+ * Unit tests for storing and replaying payment webhook events
+ */
+
+import { prismaMock } from './mocks/prisma';
+import { receivePaymentWebhook, replayWebhookEvent } from '@/lib/webhook-event-service';
+import { processPaymentWebhook } from '@/lib/payment-gateway';
+import { hitpayGateway } from '@/lib/hitpay-service';
+
+// Mock the Prisma module
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: prismaMock,
+}));
+
+jest.mock('@/lib/payment-gateway', () => ({
+  ...jest.requireActual('@/lib/payment-gateway'),
+  processPaymentWebhook: jest.fn(),
+}));
+
+const BODY = '{"id":"hp-req-1","status":"completed"}';
+
+function result(outcome: string, signatureValid: boolean | null = true) {
+  return { outcome, providerStatus: 'completed', providerRequestId: 'hp-req-1', paymentReference: 'hp-pay-1', signatureValid };
+}
+
+describe('Webhook Event Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date(2025, 5, 20, 8, 0) });
+    prismaMock.webhookEvent.create.mockResolvedValue({ id: 'event-1' } as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('receivePaymentWebhook', () => {
+    it('stores the webhook as received, without credentials headers', async () => {
+      (processPaymentWebhook as jest.Mock).mockResolvedValue(result('PROCESSED'));
+      const headers = new Headers({ 'Hitpay-Signature': 'abc', Cookie: 'session=1', 'Content-Type': 'application/json' });
+
+      await receivePaymentWebhook(hitpayGateway, BODY, headers);
+
+      expect(prismaMock.webhookEvent.create).toHaveBeenCalledWith({
+        data: {
+          provider: 'HITPAY',
+          headers: { 'hitpay-signature': 'abc', 'content-type': 'application/json' },
+          rawBody: BODY,
+        },
+      });
+    });
+
+    it('records the verification result and processing outcome', async () => {
+      (processPaymentWebhook as jest.Mock).mockResolvedValue(result('REJECTED', false));
+
+      await receivePaymentWebhook(hitpayGateway, BODY, new Headers());
+
+      expect(prismaMock.webhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: {
+          status: 'REJECTED',
+          outcome: 'REJECTED',
+          signatureValid: false,
+          providerRequestId: 'hp-req-1',
+          paymentReference: 'hp-pay-1',
+          error: null,
+          processedAt: new Date(2025, 5, 20, 8, 0),
+        },
+      });
+    });
+
+    it('records processing errors before rethrowing them', async () => {
+      (processPaymentWebhook as jest.Mock).mockRejectedValue(new Error('Unexpected token'));
+
+      await expect(receivePaymentWebhook(hitpayGateway, 'not json', new Headers())).rejects.toThrow('Unexpected token');
+      expect(prismaMock.webhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: { status: 'FAILED', error: 'Unexpected token', processedAt: new Date(2025, 5, 20, 8, 0) },
+      });
+    });
+  });
+
+  describe('replayWebhookEvent', () => {
+    it('processes the stored body and headers again and counts the replay', async () => {
+      prismaMock.webhookEvent.findUnique.mockResolvedValue({
+        id: 'event-1',
+        provider: 'HITPAY',
+        headers: { 'hitpay-signature': 'abc' },
+        rawBody: BODY,
+        status: 'REJECTED',
+        providerRequestId: 'hp-req-1',
+      } as any);
+      (processPaymentWebhook as jest.Mock).mockResolvedValue(result('PROCESSED'));
+
+      await replayWebhookEvent('event-1', 'admin-1');
+
+      const [, rawBody, headers] = (processPaymentWebhook as jest.Mock).mock.calls[0];
+      expect(rawBody).toBe(BODY);
+      expect(headers.get('Hitpay-Signature')).toBe('abc');
+      expect(prismaMock.webhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: expect.objectContaining({ status: 'PROCESSED', replayCount: { increment: 1 } }),
+      });
+      expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'admin-1',
+          action: 'WEBHOOK_EVENT_REPLAYED',
+          details: expect.objectContaining({ previousStatus: 'REJECTED', outcome: 'PROCESSED' }),
+        }),
+      });
+    });
+
+    it('throws for unknown events', async () => {
+      prismaMock.webhookEvent.findUnique.mockResolvedValue(null);
+
+      await expect(replayWebhookEvent('missing', 'admin-1')).rejects.toThrow('Webhook event not found');
+    });
+  });
+});